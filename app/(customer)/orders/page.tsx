@@ -1,6 +1,15 @@
 import { redirect } from 'next/navigation'
 
-// Orders view is handled by the main CustomerPortal component
-export default function OrdersPage() {
-  redirect('/')
+interface OrdersPageProps {
+  searchParams: { order?: string }
+}
+
+// Orders view is handled by the main CustomerPortal component; a receipt's
+// QR code lands here with the order it was printed for
+export default function OrdersPage({ searchParams }: OrdersPageProps) {
+  const query = new URLSearchParams({ view: 'orders' })
+  if (searchParams.order) {
+    query.set('order', searchParams.order)
+  }
+  redirect(`/?${query}`)
 }
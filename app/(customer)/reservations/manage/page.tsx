@@ -0,0 +1,225 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSearchParams, useRouter } from 'next/navigation'
+import { CalendarCheck, XCircle, Spinner, Minus, Plus } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import {
+  useManagedReservation,
+  useReservationSlots,
+  rescheduleManagedReservation,
+  cancelManagedReservation,
+} from '@/lib/hooks/use-reservations'
+
+export default function ManageReservationPage() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const token = searchParams.get('token')
+  const { reservation, isLoading, error } = useManagedReservation(token)
+
+  const [mode, setMode] = useState<'view' | 'reschedule' | 'cancel'>('view')
+  const [date, setDate] = useState('')
+  const [partySize, setPartySize] = useState(2)
+  const [time, setTime] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const { slots, closed, reason: closedReason, isLoading: loadingSlots } = useReservationSlots({
+    location: mode === 'reschedule' && reservation ? reservation.location.id : '',
+    date,
+    partySize,
+  })
+
+  useEffect(() => {
+    if (reservation) {
+      setDate(reservation.date)
+      setPartySize(reservation.partySize)
+    }
+  }, [reservation])
+
+  useEffect(() => {
+    setTime('')
+  }, [date, partySize])
+
+  const handleReschedule = async () => {
+    if (!token || !time) return
+    setSaving(true)
+    try {
+      await rescheduleManagedReservation(token, { date, startTime: time, partySize })
+      toast.success('Your booking has been changed')
+      setMode('view')
+    } catch (err: any) {
+      toast.error(err.message || 'Could not change the booking')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!token) return
+    setSaving(true)
+    try {
+      const { reservation: cancelled } = await cancelManagedReservation(token, reason.trim() || undefined)
+      const depositStatus = cancelled.deposit?.status
+      toast.success(
+        depositStatus === 'REFUND_PENDING' ? 'Your booking has been cancelled. We couldn\'t refund your deposit automatically; our team will contact you to pay it back.'
+          : depositStatus === 'REFUNDED' ? 'Your booking has been cancelled and your deposit refunded'
+            : 'Your booking has been cancelled'
+      )
+      setMode('view')
+    } catch (err: any) {
+      toast.error(err.message || 'Could not cancel the booking')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#121212] flex items-center justify-center p-4 text-white font-sans">
+      <div className="max-w-md w-full bg-white/5 border border-white/10 rounded-[2.5rem] p-10 shadow-2xl backdrop-blur-xl">
+        {(isLoading || (!!token && !reservation && !error)) && (
+          <div className="flex justify-center py-12">
+            <Spinner className="animate-spin text-primary" size={64} weight="bold" />
+          </div>
+        )}
+
+        {(!token || (error && !reservation)) && (
+          <div className="space-y-8 text-center animate-in zoom-in duration-500">
+            <div className="flex justify-center">
+              <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center shadow-lg shadow-red-500/20">
+                <XCircle className="text-white" size={40} weight="fill" />
+              </div>
+            </div>
+            <div>
+              <h2 className="text-3xl font-black uppercase tracking-tighter mb-2">Booking Not Found</h2>
+              <p className="text-white/60 font-medium">This link is invalid. Please use the link from your confirmation message or call the restaurant.</p>
+            </div>
+            <Button
+              onClick={() => router.push('/')}
+              variant="outline"
+              className="w-full h-14 border-white/10 text-white font-black uppercase rounded-2xl text-lg hover:bg-white/5"
+            >
+              Back to Home
+            </Button>
+          </div>
+        )}
+
+        {reservation && (
+          <div className="space-y-8">
+            <div className="text-center space-y-2">
+              <div className="text-[10px] font-black text-primary uppercase tracking-widest">{reservation.reservationNumber}</div>
+              <h2 className="text-3xl font-black uppercase tracking-tighter">{reservation.location.name}</h2>
+              <p className="text-white/60 font-medium">
+                {new Date(`${reservation.date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' })}
+                {' at '}{reservation.time} · {reservation.partySize} {reservation.partySize === 1 ? 'guest' : 'guests'}
+              </p>
+              <div className={cn(
+                'inline-block px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest',
+                reservation.status === 'CANCELLED' ? 'bg-red-500/10 text-red-500' : 'bg-green-500/10 text-green-500'
+              )}>
+                {reservation.status.replace(/_/g, ' ')}
+              </div>
+            </div>
+
+            {!reservation.canChange && reservation.changeBlockedReason && (
+              <p className="text-center text-sm text-white/60">
+                {reservation.changeBlockedReason}
+                {reservation.location.phone && <> · <span className="font-mono">{reservation.location.phone}</span></>}
+              </p>
+            )}
+
+            {reservation.canChange && mode === 'view' && (
+              <div className="grid grid-cols-2 gap-3">
+                <Button onClick={() => setMode('reschedule')} className="h-12 bg-primary text-black font-black uppercase rounded-2xl">
+                  Change
+                </Button>
+                <Button
+                  onClick={() => setMode('cancel')}
+                  variant="outline"
+                  className="h-12 border-white/10 text-white font-black uppercase rounded-2xl hover:bg-white/5"
+                >
+                  Cancel Booking
+                </Button>
+              </div>
+            )}
+
+            {reservation.canChange && mode === 'reschedule' && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex items-center gap-3">
+                    <Button variant="outline" size="icon" onClick={() => setPartySize(size => Math.max(1, size - 1))}>
+                      <Minus weight="bold" />
+                    </Button>
+                    <span className="text-xl font-black w-8 text-center">{partySize}</span>
+                    <Button variant="outline" size="icon" onClick={() => setPartySize(size => Math.min(50, size + 1))}>
+                      <Plus weight="bold" />
+                    </Button>
+                  </div>
+                  <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="bg-white/5 border-white/10" />
+                </div>
+
+                {loadingSlots ? (
+                  <div className="flex justify-center py-6">
+                    <Spinner className="animate-spin text-primary" size={28} weight="bold" />
+                  </div>
+                ) : closed ? (
+                  <p className="text-center text-sm text-white/60">{closedReason || 'No bookings are taken on this day'}</p>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {slots.map(slot => (
+                      <button
+                        key={slot.time}
+                        disabled={!slot.available}
+                        onClick={() => setTime(slot.time)}
+                        className={cn(
+                          'py-2 rounded-lg text-xs font-black font-mono border transition-all',
+                          time === slot.time ? 'bg-primary text-black border-primary' : 'bg-white/5 border-white/10',
+                          !slot.available && 'opacity-30 line-through cursor-not-allowed'
+                        )}
+                      >
+                        {slot.time}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <Button variant="ghost" onClick={() => setMode('view')} className="h-12 font-black uppercase rounded-2xl">
+                    Back
+                  </Button>
+                  <Button onClick={handleReschedule} disabled={!time || saving} className="h-12 bg-primary text-black font-black uppercase rounded-2xl gap-2">
+                    {saving ? <Spinner className="animate-spin" /> : <CalendarCheck weight="fill" />}
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {reservation.canChange && mode === 'cancel' && (
+              <div className="space-y-4">
+                <Textarea
+                  placeholder="Reason (optional)"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="bg-white/5 border-white/10"
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <Button variant="ghost" onClick={() => setMode('view')} className="h-12 font-black uppercase rounded-2xl">
+                    Keep It
+                  </Button>
+                  <Button onClick={handleCancel} disabled={saving} className="h-12 bg-red-500 hover:bg-red-600 text-white font-black uppercase rounded-2xl">
+                    {saving ? <Spinner className="animate-spin" /> : 'Cancel Booking'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
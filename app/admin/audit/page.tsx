@@ -0,0 +1,241 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuditLogs, type AuditLogEntry } from '@/lib/hooks/use-audit'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+
+const ENTITY_TYPES = [
+    { value: 'menu_item', label: 'Menu items' },
+    { value: 'category', label: 'Categories' },
+    { value: 'order', label: 'Orders' },
+    { value: 'transaction', label: 'Payments' },
+    { value: 'location_stock', label: 'Stock' },
+    { value: 'pos_shift', label: 'Shifts' },
+    { value: 'settings', label: 'Settings' },
+    { value: 'smtp_settings', label: 'Email settings' },
+    { value: 'branding', label: 'Branding' },
+    { value: 'location', label: 'Locations' },
+    { value: 'loyalty_tier', label: 'Loyalty tiers' },
+    { value: 'loyalty_rule', label: 'Loyalty rules' },
+    { value: 'promotion', label: 'Promotions' },
+    { value: 'message_template', label: 'Message templates' },
+    { value: 'stock_count', label: 'Stock counts' },
+    { value: 'purchase_order', label: 'Purchase orders' },
+    { value: 'purchase_approval_limit', label: 'Approval limits' },
+    { value: 'cash_drawer_event', label: 'Cash drawer' },
+    { value: 'reservation', label: 'Reservations' },
+    { value: 'reservation_settings', label: 'Reservation settings' },
+    { value: 'hours_exception', label: 'Closures and special hours' },
+]
+
+const ACTIONS = ['create', 'update', 'delete', 'void', 'discount', 'refund', 'adjust', 'close', 'approve', 'reprint']
+
+const PAGE_SIZE = 50
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '—'
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+}
+
+function AuditChanges({ log }: { log: AuditLogEntry }) {
+    const fields = Array.from(new Set([
+        ...Object.keys(log.oldValues ?? {}),
+        ...Object.keys(log.newValues ?? {}),
+    ]))
+
+    if (fields.length === 0) {
+        return <span className="text-muted-foreground">—</span>
+    }
+
+    return (
+        <ul className="space-y-1">
+            {fields.map(field => (
+                <li key={field} className="text-xs">
+                    <span className="font-medium">{field}: </span>
+                    {log.oldValues && (
+                        <span className="text-red-600 line-through mr-1">{formatValue(log.oldValues[field])}</span>
+                    )}
+                    {log.newValues && (
+                        <span className="text-green-700">{formatValue(log.newValues[field])}</span>
+                    )}
+                </li>
+            ))}
+        </ul>
+    )
+}
+
+export default function AuditLogPage() {
+    const [user, setUser] = useState('')
+    const [entityType, setEntityType] = useState('')
+    const [entityId, setEntityId] = useState('')
+    const [action, setAction] = useState('')
+    const [from, setFrom] = useState('')
+    const [to, setTo] = useState('')
+    const [page, setPage] = useState(1)
+
+    const { logs, pagination, isLoading } = useAuditLogs({
+        user, entityType, entityId, action, from, to, page, limit: PAGE_SIZE,
+    })
+
+    // Any filter change starts again from the newest entries
+    const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+        setter(value)
+        setPage(1)
+    }
+
+    const getActionBadgeVariant = (value: string): 'default' | 'secondary' | 'destructive' | 'outline' => {
+        switch (value) {
+            case 'create': return 'default'
+            case 'delete':
+            case 'void':
+            case 'refund': return 'destructive'
+            case 'update': return 'secondary'
+            default: return 'outline'
+        }
+    }
+
+    return (
+        <div className="container mx-auto p-6 space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold">Audit Log</h1>
+                <p className="text-muted-foreground">Who changed what, and when</p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Filters</CardTitle>
+                    <CardDescription>Narrow the trail by user, record, action or date</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                    <div className="relative lg:col-span-2">
+                        <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            placeholder="User email or ID"
+                            value={user}
+                            onChange={(e) => withReset(setUser)(e.target.value)}
+                            className="pl-10"
+                        />
+                    </div>
+                    <select
+                        className="h-9 rounded-md border px-3"
+                        value={entityType}
+                        onChange={(e) => withReset(setEntityType)(e.target.value)}
+                    >
+                        <option value="">All records</option>
+                        {ENTITY_TYPES.map(type => (
+                            <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        className="h-9 rounded-md border px-3"
+                        value={action}
+                        onChange={(e) => withReset(setAction)(e.target.value)}
+                    >
+                        <option value="">All actions</option>
+                        {ACTIONS.map(value => (
+                            <option key={value} value={value}>{value}</option>
+                        ))}
+                    </select>
+                    <Input
+                        type="date"
+                        value={from}
+                        onChange={(e) => withReset(setFrom)(e.target.value)}
+                        aria-label="From"
+                    />
+                    <Input
+                        type="date"
+                        value={to}
+                        onChange={(e) => withReset(setTo)(e.target.value)}
+                        aria-label="To"
+                    />
+                    <Input
+                        placeholder="Record ID"
+                        value={entityId}
+                        onChange={(e) => withReset(setEntityId)(e.target.value)}
+                        className="lg:col-span-2"
+                    />
+                </CardContent>
+            </Card>
+
+            {isLoading ? (
+                <div className="py-8 text-center">Loading...</div>
+            ) : logs.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">No audit entries match these filters</div>
+            ) : (
+                <div className="border rounded-lg overflow-hidden">
+                    <table className="w-full">
+                        <thead className="bg-muted">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-sm font-medium">When</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">User</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Action</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Record</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Changes</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {logs.map(log => (
+                                <tr key={log.id} className="border-t align-top hover:bg-muted/50">
+                                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                                        {format(new Date(log.createdAt), 'MMM d, yyyy HH:mm')}
+                                    </td>
+                                    <td className="px-4 py-3 text-sm">
+                                        {log.userEmail || log.userId || 'System'}
+                                        {log.ipAddress && (
+                                            <div className="text-xs text-muted-foreground">{log.ipAddress}</div>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <Badge variant={getActionBadgeVariant(log.action)}>{log.action}</Badge>
+                                    </td>
+                                    <td className="px-4 py-3 text-sm">
+                                        {ENTITY_TYPES.find(type => type.value === log.entityType)?.label || log.entityType}
+                                        {log.entityId && (
+                                            <button
+                                                type="button"
+                                                className="block text-xs font-mono text-muted-foreground hover:underline"
+                                                onClick={() => withReset(setEntityId)(log.entityId ?? '')}
+                                            >
+                                                {log.entityId}
+                                            </button>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <AuditChanges log={log} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-muted-foreground">
+                        Page {pagination.page} of {pagination.totalPages} ({pagination.total} entries)
+                    </p>
+                    <div className="flex gap-2">
+                        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                            Previous
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={page >= pagination.totalPages}
+                            onClick={() => setPage(page + 1)}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useLocations } from '@/lib/hooks/use-locations'
+import { useAreas } from '@/lib/hooks/use-tables'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { LiveFloorView } from '@/src/components/admin/LiveFloorView'
+import { FloorPlanEditor } from '@/src/components/admin/FloorPlanEditor'
+import { Squares2X2Icon, PencilSquareIcon } from '@heroicons/react/24/outline'
+
+export default function FloorPage() {
+    const { data: session } = useSession()
+    const { data: locations = [] } = useLocations()
+    const [locationId, setLocationId] = useState('')
+    // Staff tied to a location work its floor; others pick one
+    const userLocationId = (session?.user as { locationId?: string } | undefined)?.locationId
+    const selectedLocationId = userLocationId || locationId || locations[0]?.id || ''
+
+    const { areas } = useAreas(selectedLocationId || undefined)
+    const [areaId, setAreaId] = useState('')
+    const selectedAreaId = areas.some((area: { id: string }) => area.id === areaId) ? areaId : areas[0]?.id || ''
+
+    return (
+        <div className="container mx-auto p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold">Floor</h1>
+                    <p className="text-muted-foreground">Watch the floor live and arrange each area&apos;s tables</p>
+                </div>
+                {!userLocationId && locations.length > 1 && (
+                    <select
+                        className="h-9 rounded-md border px-3"
+                        value={selectedLocationId}
+                        onChange={(e) => setLocationId(e.target.value)}
+                    >
+                        {locations.map(location => (
+                            <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {!selectedLocationId ? (
+                <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground">
+                        Add a location to set up its floor
+                    </CardContent>
+                </Card>
+            ) : (
+                <Tabs defaultValue="live" className="space-y-4">
+                    <TabsList>
+                        <TabsTrigger value="live">
+                            <Squares2X2Icon className="h-4 w-4 mr-2" />
+                            Live Floor
+                        </TabsTrigger>
+                        <TabsTrigger value="layout">
+                            <PencilSquareIcon className="h-4 w-4 mr-2" />
+                            Edit Layout
+                        </TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="live">
+                        <LiveFloorView locationId={selectedLocationId} />
+                    </TabsContent>
+
+                    <TabsContent value="layout" className="space-y-4">
+                        {areas.length === 0 ? (
+                            <Card>
+                                <CardContent className="py-12 text-center text-muted-foreground">
+                                    No areas at this location yet
+                                </CardContent>
+                            </Card>
+                        ) : (
+                            <>
+                                <div className="flex flex-wrap gap-2">
+                                    {areas.map((area: { id: string; name: string }) => (
+                                        <Button
+                                            key={area.id}
+                                            size="sm"
+                                            variant={area.id === selectedAreaId ? 'default' : 'outline'}
+                                            onClick={() => setAreaId(area.id)}
+                                        >
+                                            {area.name}
+                                        </Button>
+                                    ))}
+                                </div>
+                                <FloorPlanEditor areaId={selectedAreaId} />
+                            </>
+                        )}
+                    </TabsContent>
+                </Tabs>
+            )}
+        </div>
+    )
+}
@@ -2,7 +2,23 @@
 
 import { useState } from 'react'
 import Link from 'next/link'
-import { useInventoryItems, useStockAlerts, useSuppliers, usePurchaseOrders } from '@/lib/hooks/use-inventory'
+import {
+    useInventoryItems,
+    useStockAlerts,
+    useSuppliers,
+    usePurchaseOrders,
+    usePurchaseOrderSuggestions,
+    createSuggestedPurchaseOrders,
+    submitPurchaseOrder,
+    approvePurchaseOrder,
+    returnPurchaseOrder,
+    sendPurchaseOrder,
+    useStockCounts,
+    approveStockCount,
+    requestStockRecount,
+} from '@/lib/hooks/use-inventory'
+import { useLocations } from '@/lib/hooks/use-locations'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -14,6 +30,7 @@ import {
     TruckIcon,
     DocumentTextIcon,
     MagnifyingGlassIcon,
+    ClipboardDocumentCheckIcon,
 } from '@heroicons/react/24/outline'
 
 export default function InventoryDashboardPage() {
@@ -21,10 +38,24 @@ export default function InventoryDashboardPage() {
     const { items, pagination, isLoading } = useInventoryItems({ search, limit: 20 })
     const { lowStock, expiring } = useStockAlerts()
     const { suppliers } = useSuppliers()
-    const { orders: purchaseOrders } = usePurchaseOrders({ status: 'PENDING,APPROVED,ORDERED' })
+    const { orders: purchaseOrders } = usePurchaseOrders({ status: 'DRAFT,PENDING,APPROVED,SENT,PARTIAL' })
+    const { counts: stockCounts } = useStockCounts()
+    const { data: locations = [] } = useLocations()
+    const [reorderLocationId, setReorderLocationId] = useState('')
+    const selectedReorderLocationId = reorderLocationId || locations[0]?.id || ''
+    const { suppliers: suggestions } = usePurchaseOrderSuggestions(selectedReorderLocationId)
+
+    const handleAction = async (action: () => Promise<unknown>, success: string) => {
+        try {
+            await action()
+            toast.success(success)
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Action failed')
+        }
+    }
 
     const pendingPOs = purchaseOrders.filter((po: { status: string }) =>
-        ['PENDING', 'APPROVED', 'ORDERED'].includes(po.status)
+        ['PENDING', 'APPROVED', 'SENT', 'PARTIAL'].includes(po.status)
     ).length
 
     return (
@@ -105,6 +136,10 @@ export default function InventoryDashboardPage() {
                         <DocumentTextIcon className="h-4 w-4 mr-2" />
                         Purchase Orders
                     </TabsTrigger>
+                    <TabsTrigger value="counts">
+                        <ClipboardDocumentCheckIcon className="h-4 w-4 mr-2" />
+                        Stock Counts
+                    </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="items" className="space-y-4">
@@ -243,6 +278,33 @@ export default function InventoryDashboardPage() {
                 </TabsContent>
 
                 <TabsContent value="orders" className="space-y-4">
+                    <Card>
+                        <CardContent className="p-4 flex flex-wrap items-center gap-4">
+                            <select
+                                className="h-9 rounded-md border px-3"
+                                value={selectedReorderLocationId}
+                                onChange={(e) => setReorderLocationId(e.target.value)}
+                            >
+                                {locations.map(location => (
+                                    <option key={location.id} value={location.id}>{location.name}</option>
+                                ))}
+                            </select>
+                            <p className="text-sm text-muted-foreground flex-1">
+                                {suggestions.length === 0
+                                    ? 'Nothing needs reordering at this location'
+                                    : `${suggestions.reduce((sum: number, s: { lines: unknown[] }) => sum + s.lines.length, 0)} items below their reorder point across ${suggestions.length} suppliers`}
+                            </p>
+                            <Button
+                                disabled={suggestions.length === 0}
+                                onClick={() => handleAction(
+                                    () => createSuggestedPurchaseOrders(selectedReorderLocationId),
+                                    'Draft purchase orders created'
+                                )}
+                            >
+                                Create draft POs
+                            </Button>
+                        </CardContent>
+                    </Card>
                     <div className="border rounded-lg overflow-hidden">
                         <table className="w-full">
                             <thead className="bg-muted">
@@ -252,10 +314,19 @@ export default function InventoryDashboardPage() {
                                     <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
                                     <th className="px-4 py-3 text-right text-sm font-medium">Total</th>
                                     <th className="px-4 py-3 text-left text-sm font-medium">Date</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium">Actions</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {purchaseOrders.map((po: { id: string; poNumber: string; supplier: { name: string }; status: string; total: number; createdAt: string }) => (
+                                {purchaseOrders.map((po: {
+                                    id: string
+                                    poNumber: string
+                                    supplier: { name: string }
+                                    status: string
+                                    total: number
+                                    createdAt: string
+                                    sendError: string | null
+                                }) => (
                                     <tr key={po.id} className="border-t hover:bg-muted/50">
                                         <td className="px-4 py-3 text-sm font-mono">{po.poNumber}</td>
                                         <td className="px-4 py-3 text-sm">{po.supplier?.name}</td>
@@ -268,6 +339,116 @@ export default function InventoryDashboardPage() {
                                         <td className="px-4 py-3 text-sm text-muted-foreground">
                                             {new Date(po.createdAt).toLocaleDateString()}
                                         </td>
+                                        <td className="px-4 py-3 space-x-2">
+                                            {po.status === 'DRAFT' && (
+                                                <Button
+                                                    size="sm"
+                                                    onClick={() => handleAction(() => submitPurchaseOrder(po.id), 'Submitted for approval')}
+                                                >
+                                                    Submit
+                                                </Button>
+                                            )}
+                                            {po.status === 'PENDING' && (
+                                                <>
+                                                    <Button
+                                                        size="sm"
+                                                        onClick={() => handleAction(() => approvePurchaseOrder(po.id), 'Purchase order approved')}
+                                                    >
+                                                        Approve
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => handleAction(() => returnPurchaseOrder(po.id), 'Returned to draft')}
+                                                    >
+                                                        Return
+                                                    </Button>
+                                                </>
+                                            )}
+                                            {po.status === 'APPROVED' && (
+                                                <Button
+                                                    size="sm"
+                                                    variant={po.sendError ? 'destructive' : 'default'}
+                                                    title={po.sendError ?? undefined}
+                                                    onClick={() => handleAction(() => sendPurchaseOrder(po.id), 'Sent to supplier')}
+                                                >
+                                                    {po.sendError ? 'Retry send' : 'Send'}
+                                                </Button>
+                                            )}
+                                            <a
+                                                href={`/api/inventory/purchase-orders/${po.id}/pdf`}
+                                                className="text-sm text-primary hover:underline"
+                                            >
+                                                PDF
+                                            </a>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </TabsContent>
+
+                <TabsContent value="counts" className="space-y-4">
+                    <div className="border rounded-lg overflow-hidden">
+                        <table className="w-full">
+                            <thead className="bg-muted">
+                                <tr>
+                                    <th className="px-4 py-3 text-left text-sm font-medium">Count</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium">Location</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium">Scope</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                                    <th className="px-4 py-3 text-right text-sm font-medium">Variance</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {stockCounts.map((count: {
+                                    id: string
+                                    countNumber: string
+                                    location: { name: string }
+                                    storageArea: string | null
+                                    category: { name: string } | null
+                                    status: string
+                                    varianceValue: string | null
+                                    _count: { lines: number; entries: number }
+                                }) => (
+                                    <tr key={count.id} className="border-t hover:bg-muted/50">
+                                        <td className="px-4 py-3 text-sm font-mono">{count.countNumber}</td>
+                                        <td className="px-4 py-3 text-sm">{count.location?.name}</td>
+                                        <td className="px-4 py-3 text-sm">
+                                            {[count.storageArea, count.category?.name].filter(Boolean).join(' · ') || 'All items'}
+                                            <div className="text-xs text-muted-foreground">
+                                                {count._count.entries} tallies, {count._count.lines} items
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <Badge variant={count.status === 'APPROVED' ? 'default' : 'secondary'}>
+                                                {count.status}
+                                            </Badge>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-right">
+                                            {count.varianceValue !== null ? `Rs. ${Number(count.varianceValue).toFixed(2)}` : '—'}
+                                        </td>
+                                        <td className="px-4 py-3 space-x-2">
+                                            {count.status === 'SUBMITTED' && (
+                                                <>
+                                                    <Button
+                                                        size="sm"
+                                                        onClick={() => handleAction(() => approveStockCount(count.id), 'Count approved and posted')}
+                                                    >
+                                                        Approve
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => handleAction(() => requestStockRecount(count.id), 'Count sent back for recount')}
+                                                    >
+                                                        Recount
+                                                    </Button>
+                                                </>
+                                            )}
+                                        </td>
                                     </tr>
                                 ))}
                             </tbody>
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { useTerminals, useShifts, createTerminal, updateTerminal } from '@/lib/hooks/use-pos'
+import { useTerminals, useShifts, createTerminal, updateTerminal, reconcileShift } from '@/lib/hooks/use-pos'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -14,7 +14,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 
 export default function POSManagementPage() {
     const { terminals, isLoading, refresh } = useTerminals()
-    const { shifts } = useShifts(undefined, 'OPEN')
+    const { shifts, refresh: refreshShifts } = useShifts(undefined, 'OPEN,CLOSED')
     const [isCreateOpen, setIsCreateOpen] = useState(false)
     const [newTerminal, setNewTerminal] = useState({ name: '', terminalType: 'COUNTER', locationId: '' })
 
@@ -38,6 +38,17 @@ export default function POSManagementPage() {
         }
     }
 
+    const handleReconcile = async (id: string) => {
+        const notes = prompt('Sign off this shift. Notes (optional):')
+        if (notes === null) return
+        try {
+            await reconcileShift(id, { notes: notes || undefined })
+            refreshShifts()
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to reconcile shift')
+        }
+    }
+
     if (isLoading) {
         return <div className="flex items-center justify-center h-64">Loading...</div>
     }
@@ -112,7 +123,7 @@ export default function POSManagementPage() {
                     </TabsTrigger>
                     <TabsTrigger value="shifts">
                         <ClockIcon className="h-4 w-4 mr-2" />
-                        Active Shifts
+                        Shifts
                     </TabsTrigger>
                     <TabsTrigger value="payments">
                         <CreditCardIcon className="h-4 w-4 mr-2" />
@@ -165,25 +176,47 @@ export default function POSManagementPage() {
                         {shifts.length === 0 ? (
                             <Card>
                                 <CardContent className="py-8 text-center text-muted-foreground">
-                                    No active shifts
+                                    No open or unreconciled shifts
                                 </CardContent>
                             </Card>
                         ) : (
-                            shifts.map((shift: { id: string; terminal: { name: string }; user: { name: string }; startedAt: string; openingCash: number; ordersCount: number; totalSales: number }) => (
+                            shifts.map((shift: { id: string; status: string; terminal: { name: string }; user: { name: string }; startTime: string; openingCash: string; orderCount: number; totalSales: string; cashDifference: string | null }) => (
                                 <Card key={shift.id}>
                                     <CardContent className="p-4">
                                         <div className="flex items-center justify-between">
                                             <div>
-                                                <p className="font-medium">{shift.terminal?.name}</p>
+                                                <p className="font-medium">
+                                                    {shift.terminal?.name}{' '}
+                                                    <Badge variant={shift.status === 'OPEN' ? 'default' : 'secondary'}>{shift.status}</Badge>
+                                                </p>
                                                 <p className="text-sm text-muted-foreground">
-                                                    {shift.user?.name} • Started {new Date(shift.startedAt).toLocaleTimeString()}
+                                                    {shift.user?.name} • Started {new Date(shift.startTime).toLocaleTimeString()}
                                                 </p>
                                             </div>
-                                            <div className="text-right">
-                                                <p className="text-sm">Opening: Rs. {shift.openingCash}</p>
-                                                <p className="text-sm font-medium">
-                                                    Orders: {shift.ordersCount || 0} • Sales: Rs. {shift.totalSales || 0}
-                                                </p>
+                                            <div className="flex items-center gap-4">
+                                                <div className="text-right">
+                                                    <p className="text-sm">Opening: Rs. {shift.openingCash}</p>
+                                                    <p className="text-sm font-medium">
+                                                        Orders: {shift.orderCount || 0} • Sales: Rs. {shift.totalSales || 0}
+                                                    </p>
+                                                    {shift.cashDifference !== null && (
+                                                        <p className={`text-sm ${Number(shift.cashDifference) < 0 ? 'text-red-600' : ''}`}>
+                                                            Over / short: Rs. {shift.cashDifference}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                {shift.status === 'OPEN' ? (
+                                                    <Button variant="outline" size="sm" onClick={() => window.open(`/api/pos/shifts/${shift.id}/x-report?format=PDF`, '_blank')}>
+                                                        X-report
+                                                    </Button>
+                                                ) : (
+                                                    <>
+                                                        <Button variant="outline" size="sm" onClick={() => window.open(`/api/pos/shifts/${shift.id}/z-report?format=PDF`, '_blank')}>
+                                                            Z-report
+                                                        </Button>
+                                                        <Button size="sm" onClick={() => handleReconcile(shift.id)}>Sign off</Button>
+                                                    </>
+                                                )}
                                             </div>
                                         </div>
                                     </CardContent>
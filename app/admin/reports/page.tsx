@@ -0,0 +1,270 @@
+'use client'
+
+import { useState } from 'react'
+import {
+    useReports,
+    requestReport,
+    emailReport,
+    getReportDownloadUrl,
+    type ReportEntry,
+} from '@/lib/hooks/use-reports'
+import { useLocations } from '@/lib/hooks/use-locations'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+const REPORT_TYPES = [
+    { value: 'daily-sales', label: 'Daily sales' },
+    { value: 'z-report', label: 'Z-report' },
+] as const
+
+const FORMATS = ['PDF', 'XLSX', 'CSV'] as const
+
+const PAGE_SIZE = 20
+
+function ReportRow({ report }: { report: ReportEntry }) {
+    const [emailTo, setEmailTo] = useState('')
+    const [sending, setSending] = useState(false)
+
+    const getStatusBadgeVariant = (value: ReportEntry['status']): 'default' | 'secondary' | 'destructive' | 'outline' => {
+        switch (value) {
+            case 'READY': return 'default'
+            case 'FAILED': return 'destructive'
+            case 'PROCESSING': return 'secondary'
+            default: return 'outline'
+        }
+    }
+
+    const handleEmail = async () => {
+        setSending(true)
+        try {
+            await emailReport(report.id, emailTo)
+            toast.success(`Report sent to ${emailTo}`)
+            setEmailTo('')
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to email report')
+        } finally {
+            setSending(false)
+        }
+    }
+
+    return (
+        <tr className="border-t align-top hover:bg-muted/50">
+            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                {REPORT_TYPES.find(type => type.value === report.type)?.label || report.type}
+                <div className="text-xs text-muted-foreground">{report.format}</div>
+            </td>
+            <td className="px-4 py-3 text-sm">
+                {report.location.name}
+                <div className="text-xs text-muted-foreground">{report.businessDate}</div>
+            </td>
+            <td className="px-4 py-3">
+                <Badge variant={getStatusBadgeVariant(report.status)}>{report.status.toLowerCase()}</Badge>
+                {report.error && <div className="text-xs text-red-600 mt-1">{report.error}</div>}
+            </td>
+            <td className="px-4 py-3 text-sm">
+                {report.summary ? (
+                    <>
+                        Rs. {report.summary.netSales?.toLocaleString()} net
+                        <div className="text-xs text-muted-foreground">{report.summary.orderCount} orders</div>
+                    </>
+                ) : '—'}
+            </td>
+            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                {format(new Date(report.createdAt), 'MMM d, yyyy HH:mm')}
+                {report.emailedAt && (
+                    <div className="text-xs text-muted-foreground">Emailed to {report.emailTo}</div>
+                )}
+            </td>
+            <td className="px-4 py-3">
+                {report.status === 'READY' && (
+                    <div className="flex flex-col gap-2">
+                        <Button asChild size="sm" variant="outline">
+                            <a href={getReportDownloadUrl(report.id)} download={report.fileName ?? undefined}>Download</a>
+                        </Button>
+                        <div className="flex gap-2">
+                            <Input
+                                type="email"
+                                placeholder="Email to"
+                                value={emailTo}
+                                onChange={(e) => setEmailTo(e.target.value)}
+                                className="h-8 w-44"
+                            />
+                            <Button size="sm" variant="secondary" disabled={!emailTo || sending} onClick={handleEmail}>
+                                Send
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </td>
+        </tr>
+    )
+}
+
+export default function ReportsPage() {
+    const { data: locations = [] } = useLocations()
+    const [type, setType] = useState<ReportEntry['type']>('daily-sales')
+    const [locationId, setLocationId] = useState('')
+    const [businessDate, setBusinessDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+    const [fileFormat, setFileFormat] = useState<ReportEntry['format']>('PDF')
+    const [emailTo, setEmailTo] = useState('')
+    const [submitting, setSubmitting] = useState(false)
+    const [filterLocationId, setFilterLocationId] = useState('')
+    const [page, setPage] = useState(1)
+
+    const { reports, pagination, isLoading } = useReports({
+        locationId: filterLocationId, page, limit: PAGE_SIZE,
+    })
+
+    const selectedLocationId = locationId || locations[0]?.id || ''
+
+    const handleGenerate = async () => {
+        if (!selectedLocationId) {
+            toast.error('Select a location')
+            return
+        }
+
+        setSubmitting(true)
+        try {
+            await requestReport({
+                type,
+                locationId: selectedLocationId,
+                businessDate,
+                format: fileFormat,
+                emailTo: emailTo || undefined,
+            })
+            toast.success('Report queued')
+            setPage(1)
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to request report')
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <div className="container mx-auto p-6 space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold">Reports</h1>
+                <p className="text-muted-foreground">Daily sales and Z-reports per location and business day</p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Generate Report</CardTitle>
+                    <CardDescription>Reports are built in the background and appear below when ready</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                    <select
+                        className="h-9 rounded-md border px-3"
+                        value={type}
+                        onChange={(e) => setType(e.target.value as ReportEntry['type'])}
+                    >
+                        {REPORT_TYPES.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        className="h-9 rounded-md border px-3"
+                        value={selectedLocationId}
+                        onChange={(e) => setLocationId(e.target.value)}
+                    >
+                        {locations.map(location => (
+                            <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                    </select>
+                    <Input
+                        type="date"
+                        value={businessDate}
+                        onChange={(e) => setBusinessDate(e.target.value)}
+                        aria-label="Business day"
+                    />
+                    <select
+                        className="h-9 rounded-md border px-3"
+                        value={fileFormat}
+                        onChange={(e) => setFileFormat(e.target.value as ReportEntry['format'])}
+                    >
+                        {FORMATS.map(value => (
+                            <option key={value} value={value}>{value}</option>
+                        ))}
+                    </select>
+                    <Input
+                        type="email"
+                        placeholder="Email to (optional)"
+                        value={emailTo}
+                        onChange={(e) => setEmailTo(e.target.value)}
+                    />
+                    <Button onClick={handleGenerate} disabled={submitting || !businessDate}>
+                        {submitting ? 'Queuing...' : 'Generate'}
+                    </Button>
+                </CardContent>
+            </Card>
+
+            <div className="flex items-center gap-4">
+                <select
+                    className="h-9 rounded-md border px-3"
+                    value={filterLocationId}
+                    onChange={(e) => {
+                        setFilterLocationId(e.target.value)
+                        setPage(1)
+                    }}
+                >
+                    <option value="">All locations</option>
+                    {locations.map(location => (
+                        <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {isLoading ? (
+                <div className="py-8 text-center">Loading...</div>
+            ) : reports.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">No reports yet</div>
+            ) : (
+                <div className="border rounded-lg overflow-hidden">
+                    <table className="w-full">
+                        <thead className="bg-muted">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Report</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Location</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Sales</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">Requested</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium">File</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {reports.map(report => (
+                                <ReportRow key={report.id} report={report} />
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-muted-foreground">
+                        Page {pagination.page} of {pagination.totalPages} ({pagination.total} reports)
+                    </p>
+                    <div className="flex gap-2">
+                        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                            Previous
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={page >= pagination.totalPages}
+                            onClick={() => setPage(page + 1)}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
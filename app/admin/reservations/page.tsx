@@ -1,8 +1,11 @@
 'use client'
 
 import { useState } from 'react'
-import { useReservations, useWaitlist, confirmReservation, seatReservation, cancelReservation, notifyWaitlistEntry, seatWaitlistEntry } from '@/lib/hooks/use-reservations'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { useReservations, useWaitlist, confirmReservation, seatReservation, cancelReservation, refundReservationDeposit, notifyWaitlistEntry, seatWaitlistEntry } from '@/lib/hooks/use-reservations'
 import { useTables } from '@/lib/hooks/use-tables'
+import { useLiveRefresh } from '@/lib/hooks/use-socket'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -31,6 +34,9 @@ interface Reservation {
     tableId?: string
     table?: { tableNumber: string }
     specialRequests?: string
+    depositAmount?: number | string | null
+    depositStatus?: string | null
+    depositRefundError?: string | null
 }
 
 interface WaitlistEntry {
@@ -56,7 +62,19 @@ export default function ReservationsPage() {
 
     const { reservations, isLoading, refresh } = useReservations({ date: dateStr })
     const { entries: waitlist, refresh: refreshWaitlist } = useWaitlist('default-location', 'WAITING,NOTIFIED')
-    const { tables } = useTables({ status: 'AVAILABLE' })
+    const { tables, refresh: refreshTables } = useTables({ status: 'AVAILABLE' })
+
+    // Other hosts and the POS change tables and bookings; pick those up live
+    const { data: session } = useSession()
+    useLiveRefresh(
+        ['table:status-changed', 'reservation:created', 'reservation:updated', 'reservation:seated', 'waitlist:updated'],
+        () => {
+            refresh()
+            refreshWaitlist()
+            refreshTables()
+        },
+        (session?.user as { locationId?: string } | undefined)?.locationId
+    )
 
     const [seatTableId, setSeatTableId] = useState('')
     const [actionLoading, setActionLoading] = useState<string | null>(null)
@@ -94,6 +112,18 @@ export default function ReservationsPage() {
         setActionLoading(null)
     }
 
+    const handleRetryRefund = async (id: string) => {
+        setActionLoading(id)
+        try {
+            await refundReservationDeposit(id, { reason: 'Deposit refund retried by staff' })
+            refresh()
+        } catch (error) {
+            console.error('Failed to refund deposit:', error)
+            refresh()
+        }
+        setActionLoading(null)
+    }
+
     const handleNotifyWaitlist = async (id: string) => {
         setActionLoading(id)
         try {
@@ -143,7 +173,12 @@ export default function ReservationsPage() {
                     <h1 className="text-3xl font-bold">Reservations</h1>
                     <p className="text-muted-foreground">Manage reservations and walk-in waitlist</p>
                 </div>
-                <Button>New Reservation</Button>
+                <div className="flex gap-2">
+                    <Button variant="outline" asChild>
+                        <Link href="/admin/floor">Floor</Link>
+                    </Button>
+                    <Button>New Reservation</Button>
+                </div>
             </div>
 
             {/* Summary Cards */}
@@ -263,9 +298,31 @@ export default function ReservationsPage() {
                                                                 {res.table && (
                                                                     <p className="text-sm">Table: {res.table.tableNumber}</p>
                                                                 )}
+                                                                {res.depositStatus === 'REFUND_PENDING' && res.depositRefundError && (
+                                                                    <p className="text-sm text-destructive">Deposit refund: {res.depositRefundError}</p>
+                                                                )}
                                                             </div>
                                                         </div>
                                                         <div className="flex items-center gap-2">
+                                                            {res.depositStatus === 'REFUND_PENDING' ? (
+                                                                <>
+                                                                    <Badge variant="destructive">
+                                                                        Deposit {Number(res.depositAmount).toFixed(2)} refund failed
+                                                                    </Badge>
+                                                                    <Button
+                                                                        size="sm"
+                                                                        variant="outline"
+                                                                        onClick={() => handleRetryRefund(res.id)}
+                                                                        disabled={actionLoading === res.id}
+                                                                    >
+                                                                        Retry refund
+                                                                    </Button>
+                                                                </>
+                                                            ) : res.depositStatus && (
+                                                                <Badge variant={res.depositStatus === 'PENDING' ? 'outline' : 'secondary'}>
+                                                                    Deposit {Number(res.depositAmount).toFixed(2)} {res.depositStatus}
+                                                                </Badge>
+                                                            )}
                                                             <Badge variant={getStatusBadgeVariant(res.status)}>
                                                                 {res.status}
                                                             </Badge>
@@ -0,0 +1,235 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+    useMessageTemplates,
+    saveMessageTemplate,
+    resetMessageTemplate,
+    previewMessageTemplate,
+    type MessageTemplateEntry,
+    type MessageTemplatePreview,
+    type TemplateChannel,
+    type TemplateLanguage,
+} from '@/lib/hooks/use-message-templates'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+
+const CHANNELS: { value: TemplateChannel; label: string }[] = [
+    { value: 'email', label: 'Email' },
+    { value: 'sms', label: 'SMS' },
+    { value: 'whatsapp', label: 'WhatsApp' },
+    { value: 'in_app', label: 'In-app' },
+]
+
+const LANGUAGES: { value: TemplateLanguage; label: string }[] = [
+    { value: 'en', label: 'English' },
+    { value: 'ur', label: 'Urdu' },
+]
+
+export default function MessageTemplatesPage() {
+    const { templates, isLoading } = useMessageTemplates()
+    const [event, setEvent] = useState('')
+    const [channel, setChannel] = useState<TemplateChannel>('email')
+    const [language, setLanguage] = useState<TemplateLanguage>('en')
+    const [subject, setSubject] = useState('')
+    const [body, setBody] = useState('')
+    const [isActive, setIsActive] = useState(true)
+    const [preview, setPreview] = useState<MessageTemplatePreview | null>(null)
+    const [saving, setSaving] = useState(false)
+
+    const events = Array.from(new Set(templates.map(t => t.event)))
+    const selectedEvent = event || events[0] || ''
+    // The same object until the selection or the saved templates change
+    const entry = useMemo(
+        () => templates.find(t => t.event === selectedEvent && t.channel === channel && t.language === language),
+        [templates, selectedEvent, channel, language]
+    )
+
+    const loadTemplate = useCallback((template: MessageTemplateEntry) => {
+        const current = template.custom ?? template.default
+        setSubject(current.subject ?? '')
+        setBody(current.body)
+        setIsActive(template.custom?.isActive ?? true)
+        setPreview(null)
+    }, [])
+
+    // Load the selected template into the editor whenever the selection or the saved version changes
+    useEffect(() => {
+        if (entry) loadTemplate(entry)
+    }, [entry, loadTemplate])
+
+    const handlePreview = async () => {
+        if (!entry) return
+        try {
+            setPreview(await previewMessageTemplate({
+                event: entry.event, channel, language, subject: subject || null, body,
+            }))
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to preview template')
+        }
+    }
+
+    const handleSave = async () => {
+        if (!entry) return
+        setSaving(true)
+        try {
+            await saveMessageTemplate(entry, { subject: subject || null, body, isActive })
+            toast.success('Template saved')
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to save template')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleReset = async () => {
+        if (!entry?.custom) return
+        if (!confirm('Discard your changes and use the built-in template?')) return
+        try {
+            await resetMessageTemplate(entry.custom.id)
+            toast.success('Template reset to default')
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to reset template')
+        }
+    }
+
+    return (
+        <div className="container mx-auto p-6 space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold">Message Templates</h1>
+                <p className="text-muted-foreground">Emails and messages sent to customers, per channel and language</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+                <select
+                    className="h-9 rounded-md border px-3"
+                    value={selectedEvent}
+                    onChange={(e) => setEvent(e.target.value)}
+                >
+                    {events.map(value => (
+                        <option key={value} value={value}>{value}</option>
+                    ))}
+                </select>
+                <select
+                    className="h-9 rounded-md border px-3"
+                    value={channel}
+                    onChange={(e) => setChannel(e.target.value as TemplateChannel)}
+                >
+                    {CHANNELS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                <select
+                    className="h-9 rounded-md border px-3"
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value as TemplateLanguage)}
+                >
+                    {LANGUAGES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                {entry && (
+                    <Badge variant={entry.custom ? 'default' : 'outline'}>
+                        {entry.custom ? 'customized' : 'default'}
+                    </Badge>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="py-8 text-center">Loading...</div>
+            ) : !entry ? (
+                <div className="py-8 text-center text-muted-foreground">No templates available</div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Edit</CardTitle>
+                            <CardDescription>{entry.description}</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {channel !== 'sms' && channel !== 'whatsapp' && (
+                                <div className="space-y-2">
+                                    <Label htmlFor="subject">Subject</Label>
+                                    <Input
+                                        id="subject"
+                                        value={subject}
+                                        onChange={(e) => setSubject(e.target.value)}
+                                        dir={language === 'ur' ? 'rtl' : 'ltr'}
+                                    />
+                                </div>
+                            )}
+                            <div className="space-y-2">
+                                <Label htmlFor="body">{channel === 'email' ? 'Body (HTML)' : 'Message'}</Label>
+                                <Textarea
+                                    id="body"
+                                    value={body}
+                                    onChange={(e) => setBody(e.target.value)}
+                                    rows={channel === 'email' ? 16 : 6}
+                                    className="font-mono text-sm"
+                                    dir={language === 'ur' ? 'rtl' : 'ltr'}
+                                />
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                                Variables: {entry.variables.map(name => `{{${name}}}`).join(', ')}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Switch id="active" checked={isActive} onCheckedChange={setIsActive} />
+                                <Label htmlFor="active">Use this version (off falls back to the default)</Label>
+                            </div>
+                            <div className="flex gap-2">
+                                <Button onClick={handleSave} disabled={saving || !body}>
+                                    {saving ? 'Saving...' : 'Save'}
+                                </Button>
+                                <Button variant="secondary" onClick={handlePreview} disabled={!body}>
+                                    Preview
+                                </Button>
+                                {entry.custom && (
+                                    <Button variant="outline" onClick={handleReset}>
+                                        Reset to default
+                                    </Button>
+                                )}
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Preview</CardTitle>
+                            <CardDescription>Rendered with sample data and your branding</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {!preview ? (
+                                <div className="py-8 text-center text-muted-foreground">Press Preview to render the template</div>
+                            ) : (
+                                <>
+                                    {preview.subject && <div className="font-medium">{preview.subject}</div>}
+                                    {preview.html ? (
+                                        <iframe
+                                            title="Email preview"
+                                            srcDoc={preview.html}
+                                            sandbox=""
+                                            className="w-full h-[600px] border rounded-md bg-white"
+                                        />
+                                    ) : (
+                                        <div
+                                            className="whitespace-pre-wrap rounded-md border p-4 text-sm"
+                                            dir={language === 'ur' ? 'rtl' : 'ltr'}
+                                        >
+                                            {preview.text}
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { floorPlanSchema } from '@/lib/validations/schemas'
+import { getAreaFloorPlan, saveAreaFloorPlan } from '@/lib/tables'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+async function areaLocation(id: string) {
+    const area = await prisma.area.findUnique({ where: { id }, select: { locationId: true } })
+    return area?.locationId ?? null
+}
+
+// GET /api/areas/[id]/floor-plan - The area's canvas and its tables, placed
+export const GET = withPermission('tables:view', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const locationId = await areaLocation(id)
+        if (!locationId) {
+            return NextResponse.json({ error: 'Area not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        return NextResponse.json(await getAreaFloorPlan(id))
+    } catch (error) {
+        console.error('Error fetching floor plan:', error)
+        return NextResponse.json({ error: 'Failed to fetch floor plan' }, { status: 500 })
+    }
+})
+
+// PUT /api/areas/[id]/floor-plan - Save the canvas and where the tables sent sit on it
+export const PUT = withPermission('tables:manage', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, floorPlanSchema)
+
+        const locationId = await areaLocation(id)
+        if (!locationId) {
+            return NextResponse.json({ error: 'Area not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        return NextResponse.json(await saveAreaFloorPlan(id, body))
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error saving floor plan:', error)
+        const message = error instanceof Error ? error.message : 'Failed to save floor plan'
+        return NextResponse.json({ error: message }, { status: message.endsWith('not found') ? 404 : 400 })
+    }
+})
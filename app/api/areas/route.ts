@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 // GET /api/areas - List areas
 export async function GET(request: NextRequest) {
@@ -44,7 +45,7 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/areas - Create area
-export async function POST(request: NextRequest) {
+export const POST = withPermission('locations:manage', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const {
@@ -85,4 +86,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating area:', error)
         return NextResponse.json({ error: 'Failed to create area' }, { status: 500 })
     }
-}
+})
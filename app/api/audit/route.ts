@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/validations/middleware'
+import { listAuditLogs, parseAuditFilters } from '@/lib/audit'
+
+// GET /api/audit - Search the audit trail by user, entity, action and date range
+export const GET = withPermission('audit:view', async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const result = await listAuditLogs(parseAuditFilters(searchParams))
+
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('Error fetching audit logs:', error)
+        return NextResponse.json({ error: 'Failed to fetch audit logs' }, { status: 500 })
+    }
+})
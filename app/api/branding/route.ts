@@ -3,6 +3,8 @@ import { NextResponse } from 'next/server'
 export const dynamic = 'force-dynamic'
 import { prisma } from '@/lib/db/prisma'
 import { defaultBrandingConfig } from '@/lib/types/branding'
+import { withPermission } from '@/lib/validations/middleware'
+import { recordAudit } from '@/lib/audit'
 
 export async function GET() {
   try {
@@ -45,11 +47,15 @@ export async function GET() {
   }
 }
 
-export async function PUT(req: Request) {
+export const PUT = withPermission('settings:manage', async (req: Request, _context, user) => {
   try {
     const body = await req.json()
     const { id, updatedAt, createdAt, ...data } = body // Exclude system fields
 
+    const existing = await prisma.brandingConfig.findUnique({
+      where: { id: 'default' }
+    })
+
     const config = await prisma.brandingConfig.upsert({
       where: { id: 'default' },
       update: data,
@@ -59,9 +65,19 @@ export async function PUT(req: Request) {
       }
     })
 
+    await recordAudit({
+      request: req,
+      user,
+      action: existing ? 'update' : 'create',
+      entityType: 'branding',
+      entityId: config.id,
+      before: existing,
+      after: config,
+    })
+
     return NextResponse.json(config)
   } catch (error) {
     console.error('Failed to update branding:', error)
     return NextResponse.json({ error: 'Failed to update branding' }, { status: 500 })
   }
-}
+})
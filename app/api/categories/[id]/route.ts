@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withAuth,
+  withPermission,
   withErrorHandling,
   validateBody,
   createErrorResponse,
 } from '@/lib/validations/middleware'
+import { recordAudit } from '@/lib/audit'
 import { categoryUpdateSchema, uuidSchema } from '@/lib/validations/schemas'
 
 // GET /api/categories/[id] - Get a single category
@@ -33,37 +34,29 @@ export const GET = withErrorHandling(
               select: { menuItems: true },
             },
           }
-            menuItems: true,
-        _count: {
-          select: { menuItems: true },
-        },
-      }
           : {
-  _count: {
-    select: { menuItems: true },
-  },
-},
-_count: {
-  select: { menuItems: true },
-},
+            _count: {
+              select: { menuItems: true },
+            },
           },
       })
 
-if (!category) {
-  return createErrorResponse('Category not found', 404)
-}
+      if (!category) {
+        return createErrorResponse('Category not found', 404)
+      }
 
-return NextResponse.json(category)
+      return NextResponse.json(category)
     } catch (error) {
-  console.error('Error fetching category:', error)
-  return createErrorResponse('Failed to fetch category', 500)
-}
+      console.error('Error fetching category:', error)
+      return createErrorResponse('Failed to fetch category', 500)
+    }
   }
 )
 
 // PUT /api/categories/[id] - Update a category (admin only)
-export const PUT = withAuth(
-  async (request: NextRequest, context: any) => {
+export const PUT = withPermission(
+  'menu:manage',
+  async (request: NextRequest, context: any, user) => {
     try {
       const { params } = context
       const id = params.id
@@ -128,6 +121,16 @@ export const PUT = withAuth(
         },
       })
 
+      await recordAudit({
+        request,
+        user,
+        action: 'update',
+        entityType: 'category',
+        entityId: id,
+        before: existingCategory,
+        after: updatedCategory,
+      })
+
       return NextResponse.json(updatedCategory)
     } catch (error) {
       // Handle validation errors from middleware
@@ -141,58 +144,67 @@ export const PUT = withAuth(
 )
 
 // DELETE /api/categories/[id] - Delete a category (admin only)
-export const DELETE = withAuth(
-  async (_request: NextRequest, context: any) => {
-    async (_request: NextRequest, context: any) => {
-      try {
-        const { params } = context
-        const id = params.id
-
-        // Validate ID
-        const validationResult = uuidSchema.safeParse(id)
-        if (!validationResult.success) {
-          return createErrorResponse('Invalid category ID', 400)
-        }
+export const DELETE = withPermission(
+  'menu:manage',
+  async (request: NextRequest, context: any, user) => {
+    try {
+      const { params } = context
+      const id = params.id
 
-        // Check if category exists
-        const category = await prisma.category.findUnique({
-          where: { id },
-          include: {
-            _count: {
-              select: { menuItems: true },
-            },
-          },
-        })
+      // Validate ID
+      const validationResult = uuidSchema.safeParse(id)
+      if (!validationResult.success) {
+        return createErrorResponse('Invalid category ID', 400)
+      }
 
-        if (!category) {
-          return createErrorResponse('Category not found', 404)
-        }
+      // Check if category exists
+      const category = await prisma.category.findUnique({
+        where: { id },
+        include: {
+          _count: {
+            select: { menuItems: true },
+          },
+        },
+      })
 
-        // Check if category has menu items
-        if (category._count.menuItems > 0) {
-          return createErrorResponse(
-            `Cannot delete category with ${category._count.menuItems} menu items. Please move or delete the items first.`,
-            400
-          )
-        }
+      if (!category) {
+        return createErrorResponse('Category not found', 404)
+      }
 
-        // Delete category
-        await prisma.category.delete({
-          where: { id },
-        })
-
-        // Reorder remaining categories to fill the gap
-        await prisma.category.updateMany({
-          where: { displayOrder: { gt: category.displayOrder } },
-          data: { displayOrder: { decrement: 1 } },
-        })
-
-        return NextResponse.json({
-          message: 'Category deleted successfully',
-        })
-      } catch (error) {
-        console.error('Error deleting category:', error)
-        return createErrorResponse('Failed to delete category', 500)
+      // Check if category has menu items
+      if (category._count.menuItems > 0) {
+        return createErrorResponse(
+          `Cannot delete category with ${category._count.menuItems} menu items. Please move or delete the items first.`,
+          400
+        )
       }
+
+      // Delete category
+      await prisma.category.delete({
+        where: { id },
+      })
+
+      await recordAudit({
+        request,
+        user,
+        action: 'delete',
+        entityType: 'category',
+        entityId: id,
+        before: category,
+      })
+
+      // Reorder remaining categories to fill the gap
+      await prisma.category.updateMany({
+        where: { displayOrder: { gt: category.displayOrder } },
+        data: { displayOrder: { decrement: 1 } },
+      })
+
+      return NextResponse.json({
+        message: 'Category deleted successfully',
+      })
+    } catch (error) {
+      console.error('Error deleting category:', error)
+      return createErrorResponse('Failed to delete category', 500)
     }
+  }
 )
@@ -1,18 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withAuthAndBodyValidation,
+  withPermissionAndBodyValidation,
   createErrorResponse,
 } from '@/lib/validations/middleware'
+import { recordAudit } from '@/lib/audit'
 import {
   categoryReorderSchema,
   type CategoryReorderInput,
 } from '@/lib/validations/schemas'
 
 // PUT /api/categories/reorder - Reorder categories (admin only)
-export const PUT = withAuthAndBodyValidation(
+export const PUT = withPermissionAndBodyValidation(
+  'menu:manage',
   categoryReorderSchema,
-  async (_request: NextRequest, validatedBody: CategoryReorderInput) => {
+  async (request: NextRequest, validatedBody: CategoryReorderInput, user) => {
     try {
       const { categories } = validatedBody
 
@@ -53,6 +55,21 @@ export const PUT = withAuthAndBodyValidation(
         },
       })
 
+      // recordAudit skips categories whose position did not change
+      await Promise.all(
+        existingCategories.map((before) =>
+          recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'category',
+            entityId: before.id,
+            before,
+            after: updatedCategories.find((c) => c.id === before.id),
+          })
+        )
+      )
+
       return NextResponse.json({
         message: 'Categories reordered successfully',
         categories: updatedCategories,
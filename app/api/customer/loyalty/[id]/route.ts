@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  const { getCustomerLoyalty } = await import('@/lib/loyalty')
+  try {
+    const loyalty = await getCustomerLoyalty(params.id)
+
+    if (!loyalty) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(loyalty)
+
+  } catch (error: any) {
+    console.error('Fetch customer loyalty error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  const { listCustomerReservations } = await import('@/lib/reservations')
+  try {
+    const reservations = await listCustomerReservations(params.id)
+
+    return NextResponse.json(reservations)
+
+  } catch (error: any) {
+    console.error('Fetch customer reservations error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
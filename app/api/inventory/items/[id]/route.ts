@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // GET /api/inventory/items/[id] - Get single inventory item
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export const GET = withPermission('inventory:view', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
 
@@ -51,10 +52,10 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         console.error('Error fetching inventory item:', error)
         return NextResponse.json({ error: 'Failed to fetch item' }, { status: 500 })
     }
-}
+})
 
 // PATCH /api/inventory/items/[id] - Update inventory item
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('inventory:manage', async (request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -114,10 +115,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         }
         return NextResponse.json({ error: 'Failed to update item' }, { status: 500 })
     }
-}
+})
 
 // DELETE /api/inventory/items/[id] - Soft delete inventory item
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export const DELETE = withPermission('inventory:manage', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
 
@@ -137,4 +138,4 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
         console.error('Error deleting inventory item:', error)
         return NextResponse.json({ error: 'Failed to delete item' }, { status: 500 })
     }
-}
+})
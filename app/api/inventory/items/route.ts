@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 // GET /api/inventory/items - List inventory items
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest) => {
     try {
         const { searchParams } = new URL(request.url)
         const categoryId = searchParams.get('categoryId')
@@ -64,10 +65,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching inventory items:', error)
         return NextResponse.json({ error: 'Failed to fetch items' }, { status: 500 })
     }
-}
+})
 
 // POST /api/inventory/items - Create inventory item
-export async function POST(request: NextRequest) {
+export const POST = withPermission('inventory:manage', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const {
@@ -117,4 +118,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating inventory item:', error)
         return NextResponse.json({ error: 'Failed to create item' }, { status: 500 })
     }
-}
+})
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/inventory/lots/expiring - Get lots expiring soon
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
         const days = parseInt(searchParams.get('days') || '7')
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
 
         const futureDate = new Date()
         futureDate.setDate(futureDate.getDate() + days)
@@ -55,4 +59,4 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching expiring lots:', error)
         return NextResponse.json({ error: 'Failed to fetch expiring lots' }, { status: 500 })
     }
-}
+})
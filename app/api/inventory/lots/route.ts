@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/inventory/lots - List inventory lots
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
         const inventoryItemId = searchParams.get('inventoryItemId')
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const status = searchParams.get('status')
         const page = parseInt(searchParams.get('page') || '1')
         const limit = parseInt(searchParams.get('limit') || '50')
@@ -40,4 +44,4 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching lots:', error)
         return NextResponse.json({ error: 'Failed to fetch lots' }, { status: 500 })
     }
-}
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { approvePurchaseOrder, sendPurchaseOrder } from '@/lib/inventory'
+import { jobs } from '@/lib/jobs'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/purchase-orders/[id]/approve - Approve a pending PO within the approver's limit
+// Orders for suppliers with an email address are sent to them straight away
+export const POST = withPermission('purchasing:approve', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.purchaseOrder.findUnique({
+            where: { id },
+            select: { locationId: true, supplier: { select: { email: true } } }
+        })
+        if (!existing) {
+            return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const { before, order } = await approvePurchaseOrder(id, user)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'approve',
+            entityType: 'purchase_order',
+            entityId: id,
+            before,
+            after: order,
+        })
+
+        // Without a queue the email is sent inline; a failure is kept on the
+        // order and does not undo the approval
+        if (existing.supplier.email) {
+            await jobs.sendPurchaseOrder(id).catch(async (error) => {
+                console.error('Failed to queue purchase order email, sending inline:', error)
+                await sendPurchaseOrder(id).catch((sendError) =>
+                    console.error('Failed to send purchase order:', sendError)
+                )
+            })
+        }
+
+        return NextResponse.json({ order, sending: Boolean(existing.supplier.email) })
+    } catch (error) {
+        console.error('Error approving purchase order:', error)
+        const message = error instanceof Error ? error.message : 'Failed to approve order'
+        const status = message === 'Purchase order not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
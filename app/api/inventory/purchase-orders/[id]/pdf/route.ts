@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { renderPurchaseOrderPdf } from '@/lib/inventory'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// GET /api/inventory/purchase-orders/[id]/pdf - Download the PO as sent to the supplier
+export const GET = withPermission('inventory:view', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.purchaseOrder.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const { fileName, content } = await renderPurchaseOrderPdf(id)
+
+        return new NextResponse(content, {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+            },
+        })
+    } catch (error) {
+        console.error('Error rendering purchase order:', error)
+        return NextResponse.json({ error: 'Failed to render order' }, { status: 500 })
+    }
+})
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { cancelPurchaseOrder } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // GET /api/inventory/purchase-orders/[id] - Get single PO
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export const GET = withPermission('inventory:view', async (_request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
 
@@ -33,16 +36,29 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         if (!order) {
             return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, order.locationId)
+        if (denied) {
+            return denied
+        }
 
-        return NextResponse.json({ order })
+        return NextResponse.json({
+            order: {
+                ...order,
+                items: order.items.map(item => ({
+                    ...item,
+                    outstandingQty: Math.max(0, Number(item.quantity) - Number(item.receivedQty))
+                }))
+            }
+        })
     } catch (error) {
         console.error('Error fetching purchase order:', error)
         return NextResponse.json({ error: 'Failed to fetch order' }, { status: 500 })
     }
-}
+})
 
-// PATCH /api/inventory/purchase-orders/[id] - Update PO
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+// PATCH /api/inventory/purchase-orders/[id] - Update a draft PO
+// Status changes go through the submit/approve/return/send/cancel endpoints
+export const PATCH = withPermission('purchasing:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -51,48 +67,32 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         if (!existing) {
             return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
 
-        // Only allow updates to draft/pending orders
-        if (!['DRAFT', 'PENDING'].includes(existing.status)) {
+        if (body.status !== undefined) {
             return NextResponse.json(
-                { error: 'Can only update draft or pending orders' },
+                { error: 'Use the purchase order workflow endpoints to change status' },
                 { status: 400 }
             )
         }
 
-        const { status, notes, expectedDate, approvedById } = body
+        // Submitted orders are frozen so approvers sign off on what gets sent
+        if (existing.status !== 'DRAFT') {
+            return NextResponse.json(
+                { error: 'Can only update draft orders' },
+                { status: 400 }
+            )
+        }
+
+        const { notes, expectedDate } = body
 
         const updateData: Record<string, unknown> = {}
         if (notes !== undefined) updateData.notes = notes
         if (expectedDate) updateData.expectedDate = new Date(expectedDate)
 
-        // Handle status transitions
-        if (status) {
-            const validTransitions: Record<string, string[]> = {
-                'DRAFT': ['PENDING', 'CANCELLED'],
-                'PENDING': ['APPROVED', 'CANCELLED'],
-                'APPROVED': ['ORDERED', 'CANCELLED'],
-                'ORDERED': ['PARTIAL', 'RECEIVED', 'CANCELLED'],
-                'PARTIAL': ['RECEIVED', 'CANCELLED']
-            }
-
-            if (!validTransitions[existing.status]?.includes(status)) {
-                return NextResponse.json(
-                    { error: `Invalid status transition from ${existing.status} to ${status}` },
-                    { status: 400 }
-                )
-            }
-
-            updateData.status = status
-            if (status === 'APPROVED' && approvedById) {
-                updateData.approvedById = approvedById
-                updateData.approvedAt = new Date()
-            }
-            if (status === 'ORDERED') {
-                updateData.orderDate = new Date()
-            }
-        }
-
         const order = await prisma.purchaseOrder.update({
             where: { id },
             data: updateData,
@@ -102,15 +102,25 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             }
         })
 
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'purchase_order',
+            entityId: id,
+            before: existing,
+            after: order,
+        })
+
         return NextResponse.json({ order })
     } catch (error) {
         console.error('Error updating purchase order:', error)
         return NextResponse.json({ error: 'Failed to update order' }, { status: 500 })
     }
-}
+})
 
 // DELETE /api/inventory/purchase-orders/[id] - Cancel PO
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export const DELETE = withPermission('purchasing:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
 
@@ -118,22 +128,28 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
         if (!existing) {
             return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
         }
-
-        if (['RECEIVED', 'CANCELLED'].includes(existing.status)) {
-            return NextResponse.json(
-                { error: 'Cannot cancel a received or already cancelled order' },
-                { status: 400 }
-            )
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
         }
 
-        await prisma.purchaseOrder.update({
-            where: { id },
-            data: { status: 'CANCELLED' }
+        const { order } = await cancelPurchaseOrder(id)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'delete',
+            entityType: 'purchase_order',
+            entityId: id,
+            before: existing,
+            after: order,
         })
 
         return NextResponse.json({ message: 'Purchase order cancelled' })
     } catch (error) {
         console.error('Error cancelling purchase order:', error)
-        return NextResponse.json({ error: 'Failed to cancel order' }, { status: 500 })
+        const message = error instanceof Error ? error.message : 'Failed to cancel order'
+        const status = message === 'Purchase order not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
     }
-}
+})
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { purchaseOrderSendSchema } from '@/lib/validations/schemas'
+import { sendPurchaseOrder } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/purchase-orders/[id]/send - Email an approved PO to the supplier, or mark it sent
+export const POST = withPermission('purchasing:manage', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, purchaseOrderSendSchema)
+
+        const existing = await prisma.purchaseOrder.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const { before, order } = await sendPurchaseOrder(id, body)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'purchase_order',
+            entityId: id,
+            before,
+            after: order,
+        })
+
+        return NextResponse.json({ order })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error sending purchase order:', error)
+        const message = error instanceof Error ? error.message : 'Failed to send order'
+        const status = message === 'Purchase order not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { submitPurchaseOrder } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/purchase-orders/[id]/submit - Submit a draft PO for approval
+export const POST = withPermission('purchasing:manage', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.purchaseOrder.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const { before, order } = await submitPurchaseOrder(id)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'purchase_order',
+            entityId: id,
+            before,
+            after: order,
+        })
+
+        return NextResponse.json({ order })
+    } catch (error) {
+        console.error('Error submitting purchase order:', error)
+        const message = error instanceof Error ? error.message : 'Failed to submit order'
+        const status = message === 'Purchase order not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
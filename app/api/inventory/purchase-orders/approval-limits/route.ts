@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, validateBody } from '@/lib/validations/middleware'
+import { purchaseApprovalLimitSchema } from '@/lib/validations/schemas'
+import { listApprovalLimits, setApprovalLimit } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+
+// GET /api/inventory/purchase-orders/approval-limits - Largest PO total each role may approve
+export const GET = withPermission('inventory:view', async () => {
+    try {
+        const limits = await listApprovalLimits()
+        return NextResponse.json({ limits })
+    } catch (error) {
+        console.error('Error fetching approval limits:', error)
+        return NextResponse.json({ error: 'Failed to fetch approval limits' }, { status: 500 })
+    }
+})
+
+// PUT /api/inventory/purchase-orders/approval-limits - Set a role's limit; null is unlimited
+export const PUT = withPermission('settings:manage', async (request: NextRequest, _context, user) => {
+    try {
+        const { role, maxTotal } = await validateBody(request, purchaseApprovalLimitSchema)
+
+        const before = await prisma.purchaseApprovalLimit.findUnique({ where: { role } })
+        const limit = await setApprovalLimit(role, maxTotal)
+
+        await recordAudit({
+            request,
+            user,
+            action: before ? 'update' : 'create',
+            entityType: 'purchase_approval_limit',
+            entityId: role,
+            before,
+            after: limit,
+        })
+
+        return NextResponse.json({ limit })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error updating approval limit:', error)
+        return NextResponse.json({ error: 'Failed to update approval limit' }, { status: 500 })
+    }
+})
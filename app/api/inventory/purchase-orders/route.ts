@@ -1,20 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
-
-// Utility to generate PO number
-function generatePONumber(): string {
-    const date = new Date()
-    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '')
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase()
-    return `PO-${dateStr}-${random}`
-}
+import { withPermission, checkLocationAccess, scopeLocationFilter } from '@/lib/validations/middleware'
+import { nextSequenceValue } from '@/lib/sequences'
 
 // GET /api/inventory/purchase-orders - List purchase orders
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
         const supplierId = searchParams.get('supplierId')
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const status = searchParams.get('status')
         const page = parseInt(searchParams.get('page') || '1')
         const limit = parseInt(searchParams.get('limit') || '50')
@@ -23,7 +20,7 @@ export async function GET(request: NextRequest) {
 
         if (supplierId) where.supplierId = supplierId
         if (locationId) where.locationId = locationId
-        if (status) where.status = status
+        if (status) where.status = status.includes(',') ? { in: status.split(',') } : status
 
         const [orders, total] = await Promise.all([
             prisma.purchaseOrder.findMany({
@@ -49,10 +46,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching purchase orders:', error)
         return NextResponse.json({ error: 'Failed to fetch orders' }, { status: 500 })
     }
-}
+})
 
 // POST /api/inventory/purchase-orders - Create purchase order
-export async function POST(request: NextRequest) {
+export const POST = withPermission('purchasing:manage', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const {
@@ -71,6 +68,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
         if (!items || !Array.isArray(items) || items.length === 0) {
             return NextResponse.json(
                 { error: 'At least one item is required' },
@@ -78,6 +80,15 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const location = await prisma.location.findUnique({
+            where: { id: locationId },
+            select: { id: true, code: true, timezone: true }
+        })
+
+        if (!location) {
+            return NextResponse.json({ error: 'Location not found' }, { status: 404 })
+        }
+
         // Calculate totals
         let subtotal = 0
         const itemsData = items.map((item: { inventoryItemId: string; quantity: number; unitPrice: number; notes?: string }) => {
@@ -96,32 +107,36 @@ export async function POST(request: NextRequest) {
         const discountAmount = 0
         const total = subtotal + taxAmount - discountAmount
 
-        const order = await prisma.purchaseOrder.create({
-            data: {
-                poNumber: generatePONumber(),
-                supplierId,
-                locationId,
-                createdById,
-                status: 'DRAFT',
-                subtotal,
-                taxAmount,
-                discountAmount,
-                total,
-                notes,
-                expectedDate: expectedDate ? new Date(expectedDate) : null,
-                items: {
-                    create: itemsData
-                }
-            },
-            include: {
-                supplier: { select: { id: true, name: true } },
-                location: { select: { id: true, name: true } },
-                items: {
-                    include: {
-                        inventoryItem: { select: { id: true, name: true, sku: true } }
+        const order = await prisma.$transaction(async (tx) => {
+            const { number } = await nextSequenceValue(tx, 'purchase-order', location)
+
+            return tx.purchaseOrder.create({
+                data: {
+                    poNumber: number,
+                    supplierId,
+                    locationId,
+                    createdById,
+                    status: 'DRAFT',
+                    subtotal,
+                    taxAmount,
+                    discountAmount,
+                    total,
+                    notes,
+                    expectedDate: expectedDate ? new Date(expectedDate) : null,
+                    items: {
+                        create: itemsData
+                    }
+                },
+                include: {
+                    supplier: { select: { id: true, name: true } },
+                    location: { select: { id: true, name: true } },
+                    items: {
+                        include: {
+                            inventoryItem: { select: { id: true, name: true, sku: true } }
+                        }
                     }
                 }
-            }
+            })
         })
 
         return NextResponse.json({ order }, { status: 201 })
@@ -129,4 +144,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating purchase order:', error)
         return NextResponse.json({ error: 'Failed to create order' }, { status: 500 })
     }
-}
+})
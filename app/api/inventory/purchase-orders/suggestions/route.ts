@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { purchaseOrderSuggestionSchema } from '@/lib/validations/schemas'
+import { suggestPurchaseOrders, createSuggestedPurchaseOrders } from '@/lib/inventory'
+
+// GET /api/inventory/purchase-orders/suggestions - Preview reorder suggestions for a location
+export const GET = withPermission('purchasing:manage', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const locationId = searchParams.get('locationId')
+        const lookbackDays = searchParams.get('lookbackDays')
+
+        if (!locationId) {
+            return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
+        }
+
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        const suggestions = await suggestPurchaseOrders(locationId, {
+            lookbackDays: lookbackDays ? Math.min(365, Math.max(1, parseInt(lookbackDays) || 1)) : undefined
+        })
+        return NextResponse.json(suggestions)
+    } catch (error) {
+        console.error('Error building purchase order suggestions:', error)
+        return NextResponse.json({ error: 'Failed to build suggestions' }, { status: 500 })
+    }
+})
+
+// POST /api/inventory/purchase-orders/suggestions - Raise draft purchase orders from the suggestions
+export const POST = withPermission('purchasing:manage', async (request: NextRequest, _context, user) => {
+    try {
+        const { locationId, lookbackDays } = await validateBody(request, purchaseOrderSuggestionSchema)
+
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        const result = await createSuggestedPurchaseOrders(locationId, user.id, { lookbackDays })
+        return NextResponse.json(result, { status: result.orders.length > 0 ? 201 : 200 })
+    } catch (error) {
+        if (error instanceof NextResponse) return error
+
+        console.error('Error creating suggested purchase orders:', error)
+        const message = error instanceof Error ? error.message : 'Failed to create purchase orders'
+        const status = message === 'Location not found' ? 404 : 500
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 interface RouteParams {
     params: Promise<{ menuItemId: string }>
 }
 
 // GET /api/inventory/recipes/[menuItemId] - Get recipe for menu item
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export const GET = withPermission('inventory:view', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { menuItemId } = await params
 
@@ -69,10 +70,10 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         console.error('Error fetching recipe:', error)
         return NextResponse.json({ error: 'Failed to fetch recipe' }, { status: 500 })
     }
-}
+})
 
 // PATCH /api/inventory/recipes/[menuItemId] - Update recipe
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('inventory:manage', async (request: NextRequest, { params }: RouteParams) => {
     try {
         const { menuItemId } = await params
         const body = await request.json()
@@ -142,10 +143,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         console.error('Error updating recipe:', error)
         return NextResponse.json({ error: 'Failed to update recipe' }, { status: 500 })
     }
-}
+})
 
 // DELETE /api/inventory/recipes/[menuItemId] - Delete recipe
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export const DELETE = withPermission('inventory:manage', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { menuItemId } = await params
 
@@ -167,4 +168,4 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
         console.error('Error deleting recipe:', error)
         return NextResponse.json({ error: 'Failed to delete recipe' }, { status: 500 })
     }
-}
+})
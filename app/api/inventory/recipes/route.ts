@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 // GET /api/inventory/recipes - List recipes
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest) => {
     try {
         const { searchParams } = new URL(request.url)
         const menuItemId = searchParams.get('menuItemId')
@@ -51,10 +52,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching recipes:', error)
         return NextResponse.json({ error: 'Failed to fetch recipes' }, { status: 500 })
     }
-}
+})
 
 // POST /api/inventory/recipes - Create recipe
-export async function POST(request: NextRequest) {
+export const POST = withPermission('inventory:manage', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const {
@@ -131,4 +132,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating recipe:', error)
         return NextResponse.json({ error: 'Failed to create recipe' }, { status: 500 })
     }
-}
+})
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { getStockLevelEvents } from '@/lib/inventory'
+import { publishEvents } from '@/lib/realtime'
+import { recordAudit } from '@/lib/audit'
 
 // Utility to generate movement number
 function generateMovementNumber(): string {
@@ -10,7 +14,7 @@ function generateMovementNumber(): string {
 }
 
 // POST /api/inventory/stock/adjust - Adjust stock levels
-export async function POST(request: NextRequest) {
+export const POST = withPermission('inventory:adjust', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const {
@@ -30,6 +34,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
         // Get current item and stock
         const item = await prisma.inventoryItem.findUnique({
             where: { id: inventoryItemId }
@@ -46,6 +55,7 @@ export async function POST(request: NextRequest) {
             }
         })
 
+        const stockBefore = locationStock
         const previousStock = locationStock ? Number(locationStock.currentStock) : 0
         const newStock = previousStock + quantity
 
@@ -102,6 +112,18 @@ export async function POST(request: NextRequest) {
             data: { currentStock: allLocationStock._sum.currentStock || 0 }
         })
 
+        await recordAudit({
+            request,
+            user,
+            action: 'adjust',
+            entityType: 'location_stock',
+            entityId: locationStock.id,
+            before: stockBefore,
+            after: locationStock,
+        })
+
+        await publishEvents(await getStockLevelEvents(locationId, [inventoryItemId]))
+
         return NextResponse.json({
             movement,
             locationStock,
@@ -112,4 +134,4 @@ export async function POST(request: NextRequest) {
         console.error('Error adjusting stock:', error)
         return NextResponse.json({ error: 'Failed to adjust stock' }, { status: 500 })
     }
-}
+})
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/inventory/stock/alerts - Get low stock and expiring items
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
 
         // Get all active items and filter for low stock in memory
         // (Prisma doesn't support comparing two columns directly)
@@ -75,5 +79,5 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching stock alerts:', error)
         return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 })
     }
-}
+})
 
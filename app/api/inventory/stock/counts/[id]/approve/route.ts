@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { approveStockCount, getStockLevelEvents } from '@/lib/inventory'
+import { publishEvents } from '@/lib/realtime'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/stock/counts/[id]/approve - Post a submitted count's variance to stock
+export const POST = withPermission('inventory:adjust', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.stockCount.findUnique({ where: { id } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const result = await approveStockCount(id, user.id)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'approve',
+            entityType: 'stock_count',
+            entityId: id,
+            before: existing,
+            after: result.stockCount,
+        })
+        await publishEvents(await getStockLevelEvents(existing.locationId, result.inventoryItemIds))
+
+        return NextResponse.json({
+            stockCount: result.stockCount,
+            report: result.report,
+            adjustedItems: result.inventoryItemIds.length
+        })
+    } catch (error) {
+        console.error('Error approving stock count:', error)
+        const message = error instanceof Error ? error.message : 'Failed to approve stock count'
+        const status = message === 'Stock count not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
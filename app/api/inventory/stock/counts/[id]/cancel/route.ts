@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { cancelStockCount } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/stock/counts/[id]/cancel - Abandon a count without touching stock
+export const POST = withPermission('inventory:adjust', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.stockCount.findUnique({ where: { id } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const stockCount = await cancelStockCount(id)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'stock_count',
+            entityId: id,
+            before: existing,
+            after: stockCount,
+        })
+
+        return NextResponse.json(stockCount)
+    } catch (error) {
+        console.error('Error cancelling stock count:', error)
+        const message = error instanceof Error ? error.message : 'Failed to cancel stock count'
+        const status = message === 'Stock count not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { stockCountEntriesSchema } from '@/lib/validations/schemas'
+import { recordCountEntries } from '@/lib/inventory'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/stock/counts/[id]/entries - Record a device's blind tallies
+export const POST = withPermission('inventory:count', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, stockCountEntriesSchema)
+
+        const existing = await prisma.stockCount.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const result = await recordCountEntries(id, { ...body, countedById: user.id })
+        return NextResponse.json(result, { status: 201 })
+    } catch (error) {
+        if (error instanceof NextResponse) return error
+
+        console.error('Error recording stock count entries:', error)
+        const message = error instanceof Error ? error.message : 'Failed to record counts'
+        const status = message === 'Stock count not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
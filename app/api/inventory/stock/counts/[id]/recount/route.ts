@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { stockCountRecountSchema } from '@/lib/validations/schemas'
+import { requestRecount } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/stock/counts/[id]/recount - Send a submitted count back for recounting
+export const POST = withPermission('inventory:adjust', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, stockCountRecountSchema)
+
+        const existing = await prisma.stockCount.findUnique({ where: { id } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const result = await requestRecount(id, body.inventoryItemIds)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'stock_count',
+            entityId: id,
+            before: existing,
+            after: result.stockCount,
+        })
+
+        return NextResponse.json(result)
+    } catch (error) {
+        if (error instanceof NextResponse) return error
+
+        console.error('Error requesting recount:', error)
+        const message = error instanceof Error ? error.message : 'Failed to request recount'
+        const status = message === 'Stock count not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { getBlindStockCount } from '@/lib/inventory'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// GET /api/inventory/stock/counts/[id] - Items to count, without system quantities
+export const GET = withPermission('inventory:count', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const { searchParams } = new URL(request.url)
+
+        const existing = await prisma.stockCount.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        return NextResponse.json(await getBlindStockCount(id, searchParams.get('deviceId')))
+    } catch (error) {
+        console.error('Error fetching stock count:', error)
+        return NextResponse.json({ error: 'Failed to fetch stock count' }, { status: 500 })
+    }
+})
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { submitStockCount } from '@/lib/inventory'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/inventory/stock/counts/[id]/submit - Finish counting and send for review
+export const POST = withPermission('inventory:count', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.stockCount.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const stockCount = await submitStockCount(id)
+        return NextResponse.json(stockCount)
+    } catch (error) {
+        console.error('Error submitting stock count:', error)
+        const message = error instanceof Error ? error.message : 'Failed to submit stock count'
+        const status = message === 'Stock count not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { getVarianceReport } from '@/lib/inventory'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// GET /api/inventory/stock/counts/[id]/variance - Expected vs counted quantities, valued at cost
+export const GET = withPermission('inventory:adjust', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const existing = await prisma.stockCount.findUnique({ where: { id }, select: { locationId: true } })
+        if (!existing) {
+            return NextResponse.json({ error: 'Stock count not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existing.locationId)
+        if (denied) {
+            return denied
+        }
+
+        return NextResponse.json(await getVarianceReport(id))
+    } catch (error) {
+        console.error('Error fetching variance report:', error)
+        return NextResponse.json({ error: 'Failed to fetch variance report' }, { status: 500 })
+    }
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { StockCountStatus } from '@prisma/client'
+import { withPermission, checkLocationAccess, scopeLocationFilter, validateBody } from '@/lib/validations/middleware'
+import { stockCountOpenSchema } from '@/lib/validations/schemas'
+import { listStockCounts, openStockCount } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+
+const STATUSES: StockCountStatus[] = ['OPEN', 'SUBMITTED', 'APPROVED', 'CANCELLED']
+
+// GET /api/inventory/stock/counts - List count sessions
+export const GET = withPermission('inventory:view', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
+        const status = searchParams.get('status') as StockCountStatus | null
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '50')
+
+        if (status && !STATUSES.includes(status)) {
+            return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+        }
+
+        return NextResponse.json(await listStockCounts({ locationId, status, page, limit }))
+    } catch (error) {
+        console.error('Error fetching stock counts:', error)
+        return NextResponse.json({ error: 'Failed to fetch stock counts' }, { status: 500 })
+    }
+})
+
+// POST /api/inventory/stock/counts - Open a count for a location, storage area or category
+export const POST = withPermission('inventory:adjust', async (request: NextRequest, _context, user) => {
+    try {
+        const body = await validateBody(request, stockCountOpenSchema)
+
+        const denied = checkLocationAccess(user, body.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const stockCount = await openStockCount({ ...body, openedById: user.id })
+
+        await recordAudit({
+            request,
+            user,
+            action: 'create',
+            entityType: 'stock_count',
+            entityId: stockCount.id,
+            after: stockCount,
+        })
+
+        return NextResponse.json(stockCount, { status: 201 })
+    } catch (error) {
+        if (error instanceof NextResponse) return error
+
+        console.error('Error opening stock count:', error)
+        const message = error instanceof Error ? error.message : 'Failed to open stock count'
+        const status = message === 'Location not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
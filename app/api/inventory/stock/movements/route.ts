@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/inventory/stock/movements - Get stock movement history
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
         const inventoryItemId = searchParams.get('inventoryItemId')
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const movementType = searchParams.get('movementType')
         const startDate = searchParams.get('startDate')
         const endDate = searchParams.get('endDate')
@@ -49,4 +53,4 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching stock movements:', error)
         return NextResponse.json({ error: 'Failed to fetch movements' }, { status: 500 })
     }
-}
+})
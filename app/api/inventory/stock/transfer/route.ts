@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { getStockLevelEvents } from '@/lib/inventory'
+import { publishEvents } from '@/lib/realtime'
 
 // Utility to generate movement number
 function generateMovementNumber(): string {
@@ -10,7 +13,7 @@ function generateMovementNumber(): string {
 }
 
 // POST /api/inventory/stock/transfer - Transfer stock between locations
-export async function POST(request: NextRequest) {
+export const POST = withPermission('inventory:transfer', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const {
@@ -29,6 +32,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const denied = checkLocationAccess(user, sourceLocationId)
+        if (denied) {
+            return denied
+        }
+
         if (quantity <= 0) {
             return NextResponse.json({ error: 'Quantity must be positive' }, { status: 400 })
         }
@@ -133,6 +141,11 @@ export async function POST(request: NextRequest) {
             return { outMovement, inMovement, destStock }
         })
 
+        await publishEvents([
+            ...await getStockLevelEvents(sourceLocationId, [inventoryItemId]),
+            ...await getStockLevelEvents(destinationLocationId, [inventoryItemId]),
+        ])
+
         return NextResponse.json({
             message: 'Transfer completed successfully',
             transfer: {
@@ -147,4 +160,4 @@ export async function POST(request: NextRequest) {
         console.error('Error transferring stock:', error)
         return NextResponse.json({ error: 'Failed to transfer stock' }, { status: 500 })
     }
-}
+})
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // GET /api/inventory/suppliers/[id] - Get single supplier
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export const GET = withPermission('inventory:view', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
 
@@ -44,10 +45,10 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         console.error('Error fetching supplier:', error)
         return NextResponse.json({ error: 'Failed to fetch supplier' }, { status: 500 })
     }
-}
+})
 
 // PATCH /api/inventory/suppliers/[id] - Update supplier
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('purchasing:manage', async (request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -84,10 +85,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         console.error('Error updating supplier:', error)
         return NextResponse.json({ error: 'Failed to update supplier' }, { status: 500 })
     }
-}
+})
 
 // DELETE /api/inventory/suppliers/[id] - Deactivate supplier
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export const DELETE = withPermission('purchasing:manage', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
 
@@ -107,4 +108,4 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
         console.error('Error deleting supplier:', error)
         return NextResponse.json({ error: 'Failed to delete supplier' }, { status: 500 })
     }
-}
+})
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 // Utility to generate supplier code
 function generateSupplierCode(): string {
@@ -8,7 +9,7 @@ function generateSupplierCode(): string {
 }
 
 // GET /api/inventory/suppliers - List suppliers
-export async function GET(request: NextRequest) {
+export const GET = withPermission('inventory:view', async (request: NextRequest) => {
     try {
         const { searchParams } = new URL(request.url)
         const search = searchParams.get('search')
@@ -50,10 +51,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching suppliers:', error)
         return NextResponse.json({ error: 'Failed to fetch suppliers' }, { status: 500 })
     }
-}
+})
 
 // POST /api/inventory/suppliers - Create supplier
-export async function POST(request: NextRequest) {
+export const POST = withPermission('purchasing:manage', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const {
@@ -91,4 +92,4 @@ export async function POST(request: NextRequest) {
         }
         return NextResponse.json({ error: 'Failed to create supplier' }, { status: 500 })
     }
-}
+})
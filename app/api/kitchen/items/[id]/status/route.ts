@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents, type DomainEvent } from '@/lib/realtime'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // PATCH /api/kitchen/items/[id]/status - Update individual item status
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('kitchen:operate', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -26,12 +28,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
         const item = await prisma.kitchenOrderItem.findUnique({
             where: { id },
-            include: { kitchenOrder: true }
+            include: { kitchenOrder: { include: { station: { select: { locationId: true } } } } }
         })
 
         if (!item) {
             return NextResponse.json({ error: 'Kitchen order item not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, item.kitchenOrder.station.locationId)
+        if (denied) {
+            return denied
+        }
 
         const updateData: Record<string, unknown> = { status }
         if (status === 'READY') {
@@ -55,22 +61,36 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         const allReady = allItems.every(i => i.status === 'READY' || i.status === 'CANCELLED')
         const anyPreparing = allItems.some(i => i.status === 'PREPARING')
 
+        const ticket = {
+            locationId: item.kitchenOrder.station.locationId,
+            stationId: item.kitchenOrder.stationId,
+            kitchenOrderId: item.kitchenOrderId
+        }
+        const events: DomainEvent[] = []
+        if (status === 'READY') {
+            events.push({ type: 'kitchen.item-ready', ...ticket, itemId: id })
+        }
+
         // Update kitchen order status if needed
         if (allReady && item.kitchenOrder.status !== 'READY') {
             await prisma.kitchenOrder.update({
                 where: { id: item.kitchenOrderId },
                 data: { status: 'READY', completedAt: new Date() }
             })
+            events.push({ type: 'kitchen.ticket-updated', ...ticket, status: 'READY' })
         } else if (anyPreparing && item.kitchenOrder.status === 'NEW') {
             await prisma.kitchenOrder.update({
                 where: { id: item.kitchenOrderId },
                 data: { status: 'IN_PROGRESS', startedAt: new Date() }
             })
+            events.push({ type: 'kitchen.ticket-updated', ...ticket, status: 'IN_PROGRESS' })
         }
 
+        await publishEvents(events)
+
         return NextResponse.json({ item: updatedItem })
     } catch (error) {
         console.error('Error updating kitchen item status:', error)
         return NextResponse.json({ error: 'Failed to update item status' }, { status: 500 })
     }
-}
+})
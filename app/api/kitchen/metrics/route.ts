@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/kitchen/metrics - Kitchen performance metrics
-export async function GET(request: NextRequest) {
+export const GET = withPermission('kitchen:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
         const stationId = searchParams.get('stationId')
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const startDate = searchParams.get('startDate') || new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
         const endDate = searchParams.get('endDate') || new Date().toISOString()
 
@@ -123,4 +127,4 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching kitchen metrics:', error)
         return NextResponse.json({ error: 'Failed to fetch metrics' }, { status: 500 })
     }
-}
+})
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents } from '@/lib/realtime'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/kitchen/orders/[id]/bump - Bump order to next status
-export async function POST(_request: NextRequest, { params }: RouteParams) {
+export const POST = withPermission('kitchen:operate', async (_request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
 
@@ -18,6 +20,10 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
         if (!order) {
             return NextResponse.json({ error: 'Kitchen order not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, order.station.locationId)
+        if (denied) {
+            return denied
+        }
 
         // Determine next status
         const statusFlow: Record<string, string> = {
@@ -67,9 +73,15 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
             }
         })
 
+        const ticket = { locationId: order.station.locationId, stationId: order.stationId, kitchenOrderId: id }
+        await publishEvents([
+            { type: 'kitchen.ticket-updated', ...ticket, status: nextStatus },
+            { type: 'kitchen.ticket-bumped', ...ticket },
+        ])
+
         return NextResponse.json({ order: updatedOrder })
     } catch (error) {
         console.error('Error bumping kitchen order:', error)
         return NextResponse.json({ error: 'Failed to bump order' }, { status: 500 })
     }
-}
+})
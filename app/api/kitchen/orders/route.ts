@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { routeOrderToKitchen } from '@/lib/kitchen'
+import { kitchenTicketEvents, publishEvents } from '@/lib/realtime'
+import { withPermission } from '@/lib/validations/middleware'
 
 // GET /api/kitchen/orders - Get kitchen orders for station
-export async function GET(request: NextRequest) {
+export const GET = withPermission('kitchen:view', async (request: NextRequest) => {
     try {
         const { searchParams } = new URL(request.url)
         const stationId = searchParams.get('stationId')
@@ -68,4 +71,26 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching kitchen orders:', error)
         return NextResponse.json({ error: 'Failed to fetch orders' }, { status: 500 })
     }
-}
+})
+
+// POST /api/kitchen/orders - Route an order's unsent items to kitchen stations
+export const POST = withPermission('kitchen:operate', async (request: NextRequest) => {
+    try {
+        const body = await request.json()
+        const { orderId } = body
+
+        if (!orderId) {
+            return NextResponse.json({ error: 'orderId is required' }, { status: 400 })
+        }
+
+        const result = await routeOrderToKitchen(orderId)
+        await publishEvents(kitchenTicketEvents(result))
+
+        return NextResponse.json(result, { status: result.kitchenOrders.length > 0 ? 201 : 200 })
+    } catch (error) {
+        console.error('Error routing order to kitchen:', error)
+        const message = error instanceof Error ? error.message : 'Failed to route order'
+        const status = message === 'Order not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getKitchenRouting, updateKitchenRouting } from '@/lib/kitchen'
+import { withPermission, checkLocationAccess, scopeLocationFilter } from '@/lib/validations/middleware'
+
+// GET /api/kitchen/routing - Get fallback/expo station settings for a location
+export const GET = withPermission('kitchen:view', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
+
+        if (!locationId) {
+            return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
+        }
+
+        const routing = await getKitchenRouting(locationId)
+
+        return NextResponse.json({ routing })
+    } catch (error) {
+        console.error('Error fetching kitchen routing:', error)
+        const message = error instanceof Error ? error.message : 'Failed to fetch routing'
+        return NextResponse.json({ error: message }, { status: message === 'Location not found' ? 404 : 500 })
+    }
+})
+
+// PUT /api/kitchen/routing - Set fallback/expo stations for a location
+export const PUT = withPermission('kitchen:manage', async (request: NextRequest, _context, user) => {
+    try {
+        const body = await request.json()
+        const { locationId, fallbackStationId, expoStationId } = body
+
+        if (!locationId) {
+            return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
+        }
+
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        const routing = await updateKitchenRouting(locationId, {
+            fallbackStationId: fallbackStationId || undefined,
+            expoStationId: expoStationId || undefined
+        })
+
+        return NextResponse.json({ routing })
+    } catch (error) {
+        console.error('Error updating kitchen routing:', error)
+        const message = error instanceof Error ? error.message : 'Failed to update routing'
+        return NextResponse.json({ error: message }, { status: message === 'Location not found' ? 404 : 400 })
+    }
+})
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/kitchen/stations - List all kitchen stations
-export async function GET(request: NextRequest) {
+export const GET = withPermission('kitchen:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
 
         const stations = await prisma.kitchenStation.findMany({
             where: {
@@ -35,10 +39,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching kitchen stations:', error)
         return NextResponse.json({ error: 'Failed to fetch stations' }, { status: 500 })
     }
-}
+})
 
 // POST /api/kitchen/stations - Create kitchen station
-export async function POST(request: NextRequest) {
+export const POST = withPermission('kitchen:manage', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const { name, code, locationId, color, warningTime, criticalTime, categoryIds } = body
@@ -50,6 +54,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
         const station = await prisma.kitchenStation.create({
             data: {
                 name,
@@ -81,4 +90,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating kitchen station:', error)
         return NextResponse.json({ error: 'Failed to create station' }, { status: 500 })
     }
-}
+})
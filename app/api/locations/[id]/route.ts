@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withAuth,
+  withPermission,
   withErrorHandling,
   validateBody,
   createErrorResponse,
 } from '@/lib/validations/middleware'
 import { locationUpdateSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
 
 export const GET = withErrorHandling(async (_request: NextRequest, { params }: { params: { id: string } }) => {
   try {
@@ -25,15 +26,29 @@ export const GET = withErrorHandling(async (_request: NextRequest, { params }: {
   }
 })
 
-export const PATCH = withAuth(async (request: NextRequest, { params }: { params: { id: string } }) => {
+export const PATCH = withPermission('locations:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
   try {
     const validatedBody = await validateBody(request, locationUpdateSchema)
 
+    const existing = await prisma.location.findUnique({
+      where: { id: params.id },
+    })
+
     const location = await prisma.location.update({
       where: { id: params.id },
       data: validatedBody as any,
     })
 
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'location',
+      entityId: location.id,
+      before: existing,
+      after: location,
+    })
+
     return NextResponse.json(location)
   } catch (error: any) {
     if (error instanceof NextResponse) return error
@@ -49,11 +64,19 @@ export const PATCH = withAuth(async (request: NextRequest, { params }: { params:
   }
 })
 
-export const DELETE = withAuth(async (_request: NextRequest, { params }: { params: { id: string } }) => {
+export const DELETE = withPermission('locations:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
   try {
-    await prisma.location.delete({
+    const deleted = await prisma.location.delete({
       where: { id: params.id },
     })
+    await recordAudit({
+      request,
+      user,
+      action: 'delete',
+      entityType: 'location',
+      entityId: deleted.id,
+      before: deleted,
+    })
     return new NextResponse(null, { status: 204 })
   } catch (error: any) {
     console.error('Error deleting location:', error)
@@ -2,11 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 export const dynamic = 'force-dynamic'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withAuthAndBodyValidation,
+  withPermissionAndBodyValidation,
   withErrorHandling,
   createErrorResponse,
 } from '@/lib/validations/middleware'
 import { locationSchema, type LocationInput } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
 
 export const GET = withErrorHandling(async (request: NextRequest) => {
   try {
@@ -29,13 +30,22 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   }
 })
 
-export const POST = withAuthAndBodyValidation(
+export const POST = withPermissionAndBodyValidation(
+  'locations:manage',
   locationSchema,
-  async (_request: NextRequest, validatedBody: LocationInput) => {
+  async (request: NextRequest, validatedBody: LocationInput, user) => {
     try {
       const location = await prisma.location.create({
         data: validatedBody as any
       })
+      await recordAudit({
+        request,
+        user,
+        action: 'create',
+        entityType: 'location',
+        entityId: location.id,
+        after: location,
+      })
       const parsedLocation = {
         ...location,
         countryImages: location.countryImages ? JSON.parse(location.countryImages) : [],
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  validateBody,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { loyaltyEarnRuleUpdateSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+
+export const PUT = withPermission('loyalty:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const validatedBody = await validateBody(request, loyaltyEarnRuleUpdateSchema)
+
+    const existing = await prisma.loyaltyEarnRule.findUnique({
+      where: { id: params.id },
+    })
+
+    const rule = await prisma.loyaltyEarnRule.update({
+      where: { id: params.id },
+      data: validatedBody,
+    })
+
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'loyalty_rule',
+      entityId: rule.id,
+      before: existing,
+      after: rule,
+    })
+
+    return NextResponse.json(rule)
+  } catch (error: any) {
+    if (error instanceof NextResponse) return error
+
+    console.error('Error updating loyalty rule:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Loyalty rule not found', 404)
+    }
+    if (error.code === 'P2003') {
+      return createErrorResponse('Location not found', 400)
+    }
+    return createErrorResponse('Failed to update loyalty rule', 500)
+  }
+})
+
+export const DELETE = withPermission('loyalty:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const deleted = await prisma.loyaltyEarnRule.delete({
+      where: { id: params.id },
+    })
+    await recordAudit({
+      request,
+      user,
+      action: 'delete',
+      entityType: 'loyalty_rule',
+      entityId: deleted.id,
+      before: deleted,
+    })
+    return new NextResponse(null, { status: 204 })
+  } catch (error: any) {
+    console.error('Error deleting loyalty rule:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Loyalty rule not found', 404)
+    }
+    return createErrorResponse('Failed to delete loyalty rule', 500)
+  }
+})
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  withPermissionAndBodyValidation,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { loyaltyEarnRuleSchema, type LoyaltyEarnRuleInput } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+
+export const GET = withPermission('loyalty:manage', async () => {
+  try {
+    const rules = await prisma.loyaltyEarnRule.findMany({
+      orderBy: [{ isActive: 'desc' }, { priority: 'desc' }, { name: 'asc' }],
+      include: { location: { select: { id: true, name: true } } },
+    })
+
+    return NextResponse.json(rules)
+  } catch (error) {
+    console.error('Error fetching loyalty rules:', error)
+    return createErrorResponse('Failed to fetch loyalty rules', 500)
+  }
+})
+
+export const POST = withPermissionAndBodyValidation(
+  'loyalty:manage',
+  loyaltyEarnRuleSchema,
+  async (request: NextRequest, validatedBody: LoyaltyEarnRuleInput, user) => {
+    try {
+      const rule = await prisma.loyaltyEarnRule.create({
+        data: validatedBody,
+      })
+      await recordAudit({
+        request,
+        user,
+        action: 'create',
+        entityType: 'loyalty_rule',
+        entityId: rule.id,
+        after: rule,
+      })
+      return NextResponse.json(rule, { status: 201 })
+    } catch (error: any) {
+      console.error('Error creating loyalty rule:', error)
+      if (error.code === 'P2003') {
+        return createErrorResponse('Location not found', 400)
+      }
+      return createErrorResponse('Failed to create loyalty rule', 500)
+    }
+  }
+)
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  validateBody,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { loyaltySettingsSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+import { getLoyaltySettings } from '@/lib/loyalty'
+
+// GET /api/loyalty/settings - Program switch and redemption limits
+export const GET = withPermission('loyalty:manage', async () => {
+  try {
+    const settings = await prisma.restaurantSettings.findFirst()
+    return NextResponse.json(getLoyaltySettings(settings))
+  } catch (error) {
+    console.error('Error fetching loyalty settings:', error)
+    return createErrorResponse('Failed to fetch loyalty settings', 500)
+  }
+})
+
+// PUT /api/loyalty/settings - Update the program switch and redemption limits
+export const PUT = withPermission('loyalty:manage', async (request: NextRequest, _context, user) => {
+  try {
+    const validatedBody = await validateBody(request, loyaltySettingsSchema)
+
+    const settings = await prisma.restaurantSettings.findFirst()
+    if (!settings) {
+      return createErrorResponse('Settings not found', 404)
+    }
+
+    const updatedSettings = await prisma.restaurantSettings.update({
+      where: { id: settings.id },
+      data: validatedBody,
+    })
+
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'settings',
+      entityId: settings.id,
+      before: settings,
+      after: updatedSettings,
+    })
+
+    return NextResponse.json(getLoyaltySettings(updatedSettings))
+  } catch (error: any) {
+    if (error instanceof NextResponse) return error
+
+    console.error('Error updating loyalty settings:', error)
+    return createErrorResponse('Failed to update loyalty settings', 500)
+  }
+})
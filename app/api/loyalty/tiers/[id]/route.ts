@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  validateBody,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { loyaltyTierUpdateSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+import { reassignTiers } from '@/lib/loyalty'
+
+export const PUT = withPermission('loyalty:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const validatedBody = await validateBody(request, loyaltyTierUpdateSchema)
+
+    const existing = await prisma.loyaltyTier.findUnique({
+      where: { id: params.id },
+    })
+
+    const tier = await prisma.loyaltyTier.update({
+      where: { id: params.id },
+      data: validatedBody,
+    })
+
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'loyalty_tier',
+      entityId: tier.id,
+      before: existing,
+      after: tier,
+    })
+
+    // A new threshold or deactivation moves customers between tiers
+    await reassignTiers()
+
+    return NextResponse.json(tier)
+  } catch (error: any) {
+    if (error instanceof NextResponse) return error
+
+    console.error('Error updating loyalty tier:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Loyalty tier not found', 404)
+    }
+    if (error.code === 'P2002') {
+      return createErrorResponse('Tier name must be unique', 400)
+    }
+    return createErrorResponse('Failed to update loyalty tier', 500)
+  }
+})
+
+export const DELETE = withPermission('loyalty:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const deleted = await prisma.loyaltyTier.delete({
+      where: { id: params.id },
+    })
+    await recordAudit({
+      request,
+      user,
+      action: 'delete',
+      entityType: 'loyalty_tier',
+      entityId: deleted.id,
+      before: deleted,
+    })
+
+    // Members of the removed tier fall back to the next tier down
+    await reassignTiers()
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error: any) {
+    console.error('Error deleting loyalty tier:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Loyalty tier not found', 404)
+    }
+    return createErrorResponse('Failed to delete loyalty tier', 500)
+  }
+})
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  withPermissionAndBodyValidation,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { loyaltyTierSchema, type LoyaltyTierInput } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+import { reassignTiers } from '@/lib/loyalty'
+
+export const GET = withPermission('loyalty:manage', async () => {
+  try {
+    const tiers = await prisma.loyaltyTier.findMany({
+      orderBy: { minPoints: 'asc' },
+      include: { _count: { select: { customers: true } } },
+    })
+
+    return NextResponse.json(tiers)
+  } catch (error) {
+    console.error('Error fetching loyalty tiers:', error)
+    return createErrorResponse('Failed to fetch loyalty tiers', 500)
+  }
+})
+
+export const POST = withPermissionAndBodyValidation(
+  'loyalty:manage',
+  loyaltyTierSchema,
+  async (request: NextRequest, validatedBody: LoyaltyTierInput, user) => {
+    try {
+      const tier = await prisma.loyaltyTier.create({
+        data: validatedBody,
+      })
+      await recordAudit({
+        request,
+        user,
+        action: 'create',
+        entityType: 'loyalty_tier',
+        entityId: tier.id,
+        after: tier,
+      })
+
+      // Existing customers may already qualify for the new tier
+      await reassignTiers()
+
+      return NextResponse.json(tier, { status: 201 })
+    } catch (error: any) {
+      console.error('Error creating loyalty tier:', error)
+      if (error.code === 'P2002') {
+        return createErrorResponse('Tier name must be unique', 400)
+      }
+      return createErrorResponse('Failed to create loyalty tier', 500)
+    }
+  }
+)
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withAuth,
+  withPermission,
   withErrorHandling,
   validateBody,
   createErrorResponse,
 } from '@/lib/validations/middleware'
 import { menuItemUpdateSchema, uuidSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
 
 // GET /api/menu/[id] - Get a single menu item
 export const GET = withErrorHandling(
@@ -41,8 +42,9 @@ export const GET = withErrorHandling(
 )
 
 // PUT /api/menu/[id] - Update a menu item (admin only)
-export const PUT = withAuth(
-  async (request: NextRequest, context: any) => {
+export const PUT = withPermission(
+  'menu:manage',
+  async (request: NextRequest, context: any, user) => {
     try {
       const { params } = context
       const id = params.id
@@ -89,12 +91,24 @@ export const PUT = withAuth(
             dietaryTags: validatedBody.dietaryTags,
           }),
           ...(validatedBody.available !== undefined && { available: validatedBody.available }),
+          ...(validatedBody.variants && { variants: validatedBody.variants }),
+          ...(validatedBody.modifiers && { modifiers: validatedBody.modifiers }),
         },
         include: {
           category: true,
         },
       })
 
+      await recordAudit({
+        request,
+        user,
+        action: 'update',
+        entityType: 'menu_item',
+        entityId: id,
+        before: existingItem,
+        after: updatedItem,
+      })
+
       return NextResponse.json(updatedItem)
     } catch (error) {
       // Handle validation errors from middleware
@@ -108,8 +122,9 @@ export const PUT = withAuth(
 )
 
 // DELETE /api/menu/[id] - Delete a menu item (admin only)
-export const DELETE = withAuth(
-  async (_request: NextRequest, context: any) => {
+export const DELETE = withPermission(
+  'menu:manage',
+  async (request: NextRequest, context: any, user) => {
     try {
       const { params } = context
       const id = params.id
@@ -138,7 +153,7 @@ export const DELETE = withAuth(
         // Instead of hard deleting (which would break history), 
         // we mark it as isDeleted: true. 
         // Our GET APIs now filter these out so they "disappear" from the UI.
-        await prisma.menuItem.update({
+        const archivedItem = await prisma.menuItem.update({
           where: { id },
           data: {
             available: false,
@@ -146,6 +161,16 @@ export const DELETE = withAuth(
           },
         })
 
+        await recordAudit({
+          request,
+          user,
+          action: 'delete',
+          entityType: 'menu_item',
+          entityId: id,
+          before: menuItem,
+          after: archivedItem,
+        })
+
         return NextResponse.json({
           message: 'Menu item deleted successfully',
         })
@@ -156,6 +181,15 @@ export const DELETE = withAuth(
         where: { id },
       })
 
+      await recordAudit({
+        request,
+        user,
+        action: 'delete',
+        entityType: 'menu_item',
+        entityId: id,
+        before: menuItem,
+      })
+
       return NextResponse.json({
         message: 'Menu item deleted successfully',
       })
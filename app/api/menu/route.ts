@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import {
-  withAuthAndBodyValidation,
+  withPermissionAndBodyValidation,
   withErrorHandling,
   createErrorResponse,
 } from '@/lib/validations/middleware'
@@ -61,12 +61,14 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
 })
 
 // POST /api/menu - Create a new menu item (admin only)
-export const POST = withAuthAndBodyValidation(
+export const POST = withPermissionAndBodyValidation(
+  'menu:manage',
   menuItemSchema,
-  async (_request: NextRequest, validatedBody: MenuItemInput) => {
+  async (request: NextRequest, validatedBody: MenuItemInput, user) => {
     const { prisma } = await import('@/lib/db/prisma')
+    const { recordAudit } = await import('@/lib/audit')
     try {
-      const { name, description, price, categoryId, image, dietaryTags, available } =
+      const { name, description, price, categoryId, image, dietaryTags, available, variants, modifiers } =
         validatedBody
 
       // Verify category exists
@@ -88,12 +90,23 @@ export const POST = withAuthAndBodyValidation(
           image,
           dietaryTags: dietaryTags || [],
           available,
+          ...(variants && { variants }),
+          ...(modifiers && { modifiers }),
         },
         include: {
           category: true,
         },
       })
 
+      await recordAudit({
+        request,
+        user,
+        action: 'create',
+        entityType: 'menu_item',
+        entityId: menuItem.id,
+        after: menuItem,
+      })
+
       // Return created item
       return NextResponse.json(menuItem, { status: 201 })
     } catch (error) {
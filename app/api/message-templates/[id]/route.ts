@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  validateBody,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { messageTemplateUpdateSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+
+// PUT /api/message-templates/[id] - Edit an override
+export const PUT = withPermission('settings:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const validatedBody = await validateBody(request, messageTemplateUpdateSchema)
+
+    const existing = await prisma.messageTemplate.findUnique({
+      where: { id: params.id },
+    })
+    if (!existing) {
+      return createErrorResponse('Message template not found', 404)
+    }
+
+    const template = await prisma.messageTemplate.update({
+      where: { id: params.id },
+      data: validatedBody,
+    })
+
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'message_template',
+      entityId: template.id,
+      before: existing,
+      after: template,
+    })
+
+    return NextResponse.json(template)
+  } catch (error: any) {
+    if (error instanceof NextResponse) return error
+
+    console.error('Error updating message template:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Message template not found', 404)
+    }
+    return createErrorResponse('Failed to update message template', 500)
+  }
+})
+
+// DELETE /api/message-templates/[id] - Drop an override and go back to the built-in template
+export const DELETE = withPermission('settings:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const deleted = await prisma.messageTemplate.delete({
+      where: { id: params.id },
+    })
+    await recordAudit({
+      request,
+      user,
+      action: 'delete',
+      entityType: 'message_template',
+      entityId: deleted.id,
+      before: deleted,
+    })
+    return new NextResponse(null, { status: 204 })
+  } catch (error: any) {
+    console.error('Error deleting message template:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Message template not found', 404)
+    }
+    return createErrorResponse('Failed to delete message template', 500)
+  }
+})
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import {
+  withPermissionAndBodyValidation,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { messageTemplatePreviewSchema, type MessageTemplatePreviewInput } from '@/lib/validations/schemas'
+import { previewTemplate } from '@/lib/notifications'
+
+// POST /api/message-templates/preview - Render a template or an unsaved draft with sample data
+export const POST = withPermissionAndBodyValidation(
+  'settings:manage',
+  messageTemplatePreviewSchema,
+  async (_request: NextRequest, validatedBody: MessageTemplatePreviewInput) => {
+    try {
+      const preview = await previewTemplate(validatedBody)
+      return NextResponse.json(preview)
+    } catch (error) {
+      console.error('Error previewing message template:', error)
+      return createErrorResponse('Failed to preview message template', 500)
+    }
+  }
+)
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  withPermissionAndBodyValidation,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { messageTemplateSchema, type MessageTemplateInput } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+import { listMessageTemplates } from '@/lib/notifications'
+
+// GET /api/message-templates - Built-in templates with any overrides, per event, channel and language
+export const GET = withPermission('settings:manage', async () => {
+  try {
+    const templates = await listMessageTemplates()
+    return NextResponse.json(templates)
+  } catch (error) {
+    console.error('Error fetching message templates:', error)
+    return createErrorResponse('Failed to fetch message templates', 500)
+  }
+})
+
+// POST /api/message-templates - Override a built-in template
+export const POST = withPermissionAndBodyValidation(
+  'settings:manage',
+  messageTemplateSchema,
+  async (request: NextRequest, validatedBody: MessageTemplateInput, user) => {
+    try {
+      const template = await prisma.messageTemplate.create({
+        data: validatedBody,
+      })
+      await recordAudit({
+        request,
+        user,
+        action: 'create',
+        entityType: 'message_template',
+        entityId: template.id,
+        after: template,
+      })
+      return NextResponse.json(template, { status: 201 })
+    } catch (error: any) {
+      console.error('Error creating message template:', error)
+      if (error.code === 'P2002') {
+        return createErrorResponse('A template for this event, channel and language already exists', 400)
+      }
+      return createErrorResponse('Failed to create message template', 500)
+    }
+  }
+)
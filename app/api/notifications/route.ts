@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import {
+  withErrorHandling,
+  getAuthorizedUser,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { listInAppNotifications } from '@/lib/notifications'
+
+// GET /api/notifications - The signed-in staff member's in-app notifications
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await getAuthorizedUser()
+  if (!user) {
+    return createErrorResponse('Unauthorized', 401)
+  }
+
+  try {
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '50') || 50, 1), 100)
+    const notifications = await listInAppNotifications(user.id, limit)
+
+    return NextResponse.json(notifications)
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return createErrorResponse('Failed to fetch notifications', 500)
+  }
+})
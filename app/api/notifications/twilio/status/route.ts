@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import twilio from 'twilio'
+import { createErrorResponse } from '@/lib/validations/middleware'
+import { getTwilioSettings, updateDeliveryStatus } from '@/lib/notifications'
+
+const DELIVERED_STATUSES = new Set(['delivered', 'read'])
+const FAILED_STATUSES = new Set(['failed', 'undelivered'])
+
+// POST /api/notifications/twilio/status - Twilio message status callback
+export async function POST(request: NextRequest) {
+  try {
+    const settings = await getTwilioSettings()
+    if (!settings) {
+      return createErrorResponse('Twilio is not configured', 404)
+    }
+
+    const params = Object.fromEntries(new URLSearchParams(await request.text()))
+    const signature = request.headers.get('x-twilio-signature') || ''
+    const url = `${process.env.NEXT_PUBLIC_APP_URL}/api/notifications/twilio/status`
+
+    if (!twilio.validateRequest(settings.authToken, signature, url, params)) {
+      return createErrorResponse('Invalid signature', 403)
+    }
+
+    const { MessageSid, MessageStatus, ErrorCode, ErrorMessage } = params
+    if (MessageSid && DELIVERED_STATUSES.has(MessageStatus)) {
+      await updateDeliveryStatus(MessageSid, 'delivered')
+    } else if (MessageSid && FAILED_STATUSES.has(MessageStatus)) {
+      await updateDeliveryStatus(
+        MessageSid,
+        'failed',
+        ErrorMessage || (ErrorCode ? `Twilio error ${ErrorCode}` : undefined)
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error handling Twilio status callback:', error)
+    return createErrorResponse('Failed to process status callback', 500)
+  }
+}
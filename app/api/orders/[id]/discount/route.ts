@@ -1,25 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { recordAudit } from '@/lib/audit'
+import { evaluateOrderPromotions, recordOrderPromotions } from '@/lib/promotions'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
-// POST /api/orders/[id]/discount - Apply discount to order
-export async function POST(request: NextRequest, { params }: RouteParams) {
+// POST /api/orders/[id]/discount - Apply live promotions and an optional manual discount
+export const POST = withPermission('orders:discount', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
         const { discountType, discountValue, discountCode, discountReason } = body
 
-        if (!discountType || discountValue === undefined) {
+        // "promotion" re-applies live promotions without a manual discount
+        if (!discountType || (discountType !== 'promotion' && discountValue === undefined)) {
             return NextResponse.json(
                 { error: 'discountType and discountValue are required' },
                 { status: 400 }
             )
         }
 
-        const validTypes = ['percentage', 'fixed', 'coupon']
+        const validTypes = ['percentage', 'fixed', 'coupon', 'promotion']
         if (!validTypes.includes(discountType)) {
             return NextResponse.json(
                 { error: `discountType must be one of: ${validTypes.join(', ')}` },
@@ -29,12 +33,22 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
         // Get order
         const order = await prisma.order.findUnique({
-            where: { id }
+            where: { id },
+            include: {
+                orderItems: {
+                    where: { status: { not: 'cancelled' } },
+                    select: { menuItemId: true, quantity: true, unitPrice: true, menuItem: { select: { categoryId: true } } }
+                }
+            }
         })
 
         if (!order) {
             return NextResponse.json({ error: 'Order not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, order.locationId)
+        if (denied) {
+            return denied
+        }
 
         // Check if order can be modified
         const nonModifiableStatuses = ['COMPLETED', 'CANCELLED']
@@ -45,52 +59,83 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             )
         }
 
-        // Calculate discount amount
+        // Promotions are re-evaluated against the items now on the order
+        const { orderItems, ...orderBefore } = order
+        const promotions = await evaluateOrderPromotions(
+            orderItems.map(item => ({
+                menuItemId: item.menuItemId,
+                categoryId: item.menuItem.categoryId,
+                unitPrice: Number(item.unitPrice),
+                quantity: item.quantity
+            }))
+        )
+        const promotionDiscount = promotions.discount
+
+        // Calculate the manual discount on what the promotions leave
         const subtotal = Number(order.subtotal)
+        const promotedSubtotal = Math.max(subtotal - promotionDiscount, 0)
         let discountAmount: number
 
-        if (discountType === 'percentage') {
+        if (discountType === 'promotion') {
+            discountAmount = 0
+        } else if (discountType === 'percentage') {
             if (discountValue < 0 || discountValue > 100) {
                 return NextResponse.json(
                     { error: 'Percentage discount must be between 0 and 100' },
                     { status: 400 }
                 )
             }
-            discountAmount = subtotal * (discountValue / 100)
+            discountAmount = promotedSubtotal * (discountValue / 100)
         } else {
             // Fixed or coupon
             discountAmount = discountValue
         }
 
         // Ensure discount doesn't exceed subtotal
-        if (discountAmount > subtotal) {
-            discountAmount = subtotal
+        if (discountAmount > promotedSubtotal) {
+            discountAmount = promotedSubtotal
         }
 
-        // Recalculate total
+        // Recalculate total; redeemed loyalty points stay applied on top
         const taxRate = Number(order.taxRate)
-        const discountedSubtotal = subtotal - discountAmount
+        const discountedSubtotal = Math.max(promotedSubtotal - discountAmount - Number(order.loyaltyDiscount), 0)
         const taxAmount = discountedSubtotal * taxRate
         const serviceCharge = Number(order.serviceCharge)
         const deliveryFee = Number(order.deliveryFee)
         const newTotal = discountedSubtotal + taxAmount + serviceCharge + deliveryFee
 
-        // Update order
-        const updatedOrder = await prisma.order.update({
-            where: { id },
-            data: {
-                discountType,
-                discountAmount,
-                discountCode: discountCode || null,
-                discountReason: discountReason || null,
-                taxAmount,
-                total: newTotal
-            },
-            include: {
-                orderItems: {
-                    include: { menuItem: { select: { id: true, name: true } } }
+        // Update order and its applied promotions together
+        const updatedOrder = await prisma.$transaction(async (tx) => {
+            await recordOrderPromotions(tx, id, promotions)
+
+            return tx.order.update({
+                where: { id },
+                data: {
+                    discountType: discountType === 'promotion' ? null : discountType,
+                    discountAmount,
+                    discountCode: discountCode || null,
+                    discountReason: discountReason || null,
+                    promotionDiscount,
+                    taxAmount,
+                    total: newTotal
+                },
+                include: {
+                    orderItems: {
+                        include: { menuItem: { select: { id: true, name: true } } }
+                    },
+                    promotions: true
                 }
-            }
+            })
+        })
+
+        await recordAudit({
+            request,
+            user,
+            action: 'discount',
+            entityType: 'order',
+            entityId: id,
+            before: orderBefore,
+            after: updatedOrder,
         })
 
         return NextResponse.json({
@@ -101,10 +146,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                 amount: discountAmount,
                 code: discountCode
             },
-            message: `Discount of ${discountAmount.toFixed(2)} applied successfully`
+            promotions: promotions.applied,
+            message: `Discount of ${(discountAmount + promotionDiscount).toFixed(2)} applied successfully`
         })
     } catch (error) {
         console.error('Error applying discount:', error)
         return NextResponse.json({ error: 'Failed to apply discount' }, { status: 500 })
     }
-}
+})
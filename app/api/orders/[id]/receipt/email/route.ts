@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { receiptEmailSchema } from '@/lib/validations/schemas'
+import { emailOrderReceipt } from '@/lib/receipts'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/orders/[id]/receipt/email - Email the receipt to the customer or a given address
+export const POST = withPermission('orders:view', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const { to } = await validateBody(request, receiptEmailSchema)
+
+        const order = await prisma.order.findUnique({ where: { id }, select: { locationId: true } })
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, order.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const result = await emailOrderReceipt(id, to)
+
+        return NextResponse.json({ message: `Receipt sent to ${result.to}` })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error emailing receipt:', error)
+        const message = error instanceof Error ? error.message : 'Failed to email receipt'
+        return NextResponse.json({ error: message }, { status: 400 })
+    }
+})
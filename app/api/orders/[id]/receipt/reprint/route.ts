@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { receiptRenderSchema } from '@/lib/validations/schemas'
+import { renderOrderReceipt } from '@/lib/receipts'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/orders/[id]/receipt/reprint - Reprint a receipt from the POS
+// Reprints are marked as such on the receipt and recorded in the audit log
+export const POST = withPermission('pos:operate', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const { type, format } = await validateBody(request, receiptRenderSchema)
+
+        const order = await prisma.order.findUnique({
+            where: { id },
+            select: { locationId: true, orderNumber: true }
+        })
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, order.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const receipt = await renderOrderReceipt(id, type, { format, banner: 'REPRINT' })
+
+        await recordAudit({
+            request,
+            user,
+            action: 'reprint',
+            entityType: 'order',
+            entityId: id,
+            after: { orderNumber: order.orderNumber, type, format: format ?? null },
+        })
+
+        return new NextResponse(receipt.content, {
+            headers: {
+                'Content-Type': receipt.contentType,
+                'Content-Disposition': `inline; filename="${receipt.fileName}"`,
+            },
+        })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error reprinting receipt:', error)
+        return NextResponse.json({ error: 'Failed to reprint receipt' }, { status: 500 })
+    }
+})
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { receiptRenderSchema } from '@/lib/validations/schemas'
+import { renderOrderReceipt } from '@/lib/receipts'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// GET /api/orders/[id]/receipt - Render the receipt as ESC/POS bytes, PDF or HTML
+// ?type=thermal_80mm|thermal_58mm|a4|email&format=escpos|pdf|html
+export const GET = withPermission('orders:view', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const { searchParams } = new URL(request.url)
+
+        const parsed = receiptRenderSchema.safeParse({
+            type: searchParams.get('type') || undefined,
+            format: searchParams.get('format') || undefined,
+        })
+        if (!parsed.success) {
+            return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+        }
+
+        const order = await prisma.order.findUnique({ where: { id }, select: { locationId: true } })
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, order.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const receipt = await renderOrderReceipt(id, parsed.data.type, { format: parsed.data.format })
+
+        return new NextResponse(receipt.content, {
+            headers: {
+                'Content-Type': receipt.contentType,
+                'Content-Disposition': `inline; filename="${receipt.fileName}"`,
+            },
+        })
+    } catch (error) {
+        console.error('Error rendering receipt:', error)
+        return NextResponse.json({ error: 'Failed to render receipt' }, { status: 500 })
+    }
+})
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withErrorHandling,
+  withPermission,
+  checkLocationAccess,
   createErrorResponse,
 } from '@/lib/validations/middleware'
 import { uuidSchema } from '@/lib/validations/schemas'
 
 // GET /api/orders/[id] - Get a single order
-export const GET = withErrorHandling(
-  async (_request: NextRequest, context: any) => {
+export const GET = withPermission(
+  'orders:view',
+  async (_request: NextRequest, context: any, user) => {
     try {
       const { params } = context
       const id = params.id
@@ -35,6 +37,11 @@ export const GET = withErrorHandling(
         return createErrorResponse('Order not found', 404)
       }
 
+      const denied = checkLocationAccess(user, order.locationId)
+      if (denied) {
+        return denied
+      }
+
       return NextResponse.json(order)
     } catch (error) {
       console.error('Error fetching order:', error)
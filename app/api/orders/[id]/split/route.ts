@@ -1,76 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { orderSplitSchema } from '@/lib/validations/schemas'
+import { clearOrderSplits, getOrderSplits, splitOrder } from '@/lib/payments'
+import type { AuthorizedUser } from '@/lib/auth/permissions'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
-// POST /api/orders/[id]/split - Split order for payment
-export async function POST(request: NextRequest, { params }: RouteParams) {
-    try {
-        const { id } = await params
-        const body = await request.json()
-        const { splits } = body
+async function checkOrderAccess(user: AuthorizedUser, id: string): Promise<NextResponse | null> {
+    const order = await prisma.order.findUnique({ where: { id }, select: { locationId: true } })
+    if (!order) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+    return checkLocationAccess(user, order.locationId)
+}
 
-        // Validate splits array
-        if (!splits || !Array.isArray(splits) || splits.length < 2) {
-            return NextResponse.json(
-                { error: 'At least 2 splits are required' },
-                { status: 400 }
-            )
-        }
+function errorResponse(error: unknown, fallback: string): NextResponse {
+    if (error instanceof NextResponse) {
+        return error
+    }
+    const message = error instanceof Error ? error.message : fallback
+    const status = message === 'Order not found' ? 404 : 400
+    return NextResponse.json({ error: message }, { status })
+}
 
-        // Validate each split has amount
-        for (const split of splits) {
-            if (!split.amount || split.amount <= 0) {
-                return NextResponse.json(
-                    { error: 'Each split must have a positive amount' },
-                    { status: 400 }
-                )
-            }
+// GET /api/orders/[id]/split - The order's split checks and what is paid on each
+export const GET = withPermission('orders:view', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const denied = await checkOrderAccess(user, id)
+        if (denied) {
+            return denied
         }
 
-        // Get order
-        const order = await prisma.order.findUnique({
-            where: { id },
-            include: { orderItems: true }
-        })
+        return NextResponse.json({ order: await getOrderSplits(id) })
+    } catch (error) {
+        console.error('Error fetching order splits:', error)
+        return errorResponse(error, 'Failed to fetch order splits')
+    }
+})
 
-        if (!order) {
-            return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+// POST /api/orders/[id]/split - Split the bill evenly, by item or by seat
+export const POST = withPermission('orders:update', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, orderSplitSchema)
+        const denied = await checkOrderAccess(user, id)
+        if (denied) {
+            return denied
         }
 
-        // Validate total matches
-        const splitTotal = splits.reduce((sum: number, s: { amount: number }) => sum + s.amount, 0)
-        const orderTotal = Number(order.total)
+        return NextResponse.json({ order: await splitOrder(id, body) })
+    } catch (error) {
+        console.error('Error splitting order:', error)
+        return errorResponse(error, 'Failed to split order')
+    }
+})
 
-        if (Math.abs(splitTotal - orderTotal) > 0.01) {
-            return NextResponse.json(
-                { error: `Split total (${splitTotal}) must equal order total (${orderTotal})` },
-                { status: 400 }
-            )
+// DELETE /api/orders/[id]/split - Go back to a single bill
+export const DELETE = withPermission('orders:update', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const denied = await checkOrderAccess(user, id)
+        if (denied) {
+            return denied
         }
 
-        // Return split suggestions with payment amounts
-        const splitPayments = splits.map((split: { amount: number; label?: string }, index: number) => ({
-            splitIndex: index + 1,
-            amount: split.amount,
-            label: split.label || `Payment ${index + 1}`,
-            orderId: id,
-            isPaid: false
-        }))
-
-        return NextResponse.json({
-            order: {
-                id: order.id,
-                orderNumber: order.orderNumber,
-                total: order.total
-            },
-            splits: splitPayments,
-            message: 'Order split calculated. Use /api/payments to process each split payment with isSplitPayment=true and splitIndex.'
-        })
+        return NextResponse.json({ order: await clearOrderSplits(id) })
     } catch (error) {
-        console.error('Error splitting order:', error)
-        return NextResponse.json({ error: 'Failed to split order' }, { status: 500 })
+        console.error('Error removing order split:', error)
+        return errorResponse(error, 'Failed to remove order split')
     }
-}
+})
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import {
-  withAuth,
+  withPermission,
+  checkLocationAccess,
   validateBody,
   createErrorResponse,
 } from '@/lib/validations/middleware'
@@ -9,10 +10,21 @@ import {
   orderUpdateSchema,
   uuidSchema,
 } from '@/lib/validations/schemas'
+import { routeOrderToKitchen, cancelKitchenTickets } from '@/lib/kitchen'
+import { jobs } from '@/lib/jobs'
+import { deductOrderStock } from '@/lib/inventory'
+import { recordAudit } from '@/lib/audit'
+import { awardOrderPoints, reverseOrderPoints } from '@/lib/loyalty'
+import { kitchenTicketEvents, publishEvents, type DomainEvent } from '@/lib/realtime'
+import { notify } from '@/lib/notifications'
+
+// Status changes the customer hears about
+const CUSTOMER_NOTIFIED_STATUSES = new Set(['CONFIRMED', 'READY', 'COMPLETED', 'CANCELLED'])
 
 // PUT /api/orders/[id]/status - Update order status (admin only)
-export const PUT = withAuth(
-  async (request: NextRequest, { params }: { params: { id: string } }) => {
+export const PUT = withPermission(
+  'orders:update',
+  async (request: NextRequest, { params }: { params: { id: string } }, user) => {
     try {
       const id = params.id
 
@@ -39,6 +51,11 @@ export const PUT = withAuth(
         return createErrorResponse('Order not found', 404)
       }
 
+      const denied = checkLocationAccess(user, existingOrder.locationId)
+      if (denied) {
+        return denied
+      }
+
       // Validate status transitions
       const validTransitions: Record<string, string[]> = {
         PENDING: ['CONFIRMED', 'CANCELLED'],
@@ -72,8 +89,85 @@ export const PUT = withAuth(
         },
       })
 
-      // TODO: Send status update email notification to customer
-      // This can be implemented based on the email service
+      await recordAudit({
+        request,
+        user,
+        action: status === 'CANCELLED' ? 'void' : 'update',
+        entityType: 'order',
+        entityId: id,
+        before: existingOrder,
+        after: updatedOrder,
+      })
+
+      const events: DomainEvent[] = [{
+        type: 'order.status-changed',
+        locationId: updatedOrder.locationId,
+        orderId: id,
+        status,
+        tableId: updatedOrder.tableId,
+      }]
+
+      // Fire kitchen tickets once the order is confirmed, pull them if cancelled
+      if (status === 'CONFIRMED') {
+        await routeOrderToKitchen(id)
+          .then((routing) => events.push(...kitchenTicketEvents(routing)))
+          .catch((error) => console.error('Failed to route order to kitchen:', error))
+      } else if (status === 'CANCELLED') {
+        await cancelKitchenTickets(id)
+          .then((tickets) => events.push(...tickets.map((ticket): DomainEvent => ({
+            type: 'kitchen.ticket-updated',
+            locationId: updatedOrder.locationId,
+            stationId: ticket.stationId,
+            kitchenOrderId: ticket.id,
+            status: 'CANCELLED',
+          }))))
+          .catch((error) => console.error('Failed to cancel kitchen tickets:', error))
+      }
+
+      // Ingredients are consumed when the order completes
+      if (status === 'COMPLETED') {
+        // Deducting is skipped if it has been done, so the inline fallback is safe
+        await jobs.deductStockForOrder(id, existingOrder.locationId, user.id).catch(async (error) => {
+          console.error('Failed to queue stock deduction, deducting inline:', error)
+          await deductOrderStock(id, user.id).catch((deductError) =>
+            console.error('Failed to deduct stock:', deductError)
+          )
+        })
+      }
+
+      // Points are earned once the order completes; cancelling takes back what
+      // it earned and returns any points spent on it
+      if (status === 'COMPLETED') {
+        await awardOrderPoints(id).catch((error) =>
+          console.error('Failed to award loyalty points:', error)
+        )
+      } else if (status === 'CANCELLED') {
+        await reverseOrderPoints(id, 1, `Order ${existingOrder.orderNumber} cancelled`, user.id).catch((error) =>
+          console.error('Failed to reverse loyalty points:', error)
+        )
+      }
+
+      await publishEvents(events)
+
+      if (CUSTOMER_NOTIFIED_STATUSES.has(status)) {
+        await notify({
+          template: 'order-status',
+          data: {
+            orderNumber: updatedOrder.orderNumber,
+            customerName: updatedOrder.customerName || updatedOrder.customer?.name || 'there',
+            status,
+          },
+          channels: ['email', 'sms'],
+          recipient: {
+            type: updatedOrder.customerId ? 'customer' : 'guest',
+            id: updatedOrder.customerId,
+            email: updatedOrder.customerEmail || updatedOrder.customer?.email,
+            phone: updatedOrder.customerPhone || updatedOrder.customer?.phone,
+          },
+          language: updatedOrder.customer?.preferredLanguage,
+          reference: { type: 'order', id },
+        }).catch((error) => console.error('Failed to notify customer of order status:', error))
+      }
 
       return NextResponse.json(updatedOrder)
     } catch (error) {
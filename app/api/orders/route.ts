@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db/prisma'
-import { sendOrderConfirmationEmail } from '@/lib/email/service'
+import { priceLineItem, roundMoney } from '@/lib/menu'
+import { getLocationOrderRules, resolveOrderLocation } from '@/lib/locations'
+import { notify } from '@/lib/notifications'
+import { publishEvent } from '@/lib/realtime'
+import { nextSequenceValue } from '@/lib/sequences'
+import { getLoyaltySettings, planRedemption, redeemPointsForOrder } from '@/lib/loyalty'
+import { evaluateOrderPromotions, recordOrderPromotions } from '@/lib/promotions'
 import {
   withBodyValidation,
   withQueryValidation,
+  authorize,
   createErrorResponse,
 } from '@/lib/validations/middleware'
+import { getLocationScope } from '@/lib/auth/permissions'
 import {
   orderCreateSchema,
   orderQuerySchema,
@@ -17,140 +26,197 @@ import {
 export const POST = withBodyValidation(
   orderCreateSchema,
   async (_request: NextRequest, validatedBody: OrderCreateInput) => {
-    async (_request: NextRequest, validatedBody: OrderCreateInput) => {
-      try {
-        const {
-          items,
-          customerName,
-          customerEmail,
-          customerPhone,
-          orderType,
-          address,
-          notes,
-        } = validatedBody
-
-        // Fetch menu items to calculate prices
-        const menuItemIds = items.map((item) => item.menuItemId)
-        const menuItems = await prisma.menuItem.findMany({
-          where: {
-            id: { in: menuItemIds },
-            available: true,
-          },
-        })
+    try {
+      const {
+        items,
+        customerName,
+        customerEmail,
+        customerPhone,
+        orderType,
+        address,
+        notes,
+        locationId,
+        latitude,
+        longitude,
+        customerId,
+        redeemPoints,
+      } = validatedBody
 
-        // Verify all items exist and are available
-        if (menuItems.length !== menuItemIds.length) {
-          return createErrorResponse('One or more menu items are not available', 400)
-        }
+      // Resolve the branch that will fulfil the order
+      const coordinates = latitude !== undefined && longitude !== undefined
+        ? { latitude, longitude }
+        : null
+      const resolved = await resolveOrderLocation({ locationId, orderType, coordinates })
+      if (!resolved.success) {
+        return createErrorResponse(resolved.error, 400)
+      }
+      const { location } = resolved
+
+      // Fetch menu items to calculate prices
+      const menuItemIds = [...new Set(items.map((item) => item.menuItemId))]
+      const menuItems = await prisma.menuItem.findMany({
+        where: {
+          id: { in: menuItemIds },
+          available: true,
+          isDeleted: false,
+        },
+      })
 
-        // Create a map for quick lookup
-        const menuItemMap = new Map(menuItems.map((item) => [item.id, item]))
-
-        // Calculate order totals
-        let subtotal = 0
-        for (const item of items) {
-          const menuItem = menuItemMap.get(item.menuItemId)
-          if (!menuItem) {
-            return createErrorResponse(`Menu item ${item.menuItemId} not found`, 400)
-          }
-          subtotal += Number(menuItem.price) * item.quantity
+      // Verify all items exist and are available
+      if (menuItems.length !== menuItemIds.length) {
+        return createErrorResponse('One or more menu items are not available', 400)
+      }
+
+      // Create a map for quick lookup
+      const menuItemMap = new Map(menuItems.map((item) => [item.id, item]))
+
+      // Price every line server-side, including variants and modifiers
+      const pricedItems = []
+      for (const item of items) {
+        const menuItem = menuItemMap.get(item.menuItemId)
+        if (!menuItem) {
+          return createErrorResponse(`Menu item ${item.menuItemId} not found`, 400)
         }
 
-        // Get restaurant settings for tax rate and delivery fee
-        const settings = await prisma.restaurantSettings.findFirst()
-        if (!settings) {
-          return createErrorResponse('Restaurant settings not found', 500)
+        const pricing = priceLineItem(menuItem, item)
+        if (!pricing.success) {
+          return createErrorResponse(`${menuItem.name}: ${pricing.error}`, 400)
         }
 
-        const tax = subtotal * Number(settings.taxRate)
-        const deliveryFee = orderType === 'DELIVERY' ? Number(settings.deliveryFee) : 0
-        const total = subtotal + tax + deliveryFee
+        pricedItems.push({ item, menuItem, line: pricing.line })
+      }
+
+      const subtotal = roundMoney(pricedItems.reduce((sum, { line }) => sum + line.totalPrice, 0))
+
+      // Live promotions come off the subtotal before points are redeemed
+      const promotions = await evaluateOrderPromotions(
+        pricedItems.map(({ item, menuItem, line }) => ({
+          menuItemId: menuItem.id,
+          categoryId: menuItem.categoryId,
+          unitPrice: line.unitPrice,
+          quantity: item.quantity,
+        }))
+      )
+      const promotionDiscount = promotions.discount
+
+      // Get restaurant settings for tax rate; fee and minimum come from the location
+      const settings = await prisma.restaurantSettings.findFirst()
+      if (!settings) {
+        return createErrorResponse('Restaurant settings not found', 500)
+      }
 
-        // Validate minimum order for delivery
-        if (orderType === 'DELIVERY' && subtotal < Number(settings.minimumOrder)) {
-          return createErrorResponse(
-            `Minimum order amount is $${Number(settings.minimumOrder).toFixed(2)}`,
-            400
-          )
+      const rules = getLocationOrderRules(location, settings)
+      const deliveryFee = orderType === 'DELIVERY' ? rules.deliveryFee : 0
+
+      // Validate minimum order for delivery
+      if (orderType === 'DELIVERY' && subtotal < rules.minimumOrder) {
+        return createErrorResponse(
+          `Minimum order amount for ${location.name} is $${rules.minimumOrder.toFixed(2)}`,
+          400
+        )
+      }
+
+      // Handle Customer Creation/Update with Auto-Login Logic
+      let customer = await prisma.customer.findUnique({
+        where: { email: customerEmail },
+      })
+
+      // Redeemed points become a discount line. Only a signed-in customer can
+      // spend points: the id they hold must match the account for the email.
+      let redemption: { points: number; discount: number } | null = null
+      if (redeemPoints) {
+        if (!customer || customer.id !== customerId) {
+          return createErrorResponse('Sign in to redeem loyalty points', 403)
         }
 
-        // Handle Customer Creation/Update with Auto-Login Logic
-        let customer = await prisma.customer.findUnique({
-          where: { email: customerEmail },
+        const plan = planRedemption({
+          requestedPoints: redeemPoints,
+          balance: customer.loyaltyPoints,
+          orderAmount: subtotal - promotionDiscount,
+          settings: getLoyaltySettings(settings),
         })
-
-        let generatedPassword = ''
-
-        if (!customer) {
-          // Create new customer with generated password
-          const { hash } = await import('bcryptjs')
-          generatedPassword = Math.random().toString(36).slice(-8)
-          const hashedPassword = await hash(generatedPassword, 12)
-
-          customer = await prisma.customer.create({
-            data: {
-              name: customerName,
-              email: customerEmail,
-              phone: customerPhone,
-              password: hashedPassword,
-              address: address || '', // Store address if provided
-            },
-          })
-        } else {
-          // Update existing details if needed
-          customer = await prisma.customer.update({
-            where: { id: customer.id },
-            data: {
-              name: customerName,
-              phone: customerPhone,
-              // Only update address if provided and not empty
-              ...(address ? { address } : {}),
-            },
-          })
+        if (!plan.success) {
+          return createErrorResponse(plan.error, 400)
         }
+        redemption = plan
+      }
+
+      const loyaltyDiscount = redemption?.discount ?? 0
+      const discountedSubtotal = subtotal - promotionDiscount - loyaltyDiscount
+      const tax = discountedSubtotal * Number(settings.taxRate)
+      const total = discountedSubtotal + tax + deliveryFee
+
+      let generatedPassword = ''
 
-        // Get default location for online orders
-        const defaultLocation = await prisma.location.findFirst({
-          where: { isActive: true },
-          orderBy: { createdAt: 'asc' },
+      if (!customer) {
+        // Create new customer with generated password
+        const { hash } = await import('bcryptjs')
+        generatedPassword = Math.random().toString(36).slice(-8)
+        const hashedPassword = await hash(generatedPassword, 12)
+
+        customer = await prisma.customer.create({
+          data: {
+            name: customerName,
+            email: customerEmail,
+            phone: customerPhone,
+            password: hashedPassword,
+            address: address || '', // Store address if provided
+          },
         })
+      } else {
+        // Update existing details if needed
+        customer = await prisma.customer.update({
+          where: { id: customer.id },
+          data: {
+            name: customerName,
+            phone: customerPhone,
+            // Only update address if provided and not empty
+            ...(address ? { address } : {}),
+          },
+        })
+      }
 
-        if (!defaultLocation) {
-          return createErrorResponse('No active location found', 500)
-        }
+      const orderItems = pricedItems.map(({ item, menuItem, line }) => ({
+        menuItemId: item.menuItemId,
+        name: menuItem.name,
+        quantity: item.quantity,
+        unitPrice: line.unitPrice,
+        totalPrice: line.totalPrice,
+        variantId: line.variantId,
+        variantName: line.variantName,
+        variantPriceAdjust: line.variantPriceAdjust,
+        modifiers: line.modifiers.length > 0
+          ? (line.modifiers as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        modifiersTotal: line.modifiersTotal,
+        specialInstructions: item.specialInstructions,
+        seatNumber: item.seatNumber,
+      }))
 
-        // Generate order number
-        const orderCount = await prisma.order.count()
-        const orderNumber = `ORD-${Date.now()}-${orderCount + 1}`
+      // Number the order in the same transaction so a failed insert leaves no gap
+      const order = await prisma.$transaction(async (tx) => {
+        const sequence = await nextSequenceValue(tx, 'order', location)
 
-        // Create order with order items
-        const order = await prisma.order.create({
+        const created = await tx.order.create({
           data: {
-            orderNumber,
+            orderNumber: sequence.number,
+            displayNumber: sequence.value,
             customerId: customer.id,
-            locationId: defaultLocation.id,
+            locationId: location.id,
             orderType,
             orderSource: 'WEBSITE',
             deliveryAddress: address,
+            deliveryFee,
             subtotal,
             taxAmount: tax,
             total,
             notes,
             status: 'PENDING',
+            promotionDiscount,
+            loyaltyPointsRedeemed: redemption?.points ?? 0,
+            loyaltyDiscount,
             orderItems: {
-              create: items.map((item) => {
-                const menuItem = menuItemMap.get(item.menuItemId)!
-                const unitPrice = Number(menuItem.price)
-                const totalPrice = unitPrice * item.quantity
-                return {
-                  menuItemId: item.menuItemId,
-                  name: menuItem.name,
-                  quantity: item.quantity,
-                  unitPrice: menuItem.price,
-                  totalPrice: totalPrice,
-                  specialInstructions: item.specialInstructions,
-                }
-              }),
+              create: orderItems,
             },
           },
           include: {
@@ -160,76 +226,132 @@ export const POST = withBodyValidation(
               },
             },
             customer: true,
+            promotions: true,
           },
         })
 
-        // Send confirmation email (fire and forget)
-        sendOrderConfirmationEmail(customerEmail, {
-          orderId: order.id,
+        await recordOrderPromotions(tx, created.id, promotions)
+
+        if (redemption) {
+          await redeemPointsForOrder(tx, {
+            customerId: customer.id,
+            orderId: created.id,
+            orderNumber: created.orderNumber,
+            points: redemption.points,
+          })
+        }
+
+        return created
+      })
+
+      await notify({
+        template: 'order-confirmation',
+        data: {
+          orderNumber: order.orderNumber,
           customerName,
-          items: order.orderItems,
-          total,
+          customerEmail,
           orderType,
-          address: address, // For delivery
-          pickupLocation: undefined, // Add logic if we track branches
-          generatedPassword: generatedPassword || undefined,
-        }).catch((error) => console.error('Failed to send confirmation email:', error))
-
-        return NextResponse.json(order, { status: 201 })
-      } catch (error) {
-        console.error('Error creating order:', error)
-        return createErrorResponse('Failed to create order', 500)
+          deliveryAddress: orderType === 'DELIVERY' ? address : null,
+          pickupLocation: orderType === 'DELIVERY' ? null : location.name,
+          generatedPassword: generatedPassword || null,
+          items: order.orderItems.map((item) => ({
+            quantity: item.quantity,
+            name: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+            lineTotal: Number(item.totalPrice).toLocaleString(),
+            note: item.specialInstructions,
+          })),
+          total: Number(order.total).toLocaleString(),
+        },
+        channels: ['email'],
+        recipient: { type: 'customer', id: customer.id, email: customerEmail },
+        language: customer.preferredLanguage,
+        reference: { type: 'order', id: order.id },
+      }).catch((error) => console.error('Failed to send confirmation email:', error))
+
+      await publishEvent({
+        type: 'order.created',
+        locationId: order.locationId,
+        tableId: order.tableId,
+        order: {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          orderType: order.orderType,
+          status: order.status,
+          total: Number(order.total),
+          customerName,
+        },
+      })
+
+      return NextResponse.json(order, { status: 201 })
+    } catch (error) {
+      // The balance was spent by a concurrent checkout
+      if (error instanceof Error && error.message === 'Insufficient loyalty points') {
+        return createErrorResponse(error.message, 400)
       }
+      console.error('Error creating order:', error)
+      return createErrorResponse('Failed to create order', 500)
     }
+  }
 )
 
 // GET /api/orders - Get orders (with optional filtering)
 export const GET = withQueryValidation(
   orderQuerySchema,
   async (_request: NextRequest, validatedQuery: OrderQueryInput) => {
-    async (_request: NextRequest, validatedQuery: OrderQueryInput) => {
-      try {
-        const { status, customerId, email, page, limit } = validatedQuery
-
-        const where: any = {}
-        if (status) where.status = status
-        if (customerId) where.customerId = customerId
-        if (email) where.customer = { email }
-
-        // Calculate pagination
-        const skip = (page - 1) * limit
-
-        // Fetch orders with pagination
-        const [orders, totalCount] = await Promise.all([
-          prisma.order.findMany({
-            where,
-            include: {
-              customer: true,
-              orderItems: {
-                include: {
-                  menuItem: true,
-                },
+    try {
+      const { status, customerId, email, page, limit } = validatedQuery
+
+      const where: any = {}
+
+      // Customers look up their own orders by email; any other listing is staff-only
+      if (!email) {
+        const { user, response } = await authorize('orders:view')
+        if (!user) {
+          return response
+        }
+
+        const locationScope = getLocationScope(user)
+        if (locationScope) where.locationId = locationScope
+      }
+
+      if (status) where.status = status
+      if (customerId) where.customerId = customerId
+      if (email) where.customer = { email }
+
+      // Calculate pagination
+      const skip = (page - 1) * limit
+
+      // Fetch orders with pagination
+      const [orders, totalCount] = await Promise.all([
+        prisma.order.findMany({
+          where,
+          include: {
+            customer: true,
+            orderItems: {
+              include: {
+                menuItem: true,
               },
             },
-            orderBy: { createdAt: 'desc' },
-            skip,
-            take: limit,
-          }),
-          prisma.order.count({ where }),
-        ])
-
-        return NextResponse.json({
-          data: orders,
-          pagination: {
-            page,
-            limit,
-            total: totalCount,
-            totalPages: Math.ceil(totalCount / limit),
           },
-        })
-      } catch (error) {
-        console.error('Error fetching orders:', error)
-        return createErrorResponse('Failed to fetch orders', 500)
-      }
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+        prisma.order.count({ where }),
+      ])
+
+      return NextResponse.json({
+        data: orders,
+        pagination: {
+          page,
+          limit,
+          total: totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching orders:', error)
+      return createErrorResponse('Failed to fetch orders', 500)
     }
+  }
 )
@@ -1,16 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
 import { processRefund } from '@/lib/payments'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvent } from '@/lib/realtime'
+import { recordAudit } from '@/lib/audit'
+import { reverseOrderPoints } from '@/lib/loyalty'
+import { jobs } from '@/lib/jobs'
+import { reverseOrderStock } from '@/lib/inventory'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/payments/[id]/refund - Process a refund
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withPermission('payments:refund', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
-        const { amount, reason, refundedBy } = body
+        const { amount, reason, refundedBy, shiftId } = body
 
         if (!amount || amount <= 0) {
             return NextResponse.json(
@@ -26,13 +33,71 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             )
         }
 
+        const payment = await prisma.transaction.findUnique({
+            where: { id },
+            select: { order: { select: { locationId: true } } }
+        })
+        if (!payment) {
+            return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, payment.order.locationId)
+        if (denied) {
+            return denied
+        }
+
         const transaction = await processRefund(
             id,
             amount,
             reason,
-            refundedBy || 'system'
+            refundedBy || 'system',
+            shiftId
         )
 
+        // Logged against the original payment so its history shows every refund
+        await recordAudit({
+            request,
+            user,
+            action: 'refund',
+            entityType: 'transaction',
+            entityId: id,
+            after: transaction,
+        })
+
+        const order = await prisma.order.findUnique({
+            where: { id: transaction.orderId },
+            select: { orderNumber: true, locationId: true, tableId: true, status: true, paymentStatus: true, paidAmount: true, total: true }
+        })
+        if (order) {
+            // Refunded spend stops earning points; once nothing is left paid the
+            // redeemed points go back too
+            const share = Number(order.paidAmount) <= 0 ? 1 : amount / Number(order.total)
+            await reverseOrderPoints(transaction.orderId, share, `Refund on order ${order.orderNumber}`, user.id).catch((error) =>
+                console.error('Failed to reverse loyalty points:', error)
+            )
+
+            // A completed order with nothing left paid is voided, and what it
+            // consumed goes back to stock. Reversing only returns what hasn't
+            // been returned yet, so the inline fallback is safe
+            if (order.status === 'COMPLETED' && Number(order.paidAmount) <= 0) {
+                await jobs.reverseStockForOrder(transaction.orderId, order.locationId, user.id).catch(async (error) => {
+                    console.error('Failed to queue stock reversal, reversing inline:', error)
+                    await reverseOrderStock(transaction.orderId, user.id).catch((reverseError) =>
+                        console.error('Failed to reverse stock:', reverseError)
+                    )
+                })
+            }
+
+            // Refunds are reported to live views as negative payments
+            await publishEvent({
+                type: 'order.payment-received',
+                locationId: order.locationId,
+                tableId: order.tableId,
+                orderId: transaction.orderId,
+                amount: -amount,
+                status: order.paymentStatus,
+            })
+        }
+
         return NextResponse.json({
             success: true,
             transaction,
@@ -43,4 +108,4 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         const message = error instanceof Error ? error.message : 'Refund failed'
         return NextResponse.json({ error: message }, { status: 400 })
     }
-}
+})
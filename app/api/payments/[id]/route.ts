@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getTransactionById } from '@/lib/payments'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission } from '@/lib/validations/middleware'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // GET /api/payments/[id] - Get transaction details
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export const GET = withPermission('payments:view', async (_request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
         const transaction = await getTransactionById(id)
@@ -27,10 +28,10 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
             { status: 500 }
         )
     }
-}
+})
 
 // PATCH /api/payments/[id] - Update transaction (limited fields)
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('payments:process', async (request: NextRequest, { params }: RouteParams) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -76,4 +77,4 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             { status: 500 }
         )
     }
-}
+})
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPaymentMethods, createPaymentMethod } from '@/lib/payments'
+import { withPermission } from '@/lib/validations/middleware'
 
 // GET /api/payments/methods - List payment methods
-export async function GET(request: NextRequest) {
+export const GET = withPermission('payments:view', async (request: NextRequest) => {
     try {
         const { searchParams } = new URL(request.url)
         const activeOnly = searchParams.get('activeOnly') !== 'false'
@@ -17,10 +18,10 @@ export async function GET(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
 
 // POST /api/payments/methods - Create payment method (admin only)
-export async function POST(request: NextRequest) {
+export const POST = withPermission('payments:manage', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const { name, code, type, gatewayProvider, isActive, allowsRefund, allowsTip, displayOrder, iconUrl } = body
@@ -67,4 +68,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import { processPayment } from '@/lib/payments'
+import { withPermission } from '@/lib/validations/middleware'
+import { publishEvent } from '@/lib/realtime'
 
 // GET /api/payments - List transactions with filters
-export async function GET(request: NextRequest) {
+export const GET = withPermission('payments:view', async (request: NextRequest) => {
     try {
         const { searchParams } = new URL(request.url)
         const orderId = searchParams.get('orderId')
@@ -45,10 +47,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching transactions:', error)
         return NextResponse.json({ error: 'Failed to fetch transactions' }, { status: 500 })
     }
-}
+})
 
 // POST /api/payments - Process a payment
-export async function POST(request: NextRequest) {
+export const POST = withPermission('payments:process', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const {
@@ -56,10 +58,12 @@ export async function POST(request: NextRequest) {
             paymentMethodId,
             amount,
             tipAmount,
+            tenderedAmount,
             terminalId,
             shiftId,
             isSplitPayment,
             splitIndex,
+            splitId,
             customerEmail,
             customerPhone
         } = body
@@ -83,10 +87,12 @@ export async function POST(request: NextRequest) {
             paymentMethodId,
             amount,
             tipAmount,
+            tenderedAmount,
             terminalId,
             shiftId,
             isSplitPayment,
             splitIndex,
+            splitId,
             customerEmail,
             customerPhone
         })
@@ -98,10 +104,26 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        return NextResponse.json({ transaction: result.transaction }, { status: 201 })
+        // A pending payment is announced once its webhook settles it
+        const order = result.pending ? null : await prisma.order.findUnique({
+            where: { id: orderId },
+            select: { locationId: true, tableId: true, paymentStatus: true }
+        })
+        if (order) {
+            await publishEvent({
+                type: 'order.payment-received',
+                locationId: order.locationId,
+                tableId: order.tableId,
+                orderId,
+                amount: Number(result.transaction.amount),
+                status: order.paymentStatus,
+            })
+        }
+
+        return NextResponse.json({ transaction: result.transaction, pending: result.pending }, { status: 201 })
     } catch (error) {
         console.error('Error processing payment:', error)
         const message = error instanceof Error ? error.message : 'Payment processing failed'
         return NextResponse.json({ error: message }, { status: 500 })
     }
-}
+})
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handlePaymentWebhook, isWebhookProvider, paymentReceivedEvent } from '@/lib/payments'
+import { publishEvent } from '@/lib/realtime'
+
+interface RouteParams {
+    params: Promise<{ provider: string }>
+}
+
+// POST /api/payments/webhooks/[provider] - Gateway payment notifications
+// Public: each delivery is checked against the gateway's signature instead
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const { provider } = await params
+    if (!isWebhookProvider(provider)) {
+        return NextResponse.json({ error: 'Unknown payment provider' }, { status: 404 })
+    }
+
+    try {
+        // The signature covers the exact bytes sent, so read the body raw
+        const result = await handlePaymentWebhook(provider, {
+            rawBody: await request.text(),
+            contentType: request.headers.get('content-type'),
+            signature: request.headers.get('stripe-signature'),
+        })
+
+        if (result.transaction?.status === 'COMPLETED') {
+            await publishEvent(paymentReceivedEvent(result.transaction))
+        }
+
+        return NextResponse.json({ received: true, duplicate: result.duplicate })
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Webhook handling failed'
+        if (message === 'Invalid webhook signature') {
+            return NextResponse.json({ error: message }, { status: 401 })
+        }
+        if (message.includes('not configured')) {
+            return NextResponse.json({ error: message }, { status: 503 })
+        }
+        if (message.startsWith('Malformed') || error instanceof SyntaxError) {
+            return NextResponse.json({ error: message }, { status: 400 })
+        }
+        // Anything else is answered with an error so the gateway retries
+        console.error(`Error handling ${provider} webhook:`, error)
+        return NextResponse.json({ error: message }, { status: 500 })
+    }
+}
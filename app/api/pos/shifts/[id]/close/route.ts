@@ -1,84 +1,60 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { shiftCloseSchema } from '@/lib/validations/schemas'
+import { closeShift } from '@/lib/pos'
+import { publishEvent } from '@/lib/realtime'
+import { recordAudit } from '@/lib/audit'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
-// POST /api/pos/shifts/[id]/close - Close a shift
-export async function POST(request: NextRequest, { params }: RouteParams) {
+// POST /api/pos/shifts/[id]/close - Close a shift against the counted drawer and produce its Z-report
+export const POST = withPermission('pos:operate', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
-        const body = await request.json()
-        const { closingCash, notes } = body
+        const body = await validateBody(request, shiftCloseSchema)
 
-        if (closingCash === undefined) {
-            return NextResponse.json(
-                { error: 'closingCash is required' },
-                { status: 400 }
-            )
-        }
-
-        // Get the shift with transactions
         const existingShift = await prisma.pOSShift.findUnique({
             where: { id },
-            include: {
-                transactions: {
-                    where: { status: 'COMPLETED' }
-                }
-            }
+            include: { terminal: { select: { locationId: true } } }
         })
-
         if (!existingShift) {
             return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
         }
-
-        if (existingShift.status !== 'OPEN') {
-            return NextResponse.json(
-                { error: 'Shift is already closed' },
-                { status: 400 }
-            )
+        const denied = checkLocationAccess(user, existingShift.terminal.locationId)
+        if (denied) {
+            return denied
         }
 
-        // Calculate expected cash (opening + cash transactions - refunds)
-        const cashTransactions = existingShift.transactions.filter(
-            t => t.paymentMethodId === 'cash' // This would be the cash payment method ID
-        )
-
-        const totalCashIn = cashTransactions
-            .filter(t => t.amount.greaterThan(0))
-            .reduce((sum, t) => sum + Number(t.amount), 0)
+        const { shift, report } = await closeShift(id, { ...body, closedById: user.id })
 
-        const totalRefunds = cashTransactions
-            .filter(t => t.refundedAmount.greaterThan(0))
-            .reduce((sum, t) => sum + Number(t.refundedAmount), 0)
-
-        const expectedCash = Number(existingShift.openingCash) + totalCashIn - totalRefunds
-        const cashDifference = closingCash - expectedCash
+        await recordAudit({
+            request,
+            user,
+            action: 'close',
+            entityType: 'pos_shift',
+            entityId: id,
+            before: existingShift,
+            after: shift,
+        })
 
-        const shift = await prisma.pOSShift.update({
-            where: { id },
-            data: {
-                closingCash,
-                expectedCash,
-                cashDifference,
-                endTime: new Date(),
-                status: 'CLOSED',
-                notes,
-            },
-            include: {
-                terminal: { select: { id: true, name: true } },
-                user: { select: { id: true, name: true } },
-                _count: { select: { transactions: true } }
-            }
+        await publishEvent({
+            type: 'pos.shift-closed',
+            locationId: shift.terminal.locationId,
+            shiftId: shift.id,
+            terminalId: shift.terminalId,
         })
 
-        return NextResponse.json({ shift })
+        return NextResponse.json({ shift, report })
     } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
         console.error('Error closing shift:', error)
-        return NextResponse.json(
-            { error: 'Failed to close shift' },
-            { status: 500 }
-        )
+        const message = error instanceof Error ? error.message : 'Failed to close shift'
+        const status = message === 'Shift not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
     }
-}
+})
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { cashDrawerEventSchema } from '@/lib/validations/schemas'
+import { recordDrawerEvent } from '@/lib/pos'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/pos/shifts/[id]/drawer - Record a paid-in, paid-out, drop or no-sale drawer open
+export const POST = withPermission('pos:operate', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, cashDrawerEventSchema)
+
+        const shift = await prisma.pOSShift.findUnique({
+            where: { id },
+            select: { terminal: { select: { locationId: true } } }
+        })
+        if (!shift) {
+            return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, shift.terminal.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const event = await recordDrawerEvent(id, { ...body, userId: user.id })
+
+        await recordAudit({
+            request,
+            user,
+            action: 'create',
+            entityType: 'cash_drawer_event',
+            entityId: event.id,
+            after: event,
+        })
+
+        return NextResponse.json({ event }, { status: 201 })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error recording drawer event:', error)
+        const message = error instanceof Error ? error.message : 'Failed to record drawer event'
+        const status = message === 'Shift not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
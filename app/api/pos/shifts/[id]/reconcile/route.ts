@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { shiftReconcileSchema } from '@/lib/validations/schemas'
+import { reconcileShift } from '@/lib/pos'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/pos/shifts/[id]/reconcile - Manager sign-off on a closed shift's cash count
+export const POST = withPermission('pos:manage', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, shiftReconcileSchema)
+
+        const existingShift = await prisma.pOSShift.findUnique({
+            where: { id },
+            include: { terminal: { select: { locationId: true } } }
+        })
+        if (!existingShift) {
+            return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, existingShift.terminal.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const shift = await reconcileShift(id, { reconciledById: user.id, notes: body.notes })
+
+        await recordAudit({
+            request,
+            user,
+            action: 'approve',
+            entityType: 'pos_shift',
+            entityId: id,
+            before: existingShift,
+            after: shift,
+        })
+
+        return NextResponse.json({ shift })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error reconciling shift:', error)
+        const message = error instanceof Error ? error.message : 'Failed to reconcile shift'
+        const status = message === 'Shift not found' ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { getShift } from '@/lib/pos'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// GET /api/pos/shifts/[id] - Shift with its cash drawer ledger
+export const GET = withPermission('pos:operate', async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+
+        const shift = await getShift(id)
+        if (!shift) {
+            return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, shift.terminal.locationId)
+        if (denied) {
+            return denied
+        }
+
+        return NextResponse.json({ shift })
+    } catch (error) {
+        console.error('Error fetching shift:', error)
+        return NextResponse.json({ error: 'Failed to fetch shift' }, { status: 500 })
+    }
+})
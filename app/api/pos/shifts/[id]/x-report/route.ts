@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { getShiftReport, renderShiftReport } from '@/lib/pos'
+import { REPORT_FORMATS, type ReportFileFormat } from '@/lib/reports'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// GET /api/pos/shifts/[id]/x-report - Mid-shift X-report from the live drawer ledger, as JSON or ?format=PDF|CSV|XLSX
+export const GET = withPermission('pos:operate', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const format = new URL(request.url).searchParams.get('format')?.toUpperCase()
+        if (format && !REPORT_FORMATS.includes(format as ReportFileFormat)) {
+            return NextResponse.json({ error: 'Invalid report format' }, { status: 400 })
+        }
+
+        const shift = await prisma.pOSShift.findUnique({
+            where: { id },
+            select: { terminal: { select: { locationId: true } } }
+        })
+        if (!shift) {
+            return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, shift.terminal.locationId)
+        if (denied) {
+            return denied
+        }
+
+        if (!format) {
+            return NextResponse.json({ report: await getShiftReport(id, 'X') })
+        }
+
+        const { content, contentType, fileName } = await renderShiftReport(id, 'X', format as ReportFileFormat)
+        return new NextResponse(content, {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Disposition': `inline; filename="${fileName}"`,
+            },
+        })
+    } catch (error) {
+        console.error('Error producing X-report:', error)
+        const message = error instanceof Error ? error.message : 'Failed to produce X-report'
+        return NextResponse.json({ error: message }, { status: 400 })
+    }
+})
@@ -1,26 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
-
-// Helper to generate shift number
-async function generateShiftNumber(): Promise<string> {
-    const today = new Date()
-    const datePrefix = today.toISOString().split('T')[0].replace(/-/g, '')
-
-    // Get count of shifts today
-    const startOfDay = new Date(today.setHours(0, 0, 0, 0))
-    const endOfDay = new Date(today.setHours(23, 59, 59, 999))
-
-    const count = await prisma.pOSShift.count({
-        where: {
-            createdAt: { gte: startOfDay, lte: endOfDay }
-        }
-    })
-
-    return `SFT-${datePrefix}-${String(count + 1).padStart(4, '0')}`
-}
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvent } from '@/lib/realtime'
+import { nextSequenceValue } from '@/lib/sequences'
 
 // POST /api/pos/shifts/open - Open a new shift
-export async function POST(request: NextRequest) {
+export const POST = withPermission('pos:operate', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const { terminalId, userId, openingCash } = body
@@ -32,6 +17,19 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const terminal = await prisma.pOSTerminal.findUnique({
+            where: { id: terminalId },
+            select: { location: { select: { id: true, code: true, timezone: true } } }
+        })
+
+        if (!terminal) {
+            return NextResponse.json({ error: 'Terminal not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, terminal.location.id)
+        if (denied) {
+            return denied
+        }
+
         // Check if terminal has an active shift
         const existingShift = await prisma.pOSShift.findFirst({
             where: {
@@ -47,20 +45,22 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        const shiftNumber = await generateShiftNumber()
+        const shift = await prisma.$transaction(async (tx) => {
+            const { number } = await nextSequenceValue(tx, 'shift', terminal.location)
 
-        const shift = await prisma.pOSShift.create({
-            data: {
-                shiftNumber,
-                terminalId,
-                userId,
-                openingCash,
-                status: 'OPEN',
-            },
-            include: {
-                terminal: { select: { id: true, name: true } },
-                user: { select: { id: true, name: true, email: true } }
-            }
+            return tx.pOSShift.create({
+                data: {
+                    shiftNumber: number,
+                    terminalId,
+                    userId,
+                    openingCash,
+                    status: 'OPEN',
+                },
+                include: {
+                    terminal: { select: { id: true, name: true, locationId: true } },
+                    user: { select: { id: true, name: true, email: true } }
+                }
+            })
         })
 
         // Update terminal last active
@@ -69,6 +69,14 @@ export async function POST(request: NextRequest) {
             data: { lastActiveAt: new Date() }
         })
 
+        await publishEvent({
+            type: 'pos.shift-opened',
+            locationId: shift.terminal.locationId,
+            shiftId: shift.id,
+            terminalId,
+            userId,
+        })
+
         return NextResponse.json({ shift }, { status: 201 })
     } catch (error) {
         console.error('Error opening shift:', error)
@@ -77,4 +85,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
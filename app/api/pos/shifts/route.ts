@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { ShiftStatus } from '@prisma/client'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
+import { listShifts } from '@/lib/pos'
+
+// GET /api/pos/shifts - List shifts, newest first
+export const GET = withPermission('pos:operate', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
+        const status = searchParams.get('status')
+        const limit = parseInt(searchParams.get('limit') || '50')
+
+        const shifts = await listShifts({
+            terminalId: searchParams.get('terminalId') || undefined,
+            locationId: locationId || undefined,
+            status: status ? status.split(',') as ShiftStatus[] : undefined,
+            limit,
+        })
+
+        return NextResponse.json({ shifts })
+    } catch (error) {
+        console.error('Error fetching shifts:', error)
+        return NextResponse.json({ error: 'Failed to fetch shifts' }, { status: 500 })
+    }
+})
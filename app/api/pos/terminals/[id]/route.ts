@@ -1,12 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import type { AuthorizedUser } from '@/lib/auth/permissions'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
+async function checkTerminalAccess(user: AuthorizedUser, id: string): Promise<NextResponse | null> {
+    const terminal = await prisma.pOSTerminal.findUnique({ where: { id }, select: { locationId: true } })
+    if (!terminal) {
+        return NextResponse.json({ error: 'Terminal not found' }, { status: 404 })
+    }
+    return checkLocationAccess(user, terminal.locationId)
+}
+
 // GET /api/pos/terminals/[id] - Get terminal details
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export const GET = withPermission('pos:operate', async (_request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
 
@@ -29,18 +39,27 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         if (!terminal) {
             return NextResponse.json({ error: 'Terminal not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, terminal.locationId)
+        if (denied) {
+            return denied
+        }
 
         return NextResponse.json({ terminal })
     } catch (error) {
         console.error('Error fetching terminal:', error)
         return NextResponse.json({ error: 'Failed to fetch terminal' }, { status: 500 })
     }
-}
+})
 
 // PATCH /api/pos/terminals/[id] - Update terminal
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('pos:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
+        const denied = await checkTerminalAccess(user, id)
+        if (denied) {
+            return denied
+        }
+
         const body = await request.json()
         const { name, terminalType, deviceId, ipAddress, settings, isActive } = body
 
@@ -65,12 +84,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         console.error('Error updating terminal:', error)
         return NextResponse.json({ error: 'Failed to update terminal' }, { status: 500 })
     }
-}
+})
 
 // DELETE /api/pos/terminals/[id] - Deactivate terminal
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export const DELETE = withPermission('pos:manage', async (_request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
+        const denied = await checkTerminalAccess(user, id)
+        if (denied) {
+            return denied
+        }
 
         await prisma.pOSTerminal.update({
             where: { id },
@@ -82,4 +105,4 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
         console.error('Error deactivating terminal:', error)
         return NextResponse.json({ error: 'Failed to deactivate terminal' }, { status: 500 })
     }
-}
+})
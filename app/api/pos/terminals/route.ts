@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/pos/terminals - List all terminals
-export async function GET(request: NextRequest) {
+export const GET = withPermission('pos:operate', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
 
         const terminals = await prisma.pOSTerminal.findMany({
             where: locationId ? { locationId } : undefined,
@@ -28,10 +32,10 @@ export async function GET(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
 
 // POST /api/pos/terminals - Create a new terminal
-export async function POST(request: NextRequest) {
+export const POST = withPermission('pos:manage', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const { name, terminalType, locationId, deviceId, ipAddress, settings } = body
@@ -43,6 +47,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
         const terminal = await prisma.pOSTerminal.create({
             data: {
                 name,
@@ -68,4 +77,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+})
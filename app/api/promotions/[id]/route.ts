@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermission,
+  validateBody,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { promotionUpdateSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+
+// PUT /api/promotions/[id] - Update a promotion
+export const PUT = withPermission('promotions:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const validatedBody = await validateBody(request, promotionUpdateSchema)
+
+    const existing = await prisma.promotion.findUnique({
+      where: { id: params.id },
+    })
+    if (!existing) {
+      return createErrorResponse('Promotion not found', 404)
+    }
+
+    // A changed window is checked against the dates it keeps
+    const validFrom = validatedBody.validFrom !== undefined ? validatedBody.validFrom : existing.validFrom
+    const validUntil = validatedBody.validUntil !== undefined ? validatedBody.validUntil : existing.validUntil
+    if (validFrom && validUntil && validFrom > validUntil) {
+      return createErrorResponse('Promotion must start before it ends', 400)
+    }
+
+    const discountType = validatedBody.discountType ?? existing.discountType
+    const discountValue = validatedBody.discountValue ?? Number(existing.discountValue)
+    if (discountType === 'percentage' && discountValue > 100) {
+      return createErrorResponse('Percentage discount must not exceed 100', 400)
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id: params.id },
+      data: validatedBody,
+    })
+
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'promotion',
+      entityId: promotion.id,
+      before: existing,
+      after: promotion,
+    })
+
+    return NextResponse.json(promotion)
+  } catch (error: any) {
+    if (error instanceof NextResponse) return error
+
+    console.error('Error updating promotion:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Promotion not found', 404)
+    }
+    if (error.code === 'P2003') {
+      return createErrorResponse('Linked category not found', 400)
+    }
+    return createErrorResponse('Failed to update promotion', 500)
+  }
+})
+
+// DELETE /api/promotions/[id] - Delete a promotion; orders keep their applied amounts
+export const DELETE = withPermission('promotions:manage', async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+  try {
+    const deleted = await prisma.promotion.delete({
+      where: { id: params.id },
+    })
+    await recordAudit({
+      request,
+      user,
+      action: 'delete',
+      entityType: 'promotion',
+      entityId: deleted.id,
+      before: deleted,
+    })
+    return new NextResponse(null, { status: 204 })
+  } catch (error: any) {
+    console.error('Error deleting promotion:', error)
+    if (error.code === 'P2025') {
+      return createErrorResponse('Promotion not found', 404)
+    }
+    return createErrorResponse('Failed to delete promotion', 500)
+  }
+})
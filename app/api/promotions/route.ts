@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { prisma } from '@/lib/db/prisma'
+import {
+  withPermissionAndBodyValidation,
+  withErrorHandling,
+  authorize,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { promotionSchema, type PromotionInput } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+import { getLivePromotions } from '@/lib/promotions'
+
+// GET /api/promotions - Live promotions; staff can include inactive and expired ones
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  try {
+    const includeInactive = request.nextUrl.searchParams.get('includeInactive') === 'true'
+
+    if (!includeInactive) {
+      const promotions = await getLivePromotions()
+      return NextResponse.json(promotions)
+    }
+
+    const { user, response } = await authorize('promotions:manage')
+    if (!user) {
+      return response
+    }
+
+    const promotions = await prisma.promotion.findMany({
+      orderBy: [{ displayOrder: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return NextResponse.json(promotions)
+  } catch (error) {
+    console.error('Error fetching promotions:', error)
+    return createErrorResponse('Failed to fetch promotions', 500)
+  }
+})
+
+// POST /api/promotions - Create a promotion
+export const POST = withPermissionAndBodyValidation(
+  'promotions:manage',
+  promotionSchema,
+  async (request: NextRequest, validatedBody: PromotionInput, user) => {
+    try {
+      const promotion = await prisma.promotion.create({
+        data: validatedBody,
+      })
+      await recordAudit({
+        request,
+        user,
+        action: 'create',
+        entityType: 'promotion',
+        entityId: promotion.id,
+        after: promotion,
+      })
+      return NextResponse.json(promotion, { status: 201 })
+    } catch (error: any) {
+      console.error('Error creating promotion:', error)
+      if (error.code === 'P2003') {
+        return createErrorResponse('Linked category not found', 400)
+      }
+      return createErrorResponse('Failed to create promotion', 500)
+    }
+  }
+)
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { withPermission, checkLocationAccess, createErrorResponse } from '@/lib/validations/middleware'
+import { getReportFile } from '@/lib/reports'
+
+// GET /api/reports/[id]/download - The generated file
+export const GET = withPermission(
+  'reports:view',
+  async (_request: NextRequest, { params }: { params: { id: string } }, user) => {
+    try {
+      const report = await getReportFile(params.id)
+
+      if (!report) {
+        return createErrorResponse('Report not found', 404)
+      }
+      const denied = checkLocationAccess(user, report.locationId)
+      if (denied) {
+        return denied
+      }
+      if (report.status !== 'READY' || !report.content) {
+        return createErrorResponse('Report is not ready yet', 409)
+      }
+
+      return new NextResponse(report.content, {
+        headers: {
+          'Content-Type': report.contentType || 'application/octet-stream',
+          'Content-Disposition': `attachment; filename="${report.fileName}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    } catch (error) {
+      console.error('Error downloading report:', error)
+      return createErrorResponse('Failed to download report', 500)
+    }
+  }
+)
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, validateBody, checkLocationAccess, createErrorResponse } from '@/lib/validations/middleware'
+import { reportEmailSchema } from '@/lib/validations/schemas'
+import { emailReport } from '@/lib/reports'
+
+// POST /api/reports/[id]/email - Send a finished report as an attachment
+export const POST = withPermission(
+  'reports:view',
+  async (request: NextRequest, { params }: { params: { id: string } }, user) => {
+    try {
+      const { to } = await validateBody(request, reportEmailSchema)
+
+      const report = await prisma.report.findUnique({ where: { id: params.id }, select: { locationId: true } })
+      if (!report) {
+        return createErrorResponse('Report not found', 404)
+      }
+      const denied = checkLocationAccess(user, report.locationId)
+      if (denied) {
+        return denied
+      }
+
+      await emailReport(params.id, to)
+
+      return NextResponse.json({ success: true })
+    } catch (error: any) {
+      if (error instanceof NextResponse) return error
+      console.error('Error emailing report:', error)
+      if (error.code === 'P2025') {
+        return createErrorResponse('Report not found', 404)
+      }
+      if (error.message === 'Report is not ready') {
+        return createErrorResponse(error.message, 409)
+      }
+      return createErrorResponse('Failed to email report', 500)
+    }
+  }
+)
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+export const dynamic = 'force-dynamic'
+import {
+  withPermission,
+  withPermissionAndBodyValidation,
+  checkLocationAccess,
+  scopeLocationFilter,
+  createErrorResponse,
+} from '@/lib/validations/middleware'
+import { reportRequestSchema, type ReportRequestInput } from '@/lib/validations/schemas'
+import { createReport, generateReport, listReports } from '@/lib/reports'
+import { jobs } from '@/lib/jobs'
+
+// GET /api/reports - Generated and queued reports, newest first
+export const GET = withPermission('reports:view', async (request: NextRequest, _context, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100)
+
+    const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+    if (denied) return denied
+
+    const result = await listReports({
+      locationId,
+      type: searchParams.get('type') || undefined,
+      status: searchParams.get('status') || undefined,
+      page,
+      limit,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching reports:', error)
+    return createErrorResponse('Failed to fetch reports', 500)
+  }
+})
+
+// POST /api/reports - Queue a daily sales or Z-report for a location and business day
+export const POST = withPermissionAndBodyValidation(
+  'reports:view',
+  reportRequestSchema,
+  async (_request: NextRequest, validatedBody: ReportRequestInput, user) => {
+    try {
+      const denied = checkLocationAccess(user, validatedBody.locationId)
+      if (denied) return denied
+
+      const report = await createReport({ ...validatedBody, requestedById: user.id })
+      // Without a queue the report is built inline; a failure is kept on the report
+      await jobs.generateReport(report.id).catch(async (error) => {
+        console.error('Failed to queue report, generating inline:', error)
+        await generateReport(report.id).catch((generateError) =>
+          console.error('Failed to generate report:', generateError)
+        )
+      })
+
+      return NextResponse.json(report, { status: 202 })
+    } catch (error: any) {
+      console.error('Error requesting report:', error)
+      if (error.code === 'P2003') {
+        return createErrorResponse('Location not found', 400)
+      }
+      return createErrorResponse('Failed to request report', 500)
+    }
+  }
+)
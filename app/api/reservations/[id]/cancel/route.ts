@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents, type DomainEvent } from '@/lib/realtime'
+import { settleDepositOnCancel } from '@/lib/reservations'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/reservations/[id]/cancel - Cancel reservation
-export async function POST(request: NextRequest, { params }: RouteParams) {
+// A paid deposit is refunded inside the cancellation window and kept after it;
+// refundDeposit overrides that, and shiftId pays a cash refund out of a drawer
+export const POST = withPermission('reservations:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
-        const { reason } = body
+        const { reason, refundDeposit, shiftId } = body
 
         const reservation = await prisma.reservation.findUnique({
             where: { id },
@@ -20,6 +25,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         if (!reservation) {
             return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, reservation.locationId)
+        if (denied) {
+            return denied
+        }
 
         if (['SEATED', 'COMPLETED', 'CANCELLED', 'NO_SHOW'].includes(reservation.status)) {
             return NextResponse.json(
@@ -28,12 +37,35 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             )
         }
 
+        // Settled first, so a refund that can't be paid out leaves the booking open
+        // with the deposit marked refund pending for staff to retry or keep
+        let deposit: Awaited<ReturnType<typeof settleDepositOnCancel>>
+        try {
+            deposit = await settleDepositOnCancel(id, {
+                refund: typeof refundDeposit === 'boolean' ? refundDeposit : undefined,
+                refundedBy: user.id,
+                shiftId: typeof shiftId === 'string' ? shiftId : undefined,
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to refund the deposit'
+            return NextResponse.json({ error: message }, { status: 400 })
+        }
+
+        const events: DomainEvent[] = []
+
         // Free up the table if one was assigned
         if (reservation.tableId) {
-            await prisma.table.update({
+            const table = await prisma.table.update({
                 where: { id: reservation.tableId },
                 data: { status: 'AVAILABLE' }
             })
+            events.push({
+                type: 'table.status-changed',
+                locationId: reservation.locationId,
+                tableId: table.id,
+                areaId: table.areaId,
+                status: table.status,
+            })
         }
 
         const updatedReservation = await prisma.reservation.update({
@@ -50,12 +82,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             }
         })
 
+        events.push({ type: 'reservation.updated', locationId: reservation.locationId, reservationId: id, status: 'CANCELLED' })
+        await publishEvents(events)
+
         return NextResponse.json({
             reservation: updatedReservation,
+            deposit,
             message: 'Reservation cancelled successfully'
         })
     } catch (error) {
         console.error('Error cancelling reservation:', error)
         return NextResponse.json({ error: 'Failed to cancel reservation' }, { status: 500 })
     }
-}
+})
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvent } from '@/lib/realtime'
+import { notifyReservationGuest } from '@/lib/reservations'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/reservations/[id]/confirm - Confirm reservation
-export async function POST(_request: NextRequest, { params }: RouteParams) {
+export const POST = withPermission('reservations:manage', async (_request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
 
@@ -15,6 +18,10 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
         if (!reservation) {
             return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, reservation.locationId)
+        if (denied) {
+            return denied
+        }
 
         if (reservation.status !== 'PENDING') {
             return NextResponse.json(
@@ -36,12 +43,18 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
             }
         })
 
-        // TODO: Queue confirmation email/SMS via BullMQ
-        // jobs.sendReservationConfirmation(updated.guestEmail, {...})
+        await notifyReservationGuest(updated, 'reservation-confirmation')
+
+        await publishEvent({
+            type: 'reservation.updated',
+            locationId: updated.locationId,
+            reservationId: id,
+            status: updated.status,
+        })
 
         return NextResponse.json({ reservation: updated })
     } catch (error) {
         console.error('Error confirming reservation:', error)
         return NextResponse.json({ error: 'Failed to confirm reservation' }, { status: 500 })
     }
-}
+})
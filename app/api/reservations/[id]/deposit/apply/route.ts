@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { reservationDepositApplySchema } from '@/lib/validations/schemas'
+import { applyDepositToOrder } from '@/lib/reservations'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/reservations/[id]/deposit/apply - Credit the paid deposit to the table's order
+export const POST = withPermission('payments:process', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const { orderId } = await validateBody(request, reservationDepositApplySchema)
+
+        const current = await prisma.reservation.findUnique({ where: { id } })
+        if (!current) {
+            return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, current.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const reservation = await applyDepositToOrder(id, orderId)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'reservation',
+            entityId: id,
+            before: current,
+            after: reservation,
+        })
+
+        return NextResponse.json({ reservation })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error applying reservation deposit:', error)
+        const message = error instanceof Error ? error.message : 'Failed to apply deposit'
+        const status = message.endsWith('not found') ? 404 : message.includes('already been settled') ? 409 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { reservationDepositRefundSchema } from '@/lib/validations/schemas'
+import { refundDeposit } from '@/lib/reservations'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/reservations/[id]/deposit/refund - Refund the paid deposit
+export const POST = withPermission('payments:refund', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, reservationDepositRefundSchema)
+
+        const current = await prisma.reservation.findUnique({ where: { id } })
+        if (!current) {
+            return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, current.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const audit = (after: unknown) => recordAudit({
+            request,
+            user,
+            action: 'refund',
+            entityType: 'reservation',
+            entityId: id,
+            before: current,
+            after,
+        })
+
+        // A refund the gateway turns down still leaves the deposit refund pending
+        const reservation = await refundDeposit(id, { ...body, refundedBy: user.id }).catch(async (error) => {
+            await audit(await prisma.reservation.findUnique({ where: { id } }))
+            throw error
+        })
+        await audit(reservation)
+
+        return NextResponse.json({ reservation })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error refunding reservation deposit:', error)
+        const message = error instanceof Error ? error.message : 'Failed to refund deposit'
+        return NextResponse.json({ error: message }, { status: message.endsWith('not found') ? 404 : 400 })
+    }
+})
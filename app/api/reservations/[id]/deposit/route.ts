@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, validateBody } from '@/lib/validations/middleware'
+import { reservationDepositPaymentSchema } from '@/lib/validations/schemas'
+import { collectDeposit } from '@/lib/reservations'
+import { publishEvent } from '@/lib/realtime'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// POST /api/reservations/[id]/deposit - Take the booking's deposit, e.g. for a phone booking
+export const POST = withPermission('payments:process', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const body = await validateBody(request, reservationDepositPaymentSchema)
+
+        const current = await prisma.reservation.findUnique({ where: { id } })
+        if (!current) {
+            return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, current.locationId)
+        if (denied) {
+            return denied
+        }
+
+        const { reservation, payment } = await collectDeposit(id, body)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'reservation',
+            entityId: id,
+            before: current,
+            after: reservation,
+        })
+
+        await publishEvent({
+            type: 'reservation.updated',
+            locationId: reservation.locationId,
+            reservationId: id,
+            status: reservation.status,
+        })
+
+        return NextResponse.json({ reservation, payment }, { status: payment.success ? 200 : 402 })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error taking reservation deposit:', error)
+        const message = error instanceof Error ? error.message : 'Failed to take deposit'
+        return NextResponse.json({ error: message }, { status: message.endsWith('not found') ? 404 : 400 })
+    }
+})
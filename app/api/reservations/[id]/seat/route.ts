@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents } from '@/lib/realtime'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/reservations/[id]/seat - Mark reservation as seated
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withPermission('reservations:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -20,6 +22,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         if (!reservation) {
             return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, reservation.locationId)
+        if (denied) {
+            return denied
+        }
 
         if (!['PENDING', 'CONFIRMED'].includes(reservation.status)) {
             return NextResponse.json(
@@ -39,7 +45,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         }
 
         // Update table status to occupied
-        await prisma.table.update({
+        const table = await prisma.table.update({
             where: { id: assignedTableId },
             data: { status: 'OCCUPIED' }
         })
@@ -48,6 +54,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             where: { id },
             data: {
                 status: 'SEATED',
+                seatedAt: new Date(),
                 tableId: assignedTableId
             },
             include: {
@@ -56,6 +63,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             }
         })
 
+        await publishEvents([
+            {
+                type: 'table.status-changed',
+                locationId: reservation.locationId,
+                tableId: table.id,
+                areaId: table.areaId,
+                status: table.status,
+            },
+            { type: 'reservation.seated', locationId: reservation.locationId, reservationId: id, tableId: table.id },
+        ])
+
         return NextResponse.json({
             reservation: updatedReservation,
             message: 'Party seated successfully'
@@ -64,4 +82,4 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         console.error('Error seating reservation:', error)
         return NextResponse.json({ error: 'Failed to seat reservation' }, { status: 500 })
     }
-}
+})
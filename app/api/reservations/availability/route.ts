@@ -1,15 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
+import { getTableAvailability, SEATING_PREFERENCES, type SeatingPreference } from '@/lib/reservations'
 
 // GET /api/reservations/availability - Check availability
-export async function GET(request: NextRequest) {
+// ?preferences=outdoor,accessible limits the suggested tables to matching areas
+export const GET = withPermission('reservations:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const date = searchParams.get('date')
         const time = searchParams.get('time')
         const partySize = parseInt(searchParams.get('partySize') || '2')
-        const duration = parseInt(searchParams.get('duration') || '90') // minutes
+        // Minutes; defaults to the location's turn time for the party size
+        const duration = searchParams.get('duration') ? parseInt(searchParams.get('duration')!) : undefined
+        const preferences = (searchParams.get('preferences') || '').split(',').filter(Boolean)
 
         if (!locationId || !date || !time) {
             return NextResponse.json(
@@ -18,110 +25,23 @@ export async function GET(request: NextRequest) {
             )
         }
 
-        // Parse requested time slot
-        const requestedStart = new Date(`${date}T${time}:00`)
-        const requestedEnd = new Date(requestedStart.getTime() + duration * 60000)
-
-        // Get all tables that can accommodate the party size
-        const suitableTables = await prisma.table.findMany({
-            where: {
-                area: { locationId },
-                isActive: true,
-                maxSeats: { gte: partySize },
-                status: { notIn: ['BLOCKED'] }
-            },
-            include: {
-                area: { select: { id: true, name: true } }
-            },
-            orderBy: { minSeats: 'asc' } // Prefer smaller tables
-        })
-
-        // Get existing reservations that overlap
-        const overlappingReservations = await prisma.reservation.findMany({
-            where: {
-                locationId,
-                date: new Date(date),
-                status: { in: ['PENDING', 'CONFIRMED'] },
-                tableId: { not: null }
-            }
-        })
-
-        // Check each table for availability
-        const availability = suitableTables.map(table => {
-            // Check if table has overlapping reservation
-            const hasConflict = overlappingReservations.some(res => {
-                if (res.tableId !== table.id) return false
-
-                const resStart = new Date(res.startTime)
-                const resEnd = res.endTime
-                    ? new Date(res.endTime)
-                    : new Date(resStart.getTime() + (res.duration || 90) * 60000)
-
-                // Check overlap
-                return requestedStart < resEnd && requestedEnd > resStart
-            })
-
-            return {
-                tableId: table.id,
-                tableNumber: table.tableNumber,
-                area: table.area.name,
-                capacity: { min: table.minSeats, max: table.maxSeats },
-                available: !hasConflict,
-                currentStatus: table.status
-            }
-        })
-
-        const availableTables = availability.filter(t => t.available)
-        const unavailableTables = availability.filter(t => !t.available)
-
-        // Find alternative time slots if no tables available
-        let alternativeSlots: { time: string; availableCount: number }[] = []
-        if (availableTables.length === 0) {
-            // Check slots in 30-minute increments for the day
-            const dayStart = new Date(`${date}T11:00:00`)
-            const dayEnd = new Date(`${date}T22:00:00`)
-
-            for (let slot = dayStart; slot <= dayEnd; slot = new Date(slot.getTime() + 30 * 60000)) {
-                const slotEnd = new Date(slot.getTime() + duration * 60000)
-
-                let availableCount = 0
-                for (const table of suitableTables) {
-                    const hasConflict = overlappingReservations.some(res => {
-                        if (res.tableId !== table.id) return false
-                        const resStart = new Date(res.startTime)
-                        const resEnd = res.endTime
-                            ? new Date(res.endTime)
-                            : new Date(resStart.getTime() + (res.duration || 90) * 60000)
-                        return slot < resEnd && slotEnd > resStart
-                    })
-                    if (!hasConflict) availableCount++
-                }
-
-                if (availableCount > 0) {
-                    alternativeSlots.push({
-                        time: slot.toTimeString().slice(0, 5),
-                        availableCount
-                    })
-                }
-            }
+        const unknown = preferences.find(p => !(SEATING_PREFERENCES as readonly string[]).includes(p))
+        if (unknown) {
+            return NextResponse.json({ error: `Unknown seating preference: ${unknown}` }, { status: 400 })
         }
 
-        return NextResponse.json({
-            request: { date, time, partySize, duration },
-            available: availableTables.length > 0,
-            summary: {
-                totalTablesChecked: suitableTables.length,
-                available: availableTables.length,
-                unavailable: unavailableTables.length
-            },
-            tables: {
-                available: availableTables,
-                unavailable: unavailableTables
-            },
-            alternativeSlots: alternativeSlots.slice(0, 6) // Show up to 6 alternatives
-        })
+        return NextResponse.json(await getTableAvailability({
+            locationId,
+            date,
+            time,
+            partySize,
+            duration,
+            preferences: preferences as SeatingPreference[],
+        }))
     } catch (error) {
         console.error('Error checking availability:', error)
-        return NextResponse.json({ error: 'Failed to check availability' }, { status: 500 })
+        const message = error instanceof Error ? error.message : 'Failed to check availability'
+        const status = message.startsWith('Invalid') ? 400 : message === 'Location not found' ? 404 : 500
+        return NextResponse.json({ error: status === 500 ? 'Failed to check availability' : message }, { status })
     }
-}
+})
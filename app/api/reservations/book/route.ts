@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateBody, withErrorHandling } from '@/lib/validations/middleware'
+import { onlineReservationSchema } from '@/lib/validations/schemas'
+import { orderRateLimiter } from '@/lib/middleware/rate-limit'
+import { bookOnline, reservationCreatedEvent } from '@/lib/reservations'
+import { publishEvent } from '@/lib/realtime'
+
+// POST /api/reservations/book - Public: book a table from the website
+// The response carries the guest's manage link; it is also sent with the confirmation.
+// A booking taking a deposit needs paymentMethodId and is confirmed once the deposit is paid.
+export const POST = withErrorHandling(async (request: NextRequest) => {
+    const limited = await orderRateLimiter(request)
+    if (limited) {
+        return limited
+    }
+
+    try {
+        const body = await validateBody(request, onlineReservationSchema)
+        const { reservation, guest, depositPayment } = await bookOnline(body)
+
+        await publishEvent(reservationCreatedEvent(reservation))
+
+        return NextResponse.json({ reservation: guest, depositPayment }, { status: 201 })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error booking reservation online:', error)
+        const message = error instanceof Error ? error.message : 'Failed to book reservation'
+        // A slot or table taken since the guest picked it is a conflict they can pick again from
+        const status = message.includes('already booked') || message.startsWith('No ')
+            ? 409
+            : message.includes('deposit') ? 402
+            : message === 'Location not found' ? 404
+            : message.endsWith('not available') ? 403 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandling } from '@/lib/validations/middleware'
+import { getOnlineDepositQuote } from '@/lib/reservations'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/reservations/deposit - Public: the deposit a party would pay and how it can be paid
+// ?location=<id or slug>&date=YYYY-MM-DD&partySize=8&occasion=Birthday
+export const GET = withErrorHandling(async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const location = searchParams.get('location') || searchParams.get('locationId')
+        const date = searchParams.get('date')
+        const partySize = parseInt(searchParams.get('partySize') || '2')
+
+        if (!location || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return NextResponse.json({ error: 'location and date (YYYY-MM-DD) are required' }, { status: 400 })
+        }
+        if (!Number.isInteger(partySize) || partySize < 1) {
+            return NextResponse.json({ error: 'Invalid party size' }, { status: 400 })
+        }
+
+        const quote = await getOnlineDepositQuote({
+            location,
+            date,
+            partySize,
+            occasion: searchParams.get('occasion') || undefined,
+        })
+
+        return NextResponse.json(quote)
+    } catch (error) {
+        console.error('Error quoting reservation deposit:', error)
+        const message = error instanceof Error ? error.message : 'Failed to quote deposit'
+        const status = message === 'Location not found' ? 404 : message.endsWith('not available') ? 403 : 500
+        return NextResponse.json({ error: message }, { status })
+    }
+})
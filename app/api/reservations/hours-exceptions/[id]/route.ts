@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteHoursException, getHoursException } from '@/lib/reservations'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { recordAudit } from '@/lib/audit'
+
+interface RouteParams {
+    params: Promise<{ id: string }>
+}
+
+// DELETE /api/reservations/hours-exceptions/[id] - Go back to the usual hours for the date
+export const DELETE = withPermission('reservations:manage', async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params
+        const exception = await getHoursException(id)
+
+        const denied = checkLocationAccess(user, exception.locationId)
+        if (denied) {
+            return denied
+        }
+
+        await deleteHoursException(id)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'delete',
+            entityType: 'hours_exception',
+            entityId: id,
+            before: exception,
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting hours exception:', error)
+        const message = error instanceof Error ? error.message : 'Failed to delete hours exception'
+        const status = message.endsWith('not found') ? 404 : 500
+        return NextResponse.json({ error: status === 404 ? message : 'Failed to delete hours exception' }, { status })
+    }
+})
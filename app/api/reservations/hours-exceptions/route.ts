@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { listHoursExceptions, parseReservationDate, setHoursException } from '@/lib/reservations'
+import { withPermission, checkLocationAccess, scopeLocationFilter, validateBody } from '@/lib/validations/middleware'
+import { hoursExceptionSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+
+// GET /api/reservations/hours-exceptions - List closures and special hours for a location
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD narrows the range
+export const GET = withPermission('reservations:view', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
+
+        if (!locationId) {
+            return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
+        }
+
+        const from = searchParams.get('from')
+        const to = searchParams.get('to')
+        const exceptions = await listHoursExceptions(locationId, {
+            from: from ? parseReservationDate(from) : undefined,
+            to: to ? parseReservationDate(to) : undefined,
+        })
+
+        return NextResponse.json({ exceptions })
+    } catch (error) {
+        console.error('Error fetching hours exceptions:', error)
+        const message = error instanceof Error ? error.message : 'Failed to fetch hours exceptions'
+        const status = message.startsWith('Invalid') ? 400 : 500
+        return NextResponse.json({ error: status === 400 ? message : 'Failed to fetch hours exceptions' }, { status })
+    }
+})
+
+// POST /api/reservations/hours-exceptions - Close a location for a date or set special hours for it
+export const POST = withPermission('reservations:manage', async (request: NextRequest, _context, user) => {
+    try {
+        const { locationId, date, ...input } = await validateBody(request, hoursExceptionSchema)
+
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        const day = parseReservationDate(date)
+        const before = await prisma.locationHoursException.findUnique({
+            where: { locationId_date: { locationId, date: day } }
+        })
+        const exception = await setHoursException(locationId, day, input)
+
+        await recordAudit({
+            request,
+            user,
+            action: before ? 'update' : 'create',
+            entityType: 'hours_exception',
+            entityId: exception.id,
+            before,
+            after: exception,
+        })
+
+        return NextResponse.json({ exception }, { status: 201 })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error setting hours exception:', error)
+        const message = error instanceof Error ? error.message : 'Failed to set hours exception'
+        return NextResponse.json({ error: message }, { status: message === 'Location not found' ? 404 : 400 })
+    }
+})
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateBody, withErrorHandling } from '@/lib/validations/middleware'
+import { guestCancelReservationSchema } from '@/lib/validations/schemas'
+import { cancelByGuest } from '@/lib/reservations'
+import { publishEvent } from '@/lib/realtime'
+
+interface RouteParams {
+    params: Promise<{ token: string }>
+}
+
+// POST /api/reservations/manage/[token]/cancel - Public: the guest cancels their booking
+export const POST = withErrorHandling(async (request: NextRequest, { params }: RouteParams) => {
+    try {
+        const { token } = await params
+        const { reason } = await validateBody(request, guestCancelReservationSchema)
+
+        const { reservation, guest } = await cancelByGuest(token, reason)
+
+        await publishEvent({
+            type: 'reservation.updated',
+            locationId: reservation.locationId,
+            reservationId: reservation.id,
+            status: reservation.status,
+        })
+
+        return NextResponse.json({ reservation: guest })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error cancelling reservation:', error)
+        const message = error instanceof Error ? error.message : 'Failed to cancel reservation'
+        const status = message === 'Reservation not found' ? 404 : message.endsWith('not configured') ? 503 : 400
+        return NextResponse.json({ error: message }, { status })
+    }
+})
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateBody, withErrorHandling } from '@/lib/validations/middleware'
+import { reservationRescheduleSchema } from '@/lib/validations/schemas'
+import { getReservationByToken, rescheduleByGuest, toGuestReservation } from '@/lib/reservations'
+import { publishEvent } from '@/lib/realtime'
+
+interface RouteParams {
+    params: Promise<{ token: string }>
+}
+
+function errorStatus(message: string): number {
+    if (message === 'Reservation not found') return 404
+    if (message.endsWith('not configured')) return 503
+    if (message.includes('already booked') || message.startsWith('No ')) return 409
+    if (message.includes('deposit')) return 402
+    return 400
+}
+
+// GET /api/reservations/manage/[token] - Public: the booking behind a manage link
+export const GET = withErrorHandling(async (_request: NextRequest, { params }: RouteParams) => {
+    try {
+        const { token } = await params
+        const reservation = await getReservationByToken(token)
+
+        return NextResponse.json({ reservation: toGuestReservation(reservation) })
+    } catch (error) {
+        console.error('Error fetching managed reservation:', error)
+        const message = error instanceof Error ? error.message : 'Failed to fetch reservation'
+        return NextResponse.json({ error: message }, { status: errorStatus(message) })
+    }
+})
+
+// PATCH /api/reservations/manage/[token] - Public: move the booking to another time or party size
+export const PATCH = withErrorHandling(async (request: NextRequest, { params }: RouteParams) => {
+    try {
+        const { token } = await params
+        const body = await validateBody(request, reservationRescheduleSchema)
+
+        const { reservation, guest } = await rescheduleByGuest(token, body)
+
+        await publishEvent({
+            type: 'reservation.updated',
+            locationId: reservation.locationId,
+            reservationId: reservation.id,
+            status: reservation.status,
+        })
+
+        return NextResponse.json({ reservation: guest })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error rescheduling reservation:', error)
+        const message = error instanceof Error ? error.message : 'Failed to change reservation'
+        return NextResponse.json({ error: message }, { status: errorStatus(message) })
+    }
+})
@@ -1,27 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
-
-// Helper to generate reservation number
-async function generateReservationNumber(): Promise<string> {
-    const today = new Date()
-    const datePrefix = today.toISOString().split('T')[0].replace(/-/g, '').slice(2) // YYMMDD
-
-    const count = await prisma.reservation.count({
-        where: {
-            createdAt: {
-                gte: new Date(today.setHours(0, 0, 0, 0)),
-            }
-        }
-    })
-
-    return `RES-${datePrefix}-${String(count + 1).padStart(4, '0')}`
-}
+import { withPermission, checkLocationAccess, scopeLocationFilter, validateBody } from '@/lib/validations/middleware'
+import { reservationCreateSchema } from '@/lib/validations/schemas'
+import { createReservation, reservationCreatedEvent } from '@/lib/reservations'
+import { publishEvent } from '@/lib/realtime'
 
 // GET /api/reservations - List reservations
-export async function GET(request: NextRequest) {
+export const GET = withPermission('reservations:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const date = searchParams.get('date')
         const status = searchParams.get('status')
         const page = parseInt(searchParams.get('page') || '1')
@@ -56,55 +47,33 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching reservations:', error)
         return NextResponse.json({ error: 'Failed to fetch reservations' }, { status: 500 })
     }
-}
+})
 
-// POST /api/reservations - Create reservation
-export async function POST(request: NextRequest) {
+// POST /api/reservations - Book a table, assigning the best free one when none is given
+export const POST = withPermission('reservations:manage', async (request: NextRequest, _context, user) => {
     try {
-        const body = await request.json()
-        const {
-            locationId, guestName, guestEmail, guestPhone, partySize,
-            date, startTime, duration, tableId, occasion, specialRequests,
-            dietaryNotes, source, customerId
-        } = body
+        const body = await validateBody(request, reservationCreateSchema)
 
-        if (!locationId || !guestName || !guestPhone || !partySize || !date || !startTime) {
-            return NextResponse.json(
-                { error: 'locationId, guestName, guestPhone, partySize, date, and startTime are required' },
-                { status: 400 }
-            )
+        const denied = checkLocationAccess(user, body.locationId)
+        if (denied) {
+            return denied
         }
 
-        const reservationNumber = await generateReservationNumber()
+        const reservation = await createReservation(body)
 
-        const reservation = await prisma.reservation.create({
-            data: {
-                reservationNumber,
-                locationId,
-                customerId,
-                guestName,
-                guestEmail,
-                guestPhone,
-                partySize,
-                date: new Date(date),
-                startTime: new Date(`1970-01-01T${startTime}`),
-                duration: duration || 90,
-                tableId,
-                occasion,
-                specialRequests,
-                dietaryNotes,
-                source: source || 'DIRECT',
-                status: 'PENDING'
-            },
-            include: {
-                location: { select: { id: true, name: true } },
-                table: { select: { id: true, tableNumber: true } }
-            }
-        })
+        await publishEvent(reservationCreatedEvent(reservation))
 
         return NextResponse.json({ reservation }, { status: 201 })
     } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
         console.error('Error creating reservation:', error)
-        return NextResponse.json({ error: 'Failed to create reservation' }, { status: 500 })
+        const message = error instanceof Error ? error.message : 'Failed to create reservation'
+        // Overlapping bookings and a full house are conflicts with what is already booked
+        const status = message.includes('already booked') || message.startsWith('No ')
+            ? 409
+            : message.endsWith('not found') ? 404 : 400
+        return NextResponse.json({ error: message }, { status })
     }
-}
+})
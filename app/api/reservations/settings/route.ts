@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLocationReservationSettings, updateReservationSettings } from '@/lib/reservations'
+import { withPermission, checkLocationAccess, scopeLocationFilter, validateBody } from '@/lib/validations/middleware'
+import { reservationSettingsSchema } from '@/lib/validations/schemas'
+import { recordAudit } from '@/lib/audit'
+
+// GET /api/reservations/settings - Get slot interval, pacing caps and turn times for a location
+export const GET = withPermission('reservations:view', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
+
+        if (!locationId) {
+            return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
+        }
+
+        const settings = await getLocationReservationSettings(locationId)
+
+        return NextResponse.json({ settings })
+    } catch (error) {
+        console.error('Error fetching reservation settings:', error)
+        const message = error instanceof Error ? error.message : 'Failed to fetch settings'
+        return NextResponse.json({ error: message }, { status: message === 'Location not found' ? 404 : 500 })
+    }
+})
+
+// PUT /api/reservations/settings - Set slot interval, pacing caps and turn times for a location
+export const PUT = withPermission('reservations:manage', async (request: NextRequest, _context, user) => {
+    try {
+        const { locationId, ...input } = await validateBody(request, reservationSettingsSchema)
+
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
+        const before = await getLocationReservationSettings(locationId)
+        const settings = await updateReservationSettings(locationId, input)
+
+        await recordAudit({
+            request,
+            user,
+            action: 'update',
+            entityType: 'reservation_settings',
+            entityId: locationId,
+            before,
+            after: settings,
+        })
+
+        return NextResponse.json({ settings })
+    } catch (error) {
+        if (error instanceof NextResponse) {
+            return error
+        }
+        console.error('Error updating reservation settings:', error)
+        const message = error instanceof Error ? error.message : 'Failed to update settings'
+        return NextResponse.json({ error: message }, { status: message === 'Location not found' ? 404 : 400 })
+    }
+})
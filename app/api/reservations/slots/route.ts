@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandling } from '@/lib/validations/middleware'
+import { findBookableLocation, getSlotGrid, SEATING_PREFERENCES, type SeatingPreference } from '@/lib/reservations'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/reservations/slots - Public: the day's start times for a party, for the booking widget
+// ?location=<id or slug>&date=YYYY-MM-DD&partySize=4&preferences=outdoor
+export const GET = withErrorHandling(async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const locationKey = searchParams.get('location') || searchParams.get('locationId')
+        const date = searchParams.get('date')
+        const partySize = parseInt(searchParams.get('partySize') || '2')
+        const preferences = (searchParams.get('preferences') || '').split(',').filter(Boolean)
+
+        if (!locationKey || !date) {
+            return NextResponse.json({ error: 'location and date are required' }, { status: 400 })
+        }
+        if (!Number.isInteger(partySize) || partySize < 1) {
+            return NextResponse.json({ error: 'Invalid party size' }, { status: 400 })
+        }
+
+        const unknown = preferences.find(p => !(SEATING_PREFERENCES as readonly string[]).includes(p))
+        if (unknown) {
+            return NextResponse.json({ error: `Unknown seating preference: ${unknown}` }, { status: 400 })
+        }
+
+        const location = await findBookableLocation(locationKey)
+
+        const grid = await getSlotGrid({
+            locationId: location.id,
+            date,
+            partySize,
+            preferences: preferences as SeatingPreference[],
+        })
+
+        // Guests see whether a time can be booked, not how full it is
+        return NextResponse.json({
+            ...grid,
+            slots: grid.slots.map(slot => ({ time: slot.time, available: slot.available })),
+        })
+    } catch (error) {
+        console.error('Error fetching reservation slots:', error)
+        const message = error instanceof Error ? error.message : 'Failed to fetch slots'
+        const status = message.startsWith('Invalid') || /parties/i.test(message) ? 400
+            : message === 'Location not found' ? 404
+            : message.endsWith('not available') ? 403 : 500
+        return NextResponse.json({ error: status === 500 ? 'Failed to fetch slots' : message }, { status })
+    }
+})
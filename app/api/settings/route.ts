@@ -1,5 +1,6 @@
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/validations/middleware'
 
 export const dynamic = 'force-dynamic'
 
@@ -47,11 +48,12 @@ export async function GET(_request: NextRequest) {
 }
 
 // PUT /api/settings - Update restaurant settings (admin only)
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission('settings:manage', async (request: NextRequest, _context, user) => {
   try {
     const { prisma } = await import('@/lib/db/prisma')
     const { validateBody } = await import('@/lib/validations/middleware')
     const { restaurantSettingsSchema } = await import('@/lib/validations/schemas')
+    const { recordAudit } = await import('@/lib/audit')
 
     const validatedBody = await validateBody(request, restaurantSettingsSchema)
     const { name, phone, email, address, hours, deliveryFee, minimumOrder, taxRate } =
@@ -77,6 +79,16 @@ export async function PUT(request: NextRequest) {
       },
     })
 
+    await recordAudit({
+      request,
+      user,
+      action: 'update',
+      entityType: 'settings',
+      entityId: settings.id,
+      before: settings,
+      after: updatedSettings,
+    })
+
     return NextResponse.json({
       ...updatedSettings,
       hours: updatedSettings.hours ?? {},
@@ -85,4 +97,4 @@ export async function PUT(request: NextRequest) {
     console.error('Error updating settings:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import nodemailer from 'nodemailer'
 import {
-  withAuthAndBodyValidation,
+  withPermissionAndBodyValidation,
   createErrorResponse,
 } from '@/lib/validations/middleware'
 import {
@@ -11,7 +11,8 @@ import {
 } from '@/lib/validations/schemas'
 
 // POST /api/settings/smtp/test - Send test email (admin only)
-export const POST = withAuthAndBodyValidation(
+export const POST = withPermissionAndBodyValidation(
+  'settings:manage',
   smtpTestEmailSchema,
   async (_request: NextRequest, validatedBody: SMTPTestEmailInput) => {
     try {
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvent } from '@/lib/realtime'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // PATCH /api/tables/[id]/status - Update table status
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withPermission('tables:update', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -20,6 +22,18 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             )
         }
 
+        const current = await prisma.table.findUnique({
+            where: { id },
+            select: { area: { select: { locationId: true } } }
+        })
+        if (!current) {
+            return NextResponse.json({ error: 'Table not found' }, { status: 404 })
+        }
+        const denied = checkLocationAccess(user, current.area.locationId)
+        if (denied) {
+            return denied
+        }
+
         const table = await prisma.table.update({
             where: { id },
             data: { status },
@@ -28,12 +42,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             }
         })
 
-        // TODO: Emit real-time update via Socket.IO
-        // getSocketServer()?.emitTableStatusChanged(table.area.locationId, id, status, table.areaId)
+        await publishEvent({
+            type: 'table.status-changed',
+            locationId: table.area.locationId,
+            tableId: id,
+            areaId: table.areaId,
+            status,
+        })
 
         return NextResponse.json({ table })
     } catch (error) {
         console.error('Error updating table status:', error)
         return NextResponse.json({ error: 'Failed to update table status' }, { status: 500 })
     }
-}
+})
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents } from '@/lib/realtime'
 
 // POST /api/tables/combine - Combine multiple tables
-export async function POST(request: NextRequest) {
+export const POST = withPermission('tables:update', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const { tableIds, status } = body
@@ -17,7 +19,7 @@ export async function POST(request: NextRequest) {
         // Verify all tables exist and are in same area
         const tables = await prisma.table.findMany({
             where: { id: { in: tableIds } },
-            include: { area: { select: { id: true, name: true } } }
+            include: { area: { select: { id: true, name: true, locationId: true } } }
         })
 
         if (tables.length !== tableIds.length) {
@@ -31,6 +33,10 @@ export async function POST(request: NextRequest) {
                 { status: 400 }
             )
         }
+        const denied = checkLocationAccess(user, tables[0].area.locationId)
+        if (denied) {
+            return denied
+        }
 
         // Check none are already combined
         const alreadyCombined = tables.some(t => t.combinableWith)
@@ -72,6 +78,14 @@ export async function POST(request: NextRequest) {
             include: { area: { select: { id: true, name: true } } }
         })
 
+        await publishEvents(tables.map(table => ({
+            type: 'table.status-changed' as const,
+            locationId: table.area.locationId,
+            tableId: table.id,
+            areaId: table.areaId,
+            status: table.id === primaryTableId ? (status || 'RESERVED') : 'BLOCKED',
+        })))
+
         return NextResponse.json({
             message: 'Tables combined successfully',
             primaryTable: combinedTable,
@@ -82,4 +96,4 @@ export async function POST(request: NextRequest) {
         console.error('Error combining tables:', error)
         return NextResponse.json({ error: 'Failed to combine tables' }, { status: 500 })
     }
-}
+})
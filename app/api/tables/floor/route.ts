@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
+import { getLiveFloor } from '@/lib/tables'
+
+// GET /api/tables/floor - Live floor for hosts: tables by area with their
+// status, open bill and time seated, and the bookings coming up
+export const GET = withPermission('tables:view', async (request: NextRequest, _context, user) => {
+    try {
+        const { searchParams } = new URL(request.url)
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
+        if (!locationId) {
+            return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
+        }
+
+        const lookahead = parseInt(searchParams.get('lookahead') || '', 10)
+        const floor = await getLiveFloor({
+            locationId,
+            areaId: searchParams.get('areaId') || undefined,
+            lookaheadMinutes: Number.isInteger(lookahead) && lookahead > 0 ? Math.min(lookahead, 24 * 60) : undefined,
+        })
+
+        return NextResponse.json(floor)
+    } catch (error) {
+        console.error('Error fetching live floor:', error)
+        const message = error instanceof Error ? error.message : 'Failed to fetch live floor'
+        return NextResponse.json({ error: message }, { status: message === 'Location not found' ? 404 : 500 })
+    }
+})
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, scopeLocationFilter } from '@/lib/validations/middleware'
 
 // GET /api/tables - List tables
-export async function GET(request: NextRequest) {
+export const GET = withPermission('tables:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
         const areaId = searchParams.get('areaId')
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
         const status = searchParams.get('status')
 
         const where: any = { isActive: true }
@@ -37,10 +41,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching tables:', error)
         return NextResponse.json({ error: 'Failed to fetch tables' }, { status: 500 })
     }
-}
+})
 
 // POST /api/tables - Create table
-export async function POST(request: NextRequest) {
+export const POST = withPermission('tables:manage', async (request: NextRequest) => {
     try {
         const body = await request.json()
         const {
@@ -83,4 +87,4 @@ export async function POST(request: NextRequest) {
         console.error('Error creating table:', error)
         return NextResponse.json({ error: 'Failed to create table' }, { status: 500 })
     }
-}
+})
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import { Prisma } from '@prisma/client'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents } from '@/lib/realtime'
 
 // POST /api/tables/separate - Separate combined tables
-export async function POST(request: NextRequest) {
+export const POST = withPermission('tables:update', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const { tableId } = body
@@ -12,10 +14,17 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'tableId is required' }, { status: 400 })
         }
 
-        const table = await prisma.table.findUnique({ where: { id: tableId } })
+        const table = await prisma.table.findUnique({
+            where: { id: tableId },
+            include: { area: { select: { locationId: true } } }
+        })
         if (!table) {
             return NextResponse.json({ error: 'Table not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, table.area.locationId)
+        if (denied) {
+            return denied
+        }
 
         if (!table.combinableWith) {
             return NextResponse.json({ error: 'Table is not combined' }, { status: 400 })
@@ -41,9 +50,17 @@ export async function POST(request: NextRequest) {
 
         const separatedTables = await prisma.table.findMany({
             where: { id: { in: allTableIds } },
-            include: { area: { select: { id: true, name: true } } }
+            include: { area: { select: { id: true, name: true, locationId: true } } }
         })
 
+        await publishEvents(separatedTables.map(t => ({
+            type: 'table.status-changed' as const,
+            locationId: t.area.locationId,
+            tableId: t.id,
+            areaId: t.areaId,
+            status: t.status,
+        })))
+
         return NextResponse.json({
             message: 'Tables separated successfully',
             tables: separatedTables
@@ -52,4 +69,4 @@ export async function POST(request: NextRequest) {
         console.error('Error separating tables:', error)
         return NextResponse.json({ error: 'Failed to separate tables' }, { status: 500 })
     }
-}
+})
@@ -3,8 +3,9 @@ import { writeFile, mkdir } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { withPermission } from '@/lib/validations/middleware'
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('uploads:create', async (request: NextRequest) => {
   try {
     const data = await request.formData()
     const file: File | null = data.get('file') as unknown as File
@@ -39,4 +40,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
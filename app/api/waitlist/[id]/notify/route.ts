@@ -1,21 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents, waitlistUpdatedEvent } from '@/lib/realtime'
+import { notify } from '@/lib/notifications'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/waitlist/[id]/notify - Send table-ready notification
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withPermission('reservations:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
         const { notificationMethod } = body // 'SMS', 'WHATSAPP', 'APP'
 
-        const entry = await prisma.waitlistEntry.findUnique({ where: { id } })
+        const entry = await prisma.waitlistEntry.findUnique({
+            where: { id },
+            include: { location: { select: { name: true } } }
+        })
         if (!entry) {
             return NextResponse.json({ error: 'Waitlist entry not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, entry.locationId)
+        if (denied) {
+            return denied
+        }
 
         if (entry.status !== 'WAITING') {
             return NextResponse.json(
@@ -24,19 +34,40 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             )
         }
 
-        // TODO: Integrate with actual notification service (Twilio, etc.)
-        // For now, just mark as notified
         const updatedEntry = await prisma.waitlistEntry.update({
             where: { id },
             data: {
                 status: 'NOTIFIED',
                 notifiedAt: new Date(),
-                notificationMethod: notificationMethod || 'SMS'
+                notificationMethod: notificationMethod || 'SMS',
+                notificationCount: { increment: 1 }
             }
         })
 
-        // In production, send actual notification here
-        // await sendSMS(entry.guestPhone, `Your table is ready at ${location.name}`)
+        // 'APP' guests watch the queue themselves; nothing to send
+        if (updatedEntry.notificationMethod !== 'APP') {
+            await notify({
+                template: 'waitlist-ready',
+                data: { guestName: entry.guestName, locationName: entry.location.name },
+                channels: [updatedEntry.notificationMethod === 'WHATSAPP' ? 'whatsapp' : 'sms'],
+                recipient: {
+                    type: entry.customerId ? 'customer' : 'guest',
+                    id: entry.customerId,
+                    phone: entry.guestPhone,
+                },
+                reference: { type: 'waitlist', id },
+            }).catch((error) => console.error('Failed to send waitlist notification:', error))
+        }
+
+        await publishEvents([
+            waitlistUpdatedEvent(updatedEntry),
+            {
+                type: 'waitlist.notification-sent',
+                locationId: entry.locationId,
+                entryId: id,
+                method: updatedEntry.notificationMethod || 'SMS',
+            },
+        ])
 
         return NextResponse.json({
             entry: updatedEntry,
@@ -46,4 +77,4 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         console.error('Error notifying waitlist entry:', error)
         return NextResponse.json({ error: 'Failed to send notification' }, { status: 500 })
     }
-}
+})
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess } from '@/lib/validations/middleware'
+import { publishEvents, waitlistUpdatedEvent } from '@/lib/realtime'
 
 interface RouteParams {
     params: Promise<{ id: string }>
 }
 
 // POST /api/waitlist/[id]/seat - Seat party from waitlist
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withPermission('reservations:manage', async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params
         const body = await request.json()
@@ -20,6 +22,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         if (!entry) {
             return NextResponse.json({ error: 'Waitlist entry not found' }, { status: 404 })
         }
+        const denied = checkLocationAccess(user, entry.locationId)
+        if (denied) {
+            return denied
+        }
 
         if (!['WAITING', 'NOTIFIED'].includes(entry.status)) {
             return NextResponse.json(
@@ -38,6 +44,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             return NextResponse.json({ error: 'Table not found' }, { status: 404 })
         }
 
+        if (table.area.locationId !== entry.locationId) {
+            return NextResponse.json({ error: 'Table is at another location' }, { status: 400 })
+        }
+
         if (table.status !== 'AVAILABLE') {
             return NextResponse.json(
                 { error: `Table is not available. Current status: ${table.status}` },
@@ -83,6 +93,23 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             AND position > ${entry.position}
         `
 
+        // Everyone behind the seated party moved up a place
+        const queue = await prisma.waitlistEntry.findMany({
+            where: { locationId: entry.locationId, status: 'WAITING', position: { gte: entry.position } }
+        })
+
+        await publishEvents([
+            waitlistUpdatedEvent(updatedEntry),
+            ...queue.map(waiting => waitlistUpdatedEvent(waiting)),
+            {
+                type: 'table.status-changed',
+                locationId: table.area.locationId,
+                tableId,
+                areaId: table.areaId,
+                status: 'OCCUPIED',
+            },
+        ])
+
         return NextResponse.json({
             entry: updatedEntry,
             table: { id: table.id, number: table.tableNumber, area: table.area.name },
@@ -93,4 +120,4 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         console.error('Error seating waitlist entry:', error)
         return NextResponse.json({ error: 'Failed to seat party' }, { status: 500 })
     }
-}
+})
@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
+import { withPermission, checkLocationAccess, scopeLocationFilter } from '@/lib/validations/middleware'
+import { publishEvent, waitlistUpdatedEvent } from '@/lib/realtime'
 
 // GET /api/waitlist - Get current waitlist
-export async function GET(request: NextRequest) {
+export const GET = withPermission('reservations:view', async (request: NextRequest, _context, user) => {
     try {
         const { searchParams } = new URL(request.url)
-        const locationId = searchParams.get('locationId')
+        const { locationId, response: denied } = scopeLocationFilter(user, searchParams.get('locationId'))
+        if (denied) {
+            return denied
+        }
 
         if (!locationId) {
             return NextResponse.json({ error: 'locationId is required' }, { status: 400 })
@@ -34,10 +39,10 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching waitlist:', error)
         return NextResponse.json({ error: 'Failed to fetch waitlist' }, { status: 500 })
     }
-}
+})
 
 // POST /api/waitlist - Add to waitlist
-export async function POST(request: NextRequest) {
+export const POST = withPermission('reservations:manage', async (request: NextRequest, _context, user) => {
     try {
         const body = await request.json()
         const { locationId, guestName, guestPhone, partySize, seatingPreference, notes, customerId } = body
@@ -49,6 +54,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const denied = checkLocationAccess(user, locationId)
+        if (denied) {
+            return denied
+        }
+
         // Get next position
         const maxPosition = await prisma.waitlistEntry.aggregate({
             where: { locationId, status: { in: ['WAITING', 'NOTIFIED'] } },
@@ -76,9 +86,11 @@ export async function POST(request: NextRequest) {
             }
         })
 
+        await publishEvent(waitlistUpdatedEvent(entry))
+
         return NextResponse.json({ entry, quotedWaitTime }, { status: 201 })
     } catch (error) {
         console.error('Error adding to waitlist:', error)
         return NextResponse.json({ error: 'Failed to add to waitlist' }, { status: 500 })
     }
-}
+})
@@ -5,6 +5,7 @@ import CustomerPortal from '@/components/customer/CustomerPortal'
 import { useMenu } from '@/lib/hooks/use-menu'
 import { useCategories } from '@/lib/hooks/use-categories'
 import { useSettings } from '@/lib/hooks/use-settings'
+import { usePromotions } from '@/lib/hooks/use-promotions'
 import { useLandingPageStore } from '@/lib/stores/landing-page-store'
 import type { Order } from '@/lib/types'
 
@@ -12,13 +13,13 @@ export default function HomePage() {
   const { data: menuItems = [] } = useMenu()
   const { data: categories = [] } = useCategories()
   const { data: settings } = useSettings()
+  const { data: promotions = [] } = usePromotions()
   
   // Local state for orders (could be replaced by useOrders if user is persistent)
   const [orders, setOrders] = useState<Order[]>([])
 
   const {
     heroConfig,
-    promotions,
     featuredItems,
     banners,
     landingPageConfig,
@@ -174,8 +174,9 @@ export default function KitchenDisplay({ stationId, locationId, stationName }: K
 
     // Listen for real-time updates
     useEffect(() => {
-        const unsubNewOrder = on('kitchen:new-order', (data) => {
-            setOrders(prev => [...prev, data.kitchenOrder as any])
+        // New tickets carry only a summary, so reload to get timings and items
+        const unsubNewOrder = on('kitchen:new-order', () => {
+            fetchOrders()
         })
 
         const unsubOrderUpdated = on('kitchen:order-updated', (data) => {
@@ -194,7 +195,7 @@ export default function KitchenDisplay({ stationId, locationId, stationName }: K
             unsubOrderUpdated()
             unsubOrderBumped()
         }
-    }, [on])
+    }, [on, fetchOrders])
 
     // Handle bump action
     const handleBump = async (orderId: string) => {
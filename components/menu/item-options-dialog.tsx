@@ -0,0 +1,151 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog'
+import {
+    parseModifierGroups,
+    parseVariants,
+    priceLineItem,
+    type PriceableMenuItem,
+    type PricedLine
+} from '@/lib/menu/pricing'
+
+export interface ItemOptionsSelection {
+    variantId?: string
+    modifierOptionIds: string[]
+    line: PricedLine
+}
+
+interface ItemOptionsDialogProps {
+    item: (PriceableMenuItem & { name: string }) | null
+    onOpenChange: (open: boolean) => void
+    onConfirm: (selection: ItemOptionsSelection) => void
+    formatPrice?: (amount: number) => string
+}
+
+const defaultFormatPrice = (amount: number) => amount.toFixed(2)
+
+export function ItemOptionsDialog({
+    item,
+    onOpenChange,
+    onConfirm,
+    formatPrice = defaultFormatPrice
+}: ItemOptionsDialogProps) {
+    const variants = useMemo(() => parseVariants(item?.variants), [item])
+    const groups = useMemo(() => parseModifierGroups(item?.modifiers), [item])
+
+    const [variantId, setVariantId] = useState<string | undefined>()
+    const [optionIds, setOptionIds] = useState<string[]>([])
+
+    // Reset the selection whenever a different item is opened
+    useEffect(() => {
+        setVariantId((variants.find(v => v.isDefault) || variants[0])?.id)
+        setOptionIds([])
+    }, [variants])
+
+    const pricing = item
+        ? priceLineItem(item, { quantity: 1, variantId, modifierOptionIds: optionIds })
+        : null
+
+    const toggleOption = (groupId: string, optionId: string, checked: boolean) => {
+        const group = groups.find(g => g.id === groupId)
+        if (!group) return
+
+        setOptionIds(prev => {
+            // Single-choice groups behave like radio buttons
+            if (group.maxSelect === 1) {
+                const groupOptionIds = group.options.map(o => o.id)
+                const others = prev.filter(id => !groupOptionIds.includes(id))
+                return checked ? [...others, optionId] : others
+            }
+            return checked ? [...prev, optionId] : prev.filter(id => id !== optionId)
+        })
+    }
+
+    const handleConfirm = () => {
+        if (!pricing?.success) return
+        onConfirm({ variantId, modifierOptionIds: optionIds, line: pricing.line })
+    }
+
+    return (
+        <Dialog open={!!item} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{item?.name}</DialogTitle>
+                    <DialogDescription>Choose your options</DialogDescription>
+                </DialogHeader>
+
+                <div className="max-h-[60vh] overflow-y-auto space-y-6 py-2">
+                    {variants.length > 0 && (
+                        <div className="space-y-3">
+                            <div className="font-medium">Size</div>
+                            <RadioGroup value={variantId} onValueChange={setVariantId}>
+                                {variants.map(variant => (
+                                    <div key={variant.id} className="flex items-center justify-between">
+                                        <div className="flex items-center gap-2">
+                                            <RadioGroupItem value={variant.id} id={`variant-${variant.id}`} />
+                                            <Label htmlFor={`variant-${variant.id}`}>{variant.name}</Label>
+                                        </div>
+                                        {variant.priceAdjust !== 0 && (
+                                            <span className="text-sm text-muted-foreground">
+                                                {variant.priceAdjust > 0 ? '+' : '-'}{formatPrice(Math.abs(variant.priceAdjust))}
+                                            </span>
+                                        )}
+                                    </div>
+                                ))}
+                            </RadioGroup>
+                        </div>
+                    )}
+
+                    {groups.map(group => (
+                        <div key={group.id} className="space-y-3">
+                            <div className="flex items-baseline justify-between">
+                                <span className="font-medium">{group.name}</span>
+                                <span className="text-xs text-muted-foreground">
+                                    {group.minSelect > 0 ? 'Required' : 'Optional'}
+                                    {group.maxSelect !== null && ` · up to ${group.maxSelect}`}
+                                </span>
+                            </div>
+                            {group.options.map(option => (
+                                <div key={option.id} className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`option-${option.id}`}
+                                            checked={optionIds.includes(option.id)}
+                                            onCheckedChange={(checked) => toggleOption(group.id, option.id, checked === true)}
+                                        />
+                                        <Label htmlFor={`option-${option.id}`}>{option.name}</Label>
+                                    </div>
+                                    {option.price > 0 && (
+                                        <span className="text-sm text-muted-foreground">+{formatPrice(option.price)}</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+
+                {pricing && !pricing.success && (
+                    <p className="text-sm text-destructive">{pricing.error}</p>
+                )}
+
+                <DialogFooter>
+                    <Button className="w-full" disabled={!pricing?.success} onClick={handleConfirm}>
+                        Add to cart{pricing?.success && ` · ${formatPrice(pricing.line.unitPrice)}`}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
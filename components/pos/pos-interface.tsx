@@ -3,11 +3,15 @@
 import { useState } from 'react'
 import useSWR from 'swr'
 import { usePOSStore } from '@/lib/stores/pos-store'
-import { closeShift, processPayment } from '@/lib/hooks/use-pos'
+import { printReceipt, processPayment } from '@/lib/hooks/use-pos'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ItemOptionsDialog, type ItemOptionsSelection } from '@/components/menu/item-options-dialog'
+import { ShiftCloseDialog } from '@/components/pos/shift-close-dialog'
+import { SplitBillDialog } from '@/components/pos/split-bill-dialog'
+import { hasConfigurableOptions } from '@/lib/menu/pricing'
 import {
     MagnifyingGlassIcon,
     TrashIcon,
@@ -29,6 +33,8 @@ interface MenuItem {
     available: boolean
     categoryId: string
     dietaryTags?: string[]
+    variants?: unknown
+    modifiers?: unknown
 }
 
 interface Category {
@@ -46,6 +52,10 @@ export function POSInterface() {
     const [isPaying, setIsPaying] = useState(false)
     const [paymentMethod, setPaymentMethod] = useState<string>('CASH')
     const [amountTendered, setAmountTendered] = useState<string>('')
+    const [lastOrderId, setLastOrderId] = useState<string | null>(null)
+    const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null)
+    const [isDrawerOpen, setIsDrawerOpen] = useState(false)
+    const [splitTarget, setSplitTarget] = useState<{ id: string; orderItems: { id: string; name: string; quantity: number; totalPrice: string }[] } | null>(null)
 
     // Fetch Menu
     const { data: menuData, isLoading: menuLoading } = useSWR<Category[]>('/api/menu?grouped=true', fetcher)
@@ -60,6 +70,10 @@ export function POSInterface() {
     })
 
     const handleAddToCart = (item: MenuItem) => {
+        if (hasConfigurableOptions(item)) {
+            setOptionsItem(item)
+            return
+        }
         store.addToCart({
             menuItemId: item.id,
             name: item.name,
@@ -69,6 +83,25 @@ export function POSInterface() {
         })
     }
 
+    const handleConfirmOptions = ({ line }: ItemOptionsSelection) => {
+        if (!optionsItem) return
+        store.addToCart({
+            menuItemId: optionsItem.id,
+            name: optionsItem.name,
+            price: line.basePrice,
+            quantity: 1,
+            variant: line.variantId
+                ? { id: line.variantId, name: line.variantName ?? '', priceAdjust: line.variantPriceAdjust }
+                : undefined,
+            modifiers: line.modifiers.map(m => ({ id: m.optionId, name: m.name, price: m.price })),
+            notes: ''
+        })
+        setOptionsItem(null)
+    }
+
+    const getUnitPrice = (item: typeof store.cart[number]) =>
+        item.price + (item.variant?.priceAdjust || 0) + (item.modifiers || []).reduce((sum, m) => sum + m.price, 0)
+
     // Creating order function
     const createOrder = async () => {
         const res = await fetch('/api/orders', {
@@ -79,6 +112,8 @@ export function POSInterface() {
                 items: store.cart.map(i => ({
                     menuItemId: i.menuItemId,
                     quantity: i.quantity,
+                    variantId: i.variant?.id,
+                    modifierOptionIds: i.modifiers?.map(m => m.id),
                     specialInstructions: i.notes // Fixed mapping
                 })),
                 orderType: store.orderType,
@@ -119,6 +154,7 @@ export function POSInterface() {
                 orderId: order.id,
                 paymentMethodId: method?.id,
                 amount: store.total,
+                tenderedAmount: paymentMethod === 'CASH' ? parseFloat(amountTendered) : undefined,
                 terminalId: store.terminalId!,
                 shiftId: store.shiftId!,
                 // tipAmount: 0 // Optional
@@ -128,20 +164,33 @@ export function POSInterface() {
             store.clearCart()
             setIsPaying(false)
             setAmountTendered('')
-            // Optionally print receipt here
+            setLastOrderId(order.id)
+            await printReceipt(order.id).catch((error) => console.error('Failed to print receipt:', error))
         } catch (e) {
             console.error(e)
             alert('Transaction Failed')
         }
     }
 
-    const handleCloseShift = async () => {
-        if (confirm('Are you sure you want to close the shift?')) {
-            await closeShift(store.shiftId!, { closingCash: 0 }) // TODO: Prompt for cash count
-            store.clearShift()
+    const handleSplitBill = async () => {
+        if (!store.cart.length) return
+        try {
+            const { order } = await createOrder()
+            setIsPaying(false)
+            setSplitTarget(order)
+        } catch (e) {
+            console.error(e)
+            alert('Could not create the order')
         }
     }
 
+    const handleSplitPaid = async (orderId: string) => {
+        store.clearCart()
+        setSplitTarget(null)
+        setLastOrderId(orderId)
+        await printReceipt(orderId).catch((error) => console.error('Failed to print receipt:', error))
+    }
+
     return (
         <div className="flex h-screen overflow-hidden bg-gray-100">
             {/* LEFT: Menu Grid */}
@@ -175,6 +224,15 @@ export function POSInterface() {
                             </ScrollArea>
                         </Tabs>
                     </div>
+                    {lastOrderId && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => printReceipt(lastOrderId, { reprint: true }).catch((error) => alert(error.message))}
+                        >
+                            Reprint receipt
+                        </Button>
+                    )}
                 </header>
 
                 {/* Grid */}
@@ -207,7 +265,7 @@ export function POSInterface() {
                 <div className="p-3 bg-gray-50 border-b flex justify-between text-xs text-gray-500">
                     <span>Term: {store.terminalName}</span>
                     <span>Shift: #{store.shiftId?.slice(-4)}</span>
-                    <button onClick={handleCloseShift} className="text-red-500 hover:underline">Close Shift</button>
+                    <button onClick={() => setIsDrawerOpen(true)} className="text-red-500 hover:underline">Drawer / Close Shift</button>
                 </div>
 
                 {/* Cart Items */}
@@ -224,10 +282,15 @@ export function POSInterface() {
                                     <div className="flex-1">
                                         <div className="font-medium flex justify-between">
                                             <span>{item.name}</span>
-                                            <span>Rs. {(item.price * item.quantity).toFixed(0)}</span>
+                                            <span>Rs. {(getUnitPrice(item) * item.quantity).toFixed(0)}</span>
                                         </div>
+                                        {(item.variant || !!item.modifiers?.length) && (
+                                            <div className="text-xs text-gray-500 mt-0.5">
+                                                {[item.variant?.name, ...(item.modifiers || []).map(m => m.name)].filter(Boolean).join(', ')}
+                                            </div>
+                                        )}
                                         <div className="text-sm text-gray-500 mt-1 flex items-center gap-2">
-                                            <span>Rs. {item.price} x {item.quantity}</span>
+                                            <span>Rs. {getUnitPrice(item)} x {item.quantity}</span>
                                         </div>
                                     </div>
                                     <div className="flex flex-col gap-1 items-end justify-center">
@@ -285,6 +348,30 @@ export function POSInterface() {
                 </div>
             </div>
 
+            <ItemOptionsDialog
+                item={optionsItem}
+                onOpenChange={(open) => !open && setOptionsItem(null)}
+                onConfirm={handleConfirmOptions}
+                formatPrice={(amount) => `Rs. ${amount.toFixed(0)}`}
+            />
+
+            <SplitBillDialog
+                order={splitTarget}
+                terminalId={store.terminalId}
+                shiftId={store.shiftId}
+                onOpenChange={(open) => !open && setSplitTarget(null)}
+                onPaid={handleSplitPaid}
+            />
+
+            {store.shiftId && (
+                <ShiftCloseDialog
+                    shiftId={store.shiftId}
+                    open={isDrawerOpen}
+                    onOpenChange={setIsDrawerOpen}
+                    onClosed={store.clearShift}
+                />
+            )}
+
             {/* Payment Modal Overlay */}
             {isPaying && (
                 <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -346,6 +433,9 @@ export function POSInterface() {
                             >
                                 Confirm Payment
                             </Button>
+                            <Button variant="outline" className="w-full" onClick={handleSplitBill}>
+                                Split bill
+                            </Button>
                         </div>
                     </div>
                 </div>
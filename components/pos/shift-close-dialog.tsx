@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import { useShift, recordDrawerEvent, closeShift } from '@/lib/hooks/use-pos'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog'
+
+// Notes and coins in the drawer, largest first
+const DENOMINATIONS = [5000, 1000, 500, 100, 50, 20, 10, 5, 2, 1]
+
+const DRAWER_EVENTS = [
+    { value: 'PAID_IN', label: 'Paid in' },
+    { value: 'PAID_OUT', label: 'Paid out' },
+    { value: 'DROP', label: 'Drop to safe' },
+    { value: 'NO_SALE', label: 'No sale' },
+] as const
+
+type DrawerEventType = (typeof DRAWER_EVENTS)[number]['value']
+
+interface DrawerSummary {
+    openingCash: number
+    cashSales: number
+    cashRefunds: number
+    paidIn: number
+    paidOut: number
+    drops: number
+    noSales: number
+    expectedCash: number
+}
+
+interface ShiftCloseDialogProps {
+    shiftId: string
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    onClosed: () => void
+}
+
+export function ShiftCloseDialog({ shiftId, open, onOpenChange, onClosed }: ShiftCloseDialogProps) {
+    const { shift } = useShift(open ? shiftId : null)
+    const drawer: DrawerSummary | undefined = shift?.drawer
+
+    const [eventType, setEventType] = useState<DrawerEventType>('PAID_OUT')
+    const [eventAmount, setEventAmount] = useState('')
+    const [eventReason, setEventReason] = useState('')
+    const [counts, setCounts] = useState<Record<number, string>>({})
+    const [notes, setNotes] = useState('')
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [closed, setClosed] = useState<{ expectedCash: number; countedCash: number; difference: number } | null>(null)
+
+    const counted = DENOMINATIONS.reduce((sum, value) => sum + value * (parseInt(counts[value] || '0') || 0), 0)
+
+    const openReport = (kind: 'x' | 'z') => {
+        window.open(`/api/pos/shifts/${shiftId}/${kind}-report?format=PDF`, '_blank')
+    }
+
+    const handleDrawerEvent = async () => {
+        setError(null)
+        setIsSubmitting(true)
+        try {
+            await recordDrawerEvent(shiftId, {
+                type: eventType,
+                amount: eventType === 'NO_SALE' ? undefined : parseFloat(eventAmount) || 0,
+                reason: eventReason || undefined,
+            })
+            setEventAmount('')
+            setEventReason('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to record drawer event')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleClose = async () => {
+        if (!confirm(`Close the shift with Rs. ${counted.toFixed(2)} counted?`)) return
+        setError(null)
+        setIsSubmitting(true)
+        try {
+            const { report } = await closeShift(shiftId, {
+                denominations: DENOMINATIONS
+                    .map(value => ({ value, count: parseInt(counts[value] || '0') || 0 }))
+                    .filter(line => line.count > 0),
+                closingCash: counted,
+                notes: notes || undefined,
+            })
+            setClosed(report.drawer)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to close shift')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleDone = () => {
+        onOpenChange(false)
+        onClosed()
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => closed ? handleDone() : onOpenChange(next)}>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{closed ? 'Shift closed' : 'Cash drawer'}</DialogTitle>
+                    <DialogDescription>
+                        {closed ? 'The Z-report is ready to print.' : 'Record cash movements, print an X-report or count the drawer to close the shift.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {closed ? (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-3 gap-4 text-center">
+                            <div>
+                                <p className="text-xs text-muted-foreground">Expected</p>
+                                <p className="font-semibold">Rs. {closed.expectedCash.toFixed(2)}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground">Counted</p>
+                                <p className="font-semibold">Rs. {closed.countedCash.toFixed(2)}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground">Over / short</p>
+                                <p className={`font-semibold ${closed.difference < 0 ? 'text-red-600' : closed.difference > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                                    Rs. {closed.difference.toFixed(2)}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" onClick={() => openReport('z')}>Print Z-report</Button>
+                            <Button onClick={handleDone}>Done</Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        {drawer && (
+                            <div className="grid grid-cols-4 gap-3 text-sm">
+                                <div><span className="text-muted-foreground">Float</span><p>Rs. {drawer.openingCash.toFixed(2)}</p></div>
+                                <div><span className="text-muted-foreground">Cash sales</span><p>Rs. {drawer.cashSales.toFixed(2)}</p></div>
+                                <div><span className="text-muted-foreground">Cash refunds</span><p>Rs. {drawer.cashRefunds.toFixed(2)}</p></div>
+                                <div><span className="text-muted-foreground">Paid in / out</span><p>Rs. {drawer.paidIn.toFixed(2)} / {drawer.paidOut.toFixed(2)}</p></div>
+                                <div><span className="text-muted-foreground">Drops</span><p>Rs. {drawer.drops.toFixed(2)}</p></div>
+                                <div><span className="text-muted-foreground">No-sale opens</span><p>{drawer.noSales}</p></div>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <Label>Drawer event</Label>
+                            <div className="flex gap-2">
+                                <Select value={eventType} onValueChange={(value) => setEventType(value as DrawerEventType)}>
+                                    <SelectTrigger className="w-40">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {DRAWER_EVENTS.map(event => (
+                                            <SelectItem key={event.value} value={event.value}>{event.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {eventType !== 'NO_SALE' && (
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        placeholder="Amount"
+                                        className="w-28"
+                                        value={eventAmount}
+                                        onChange={(e) => setEventAmount(e.target.value)}
+                                    />
+                                )}
+                                <Input placeholder="Reason" value={eventReason} onChange={(e) => setEventReason(e.target.value)} />
+                                <Button variant="outline" onClick={handleDrawerEvent} disabled={isSubmitting}>Record</Button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Closing count</Label>
+                            <div className="grid grid-cols-5 gap-2">
+                                {DENOMINATIONS.map(value => (
+                                    <div key={value} className="space-y-1">
+                                        <span className="text-xs text-muted-foreground">Rs. {value}</span>
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            step="1"
+                                            value={counts[value] || ''}
+                                            onChange={(e) => setCounts({ ...counts, [value]: e.target.value })}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <Input placeholder="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <Button variant="outline" onClick={() => openReport('x')}>Print X-report</Button>
+                            <div className="flex items-center gap-3">
+                                <span className="text-sm">Counted: <strong>Rs. {counted.toFixed(2)}</strong></span>
+                                <Button variant="destructive" onClick={handleClose} disabled={isSubmitting}>
+                                    {isSubmitting ? 'Closing...' : 'Close shift'}
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
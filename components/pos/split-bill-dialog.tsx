@@ -0,0 +1,240 @@
+'use client'
+
+import { useState } from 'react'
+import { useOrderSplits, splitOrder, clearOrderSplits, processPayment, usePaymentMethods } from '@/lib/hooks/use-pos'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog'
+
+interface SplitOrderItem {
+    id: string
+    name: string
+    quantity: number
+    totalPrice: number | string
+}
+
+interface SplitCheck {
+    id: string
+    splitIndex: number
+    label: string
+    total: string
+    paidAmount: string
+    paymentStatus: 'UNPAID' | 'PARTIAL' | 'PAID' | 'REFUNDED'
+    items: Array<{ id: string; share: string; amount: string; orderItem: { name: string } }>
+}
+
+interface SplitBillDialogProps {
+    order: { id: string; orderItems: SplitOrderItem[] } | null
+    terminalId: string | null
+    shiftId: string | null
+    onOpenChange: (open: boolean) => void
+    /** Called once every check is paid */
+    onPaid: (orderId: string) => void
+}
+
+// "all" shares the item between every check
+type Placement = number | 'all'
+
+export function SplitBillDialog({ order, terminalId, shiftId, onOpenChange, onPaid }: SplitBillDialogProps) {
+    const { splits, refresh } = useOrderSplits(order?.id ?? null)
+    const { methods } = usePaymentMethods()
+
+    const [ways, setWays] = useState('2')
+    const [checks, setChecks] = useState('2')
+    const [placements, setPlacements] = useState<Record<string, Placement>>({})
+    const [seats, setSeats] = useState<Record<string, string>>({})
+    const [tendered, setTendered] = useState<Record<string, string>>({})
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const checkCount = Math.max(2, parseInt(checks) || 2)
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null)
+        setIsSubmitting(true)
+        try {
+            await action()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong')
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const splitEvenly = () => run(() => splitOrder(order!.id, { method: 'EVEN', ways: parseInt(ways) || 2 }))
+
+    const splitByItem = () => run(() => splitOrder(order!.id, {
+        method: 'ITEMS',
+        splits: Array.from({ length: checkCount }, (_, index) => ({
+            items: order!.orderItems
+                .filter(item => (placements[item.id] ?? 1) === 'all' || (placements[item.id] ?? 1) === index + 1)
+                .map(item => ({ orderItemId: item.id })),
+        })),
+    }))
+
+    const splitBySeat = () => run(() => splitOrder(order!.id, {
+        method: 'SEATS',
+        seats: order!.orderItems.map(item => ({
+            orderItemId: item.id,
+            seatNumber: seats[item.id] ? parseInt(seats[item.id]) : null,
+        })),
+    }))
+
+    const payCheck = (check: SplitCheck, type: 'CASH' | 'CARD') => run(async () => {
+        const method = methods.find((m: { type: string }) => m.type === type)
+        if (!method) throw new Error(`No ${type.toLowerCase()} payment method is set up`)
+
+        const balance = Number(check.total) - Number(check.paidAmount)
+        const cash = parseFloat(tendered[check.id] || '')
+        await processPayment({
+            orderId: order!.id,
+            splitId: check.id,
+            paymentMethodId: method.id,
+            amount: balance,
+            tenderedAmount: type === 'CASH' && cash ? cash : undefined,
+            terminalId: terminalId ?? undefined,
+            shiftId: shiftId ?? undefined,
+        })
+
+        const remaining = splits.filter((s: SplitCheck) => s.id !== check.id && s.paymentStatus !== 'PAID')
+        await refresh()
+        if (remaining.length === 0) {
+            onPaid(order!.id)
+        }
+    })
+
+    const paidCount = splits.filter((s: SplitCheck) => s.paymentStatus === 'PAID').length
+
+    return (
+        <Dialog open={!!order} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Split bill</DialogTitle>
+                    <DialogDescription>
+                        {splits.length > 0
+                            ? `${paidCount} of ${splits.length} checks paid`
+                            : 'Share the bill evenly, by item or by seat. Tax, charges and discounts follow each check\'s share.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {splits.length > 0 ? (
+                    <div className="space-y-3">
+                        {splits.map((check: SplitCheck) => {
+                            const balance = Number(check.total) - Number(check.paidAmount)
+                            return (
+                                <div key={check.id} className="border rounded-lg p-3 space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <div className="font-medium">
+                                            {check.label} <span className="text-xs text-gray-500">({check.splitIndex}/{splits.length})</span>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-semibold">Rs. {Number(check.total).toFixed(2)}</span>
+                                            <Badge variant={check.paymentStatus === 'PAID' ? 'default' : 'outline'}>{check.paymentStatus}</Badge>
+                                        </div>
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        {check.items.map(line => Number(line.share) < 1
+                                            ? `${line.orderItem.name} (${Math.round(Number(line.share) * 100)}%)`
+                                            : line.orderItem.name).join(', ')}
+                                    </div>
+                                    {check.paymentStatus !== 'PAID' && (
+                                        <div className="flex gap-2">
+                                            <Input
+                                                type="number"
+                                                placeholder={`Cash tendered (${balance.toFixed(2)} due)`}
+                                                value={tendered[check.id] || ''}
+                                                onChange={(e) => setTendered({ ...tendered, [check.id]: e.target.value })}
+                                            />
+                                            <Button
+                                                variant="outline"
+                                                disabled={isSubmitting || (!!tendered[check.id] && parseFloat(tendered[check.id]) < balance)}
+                                                onClick={() => payCheck(check, 'CASH')}
+                                            >
+                                                Cash
+                                            </Button>
+                                            <Button variant="outline" disabled={isSubmitting} onClick={() => payCheck(check, 'CARD')}>
+                                                Card
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            )
+                        })}
+                        {paidCount === 0 && (
+                            <Button variant="ghost" disabled={isSubmitting} onClick={() => run(() => clearOrderSplits(order!.id))}>
+                                Undo split
+                            </Button>
+                        )}
+                    </div>
+                ) : (
+                    <Tabs defaultValue="even">
+                        <TabsList>
+                            <TabsTrigger value="even">Evenly</TabsTrigger>
+                            <TabsTrigger value="items">By item</TabsTrigger>
+                            <TabsTrigger value="seats">By seat</TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="even" className="space-y-3 pt-3">
+                            <Label htmlFor="split-ways">Number of guests</Label>
+                            <Input id="split-ways" type="number" min="2" max="20" value={ways} onChange={(e) => setWays(e.target.value)} />
+                            <Button className="w-full" disabled={isSubmitting} onClick={splitEvenly}>Split evenly</Button>
+                        </TabsContent>
+
+                        <TabsContent value="items" className="space-y-3 pt-3">
+                            <Label htmlFor="split-checks">Number of checks</Label>
+                            <Input id="split-checks" type="number" min="2" max="20" value={checks} onChange={(e) => setChecks(e.target.value)} />
+                            {order?.orderItems.map(item => (
+                                <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                                    <span className="flex-1">{item.quantity}x {item.name}</span>
+                                    <select
+                                        className="border rounded px-2 py-1"
+                                        value={String(placements[item.id] ?? 1)}
+                                        onChange={(e) => setPlacements({
+                                            ...placements,
+                                            [item.id]: e.target.value === 'all' ? 'all' : parseInt(e.target.value),
+                                        })}
+                                    >
+                                        {Array.from({ length: checkCount }, (_, index) => (
+                                            <option key={index} value={index + 1}>Check {index + 1}</option>
+                                        ))}
+                                        <option value="all">Shared</option>
+                                    </select>
+                                </div>
+                            ))}
+                            <Button className="w-full" disabled={isSubmitting} onClick={splitByItem}>Split by item</Button>
+                        </TabsContent>
+
+                        <TabsContent value="seats" className="space-y-3 pt-3">
+                            <p className="text-xs text-gray-500">Items left without a seat are shared by everyone.</p>
+                            {order?.orderItems.map(item => (
+                                <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                                    <span className="flex-1">{item.quantity}x {item.name}</span>
+                                    <Input
+                                        type="number"
+                                        min="1"
+                                        placeholder="Seat"
+                                        className="w-24"
+                                        value={seats[item.id] || ''}
+                                        onChange={(e) => setSeats({ ...seats, [item.id]: e.target.value })}
+                                    />
+                                </div>
+                            ))}
+                            <Button className="w-full" disabled={isSubmitting} onClick={splitBySeat}>Split by seat</Button>
+                        </TabsContent>
+                    </Tabs>
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
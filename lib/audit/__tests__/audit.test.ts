@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { buildAuditWhere, diffAuditValues, getRequestMetadata, parseAuditFilters } from '../audit'
+
+const decimal = (value: string) => ({ toNumber: () => Number(value), toString: () => value })
+
+describe('diffAuditValues', () => {
+  it('keeps only the fields an update changed', () => {
+    const before = { id: 'm1', name: 'Burger', price: decimal('9.50'), updatedAt: new Date('2026-01-01') }
+    const after = { id: 'm1', name: 'Burger', price: decimal('10.00'), updatedAt: new Date('2026-01-02') }
+
+    expect(diffAuditValues(before, after)).toEqual({
+      oldValues: { price: 9.5 },
+      newValues: { price: 10 },
+    })
+  })
+
+  it('ignores relations included on only one side', () => {
+    const diff = diffAuditValues(
+      { id: 'm1', available: true },
+      { id: 'm1', available: false, category: { id: 'c1', name: 'Mains' } }
+    )
+    expect(diff).toEqual({ oldValues: { available: true }, newValues: { available: false } })
+  })
+
+  it('returns null when nothing but timestamps changed', () => {
+    expect(diffAuditValues(
+      { id: 'c1', name: 'Drinks', updatedAt: new Date('2026-01-01') },
+      { id: 'c1', name: 'Drinks', updatedAt: new Date('2026-01-02') }
+    )).toBeNull()
+  })
+
+  it('records the whole record for creates and deletes', () => {
+    const record = { id: 'l1', name: 'Downtown', openedAt: new Date('2026-03-01T00:00:00Z') }
+
+    expect(diffAuditValues(null, record)).toEqual({
+      oldValues: null,
+      newValues: { id: 'l1', name: 'Downtown', openedAt: '2026-03-01T00:00:00.000Z' },
+    })
+    expect(diffAuditValues(record, undefined)?.newValues).toBeNull()
+  })
+
+  it('records that a secret changed without its value', () => {
+    const diff = diffAuditValues({ host: 'smtp.a', password: 'old' }, { host: 'smtp.a', password: 'new' })
+    expect(diff).toEqual({ oldValues: { password: '[redacted]' }, newValues: { password: '[redacted]' } })
+    expect(diffAuditValues({ password: 'same' }, { password: 'same' })).toBeNull()
+  })
+})
+
+describe('audit filters', () => {
+  it('parses filters and widens bare dates to whole days', () => {
+    const filters = parseAuditFilters(new URLSearchParams(
+      'entityType=menu_item&action=update,delete&from=2026-05-01&to=2026-05-02&limit=500'
+    ))
+
+    expect(filters.limit).toBe(100)
+    expect(buildAuditWhere(filters)).toEqual({
+      entityType: 'menu_item',
+      action: { in: ['update', 'delete'] },
+      createdAt: {
+        gte: new Date('2026-05-01T00:00:00.000Z'),
+        lte: new Date('2026-05-02T23:59:59.999Z'),
+      },
+    })
+  })
+
+  it('reads the client address from the first forwarded hop', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'POS/1.0' })
+    expect(getRequestMetadata(headers)).toEqual({ ipAddress: '203.0.113.7', userAgent: 'POS/1.0' })
+  })
+})
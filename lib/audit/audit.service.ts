@@ -0,0 +1,90 @@
+/**
+ * Audit Service
+ * Writes and queries the AuditLog for admin mutations
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma } from '@prisma/client'
+import type { AuthorizedUser } from '@/lib/auth/permissions'
+import {
+    buildAuditWhere,
+    diffAuditValues,
+    getRequestMetadata,
+    type AuditAction,
+    type AuditEntityType,
+    type AuditFilters,
+} from './audit'
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+export interface AuditEntry {
+    request: Request
+    user: Pick<AuthorizedUser, 'id' | 'email'> | null
+    action: AuditAction
+    entityType: AuditEntityType
+    entityId?: string | null
+    /** Record before the change; omit for creates */
+    before?: unknown
+    /** Record after the change; omit for deletes */
+    after?: unknown
+}
+
+/**
+ * Records who changed what, keeping only the fields that changed. Call it
+ * after the change has been saved. Failures are logged and never surface to
+ * the caller, so auditing cannot break the mutation it describes.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+    try {
+        const diff = diffAuditValues(entry.before, entry.after)
+        if (!diff) return
+
+        const { ipAddress, userAgent } = getRequestMetadata(entry.request.headers)
+
+        await prisma.auditLog.create({
+            data: {
+                userId: entry.user?.id,
+                userEmail: entry.user?.email,
+                action: entry.action,
+                entityType: entry.entityType,
+                entityId: entry.entityId,
+                oldValues: diff.oldValues ?? Prisma.JsonNull,
+                newValues: diff.newValues ?? Prisma.JsonNull,
+                ipAddress,
+                userAgent,
+            }
+        })
+    } catch (error) {
+        console.error('Failed to record audit log:', error)
+    }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listAuditLogs(filters: AuditFilters) {
+    const where = buildAuditWhere(filters)
+
+    const [logs, total] = await Promise.all([
+        prisma.auditLog.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        }),
+        prisma.auditLog.count({ where })
+    ])
+
+    return {
+        logs,
+        pagination: {
+            page: filters.page,
+            limit: filters.limit,
+            total,
+            totalPages: Math.ceil(total / filters.limit)
+        }
+    }
+}
@@ -0,0 +1,227 @@
+/**
+ * Audit Trail
+ * Pure helpers that turn before/after records into AuditLog entries
+ */
+
+import type { Prisma } from '@prisma/client'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const AUDIT_ACTIONS = [
+    'create',
+    'update',
+    'delete',
+    'void',
+    'discount',
+    'refund',
+    'adjust',
+    'close',
+    'approve',
+    'reprint',
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export const AUDIT_ENTITY_TYPES = [
+    'menu_item',
+    'category',
+    'order',
+    'transaction',
+    'location_stock',
+    'pos_shift',
+    'settings',
+    'smtp_settings',
+    'branding',
+    'location',
+    'loyalty_tier',
+    'loyalty_rule',
+    'promotion',
+    'message_template',
+    'stock_count',
+    'purchase_order',
+    'purchase_approval_limit',
+    'cash_drawer_event',
+    'reservation',
+    'reservation_settings',
+    'hours_exception',
+] as const
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]
+
+export type AuditValues = Record<string, Prisma.InputJsonValue | null>
+
+export interface AuditDiff {
+    oldValues: AuditValues | null
+    newValues: AuditValues | null
+}
+
+export interface AuditFilters {
+    /** User id or (part of) their email */
+    user?: string
+    entityType?: string
+    entityId?: string
+    action?: string
+    from?: Date
+    to?: Date
+    page: number
+    limit: number
+}
+
+// Bookkeeping columns that change on every write and say nothing about who changed what
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt'])
+
+const SECRET_FIELD = /password|secret|token|apikey/i
+
+const REDACTED = '[redacted]'
+
+const MAX_PAGE_SIZE = 100
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function isDecimal(value: object): value is { toNumber(): number } {
+    return typeof (value as { toNumber?: unknown }).toNumber === 'function'
+}
+
+/**
+ * Converts a value into something the Json column can hold: Decimals become
+ * numbers and Dates ISO strings.
+ */
+export function toAuditJson(value: unknown): Prisma.InputJsonValue | null {
+    if (value === null || value === undefined) return null
+    if (value instanceof Date) return value.toISOString()
+    if (typeof value === 'bigint') return value.toString()
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value
+    if (Array.isArray(value)) return value.map(toAuditJson) as Prisma.InputJsonValue
+    if (typeof value === 'object') {
+        if (isDecimal(value)) return value.toNumber()
+        const result: Record<string, Prisma.InputJsonValue | null> = {}
+        for (const [key, entry] of Object.entries(value)) {
+            if (typeof entry === 'function') continue
+            result[key] = toAuditJson(entry)
+        }
+        return result as Prisma.InputJsonValue
+    }
+    return null
+}
+
+// Secrets are compared before redaction, so a changed password still shows up
+function redact(values: AuditValues | null): AuditValues | null {
+    if (!values) return null
+    const result: AuditValues = {}
+    for (const [key, entry] of Object.entries(values)) {
+        result[key] = SECRET_FIELD.test(key) && entry !== null ? REDACTED : entry
+    }
+    return result
+}
+
+function toAuditValues(record: unknown): AuditValues | null {
+    if (!record || typeof record !== 'object') return null
+
+    const json = toAuditJson(record) as Record<string, Prisma.InputJsonValue | null>
+    const values: AuditValues = {}
+    for (const [key, entry] of Object.entries(json)) {
+        if (!IGNORED_FIELDS.has(key)) values[key] = entry
+    }
+    return values
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Old and new values for an audit entry. Creates keep only the new record,
+ * deletes only the old one, and updates just the fields that changed.
+ * Fields present on only one side of an update (e.g. an included relation)
+ * are ignored. Returns null when an update changed nothing worth recording.
+ */
+export function diffAuditValues(before: unknown, after: unknown): AuditDiff | null {
+    const oldRecord = toAuditValues(before)
+    const newRecord = toAuditValues(after)
+
+    if (!oldRecord || !newRecord) {
+        return oldRecord || newRecord ? { oldValues: redact(oldRecord), newValues: redact(newRecord) } : null
+    }
+
+    const oldValues: AuditValues = {}
+    const newValues: AuditValues = {}
+
+    for (const key of Object.keys(oldRecord)) {
+        if (!(key in newRecord)) continue
+        const oldValue = oldRecord[key]
+        const newValue = newRecord[key]
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            oldValues[key] = oldValue
+            newValues[key] = newValue
+        }
+    }
+
+    return Object.keys(newValues).length > 0 ? { oldValues: redact(oldValues), newValues: redact(newValues) } : null
+}
+
+// ============================================================================
+// REQUEST METADATA
+// ============================================================================
+
+export function getRequestMetadata(headers: Headers): { ipAddress: string | null; userAgent: string | null } {
+    const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+    return {
+        ipAddress: forwarded || headers.get('x-real-ip') || null,
+        userAgent: headers.get('user-agent'),
+    }
+}
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+function parseDate(value: string | null, endOfDay: boolean): Date | undefined {
+    if (!value) return undefined
+    // Bare dates cover the whole day
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+        : new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+export function parseAuditFilters(searchParams: URLSearchParams): AuditFilters {
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    return {
+        user: searchParams.get('user') || undefined,
+        entityType: searchParams.get('entityType') || undefined,
+        entityId: searchParams.get('entityId') || undefined,
+        action: searchParams.get('action') || undefined,
+        from: parseDate(searchParams.get('from'), false),
+        to: parseDate(searchParams.get('to'), true),
+        page: Number.isFinite(page) && page > 0 ? page : 1,
+        limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : 50,
+    }
+}
+
+export function buildAuditWhere(filters: AuditFilters): Prisma.AuditLogWhereInput {
+    const where: Prisma.AuditLogWhereInput = {}
+
+    if (filters.user) {
+        where.OR = [
+            { userId: filters.user },
+            { userEmail: { contains: filters.user, mode: 'insensitive' } },
+        ]
+    }
+    if (filters.entityType) where.entityType = filters.entityType
+    if (filters.entityId) where.entityId = filters.entityId
+    if (filters.action) where.action = { in: filters.action.split(',') }
+    if (filters.from || filters.to) {
+        where.createdAt = {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+        }
+    }
+
+    return where
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canAccessLocation,
+  hasPermission,
+  parsePermissionOverrides,
+  resolveLocationFilter,
+  resolvePermissions,
+} from '../permissions'
+
+describe('resolvePermissions', () => {
+  it('grants every capability to admins', () => {
+    const permissions = resolvePermissions('ADMIN', null)
+    expect(permissions.has('settings:manage')).toBe(true)
+    expect(permissions.has('payments:refund')).toBe(true)
+  })
+
+  it('limits roles to their defaults', () => {
+    const cashier = resolvePermissions('CASHIER', null)
+    expect(cashier.has('payments:process')).toBe(true)
+    expect(cashier.has('payments:refund')).toBe(false)
+    expect(cashier.has('inventory:adjust')).toBe(false)
+  })
+
+  it('applies per-user grants and revokes', () => {
+    const permissions = resolvePermissions('CASHIER', {
+      grant: ['payments:refund'],
+      revoke: ['payments:process'],
+    })
+    expect(hasPermission({ permissions }, 'payments:refund')).toBe(true)
+    expect(hasPermission({ permissions }, 'payments:process')).toBe(false)
+  })
+
+  it('treats a plain array as extra grants', () => {
+    expect(resolvePermissions('KITCHEN', ['inventory:adjust']).has('inventory:adjust')).toBe(true)
+  })
+})
+
+describe('parsePermissionOverrides', () => {
+  it('drops unknown capabilities', () => {
+    expect(parsePermissionOverrides({ grant: ['payments:refund', 'root'], revoke: 'all' }))
+      .toEqual({ grant: ['payments:refund'], revoke: [] })
+    expect(parsePermissionOverrides('payments:refund')).toEqual({ grant: [], revoke: [] })
+  })
+})
+
+describe('location scope', () => {
+  const manager = { role: 'MANAGER' as const, locationId: 'loc-1' }
+  const admin = { role: 'ADMIN' as const, locationId: 'loc-1' }
+  const floating = { role: 'MANAGER' as const, locationId: null }
+
+  it('restricts location-assigned staff to their location', () => {
+    expect(canAccessLocation(manager, 'loc-1')).toBe(true)
+    expect(canAccessLocation(manager, 'loc-2')).toBe(false)
+    expect(canAccessLocation(manager, undefined)).toBe(false)
+  })
+
+  it('never restricts admins or unassigned staff', () => {
+    expect(canAccessLocation(admin, 'loc-2')).toBe(true)
+    expect(canAccessLocation(floating, 'loc-2')).toBe(true)
+  })
+
+  it('defaults list filters to the assigned location', () => {
+    expect(resolveLocationFilter(manager, null)).toEqual({ allowed: true, locationId: 'loc-1' })
+    expect(resolveLocationFilter(manager, 'loc-2')).toEqual({ allowed: false })
+    expect(resolveLocationFilter(admin, null)).toEqual({ allowed: true, locationId: undefined })
+  })
+})
@@ -11,6 +11,7 @@ export const authConfig: NextAuthConfig = {
       if (user) {
         token.id = user.id
         token.role = (user as any).role
+        token.locationId = (user as any).locationId
       }
       return token
     },
@@ -18,6 +19,7 @@ export const authConfig: NextAuthConfig = {
       if (session.user) {
         (session.user as any).id = token.id
         ;(session.user as any).role = token.role
+        ;(session.user as any).locationId = token.locationId
       }
       return session
     },
@@ -23,7 +23,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           where: { email: credentials.email as string },
         })
 
-        if (!user) {
+        if (!user || !user.isActive) {
           return null
         }
 
@@ -41,6 +41,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           email: user.email,
           name: user.name,
           role: user.role,
+          locationId: user.locationId,
         }
       },
     }),
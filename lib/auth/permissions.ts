@@ -0,0 +1,189 @@
+import type { UserRole } from '@prisma/client'
+
+/**
+ * Role-based permissions
+ * Capabilities are granted per UserRole and can be adjusted per user through
+ * the User.permissions JSON:
+ *
+ *   { "grant": ["payments:refund"], "revoke": ["orders:discount"] }
+ *
+ * A plain array is treated as a list of extra grants.
+ */
+
+// ============================================================================
+// CAPABILITIES
+// ============================================================================
+
+export const PERMISSIONS = [
+  'menu:manage',
+  'locations:manage',
+  'settings:manage',
+  'uploads:create',
+  'audit:view',
+  'reports:view',
+
+  'orders:view',
+  'orders:update',
+  'orders:discount',
+
+  'kitchen:view',
+  'kitchen:operate',
+  'kitchen:manage',
+
+  'inventory:view',
+  'inventory:manage',
+  'inventory:adjust',
+  'inventory:count',
+  'inventory:transfer',
+  'purchasing:manage',
+  'purchasing:approve',
+  'purchasing:receive',
+
+  'pos:operate',
+  'pos:manage',
+
+  'payments:view',
+  'payments:process',
+  'payments:refund',
+  'payments:manage',
+
+  'tables:view',
+  'tables:update',
+  'tables:manage',
+
+  'reservations:view',
+  'reservations:manage',
+
+  'loyalty:manage',
+  'promotions:manage',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+const ALL = [...PERMISSIONS]
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  SUPER_ADMIN: ALL,
+  ADMIN: ALL,
+  MANAGER: ALL.filter(p => p !== 'settings:manage' && p !== 'locations:manage'),
+  CASHIER: [
+    'orders:view', 'orders:update',
+    'kitchen:view',
+    'pos:operate',
+    'payments:view', 'payments:process',
+    'tables:view',
+    'reservations:view',
+  ],
+  WAITER: [
+    'orders:view', 'orders:update',
+    'kitchen:view',
+    'tables:view', 'tables:update',
+    'reservations:view', 'reservations:manage',
+  ],
+  KITCHEN: [
+    'orders:view',
+    'kitchen:view', 'kitchen:operate',
+    'inventory:view', 'inventory:count',
+  ],
+  INVENTORY: [
+    'inventory:view', 'inventory:manage', 'inventory:adjust', 'inventory:count', 'inventory:transfer',
+    'purchasing:manage', 'purchasing:approve', 'purchasing:receive',
+  ],
+  STAFF: [
+    'orders:view',
+    'kitchen:view',
+    'tables:view',
+  ],
+}
+
+// Roles that are never restricted to their assigned location
+const ORGANIZATION_ROLES: UserRole[] = ['SUPER_ADMIN', 'ADMIN']
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuthorizedUser {
+  id: string
+  email: string
+  name: string | null
+  role: UserRole
+  locationId: string | null
+  permissions: Set<Permission>
+}
+
+interface PermissionOverrides {
+  grant: Permission[]
+  revoke: Permission[]
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value)
+}
+
+export function parsePermissionOverrides(json: unknown): PermissionOverrides {
+  if (Array.isArray(json)) {
+    return { grant: json.filter(isPermission), revoke: [] }
+  }
+  if (!json || typeof json !== 'object') {
+    return { grant: [], revoke: [] }
+  }
+
+  const { grant, revoke } = json as Record<string, unknown>
+  return {
+    grant: Array.isArray(grant) ? grant.filter(isPermission) : [],
+    revoke: Array.isArray(revoke) ? revoke.filter(isPermission) : [],
+  }
+}
+
+/**
+ * Effective permissions for a user: role defaults plus grants, minus revokes.
+ */
+export function resolvePermissions(role: UserRole, overrides: unknown): Set<Permission> {
+  const { grant, revoke } = parsePermissionOverrides(overrides)
+  const permissions = new Set<Permission>([...(ROLE_PERMISSIONS[role] ?? []), ...grant])
+  revoke.forEach(p => permissions.delete(p))
+  return permissions
+}
+
+export function hasPermission(user: Pick<AuthorizedUser, 'permissions'>, permission: Permission): boolean {
+  return user.permissions.has(permission)
+}
+
+// ============================================================================
+// LOCATION SCOPE
+// ============================================================================
+
+/**
+ * The location a user is restricted to, or null when they may act on any location.
+ */
+export function getLocationScope(user: Pick<AuthorizedUser, 'role' | 'locationId'>): string | null {
+  if (ORGANIZATION_ROLES.includes(user.role)) return null
+  return user.locationId
+}
+
+export function canAccessLocation(
+  user: Pick<AuthorizedUser, 'role' | 'locationId'>,
+  locationId: string | null | undefined
+): boolean {
+  const scope = getLocationScope(user)
+  return !scope || scope === locationId
+}
+
+/**
+ * Resolves the location filter for list endpoints. Location-scoped users
+ * default to their own location and cannot ask for another one.
+ */
+export function resolveLocationFilter(
+  user: Pick<AuthorizedUser, 'role' | 'locationId'>,
+  requested: string | null | undefined
+): { allowed: boolean; locationId?: string } {
+  const scope = getLocationScope(user)
+  if (!scope) return { allowed: true, locationId: requested || undefined }
+  if (requested && requested !== scope) return { allowed: false }
+  return { allowed: true, locationId: scope }
+}
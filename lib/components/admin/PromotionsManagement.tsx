@@ -24,9 +24,14 @@ import {
 } from '@/components/ui/select'
 import { Plus, PencilSimple, Trash, ArrowUp, ArrowDown } from '@phosphor-icons/react'
 import { toast } from 'sonner'
-import { useLandingPageStore } from '@/lib/stores/landing-page-store'
+import {
+  usePromotions,
+  useCreatePromotion,
+  useUpdatePromotion,
+  useDeletePromotion,
+} from '@/lib/hooks/use-promotions'
 import { useCategories } from '@/lib/hooks/use-categories'
-import type { Promotion } from '@/lib/types/landing-page'
+import type { Promotion } from '@/lib/types'
 
 const discountTypeLabels: Record<Promotion['discountType'], string> = {
   percentage: 'Percentage Off',
@@ -35,6 +40,22 @@ const discountTypeLabels: Record<Promotion['discountType'], string> = {
   freeItem: 'Free Item',
 }
 
+// <input type="date"> works in local calendar days
+const toDateInput = (timestamp?: number) => {
+  if (!timestamp) return ''
+  const date = new Date(timestamp)
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const fromDateInput = (value: string, endOfDay = false) => {
+  if (!value) return undefined
+  const [year, month, day] = value.split('-').map(Number)
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime()
+}
+
 export default function PromotionsManagement() {
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null)
@@ -47,17 +68,21 @@ export default function PromotionsManagement() {
     image: '',
     badgeText: '',
     linkedCategoryId: '',
+    linkedMenuItemIds: [],
+    validFrom: undefined,
+    validUntil: undefined,
+    minOrderAmount: undefined,
+    maxDiscount: undefined,
+    stackable: false,
+    priority: 0,
     active: true,
     displayOrder: 0,
   })
 
-  const {
-    promotions,
-    addPromotion,
-    updatePromotion,
-    removePromotion,
-    setPromotions,
-  } = useLandingPageStore()
+  const { data: promotions = [] } = usePromotions({ includeInactive: true })
+  const createPromotion = useCreatePromotion()
+  const updatePromotion = useUpdatePromotion()
+  const deletePromotion = useDeletePromotion()
   const { data: categories } = useCategories()
 
   const sortedPromotions = [...promotions].sort(
@@ -76,6 +101,13 @@ export default function PromotionsManagement() {
         image: promotion.image,
         badgeText: promotion.badgeText || '',
         linkedCategoryId: promotion.linkedCategoryId || '',
+        linkedMenuItemIds: promotion.linkedMenuItemIds || [],
+        validFrom: promotion.validFrom,
+        validUntil: promotion.validUntil,
+        minOrderAmount: promotion.minOrderAmount,
+        maxDiscount: promotion.maxDiscount,
+        stackable: promotion.stackable ?? false,
+        priority: promotion.priority ?? 0,
         active: promotion.active,
         displayOrder: promotion.displayOrder,
       })
@@ -89,6 +121,13 @@ export default function PromotionsManagement() {
         image: '',
         badgeText: '',
         linkedCategoryId: '',
+        linkedMenuItemIds: [],
+        validFrom: undefined,
+        validUntil: undefined,
+        minOrderAmount: undefined,
+        maxDiscount: undefined,
+        stackable: false,
+        priority: 0,
         active: true,
         displayOrder: sortedPromotions.length + 1,
       })
@@ -127,58 +166,67 @@ export default function PromotionsManagement() {
       }
     }
 
-    const promotionData: Promotion = {
-      id: editingPromotion?.id || `promo-${Date.now()}`,
+    const promotionData: Omit<Promotion, 'id'> = {
+      ...formData,
       title: formData.title.trim(),
       description: formData.description.trim(),
-      discountType: formData.discountType,
-      discountValue: formData.discountValue,
       image: imageUrl.trim(),
       badgeText: formData.badgeText?.trim() || undefined,
       linkedCategoryId: formData.linkedCategoryId || undefined,
-      active: formData.active,
-      displayOrder: formData.displayOrder,
     }
 
-    if (editingPromotion) {
-      updatePromotion(editingPromotion.id, promotionData)
-      toast.success('Promotion updated successfully')
-    } else {
-      addPromotion(promotionData)
-      toast.success('Promotion added successfully')
+    try {
+      if (editingPromotion) {
+        await updatePromotion.mutateAsync({ id: editingPromotion.id, ...promotionData })
+        toast.success('Promotion updated successfully')
+      } else {
+        await createPromotion.mutateAsync(promotionData)
+        toast.success('Promotion added successfully')
+      }
+      setIsDialogOpen(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save promotion')
     }
-    setIsDialogOpen(false)
   }
 
-  const handleDelete = (id: string) => {
+  const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this promotion?')) {
-      removePromotion(id)
-      toast.success('Promotion deleted successfully')
+      try {
+        await deletePromotion.mutateAsync(id)
+        toast.success('Promotion deleted successfully')
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to delete promotion')
+      }
+    }
+  }
+
+  const swapDisplayOrder = async (a: Promotion, b: Promotion) => {
+    try {
+      await Promise.all([
+        updatePromotion.mutateAsync({ id: a.id, displayOrder: b.displayOrder }),
+        updatePromotion.mutateAsync({ id: b.id, displayOrder: a.displayOrder }),
+      ])
+      toast.success('Promotion order updated')
+    } catch {
+      toast.error('Failed to reorder promotions')
     }
   }
 
   const handleMoveUp = (index: number) => {
     if (index === 0) return
-    const newPromotions = [...sortedPromotions]
-    const temp = newPromotions[index - 1].displayOrder
-    newPromotions[index - 1].displayOrder = newPromotions[index].displayOrder
-    newPromotions[index].displayOrder = temp
-    setPromotions(newPromotions)
-    toast.success('Promotion order updated')
+    swapDisplayOrder(sortedPromotions[index - 1], sortedPromotions[index])
   }
 
   const handleMoveDown = (index: number) => {
     if (index === sortedPromotions.length - 1) return
-    const newPromotions = [...sortedPromotions]
-    const temp = newPromotions[index + 1].displayOrder
-    newPromotions[index + 1].displayOrder = newPromotions[index].displayOrder
-    newPromotions[index].displayOrder = temp
-    setPromotions(newPromotions)
-    toast.success('Promotion order updated')
+    swapDisplayOrder(sortedPromotions[index], sortedPromotions[index + 1])
   }
 
   const toggleActive = (promotion: Promotion) => {
-    updatePromotion(promotion.id, { active: !promotion.active })
+    updatePromotion.mutate(
+      { id: promotion.id, active: !promotion.active },
+      { onError: () => toast.error('Failed to update promotion') }
+    )
   }
 
   const getCategoryName = (categoryId?: string) => {
@@ -374,6 +422,89 @@ export default function PromotionsManagement() {
                 </Select>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="validFrom">Starts</Label>
+                  <Input
+                    id="validFrom"
+                    type="date"
+                    value={toDateInput(formData.validFrom)}
+                    onChange={(e) =>
+                      setFormData({ ...formData, validFrom: fromDateInput(e.target.value) })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="validUntil">Ends</Label>
+                  <Input
+                    id="validUntil"
+                    type="date"
+                    value={toDateInput(formData.validUntil)}
+                    onChange={(e) =>
+                      setFormData({ ...formData, validUntil: fromDateInput(e.target.value, true) })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="minOrderAmount">Minimum Order</Label>
+                  <Input
+                    id="minOrderAmount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.minOrderAmount ?? ''}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        minOrderAmount: e.target.value === '' ? undefined : parseFloat(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxDiscount">Maximum Discount</Label>
+                  <Input
+                    id="maxDiscount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.maxDiscount ?? ''}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        maxDiscount: e.target.value === '' ? undefined : parseFloat(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Priority</Label>
+                  <Input
+                    id="priority"
+                    type="number"
+                    step="1"
+                    value={formData.priority ?? 0}
+                    onChange={(e) =>
+                      setFormData({ ...formData, priority: parseInt(e.target.value, 10) || 0 })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="stackable"
+                  checked={formData.stackable ?? false}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, stackable: checked })
+                  }
+                />
+                <Label htmlFor="stackable">Combine with other stackable promotions</Label>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <Switch
                   id="active"
@@ -440,6 +571,12 @@ export default function PromotionsManagement() {
                     {getCategoryName(promotion.linkedCategoryId)}
                   </Badge>
                 )}
+                {promotion.stackable && <Badge variant="outline">Stackable</Badge>}
+                {promotion.validUntil && (
+                  <Badge variant="outline">
+                    Ends {new Date(promotion.validUntil).toLocaleDateString()}
+                  </Badge>
+                )}
               </div>
 
               <div className="flex items-center gap-2">
@@ -42,107 +42,6 @@ export async function getEmailTransporter() {
   return nodemailer.createTransport(config)
 }
 
-export async function sendOrderConfirmationEmail(
-  to: string,
-  orderDetails: {
-    orderId: string
-    customerName: string
-    items: any[]
-    total: number
-    orderType: string
-    address?: string
-    generatedPassword?: string
-    pickupLocation?: string
-  }
-) {
-  const transporter = await getEmailTransporter()
-
-  if (!transporter) {
-    console.log('Email not configured, skipping email send')
-    return
-  }
-
-  const smtpConfig = await prisma.sMTPConfig.findFirst({
-    where: { enabled: true },
-  })
-
-  const fromEmail = smtpConfig?.fromEmail || process.env.SMTP_FROM_EMAIL || 'noreply@bistrobay.com'
-  const fromName = smtpConfig?.fromName || process.env.SMTP_FROM_NAME || 'Bistro Bay'
-
-  const itemsList = orderDetails.items
-    .map(
-      (item) =>
-        `<li style="margin-bottom: 5px;">
-           <strong>${item.quantity}x</strong> ${item.menuItem.name} 
-           <span style="float: right;">Rs. ${(item.price * item.quantity).toLocaleString()}</span>
-           ${item.specialInstructions ? `<br><small style="color: #666;">Note: ${item.specialInstructions}</small>` : ''}
-         </li>`
-    )
-    .join('')
-
-  const accountSection = orderDetails.generatedPassword 
-    ? `
-      <div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; padding: 15px; border-radius: 8px; margin: 20px 0;">
-        <h3 style="margin-top: 0; color: #166534;">Account Created</h3>
-        <p style="margin-bottom: 5px;">We've created an account for you for faster checkout next time!</p>
-        <p><strong>Email:</strong> ${to}</p>
-        <p><strong>Password:</strong> ${orderDetails.generatedPassword}</p>
-        <p><a href="${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/login" style="color: #166534; text-decoration: underline;">Login here</a> to view your order history.</p>
-      </div>
-    `
-    : ''
-
-  const locationSection = orderDetails.orderType === 'DELIVERY'
-    ? `<p><strong>Delivering To:</strong><br>${orderDetails.address}</p>`
-    : `<p><strong>Pickup Location:</strong><br>${orderDetails.address || orderDetails.pickupLocation || 'Main Branch'}</p>`
-
-  const html = `
-    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
-      <h1>Order Confirmation</h1>
-      <p>Hi ${orderDetails.customerName},</p>
-      <p>Thank you for your order! We've received it and are getting started.</p>
-
-      ${accountSection}
-
-      <div style="background-color: #f9fafb; padding: 15px; border-radius: 8px; margin: 20px 0;">
-        <h2 style="margin-top: 0;">Order Details</h2>
-        <p><strong>Order ID:</strong> ${orderDetails.orderId}</p>
-        <p><strong>Type:</strong> <span style="text-transform: uppercase; font-weight: bold;">${orderDetails.orderType}</span></p>
-        ${locationSection}
-      </div>
-
-      <h3>Receipt</h3>
-      <ul style="list-style: none; padding: 0;">
-        ${itemsList}
-      </ul>
-      
-      <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 15px 0;">
-      
-      <p style="font-size: 1.2em; text-align: right;">
-        <strong>Total: Rs. ${orderDetails.total.toLocaleString()}</strong>
-      </p>
-
-      <p style="color: #666; font-size: 0.9em; margin-top: 30px;">
-        We'll verify your order shortly. If you have any questions, please contact us.
-      </p>
-
-      <p>Thanks,<br>${fromName}</p>
-    </div>
-  `
-
-  try {
-    await transporter.sendMail({
-      from: `"${fromName}" <${fromEmail}>`,
-      to,
-      subject: `Order Confirmation - ${orderDetails.orderId}`,
-      html,
-    })
-    console.log(`Order confirmation email sent to ${to}`)
-  } catch (error) {
-    console.error('Failed to send email:', error)
-  }
-}
-
 // Generic email sender for template-based emails
 export async function sendEmail(params: {
   to: string
@@ -150,6 +49,8 @@ export async function sendEmail(params: {
   template?: string
   data?: Record<string, any>
   html?: string
+  // Attachments with a cid can be shown inline with <img src="cid:...">
+  attachments?: Array<{ filename: string; content: Buffer; contentType?: string; cid?: string }>
 }) {
   const transporter = await getEmailTransporter()
 
@@ -191,6 +92,7 @@ export async function sendEmail(params: {
       to: params.to,
       subject: params.subject,
       html,
+      attachments: params.attachments,
     })
     console.log(`Email sent to ${params.to}: ${params.subject}`)
     return { success: true }
@@ -199,55 +101,3 @@ export async function sendEmail(params: {
     return { success: false, error: String(error) }
   }
 }
-
-export async function sendOrderStatusEmail(
-  to: string,
-  orderDetails: {
-    orderId: string
-    customerName: string
-    status: string
-  }
-) {
-  const transporter = await getEmailTransporter()
-
-  if (!transporter) {
-    console.log('Email not configured, skipping email send')
-    return
-  }
-
-  const smtpConfig = await prisma.sMTPConfig.findFirst({
-    where: { enabled: true },
-  })
-
-  const fromEmail = smtpConfig?.fromEmail || process.env.SMTP_FROM_EMAIL || 'noreply@bistrobay.com'
-  const fromName = smtpConfig?.fromName || process.env.SMTP_FROM_NAME || 'Bistro Bay'
-
-  const statusMessages: { [key: string]: string } = {
-    confirmed: 'Your order has been confirmed and is being prepared.',
-    preparing: 'Your order is being prepared.',
-    ready: 'Your order is ready for pickup!',
-    completed: 'Your order has been completed. Thank you!',
-    cancelled: 'Your order has been cancelled.',
-  }
-
-  const html = `
-    <h1>Order Status Update</h1>
-    <p>Hi ${orderDetails.customerName},</p>
-    <p><strong>Order ID:</strong> ${orderDetails.orderId}</p>
-    <p>${statusMessages[orderDetails.status] || 'Your order status has been updated.'}</p>
-
-    <p>Thanks,<br>The Bistro Bay Team</p>
-  `
-
-  try {
-    await transporter.sendMail({
-      from: `"${fromName}" <${fromEmail}>`,
-      to,
-      subject: `Order Update - ${orderDetails.orderId}`,
-      html,
-    })
-    console.log(`Order status email sent to ${to}`)
-  } catch (error) {
-    console.error('Failed to send email:', error)
-  }
-}
@@ -0,0 +1,54 @@
+/**
+ * Audit Hooks
+ * React hooks for browsing the audit trail
+ */
+
+import useSWR, { mutate } from 'swr'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+export interface AuditLogEntry {
+    id: string
+    userId: string | null
+    userEmail: string | null
+    action: string
+    entityType: string
+    entityId: string | null
+    oldValues: Record<string, unknown> | null
+    newValues: Record<string, unknown> | null
+    ipAddress: string | null
+    userAgent: string | null
+    createdAt: string
+}
+
+export function useAuditLogs(params?: {
+    user?: string
+    entityType?: string
+    entityId?: string
+    action?: string
+    from?: string
+    to?: string
+    page?: number
+    limit?: number
+}) {
+    const searchParams = new URLSearchParams()
+    if (params?.user) searchParams.set('user', params.user)
+    if (params?.entityType) searchParams.set('entityType', params.entityType)
+    if (params?.entityId) searchParams.set('entityId', params.entityId)
+    if (params?.action) searchParams.set('action', params.action)
+    if (params?.from) searchParams.set('from', params.from)
+    if (params?.to) searchParams.set('to', params.to)
+    if (params?.page) searchParams.set('page', params.page.toString())
+    if (params?.limit) searchParams.set('limit', params.limit.toString())
+
+    const url = `/api/audit?${searchParams.toString()}`
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        logs: (data?.logs || []) as AuditLogEntry[],
+        pagination: data?.pagination,
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
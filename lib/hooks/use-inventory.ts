@@ -131,6 +131,97 @@ export async function transferStock(data: {
     return res.json()
 }
 
+// ============================================================================
+// STOCK COUNTS
+// ============================================================================
+
+export function useStockCounts(params?: { locationId?: string; status?: string; page?: number }) {
+    const searchParams = new URLSearchParams()
+    if (params?.locationId) searchParams.set('locationId', params.locationId)
+    if (params?.status) searchParams.set('status', params.status)
+    if (params?.page) searchParams.set('page', params.page.toString())
+
+    const url = `/api/inventory/stock/counts?${searchParams.toString()}`
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        counts: data?.counts || [],
+        pagination: data?.pagination,
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
+/**
+ * The count as a counting device sees it: items only, plus this device's tallies
+ */
+export function useBlindStockCount(id: string, deviceId: string) {
+    const url = id ? `/api/inventory/stock/counts/${id}?deviceId=${encodeURIComponent(deviceId)}` : null
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        stockCount: data?.error ? undefined : data,
+        isLoading,
+        error,
+        refresh: () => url && mutate(url)
+    }
+}
+
+export function useStockCountVariance(id: string) {
+    const url = id ? `/api/inventory/stock/counts/${id}/variance` : null
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        report: data?.error ? undefined : data,
+        isLoading,
+        error
+    }
+}
+
+async function postStockCount(path: string, data?: unknown) {
+    const res = await fetch(`/api/inventory/stock/counts${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data ?? {})
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => typeof key === 'string' && key.includes('/api/inventory'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export function openStockCount(data: {
+    locationId: string
+    storageArea?: string
+    categoryId?: string
+    notes?: string
+}) {
+    return postStockCount('', data)
+}
+
+export function recordStockCountEntries(id: string, data: {
+    deviceId: string
+    counts: Array<{ inventoryItemId: string; quantity: number }>
+}) {
+    return postStockCount(`/${id}/entries`, data)
+}
+
+export function submitStockCount(id: string) {
+    return postStockCount(`/${id}/submit`)
+}
+
+export function requestStockRecount(id: string, inventoryItemIds?: string[]) {
+    return postStockCount(`/${id}/recount`, { inventoryItemIds })
+}
+
+export function approveStockCount(id: string) {
+    return postStockCount(`/${id}/approve`)
+}
+
+export function cancelStockCount(id: string) {
+    return postStockCount(`/${id}/cancel`)
+}
+
 // ============================================================================
 // SUPPLIERS
 // ============================================================================
@@ -182,6 +273,66 @@ export function usePurchaseOrder(id: string) {
     }
 }
 
+/**
+ * What the replenishment engine would order for a location right now
+ */
+export function usePurchaseOrderSuggestions(locationId?: string) {
+    const url = locationId ? `/api/inventory/purchase-orders/suggestions?locationId=${locationId}` : null
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        suppliers: data?.suppliers || [],
+        unsourced: data?.unsourced || [],
+        isLoading,
+        error
+    }
+}
+
+export async function createSuggestedPurchaseOrders(locationId: string) {
+    const res = await fetch('/api/inventory/purchase-orders/suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId })
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => typeof key === 'string' && key.includes('/api/inventory/purchase-orders'), undefined, { revalidate: true })
+    return res.json()
+}
+
+async function postPurchaseOrder(id: string, action: string, data?: unknown) {
+    const res = await fetch(`/api/inventory/purchase-orders/${id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data ?? {})
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => typeof key === 'string' && key.includes('/api/inventory'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export function submitPurchaseOrder(id: string) {
+    return postPurchaseOrder(id, 'submit')
+}
+
+export function approvePurchaseOrder(id: string) {
+    return postPurchaseOrder(id, 'approve')
+}
+
+export function returnPurchaseOrder(id: string) {
+    return postPurchaseOrder(id, 'return')
+}
+
+export function sendPurchaseOrder(id: string, data?: { to?: string; skipEmail?: boolean }) {
+    return postPurchaseOrder(id, 'send', data)
+}
+
+export function receivePurchaseOrder(id: string, data: {
+    receivedItems: Array<{ poItemId: string; receivedQty: number; lotNumber?: string; expiryDate?: string }>
+    notes?: string
+}) {
+    return postPurchaseOrder(id, 'receive', data)
+}
+
 // ============================================================================
 // RECIPES
 // ============================================================================
@@ -85,6 +85,17 @@ export async function updateItemStatus(itemId: string, status: string) {
     return res.json()
 }
 
+export async function sendOrderToKitchen(orderId: string) {
+    const res = await fetch('/api/kitchen/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId })
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/kitchen/orders'), undefined, { revalidate: true })
+    return res.json()
+}
+
 // ============================================================================
 // METRICS
 // ============================================================================
@@ -0,0 +1,44 @@
+/**
+ * Loyalty Hooks
+ * React hooks for a customer's points balance and history
+ */
+
+import useSWR, { mutate } from 'swr'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+export interface LoyaltyTransactionEntry {
+    id: string
+    type: 'EARN' | 'REDEEM' | 'EARN_REVERSAL' | 'REDEEM_REVERSAL' | 'ADJUSTMENT'
+    points: number
+    balanceAfter: number
+    description: string | null
+    createdAt: string
+    order: { id: string; orderNumber: string } | null
+}
+
+export interface CustomerLoyalty {
+    balance: number
+    lifetimePoints: number
+    tier: { id: string; name: string; multiplier: string; benefits: string | null } | null
+    nextTier: { id: string; name: string; pointsNeeded: number } | null
+    program: {
+        enabled: boolean
+        pointValue: number
+        minRedeemPoints: number
+        maxRedeemPercent: number
+    }
+    transactions: LoyaltyTransactionEntry[]
+}
+
+export function useCustomerLoyalty(customerId?: string | null) {
+    const url = customerId ? `/api/customer/loyalty/${customerId}` : null
+    const { data, error, isLoading } = useSWR<CustomerLoyalty>(url, fetcher)
+
+    return {
+        loyalty: data?.program ? data : null,
+        isLoading,
+        error,
+        refresh: () => url && mutate(url)
+    }
+}
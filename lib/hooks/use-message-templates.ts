@@ -0,0 +1,94 @@
+/**
+ * Message Template Hooks
+ * React hooks for editing and previewing notification templates
+ */
+
+import useSWR, { mutate } from 'swr'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+const TEMPLATES_URL = '/api/message-templates'
+
+export type TemplateChannel = 'email' | 'sms' | 'whatsapp' | 'in_app'
+export type TemplateLanguage = 'en' | 'ur'
+
+export interface MessageTemplateOverride {
+    id: string
+    event: string
+    channel: TemplateChannel
+    language: TemplateLanguage
+    subject: string | null
+    body: string
+    isActive: boolean
+    createdAt: string
+    updatedAt: string
+}
+
+export interface MessageTemplateEntry {
+    event: string
+    channel: TemplateChannel
+    language: TemplateLanguage
+    description: string
+    variables: string[]
+    default: { subject: string | null; body: string }
+    custom: MessageTemplateOverride | null
+}
+
+export interface MessageTemplatePreview {
+    subject: string
+    text: string
+    html: string | null
+}
+
+export function useMessageTemplates() {
+    const { data, error, isLoading } = useSWR(TEMPLATES_URL, fetcher)
+
+    return {
+        templates: (Array.isArray(data) ? data : []) as MessageTemplateEntry[],
+        isLoading,
+        error,
+        refresh: () => mutate(TEMPLATES_URL)
+    }
+}
+
+export async function saveMessageTemplate(
+    entry: Pick<MessageTemplateEntry, 'event' | 'channel' | 'language' | 'custom'>,
+    data: { subject: string | null; body: string; isActive: boolean }
+) {
+    const res = entry.custom
+        ? await fetch(`${TEMPLATES_URL}/${entry.custom.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+        })
+        : await fetch(TEMPLATES_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ event: entry.event, channel: entry.channel, language: entry.language, ...data })
+        })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate(TEMPLATES_URL)
+    return res.json() as Promise<MessageTemplateOverride>
+}
+
+export async function resetMessageTemplate(id: string) {
+    const res = await fetch(`${TEMPLATES_URL}/${id}`, { method: 'DELETE' })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate(TEMPLATES_URL)
+}
+
+export async function previewMessageTemplate(data: {
+    event: string
+    channel: TemplateChannel
+    language: TemplateLanguage
+    subject?: string | null
+    body?: string
+}) {
+    const res = await fetch(`${TEMPLATES_URL}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    return res.json() as Promise<MessageTemplatePreview>
+}
@@ -120,8 +120,48 @@ export async function openShift(data: {
     return res.json()
 }
 
+export function useShift(id: string | null) {
+    const url = id ? `/api/pos/shifts/${id}` : null
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        shift: data?.shift || null,
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
+export function useShiftReport(id: string | null, kind: 'X' | 'Z') {
+    const url = id ? `/api/pos/shifts/${id}/${kind.toLowerCase()}-report` : null
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        report: data?.report || null,
+        isLoading,
+        error: error || data?.error,
+        refresh: () => mutate(url)
+    }
+}
+
+export async function recordDrawerEvent(shiftId: string, data: {
+    type: 'PAID_IN' | 'PAID_OUT' | 'DROP' | 'NO_SALE'
+    amount?: number
+    reason?: string
+}) {
+    const res = await fetch(`/api/pos/shifts/${shiftId}/drawer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes(`/api/pos/shifts/${shiftId}`), undefined, { revalidate: true })
+    return res.json()
+}
+
 export async function closeShift(shiftId: string, data: {
-    closingCash: number
+    closingCash?: number
+    denominations?: Array<{ value: number; count: number }>
     notes?: string
 }) {
     const res = await fetch(`/api/pos/shifts/${shiftId}/close`, {
@@ -134,6 +174,17 @@ export async function closeShift(shiftId: string, data: {
     return res.json()
 }
 
+export async function reconcileShift(shiftId: string, data: { notes?: string } = {}) {
+    const res = await fetch(`/api/pos/shifts/${shiftId}/reconcile`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/pos/shifts'), undefined, { revalidate: true })
+    return res.json()
+}
+
 // ============================================================================
 // PAYMENTS
 // ============================================================================
@@ -167,10 +218,12 @@ export async function processPayment(data: {
     paymentMethodId: string
     amount: number
     tipAmount?: number
+    tenderedAmount?: number
     terminalId?: string
     shiftId?: string
     isSplitPayment?: boolean
     splitIndex?: number
+    splitId?: string
 }) {
     const res = await fetch('/api/payments', {
         method: 'POST',
@@ -178,14 +231,42 @@ export async function processPayment(data: {
         body: JSON.stringify(data)
     })
     if (!res.ok) throw new Error((await res.json()).error)
-    mutate((key: string) => key.includes('/api/payments'), undefined, { revalidate: true })
+    mutate((key: string) => key.includes('/api/payments') || key.endsWith('/split'), undefined, { revalidate: true })
     return res.json()
 }
 
+/**
+ * Opens the receipt in a window and prints it; reprints are marked as such
+ */
+export async function printReceipt(orderId: string, options: { reprint?: boolean } = {}) {
+    // Opened before the request so the browser still treats it as a click
+    const receiptWindow = window.open('', '_blank', 'width=480,height=720')
+    if (!receiptWindow) throw new Error('Allow pop-ups to print receipts')
+
+    const res = options.reprint
+        ? await fetch(`/api/orders/${orderId}/receipt/reprint`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type: 'a4', format: 'html' })
+        })
+        : await fetch(`/api/orders/${orderId}/receipt?type=a4&format=html`)
+    if (!res.ok) {
+        receiptWindow.close()
+        throw new Error((await res.json()).error)
+    }
+
+    receiptWindow.document.write(await res.text())
+    receiptWindow.document.close()
+    receiptWindow.focus()
+    receiptWindow.print()
+}
+
 export async function processRefund(transactionId: string, data: {
     amount: number
     reason: string
     refundedBy?: string
+    /** Shift paying the refund out; needed for cash once the original shift has closed */
+    shiftId?: string
 }) {
     const res = await fetch(`/api/payments/${transactionId}/refund`, {
         method: 'POST',
@@ -197,13 +278,38 @@ export async function processRefund(transactionId: string, data: {
     return res.json()
 }
 
-export async function splitOrder(orderId: string, splits: { amount: number; label?: string }[]) {
+export function useOrderSplits(orderId: string | null) {
+    const url = orderId ? `/api/orders/${orderId}/split` : null
+    const { data, error, isLoading } = useSWR(url, fetcher)
+
+    return {
+        order: data?.order || null,
+        splits: data?.order?.splits || [],
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
+export async function splitOrder(orderId: string, data:
+    | { method: 'EVEN'; ways: number }
+    | { method: 'ITEMS'; splits: { label?: string; items: { orderItemId: string; share?: number }[] }[] }
+    | { method: 'SEATS'; seats?: { orderItemId: string; seatNumber: number | null }[] }
+) {
     const res = await fetch(`/api/orders/${orderId}/split`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ splits })
+        body: JSON.stringify(data)
     })
     if (!res.ok) throw new Error((await res.json()).error)
+    mutate(`/api/orders/${orderId}/split`)
+    return res.json()
+}
+
+export async function clearOrderSplits(orderId: string) {
+    const res = await fetch(`/api/orders/${orderId}/split`, { method: 'DELETE' })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate(`/api/orders/${orderId}/split`)
     return res.json()
 }
 
@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Promotion } from '@/lib/types'
+
+type PromotionPayload = Omit<Promotion, 'id'>
+
+// Decimals arrive as strings and dates as ISO strings
+function toPromotion(raw: any): Promotion {
+  return {
+    id: raw.id,
+    title: raw.title,
+    description: raw.description,
+    discountType: raw.discountType,
+    discountValue: Number(raw.discountValue),
+    image: raw.image,
+    badgeText: raw.badgeText ?? undefined,
+    linkedCategoryId: raw.linkedCategoryId ?? undefined,
+    linkedMenuItemIds: raw.linkedMenuItemIds ?? [],
+    validFrom: raw.validFrom ? Date.parse(raw.validFrom) : undefined,
+    validUntil: raw.validUntil ? Date.parse(raw.validUntil) : undefined,
+    minOrderAmount: raw.minOrderAmount != null ? Number(raw.minOrderAmount) : undefined,
+    maxDiscount: raw.maxDiscount != null ? Number(raw.maxDiscount) : undefined,
+    stackable: raw.stackable,
+    priority: raw.priority,
+    active: raw.active,
+    displayOrder: raw.displayOrder,
+  }
+}
+
+// Optional fields left blank are sent as null so an edit can clear them
+const NULLABLE_FIELDS = ['badgeText', 'linkedCategoryId', 'minOrderAmount', 'maxDiscount', 'validFrom', 'validUntil'] as const
+
+function toRequestBody(promotion: Partial<PromotionPayload>) {
+  const body: Record<string, unknown> = { ...promotion }
+  for (const field of NULLABLE_FIELDS) {
+    if (field in body && (body[field] === undefined || body[field] === '')) {
+      body[field] = null
+    }
+  }
+  if (promotion.validFrom) body.validFrom = new Date(promotion.validFrom).toISOString()
+  if (promotion.validUntil) body.validUntil = new Date(promotion.validUntil).toISOString()
+  return JSON.stringify(body)
+}
+
+export function usePromotions(options?: { includeInactive?: boolean }) {
+  const includeInactive = options?.includeInactive ?? false
+  return useQuery<Promotion[]>({
+    queryKey: ['promotions', { includeInactive }],
+    queryFn: async () => {
+      const response = await fetch(`/api/promotions${includeInactive ? '?includeInactive=true' : ''}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch promotions')
+      }
+      const data = await response.json()
+      return data.map(toPromotion)
+    },
+  })
+}
+
+export function useCreatePromotion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (promotion: PromotionPayload) => {
+      const response = await fetch('/api/promotions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: toRequestBody(promotion),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create promotion')
+      }
+
+      return toPromotion(await response.json())
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promotions'] })
+    },
+  })
+}
+
+export function useUpdatePromotion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updateData }: Partial<PromotionPayload> & { id: string }) => {
+      const response = await fetch(`/api/promotions/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: toRequestBody(updateData),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update promotion')
+      }
+
+      return toPromotion(await response.json())
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promotions'] })
+    },
+  })
+}
+
+export function useDeletePromotion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/promotions/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to delete promotion')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promotions'] })
+    },
+  })
+}
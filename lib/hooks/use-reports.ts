@@ -0,0 +1,88 @@
+/**
+ * Report Hooks
+ * React hooks for requesting, listing and sending sales reports
+ */
+
+import useSWR, { mutate } from 'swr'
+
+const fetcher = (url: string) => fetch(url).then(res => res.json())
+
+export interface ReportEntry {
+    id: string
+    type: 'daily-sales' | 'z-report'
+    locationId: string
+    location: { id: string; name: string }
+    businessDate: string
+    format: 'CSV' | 'XLSX' | 'PDF'
+    status: 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED'
+    fileName: string | null
+    summary: Record<string, number> | null
+    error: string | null
+    emailTo: string | null
+    emailedAt: string | null
+    requestedById: string | null
+    createdAt: string
+    completedAt: string | null
+}
+
+export function useReports(params?: {
+    locationId?: string
+    type?: string
+    page?: number
+    limit?: number
+}) {
+    const searchParams = new URLSearchParams()
+    if (params?.locationId) searchParams.set('locationId', params.locationId)
+    if (params?.type) searchParams.set('type', params.type)
+    if (params?.page) searchParams.set('page', params.page.toString())
+    if (params?.limit) searchParams.set('limit', params.limit.toString())
+
+    const url = `/api/reports?${searchParams.toString()}`
+    const { data, error, isLoading } = useSWR(url, fetcher, {
+        // Keep polling while anything on the page is still being generated
+        refreshInterval: (latest) =>
+            (latest?.reports as ReportEntry[] | undefined)?.some(r => r.status === 'PENDING' || r.status === 'PROCESSING')
+                ? 3000
+                : 0
+    })
+
+    return {
+        reports: (data?.reports || []) as ReportEntry[],
+        pagination: data?.pagination,
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
+export async function requestReport(data: {
+    type: ReportEntry['type']
+    locationId: string
+    businessDate: string
+    format: ReportEntry['format']
+    emailTo?: string
+}) {
+    const res = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => typeof key === 'string' && key.startsWith('/api/reports'), undefined, { revalidate: true })
+    return res.json() as Promise<ReportEntry>
+}
+
+export async function emailReport(id: string, to: string) {
+    const res = await fetch(`/api/reports/${id}/email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to })
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => typeof key === 'string' && key.startsWith('/api/reports'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export function getReportDownloadUrl(id: string) {
+    return `/api/reports/${id}/download`
+}
@@ -1,6 +1,6 @@
 /**
  * Reservations Hooks
- * React hooks for reservations and waitlist
+ * React hooks for reservations, guest self-service and waitlist
  */
 
 import useSWR, { mutate } from 'swr'
@@ -54,6 +54,7 @@ export function useAvailability(params: {
     time: string
     partySize: number
     duration?: number
+    preferences?: string[]
 }) {
     const searchParams = new URLSearchParams()
     searchParams.set('locationId', params.locationId)
@@ -61,6 +62,7 @@ export function useAvailability(params: {
     searchParams.set('time', params.time)
     searchParams.set('partySize', params.partySize.toString())
     if (params.duration) searchParams.set('duration', params.duration.toString())
+    if (params.preferences?.length) searchParams.set('preferences', params.preferences.join(','))
 
     const url = `/api/reservations/availability?${searchParams.toString()}`
     const { data, error, isLoading } = useSWR(
@@ -71,12 +73,67 @@ export function useAvailability(params: {
     return {
         available: data?.available || false,
         tables: data?.tables || { available: [], unavailable: [] },
+        options: data?.options || [],
         alternativeSlots: data?.alternativeSlots || [],
+        unavailableReason: data?.unavailableReason as string | null | undefined,
         isLoading,
         error
     }
 }
 
+/**
+ * The day's start times for a party at a location (id or slug), for the
+ * public booking widget
+ */
+export function useReservationSlots(params: {
+    location: string
+    date: string
+    partySize: number
+    preferences?: string[]
+}) {
+    const searchParams = new URLSearchParams()
+    searchParams.set('location', params.location)
+    searchParams.set('date', params.date)
+    searchParams.set('partySize', params.partySize.toString())
+    if (params.preferences?.length) searchParams.set('preferences', params.preferences.join(','))
+
+    const url = `/api/reservations/slots?${searchParams.toString()}`
+    const { data, error, isLoading } = useSWR(params.location && params.date ? url : null, fetcher)
+
+    return {
+        slots: (data?.slots || []) as { time: string; available: boolean }[],
+        closed: data?.closed ?? false,
+        reason: data?.reason as string | null | undefined,
+        hours: data?.hours as { open: string; close: string } | null | undefined,
+        isLoading,
+        error: error || data?.error
+    }
+}
+
+export function useReservationSettings(locationId: string) {
+    const url = `/api/reservations/settings?locationId=${locationId}`
+    const { data, error, isLoading } = useSWR(locationId ? url : null, fetcher)
+
+    return {
+        settings: data?.settings,
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
+export function useHoursExceptions(locationId: string) {
+    const url = `/api/reservations/hours-exceptions?locationId=${locationId}`
+    const { data, error, isLoading } = useSWR(locationId ? url : null, fetcher)
+
+    return {
+        exceptions: data?.exceptions || [],
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
 export async function createReservation(data: {
     locationId: string
     guestName: string
@@ -85,7 +142,11 @@ export async function createReservation(data: {
     partySize: number
     date: string
     startTime: string
+    duration?: number
+    /** Leave out to have the best-fitting free table assigned */
     tableId?: string
+    additionalTableIds?: string[]
+    seatingPreferences?: Array<'outdoor' | 'accessible' | 'private' | 'smoking'>
     specialRequests?: string
 }) {
     const res = await fetch('/api/reservations', {
@@ -128,6 +189,218 @@ export async function cancelReservation(id: string, reason?: string) {
     return res.json()
 }
 
+export async function updateReservationSettings(data: {
+    locationId: string
+    slotInterval: number
+    maxCoversPerSlot: number | null
+    maxPartiesPerSlot: number | null
+    minPartySize: number
+    maxPartySize: number
+    turnTimes: { upTo: number; minutes: number }[]
+    defaultTurnTime: number
+    lastSeatingBeforeClose: number
+    minNoticeMinutes: number
+    changeCutoffMinutes: number
+    reminderLeadMinutes: number
+}) {
+    const res = await fetch('/api/reservations/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export async function setHoursException(data: {
+    locationId: string
+    date: string
+    closed: boolean
+    open?: string | null
+    close?: string | null
+    reason?: string | null
+}) {
+    const res = await fetch('/api/reservations/hours-exceptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export async function deleteHoursException(id: string) {
+    const res = await fetch(`/api/reservations/hours-exceptions/${id}`, { method: 'DELETE' })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+// ============================================================================
+// GUEST SELF-SERVICE
+// ============================================================================
+
+/** A booking as the guest sees it, from the public and customer routes */
+export interface GuestReservation {
+    id: string
+    reservationNumber: string
+    status: string
+    guestName: string
+    partySize: number
+    date: string
+    time: string
+    duration: number
+    seatingPreferences: string[]
+    occasion: string | null
+    specialRequests: string | null
+    location: { id: string; name: string; slug: string; address: string; city: string; phone: string | null }
+    deposit: { amount: number; status: 'PENDING' | 'PAID' | 'APPLIED' | 'REFUNDED' | 'REFUND_PENDING' | 'RETAINED' | null } | null
+    canChange: boolean
+    changeBlockedReason: string | null
+    changeCutoffMinutes: number
+    manageUrl: string | null
+}
+
+export function useCustomerReservations(customerId?: string) {
+    const url = `/api/customer/reservations/${customerId}`
+    const { data, error, isLoading } = useSWR(customerId ? url : null, fetcher)
+
+    return {
+        upcoming: (data?.upcoming || []) as GuestReservation[],
+        past: (data?.past || []) as GuestReservation[],
+        isLoading,
+        error,
+        refresh: () => mutate(url)
+    }
+}
+
+/**
+ * The deposit a party would pay to book online, and how it can be paid
+ */
+export function useDepositQuote(params: { location: string; date: string; partySize: number; occasion?: string }) {
+    const searchParams = new URLSearchParams()
+    searchParams.set('location', params.location)
+    searchParams.set('date', params.date)
+    searchParams.set('partySize', params.partySize.toString())
+    if (params.occasion) searchParams.set('occasion', params.occasion)
+
+    const url = `/api/reservations/deposit?${searchParams.toString()}`
+    const { data, error, isLoading } = useSWR(params.location && params.date ? url : null, fetcher)
+
+    return {
+        deposit: data?.deposit as { amount: number; reasons: string[] } | undefined,
+        paymentMethods: (data?.paymentMethods || []) as { id: string; name: string; type: string }[],
+        isLoading,
+        error: error || data?.error
+    }
+}
+
+export function useManagedReservation(token: string | null) {
+    const url = `/api/reservations/manage/${encodeURIComponent(token || '')}`
+    const { data, error, isLoading } = useSWR(token ? url : null, fetcher)
+
+    return {
+        reservation: data?.reservation as GuestReservation | undefined,
+        isLoading,
+        error: error || data?.error,
+        refresh: () => mutate(url)
+    }
+}
+
+export async function bookReservationOnline(data: {
+    locationId: string
+    customerId?: string
+    guestName: string
+    guestPhone: string
+    guestEmail?: string
+    partySize: number
+    date: string
+    startTime: string
+    seatingPreferences?: Array<'outdoor' | 'accessible' | 'private' | 'smoking'>
+    occasion?: string
+    specialRequests?: string
+    paymentMethodId?: string
+}): Promise<{ reservation: GuestReservation; depositPayment: { pending: boolean; error?: string } | null }> {
+    const res = await fetch('/api/reservations/book', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations') || key.includes('/api/customer/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export async function rescheduleManagedReservation(token: string, data: {
+    date: string
+    startTime: string
+    partySize: number
+}): Promise<{ reservation: GuestReservation }> {
+    const res = await fetch(`/api/reservations/manage/${encodeURIComponent(token)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations') || key.includes('/api/customer/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export async function cancelManagedReservation(token: string, reason?: string): Promise<{ reservation: GuestReservation }> {
+    const res = await fetch(`/api/reservations/manage/${encodeURIComponent(token)}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations') || key.includes('/api/customer/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+// ============================================================================
+// DEPOSITS
+// ============================================================================
+
+export async function collectReservationDeposit(id: string, data: {
+    paymentMethodId: string
+    shiftId?: string
+    terminalId?: string
+}) {
+    const res = await fetch(`/api/reservations/${id}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    const body = await res.json()
+    if (!res.ok && !body.payment) throw new Error(body.error)
+    mutate((key: string) => key.includes('/api/reservations'), undefined, { revalidate: true })
+    return body
+}
+
+export async function applyReservationDeposit(id: string, orderId: string) {
+    const res = await fetch(`/api/reservations/${id}/deposit/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId })
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
+export async function refundReservationDeposit(id: string, data: { reason: string; shiftId?: string }) {
+    const res = await fetch(`/api/reservations/${id}/deposit/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    mutate((key: string) => key.includes('/api/reservations'), undefined, { revalidate: true })
+    return res.json()
+}
+
 // ============================================================================
 // WAITLIST
 // ============================================================================
@@ -1,6 +1,6 @@
 /**
  * Tables Hooks
- * React hooks for table management
+ * React hooks for table management, floor plans and the live floor
  */
 
 import useSWR, { mutate } from 'swr'
@@ -90,6 +90,114 @@ export async function separateTables(tableId: string) {
     return res.json()
 }
 
+// ============================================================================
+// FLOOR PLAN
+// ============================================================================
+
+export type TableShape = 'RECTANGLE' | 'CIRCLE' | 'SQUARE' | 'OVAL'
+
+export interface FloorPlan {
+    width: number
+    height: number
+    gridSize: number
+}
+
+export interface FloorPlanTable {
+    id: string
+    tableNumber: string
+    maxSeats: number
+    positionX: number
+    positionY: number
+    width: number
+    height: number
+    rotation: number
+    shape: TableShape
+    /** False until the table has been placed and saved */
+    positioned: boolean
+}
+
+export function useAreaFloorPlan(areaId: string) {
+    const url = `/api/areas/${areaId}/floor-plan`
+    const { data, error, isLoading } = useSWR(areaId ? url : null, fetcher)
+
+    return {
+        plan: data?.plan as FloorPlan | undefined,
+        tables: (data?.tables || []) as FloorPlanTable[],
+        isLoading,
+        error: error || data?.error,
+        refresh: () => mutate(url)
+    }
+}
+
+export async function saveFloorPlan(
+    areaId: string,
+    input: { plan: FloorPlan; tables: Omit<FloorPlanTable, 'tableNumber' | 'maxSeats' | 'positioned'>[] }
+) {
+    const res = await fetch(`/api/areas/${areaId}/floor-plan`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+    })
+    if (!res.ok) throw new Error((await res.json()).error)
+    const saved = await res.json()
+    mutate(`/api/areas/${areaId}/floor-plan`, saved, { revalidate: false })
+    mutate((key: string) => typeof key === 'string' && (key.includes('/api/tables') || key.includes('/api/areas')), undefined, { revalidate: true })
+    return saved
+}
+
+// ============================================================================
+// LIVE FLOOR
+// ============================================================================
+
+export interface FloorReservation {
+    id: string
+    reservationNumber: string
+    guestName: string
+    partySize: number
+    time: string
+    /** Negative once the start has passed */
+    minutesToStart: number
+    status: string
+    tableIds: string[]
+}
+
+export interface LiveFloorTable extends FloorPlanTable {
+    areaId: string
+    minSeats: number
+    status: string
+    combinedWith: string[]
+    order: { id: string; orderNumber: string; status: string; total: number; paidAmount: number; count: number } | null
+    seatedAt: string | null
+    seatedMinutes: number | null
+    upcoming: FloorReservation[]
+}
+
+export interface LiveFloorArea {
+    id: string
+    name: string
+    plan: FloorPlan
+    tables: LiveFloorTable[]
+}
+
+export function useLiveFloor(locationId?: string, lookaheadMinutes?: number) {
+    const searchParams = new URLSearchParams()
+    if (locationId) searchParams.set('locationId', locationId)
+    if (lookaheadMinutes) searchParams.set('lookahead', lookaheadMinutes.toString())
+
+    const url = `/api/tables/floor?${searchParams.toString()}`
+    const { data, error, isLoading } = useSWR(locationId ? url : null, fetcher, {
+        refreshInterval: 30000 // Keeps times seated moving between live updates
+    })
+
+    return {
+        areas: (data?.areas || []) as LiveFloorArea[],
+        unassigned: (data?.unassigned || []) as FloorReservation[],
+        isLoading,
+        error: error || data?.error,
+        refresh: () => mutate(url)
+    }
+}
+
 // ============================================================================
 // UTILITY
 // ============================================================================
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { allocateLots, explodeRecipes, planStockReturns } from '../deduction'
+
+describe('explodeRecipes', () => {
+  const recipes = [
+    {
+      menuItemId: 'burger',
+      yieldQty: '1',
+      items: [
+        { inventoryItemId: 'patty', quantity: '1', wastagePercent: '0' },
+        { inventoryItemId: 'lettuce', quantity: '0.05', wastagePercent: '10' },
+      ],
+    },
+    {
+      menuItemId: 'soup',
+      yieldQty: '4',
+      items: [{ inventoryItemId: 'lettuce', quantity: '0.2', wastagePercent: '0' }],
+    },
+  ]
+
+  it('scales ingredients by quantity sold, yield and wastage', () => {
+    const usage = explodeRecipes(
+      [
+        { menuItemId: 'burger', quantity: 2 },
+        { menuItemId: 'soup', quantity: 2 },
+      ],
+      recipes
+    )
+    expect(usage.get('patty')).toBe(2)
+    // 2 × 0.05 × 1.1 + 2 × 0.2 / 4
+    expect(usage.get('lettuce')).toBe(0.21)
+  })
+
+  it('ignores items without a recipe', () => {
+    expect(explodeRecipes([{ menuItemId: 'water', quantity: 3 }], recipes).size).toBe(0)
+  })
+})
+
+describe('allocateLots', () => {
+  const received = (day: number) => new Date(`2026-01-${String(day).padStart(2, '0')}T00:00:00Z`)
+
+  it('consumes the earliest-expiring lot first, then the oldest undated lot', () => {
+    const lots = [
+      { id: 'undated', remainingQty: '5', expiryDate: null, receivedDate: received(1) },
+      { id: 'late', remainingQty: '2', expiryDate: received(20), receivedDate: received(2) },
+      { id: 'soon', remainingQty: '1.5', expiryDate: received(10), receivedDate: received(5) },
+    ]
+    expect(allocateLots(lots, 4)).toEqual({
+      allocations: [
+        { lotId: 'soon', quantity: 1.5 },
+        { lotId: 'late', quantity: 2 },
+        { lotId: 'undated', quantity: 0.5 },
+      ],
+      shortfall: 0,
+    })
+  })
+
+  it('reports what the lots cannot cover', () => {
+    const lots = [{ id: 'a', remainingQty: '1', expiryDate: null, receivedDate: received(1) }]
+    expect(allocateLots(lots, 1.25)).toEqual({ allocations: [{ lotId: 'a', quantity: 1 }], shortfall: 0.25 })
+  })
+})
+
+describe('planStockReturns', () => {
+  it('returns sales net of earlier returns per item and lot', () => {
+    const sales = [
+      { inventoryItemId: 'patty', lotId: 'lot-1', quantity: '-2' },
+      { inventoryItemId: 'patty', lotId: null, quantity: '-1' },
+      { inventoryItemId: 'lettuce', lotId: null, quantity: '-0.21' },
+    ]
+    const returns = [{ inventoryItemId: 'lettuce', lotId: null, quantity: '0.21' }]
+
+    expect(planStockReturns(sales, returns)).toEqual([
+      { inventoryItemId: 'patty', lotId: 'lot-1', quantity: 2 },
+      { inventoryItemId: 'patty', lotId: null, quantity: 1 },
+    ])
+  })
+})
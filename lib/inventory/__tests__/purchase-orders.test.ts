@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canApproveTotal,
+  canTransitionPurchaseOrder,
+  planReceipt,
+  resolveApprovalLimit,
+  toPurchaseOrderDocument,
+} from '../purchase-orders'
+
+describe('canTransitionPurchaseOrder', () => {
+  it('follows draft, pending, approved, sent, received', () => {
+    expect(canTransitionPurchaseOrder('DRAFT', 'PENDING')).toBe(true)
+    expect(canTransitionPurchaseOrder('PENDING', 'APPROVED')).toBe(true)
+    expect(canTransitionPurchaseOrder('APPROVED', 'SENT')).toBe(true)
+    expect(canTransitionPurchaseOrder('SENT', 'PARTIAL')).toBe(true)
+    expect(canTransitionPurchaseOrder('PARTIAL', 'RECEIVED')).toBe(true)
+  })
+
+  it('does not skip approval or cancel once goods arrive', () => {
+    expect(canTransitionPurchaseOrder('DRAFT', 'APPROVED')).toBe(false)
+    expect(canTransitionPurchaseOrder('PENDING', 'SENT')).toBe(false)
+    expect(canTransitionPurchaseOrder('PARTIAL', 'CANCELLED')).toBe(false)
+    expect(canTransitionPurchaseOrder('RECEIVED', 'CANCELLED')).toBe(false)
+  })
+})
+
+describe('approval limits', () => {
+  it('uses role defaults unless overridden', () => {
+    expect(resolveApprovalLimit('ADMIN')).toBeNull()
+    expect(resolveApprovalLimit('CASHIER')).toBe(0)
+    expect(resolveApprovalLimit('MANAGER', [{ role: 'MANAGER', maxTotal: '1000.00' }])).toBe(1000)
+    expect(resolveApprovalLimit('INVENTORY', [{ role: 'INVENTORY', maxTotal: null }])).toBeNull()
+  })
+
+  it('allows totals up to the limit', () => {
+    expect(canApproveTotal('1000.00', 1000)).toBe(true)
+    expect(canApproveTotal('1000.01', 1000)).toBe(false)
+    expect(canApproveTotal(1e9, null)).toBe(true)
+  })
+})
+
+describe('planReceipt', () => {
+  const items = [
+    { id: 'flour', quantity: '10', receivedQty: '4' },
+    { id: 'oil', quantity: '5', receivedQty: '0' },
+  ]
+
+  it('tracks what is outstanding and stays partial until everything arrives', () => {
+    const plan = planReceipt(items, [{ poItemId: 'flour', receivedQty: 6 }])
+    expect(plan.lines).toEqual([{ poItemId: 'flour', receivedQty: 6, totalReceived: 10, outstandingQty: 0 }])
+    expect(plan.status).toBe('PARTIAL')
+
+    expect(planReceipt(items, [
+      { poItemId: 'flour', receivedQty: 6 },
+      { poItemId: 'oil', receivedQty: 5 },
+    ]).status).toBe('RECEIVED')
+  })
+
+  it('refuses the whole delivery when a line is over-received or unknown', () => {
+    expect(() => planReceipt(items, [{ poItemId: 'flour', receivedQty: 7 }])).toThrow('Cannot receive more than ordered')
+    expect(() => planReceipt(items, [
+      { poItemId: 'flour', receivedQty: 3 },
+      { poItemId: 'flour', receivedQty: 4 },
+    ])).toThrow('Cannot receive more than ordered')
+    expect(() => planReceipt(items, [{ poItemId: 'salt', receivedQty: 1 }])).toThrow('Purchase order item not found')
+  })
+})
+
+describe('toPurchaseOrderDocument', () => {
+  it('lists items and totals for the supplier', () => {
+    const doc = toPurchaseOrderDocument({
+      poNumber: 'PO-KHI-2026-0001',
+      createdAt: new Date('2026-10-01T09:00:00Z'),
+      expectedDate: new Date('2026-10-04T00:00:00Z'),
+      notes: null,
+      subtotal: '1500',
+      taxAmount: '0',
+      discountAmount: '0',
+      total: '1500',
+      supplier: { name: 'Mill Co', code: 'MILL', contactName: 'Asif', phone: null, email: 'orders@mill.test' },
+      location: { name: 'Clifton', address: '12 Main Rd', city: 'Karachi' },
+      items: [{
+        quantity: '10',
+        unitPrice: '150',
+        totalPrice: '1500',
+        inventoryItem: { sku: 'FLR-01', name: 'Flour', unitOfMeasure: 'kg' },
+      }],
+    })
+
+    expect(doc.subtitle).toBe('Issued 2026-10-01, delivery expected 2026-10-04')
+    expect(doc.tables[0].rows).toContainEqual(['Deliver to', 'Clifton, 12 Main Rd, Karachi'])
+    expect(doc.tables[1].rows).toEqual([['FLR-01', 'Flour', 10, 'kg', 'Rs. 150.00', 'Rs. 1500.00']])
+    expect(doc.tables[2].rows).toEqual([['Subtotal', 'Rs. 1500.00'], ['Total', 'Rs. 1500.00']])
+  })
+})
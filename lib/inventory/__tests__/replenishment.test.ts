@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { chooseSupplier, planOrderQuantity, planReplenishment, type StockPosition } from '../replenishment'
+
+const supplier = (supplierId: string, unitPrice: number, extra: Partial<StockPosition['suppliers'][number]> = {}) => ({
+  supplierId, unitPrice, minimumOrder: null, leadTimeDays: 2, isPreferred: false, ...extra,
+})
+
+const position = (overrides: Partial<StockPosition> = {}): StockPosition => ({
+  inventoryItemId: 'flour',
+  currentStock: '20',
+  onOrder: 0,
+  dailyUsage: 5,
+  reorderPoint: '15',
+  reorderQuantity: null,
+  maximumStock: null,
+  preferredSupplierId: null,
+  suppliers: [supplier('mill', 100)],
+  ...overrides,
+})
+
+describe('chooseSupplier', () => {
+  it('prefers the item preferred supplier, then a flagged one, then the cheapest', () => {
+    const suppliers = [supplier('a', 90), supplier('b', 80), supplier('c', 120, { isPreferred: true })]
+    expect(chooseSupplier({ preferredSupplierId: 'a', suppliers })?.supplierId).toBe('a')
+    expect(chooseSupplier({ preferredSupplierId: 'gone', suppliers })?.supplierId).toBe('c')
+    expect(chooseSupplier({ preferredSupplierId: null, suppliers: suppliers.slice(0, 2) })?.supplierId).toBe('b')
+  })
+})
+
+describe('planOrderQuantity', () => {
+  it('orders nothing while the projected stock stays above the reorder point', () => {
+    expect(planOrderQuantity(position({ dailyUsage: 1 }), supplier('mill', 100)).quantity).toBe(0)
+  })
+
+  it('forecasts usage over the lead time and counts open orders', () => {
+    // 20 on hand - 5/day × 2 days = 10, below 15
+    const plan = planOrderQuantity(position(), supplier('mill', 100))
+    expect(plan).toMatchObject({ projectedStock: 10, forecastUsage: 10 })
+    // Covers the reorder point plus another lead time of usage
+    expect(plan.quantity).toBe(15)
+
+    expect(planOrderQuantity(position({ onOrder: 10 }), supplier('mill', 100)).quantity).toBe(0)
+  })
+
+  it('tops up to maximum stock or orders whole reorder quantities', () => {
+    expect(planOrderQuantity(position({ maximumStock: '50' }), supplier('mill', 100)).quantity).toBe(40)
+    expect(planOrderQuantity(position({ reorderQuantity: '4' }), supplier('mill', 100)).quantity).toBe(8)
+  })
+
+  it('respects the supplier minimum order', () => {
+    expect(planOrderQuantity(position(), supplier('mill', 100, { minimumOrder: '25' })).quantity).toBe(25)
+  })
+})
+
+describe('planReplenishment', () => {
+  it('groups lines by supplier and reports items nobody supplies', () => {
+    const plan = planReplenishment([
+      position(),
+      position({ inventoryItemId: 'yeast', suppliers: [supplier('mill', 40, { leadTimeDays: 5 })] }),
+      position({ inventoryItemId: 'oil', suppliers: [supplier('press', 300)] }),
+      position({ inventoryItemId: 'salt', suppliers: [] }),
+    ])
+
+    expect(plan.suppliers).toHaveLength(2)
+    const mill = plan.suppliers.find(s => s.supplierId === 'mill')!
+    expect(mill.lines.map(l => l.inventoryItemId)).toEqual(['flour', 'yeast'])
+    expect(mill.leadTimeDays).toBe(5)
+    expect(mill.subtotal).toBe(15 * 100 + mill.lines[1].quantity * 40)
+    expect(plan.unsourced).toEqual(['salt'])
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { buildVarianceReport } from '../stock-count'
+
+const item = (sku: string) => ({ sku, name: sku, unitOfMeasure: 'kg' })
+
+describe('buildVarianceReport', () => {
+  const lines = [
+    { inventoryItemId: 'rice', expectedQty: '10', unitCost: '250', inventoryItem: item('RICE') },
+    { inventoryItemId: 'oil', expectedQty: '4', unitCost: '600', inventoryItem: item('OIL') },
+    { inventoryItemId: 'salt', expectedQty: '2', unitCost: '50', inventoryItem: item('SALT') },
+    { inventoryItemId: 'sugar', expectedQty: '1', unitCost: '180', inventoryItem: item('SUGAR') },
+  ]
+
+  const entries = [
+    { inventoryItemId: 'rice', deviceId: 'tablet-1', quantity: '6' },
+    { inventoryItemId: 'rice', deviceId: 'tablet-2', quantity: '3.5' },
+    { inventoryItemId: 'oil', deviceId: 'tablet-1', quantity: '5' },
+    { inventoryItemId: 'salt', deviceId: 'tablet-2', quantity: '2' },
+  ]
+
+  it('sums tallies across devices and values the variance at cost', () => {
+    const report = buildVarianceReport(lines, entries)
+    const rice = report.lines.find(line => line.inventoryItemId === 'rice')
+
+    expect(rice).toMatchObject({ countedQty: 9.5, variance: -0.5, varianceValue: -125, devices: 2 })
+    expect(report.shortageValue).toBe(125)
+    expect(report.surplusValue).toBe(600)
+    expect(report.netVarianceValue).toBe(475)
+    expect(report.itemsWithVariance).toBe(2)
+  })
+
+  it('leaves uncounted items without a variance', () => {
+    const report = buildVarianceReport(lines, entries)
+
+    expect(report.countedItems).toBe(3)
+    expect(report.uncountedItems).toBe(1)
+    expect(report.lines.find(line => line.inventoryItemId === 'sugar')).toMatchObject({
+      countedQty: null, variance: null, varianceValue: null, devices: 0,
+    })
+  })
+
+  it('lists the largest losses first', () => {
+    const report = buildVarianceReport(lines, entries)
+    expect(report.lines[0].inventoryItemId).toBe('rice')
+    expect(report.lines[report.lines.length - 1].inventoryItemId).toBe('oil')
+  })
+})
@@ -0,0 +1,321 @@
+/**
+ * Stock Deduction Service
+ * Consumes ingredients for completed orders and returns them on cancellation
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma } from '@prisma/client'
+import {
+    allocateLots,
+    explodeRecipes,
+    planStockReturns,
+    roundQuantity,
+} from './deduction'
+import { lockLocationStock } from './stock-levels.service'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StockDeductionResult {
+    orderId: string
+    locationId: string
+    movementIds: string[]
+    /** Inventory items whose stock changed */
+    inventoryItemIds: string[]
+    /** Ingredient quantities sold without stock on hand to cover them */
+    shortfalls: Array<{ inventoryItemId: string; quantity: number }>
+    /** True when the order had already been processed */
+    skipped: boolean
+}
+
+interface MovementLine {
+    lotId: string | null
+    quantity: number
+    unitCost: number
+}
+
+export const ORDER_REFERENCE_TYPE = 'ORDER'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateMovementNumber(): string {
+    const date = new Date()
+    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '')
+    const random = Math.random().toString(36).substring(2, 8).toUpperCase()
+    return `MOV-${dateStr}-${random}`
+}
+
+/**
+ * Writes one movement per line for an item at a location, keeping the running
+ * previous/new stock, then syncs LocationStock and the item's global stock.
+ */
+async function recordMovements(
+    tx: Prisma.TransactionClient,
+    input: {
+        orderId: string
+        orderNumber: string
+        locationId: string
+        inventoryItemId: string
+        movementType: 'SALE' | 'RETURN'
+        performedById: string
+        lines: MovementLine[]
+    }
+): Promise<string[]> {
+    const { locationId, inventoryItemId } = input
+
+    let stock = await lockLocationStock(tx, locationId, inventoryItemId)
+    const movementIds: string[] = []
+
+    for (const line of input.lines) {
+        const newStock = roundQuantity(stock + line.quantity)
+        const movement = await tx.stockMovement.create({
+            data: {
+                movementNumber: generateMovementNumber(),
+                inventoryItemId,
+                locationId,
+                lotId: line.lotId,
+                movementType: input.movementType,
+                quantity: line.quantity,
+                previousStock: stock,
+                newStock,
+                unitCost: line.unitCost,
+                totalCost: Math.abs(line.quantity) * line.unitCost,
+                referenceType: ORDER_REFERENCE_TYPE,
+                referenceId: input.orderId,
+                reason: input.movementType === 'SALE'
+                    ? `Order #${input.orderNumber}`
+                    : `Order #${input.orderNumber} refunded`,
+                performedById: input.performedById
+            }
+        })
+        movementIds.push(movement.id)
+        stock = newStock
+    }
+
+    await tx.locationStock.update({
+        where: { locationId_inventoryItemId: { locationId, inventoryItemId } },
+        data: { currentStock: stock }
+    })
+
+    const allLocationStock = await tx.locationStock.aggregate({
+        where: { inventoryItemId },
+        _sum: { currentStock: true }
+    })
+
+    await tx.inventoryItem.update({
+        where: { id: inventoryItemId },
+        data: { currentStock: allLocationStock._sum.currentStock || 0 }
+    })
+
+    return movementIds
+}
+
+// ============================================================================
+// DEDUCTION
+// ============================================================================
+
+/**
+ * Explodes the order's items through their recipes and deducts the
+ * ingredients from the order's location. Lot-tracked items draw from their
+ * lots first-expiry-first-out, then first-in-first-out. Runs once per order:
+ * an order that already has SALE movements is skipped.
+ */
+export async function deductOrderStock(orderId: string, performedById: string): Promise<StockDeductionResult> {
+    return prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            include: {
+                orderItems: {
+                    where: { status: { not: 'cancelled' } },
+                    select: { menuItemId: true, quantity: true }
+                }
+            }
+        })
+
+        if (!order) {
+            throw new Error('Order not found')
+        }
+
+        const alreadyDeducted = await tx.stockMovement.count({
+            where: { referenceType: ORDER_REFERENCE_TYPE, referenceId: orderId, movementType: 'SALE' }
+        })
+
+        if (alreadyDeducted > 0) {
+            return { orderId, locationId: order.locationId, movementIds: [], inventoryItemIds: [], shortfalls: [], skipped: true }
+        }
+
+        const recipes = await tx.recipe.findMany({
+            where: { menuItemId: { in: order.orderItems.map(item => item.menuItemId) } },
+            include: { items: true }
+        })
+
+        const usage = explodeRecipes(order.orderItems, recipes)
+        const inventoryItems = await tx.inventoryItem.findMany({
+            where: { id: { in: [...usage.keys()] } },
+            select: { id: true, costPrice: true, trackLots: true }
+        })
+
+        const movementIds: string[] = []
+        const shortfalls: StockDeductionResult['shortfalls'] = []
+
+        for (const item of inventoryItems) {
+            const quantity = usage.get(item.id) ?? 0
+            if (quantity <= 0) continue
+
+            const lines: MovementLine[] = []
+            let unallocated = quantity
+
+            if (item.trackLots) {
+                const lots = await tx.inventoryLot.findMany({
+                    where: {
+                        inventoryItemId: item.id,
+                        locationId: order.locationId,
+                        status: 'AVAILABLE',
+                        remainingQty: { gt: 0 }
+                    }
+                })
+
+                const lotsById = new Map(lots.map(lot => [lot.id, lot]))
+                const plan = allocateLots(lots, quantity)
+                for (const allocation of plan.allocations) {
+                    const lot = lotsById.get(allocation.lotId)
+                    if (!lot) continue
+                    const remainingQty = roundQuantity(Number(lot.remainingQty) - allocation.quantity)
+
+                    await tx.inventoryLot.update({
+                        where: { id: lot.id },
+                        data: {
+                            remainingQty,
+                            status: remainingQty <= 0 ? 'CONSUMED' : lot.status
+                        }
+                    })
+                    lines.push({ lotId: lot.id, quantity: -allocation.quantity, unitCost: Number(lot.costPrice) })
+                }
+                unallocated = plan.shortfall
+            }
+
+            if (unallocated > 0) {
+                lines.push({ lotId: null, quantity: -unallocated, unitCost: Number(item.costPrice) })
+            }
+
+            const ids = await recordMovements(tx, {
+                orderId,
+                orderNumber: order.orderNumber,
+                locationId: order.locationId,
+                inventoryItemId: item.id,
+                movementType: 'SALE',
+                performedById,
+                lines
+            })
+            movementIds.push(...ids)
+
+            const stock = await tx.locationStock.findUnique({
+                where: { locationId_inventoryItemId: { locationId: order.locationId, inventoryItemId: item.id } },
+                select: { currentStock: true }
+            })
+            if (stock && Number(stock.currentStock) < 0) {
+                shortfalls.push({ inventoryItemId: item.id, quantity: -Number(stock.currentStock) })
+            }
+        }
+
+        return {
+            orderId,
+            locationId: order.locationId,
+            movementIds,
+            inventoryItemIds: inventoryItems.map(item => item.id),
+            shortfalls,
+            skipped: false
+        }
+    })
+}
+
+// ============================================================================
+// REVERSAL
+// ============================================================================
+
+/**
+ * Returns everything an order consumed back to stock with RETURN movements,
+ * restoring lot quantities. Only what has not been returned yet is reversed,
+ * so repeated calls are harmless.
+ */
+export async function reverseOrderStock(orderId: string, performedById: string): Promise<StockDeductionResult> {
+    return prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            select: { id: true, orderNumber: true, locationId: true }
+        })
+
+        if (!order) {
+            throw new Error('Order not found')
+        }
+
+        const movements = await tx.stockMovement.findMany({
+            where: {
+                referenceType: ORDER_REFERENCE_TYPE,
+                referenceId: orderId,
+                movementType: { in: ['SALE', 'RETURN'] }
+            },
+            select: { inventoryItemId: true, lotId: true, quantity: true, unitCost: true, movementType: true }
+        })
+
+        const returns = planStockReturns(
+            movements.filter(m => m.movementType === 'SALE'),
+            movements.filter(m => m.movementType === 'RETURN')
+        )
+
+        if (returns.length === 0) {
+            return { orderId, locationId: order.locationId, movementIds: [], inventoryItemIds: [], shortfalls: [], skipped: true }
+        }
+
+        const byItem = new Map<string, MovementLine[]>()
+        for (const entry of returns) {
+            const sale = movements.find(m =>
+                m.movementType === 'SALE' && m.inventoryItemId === entry.inventoryItemId && m.lotId === entry.lotId
+            )
+
+            if (entry.lotId) {
+                const lot = await tx.inventoryLot.findUnique({
+                    where: { id: entry.lotId },
+                    select: { status: true }
+                })
+                await tx.inventoryLot.update({
+                    where: { id: entry.lotId },
+                    data: {
+                        remainingQty: { increment: entry.quantity },
+                        // Expired or recalled lots keep their status
+                        status: lot?.status === 'CONSUMED' ? 'AVAILABLE' : lot?.status
+                    }
+                })
+            }
+
+            const lines = byItem.get(entry.inventoryItemId) ?? []
+            lines.push({ lotId: entry.lotId, quantity: entry.quantity, unitCost: Number(sale?.unitCost ?? 0) })
+            byItem.set(entry.inventoryItemId, lines)
+        }
+
+        const movementIds: string[] = []
+        for (const [inventoryItemId, lines] of byItem) {
+            movementIds.push(...await recordMovements(tx, {
+                orderId,
+                orderNumber: order.orderNumber,
+                locationId: order.locationId,
+                inventoryItemId,
+                movementType: 'RETURN',
+                performedById,
+                lines
+            }))
+        }
+
+        return {
+            orderId,
+            locationId: order.locationId,
+            movementIds,
+            inventoryItemIds: [...byItem.keys()],
+            shortfalls: [],
+            skipped: false
+        }
+    })
+}
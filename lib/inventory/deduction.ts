@@ -0,0 +1,171 @@
+/**
+ * Stock Deduction Planning
+ * Pure helpers that turn sold order items into ingredient usage and lot draws
+ */
+
+import { toNumber, type Numeric } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RecipeForDeduction {
+    menuItemId: string
+    yieldQty: Numeric
+    items: Array<{
+        inventoryItemId: string
+        quantity: Numeric
+        wastagePercent: Numeric
+    }>
+}
+
+export interface SoldItem {
+    menuItemId: string
+    quantity: number
+}
+
+export interface LotForAllocation {
+    id: string
+    remainingQty: Numeric
+    expiryDate: Date | null
+    receivedDate: Date
+}
+
+export interface LotAllocation {
+    lotId: string
+    quantity: number
+}
+
+export interface LotAllocationPlan {
+    allocations: LotAllocation[]
+    /** Quantity that no lot could cover */
+    shortfall: number
+}
+
+export interface RecordedMovement {
+    inventoryItemId: string
+    lotId: string | null
+    quantity: Numeric
+}
+
+export interface StockReturn {
+    inventoryItemId: string
+    lotId: string | null
+    quantity: number
+}
+
+// Stock quantities are stored as Decimal(10, 3)
+const QUANTITY_PRECISION = 1000
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function roundQuantity(value: number): number {
+    return Math.round(value * QUANTITY_PRECISION) / QUANTITY_PRECISION
+}
+
+// ============================================================================
+// RECIPE EXPLOSION
+// ============================================================================
+
+/**
+ * Ingredient usage for the sold items, keyed by inventory item. Recipe
+ * quantities are per `yieldQty` portions and grossed up by `wastagePercent`.
+ * Menu items without a recipe consume nothing.
+ */
+export function explodeRecipes(items: SoldItem[], recipes: RecipeForDeduction[]): Map<string, number> {
+    const byMenuItem = new Map(recipes.map(r => [r.menuItemId, r]))
+    const usage = new Map<string, number>()
+
+    for (const item of items) {
+        const recipe = byMenuItem.get(item.menuItemId)
+        if (!recipe || item.quantity <= 0) continue
+
+        const yieldQty = toNumber(recipe.yieldQty) || 1
+        for (const ingredient of recipe.items) {
+            const perPortion = toNumber(ingredient.quantity) / yieldQty
+            const withWastage = perPortion * (1 + toNumber(ingredient.wastagePercent) / 100)
+            const total = withWastage * item.quantity
+
+            usage.set(ingredient.inventoryItemId, (usage.get(ingredient.inventoryItemId) ?? 0) + total)
+        }
+    }
+
+    for (const [inventoryItemId, quantity] of usage) {
+        usage.set(inventoryItemId, roundQuantity(quantity))
+    }
+    return usage
+}
+
+// ============================================================================
+// LOT ALLOCATION
+// ============================================================================
+
+/**
+ * Orders lots for consumption: first-expiry-first-out for lots with an expiry
+ * date, then first-in-first-out by received date for the rest.
+ */
+export function sortLotsForConsumption<T extends LotForAllocation>(lots: T[]): T[] {
+    return [...lots].sort((a, b) => {
+        if (a.expiryDate && b.expiryDate) {
+            const diff = a.expiryDate.getTime() - b.expiryDate.getTime()
+            if (diff !== 0) return diff
+        } else if (a.expiryDate) {
+            return -1
+        } else if (b.expiryDate) {
+            return 1
+        }
+        return a.receivedDate.getTime() - b.receivedDate.getTime()
+    })
+}
+
+/**
+ * Draws the quantity from lots in FEFO/FIFO order. Whatever the lots cannot
+ * cover is reported as a shortfall rather than failing the sale.
+ */
+export function allocateLots(lots: LotForAllocation[], quantity: number): LotAllocationPlan {
+    const allocations: LotAllocation[] = []
+    let remaining = roundQuantity(quantity)
+
+    for (const lot of sortLotsForConsumption(lots)) {
+        if (remaining <= 0) break
+
+        const available = roundQuantity(toNumber(lot.remainingQty))
+        if (available <= 0) continue
+
+        const take = Math.min(available, remaining)
+        allocations.push({ lotId: lot.id, quantity: take })
+        remaining = roundQuantity(remaining - take)
+    }
+
+    return { allocations, shortfall: Math.max(remaining, 0) }
+}
+
+// ============================================================================
+// REVERSAL
+// ============================================================================
+
+/**
+ * Stock still owed back to each item and lot for an order: the SALE
+ * movements (negative) net of any RETURN movements already recorded.
+ */
+export function planStockReturns(sales: RecordedMovement[], returns: RecordedMovement[]): StockReturn[] {
+    const key = (m: RecordedMovement) => `${m.inventoryItemId}:${m.lotId ?? ''}`
+    const owed = new Map<string, StockReturn>()
+
+    for (const sale of sales) {
+        const entry = owed.get(key(sale)) ?? { inventoryItemId: sale.inventoryItemId, lotId: sale.lotId, quantity: 0 }
+        entry.quantity += Math.abs(toNumber(sale.quantity))
+        owed.set(key(sale), entry)
+    }
+
+    for (const returned of returns) {
+        const entry = owed.get(key(returned))
+        if (entry) entry.quantity -= Math.abs(toNumber(returned.quantity))
+    }
+
+    return [...owed.values()]
+        .map(entry => ({ ...entry, quantity: roundQuantity(entry.quantity) }))
+        .filter(entry => entry.quantity > 0)
+}
@@ -0,0 +1,9 @@
+export * from './deduction'
+export * from './deduction.service'
+export * from './purchase-orders'
+export * from './purchase-orders.service'
+export * from './replenishment'
+export * from './replenishment.service'
+export * from './stock-count'
+export * from './stock-count.service'
+export * from './stock-levels.service'
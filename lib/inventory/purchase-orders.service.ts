@@ -0,0 +1,357 @@
+/**
+ * Purchase Order Service
+ * Moves purchase orders through approval, dispatch to the supplier and
+ * receiving, enforcing the workflow in purchase-orders.ts
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { POStatus, Prisma, UserRole } from '@prisma/client'
+import { sendEmail } from '@/lib/email/service'
+import { renderPdf } from '@/lib/reports/formats'
+import { roundQuantity } from './deduction'
+import { lockLocationStock } from './stock-levels.service'
+import {
+    DEFAULT_APPROVAL_LIMITS,
+    canApproveTotal,
+    canTransitionPurchaseOrder,
+    planReceipt,
+    resolveApprovalLimit,
+    toPurchaseOrderDocument,
+} from './purchase-orders'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReceiveItemInput {
+    poItemId: string
+    receivedQty: number
+    lotNumber?: string | null
+    expiryDate?: string | null
+}
+
+export interface PurchaseOrderChange {
+    before: Prisma.PurchaseOrderGetPayload<object>
+    order: Prisma.PurchaseOrderGetPayload<object>
+}
+
+export const PURCHASE_ORDER_REFERENCE_TYPE = 'PURCHASE_ORDER'
+
+const documentInclude = {
+    supplier: true,
+    location: { select: { name: true, address: true, city: true } },
+    items: { include: { inventoryItem: { select: { sku: true, name: true, unitOfMeasure: true } } } }
+} satisfies Prisma.PurchaseOrderInclude
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateMovementNumber(): string {
+    const date = new Date()
+    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '')
+    const random = Math.random().toString(36).substring(2, 8).toUpperCase()
+    return `MOV-${dateStr}-${random}`
+}
+
+function generateLotNumber(): string {
+    const date = new Date()
+    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '')
+    const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+    return `LOT-${dateStr}-${random}`
+}
+
+/**
+ * Applies a status change if the workflow allows it. The update is
+ * conditional on the status that was checked, so two people acting on the
+ * same order at once cannot both succeed.
+ */
+async function changeStatus(
+    id: string,
+    to: POStatus,
+    data: Prisma.PurchaseOrderUncheckedUpdateManyInput = {},
+    check?: (order: Prisma.PurchaseOrderGetPayload<object>) => void
+): Promise<PurchaseOrderChange> {
+    const before = await prisma.purchaseOrder.findUnique({ where: { id } })
+    if (!before) {
+        throw new Error('Purchase order not found')
+    }
+    if (!canTransitionPurchaseOrder(before.status, to)) {
+        throw new Error(`Cannot move a ${before.status.toLowerCase()} purchase order to ${to.toLowerCase()}`)
+    }
+    check?.(before)
+
+    const { count } = await prisma.purchaseOrder.updateMany({
+        where: { id, status: before.status },
+        data: { ...data, status: to }
+    })
+    if (count === 0) {
+        throw new Error('Purchase order was changed by someone else, reload and try again')
+    }
+
+    return { before, order: await prisma.purchaseOrder.findUniqueOrThrow({ where: { id } }) }
+}
+
+// ============================================================================
+// APPROVAL LIMITS
+// ============================================================================
+
+/**
+ * Every role's approval limit, with whether it is the built-in default
+ */
+export async function listApprovalLimits() {
+    const overrides = await prisma.purchaseApprovalLimit.findMany()
+
+    return (Object.keys(DEFAULT_APPROVAL_LIMITS) as UserRole[]).map(role => ({
+        role,
+        maxTotal: resolveApprovalLimit(role, overrides),
+        isDefault: !overrides.some(o => o.role === role),
+    }))
+}
+
+export async function setApprovalLimit(role: UserRole, maxTotal: number | null) {
+    return prisma.purchaseApprovalLimit.upsert({
+        where: { role },
+        update: { maxTotal },
+        create: { role, maxTotal }
+    })
+}
+
+export async function getApprovalLimit(role: UserRole): Promise<number | null> {
+    const override = await prisma.purchaseApprovalLimit.findUnique({ where: { role } })
+    return resolveApprovalLimit(role, override ? [override] : [])
+}
+
+// ============================================================================
+// WORKFLOW
+// ============================================================================
+
+export async function submitPurchaseOrder(id: string): Promise<PurchaseOrderChange> {
+    const items = await prisma.purchaseOrderItem.count({ where: { purchaseOrderId: id } })
+    return changeStatus(id, 'PENDING', { submittedAt: new Date() }, () => {
+        if (items === 0) {
+            throw new Error('Add at least one item before submitting')
+        }
+    })
+}
+
+/**
+ * Approves a pending order when its total is within the approver's role limit
+ */
+export async function approvePurchaseOrder(
+    id: string,
+    approver: { id: string; role: UserRole }
+): Promise<PurchaseOrderChange> {
+    const limit = await getApprovalLimit(approver.role)
+
+    return changeStatus(id, 'APPROVED', { approvedById: approver.id, approvedAt: new Date() }, (order) => {
+        if (!canApproveTotal(order.total, limit)) {
+            throw new Error(
+                limit === 0
+                    ? 'Your role cannot approve purchase orders'
+                    : `Order total exceeds your approval limit of ${limit}`
+            )
+        }
+    })
+}
+
+/**
+ * Sends a pending order back to its buyer for changes
+ */
+export async function returnPurchaseOrder(id: string): Promise<PurchaseOrderChange> {
+    return changeStatus(id, 'DRAFT', { submittedAt: null })
+}
+
+export async function cancelPurchaseOrder(id: string): Promise<PurchaseOrderChange> {
+    return changeStatus(id, 'CANCELLED', { cancelledAt: new Date() })
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+export async function renderPurchaseOrderPdf(id: string) {
+    const [po, settings] = await Promise.all([
+        prisma.purchaseOrder.findUnique({ where: { id }, include: documentInclude }),
+        prisma.restaurantSettings.findFirst({ select: { currencySymbol: true } })
+    ])
+    if (!po) {
+        throw new Error('Purchase order not found')
+    }
+
+    return {
+        po,
+        fileName: `${po.poNumber}.pdf`,
+        content: renderPdf(toPurchaseOrderDocument(po, settings?.currencySymbol || 'Rs.'))
+    }
+}
+
+/**
+ * Emails an approved order to the supplier as a PDF and marks it sent.
+ * Orders placed another way (phone, portal) can be marked sent without the
+ * email. A failed email is kept on the order and rethrown; the order stays
+ * approved so it can be retried.
+ */
+export async function sendPurchaseOrder(
+    id: string,
+    options: { to?: string | null; skipEmail?: boolean } = {}
+): Promise<PurchaseOrderChange> {
+    const { po, fileName, content } = await renderPurchaseOrderPdf(id)
+    if (po.status !== 'APPROVED') {
+        throw new Error(`Cannot send a ${po.status.toLowerCase()} purchase order`)
+    }
+
+    const to = options.to || po.supplier.email
+    if (!options.skipEmail) {
+        if (!to) {
+            throw new Error('Supplier has no email address')
+        }
+
+        const result = await sendEmail({
+            to,
+            subject: `Purchase Order ${po.poNumber} from ${po.location.name}`,
+            html: `<p>Dear ${po.supplier.contactName || po.supplier.name},</p>` +
+                `<p>Please find attached purchase order ${po.poNumber} for delivery to ${po.location.name}` +
+                (po.expectedDate ? ` by ${po.expectedDate.toISOString().slice(0, 10)}` : '') +
+                '.</p><p>Kindly confirm receipt of this order.</p>',
+            attachments: [{ filename: fileName, content, contentType: 'application/pdf' }],
+        })
+
+        if (!result.success) {
+            const reason = result.error || 'Failed to send purchase order email'
+            await prisma.purchaseOrder.update({ where: { id }, data: { sendError: reason } })
+            throw new Error(reason)
+        }
+    }
+
+    const now = new Date()
+    return changeStatus(id, 'SENT', {
+        orderDate: now,
+        sentAt: now,
+        sentTo: options.skipEmail ? null : to,
+        sendError: null
+    })
+}
+
+// ============================================================================
+// RECEIVING
+// ============================================================================
+
+/**
+ * Books a delivery against a sent order: stock movements, lots for tracked
+ * items, location and global stock, and the item's latest cost. Lines may
+ * cover part of what was ordered; the order stays PARTIAL until nothing is
+ * outstanding.
+ */
+export async function receivePurchaseOrder(
+    id: string,
+    input: { items: ReceiveItemInput[]; performedById: string; notes?: string | null }
+) {
+    return prisma.$transaction(async (tx) => {
+        // Two deliveries booked at once would both plan from the same received
+        // quantities; the second waits here and plans from what the first booked
+        await tx.$queryRaw`SELECT id FROM "PurchaseOrder" WHERE id = ${id} FOR UPDATE`
+        const po = await tx.purchaseOrder.findUnique({
+            where: { id },
+            include: { items: { include: { inventoryItem: true } } }
+        })
+        if (!po) {
+            throw new Error('Purchase order not found')
+        }
+        if (po.status !== 'SENT' && po.status !== 'PARTIAL') {
+            throw new Error('Can only receive goods for sent or partially received orders')
+        }
+
+        const plan = planReceipt(po.items, input.items)
+        const results = []
+
+        for (const received of input.items) {
+            const poItem = po.items.find(item => item.id === received.poItemId)!
+            const item = poItem.inventoryItem
+            const line = plan.lines.find(l => l.poItemId === received.poItemId)!
+
+            await tx.purchaseOrderItem.update({
+                where: { id: poItem.id },
+                data: { receivedQty: { increment: received.receivedQty } }
+            })
+
+            const previousStock = await lockLocationStock(tx, po.locationId, item.id)
+            const newStock = roundQuantity(previousStock + received.receivedQty)
+
+            const lot = item.trackLots || item.trackExpiry
+                ? await tx.inventoryLot.create({
+                    data: {
+                        lotNumber: received.lotNumber || generateLotNumber(),
+                        inventoryItemId: item.id,
+                        locationId: po.locationId,
+                        quantity: received.receivedQty,
+                        remainingQty: received.receivedQty,
+                        costPrice: poItem.unitPrice,
+                        receivedDate: new Date(),
+                        expiryDate: received.expiryDate ? new Date(received.expiryDate) : null,
+                        supplierId: po.supplierId,
+                        purchaseOrderId: po.id,
+                        status: 'AVAILABLE'
+                    }
+                })
+                : null
+
+            const movement = await tx.stockMovement.create({
+                data: {
+                    movementNumber: generateMovementNumber(),
+                    inventoryItemId: item.id,
+                    locationId: po.locationId,
+                    lotId: lot?.id,
+                    movementType: 'PURCHASE',
+                    quantity: received.receivedQty,
+                    previousStock,
+                    newStock,
+                    unitCost: poItem.unitPrice,
+                    totalCost: received.receivedQty * Number(poItem.unitPrice),
+                    referenceType: PURCHASE_ORDER_REFERENCE_TYPE,
+                    referenceId: po.id,
+                    notes: input.notes || `Received from PO ${po.poNumber}`,
+                    performedById: input.performedById
+                }
+            })
+
+            await tx.locationStock.update({
+                where: { locationId_inventoryItemId: { locationId: po.locationId, inventoryItemId: item.id } },
+                data: { currentStock: newStock }
+            })
+
+            const allStock = await tx.locationStock.aggregate({
+                where: { inventoryItemId: item.id },
+                _sum: { currentStock: true }
+            })
+            await tx.inventoryItem.update({
+                where: { id: item.id },
+                data: {
+                    currentStock: allStock._sum.currentStock || 0,
+                    lastCostPrice: item.costPrice,
+                    costPrice: poItem.unitPrice
+                }
+            })
+
+            results.push({
+                poItemId: poItem.id,
+                inventoryItemId: item.id,
+                receivedQty: received.receivedQty,
+                totalReceived: line.totalReceived,
+                outstandingQty: line.outstandingQty,
+                movementId: movement.id,
+                lotId: lot?.id
+            })
+        }
+
+        const order = await tx.purchaseOrder.update({
+            where: { id },
+            data: {
+                status: plan.status,
+                receivedDate: plan.status === 'RECEIVED' ? new Date() : null
+            }
+        })
+
+        return { order, status: plan.status, results }
+    })
+}
@@ -0,0 +1,197 @@
+/**
+ * Purchase Order Workflow
+ * Pure rules for purchase order status changes, approval limits, receiving
+ * and the document sent to suppliers
+ */
+
+import type { POStatus, UserRole } from '@prisma/client'
+import type { ReportDocument } from '../reports/sales-report'
+import { toNumber, type Numeric } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ApprovalLimitOverride {
+    role: UserRole
+    maxTotal: Numeric
+}
+
+export interface ReceivableItem {
+    id: string
+    quantity: Numeric
+    receivedQty: Numeric
+}
+
+export interface ReceiptLine {
+    poItemId: string
+    receivedQty: number
+}
+
+export interface ReceiptPlan {
+    lines: Array<ReceiptLine & { totalReceived: number; outstandingQty: number }>
+    /** PARTIAL while anything is still outstanding, else RECEIVED */
+    status: Extract<POStatus, 'PARTIAL' | 'RECEIVED'>
+}
+
+export interface PurchaseOrderForDocument {
+    poNumber: string
+    createdAt: Date
+    expectedDate: Date | null
+    notes: string | null
+    subtotal: Numeric
+    taxAmount: Numeric
+    discountAmount: Numeric
+    total: Numeric
+    supplier: { name: string; code: string; contactName: string | null; phone: string | null; email: string | null }
+    location: { name: string; address?: string | null; city?: string | null }
+    items: Array<{
+        quantity: Numeric
+        unitPrice: Numeric
+        totalPrice: Numeric
+        inventoryItem: { sku: string; name: string; unitOfMeasure: string }
+    }>
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Allowed status changes. Pending orders can go back to draft for changes;
+ * once goods start arriving the order can no longer be cancelled.
+ */
+export const PO_TRANSITIONS: Record<POStatus, POStatus[]> = {
+    DRAFT: ['PENDING', 'CANCELLED'],
+    PENDING: ['APPROVED', 'DRAFT', 'CANCELLED'],
+    APPROVED: ['SENT', 'CANCELLED'],
+    SENT: ['PARTIAL', 'RECEIVED', 'CANCELLED'],
+    PARTIAL: ['RECEIVED'],
+    RECEIVED: [],
+    CANCELLED: [],
+}
+
+export function canTransitionPurchaseOrder(from: POStatus, to: POStatus): boolean {
+    return PO_TRANSITIONS[from].includes(to)
+}
+
+// ============================================================================
+// APPROVAL
+// ============================================================================
+
+/** Largest total each role may approve; null is unlimited */
+export const DEFAULT_APPROVAL_LIMITS: Record<UserRole, number | null> = {
+    SUPER_ADMIN: null,
+    ADMIN: null,
+    MANAGER: 250000,
+    INVENTORY: 50000,
+    CASHIER: 0,
+    WAITER: 0,
+    KITCHEN: 0,
+    STAFF: 0,
+}
+
+export function resolveApprovalLimit(role: UserRole, overrides: ApprovalLimitOverride[] = []): number | null {
+    const override = overrides.find(o => o.role === role)
+    if (!override) return DEFAULT_APPROVAL_LIMITS[role]
+    return override.maxTotal === null || override.maxTotal === undefined ? null : toNumber(override.maxTotal)
+}
+
+export function canApproveTotal(total: Numeric, limit: number | null): boolean {
+    return limit === null || toNumber(total) <= limit
+}
+
+// ============================================================================
+// RECEIVING
+// ============================================================================
+
+/**
+ * Checks a delivery against what is still outstanding on each line. The whole
+ * delivery is refused if any line is unknown or over-delivered, so stock is
+ * never half-booked.
+ */
+export function planReceipt(items: ReceivableItem[], lines: ReceiptLine[]): ReceiptPlan {
+    const received = new Map(items.map(item => [item.id, toNumber(item.receivedQty)]))
+
+    for (const line of lines) {
+        const item = items.find(i => i.id === line.poItemId)
+        if (!item) {
+            throw new Error('Purchase order item not found')
+        }
+        if (line.receivedQty <= 0) {
+            throw new Error('Received quantity must be positive')
+        }
+
+        const total = received.get(item.id)! + line.receivedQty
+        const ordered = toNumber(item.quantity)
+        if (total > ordered + 1e-9) {
+            throw new Error(
+                `Cannot receive more than ordered. Ordered: ${ordered}, Already received: ${received.get(item.id)}`
+            )
+        }
+        received.set(item.id, total)
+    }
+
+    const outstanding = (item: ReceivableItem) => Math.max(0, toNumber(item.quantity) - received.get(item.id)!)
+
+    return {
+        lines: lines.map(line => {
+            const item = items.find(i => i.id === line.poItemId)!
+            return { ...line, totalReceived: received.get(item.id)!, outstandingQty: outstanding(item) }
+        }),
+        status: items.every(item => outstanding(item) <= 1e-9) ? 'RECEIVED' : 'PARTIAL',
+    }
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * The purchase order as sent to the supplier
+ */
+export function toPurchaseOrderDocument(po: PurchaseOrderForDocument, currencySymbol = 'Rs.'): ReportDocument {
+    const money = (value: Numeric) => `${currencySymbol} ${toNumber(value).toFixed(2)}`
+    const deliverTo = [po.location.name, po.location.address, po.location.city].filter(Boolean).join(', ')
+    const contact = [po.supplier.contactName, po.supplier.phone, po.supplier.email].filter(Boolean).join(' / ')
+
+    return {
+        title: `Purchase Order ${po.poNumber}`,
+        subtitle: `Issued ${po.createdAt.toISOString().slice(0, 10)}` +
+            (po.expectedDate ? `, delivery expected ${po.expectedDate.toISOString().slice(0, 10)}` : ''),
+        tables: [
+            {
+                title: 'Order',
+                columns: ['', ''],
+                rows: [
+                    ['Supplier', `${po.supplier.name} (${po.supplier.code})`],
+                    ...(contact ? [['Contact', contact]] : []),
+                    ['Deliver to', deliverTo],
+                    ...(po.notes ? [['Notes', po.notes]] : []),
+                ],
+            },
+            {
+                title: 'Items',
+                columns: ['SKU', 'Item', 'Qty', 'Unit', 'Unit price', 'Total'],
+                rows: po.items.map(item => [
+                    item.inventoryItem.sku,
+                    item.inventoryItem.name,
+                    toNumber(item.quantity),
+                    item.inventoryItem.unitOfMeasure,
+                    money(item.unitPrice),
+                    money(item.totalPrice),
+                ]),
+            },
+            {
+                title: 'Totals',
+                columns: ['', ''],
+                rows: [
+                    ['Subtotal', money(po.subtotal)],
+                    ...(toNumber(po.discountAmount) > 0 ? [['Discount', money(po.discountAmount)]] : []),
+                    ...(toNumber(po.taxAmount) > 0 ? [['Tax', money(po.taxAmount)]] : []),
+                    ['Total', money(po.total)],
+                ],
+            },
+        ],
+    }
+}
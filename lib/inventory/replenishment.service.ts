@@ -0,0 +1,207 @@
+/**
+ * Replenishment Service
+ * Scans a location's stock against reorder points and raises draft purchase
+ * orders for buyers to review
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { POStatus, Prisma } from '@prisma/client'
+import { nextSequenceValue } from '@/lib/sequences'
+import {
+    DEFAULT_REPLENISHMENT_OPTIONS,
+    planReplenishment,
+    type ReplenishmentOptions,
+    type ReplenishmentPlan,
+    type StockPosition,
+} from './replenishment'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReplenishmentRunOptions extends Partial<ReplenishmentOptions> {
+    /** Days of sales the usage forecast averages over */
+    lookbackDays?: number
+    now?: Date
+}
+
+export const USAGE_LOOKBACK_DAYS = 28
+
+// Orders whose unreceived quantities already cover future needs. Drafts count
+// too, so running the engine again does not suggest the same stock twice.
+const OPEN_PO_STATUSES: POStatus[] = ['DRAFT', 'PENDING', 'APPROVED', 'SENT', 'PARTIAL']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// STOCK POSITIONS
+// ============================================================================
+
+/**
+ * Every active item stocked at the location with its open orders, average
+ * daily usage from recent sales net of returns, and the terms of the active
+ * suppliers that carry it. Items without a reorder point fall back to the
+ * location's minimum stock, then the item's.
+ */
+async function loadStockPositions(
+    tx: Prisma.TransactionClient,
+    locationId: string,
+    options: ReplenishmentRunOptions
+): Promise<StockPosition[]> {
+    const lookbackDays = options.lookbackDays ?? USAGE_LOOKBACK_DAYS
+    const since = new Date((options.now ?? new Date()).getTime() - lookbackDays * DAY_MS)
+
+    const [stock, usage, openLines] = await Promise.all([
+        tx.locationStock.findMany({
+            where: { locationId, inventoryItem: { isActive: true } },
+            include: {
+                inventoryItem: {
+                    select: {
+                        reorderPoint: true,
+                        reorderQuantity: true,
+                        maximumStock: true,
+                        minimumStock: true,
+                        preferredSupplierId: true,
+                        supplierItems: {
+                            where: { supplier: { isActive: true } },
+                            select: { supplierId: true, unitPrice: true, minimumOrder: true, leadTimeDays: true, isPreferred: true }
+                        }
+                    }
+                }
+            }
+        }),
+        tx.stockMovement.groupBy({
+            by: ['inventoryItemId'],
+            where: { locationId, movementType: { in: ['SALE', 'RETURN'] }, createdAt: { gte: since } },
+            _sum: { quantity: true }
+        }),
+        tx.purchaseOrderItem.findMany({
+            where: { purchaseOrder: { locationId, status: { in: OPEN_PO_STATUSES } } },
+            select: { inventoryItemId: true, quantity: true, receivedQty: true }
+        })
+    ])
+
+    // Sales are negative movements and returns positive, so the net sum is minus what was used
+    const usageByItem = new Map(usage.map(row => [row.inventoryItemId, -Number(row._sum.quantity ?? 0)]))
+    const onOrderByItem = new Map<string, number>()
+    for (const line of openLines) {
+        const outstanding = Math.max(0, Number(line.quantity) - Number(line.receivedQty))
+        onOrderByItem.set(line.inventoryItemId, (onOrderByItem.get(line.inventoryItemId) ?? 0) + outstanding)
+    }
+
+    return stock.map(level => {
+        const item = level.inventoryItem
+        const reorderPoint = Number(item.reorderPoint) > 0
+            ? item.reorderPoint
+            : level.minimumStock ?? item.minimumStock
+
+        return {
+            inventoryItemId: level.inventoryItemId,
+            currentStock: level.currentStock,
+            onOrder: onOrderByItem.get(level.inventoryItemId) ?? 0,
+            dailyUsage: Math.max(0, usageByItem.get(level.inventoryItemId) ?? 0) / lookbackDays,
+            reorderPoint,
+            reorderQuantity: item.reorderQuantity,
+            maximumStock: item.maximumStock,
+            preferredSupplierId: item.preferredSupplierId,
+            suppliers: item.supplierItems
+        }
+    })
+}
+
+async function buildPlan(tx: Prisma.TransactionClient, locationId: string, options: ReplenishmentRunOptions) {
+    const positions = await loadStockPositions(tx, locationId, options)
+    return planReplenishment(positions, { ...DEFAULT_REPLENISHMENT_OPTIONS, ...options })
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * What the engine would order for a location, with supplier and item details,
+ * without creating anything
+ */
+export async function suggestPurchaseOrders(locationId: string, options: ReplenishmentRunOptions = {}) {
+    const plan: ReplenishmentPlan = await buildPlan(prisma, locationId, options)
+
+    const itemIds = [...plan.unsourced, ...plan.suppliers.flatMap(s => s.lines.map(l => l.inventoryItemId))]
+    const [suppliers, items] = await Promise.all([
+        prisma.supplier.findMany({
+            where: { id: { in: plan.suppliers.map(s => s.supplierId) } },
+            select: { id: true, name: true, code: true }
+        }),
+        prisma.inventoryItem.findMany({
+            where: { id: { in: itemIds } },
+            select: { id: true, name: true, sku: true, unitOfMeasure: true }
+        })
+    ])
+    const itemsById = new Map(items.map(item => [item.id, item]))
+
+    return {
+        suppliers: plan.suppliers.map(suggestion => ({
+            ...suggestion,
+            supplier: suppliers.find(s => s.id === suggestion.supplierId) ?? null,
+            lines: suggestion.lines.map(line => ({ ...line, inventoryItem: itemsById.get(line.inventoryItemId) ?? null }))
+        })),
+        unsourced: plan.unsourced.map(id => itemsById.get(id) ?? { id, name: null, sku: null, unitOfMeasure: null })
+    }
+}
+
+/**
+ * Raises one DRAFT purchase order per supplier from the location's current
+ * suggestions. Expected dates follow the longest lead time on each order.
+ */
+export async function createSuggestedPurchaseOrders(
+    locationId: string,
+    createdById: string,
+    options: ReplenishmentRunOptions = {}
+) {
+    return prisma.$transaction(async (tx) => {
+        const location = await tx.location.findUnique({
+            where: { id: locationId },
+            select: { id: true, code: true, timezone: true }
+        })
+        if (!location) {
+            throw new Error('Location not found')
+        }
+
+        const plan = await buildPlan(tx, locationId, options)
+        const now = options.now ?? new Date()
+        const orders = []
+
+        for (const suggestion of plan.suppliers) {
+            const { number } = await nextSequenceValue(tx, 'purchase-order', location, now)
+
+            orders.push(await tx.purchaseOrder.create({
+                data: {
+                    poNumber: number,
+                    supplierId: suggestion.supplierId,
+                    locationId,
+                    createdById,
+                    status: 'DRAFT',
+                    autoGenerated: true,
+                    subtotal: suggestion.subtotal,
+                    total: suggestion.subtotal,
+                    expectedDate: new Date(now.getTime() + suggestion.leadTimeDays * DAY_MS),
+                    notes: 'Suggested from reorder points',
+                    items: {
+                        create: suggestion.lines.map(line => ({
+                            inventoryItemId: line.inventoryItemId,
+                            quantity: line.quantity,
+                            unitPrice: line.unitPrice,
+                            totalPrice: line.totalPrice,
+                            notes: `Projected ${line.projectedStock} after ${line.leadTimeDays}d lead time`
+                        }))
+                    }
+                },
+                include: {
+                    supplier: { select: { id: true, name: true } },
+                    items: { include: { inventoryItem: { select: { id: true, name: true, sku: true } } } }
+                }
+            }))
+        }
+
+        return { orders, unsourced: plan.unsourced }
+    })
+}
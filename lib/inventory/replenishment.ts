@@ -0,0 +1,166 @@
+/**
+ * Replenishment Planning
+ * Pure helpers that turn stock positions, recent usage and supplier terms
+ * into purchase order suggestions
+ */
+
+import { roundMoney, toNumber, type Numeric } from '../menu/pricing'
+import { roundQuantity } from './deduction'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SupplierTerms {
+    supplierId: string
+    unitPrice: Numeric
+    minimumOrder: Numeric
+    leadTimeDays: number | null
+    isPreferred: boolean
+}
+
+export interface StockPosition {
+    inventoryItemId: string
+    currentStock: Numeric
+    /** Purchase order quantities not yet received */
+    onOrder: number
+    /** Average net quantity sold per day */
+    dailyUsage: number
+    reorderPoint: Numeric
+    reorderQuantity: Numeric
+    maximumStock: Numeric
+    preferredSupplierId: string | null
+    suppliers: SupplierTerms[]
+}
+
+export interface ReplenishmentOptions {
+    /** Lead time for suppliers that have not given one */
+    defaultLeadTimeDays: number
+}
+
+export interface ReplenishmentLine {
+    inventoryItemId: string
+    quantity: number
+    unitPrice: number
+    totalPrice: number
+    leadTimeDays: number
+    /** Stock expected once the lead time has passed, before this order arrives */
+    projectedStock: number
+    forecastUsage: number
+}
+
+export interface SupplierSuggestion {
+    supplierId: string
+    leadTimeDays: number
+    subtotal: number
+    lines: ReplenishmentLine[]
+}
+
+export interface ReplenishmentPlan {
+    suppliers: SupplierSuggestion[]
+    /** Items below their reorder point that no supplier carries */
+    unsourced: string[]
+}
+
+export const DEFAULT_REPLENISHMENT_OPTIONS: ReplenishmentOptions = {
+    defaultLeadTimeDays: 3,
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The item's preferred supplier when it carries the item, then a supplier
+ * flagged as preferred, then the cheapest
+ */
+export function chooseSupplier(position: Pick<StockPosition, 'preferredSupplierId' | 'suppliers'>): SupplierTerms | null {
+    const { suppliers } = position
+    if (suppliers.length === 0) return null
+
+    return suppliers.find(s => s.supplierId === position.preferredSupplierId)
+        ?? suppliers.find(s => s.isPreferred)
+        ?? [...suppliers].sort((a, b) => toNumber(a.unitPrice) - toNumber(b.unitPrice))[0]
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * How much of an item to order, or 0 when none is needed. Stock on hand plus
+ * open orders, less the usage forecast over the supplier's lead time, is the
+ * position when a new order could arrive. At or below the reorder point the
+ * item is topped up to its maximum stock; without one, whole reorder
+ * quantities are ordered until the position clears the reorder point; with
+ * neither, enough to cover the reorder point and another lead time. Supplier
+ * minimums always apply.
+ */
+export function planOrderQuantity(
+    position: StockPosition,
+    supplier: SupplierTerms,
+    options: ReplenishmentOptions = DEFAULT_REPLENISHMENT_OPTIONS
+): Pick<ReplenishmentLine, 'quantity' | 'leadTimeDays' | 'projectedStock' | 'forecastUsage'> {
+    const leadTimeDays = supplier.leadTimeDays ?? options.defaultLeadTimeDays
+    const forecastUsage = roundQuantity(position.dailyUsage * leadTimeDays)
+    const projectedStock = roundQuantity(toNumber(position.currentStock) + position.onOrder - forecastUsage)
+    const reorderPoint = toNumber(position.reorderPoint)
+    const reorderQuantity = toNumber(position.reorderQuantity)
+    const maximumStock = toNumber(position.maximumStock)
+
+    let quantity = 0
+    if (projectedStock <= reorderPoint) {
+        if (maximumStock > reorderPoint) {
+            quantity = maximumStock - projectedStock
+        } else if (reorderQuantity > 0) {
+            quantity = reorderQuantity * Math.max(1, Math.ceil((reorderPoint - projectedStock) / reorderQuantity))
+        } else {
+            quantity = reorderPoint + forecastUsage - projectedStock
+        }
+        quantity = Math.max(quantity, toNumber(supplier.minimumOrder))
+    }
+
+    return { quantity: roundQuantity(Math.max(0, quantity)), leadTimeDays, projectedStock, forecastUsage }
+}
+
+/**
+ * Order suggestions for a location's items, one per supplier
+ */
+export function planReplenishment(
+    positions: StockPosition[],
+    options: ReplenishmentOptions = DEFAULT_REPLENISHMENT_OPTIONS
+): ReplenishmentPlan {
+    const bySupplier = new Map<string, SupplierSuggestion>()
+    const unsourced: string[] = []
+
+    for (const position of positions) {
+        const supplier = chooseSupplier(position)
+        if (!supplier) {
+            const fallback = { supplierId: '', unitPrice: 0, minimumOrder: 0, leadTimeDays: null, isPreferred: false }
+            if (planOrderQuantity(position, fallback, options).quantity > 0) {
+                unsourced.push(position.inventoryItemId)
+            }
+            continue
+        }
+
+        const plan = planOrderQuantity(position, supplier, options)
+        if (plan.quantity <= 0) continue
+
+        const unitPrice = toNumber(supplier.unitPrice)
+        const line: ReplenishmentLine = {
+            inventoryItemId: position.inventoryItemId,
+            unitPrice,
+            totalPrice: roundMoney(plan.quantity * unitPrice),
+            ...plan,
+        }
+
+        const suggestion = bySupplier.get(supplier.supplierId)
+            ?? { supplierId: supplier.supplierId, leadTimeDays: 0, subtotal: 0, lines: [] }
+        suggestion.lines.push(line)
+        suggestion.subtotal = roundMoney(suggestion.subtotal + line.totalPrice)
+        suggestion.leadTimeDays = Math.max(suggestion.leadTimeDays, line.leadTimeDays)
+        bySupplier.set(supplier.supplierId, suggestion)
+    }
+
+    return { suppliers: [...bySupplier.values()], unsourced }
+}
@@ -0,0 +1,438 @@
+/**
+ * Stock Count Service
+ * Count sessions: open a location's count, collect blind tallies from staff
+ * devices, then review the variance and post it to stock on approval
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma, type StockCountStatus } from '@prisma/client'
+import { nextSequenceValue } from '@/lib/sequences'
+import { roundQuantity } from './deduction'
+import { lockLocationStock } from './stock-levels.service'
+import { buildVarianceReport, type VarianceReport } from './stock-count'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OpenStockCountInput {
+    locationId: string
+    storageArea?: string | null
+    categoryId?: string | null
+    notes?: string | null
+    openedById: string
+}
+
+export interface CountEntriesInput {
+    deviceId: string
+    countedById: string
+    counts: Array<{ inventoryItemId: string; quantity: number }>
+}
+
+export interface StockCountApproval {
+    stockCount: Prisma.StockCountGetPayload<object>
+    report: VarianceReport
+    /** Inventory items whose stock changed */
+    inventoryItemIds: string[]
+}
+
+export const STOCK_COUNT_REFERENCE_TYPE = 'STOCK_COUNT'
+
+const lineInclude = {
+    inventoryItem: { select: { sku: true, name: true, unitOfMeasure: true, storageLocation: true } }
+} satisfies Prisma.StockCountLineInclude
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateMovementNumber(): string {
+    const date = new Date()
+    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '')
+    const random = Math.random().toString(36).substring(2, 8).toUpperCase()
+    return `MOV-${dateStr}-${random}`
+}
+
+async function findCount(tx: Prisma.TransactionClient, id: string) {
+    const stockCount = await tx.stockCount.findUnique({ where: { id } })
+    if (!stockCount) {
+        throw new Error('Stock count not found')
+    }
+    return stockCount
+}
+
+function assertStatus(status: StockCountStatus, allowed: StockCountStatus[], message: string): void {
+    if (!allowed.includes(status)) {
+        throw new Error(message)
+    }
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+/**
+ * Opens a count for a location, narrowed to a storage area and/or inventory
+ * category. The system quantity and cost of every active item in scope are
+ * frozen on the count's lines. An item can only be in one unfinished count
+ * at a location, so two approvals never adjust it twice.
+ */
+export async function openStockCount(input: OpenStockCountInput) {
+    return prisma.$transaction(async (tx) => {
+        const location = await tx.location.findUnique({
+            where: { id: input.locationId },
+            select: { id: true, code: true, timezone: true }
+        })
+        if (!location) {
+            throw new Error('Location not found')
+        }
+
+        const items = await tx.inventoryItem.findMany({
+            where: {
+                isActive: true,
+                ...(input.storageArea && { storageLocation: input.storageArea }),
+                ...(input.categoryId && { categoryId: input.categoryId }),
+            },
+            select: {
+                id: true,
+                costPrice: true,
+                locationStock: { where: { locationId: location.id }, select: { currentStock: true } }
+            }
+        })
+        if (items.length === 0) {
+            throw new Error('No inventory items match this count')
+        }
+
+        const overlapping = await tx.stockCountLine.count({
+            where: {
+                inventoryItemId: { in: items.map(item => item.id) },
+                stockCount: { locationId: location.id, status: { in: ['OPEN', 'SUBMITTED'] } }
+            }
+        })
+        if (overlapping > 0) {
+            throw new Error('Some of these items are already in an unfinished count at this location')
+        }
+
+        const { number } = await nextSequenceValue(tx, 'stock-count', location)
+
+        return tx.stockCount.create({
+            data: {
+                countNumber: number,
+                locationId: location.id,
+                storageArea: input.storageArea || null,
+                categoryId: input.categoryId || null,
+                notes: input.notes,
+                openedById: input.openedById,
+                lines: {
+                    create: items.map(item => ({
+                        inventoryItemId: item.id,
+                        expectedQty: item.locationStock[0]?.currentStock ?? 0,
+                        unitCost: item.costPrice
+                    }))
+                }
+            },
+            include: { _count: { select: { lines: true } } }
+        })
+    })
+}
+
+export async function listStockCounts(params: {
+    locationId?: string | null
+    status?: StockCountStatus | null
+    page: number
+    limit: number
+}) {
+    const where: Prisma.StockCountWhereInput = {
+        ...(params.locationId && { locationId: params.locationId }),
+        ...(params.status && { status: params.status }),
+    }
+
+    const [counts, total] = await Promise.all([
+        prisma.stockCount.findMany({
+            where,
+            include: {
+                location: { select: { id: true, name: true, code: true } },
+                category: { select: { id: true, name: true } },
+                openedBy: { select: { id: true, name: true } },
+                approvedBy: { select: { id: true, name: true } },
+                _count: { select: { lines: true, entries: true } }
+            },
+            orderBy: { createdAt: 'desc' },
+            skip: (params.page - 1) * params.limit,
+            take: params.limit
+        }),
+        prisma.stockCount.count({ where })
+    ])
+
+    return {
+        counts,
+        pagination: { page: params.page, limit: params.limit, total, totalPages: Math.ceil(total / params.limit) }
+    }
+}
+
+/**
+ * A count as staff see it while counting: the items to count and what this
+ * device has entered so far, without system quantities or costs.
+ */
+export async function getBlindStockCount(id: string, deviceId?: string | null) {
+    const stockCount = await prisma.stockCount.findUnique({
+        where: { id },
+        select: {
+            id: true,
+            countNumber: true,
+            status: true,
+            storageArea: true,
+            notes: true,
+            createdAt: true,
+            submittedAt: true,
+            location: { select: { id: true, name: true, code: true } },
+            category: { select: { id: true, name: true } },
+            lines: {
+                select: { inventoryItemId: true, inventoryItem: lineInclude.inventoryItem },
+                orderBy: { inventoryItem: { name: 'asc' } }
+            },
+            entries: {
+                where: { deviceId: deviceId ?? '' },
+                select: { inventoryItemId: true, quantity: true, updatedAt: true }
+            }
+        }
+    })
+    if (!stockCount) {
+        throw new Error('Stock count not found')
+    }
+    return stockCount
+}
+
+// ============================================================================
+// COUNTING
+// ============================================================================
+
+/**
+ * Stores a device's tallies. Entering an item again from the same device
+ * replaces its earlier tally; other devices' tallies are added to it.
+ */
+export async function recordCountEntries(id: string, input: CountEntriesInput) {
+    return prisma.$transaction(async (tx) => {
+        const stockCount = await findCount(tx, id)
+        assertStatus(stockCount.status, ['OPEN'], 'Stock count is not open for counting')
+
+        const lines = await tx.stockCountLine.findMany({
+            where: { stockCountId: id, inventoryItemId: { in: input.counts.map(c => c.inventoryItemId) } },
+            select: { inventoryItemId: true }
+        })
+        const inCount = new Set(lines.map(line => line.inventoryItemId))
+        const outside = input.counts.find(c => !inCount.has(c.inventoryItemId))
+        if (outside) {
+            throw new Error('Item is not part of this count')
+        }
+
+        for (const count of input.counts) {
+            await tx.stockCountEntry.upsert({
+                where: {
+                    stockCountId_inventoryItemId_deviceId: {
+                        stockCountId: id,
+                        inventoryItemId: count.inventoryItemId,
+                        deviceId: input.deviceId
+                    }
+                },
+                update: { quantity: count.quantity, countedById: input.countedById },
+                create: {
+                    stockCountId: id,
+                    inventoryItemId: count.inventoryItemId,
+                    deviceId: input.deviceId,
+                    quantity: count.quantity,
+                    countedById: input.countedById
+                }
+            })
+        }
+
+        return { stockCountId: id, recorded: input.counts.length }
+    })
+}
+
+/**
+ * Ends counting and hands the count to a manager for review
+ */
+export async function submitStockCount(id: string) {
+    return prisma.$transaction(async (tx) => {
+        const stockCount = await findCount(tx, id)
+        assertStatus(stockCount.status, ['OPEN'], 'Stock count is not open for counting')
+
+        const entries = await tx.stockCountEntry.count({ where: { stockCountId: id } })
+        if (entries === 0) {
+            throw new Error('Nothing has been counted yet')
+        }
+
+        return tx.stockCount.update({
+            where: { id },
+            data: { status: 'SUBMITTED', submittedAt: new Date() }
+        })
+    })
+}
+
+/**
+ * Sends a submitted count back for recounting. The tallies of the given
+ * items (all items when none are given) are discarded so they are counted
+ * afresh.
+ */
+export async function requestRecount(id: string, inventoryItemIds?: string[]) {
+    return prisma.$transaction(async (tx) => {
+        const stockCount = await findCount(tx, id)
+        assertStatus(stockCount.status, ['SUBMITTED'], 'Only submitted counts can be recounted')
+
+        const { count: cleared } = await tx.stockCountEntry.deleteMany({
+            where: {
+                stockCountId: id,
+                ...(inventoryItemIds?.length && { inventoryItemId: { in: inventoryItemIds } })
+            }
+        })
+
+        const updated = await tx.stockCount.update({
+            where: { id },
+            data: { status: 'OPEN', submittedAt: null }
+        })
+        return { stockCount: updated, cleared }
+    })
+}
+
+export async function cancelStockCount(id: string) {
+    return prisma.$transaction(async (tx) => {
+        const stockCount = await findCount(tx, id)
+        assertStatus(stockCount.status, ['OPEN', 'SUBMITTED'], 'Stock count is already finished')
+
+        return tx.stockCount.update({
+            where: { id },
+            data: { status: 'CANCELLED', cancelledAt: new Date() }
+        })
+    })
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Variance at cost for review. Approved counts return the report frozen when
+ * they were posted.
+ */
+export async function getVarianceReport(id: string): Promise<VarianceReport & { stockCount: Prisma.StockCountGetPayload<object> }> {
+    const stockCount = await prisma.stockCount.findUnique({
+        where: { id },
+        include: { lines: { include: lineInclude }, entries: true }
+    })
+    if (!stockCount) {
+        throw new Error('Stock count not found')
+    }
+
+    const { lines, entries, ...count } = stockCount
+    const report = count.status === 'APPROVED' && count.varianceReport
+        ? count.varianceReport as unknown as VarianceReport
+        : buildVarianceReport(lines, entries)
+
+    return { ...report, stockCount: count }
+}
+
+/**
+ * Posts a submitted count. Each counted item with a variance gets a COUNT
+ * movement valued at the cost frozen when the count opened. The variance is
+ * applied as a delta, so sales and receipts recorded while staff were
+ * counting are kept. Every counted item has its lastCountedAt/By set to the
+ * latest tally. Uncounted items are left untouched.
+ */
+export async function approveStockCount(id: string, approvedById: string): Promise<StockCountApproval> {
+    return prisma.$transaction(async (tx) => {
+        // Claim the count first so two managers cannot post it twice
+        const claimed = await tx.stockCount.updateMany({
+            where: { id, status: 'SUBMITTED' },
+            data: { status: 'APPROVED', approvedById, approvedAt: new Date() }
+        })
+        if (claimed.count === 0) {
+            await findCount(tx, id)
+            throw new Error('Only submitted counts can be approved')
+        }
+
+        const stockCount = await tx.stockCount.findUniqueOrThrow({
+            where: { id },
+            include: { lines: { include: lineInclude }, entries: true }
+        })
+
+        const report = buildVarianceReport(stockCount.lines, stockCount.entries)
+        const changedItemIds: string[] = []
+
+        for (const line of report.lines) {
+            if (line.countedQty === null || line.variance === null) continue
+
+            const latest = stockCount.entries
+                .filter(entry => entry.inventoryItemId === line.inventoryItemId)
+                .reduce((a, b) => (a.updatedAt > b.updatedAt ? a : b))
+            const counted = { lastCountedAt: latest.updatedAt, lastCountedBy: latest.countedById }
+
+            let movementId: string | null = null
+            if (line.variance !== 0) {
+                const previousStock = await lockLocationStock(tx, stockCount.locationId, line.inventoryItemId)
+                const newStock = roundQuantity(previousStock + line.variance)
+
+                const movement = await tx.stockMovement.create({
+                    data: {
+                        movementNumber: generateMovementNumber(),
+                        inventoryItemId: line.inventoryItemId,
+                        locationId: stockCount.locationId,
+                        movementType: 'COUNT',
+                        quantity: line.variance,
+                        previousStock,
+                        newStock,
+                        unitCost: line.unitCost,
+                        totalCost: Math.abs(line.varianceValue ?? 0),
+                        referenceType: STOCK_COUNT_REFERENCE_TYPE,
+                        referenceId: stockCount.id,
+                        reason: `Stock count ${stockCount.countNumber}. Expected: ${line.expectedQty}, Counted: ${line.countedQty}`,
+                        notes: stockCount.notes,
+                        performedById: latest.countedById,
+                        adjustedById: approvedById
+                    }
+                })
+                movementId = movement.id
+
+                await tx.locationStock.update({
+                    where: {
+                        locationId_inventoryItemId: { locationId: stockCount.locationId, inventoryItemId: line.inventoryItemId }
+                    },
+                    data: { currentStock: newStock, ...counted }
+                })
+
+                const allLocationStock = await tx.locationStock.aggregate({
+                    where: { inventoryItemId: line.inventoryItemId },
+                    _sum: { currentStock: true }
+                })
+                await tx.inventoryItem.update({
+                    where: { id: line.inventoryItemId },
+                    data: { currentStock: allLocationStock._sum.currentStock || 0 }
+                })
+
+                changedItemIds.push(line.inventoryItemId)
+            } else {
+                await tx.locationStock.updateMany({
+                    where: { locationId: stockCount.locationId, inventoryItemId: line.inventoryItemId },
+                    data: counted
+                })
+            }
+
+            await tx.stockCountLine.update({
+                where: {
+                    stockCountId_inventoryItemId: { stockCountId: stockCount.id, inventoryItemId: line.inventoryItemId }
+                },
+                data: { countedQty: line.countedQty, movementId }
+            })
+        }
+
+        const approved = await tx.stockCount.update({
+            where: { id },
+            data: {
+                varianceValue: report.netVarianceValue,
+                varianceReport: report as unknown as Prisma.InputJsonValue
+            }
+        })
+
+        return { stockCount: approved, report, inventoryItemIds: changedItemIds }
+    })
+}
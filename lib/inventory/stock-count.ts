@@ -0,0 +1,118 @@
+/**
+ * Stock Count Variance
+ * Pure helpers that total device tallies and value the difference against
+ * the system quantity
+ */
+
+import { roundMoney, toNumber, type Numeric } from '../menu/pricing'
+import { roundQuantity } from './deduction'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CountLineForVariance {
+    inventoryItemId: string
+    expectedQty: Numeric
+    unitCost: Numeric
+    inventoryItem: { sku: string; name: string; unitOfMeasure: string }
+}
+
+export interface CountEntryForVariance {
+    inventoryItemId: string
+    deviceId: string
+    quantity: Numeric
+}
+
+export interface VarianceLine {
+    inventoryItemId: string
+    sku: string
+    name: string
+    unitOfMeasure: string
+    expectedQty: number
+    /** Null when no device has counted the item */
+    countedQty: number | null
+    variance: number | null
+    unitCost: number
+    varianceValue: number | null
+    devices: number
+}
+
+export interface VarianceReport {
+    lines: VarianceLine[]
+    countedItems: number
+    uncountedItems: number
+    itemsWithVariance: number
+    /** Value of missing stock, as a positive amount */
+    shortageValue: number
+    surplusValue: number
+    netVarianceValue: number
+}
+
+// ============================================================================
+// VARIANCE
+// ============================================================================
+
+/**
+ * Per-item variance for a count. Each device's tally is one part of the
+ * item's total, so they are summed. Uncounted items carry no variance and
+ * are left alone when the count posts.
+ */
+export function buildVarianceReport(
+    lines: CountLineForVariance[],
+    entries: CountEntryForVariance[]
+): VarianceReport {
+    const tallies = new Map<string, { quantity: number; devices: number }>()
+    for (const entry of entries) {
+        const tally = tallies.get(entry.inventoryItemId) ?? { quantity: 0, devices: 0 }
+        tally.quantity += toNumber(entry.quantity)
+        tally.devices += 1
+        tallies.set(entry.inventoryItemId, tally)
+    }
+
+    const report: VarianceReport = {
+        lines: [],
+        countedItems: 0,
+        uncountedItems: 0,
+        itemsWithVariance: 0,
+        shortageValue: 0,
+        surplusValue: 0,
+        netVarianceValue: 0,
+    }
+
+    for (const line of lines) {
+        const expectedQty = toNumber(line.expectedQty)
+        const unitCost = toNumber(line.unitCost)
+        const tally = tallies.get(line.inventoryItemId)
+        const countedQty = tally ? roundQuantity(tally.quantity) : null
+        const variance = countedQty === null ? null : roundQuantity(countedQty - expectedQty)
+        const varianceValue = variance === null ? null : roundMoney(variance * unitCost)
+
+        report.lines.push({
+            inventoryItemId: line.inventoryItemId,
+            sku: line.inventoryItem.sku,
+            name: line.inventoryItem.name,
+            unitOfMeasure: line.inventoryItem.unitOfMeasure,
+            expectedQty,
+            countedQty,
+            variance,
+            unitCost,
+            varianceValue,
+            devices: tally?.devices ?? 0,
+        })
+
+        if (countedQty === null) {
+            report.uncountedItems += 1
+            continue
+        }
+        report.countedItems += 1
+        if (variance !== 0) report.itemsWithVariance += 1
+        if (varianceValue! < 0) report.shortageValue = roundMoney(report.shortageValue - varianceValue!)
+        if (varianceValue! > 0) report.surplusValue = roundMoney(report.surplusValue + varianceValue!)
+    }
+
+    report.netVarianceValue = roundMoney(report.surplusValue - report.shortageValue)
+    // Largest losses first, the order a manager reviews them in
+    report.lines.sort((a, b) => (a.varianceValue ?? 0) - (b.varianceValue ?? 0))
+    return report
+}
@@ -0,0 +1,63 @@
+/**
+ * Stock Level Service
+ * Current stock of items at a location, locked for writers and sent as
+ * realtime events for live views
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Prisma } from '@prisma/client'
+import { stockLevelEvents, type DomainEvent } from '@/lib/realtime/events'
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+/**
+ * Stock-updated events for the items at a location, plus low-stock alerts for
+ * any at or below their minimum. The location minimum wins over the item's.
+ */
+export async function getStockLevelEvents(locationId: string, inventoryItemIds: string[]): Promise<DomainEvent[]> {
+    if (inventoryItemIds.length === 0) return []
+
+    const stock = await prisma.locationStock.findMany({
+        where: { locationId, inventoryItemId: { in: inventoryItemIds } },
+        include: { inventoryItem: { select: { id: true, name: true, minimumStock: true } } }
+    })
+
+    return stock.flatMap(level => stockLevelEvents(
+        locationId,
+        {
+            id: level.inventoryItem.id,
+            name: level.inventoryItem.name,
+            minimumStock: level.minimumStock ?? level.inventoryItem.minimumStock
+        },
+        Number(level.currentStock)
+    ))
+}
+
+// ============================================================================
+// LOCKING
+// ============================================================================
+
+/**
+ * Locks an item's stock row at a location for the rest of the transaction,
+ * creating it empty if missing, and returns the stock on it. Writers that
+ * record previous and new stock take it first, so concurrent movements wait
+ * for each other instead of overwriting one another's totals.
+ */
+export async function lockLocationStock(
+    tx: Prisma.TransactionClient,
+    locationId: string,
+    inventoryItemId: string
+): Promise<number> {
+    await tx.locationStock.upsert({
+        where: { locationId_inventoryItemId: { locationId, inventoryItemId } },
+        update: {},
+        create: { locationId, inventoryItemId, currentStock: 0 }
+    })
+    const [row] = await tx.$queryRaw<{ currentStock: Prisma.Decimal }[]>`
+        SELECT "currentStock" FROM "LocationStock"
+        WHERE "locationId" = ${locationId} AND "inventoryItemId" = ${inventoryItemId}
+        FOR UPDATE`
+    return Number(row.currentStock)
+}
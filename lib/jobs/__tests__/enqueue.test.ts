@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { withEnqueueTimeout } from '../enqueue'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('withEnqueueTimeout', () => {
+  it('gives up on a queue that never settles', async () => {
+    vi.useFakeTimers()
+    const never = new Promise(() => undefined)
+    const result = withEnqueueTimeout(never, 2000)
+    const assertion = expect(result).rejects.toThrow('Job queue did not respond within 2000ms')
+
+    await vi.advanceTimersByTimeAsync(2000)
+    await assertion
+  })
+
+  it('passes through a job added in time, and its errors', async () => {
+    await expect(withEnqueueTimeout(Promise.resolve({ id: 'job-1' }), 50)).resolves.toEqual({ id: 'job-1' })
+    await expect(withEnqueueTimeout(Promise.reject(new Error('bad job')), 50)).rejects.toThrow('bad job')
+  })
+
+  it('lets the caller fall back to doing the work inline', async () => {
+    vi.useFakeTimers()
+    const inline = vi.fn().mockResolvedValue('sent')
+    const delivered = withEnqueueTimeout(new Promise(() => undefined), 100).catch(() => inline())
+
+    await vi.advanceTimersByTimeAsync(100)
+    await expect(delivered).resolves.toBe('sent')
+    expect(inline).toHaveBeenCalledOnce()
+  })
+})
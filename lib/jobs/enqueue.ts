@@ -0,0 +1,21 @@
+/**
+ * Enqueue Timeout
+ * BullMQ holds commands until Redis answers rather than failing them, so
+ * adding a job while Redis is down never settles. Request handlers race the
+ * add against a short timeout and fall back to doing the work inline.
+ */
+
+export const ENQUEUE_TIMEOUT_MS = 2000
+
+/**
+ * Settles like `pending`, or rejects once `ms` has passed without it
+ * settling. The job may still be added later if Redis comes back; jobs are
+ * keyed or idempotent so doing the work inline as well is safe.
+ */
+export function withEnqueueTimeout<T>(pending: Promise<T>, ms: number = ENQUEUE_TIMEOUT_MS): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Job queue did not respond within ${ms}ms`)), ms)
+    })
+    return Promise.race([pending, timeout]).finally(() => clearTimeout(timer))
+}
@@ -9,4 +9,4 @@ export {
     jobs
 } from './queues'
 
-export type { EmailJobData, SMSJobData, InventoryJobData } from './queues'
+export type { NotificationJobData, InventoryJobData, ReportJobData, ScheduledJobData } from './queues'
@@ -6,11 +6,12 @@
  * - SMS/WhatsApp notifications
  * - Inventory stock deductions
  * - Report generation
- * - Scheduled tasks (reservation reminders, expiry checks)
+ * - Scheduled tasks (reservation reminders and no-shows, expiry checks, payment reconciliation)
  */
 
 import { Queue } from 'bullmq'
 import IORedis from 'ioredis'
+import { withEnqueueTimeout } from './enqueue'
 
 // Redis connection
 const getRedisConnection = () => {
@@ -109,102 +110,114 @@ export const scheduledQueue = new Queue('scheduled', {
 // Job Types
 // =============================================================================
 
-export interface EmailJobData {
-    type: 'order-confirmation' | 'reservation-confirmation' | 'reservation-reminder' |
-    'waitlist-notification' | 'password-reset' | 'verification' | 'general'
-    to: string
-    subject: string
-    template?: string
-    data: Record<string, any>
-}
-
-export interface SMSJobData {
-    type: 'order-status' | 'reservation-reminder' | 'waitlist-ready' | 'verification' | 'general'
-    to: string
-    message: string
-    useWhatsApp?: boolean
+// Email and SMS jobs deliver a stored Notification (see lib/notifications)
+export interface NotificationJobData {
+    notificationId: string
 }
 
 export interface InventoryJobData {
-    type: 'deduct-stock' | 'check-low-stock' | 'check-expiring-lots' | 'sync-stock'
+    type: 'deduct-stock' | 'reverse-stock' | 'check-low-stock' | 'check-expiring-lots' | 'sync-stock' | 'send-purchase-order'
     locationId?: string
     orderId?: string
+    purchaseOrderId?: string
+    performedById?: string
     items?: Array<{ itemId: string; quantity: number }>
 }
 
+export interface ReportJobData {
+    type: 'generate-report'
+    reportId: string
+}
+
+export interface ScheduledJobData {
+    type: 'reconcile-payments' | 'send-reservation-reminders' | 'process-reservation-no-shows'
+}
+
 // =============================================================================
 // Job Creators (Add jobs to queues)
 // =============================================================================
 
 export const jobs = {
-    // Email jobs
-    async sendOrderConfirmation(to: string, orderData: Record<string, any>) {
-        return emailQueue.add('order-confirmation', {
-            type: 'order-confirmation',
-            to,
-            subject: `Order Confirmation #${orderData.orderNumber}`,
-            template: 'order-confirmation',
-            data: orderData,
-        })
-    },
-
-    async sendReservationConfirmation(to: string, reservationData: Record<string, any>) {
-        return emailQueue.add('reservation-confirmation', {
-            type: 'reservation-confirmation',
-            to,
-            subject: `Reservation Confirmed - ${reservationData.date}`,
-            template: 'reservation-confirmation',
-            data: reservationData,
-        })
-    },
-
-    // SMS jobs
-    async sendOrderStatusSMS(to: string, orderNumber: string, status: string) {
-        const statusMessages: Record<string, string> = {
-            confirmed: `Your order #${orderNumber} has been confirmed and is being prepared.`,
-            preparing: `Your order #${orderNumber} is now being prepared.`,
-            ready: `Your order #${orderNumber} is ready for pickup!`,
-            completed: `Thank you! Your order #${orderNumber} has been completed.`,
-        }
-
-        return smsQueue.add('order-status', {
-            type: 'order-status',
-            to,
-            message: statusMessages[status] || `Order #${orderNumber} status: ${status}`,
-        })
-    },
-
-    async sendWaitlistNotification(to: string, guestName: string, useWhatsApp = false) {
-        return smsQueue.add('waitlist-ready', {
-            type: 'waitlist-ready',
-            to,
-            message: `Hi ${guestName}! Your table is ready. Please proceed to the host stand within 10 minutes.`,
-            useWhatsApp,
-        })
+    // Jobs added while handling a request give up after a short wait when
+    // Redis is down, so the caller can fall back to doing the work inline
+
+    // Notification jobs
+    // Keyed by notification so it is only ever queued once
+    async deliverNotification(notificationId: string, channel: 'email' | 'sms' | 'whatsapp') {
+        const queue = channel === 'email' ? emailQueue : smsQueue
+        return withEnqueueTimeout(queue.add(`deliver-${channel}`, {
+            notificationId,
+        }, { jobId: `notification-${notificationId}` }))
     },
 
     // Inventory jobs
-    async deductStockForOrder(orderId: string, locationId: string, items: Array<{ itemId: string; quantity: number }>) {
-        return inventoryQueue.add('deduct-stock', {
+    // Keyed by order so a completion retried from the UI only deducts once
+    async deductStockForOrder(orderId: string, locationId: string, performedById: string) {
+        return withEnqueueTimeout(inventoryQueue.add('deduct-stock', {
             type: 'deduct-stock',
             orderId,
             locationId,
-            items,
-        })
+            performedById,
+        }, { jobId: `deduct-stock-${orderId}` }))
+    },
+
+    async reverseStockForOrder(orderId: string, locationId: string, performedById: string) {
+        return withEnqueueTimeout(inventoryQueue.add('reverse-stock', {
+            type: 'reverse-stock',
+            orderId,
+            locationId,
+            performedById,
+        }, { jobId: `reverse-stock-${orderId}` }))
     },
 
     async checkLowStock(locationId?: string) {
-        return inventoryQueue.add('check-low-stock', {
+        return withEnqueueTimeout(inventoryQueue.add('check-low-stock', {
             type: 'check-low-stock',
             locationId,
-        })
+        }))
     },
 
     async checkExpiringLots(locationId?: string) {
-        return inventoryQueue.add('check-expiring-lots', {
+        return withEnqueueTimeout(inventoryQueue.add('check-expiring-lots', {
             type: 'check-expiring-lots',
             locationId,
-        })
+        }))
+    },
+
+    // Keyed by purchase order so an approval retried from the UI only emails the supplier once
+    async sendPurchaseOrder(purchaseOrderId: string) {
+        return withEnqueueTimeout(inventoryQueue.add('send-purchase-order', {
+            type: 'send-purchase-order',
+            purchaseOrderId,
+        }, { jobId: `send-purchase-order-${purchaseOrderId}` }))
+    },
+
+    // Report jobs
+    async generateReport(reportId: string) {
+        return withEnqueueTimeout(reportsQueue.add('generate-report', {
+            type: 'generate-report',
+            reportId,
+        }, { jobId: `generate-report-${reportId}` }))
+    },
+
+    // Scheduled jobs
+    // Repeats every few minutes; adding it again keeps the one schedule
+    async schedulePaymentReconciliation(everyMinutes = 5) {
+        return scheduledQueue.add('reconcile-payments', {
+            type: 'reconcile-payments',
+        }, { repeat: { every: everyMinutes * 60_000 }, jobId: 'reconcile-payments' })
+    },
+
+    async scheduleReservationReminders(everyMinutes = 15) {
+        return scheduledQueue.add('send-reservation-reminders', {
+            type: 'send-reservation-reminders',
+        }, { repeat: { every: everyMinutes * 60_000 }, jobId: 'send-reservation-reminders' })
+    },
+
+    async scheduleReservationNoShows(everyMinutes = 5) {
+        return scheduledQueue.add('process-reservation-no-shows', {
+            type: 'process-reservation-no-shows',
+        }, { repeat: { every: everyMinutes * 60_000 }, jobId: 'process-reservation-no-shows' })
     },
 }
 
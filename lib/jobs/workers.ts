@@ -6,10 +6,17 @@
  * - SMS/WhatsApp notifications
  * - Inventory operations
  * - Report generation
+ * - Scheduled tasks (payment reconciliation, reservation reminders and no-shows)
  */
 
-import { Worker } from 'bullmq'
-import { getConnection, EmailJobData, SMSJobData, InventoryJobData } from './queues'
+import { Job, Worker } from 'bullmq'
+import { getConnection, jobs, NotificationJobData, InventoryJobData, ReportJobData, ScheduledJobData } from './queues'
+import { deductOrderStock, getStockLevelEvents, reverseOrderStock, sendPurchaseOrder } from '@/lib/inventory'
+import { publishEvent, publishEvents } from '@/lib/realtime'
+import { generateReport } from '@/lib/reports'
+import { deliverNotification } from '@/lib/notifications'
+import { paymentReceivedEvent, reconcileProcessingTransactions } from '@/lib/payments'
+import { processNoShows, sendDueReminders } from '@/lib/reservations'
 
 // Simple console logger (replace with your preferred logger)
 const log = {
@@ -19,60 +26,34 @@ const log = {
 }
 
 // =============================================================================
-// Email Worker
+// Email & SMS Workers
 // =============================================================================
-const emailWorker = new Worker<EmailJobData>(
-    'email',
-    async (job) => {
-        const { type, to, subject, data: _data } = job.data
+// Both deliver stored notifications; the last attempt marks the row failed
+const processNotification = (channel: string) => async (job: Job<NotificationJobData>) => {
+    const { notificationId } = job.data
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
 
-        log.info(`Processing email job: ${type}`, { to, subject })
-
-        try {
-            // TODO: Implement actual email sending with nodemailer
-            // import nodemailer from 'nodemailer'
-            // const transporter = nodemailer.createTransport({...})
-            // await transporter.sendMail({ to, subject, html: ... })
+    log.info(`Processing ${channel} notification: ${notificationId}`, { attempt: job.attemptsMade + 1 })
 
-            // Simulate sending
-            await new Promise(resolve => setTimeout(resolve, 500))
+    try {
+        const notification = await deliverNotification(notificationId, { finalAttempt })
+        log.info(`${channel} notification sent: ${notificationId}`)
+        return { success: true, sentAt: notification?.sentAt?.toISOString() }
+    } catch (error) {
+        log.error(`${channel} notification failed: ${notificationId}`, error)
+        throw error
+    }
+}
 
-            log.info(`Email sent: ${type} to ${to}`)
-            return { success: true, sentAt: new Date().toISOString() }
-        } catch (error) {
-            log.error(`Email failed: ${type} to ${to}`, error)
-            throw error
-        }
-    },
+const emailWorker = new Worker<NotificationJobData>(
+    'email',
+    processNotification('Email'),
     { connection: getConnection(), concurrency: 5 }
 )
 
-// =============================================================================
-// SMS Worker
-// =============================================================================
-const smsWorker = new Worker<SMSJobData>(
+const smsWorker = new Worker<NotificationJobData>(
     'sms',
-    async (job) => {
-        const { type, to, message: _message, useWhatsApp } = job.data
-
-        log.info(`Processing SMS job: ${type}`, { to, useWhatsApp })
-
-        try {
-            // TODO: Implement actual SMS sending with Twilio
-            // import twilio from 'twilio'
-            // const client = twilio(accountSid, authToken)
-            // await client.messages.create({ to, from: phoneNumber, body: message })
-
-            // Simulate sending
-            await new Promise(resolve => setTimeout(resolve, 300))
-
-            log.info(`SMS sent: ${type} to ${to}`)
-            return { success: true, sentAt: new Date().toISOString() }
-        } catch (error) {
-            log.error(`SMS failed: ${type} to ${to}`, error)
-            throw error
-        }
-    },
+    processNotification('SMS'),
     { connection: getConnection(), concurrency: 3 }
 )
 
@@ -82,19 +63,47 @@ const smsWorker = new Worker<SMSJobData>(
 const inventoryWorker = new Worker<InventoryJobData>(
     'inventory',
     async (job) => {
-        const { type, locationId, items } = job.data
+        const { type, locationId, orderId, performedById, purchaseOrderId } = job.data
 
         log.info(`Processing inventory job: ${type}`, { locationId })
 
         try {
             switch (type) {
-                case 'deduct-stock':
-                    // TODO: Implement stock deduction using Prisma
-                    // for (const item of items) {
-                    //   await prisma.inventoryItem.update({...})
-                    // }
-                    log.info(`Stock deducted for ${items?.length || 0} items`)
-                    break
+                case 'deduct-stock': {
+                    if (!orderId || !performedById) {
+                        throw new Error('Missing orderId or performedById for stock deduction')
+                    }
+                    const result = await deductOrderStock(orderId, performedById)
+                    if (result.skipped) {
+                        log.info(`Stock already deducted for order ${orderId}`)
+                    } else {
+                        log.info(`Stock deducted for order ${orderId}`, { movements: result.movementIds.length })
+                    }
+                    if (result.shortfalls.length > 0) {
+                        log.warn(`Order ${orderId} sold more than was in stock`, result.shortfalls)
+                    }
+                    await publishEvents(await getStockLevelEvents(result.locationId, result.inventoryItemIds))
+                    return { success: true, processedAt: new Date().toISOString(), ...result }
+                }
+
+                case 'reverse-stock': {
+                    if (!orderId || !performedById) {
+                        throw new Error('Missing orderId or performedById for stock reversal')
+                    }
+                    const result = await reverseOrderStock(orderId, performedById)
+                    log.info(`Stock returned for order ${orderId}`, { movements: result.movementIds.length })
+                    await publishEvents(await getStockLevelEvents(result.locationId, result.inventoryItemIds))
+                    return { success: true, processedAt: new Date().toISOString(), ...result }
+                }
+
+                case 'send-purchase-order': {
+                    if (!purchaseOrderId) {
+                        throw new Error('Missing purchaseOrderId for purchase order dispatch')
+                    }
+                    const { order } = await sendPurchaseOrder(purchaseOrderId)
+                    log.info(`Purchase order ${order.poNumber} sent to ${order.sentTo}`)
+                    return { success: true, processedAt: new Date().toISOString(), sentTo: order.sentTo }
+                }
 
                 case 'check-low-stock':
                     // TODO: Query low stock items and emit alerts
@@ -119,6 +128,88 @@ const inventoryWorker = new Worker<InventoryJobData>(
     { connection: getConnection(), concurrency: 2 }
 )
 
+// =============================================================================
+// Reports Worker
+// =============================================================================
+const reportsWorker = new Worker<ReportJobData>(
+    'reports',
+    async (job) => {
+        const { type, reportId } = job.data
+
+        log.info(`Processing report job: ${type}`, { reportId })
+
+        try {
+            await generateReport(reportId)
+            log.info(`Report generated: ${reportId}`)
+            return { success: true, processedAt: new Date().toISOString() }
+        } catch (error) {
+            log.error(`Report job failed: ${reportId}`, error)
+            throw error
+        }
+    },
+    { connection: getConnection(), concurrency: 1 }
+)
+
+// =============================================================================
+// Scheduled Worker
+// =============================================================================
+const scheduledWorker = new Worker<ScheduledJobData>(
+    'scheduled',
+    async (job) => {
+        const { type } = job.data
+
+        log.info(`Processing scheduled job: ${type}`)
+
+        try {
+            switch (type) {
+                case 'reconcile-payments': {
+                    const { transactions, ...summary } = await reconcileProcessingTransactions()
+                    for (const transaction of transactions) {
+                        if (transaction.status === 'COMPLETED') {
+                            await publishEvent(paymentReceivedEvent(transaction))
+                        }
+                    }
+                    if (summary.checked > 0) {
+                        log.info('Stuck payments reconciled', summary)
+                    }
+                    return { success: true, processedAt: new Date().toISOString(), ...summary }
+                }
+
+                case 'send-reservation-reminders': {
+                    const summary = await sendDueReminders()
+                    if (summary.sent > 0) {
+                        log.info('Reservation reminders sent', summary)
+                    }
+                    return { success: true, processedAt: new Date().toISOString(), ...summary }
+                }
+
+                case 'process-reservation-no-shows': {
+                    const { updated, ...summary } = await processNoShows()
+                    await publishEvents(updated.map(reservation => ({
+                        type: 'reservation.updated' as const,
+                        locationId: reservation.locationId,
+                        reservationId: reservation.id,
+                        status: reservation.status,
+                    })))
+                    if (updated.length > 0) {
+                        log.info('Reservation no-shows processed', summary)
+                    }
+                    return { success: true, processedAt: new Date().toISOString(), ...summary }
+                }
+
+                default:
+                    log.warn(`Unknown scheduled job type: ${type}`)
+            }
+
+            return { success: true, processedAt: new Date().toISOString() }
+        } catch (error) {
+            log.error(`Scheduled job failed: ${type}`, error)
+            throw error
+        }
+    },
+    { connection: getConnection(), concurrency: 1 }
+)
+
 // =============================================================================
 // Worker Event Handlers
 // =============================================================================
@@ -139,6 +230,20 @@ const setupWorkerEvents = (worker: Worker, name: string) => {
 setupWorkerEvents(emailWorker, 'Email')
 setupWorkerEvents(smsWorker, 'SMS')
 setupWorkerEvents(inventoryWorker, 'Inventory')
+setupWorkerEvents(reportsWorker, 'Reports')
+setupWorkerEvents(scheduledWorker, 'Scheduled')
+
+jobs.schedulePaymentReconciliation().catch((error) => {
+    log.error('Could not schedule payment reconciliation', error)
+})
+
+jobs.scheduleReservationReminders().catch((error) => {
+    log.error('Could not schedule reservation reminders', error)
+})
+
+jobs.scheduleReservationNoShows().catch((error) => {
+    log.error('Could not schedule reservation no-shows', error)
+})
 
 // =============================================================================
 // Graceful Shutdown
@@ -150,6 +255,8 @@ const shutdown = async () => {
         emailWorker.close(),
         smsWorker.close(),
         inventoryWorker.close(),
+        reportsWorker.close(),
+        scheduledWorker.close(),
     ])
 
     const connection = getConnection()
@@ -166,3 +273,5 @@ log.info('🚀 BullMQ workers started')
 log.info('   Email worker: running')
 log.info('   SMS worker: running')
 log.info('   Inventory worker: running')
+log.info('   Reports worker: running')
+log.info('   Scheduled worker: running')
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCategoryStationMap,
+  getKitchenRoutingSettings,
+  mapOrderPriority,
+  planKitchenTickets,
+  resolveStationsForCategory,
+} from '../routing'
+
+const stations = [
+  { id: 'grill', categories: [{ categoryId: 'burgers' }, { categoryId: 'steaks' }] },
+  { id: 'cold', categories: [{ categoryId: 'salads' }, { categoryId: 'desserts' }] },
+  { id: 'bar', categories: [{ categoryId: 'drinks' }, { categoryId: 'desserts' }] },
+]
+
+const parentOf = new Map<string, string | null>([
+  ['burgers', null],
+  ['smash-burgers', 'burgers'],
+  ['salads', null],
+  ['sides', null],
+])
+
+describe('getKitchenRoutingSettings', () => {
+  it('reads the kitchen block from location settings', () => {
+    expect(getKitchenRoutingSettings({ kitchen: { fallbackStationId: 'a', expoStationId: 'b' } }))
+      .toEqual({ fallbackStationId: 'a', expoStationId: 'b' })
+  })
+
+  it('ignores missing or malformed settings', () => {
+    expect(getKitchenRoutingSettings(null)).toEqual({})
+    expect(getKitchenRoutingSettings({ kitchen: 'grill' })).toEqual({})
+    expect(getKitchenRoutingSettings({ kitchen: { fallbackStationId: 42 } })).toEqual({})
+  })
+})
+
+describe('resolveStationsForCategory', () => {
+  const map = buildCategoryStationMap(stations)
+
+  it('returns every station mapped to the category', () => {
+    expect(resolveStationsForCategory('desserts', map, parentOf)).toEqual(['cold', 'bar'])
+  })
+
+  it('inherits the parent category mapping', () => {
+    expect(resolveStationsForCategory('smash-burgers', map, parentOf)).toEqual(['grill'])
+  })
+
+  it('uses the fallback station before the expo station', () => {
+    expect(resolveStationsForCategory('sides', map, parentOf, { fallbackStationId: 'fb', expoStationId: 'expo' }))
+      .toEqual(['fb'])
+    expect(resolveStationsForCategory('sides', map, parentOf, { expoStationId: 'expo' })).toEqual(['expo'])
+  })
+
+  it('returns nothing when no station or fallback is configured', () => {
+    expect(resolveStationsForCategory('sides', map, parentOf)).toEqual([])
+  })
+})
+
+describe('planKitchenTickets', () => {
+  const map = buildCategoryStationMap(stations)
+
+  it('groups items into one ticket per station', () => {
+    const items = [
+      { id: 'i1', categoryId: 'burgers' },
+      { id: 'i2', categoryId: 'salads' },
+      { id: 'i3', categoryId: 'steaks' },
+    ]
+
+    const plan = planKitchenTickets(items, map, parentOf)
+
+    expect(plan.tickets.get('grill')?.map(i => i.id)).toEqual(['i1', 'i3'])
+    expect(plan.tickets.get('cold')?.map(i => i.id)).toEqual(['i2'])
+    expect(plan.unrouted).toEqual([])
+  })
+
+  it('reports items with no station', () => {
+    const plan = planKitchenTickets([{ id: 'i1', categoryId: 'sides' }], map, parentOf)
+    expect(plan.tickets.size).toBe(0)
+    expect(plan.unrouted.map(i => i.id)).toEqual(['i1'])
+  })
+
+  it('skips inactive stations', () => {
+    const plan = planKitchenTickets(
+      [{ id: 'i1', categoryId: 'desserts' }],
+      map,
+      parentOf,
+      {},
+      new Set(['cold'])
+    )
+    expect([...plan.tickets.keys()]).toEqual(['cold'])
+  })
+
+  it('falls through to the expo station when the fallback is inactive', () => {
+    const plan = planKitchenTickets(
+      [{ id: 'i1', categoryId: 'sides' }],
+      map,
+      parentOf,
+      { fallbackStationId: 'fb', expoStationId: 'expo' },
+      new Set(['grill', 'expo'])
+    )
+    expect([...plan.tickets.keys()]).toEqual(['expo'])
+  })
+})
+
+describe('mapOrderPriority', () => {
+  it('honours an explicit priority in metadata', () => {
+    expect(mapOrderPriority({ orderType: 'DINE_IN', metadata: { priority: 'rush' } })).toBe('RUSH')
+  })
+
+  it('ignores unknown priorities', () => {
+    expect(mapOrderPriority({ orderType: 'DINE_IN', metadata: { priority: 'asap' } })).toBe('NORMAL')
+  })
+
+  it('bumps drive-thru orders', () => {
+    expect(mapOrderPriority({ orderType: 'DRIVE_THRU' })).toBe('HIGH')
+    expect(mapOrderPriority({ orderType: 'DELIVERY' })).toBe('NORMAL')
+  })
+})
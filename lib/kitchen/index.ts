@@ -0,0 +1,2 @@
+export * from './routing'
+export * from './routing.service'
@@ -0,0 +1,255 @@
+/**
+ * Kitchen Routing Service
+ * Splits orders into KitchenOrder tickets, one per KitchenStation
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma } from '@prisma/client'
+import {
+    buildCategoryStationMap,
+    getKitchenRoutingSettings,
+    mapOrderPriority,
+    planKitchenTickets,
+    type KitchenRoutingSettings,
+} from './routing'
+import { nextSequenceValue } from '@/lib/sequences'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const TICKET_INCLUDE = {
+    items: {
+        include: { orderItem: { select: { name: true, specialInstructions: true } } }
+    }
+} satisfies Prisma.KitchenOrderInclude
+
+export interface RoutingResult {
+    locationId: string
+    ticketNumber: number | null
+    kitchenOrders: Prisma.KitchenOrderGetPayload<{ include: typeof TICKET_INCLUDE }>[]
+    unroutedItemIds: string[]
+}
+
+const NON_ROUTABLE_STATUSES = ['COMPLETED', 'CANCELLED']
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/**
+ * Creates kitchen tickets for every order item that has not been sent to
+ * the kitchen yet. Safe to call repeatedly: items already on a ticket are
+ * skipped, so items added to an open order are fired as a new ticket that
+ * keeps the order's existing ticket number.
+ */
+export async function routeOrderToKitchen(orderId: string): Promise<RoutingResult> {
+    return prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            include: {
+                location: { select: { id: true, code: true, timezone: true, settings: true } },
+                orderItems: {
+                    where: {
+                        status: { not: 'cancelled' },
+                        kitchenOrderItems: { none: {} }
+                    },
+                    include: { menuItem: { select: { categoryId: true } } }
+                },
+                kitchenOrders: { select: { ticketNumber: true }, take: 1 }
+            }
+        })
+
+        if (!order) {
+            throw new Error('Order not found')
+        }
+
+        if (NON_ROUTABLE_STATUSES.includes(order.status)) {
+            throw new Error(`Cannot route a ${order.status.toLowerCase()} order to the kitchen`)
+        }
+
+        if (order.orderItems.length === 0) {
+            return {
+                locationId: order.locationId,
+                ticketNumber: order.kitchenOrders[0]?.ticketNumber ?? null,
+                kitchenOrders: [],
+                unroutedItemIds: []
+            }
+        }
+
+        const [stations, categories] = await Promise.all([
+            tx.kitchenStation.findMany({
+                where: { locationId: order.locationId, isActive: true },
+                select: { id: true, categories: { select: { categoryId: true } } }
+            }),
+            tx.category.findMany({ select: { id: true, parentId: true } })
+        ])
+
+        const settings: KitchenRoutingSettings = getKitchenRoutingSettings(order.location.settings)
+        const plan = planKitchenTickets(
+            order.orderItems.map(item => ({ ...item, categoryId: item.menuItem.categoryId })),
+            buildCategoryStationMap(stations),
+            new Map(categories.map(c => [c.id, c.parentId])),
+            settings,
+            new Set(stations.map(s => s.id))
+        )
+
+        if (plan.tickets.size === 0) {
+            return {
+                locationId: order.locationId,
+                ticketNumber: null,
+                kitchenOrders: [],
+                unroutedItemIds: plan.unrouted.map(item => item.id)
+            }
+        }
+
+        const ticketNumber = order.kitchenOrders[0]?.ticketNumber
+            ?? order.displayNumber
+            ?? await assignDisplayNumber(tx, order.id, order.location)
+        const priority = mapOrderPriority(order)
+
+        const kitchenOrders = []
+        for (const [stationId, items] of plan.tickets) {
+            kitchenOrders.push(await tx.kitchenOrder.create({
+                data: {
+                    ticketNumber,
+                    orderId: order.id,
+                    stationId,
+                    priority,
+                    notes: order.notes,
+                    items: {
+                        create: items.map(item => ({
+                            orderItemId: item.id,
+                            menuItemId: item.menuItemId,
+                            quantity: item.quantity
+                        }))
+                    }
+                },
+                include: TICKET_INCLUDE
+            }))
+        }
+
+        const routedIds = order.orderItems
+            .map(item => item.id)
+            .filter(id => !plan.unrouted.some(item => item.id === id))
+
+        await tx.orderItem.updateMany({
+            where: { id: { in: routedIds } },
+            data: { status: 'sent_to_kitchen' }
+        })
+
+        return {
+            locationId: order.locationId,
+            ticketNumber,
+            kitchenOrders,
+            unroutedItemIds: plan.unrouted.map(item => item.id)
+        }
+    })
+}
+
+/**
+ * Cancels every open kitchen ticket for an order, e.g. when the order
+ * itself is cancelled. Returns the tickets that were cancelled.
+ */
+export async function cancelKitchenTickets(orderId: string) {
+    const openTickets: Prisma.KitchenOrderWhereInput = {
+        orderId,
+        status: { notIn: ['SERVED', 'CANCELLED'] }
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const tickets = await tx.kitchenOrder.findMany({
+            where: openTickets,
+            select: { id: true, stationId: true }
+        })
+
+        await tx.kitchenOrderItem.updateMany({
+            where: { kitchenOrderId: { in: tickets.map(t => t.id) }, status: { not: 'READY' } },
+            data: { status: 'CANCELLED' }
+        })
+        await tx.kitchenOrder.updateMany({
+            where: { id: { in: tickets.map(t => t.id) } },
+            data: { status: 'CANCELLED' }
+        })
+
+        return tickets
+    })
+}
+
+// ============================================================================
+// KITCHEN SETTINGS
+// ============================================================================
+
+export async function getKitchenRouting(locationId: string) {
+    const location = await prisma.location.findUnique({
+        where: { id: locationId },
+        select: { settings: true }
+    })
+
+    if (!location) {
+        throw new Error('Location not found')
+    }
+
+    return getKitchenRoutingSettings(location.settings)
+}
+
+export async function updateKitchenRouting(locationId: string, input: KitchenRoutingSettings) {
+    const location = await prisma.location.findUnique({
+        where: { id: locationId },
+        select: { settings: true }
+    })
+
+    if (!location) {
+        throw new Error('Location not found')
+    }
+
+    const stationIds = [input.fallbackStationId, input.expoStationId].filter((id): id is string => !!id)
+    if (stationIds.length > 0) {
+        const count = await prisma.kitchenStation.count({
+            where: { id: { in: stationIds }, locationId }
+        })
+        if (count !== new Set(stationIds).size) {
+            throw new Error('Routing stations must belong to the same location')
+        }
+    }
+
+    const current = (location.settings && typeof location.settings === 'object' && !Array.isArray(location.settings))
+        ? location.settings as Prisma.JsonObject
+        : {}
+
+    const kitchen: Prisma.JsonObject = {}
+    if (input.fallbackStationId) kitchen.fallbackStationId = input.fallbackStationId
+    if (input.expoStationId) kitchen.expoStationId = input.expoStationId
+
+    const updated = await prisma.location.update({
+        where: { id: locationId },
+        data: { settings: { ...current, kitchen } },
+        select: { settings: true }
+    })
+
+    return getKitchenRoutingSettings(updated.settings)
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Gives an order without one the next daily display number for its location,
+ * which its kitchen tickets then share. Orders are normally numbered when
+ * created; this covers ones that predate sequences.
+ */
+async function assignDisplayNumber(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    location: { id: string; code: string; timezone: string }
+): Promise<number> {
+    const { value } = await nextSequenceValue(tx, 'order', location)
+
+    await tx.order.update({
+        where: { id: orderId },
+        data: { displayNumber: value }
+    })
+
+    return value
+}
@@ -0,0 +1,151 @@
+/**
+ * Kitchen Routing Rules
+ * Pure helpers that decide which KitchenStation receives each order item
+ */
+
+import type { OrderPriority, OrderType } from '@prisma/client'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KitchenRoutingSettings {
+    fallbackStationId?: string
+    expoStationId?: string
+}
+
+export interface StationCategoryMapping {
+    id: string
+    categories: Array<{ categoryId: string }>
+}
+
+export interface RoutableItem {
+    id: string
+    categoryId: string
+}
+
+export interface TicketPlan<T extends RoutableItem> {
+    tickets: Map<string, T[]>
+    unrouted: T[]
+}
+
+const PRIORITIES: OrderPriority[] = ['LOW', 'NORMAL', 'HIGH', 'RUSH']
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Reads the kitchen routing block from `Location.settings`:
+ * { "kitchen": { "fallbackStationId": "...", "expoStationId": "..." } }
+ */
+export function getKitchenRoutingSettings(settings: unknown): KitchenRoutingSettings {
+    if (!settings || typeof settings !== 'object') return {}
+
+    const kitchen = (settings as Record<string, unknown>).kitchen
+    if (!kitchen || typeof kitchen !== 'object') return {}
+
+    const { fallbackStationId, expoStationId } = kitchen as Record<string, unknown>
+    return {
+        ...(typeof fallbackStationId === 'string' && fallbackStationId && { fallbackStationId }),
+        ...(typeof expoStationId === 'string' && expoStationId && { expoStationId }),
+    }
+}
+
+// ============================================================================
+// STATION RESOLUTION
+// ============================================================================
+
+export function buildCategoryStationMap(stations: StationCategoryMapping[]): Map<string, string[]> {
+    const map = new Map<string, string[]>()
+    for (const station of stations) {
+        for (const { categoryId } of station.categories) {
+            const existing = map.get(categoryId) || []
+            if (!existing.includes(station.id)) existing.push(station.id)
+            map.set(categoryId, existing)
+        }
+    }
+    return map
+}
+
+/**
+ * Finds the stations for a category, walking up the category tree when a
+ * sub-category has no mapping of its own. Falls back to the location's
+ * fallback station, then its expo station. When `activeStationIds` is given,
+ * inactive stations are passed over as if they weren't set.
+ */
+export function resolveStationsForCategory(
+    categoryId: string,
+    categoryStations: Map<string, string[]>,
+    parentOf: Map<string, string | null>,
+    settings: KitchenRoutingSettings = {},
+    activeStationIds?: Set<string>
+): string[] {
+    const isActive = (id: string) => !activeStationIds || activeStationIds.has(id)
+    const visited = new Set<string>()
+    let current: string | null | undefined = categoryId
+
+    while (current && !visited.has(current)) {
+        visited.add(current)
+        const stations = (categoryStations.get(current) ?? []).filter(isActive)
+        if (stations.length > 0) return stations
+        current = parentOf.get(current)
+    }
+
+    if (settings.fallbackStationId && isActive(settings.fallbackStationId)) return [settings.fallbackStationId]
+    if (settings.expoStationId && isActive(settings.expoStationId)) return [settings.expoStationId]
+    return []
+}
+
+/**
+ * Groups items into one ticket per station. Items that resolve to no
+ * station are returned separately so callers can report them.
+ */
+export function planKitchenTickets<T extends RoutableItem>(
+    items: T[],
+    categoryStations: Map<string, string[]>,
+    parentOf: Map<string, string | null>,
+    settings: KitchenRoutingSettings = {},
+    activeStationIds?: Set<string>
+): TicketPlan<T> {
+    const tickets = new Map<string, T[]>()
+    const unrouted: T[] = []
+
+    for (const item of items) {
+        const stations = resolveStationsForCategory(item.categoryId, categoryStations, parentOf, settings, activeStationIds)
+
+        if (stations.length === 0) {
+            unrouted.push(item)
+            continue
+        }
+
+        for (const stationId of stations) {
+            const ticket = tickets.get(stationId) || []
+            ticket.push(item)
+            tickets.set(stationId, ticket)
+        }
+    }
+
+    return { tickets, unrouted }
+}
+
+// ============================================================================
+// PRIORITY
+// ============================================================================
+
+/**
+ * Maps an order to a ticket priority. An explicit `metadata.priority`
+ * (set by the POS "rush" button) wins; otherwise drive-thru orders are
+ * bumped to HIGH and everything else is NORMAL.
+ */
+export function mapOrderPriority(order: { orderType: OrderType; metadata?: unknown }): OrderPriority {
+    const metadata = order.metadata
+    if (metadata && typeof metadata === 'object') {
+        const requested = String((metadata as Record<string, unknown>).priority || '').toUpperCase()
+        if (PRIORITIES.includes(requested as OrderPriority)) {
+            return requested as OrderPriority
+        }
+    }
+
+    return order.orderType === 'DRIVE_THRU' ? 'HIGH' : 'NORMAL'
+}
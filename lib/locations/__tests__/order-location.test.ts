@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkLocationForOrder,
+  distanceKm,
+  findNearestLocation,
+  getLocationOrderRules,
+  isLocationOpen,
+} from '../order-location'
+
+const base = {
+  timezone: 'UTC',
+  hasDelivery: true,
+  hasTakeaway: true,
+  hasDineIn: true,
+  hasDriveThru: false,
+}
+
+const gulberg = { ...base, id: 'gulberg', name: 'Gulberg', latitude: '31.5204', longitude: '74.3587', deliveryRadius: '5' }
+const dha = { ...base, id: 'dha', name: 'DHA', latitude: '31.4697', longitude: '74.4098', deliveryRadius: '8' }
+
+// Wednesday 2026-01-14
+const at = (time: string) => new Date(`2026-01-14T${time}:00Z`)
+
+describe('distanceKm', () => {
+  it('computes great-circle distance', () => {
+    const lahoreToKarachi = distanceKm({ latitude: 31.5204, longitude: 74.3587 }, { latitude: 24.8607, longitude: 67.0011 })
+    expect(lahoreToKarachi).toBeGreaterThan(1000)
+    expect(lahoreToKarachi).toBeLessThan(1050)
+  })
+})
+
+describe('isLocationOpen', () => {
+  it('treats locations without hours as open', () => {
+    expect(isLocationOpen({ timezone: 'UTC', hours: null }, at('03:00'))).toBe(true)
+  })
+
+  it('checks the local day and time', () => {
+    const hours = { wednesday: { open: '11:00', close: '22:00' } }
+    expect(isLocationOpen({ timezone: 'UTC', hours }, at('12:00'))).toBe(true)
+    expect(isLocationOpen({ timezone: 'UTC', hours }, at('22:30'))).toBe(false)
+    expect(isLocationOpen({ timezone: 'Asia/Karachi', hours }, at('12:00'))).toBe(true) // 17:00 local
+    expect(isLocationOpen({ timezone: 'Asia/Karachi', hours }, at('18:00'))).toBe(false) // 23:00 local
+  })
+
+  it('accepts short day keys, string JSON and closed days', () => {
+    expect(isLocationOpen({ timezone: 'UTC', hours: '{"wed":{"open":"09:00","close":"17:00"}}' }, at('10:00'))).toBe(true)
+    expect(isLocationOpen({ timezone: 'UTC', hours: { wed: { open: '09:00', close: '17:00', closed: true } } }, at('10:00'))).toBe(false)
+  })
+
+  it('handles hours that run past midnight', () => {
+    const hours = { tuesday: { open: '18:00', close: '02:00' }, wednesday: { open: '18:00', close: '02:00' } }
+    expect(isLocationOpen({ timezone: 'UTC', hours }, at('01:30'))).toBe(true)
+    expect(isLocationOpen({ timezone: 'UTC', hours }, at('03:00'))).toBe(false)
+    expect(isLocationOpen({ timezone: 'UTC', hours }, at('23:00'))).toBe(true)
+  })
+})
+
+describe('checkLocationForOrder', () => {
+  const customer = { latitude: 31.5497, longitude: 74.3436 } // ~3.5 km from Gulberg
+
+  it('accepts deliveries inside the radius', () => {
+    const result = checkLocationForOrder(gulberg, 'DELIVERY', customer, at('12:00'))
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects deliveries outside the radius', () => {
+    const result = checkLocationForOrder({ ...gulberg, deliveryRadius: '2' }, 'DELIVERY', customer, at('12:00'))
+    expect(result).toEqual({ success: false, error: 'Delivery address is outside the 2 km delivery radius of Gulberg' })
+  })
+
+  it('takes deliveries by address when the customer has no coordinates', () => {
+    expect(checkLocationForOrder(gulberg, 'DELIVERY', null, at('12:00'))).toEqual({ success: true, distanceKm: null })
+    expect(checkLocationForOrder({ ...gulberg, latitude: null, longitude: null }, 'DELIVERY', customer, at('12:00')).success).toBe(false)
+  })
+
+  it('rejects unsupported order types and closed locations', () => {
+    expect(checkLocationForOrder({ ...gulberg, hasDelivery: false }, 'DELIVERY', null).success).toBe(false)
+    const closed = { ...gulberg, hours: { wednesday: { open: '11:00', close: '22:00' } } }
+    expect(checkLocationForOrder(closed, 'TAKEAWAY', null, at('08:00')))
+      .toEqual({ success: false, error: 'Gulberg is currently closed' })
+  })
+})
+
+describe('findNearestLocation', () => {
+  it('picks the closest branch that serves the address', () => {
+    const result = findNearestLocation([dha, gulberg], 'DELIVERY', { latitude: 31.5497, longitude: 74.3436 }, at('12:00'))
+    expect(result.success && result.location.id).toBe('gulberg')
+  })
+
+  it('skips the nearest branch when it cannot take the order', () => {
+    const result = findNearestLocation(
+      [dha, { ...gulberg, hasDelivery: false }],
+      'DELIVERY',
+      { latitude: 31.4697, longitude: 74.3587 },
+      at('12:00')
+    )
+    expect(result.success && result.location.id).toBe('dha')
+  })
+
+  it('reports why no branch matched', () => {
+    const result = findNearestLocation([gulberg], 'DELIVERY', { latitude: 24.8607, longitude: 67.0011 }, at('12:00'))
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('getLocationOrderRules', () => {
+  it('prefers the location fee and minimum over the defaults', () => {
+    expect(getLocationOrderRules({ deliveryFee: '150', minimumOrder: null }, { deliveryFee: 4.99, minimumOrder: '15' }))
+      .toEqual({ deliveryFee: 150, minimumOrder: 15 })
+  })
+})
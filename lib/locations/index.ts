@@ -0,0 +1,2 @@
+export * from './order-location'
+export * from './order-location.service'
@@ -0,0 +1,65 @@
+/**
+ * Order Location Service
+ * Resolves which branch an incoming order belongs to
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Location, OrderType } from '@prisma/client'
+import {
+    checkLocationForOrder,
+    findNearestLocation,
+    type Coordinates,
+    type LocationMatch,
+} from './order-location'
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Uses the requested location when one is given, otherwise the nearest active
+ * branch that serves the customer's coordinates. Single-branch setups fall
+ * back to their only active location.
+ */
+export async function resolveOrderLocation(input: {
+    locationId?: string
+    orderType: OrderType
+    coordinates?: Coordinates | null
+}): Promise<LocationMatch<Location>> {
+    const { locationId, orderType } = input
+    const coordinates = input.coordinates ?? null
+
+    if (locationId) {
+        const location = await prisma.location.findFirst({
+            where: { id: locationId, isActive: true }
+        })
+
+        if (!location) {
+            return { success: false, error: 'Location not found' }
+        }
+
+        const check = checkLocationForOrder(location, orderType, coordinates)
+        return check.success ? { success: true, location, distanceKm: check.distanceKm } : check
+    }
+
+    const locations = await prisma.location.findMany({
+        where: { isActive: true },
+        orderBy: { createdAt: 'asc' }
+    })
+
+    if (locations.length === 0) {
+        return { success: false, error: 'No active location found' }
+    }
+
+    if (coordinates) {
+        return findNearestLocation(locations, orderType, coordinates)
+    }
+
+    if (locations.length > 1) {
+        return { success: false, error: 'A locationId or customer coordinates are required' }
+    }
+
+    const [location] = locations
+    const check = checkLocationForOrder(location, orderType, null)
+    return check.success ? { success: true, location, distanceKm: null } : check
+}
@@ -0,0 +1,247 @@
+/**
+ * Order Location Rules
+ * Pure helpers that pick the branch for an order and check it can accept it
+ */
+
+import type { OrderType } from '@prisma/client'
+import { parseNumber, type Numeric } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Coordinates {
+    latitude: number
+    longitude: number
+}
+
+export interface OrderableLocation {
+    id: string
+    name: string
+    latitude?: Numeric
+    longitude?: Numeric
+    hours?: unknown
+    timezone: string
+    hasDelivery: boolean
+    hasTakeaway: boolean
+    hasDineIn: boolean
+    hasDriveThru: boolean
+    deliveryRadius?: Numeric
+    deliveryFee?: Numeric
+    minimumOrder?: Numeric
+}
+
+export interface DayHours {
+    open: string
+    close: string
+    closed?: boolean
+}
+
+export type LocationCheck =
+    | { success: true; distanceKm: number | null }
+    | { success: false; error: string }
+
+export type LocationMatch<T extends OrderableLocation> =
+    | { success: true; location: T; distanceKm: number | null }
+    | { success: false; error: string }
+
+const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const EARTH_RADIUS_KM = 6371
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toMinutes(time: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time)
+    if (!match) return null
+    return Number(match[1]) * 60 + Number(match[2])
+}
+
+export function getLocationCoordinates(location: Pick<OrderableLocation, 'latitude' | 'longitude'>): Coordinates | null {
+    const latitude = parseNumber(location.latitude)
+    const longitude = parseNumber(location.longitude)
+    return latitude === null || longitude === null ? null : { latitude, longitude }
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180
+    const dLat = toRad(b.latitude - a.latitude)
+    const dLon = toRad(b.longitude - a.longitude)
+    const h = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
+
+// ============================================================================
+// OPENING HOURS
+// ============================================================================
+
+/**
+ * Reads `Location.hours`, keyed by full ("monday") or short ("mon") day names
+ */
+export function parseOpeningHours(json: unknown): Map<number, DayHours> | null {
+    let value = json
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value)
+        } catch {
+            return null
+        }
+    }
+    if (!value || typeof value !== 'object' || Object.keys(value).length === 0) return null
+
+    const hours = new Map<number, DayHours>()
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        const day = DAY_KEYS.findIndex(d => d === key.toLowerCase() || d.slice(0, 3) === key.toLowerCase())
+        if (day === -1 || !entry || typeof entry !== 'object') continue
+
+        const { open, close, closed } = entry as Record<string, unknown>
+        hours.set(day, { open: String(open ?? ''), close: String(close ?? ''), closed: closed === true })
+    }
+    return hours
+}
+
+function localDayAndMinutes(at: Date, timezone: string): { day: number; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'long',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(at)
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+    return {
+        day: DAY_KEYS.indexOf(get('weekday').toLowerCase()),
+        minutes: Number(get('hour')) * 60 + Number(get('minute')),
+    }
+}
+
+/**
+ * Whether the location is open at the given instant in its own timezone.
+ * Locations without configured hours are treated as always open; a close time
+ * at or before the open time runs past midnight.
+ */
+export function isLocationOpen(location: Pick<OrderableLocation, 'hours' | 'timezone'>, at: Date = new Date()): boolean {
+    const hours = parseOpeningHours(location.hours)
+    if (!hours) return true
+
+    const { day, minutes } = localDayAndMinutes(at, location.timezone)
+
+    const today = hours.get(day)
+    if (today && !today.closed) {
+        const open = toMinutes(today.open)
+        const close = toMinutes(today.close)
+        if (open !== null && close !== null) {
+            if (close > open ? minutes >= open && minutes < close : minutes >= open) return true
+        }
+    }
+
+    // Still inside yesterday's overnight shift
+    const yesterday = hours.get((day + 6) % 7)
+    if (yesterday && !yesterday.closed) {
+        const open = toMinutes(yesterday.open)
+        const close = toMinutes(yesterday.close)
+        if (open !== null && close !== null && close <= open && minutes < close) return true
+    }
+
+    return false
+}
+
+// ============================================================================
+// ORDER CHECKS
+// ============================================================================
+
+export function supportsOrderType(location: OrderableLocation, orderType: OrderType): boolean {
+    switch (orderType) {
+        case 'DELIVERY': return location.hasDelivery
+        case 'TAKEAWAY': return location.hasTakeaway
+        case 'DINE_IN': return location.hasDineIn
+        case 'DRIVE_THRU': return location.hasDriveThru
+        default: return false
+    }
+}
+
+/**
+ * Checks that a location can take an order of this type right now, and for
+ * deliveries that the customer is inside its delivery radius whenever
+ * their coordinates are known.
+ */
+export function checkLocationForOrder(
+    location: OrderableLocation,
+    orderType: OrderType,
+    customer: Coordinates | null,
+    at: Date = new Date()
+): LocationCheck {
+    if (!supportsOrderType(location, orderType)) {
+        return { success: false, error: `${location.name} does not accept ${orderType.replace('_', ' ').toLowerCase()} orders` }
+    }
+
+    if (!isLocationOpen(location, at)) {
+        return { success: false, error: `${location.name} is currently closed` }
+    }
+
+    const branch = getLocationCoordinates(location)
+    const distance = customer && branch ? distanceKm(customer, branch) : null
+
+    // Checkout doesn't always have the customer on the map; until it does the
+    // delivery goes by the address, and the radius is checked when it can be
+    const radius = orderType === 'DELIVERY' ? parseNumber(location.deliveryRadius) : null
+    if (radius !== null && customer) {
+        if (distance === null) {
+            return { success: false, error: `${location.name} has no map location to check its delivery radius against` }
+        }
+        if (distance > radius) {
+            return { success: false, error: `Delivery address is outside the ${radius} km delivery radius of ${location.name}` }
+        }
+    }
+
+    return { success: true, distanceKm: distance }
+}
+
+/**
+ * Picks the nearest location that can fulfil the order for the customer's
+ * coordinates. Locations without coordinates cannot be ranked and are skipped.
+ */
+export function findNearestLocation<T extends OrderableLocation>(
+    locations: T[],
+    orderType: OrderType,
+    customer: Coordinates,
+    at: Date = new Date()
+): LocationMatch<T> {
+    const candidates = locations
+        .map(location => ({ location, branch: getLocationCoordinates(location) }))
+        .filter((c): c is { location: T; branch: Coordinates } => c.branch !== null)
+        .map(c => ({ location: c.location, distance: distanceKm(customer, c.branch) }))
+        .sort((a, b) => a.distance - b.distance)
+
+    let firstError: string | null = null
+    for (const { location } of candidates) {
+        const check = checkLocationForOrder(location, orderType, customer, at)
+        if (check.success) {
+            return { success: true, location, distanceKm: check.distanceKm }
+        }
+        firstError ??= check.error
+    }
+
+    return { success: false, error: firstError ?? 'No location serves this address' }
+}
+
+/**
+ * Delivery fee and minimum order for the location, falling back to the
+ * restaurant-wide settings where the location leaves them unset.
+ */
+export function getLocationOrderRules(
+    location: Pick<OrderableLocation, 'deliveryFee' | 'minimumOrder'>,
+    defaults: { deliveryFee: Numeric; minimumOrder: Numeric }
+): { deliveryFee: number; minimumOrder: number } {
+    return {
+        deliveryFee: parseNumber(location.deliveryFee) ?? parseNumber(defaults.deliveryFee) ?? 0,
+        minimumOrder: parseNumber(location.minimumOrder) ?? parseNumber(defaults.minimumOrder) ?? 0,
+    }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateEarnedPoints,
+  getTierBands,
+  planOrderReversal,
+  planRedemption,
+  resolveTier,
+  selectEarnRule,
+} from '../loyalty'
+
+const rule = (overrides: Partial<Parameters<typeof calculateEarnedPoints>[1]> = {}) => ({
+  id: 'rule',
+  orderType: null,
+  locationId: null,
+  pointsPerUnit: 1,
+  minOrderAmount: null,
+  priority: 0,
+  ...overrides,
+})
+
+const tiers = [
+  { id: 'gold', name: 'Gold', minPoints: 1000, multiplier: '1.5' },
+  { id: 'silver', name: 'Silver', minPoints: 250, multiplier: '1.25' },
+]
+
+describe('selectEarnRule', () => {
+  it('prefers location rules over order type rules over catch-alls', () => {
+    const rules = [
+      rule({ id: 'all', priority: 10 }),
+      rule({ id: 'delivery', orderType: 'DELIVERY' }),
+      rule({ id: 'branch', locationId: 'loc-1' }),
+      rule({ id: 'other-branch', locationId: 'loc-2', priority: 99 }),
+    ]
+
+    expect(selectEarnRule(rules, { orderType: 'DELIVERY', locationId: 'loc-1' })?.id).toBe('branch')
+    expect(selectEarnRule(rules, { orderType: 'DELIVERY', locationId: 'loc-3' })?.id).toBe('delivery')
+    expect(selectEarnRule(rules, { orderType: 'TAKEAWAY', locationId: 'loc-3' })?.id).toBe('all')
+  })
+})
+
+describe('calculateEarnedPoints', () => {
+  it('scales by the tier multiplier and drops fractions', () => {
+    expect(calculateEarnedPoints(99.9, rule({ pointsPerUnit: '0.1' }), null)).toBe(9)
+    expect(calculateEarnedPoints(100, rule({ pointsPerUnit: '0.1' }), tiers[0])).toBe(15)
+  })
+
+  it('earns nothing below the rule minimum', () => {
+    expect(calculateEarnedPoints(400, rule({ minOrderAmount: '500' }), null)).toBe(0)
+  })
+})
+
+describe('tiers', () => {
+  it('resolves the highest tier reached', () => {
+    expect(resolveTier(tiers, 100)).toBeNull()
+    expect(resolveTier(tiers, 250)?.id).toBe('silver')
+    expect(resolveTier(tiers, 5000)?.id).toBe('gold')
+  })
+
+  it('splits lifetime points into contiguous bands', () => {
+    expect(getTierBands(tiers)).toEqual([
+      { tierId: null, minPoints: null, maxPoints: 250 },
+      { tierId: 'silver', minPoints: 250, maxPoints: 1000 },
+      { tierId: 'gold', minPoints: 1000, maxPoints: null },
+    ])
+    expect(getTierBands([])).toEqual([{ tierId: null, minPoints: null, maxPoints: null }])
+  })
+})
+
+describe('planRedemption', () => {
+  const settings = { enabled: true, pointValue: 0.5, minRedeemPoints: 100, maxRedeemPercent: 50 }
+
+  it('caps the discount at the share of the order allowed', () => {
+    expect(planRedemption({ requestedPoints: 1000, balance: 1000, orderAmount: 300, settings }))
+      .toEqual({ success: true, points: 300, discount: 150 })
+  })
+
+  it('rejects requests over the balance or under the minimum', () => {
+    expect(planRedemption({ requestedPoints: 500, balance: 400, orderAmount: 1000, settings }).success).toBe(false)
+    expect(planRedemption({ requestedPoints: 50, balance: 400, orderAmount: 1000, settings }).success).toBe(false)
+    expect(planRedemption({
+      requestedPoints: 200, balance: 400, orderAmount: 1000, settings: { ...settings, enabled: false },
+    }).success).toBe(false)
+  })
+})
+
+describe('planOrderReversal', () => {
+  const ledger = [
+    { type: 'REDEEM', points: -200 },
+    { type: 'EARN', points: 80 },
+  ]
+
+  it('takes back earned points and returns redeemed points on cancellation', () => {
+    expect(planOrderReversal(ledger, 1)).toEqual({ earnReversal: -80, redeemReversal: 200 })
+  })
+
+  it('takes back a proportional share on partial refunds without exceeding what was earned', () => {
+    expect(planOrderReversal(ledger, 0.25)).toEqual({ earnReversal: -20, redeemReversal: 0 })
+    const afterPartial = [...ledger, { type: 'EARN_REVERSAL', points: -70 }]
+    expect(planOrderReversal(afterPartial, 0.5)).toEqual({ earnReversal: -10, redeemReversal: 0 })
+    expect(planOrderReversal(afterPartial, 1)).toEqual({ earnReversal: -10, redeemReversal: 200 })
+  })
+})
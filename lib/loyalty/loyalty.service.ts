@@ -0,0 +1,333 @@
+/**
+ * Loyalty Service
+ * Keeps customer point balances and the loyalty ledger in step with orders
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { LoyaltyTransactionType, Prisma } from '@prisma/client'
+import {
+    calculateEarnedPoints,
+    getLoyaltySettings,
+    getNextTier,
+    getTierBands,
+    planOrderReversal,
+    resolveTier,
+    selectEarnRule,
+} from './loyalty'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LoyaltyResult {
+    customerId: string
+    /** Net change to the redeemable balance */
+    points: number
+    balance: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Moves the customer's balance and writes the matching ledger row, so the
+ * ledger always sums to the balance.
+ */
+async function recordLedgerEntry(
+    tx: Prisma.TransactionClient,
+    entry: {
+        customerId: string
+        orderId?: string
+        type: LoyaltyTransactionType
+        points: number
+        lifetimeDelta: number
+        description: string
+        createdById?: string
+    }
+): Promise<{ loyaltyPoints: number; lifetimePoints: number }> {
+    const customer = await tx.customer.update({
+        where: { id: entry.customerId },
+        data: {
+            loyaltyPoints: { increment: entry.points },
+            lifetimePoints: { increment: entry.lifetimeDelta }
+        },
+        select: { loyaltyPoints: true, lifetimePoints: true }
+    })
+
+    await tx.loyaltyTransaction.create({
+        data: {
+            customerId: entry.customerId,
+            orderId: entry.orderId,
+            type: entry.type,
+            points: entry.points,
+            balanceAfter: customer.loyaltyPoints,
+            description: entry.description,
+            createdById: entry.createdById
+        }
+    })
+
+    return customer
+}
+
+async function syncTier(tx: Prisma.TransactionClient, customerId: string, lifetimePoints: number) {
+    const tiers = await tx.loyaltyTier.findMany({ where: { isActive: true } })
+    const tier = resolveTier(tiers, lifetimePoints)
+
+    await tx.customer.update({
+        where: { id: customerId },
+        data: { loyaltyTierId: tier?.id ?? null }
+    })
+}
+
+// ============================================================================
+// REDEMPTION
+// ============================================================================
+
+/**
+ * Debits redeemed points inside the transaction that creates the order. The
+ * conditional decrement means two checkouts racing for the same points
+ * cannot both succeed.
+ */
+export async function redeemPointsForOrder(
+    tx: Prisma.TransactionClient,
+    input: { customerId: string; orderId: string; orderNumber: string; points: number }
+): Promise<LoyaltyResult> {
+    const debited = await tx.customer.updateMany({
+        where: { id: input.customerId, loyaltyPoints: { gte: input.points } },
+        data: { loyaltyPoints: { decrement: input.points } }
+    })
+
+    if (debited.count === 0) {
+        throw new Error('Insufficient loyalty points')
+    }
+
+    const { loyaltyPoints } = await tx.customer.findUniqueOrThrow({
+        where: { id: input.customerId },
+        select: { loyaltyPoints: true }
+    })
+
+    await tx.loyaltyTransaction.create({
+        data: {
+            customerId: input.customerId,
+            orderId: input.orderId,
+            type: 'REDEEM',
+            points: -input.points,
+            balanceAfter: loyaltyPoints,
+            description: `Redeemed on order ${input.orderNumber}`
+        }
+    })
+
+    return { customerId: input.customerId, points: -input.points, balance: loyaltyPoints }
+}
+
+// ============================================================================
+// EARNING
+// ============================================================================
+
+/**
+ * Awards points for a completed order under the most specific earn rule and
+ * the customer's tier multiplier. Points are earned on what the customer paid
+ * for food: the subtotal less promotions, discounts and redeemed points.
+ * Orders that already earned are skipped.
+ */
+export async function awardOrderPoints(orderId: string): Promise<LoyaltyResult | null> {
+    return prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            select: {
+                id: true,
+                orderNumber: true,
+                customerId: true,
+                locationId: true,
+                orderType: true,
+                subtotal: true,
+                discountAmount: true,
+                promotionDiscount: true,
+                loyaltyDiscount: true,
+                customer: { select: { loyaltyTier: { select: { multiplier: true } } } },
+                loyaltyTransactions: { where: { type: 'EARN' }, select: { id: true }, take: 1 }
+            }
+        })
+
+        if (!order?.customerId || order.loyaltyTransactions.length > 0) {
+            return null
+        }
+
+        const settings = getLoyaltySettings(await tx.restaurantSettings.findFirst())
+        if (!settings.enabled) {
+            return null
+        }
+
+        const rules = await tx.loyaltyEarnRule.findMany({ where: { isActive: true } })
+        const rule = selectEarnRule(rules, order)
+        if (!rule) {
+            return null
+        }
+
+        const amount = Number(order.subtotal) - Number(order.promotionDiscount) -
+            Number(order.discountAmount) - Number(order.loyaltyDiscount)
+        const points = calculateEarnedPoints(amount, rule, order.customer?.loyaltyTier ?? null)
+        if (points === 0) {
+            return null
+        }
+
+        const customer = await recordLedgerEntry(tx, {
+            customerId: order.customerId,
+            orderId: order.id,
+            type: 'EARN',
+            points,
+            lifetimeDelta: points,
+            description: `Earned on order ${order.orderNumber}`
+        })
+        await syncTier(tx, order.customerId, customer.lifetimePoints)
+
+        return { customerId: order.customerId, points, balance: customer.loyaltyPoints }
+    })
+}
+
+// ============================================================================
+// REVERSAL
+// ============================================================================
+
+/**
+ * Unwinds an order's points after a cancellation (share 1) or a refund of
+ * part of the order (share = refunded / total). The balance may go negative
+ * when earned points were already spent; that debt blocks redemption until
+ * it is earned back.
+ */
+export async function reverseOrderPoints(
+    orderId: string,
+    share: number,
+    reason: string,
+    performedById?: string
+): Promise<LoyaltyResult | null> {
+    return prisma.$transaction(async (tx) => {
+        const ledger = await tx.loyaltyTransaction.findMany({
+            where: { orderId },
+            select: { customerId: true, type: true, points: true }
+        })
+
+        if (ledger.length === 0) {
+            return null
+        }
+
+        const { customerId } = ledger[0]
+        const plan = planOrderReversal(ledger, share)
+        if (plan.earnReversal === 0 && plan.redeemReversal === 0) {
+            return null
+        }
+
+        let customer: { loyaltyPoints: number; lifetimePoints: number } | null = null
+
+        if (plan.earnReversal !== 0) {
+            customer = await recordLedgerEntry(tx, {
+                customerId,
+                orderId,
+                type: 'EARN_REVERSAL',
+                points: plan.earnReversal,
+                lifetimeDelta: plan.earnReversal,
+                description: reason,
+                createdById: performedById
+            })
+            await syncTier(tx, customerId, customer.lifetimePoints)
+        }
+
+        if (plan.redeemReversal !== 0) {
+            customer = await recordLedgerEntry(tx, {
+                customerId,
+                orderId,
+                type: 'REDEEM_REVERSAL',
+                points: plan.redeemReversal,
+                lifetimeDelta: 0,
+                description: reason,
+                createdById: performedById
+            })
+        }
+
+        return {
+            customerId,
+            points: plan.earnReversal + plan.redeemReversal,
+            balance: customer?.loyaltyPoints ?? 0
+        }
+    })
+}
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+/**
+ * Re-tiers every customer from their lifetime points, one update per tier
+ * band. Run after tiers are created, changed or removed.
+ */
+export async function reassignTiers(): Promise<void> {
+    const tiers = await prisma.loyaltyTier.findMany({
+        where: { isActive: true },
+        select: { id: true, minPoints: true }
+    })
+
+    // With no active tiers the first band covers everyone and clears their tier
+    await prisma.$transaction(getTierBands(tiers).map(band =>
+        prisma.customer.updateMany({
+            where: {
+                lifetimePoints: {
+                    ...(band.minPoints !== null && { gte: band.minPoints }),
+                    ...(band.maxPoints !== null && { lt: band.maxPoints }),
+                }
+            },
+            data: { loyaltyTierId: band.tierId }
+        })
+    ))
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Balance, tier progress and recent ledger entries for a customer
+ */
+export async function getCustomerLoyalty(customerId: string, historyLimit = 50) {
+    const [customer, tiers, settings] = await Promise.all([
+        prisma.customer.findUnique({
+            where: { id: customerId },
+            select: {
+                loyaltyPoints: true,
+                lifetimePoints: true,
+                loyaltyTier: { select: { id: true, name: true, multiplier: true, benefits: true } },
+                loyaltyTransactions: {
+                    orderBy: { createdAt: 'desc' },
+                    take: historyLimit,
+                    select: {
+                        id: true,
+                        type: true,
+                        points: true,
+                        balanceAfter: true,
+                        description: true,
+                        createdAt: true,
+                        order: { select: { id: true, orderNumber: true } }
+                    }
+                }
+            }
+        }),
+        prisma.loyaltyTier.findMany({ where: { isActive: true }, orderBy: { minPoints: 'asc' } }),
+        prisma.restaurantSettings.findFirst()
+    ])
+
+    if (!customer) {
+        return null
+    }
+
+    const next = getNextTier(tiers, customer.lifetimePoints)
+    const program = getLoyaltySettings(settings)
+
+    return {
+        balance: customer.loyaltyPoints,
+        lifetimePoints: customer.lifetimePoints,
+        tier: customer.loyaltyTier,
+        nextTier: next ? { id: next.tier.id, name: next.tier.name, pointsNeeded: next.pointsNeeded } : null,
+        program,
+        transactions: customer.loyaltyTransactions
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ * Loyalty Rules
+ * Earning, tiers, redemption limits and reversals for customer points
+ */
+
+import { roundMoney } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type DecimalLike = number | string | { toString(): string }
+
+export interface EarnRule {
+    id: string
+    orderType: string | null
+    locationId: string | null
+    pointsPerUnit: DecimalLike
+    minOrderAmount: DecimalLike | null
+    priority: number
+}
+
+export interface Tier {
+    id: string
+    name: string
+    minPoints: number
+    multiplier: DecimalLike
+}
+
+export interface LoyaltySettings {
+    enabled: boolean
+    pointValue: number
+    minRedeemPoints: number
+    maxRedeemPercent: number
+}
+
+export type RedemptionPlan =
+    | { success: true; points: number; discount: number }
+    | { success: false; error: string }
+
+export interface LedgerEntry {
+    type: string
+    points: number
+}
+
+export interface ReversalPlan {
+    /** Earned points to take back (zero or negative) */
+    earnReversal: number
+    /** Redeemed points to give back (zero or positive) */
+    redeemReversal: number
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export function getLoyaltySettings(settings: {
+    loyaltyEnabled: boolean
+    loyaltyPointValue: DecimalLike
+    loyaltyMinRedeemPoints: number
+    loyaltyMaxRedeemPercent: number
+} | null): LoyaltySettings {
+    return {
+        enabled: settings?.loyaltyEnabled ?? false,
+        pointValue: Number(settings?.loyaltyPointValue ?? 0),
+        minRedeemPoints: settings?.loyaltyMinRedeemPoints ?? 0,
+        maxRedeemPercent: Math.min(Math.max(settings?.loyaltyMaxRedeemPercent ?? 0, 0), 100),
+    }
+}
+
+// ============================================================================
+// EARNING
+// ============================================================================
+
+function specificity(rule: EarnRule): number {
+    return (rule.locationId ? 2 : 0) + (rule.orderType ? 1 : 0)
+}
+
+/**
+ * The rule that applies to an order: rules scoped to its location beat rules
+ * scoped to its order type, which beat catch-all rules; priority breaks ties.
+ */
+export function selectEarnRule<T extends EarnRule>(
+    rules: T[],
+    order: { orderType: string; locationId: string }
+): T | null {
+    const matching = rules.filter(rule =>
+        (!rule.locationId || rule.locationId === order.locationId) &&
+        (!rule.orderType || rule.orderType === order.orderType)
+    )
+
+    matching.sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)
+    return matching[0] ?? null
+}
+
+/**
+ * Points earned for spending `amount` under a rule, scaled by the customer's
+ * tier. Fractions of a point are dropped.
+ */
+export function calculateEarnedPoints(amount: number, rule: EarnRule, tier: Pick<Tier, 'multiplier'> | null): number {
+    if (amount <= 0) return 0
+    if (rule.minOrderAmount !== null && amount < Number(rule.minOrderAmount)) return 0
+
+    const multiplier = tier ? Number(tier.multiplier) : 1
+    return Math.max(Math.floor(amount * Number(rule.pointsPerUnit) * multiplier + 1e-9), 0)
+}
+
+/**
+ * Highest tier whose threshold the lifetime points reach
+ */
+export function resolveTier<T extends Tier>(tiers: T[], lifetimePoints: number): T | null {
+    return tiers
+        .filter(tier => lifetimePoints >= tier.minPoints)
+        .sort((a, b) => b.minPoints - a.minPoints)[0] ?? null
+}
+
+/**
+ * Next tier above the current one, with the points still needed to reach it
+ */
+export function getNextTier<T extends Tier>(tiers: T[], lifetimePoints: number): { tier: T; pointsNeeded: number } | null {
+    const next = tiers
+        .filter(tier => tier.minPoints > lifetimePoints)
+        .sort((a, b) => a.minPoints - b.minPoints)[0]
+
+    return next ? { tier: next, pointsNeeded: next.minPoints - lifetimePoints } : null
+}
+
+/**
+ * Lifetime-point range each tier covers, lowest first. Points below the
+ * lowest threshold have no tier. Used to re-tier every customer at once
+ * after the tiers change.
+ */
+export function getTierBands(tiers: Array<Pick<Tier, 'id' | 'minPoints'>>): Array<{
+    tierId: string | null
+    minPoints: number | null
+    maxPoints: number | null
+}> {
+    const sorted = [...tiers].sort((a, b) => a.minPoints - b.minPoints)
+    const bands: Array<{ tierId: string | null; minPoints: number | null; maxPoints: number | null }> = [
+        { tierId: null, minPoints: null, maxPoints: sorted[0]?.minPoints ?? null },
+    ]
+
+    sorted.forEach((tier, index) => {
+        bands.push({ tierId: tier.id, minPoints: tier.minPoints, maxPoints: sorted[index + 1]?.minPoints ?? null })
+    })
+
+    // Tiers sharing a threshold leave empty ranges; drop them
+    return bands.filter(band => band.minPoints === null || band.maxPoints === null || band.maxPoints > band.minPoints)
+}
+
+// ============================================================================
+// REDEMPTION
+// ============================================================================
+
+/**
+ * Checks a redemption request against the balance and program limits. Asking
+ * for more than the order allows redeems only what fits under the cap.
+ */
+export function planRedemption(input: {
+    requestedPoints: number
+    balance: number
+    orderAmount: number
+    settings: LoyaltySettings
+}): RedemptionPlan {
+    const { requestedPoints, balance, orderAmount, settings } = input
+
+    if (!settings.enabled || settings.pointValue <= 0) {
+        return { success: false, error: 'Loyalty points cannot be redeemed' }
+    }
+    if (!Number.isInteger(requestedPoints) || requestedPoints <= 0) {
+        return { success: false, error: 'Points to redeem must be a positive whole number' }
+    }
+    if (requestedPoints > balance) {
+        return { success: false, error: `Only ${balance} points are available` }
+    }
+    if (requestedPoints < settings.minRedeemPoints) {
+        return { success: false, error: `At least ${settings.minRedeemPoints} points must be redeemed` }
+    }
+
+    const maxDiscount = orderAmount * settings.maxRedeemPercent / 100
+    const points = Math.min(requestedPoints, Math.floor(maxDiscount / settings.pointValue + 1e-9))
+    if (points <= 0) {
+        return { success: false, error: 'This order is too small to redeem points on' }
+    }
+
+    return { success: true, points, discount: roundMoney(points * settings.pointValue) }
+}
+
+// ============================================================================
+// REVERSAL
+// ============================================================================
+
+/**
+ * What to reverse for an order given its ledger. A cancellation or full
+ * refund (share = 1) takes back all remaining earned points and returns the
+ * redeemed ones; a partial refund takes back the same share of the points
+ * originally earned and leaves the redemption in place.
+ */
+export function planOrderReversal(ledger: LedgerEntry[], share: number): ReversalPlan {
+    const sum = (type: string) => ledger.filter(e => e.type === type).reduce((total, e) => total + e.points, 0)
+
+    const earned = sum('EARN')
+    const earnedRemaining = earned + sum('EARN_REVERSAL')
+    const redeemedRemaining = -(sum('REDEEM') + sum('REDEEM_REVERSAL'))
+
+    if (share >= 1) {
+        return {
+            earnReversal: earnedRemaining > 0 ? -earnedRemaining : 0,
+            redeemReversal: Math.max(redeemedRemaining, 0),
+        }
+    }
+
+    const takeBack = Math.min(Math.round(earned * Math.max(share, 0)), Math.max(earnedRemaining, 0))
+    return { earnReversal: takeBack > 0 ? -takeBack : 0, redeemReversal: 0 }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { hasConfigurableOptions, parseModifierGroups, priceLineItem } from '../pricing'
+
+const pizza = {
+  price: '12.50',
+  variants: [
+    { id: 'small', name: 'Small', priceAdjust: -2 },
+    { id: 'large', name: 'Large', priceAdjust: 4, isDefault: true },
+  ],
+  modifiers: [
+    {
+      id: 'crust',
+      name: 'Crust',
+      required: true,
+      maxSelect: 1,
+      options: [
+        { id: 'thin', name: 'Thin', price: 0 },
+        { id: 'stuffed', name: 'Stuffed', price: 2.25 },
+      ],
+    },
+    {
+      id: 'toppings',
+      name: 'Extra toppings',
+      maxSelect: 2,
+      options: [
+        { id: 'olives', name: 'Olives', price: 1 },
+        { id: 'cheese', name: 'Cheese', price: 1.5 },
+        { id: 'jalapeno', name: 'Jalapeno', price: 0.75 },
+      ],
+    },
+  ],
+}
+
+describe('parseModifierGroups', () => {
+  it('treats required groups as needing at least one selection', () => {
+    const [crust, toppings] = parseModifierGroups(pizza.modifiers)
+    expect(crust.minSelect).toBe(1)
+    expect(toppings.minSelect).toBe(0)
+    expect(toppings.maxSelect).toBe(2)
+  })
+
+  it('ignores malformed JSON', () => {
+    expect(parseModifierGroups('not json')).toEqual([])
+    expect(parseModifierGroups(null)).toEqual([])
+  })
+})
+
+describe('priceLineItem', () => {
+  it('prices a plain item from its base price', () => {
+    const result = priceLineItem({ price: 8 }, { quantity: 3 })
+    expect(result.success && result.line.unitPrice).toBe(8)
+    expect(result.success && result.line.totalPrice).toBe(24)
+  })
+
+  it('adds the variant adjustment and selected modifiers', () => {
+    const result = priceLineItem(pizza, {
+      quantity: 2,
+      variantId: 'large',
+      modifierOptionIds: ['stuffed', 'cheese', 'olives'],
+    })
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.line.variantName).toBe('Large')
+    expect(result.line.modifiersTotal).toBe(4.75)
+    expect(result.line.unitPrice).toBe(21.25)
+    expect(result.line.totalPrice).toBe(42.5)
+    expect(result.line.modifiers.map(m => m.groupId)).toEqual(['crust', 'toppings', 'toppings'])
+  })
+
+  it('requires a variant when the item has variants', () => {
+    const result = priceLineItem(pizza, { quantity: 1, modifierOptionIds: ['thin'] })
+    expect(result).toEqual({ success: false, error: 'A variant must be selected' })
+  })
+
+  it('rejects unknown variants and options', () => {
+    expect(priceLineItem(pizza, { quantity: 1, variantId: 'xl', modifierOptionIds: ['thin'] }).success).toBe(false)
+    expect(priceLineItem(pizza, { quantity: 1, variantId: 'small', modifierOptionIds: ['thin', 'pineapple'] }))
+      .toEqual({ success: false, error: 'Unknown modifier option "pineapple"' })
+  })
+
+  it('enforces group selection limits', () => {
+    expect(priceLineItem(pizza, { quantity: 1, variantId: 'small' }))
+      .toEqual({ success: false, error: '"Crust" requires a selection' })
+    expect(priceLineItem(pizza, { quantity: 1, variantId: 'small', modifierOptionIds: ['thin', 'stuffed'] }))
+      .toEqual({ success: false, error: '"Crust" allows at most 1 selections' })
+    expect(priceLineItem(pizza, {
+      quantity: 1,
+      variantId: 'small',
+      modifierOptionIds: ['thin', 'olives', 'cheese', 'jalapeno'],
+    }).success).toBe(false)
+  })
+
+  it('rejects duplicate option ids', () => {
+    const result = priceLineItem(pizza, { quantity: 1, variantId: 'small', modifierOptionIds: ['thin', 'thin'] })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('hasConfigurableOptions', () => {
+  it('detects items that need the options picker', () => {
+    expect(hasConfigurableOptions(pizza)).toBe(true)
+    expect(hasConfigurableOptions({ price: 5, variants: [], modifiers: null })).toBe(false)
+  })
+})
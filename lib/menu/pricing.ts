@@ -0,0 +1,235 @@
+/**
+ * Menu Item Pricing
+ * Parses MenuItem variant/modifier JSON and prices a selected line item.
+ * Shared by the order API (authoritative) and the ordering UIs (preview).
+ *
+ * MenuItem.variants:  [{ id, name, priceAdjust }]
+ * MenuItem.modifiers: [{ id, name, required?, minSelect?, maxSelect?, options: [{ id, name, price }] }]
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MenuItemVariant {
+    id: string
+    name: string
+    priceAdjust: number
+    isDefault?: boolean
+}
+
+export interface ModifierOption {
+    id: string
+    name: string
+    price: number
+}
+
+export interface ModifierGroup {
+    id: string
+    name: string
+    required: boolean
+    minSelect: number
+    maxSelect: number | null
+    options: ModifierOption[]
+}
+
+export interface PriceableMenuItem {
+    price: number | string | { toString(): string }
+    variants?: unknown
+    modifiers?: unknown
+}
+
+export interface LineSelection {
+    quantity: number
+    variantId?: string
+    modifierOptionIds?: string[]
+}
+
+export interface SelectedModifier {
+    groupId: string
+    groupName: string
+    optionId: string
+    name: string
+    price: number
+}
+
+export interface PricedLine {
+    basePrice: number
+    variantId: string | null
+    variantName: string | null
+    variantPriceAdjust: number
+    modifiers: SelectedModifier[]
+    modifiersTotal: number
+    unitPrice: number
+    totalPrice: number
+}
+
+export type PricingResult =
+    | { success: true; line: PricedLine }
+    | { success: false; error: string }
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** A Prisma Decimal, a number, or either as a string */
+export type Numeric = number | string | { toString(): string } | null | undefined
+
+/**
+ * Reads a Decimal, string or number; null when missing or not a number
+ */
+export function parseNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value))
+    return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Reads a Decimal, string or number, counting a missing value as 0
+ */
+export function toNumber(value: unknown): number {
+    return parseNumber(value) ?? 0
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value)
+        } catch {
+            return []
+        }
+    }
+    return Array.isArray(value)
+        ? value.filter((v): v is Record<string, unknown> => !!v && typeof v === 'object')
+        : []
+}
+
+export function parseVariants(json: unknown): MenuItemVariant[] {
+    return asArray(json)
+        .filter(v => v.id && v.name)
+        .map(v => ({
+            id: String(v.id),
+            name: String(v.name),
+            priceAdjust: toNumber(v.priceAdjust),
+            isDefault: v.isDefault === true,
+        }))
+}
+
+export function parseModifierGroups(json: unknown): ModifierGroup[] {
+    return asArray(json)
+        .filter(g => g.id && g.name)
+        .map(g => {
+            const required = g.required === true
+            const minSelect = Math.max(toNumber(g.minSelect), required ? 1 : 0)
+            const maxSelect = g.maxSelect === undefined || g.maxSelect === null ? null : toNumber(g.maxSelect)
+            return {
+                id: String(g.id),
+                name: String(g.name),
+                required,
+                minSelect,
+                maxSelect,
+                options: asArray(g.options)
+                    .filter(o => o.id && o.name)
+                    .map(o => ({ id: String(o.id), name: String(o.name), price: toNumber(o.price) })),
+            }
+        })
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+export function roundMoney(amount: number): number {
+    return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Validates a variant/modifier selection against the item's configuration
+ * and returns the authoritative prices for the line.
+ */
+export function priceLineItem(item: PriceableMenuItem, selection: LineSelection): PricingResult {
+    const basePrice = toNumber(item.price)
+    const variants = parseVariants(item.variants)
+    const groups = parseModifierGroups(item.modifiers)
+
+    // Variant
+    let variant: MenuItemVariant | null = null
+    if (selection.variantId) {
+        variant = variants.find(v => v.id === selection.variantId) || null
+        if (!variant) {
+            return { success: false, error: `Unknown variant "${selection.variantId}"` }
+        }
+    } else if (variants.length > 0) {
+        return { success: false, error: 'A variant must be selected' }
+    }
+
+    // Modifiers
+    const optionIds = selection.modifierOptionIds || []
+    if (new Set(optionIds).size !== optionIds.length) {
+        return { success: false, error: 'Modifier options cannot be selected more than once' }
+    }
+
+    const modifiers: SelectedModifier[] = []
+    const matched = new Set<string>()
+
+    for (const group of groups) {
+        const chosen = group.options.filter(o => optionIds.includes(o.id))
+        chosen.forEach(o => matched.add(o.id))
+
+        if (chosen.length < group.minSelect) {
+            return {
+                success: false,
+                error: group.minSelect === 1
+                    ? `"${group.name}" requires a selection`
+                    : `"${group.name}" requires at least ${group.minSelect} selections`,
+            }
+        }
+        if (group.maxSelect !== null && chosen.length > group.maxSelect) {
+            return { success: false, error: `"${group.name}" allows at most ${group.maxSelect} selections` }
+        }
+
+        for (const option of chosen) {
+            modifiers.push({
+                groupId: group.id,
+                groupName: group.name,
+                optionId: option.id,
+                name: option.name,
+                price: option.price,
+            })
+        }
+    }
+
+    const unknown = optionIds.find(id => !matched.has(id))
+    if (unknown) {
+        return { success: false, error: `Unknown modifier option "${unknown}"` }
+    }
+
+    const variantPriceAdjust = variant?.priceAdjust ?? 0
+    const modifiersTotal = roundMoney(modifiers.reduce((sum, m) => sum + m.price, 0))
+    const unitPrice = roundMoney(basePrice + variantPriceAdjust + modifiersTotal)
+
+    if (unitPrice < 0) {
+        return { success: false, error: 'Selected options produce a negative price' }
+    }
+
+    return {
+        success: true,
+        line: {
+            basePrice,
+            variantId: variant?.id ?? null,
+            variantName: variant?.name ?? null,
+            variantPriceAdjust,
+            modifiers,
+            modifiersTotal,
+            unitPrice,
+            totalPrice: roundMoney(unitPrice * selection.quantity),
+        },
+    }
+}
+
+/**
+ * True when the item needs the options picker before it can be added.
+ */
+export function hasConfigurableOptions(item: PriceableMenuItem): boolean {
+    return parseVariants(item.variants).length > 0 || parseModifierGroups(item.modifiers).length > 0
+}
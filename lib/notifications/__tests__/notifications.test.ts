@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { getDefaultTemplate, interpolate, renderMessage, type TemplateBranding } from '../templates'
+import { FakeTransport, toE164 } from '../transport'
+
+const branding: TemplateBranding = {
+  restaurantName: 'Bistro Bay',
+  restaurantPhone: '021-111-222',
+  restaurantEmail: 'hello@bistrobay.com',
+  currencySymbol: 'Rs.',
+  logoUrl: null,
+  logoAlt: 'Logo',
+  primaryColor: '#16a34a',
+  backgroundColor: '#ffffff',
+  foregroundColor: '#0f172a',
+  mutedColor: '#f1f5f9',
+  appUrl: 'https://bistrobay.com',
+}
+
+describe('interpolate', () => {
+  it('fills placeholders, including nested ones, and blanks missing values', () => {
+    expect(interpolate('{{ a }}-{{b.c}}-{{missing}}', { a: 1, b: { c: 'x' } })).toBe('1-x-')
+  })
+
+  it('repeats sections for lists and hides them for empty values', () => {
+    const text = '{{#items}}{{quantity}}x {{name}} ({{currency}});{{/items}}{{#note}}Note{{/note}}'
+    expect(interpolate(text, { currency: 'Rs.', items: [{ quantity: 2, name: 'Tea' }, { quantity: 1, name: 'Naan' }] }))
+      .toBe('2x Tea (Rs.);1x Naan (Rs.);')
+  })
+
+  it('escapes values only when asked, except in triple braces', () => {
+    const data = { name: '<b>' }
+    expect(interpolate('{{name}} {{{name}}}', data, { escape: true })).toBe('&lt;b&gt; <b>')
+    expect(interpolate('{{name}}', data)).toBe('<b>')
+  })
+})
+
+describe('renderMessage', () => {
+  const data = { orderNumber: '42', customerName: '<Ali>', status: 'READY' }
+
+  it('renders plain text for SMS', () => {
+    const message = renderMessage({
+      event: 'order-status', channel: 'sms', language: 'en',
+      content: getDefaultTemplate('order-status', 'sms', 'en'), data, branding,
+    })
+    expect(message.subject).toBe('Order #42 is ready')
+    expect(message.text).toBe('Hi <Ali>, your order #42 is ready.')
+    expect(message.html).toBeNull()
+  })
+
+  it('escapes data and wraps email in the branded layout', () => {
+    const message = renderMessage({
+      event: 'order-status', channel: 'email', language: 'en',
+      content: getDefaultTemplate('order-status', 'email', 'en'), data, branding,
+    })
+    expect(message.html).toContain('Hi &lt;Ali&gt;')
+    expect(message.html).toContain('background-color: #16a34a')
+    expect(message.html).toContain('dir="ltr"')
+    expect(message.text).toBe('Hi <Ali>, your order #42 is ready.')
+  })
+
+  it('localizes the status and lays Urdu out right to left', () => {
+    const message = renderMessage({
+      event: 'order-status', channel: 'email', language: 'ur',
+      content: getDefaultTemplate('order-status', 'email', 'ur'), data, branding,
+    })
+    expect(message.subject).toContain('تیار ہے')
+    expect(message.html).toContain('dir="rtl"')
+  })
+
+  it('uses an admin override with restaurant details available', () => {
+    const message = renderMessage({
+      event: 'order-status', channel: 'sms', language: 'en',
+      content: { subject: null, body: '{{restaurantName}}: #{{orderNumber}} {{statusLabel}}' }, data, branding,
+    })
+    expect(message.text).toBe('Bistro Bay: #42 ready')
+  })
+})
+
+describe('FakeTransport', () => {
+  const message = {
+    notificationId: 'n1', channel: 'sms' as const, to: '+923001234567', subject: null, text: 'Hi', html: null,
+  }
+
+  it('records messages and can be told to fail', async () => {
+    const transport = new FakeTransport()
+    await expect(transport.send(message)).resolves.toEqual({ providerMessageId: 'fake-sms-1' })
+    expect(transport.sent).toEqual([message])
+
+    transport.failWith = 'Carrier rejected'
+    await expect(transport.send(message)).rejects.toThrow('Carrier rejected')
+
+    transport.clear()
+    expect(transport.sent).toHaveLength(0)
+  })
+})
+
+describe('toE164', () => {
+  it('adds the Pakistani country code to local numbers', () => {
+    expect(toE164('0300-1234567')).toBe('+923001234567')
+    expect(toE164('3001234567')).toBe('+923001234567')
+    expect(toE164('0044 20 7946 0000')).toBe('+442079460000')
+    expect(toE164('+1 (415) 555-0100')).toBe('+14155550100')
+  })
+})
@@ -0,0 +1,5 @@
+export * from './templates'
+export * from './templates.service'
+export * from './transport'
+export * from './providers'
+export * from './notifications.service'
@@ -0,0 +1,255 @@
+/**
+ * Notifications Service
+ * One entry point for customer and staff messages: renders the template,
+ * records a Notification per channel and delivers it through the queues
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Notification, Prisma } from '@prisma/client'
+import { jobs } from '@/lib/jobs/queues'
+import {
+    NOTIFICATION_TEMPLATES,
+    type NotificationChannel,
+    type NotificationTemplateKey,
+} from './templates'
+import { getTemplateBranding, renderNotification, resolveLanguage } from './templates.service'
+import { FakeTransport, type NotificationTransport } from './transport'
+import { emailTransport, smsTransport, whatsappTransport } from './providers'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NotificationRecipient {
+    type: 'customer' | 'user' | 'guest'
+    /** Customer or user id; guests are identified by their address */
+    id?: string | null
+    email?: string | null
+    phone?: string | null
+}
+
+export interface NotifyInput {
+    template: NotificationTemplateKey
+    data: Record<string, unknown>
+    /** Channels to try; ones the recipient has no address for are skipped */
+    channels: NotificationChannel[]
+    recipient: NotificationRecipient
+    /** Recipient's preferred language; the restaurant default when unset */
+    language?: string | null
+    reference?: { type: string; id: string }
+    metadata?: Prisma.InputJsonValue
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+/** Shared fake used for every channel when NOTIFICATIONS_TRANSPORT=fake */
+export const fakeTransport = new FakeTransport()
+
+const overrides = new Map<NotificationChannel, NotificationTransport>()
+
+/**
+ * Replaces the transport for a channel, or restores the default with null
+ */
+export function setNotificationTransport(channel: NotificationChannel, transport: NotificationTransport | null): void {
+    if (transport) {
+        overrides.set(channel, transport)
+    } else {
+        overrides.delete(channel)
+    }
+}
+
+function getTransport(channel: NotificationChannel): NotificationTransport {
+    const override = overrides.get(channel)
+    if (override) return override
+    if (process.env.NOTIFICATIONS_TRANSPORT === 'fake') return fakeTransport
+
+    switch (channel) {
+        case 'email': return emailTransport
+        case 'sms': return smsTransport
+        case 'whatsapp': return whatsappTransport
+        case 'in_app': return fakeTransport
+    }
+}
+
+function getAddress(channel: NotificationChannel, recipient: NotificationRecipient): string | null {
+    switch (channel) {
+        case 'email': return recipient.email || null
+        case 'sms':
+        case 'whatsapp': return recipient.phone || null
+        case 'in_app': return recipient.id || null
+    }
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Records one Notification per channel and queues its delivery. In-app
+ * notifications are delivered as soon as they are stored. When the queue
+ * doesn't take the job within a couple of seconds, as while Redis is down,
+ * the message is sent inline instead. Never throws for delivery problems;
+ * they end up on the row.
+ */
+export async function notify(input: NotifyInput): Promise<Notification[]> {
+    const template = NOTIFICATION_TEMPLATES[input.template]
+    const channels = Array.from(new Set(input.channels))
+        .filter(channel => getAddress(channel, input.recipient))
+    if (channels.length === 0) return []
+
+    const [language, branding] = await Promise.all([resolveLanguage(input.language), getTemplateBranding()])
+    const notifications: Notification[] = []
+
+    for (const channel of channels) {
+        const address = getAddress(channel, input.recipient)!
+        const message = await renderNotification({
+            event: input.template, channel, language, data: input.data, branding,
+        })
+        const now = new Date()
+
+        const notification = await prisma.notification.create({
+            data: {
+                type: template.type,
+                channel,
+                recipientType: input.recipient.type,
+                recipientId: input.recipient.id || address,
+                recipientAddress: channel === 'in_app' ? null : address,
+                template: input.template,
+                subject: message.subject,
+                content: message.text,
+                html: message.html,
+                referenceType: input.reference?.type,
+                referenceId: input.reference?.id,
+                metadata: { language, ...(input.metadata as Prisma.JsonObject | undefined) },
+                ...(channel === 'in_app' && { status: 'delivered', sentAt: now, deliveredAt: now }),
+            },
+        })
+        notifications.push(notification)
+
+        if (channel === 'in_app') continue
+
+        try {
+            await jobs.deliverNotification(notification.id, channel)
+        } catch (error) {
+            console.error('Failed to queue notification, sending inline:', error)
+            await deliverNotification(notification.id, { finalAttempt: true }).catch(() => undefined)
+        }
+    }
+
+    return notifications
+}
+
+// Longer than any transport takes to send
+const SEND_CLAIM_MS = 10 * 60_000
+
+/**
+ * Sends a stored notification through its channel's transport. A failure
+ * leaves it pending for the queue to retry, until the final attempt marks it
+ * failed; the error is rethrown either way. The send claims the row first,
+ * so a queued job and the inline fallback can't both send it, and notifications
+ * no longer pending are left alone.
+ */
+export async function deliverNotification(
+    notificationId: string,
+    options: { finalAttempt?: boolean } = {}
+): Promise<Notification | null> {
+    const now = new Date()
+    const { count } = await prisma.notification.updateMany({
+        where: {
+            id: notificationId,
+            status: 'pending',
+            // A claim this old belongs to a send that died part way
+            OR: [{ sendingAt: null }, { sendingAt: { lt: new Date(now.getTime() - SEND_CLAIM_MS) } }],
+        },
+        data: { sendingAt: now },
+    })
+    const notification = await prisma.notification.findUnique({ where: { id: notificationId } })
+    if (count === 0) {
+        if (notification?.status === 'pending') {
+            // Thrown so a queued job tries again once the other send has finished
+            throw new Error('Notification is already being sent')
+        }
+        return notification
+    }
+    if (!notification?.recipientAddress) {
+        await prisma.notification.update({ where: { id: notificationId }, data: { sendingAt: null } })
+        throw new Error('Notification has no recipient address')
+    }
+
+    const channel = notification.channel as NotificationChannel
+
+    try {
+        const receipt = await getTransport(channel).send({
+            notificationId,
+            channel,
+            to: notification.recipientAddress,
+            subject: notification.subject,
+            text: notification.content,
+            html: notification.html,
+        })
+
+        return await prisma.notification.update({
+            where: { id: notificationId },
+            data: {
+                status: 'sent',
+                sentAt: new Date(),
+                sendingAt: null,
+                attempts: { increment: 1 },
+                providerMessageId: receipt.providerMessageId,
+                failureReason: null,
+            },
+        })
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+
+        await prisma.notification.update({
+            where: { id: notificationId },
+            data: {
+                attempts: { increment: 1 },
+                sendingAt: null,
+                failureReason: reason,
+                ...(options.finalAttempt && { status: 'failed', failedAt: new Date() }),
+            },
+        })
+        throw error
+    }
+}
+
+// ============================================================================
+// DELIVERY STATUS
+// ============================================================================
+
+/**
+ * Applies a provider's delivery report to the notification it sent
+ */
+export async function updateDeliveryStatus(
+    providerMessageId: string,
+    status: 'delivered' | 'failed',
+    failureReason?: string
+): Promise<number> {
+    const now = new Date()
+    const result = await prisma.notification.updateMany({
+        where: { providerMessageId, status: { in: ['pending', 'sent'] } },
+        data: status === 'delivered'
+            ? { status, deliveredAt: now }
+            : { status, failedAt: now, failureReason: failureReason || 'Undelivered' },
+    })
+    return result.count
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * A staff member's in-app notifications, newest first
+ */
+export async function listInAppNotifications(userId: string, limit = 50) {
+    return prisma.notification.findMany({
+        where: { channel: 'in_app', recipientType: 'user', recipientId: userId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+    })
+}
@@ -0,0 +1,111 @@
+/**
+ * Notification Providers
+ * SMTP and Twilio transports configured from SMTPConfig / TwilioConfig,
+ * falling back to environment variables
+ */
+
+import twilio from 'twilio'
+import { prisma } from '@/lib/db/prisma'
+import { getEmailTransporter } from '@/lib/email/service'
+import { toE164, type DeliveryReceipt, type NotificationTransport, type OutgoingMessage } from './transport'
+
+// ============================================================================
+// EMAIL
+// ============================================================================
+
+export const emailTransport: NotificationTransport = {
+    async send(message: OutgoingMessage): Promise<DeliveryReceipt> {
+        const transporter = await getEmailTransporter()
+        if (!transporter) {
+            throw new Error('Email is not configured')
+        }
+
+        const smtpConfig = await prisma.sMTPConfig.findFirst({ where: { enabled: true } })
+        const fromEmail = smtpConfig?.fromEmail || process.env.SMTP_FROM_EMAIL || 'noreply@bistrobay.com'
+        const fromName = smtpConfig?.fromName || process.env.SMTP_FROM_NAME || 'Bistro Bay'
+
+        const info = await transporter.sendMail({
+            from: `"${fromName}" <${fromEmail}>`,
+            to: message.to,
+            subject: message.subject ?? '',
+            text: message.text,
+            html: message.html ?? undefined,
+        })
+
+        return { providerMessageId: info.messageId }
+    },
+}
+
+// ============================================================================
+// TWILIO
+// ============================================================================
+
+interface TwilioSettings {
+    accountSid: string
+    authToken: string
+    phoneNumber: string
+    whatsappNumber: string | null
+}
+
+/**
+ * Enabled TwilioConfig row, else TWILIO_* environment variables
+ */
+export async function getTwilioSettings(): Promise<TwilioSettings | null> {
+    const config = await prisma.twilioConfig.findFirst({ where: { enabled: true } })
+    if (config) {
+        return {
+            accountSid: config.accountSid,
+            authToken: config.authToken, // TODO: Decrypt in production
+            phoneNumber: config.phoneNumber,
+            whatsappNumber: config.whatsappEnabled ? config.whatsappNumber : null,
+        }
+    }
+
+    if (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER) {
+        return {
+            accountSid: process.env.TWILIO_ACCOUNT_SID,
+            authToken: process.env.TWILIO_AUTH_TOKEN,
+            phoneNumber: process.env.TWILIO_PHONE_NUMBER,
+            whatsappNumber: process.env.TWILIO_WHATSAPP_ENABLED === 'true'
+                ? process.env.TWILIO_WHATSAPP_NUMBER || null
+                : null,
+        }
+    }
+
+    return null
+}
+
+/**
+ * Twilio posts delivery updates here when the app's public URL is known
+ */
+function getStatusCallbackUrl(): string | undefined {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL
+    return baseUrl?.startsWith('https://') ? `${baseUrl}/api/notifications/twilio/status` : undefined
+}
+
+function createTwilioTransport(channel: 'sms' | 'whatsapp'): NotificationTransport {
+    return {
+        async send(message: OutgoingMessage): Promise<DeliveryReceipt> {
+            const settings = await getTwilioSettings()
+            if (!settings) {
+                throw new Error('Twilio is not configured')
+            }
+            if (channel === 'whatsapp' && !settings.whatsappNumber) {
+                throw new Error('WhatsApp is not enabled')
+            }
+
+            const to = toE164(message.to)
+            const result = await twilio(settings.accountSid, settings.authToken).messages.create({
+                body: message.text,
+                from: channel === 'whatsapp' ? `whatsapp:${settings.whatsappNumber}` : settings.phoneNumber,
+                to: channel === 'whatsapp' ? `whatsapp:${to}` : to,
+                statusCallback: getStatusCallbackUrl(),
+            })
+
+            return { providerMessageId: result.sid }
+        },
+    }
+}
+
+export const smsTransport = createTwilioTransport('sms')
+export const whatsappTransport = createTwilioTransport('whatsapp')
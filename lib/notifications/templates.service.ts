@@ -0,0 +1,142 @@
+/**
+ * Templates Service
+ * Resolves admin overrides against the built-in templates and renders them
+ * with the restaurant's branding
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import {
+    NOTIFICATION_CHANNELS,
+    NOTIFICATION_EVENTS,
+    NOTIFICATION_TEMPLATES,
+    TEMPLATE_LANGUAGES,
+    getDefaultTemplate,
+    isTemplateLanguage,
+    renderMessage,
+    type NotificationChannel,
+    type NotificationTemplate,
+    type NotificationTemplateKey,
+    type RenderedMessage,
+    type TemplateBranding,
+    type TemplateContent,
+    type TemplateLanguage,
+} from './templates'
+
+/**
+ * Restaurant name, contact details, currency and BrandingConfig colours
+ */
+export async function getTemplateBranding(): Promise<TemplateBranding> {
+    const [settings, branding] = await Promise.all([
+        prisma.restaurantSettings.findFirst(),
+        prisma.brandingConfig.findFirst(),
+    ])
+
+    return {
+        restaurantName: settings?.name || process.env.SMTP_FROM_NAME || 'Bistro Bay',
+        restaurantPhone: settings?.phone || '',
+        restaurantEmail: settings?.email || '',
+        currencySymbol: settings?.currencySymbol || 'Rs.',
+        logoUrl: branding?.logoUrl || null,
+        logoAlt: branding?.logoAlt || 'Restaurant Logo',
+        primaryColor: branding?.primaryColor || '#16a34a',
+        backgroundColor: branding?.backgroundColor || '#ffffff',
+        foregroundColor: branding?.foregroundColor || '#0f172a',
+        mutedColor: branding?.mutedColor || '#f1f5f9',
+        appUrl: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+    }
+}
+
+/**
+ * The requested language when supported, else the restaurant's default
+ */
+export async function resolveLanguage(requested?: string | null): Promise<TemplateLanguage> {
+    if (isTemplateLanguage(requested)) return requested
+
+    const settings = await prisma.restaurantSettings.findFirst({ select: { defaultLanguage: true } })
+    return isTemplateLanguage(settings?.defaultLanguage) ? settings.defaultLanguage : 'en'
+}
+
+/**
+ * Active admin override for the event, channel and language, else the
+ * built-in template
+ */
+export async function resolveTemplate(
+    event: NotificationTemplateKey,
+    channel: NotificationChannel,
+    language: TemplateLanguage
+): Promise<TemplateContent & { source: 'custom' | 'default' }> {
+    const custom = await prisma.messageTemplate.findUnique({
+        where: { event_channel_language: { event, channel, language } },
+    })
+
+    if (custom?.isActive) {
+        return { subject: custom.subject, body: custom.body, source: 'custom' }
+    }
+    return { ...getDefaultTemplate(event, channel, language), source: 'default' }
+}
+
+export async function renderNotification(input: {
+    event: NotificationTemplateKey
+    channel: NotificationChannel
+    language: TemplateLanguage
+    data: Record<string, unknown>
+    branding?: TemplateBranding
+}): Promise<RenderedMessage> {
+    const [content, branding] = await Promise.all([
+        resolveTemplate(input.event, input.channel, input.language),
+        input.branding ?? getTemplateBranding(),
+    ])
+
+    return renderMessage({ ...input, content, branding })
+}
+
+/**
+ * Renders a draft (or the current template) with the event's sample data
+ */
+export async function previewTemplate(input: {
+    event: NotificationTemplateKey
+    channel: NotificationChannel
+    language: TemplateLanguage
+    subject?: string | null
+    body?: string
+    data?: Record<string, unknown>
+}): Promise<RenderedMessage> {
+    const current = await resolveTemplate(input.event, input.channel, input.language)
+    const content: TemplateContent = {
+        subject: input.subject !== undefined ? input.subject : current.subject,
+        body: input.body ?? current.body,
+    }
+
+    return renderMessage({
+        event: input.event,
+        channel: input.channel,
+        language: input.language,
+        content,
+        data: { ...NOTIFICATION_TEMPLATES[input.event].sample, ...input.data },
+        branding: await getTemplateBranding(),
+    })
+}
+
+/**
+ * Every event, channel and language with its built-in template and any
+ * admin override, for the template editor
+ */
+export async function listMessageTemplates() {
+    const custom = await prisma.messageTemplate.findMany()
+    const brandingVariables = Object.keys(await getTemplateBranding())
+
+    return NOTIFICATION_EVENTS.flatMap(event => {
+        const definition: NotificationTemplate = NOTIFICATION_TEMPLATES[event]
+        const variables = [...Object.keys(definition.sample), ...brandingVariables]
+
+        return NOTIFICATION_CHANNELS.flatMap(channel => TEMPLATE_LANGUAGES.map(language => ({
+            event,
+            channel,
+            language,
+            description: definition.description,
+            variables,
+            default: getDefaultTemplate(event, channel, language),
+            custom: custom.find(t => t.event === event && t.channel === channel && t.language === language) ?? null,
+        })))
+    })
+}
@@ -0,0 +1,480 @@
+/**
+ * Notification Templates
+ * Built-in message text per event and language, {{placeholder}} rendering
+ * and the branded email layout. Admins can override any event, channel and
+ * language through MessageTemplate rows.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const NOTIFICATION_CHANNELS = ['email', 'sms', 'whatsapp', 'in_app'] as const
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number]
+
+export const TEMPLATE_LANGUAGES = ['en', 'ur'] as const
+
+export type TemplateLanguage = (typeof TEMPLATE_LANGUAGES)[number]
+
+/** Languages written right to left */
+const RTL_LANGUAGES = new Set<string>(['ur'])
+
+export interface TemplateText {
+    subject: string
+    /** Plain text, used for SMS, WhatsApp and in-app messages */
+    text: string
+    /** Email body; built from the text when omitted */
+    html?: string
+}
+
+export interface NotificationTemplate {
+    /** Notification.type the event files under */
+    type: 'order' | 'reservation' | 'waitlist' | 'inventory' | 'system'
+    description: string
+    /** Example data for previews; also documents the available variables */
+    sample: Record<string, unknown>
+    /** Derives language-specific variables from the caller's data */
+    prepare?: (data: Record<string, unknown>, language: TemplateLanguage) => Record<string, unknown>
+    languages: Record<TemplateLanguage, TemplateText>
+}
+
+/** Subject and body of one event, channel and language, whether stored or built in */
+export interface TemplateContent {
+    subject: string | null
+    body: string
+}
+
+/** Restaurant details every template can use */
+export interface TemplateBranding {
+    restaurantName: string
+    restaurantPhone: string
+    restaurantEmail: string
+    currencySymbol: string
+    logoUrl: string | null
+    logoAlt: string
+    primaryColor: string
+    backgroundColor: string
+    foregroundColor: string
+    mutedColor: string
+    appUrl: string
+}
+
+export interface RenderedMessage {
+    subject: string
+    text: string
+    html: string | null
+}
+
+// ============================================================================
+// BUILT-IN TEMPLATES
+// ============================================================================
+
+const ORDER_STATUS_LABELS: Record<TemplateLanguage, Record<string, string>> = {
+    en: {
+        CONFIRMED: 'confirmed',
+        PREPARING: 'being prepared',
+        READY: 'ready',
+        SERVED: 'served',
+        COMPLETED: 'complete',
+        CANCELLED: 'cancelled',
+    },
+    ur: {
+        CONFIRMED: 'کنفرم ہو گیا ہے',
+        PREPARING: 'تیار کیا جا رہا ہے',
+        READY: 'تیار ہے',
+        SERVED: 'پیش کر دیا گیا ہے',
+        COMPLETED: 'مکمل ہو گیا ہے',
+        CANCELLED: 'منسوخ کر دیا گیا ہے',
+    },
+}
+
+const ORDER_CONFIRMATION_HTML_EN = `<h1>Order Confirmation</h1>
+<p>Hi {{customerName}},</p>
+<p>Thank you for your order! We've received it and are getting started.</p>
+{{#generatedPassword}}
+<div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; padding: 15px; border-radius: 8px; margin: 20px 0;">
+  <h3 style="margin-top: 0;">Account Created</h3>
+  <p>We've created an account for you for faster checkout next time!</p>
+  <p><strong>Email:</strong> {{customerEmail}}<br><strong>Password:</strong> {{generatedPassword}}</p>
+  <p><a href="{{appUrl}}/login">Log in here</a> to view your order history.</p>
+</div>
+{{/generatedPassword}}
+<div style="background-color: {{mutedColor}}; padding: 15px; border-radius: 8px; margin: 20px 0;">
+  <h2 style="margin-top: 0;">Order Details</h2>
+  <p><strong>Order:</strong> #{{orderNumber}}</p>
+  <p><strong>Type:</strong> {{orderType}}</p>
+  {{#deliveryAddress}}<p><strong>Delivering to:</strong><br>{{deliveryAddress}}</p>{{/deliveryAddress}}
+  {{#pickupLocation}}<p><strong>Pickup location:</strong><br>{{pickupLocation}}</p>{{/pickupLocation}}
+</div>
+<h3>Receipt</h3>
+<table style="width: 100%; border-collapse: collapse;">
+  {{#items}}
+  <tr>
+    <td style="padding: 4px 0;"><strong>{{quantity}}x</strong> {{name}}{{#note}}<br><small>Note: {{note}}</small>{{/note}}</td>
+    <td style="padding: 4px 0; text-align: right; white-space: nowrap;">{{currencySymbol}} {{lineTotal}}</td>
+  </tr>
+  {{/items}}
+</table>
+<hr style="border: none; border-top: 1px solid #e5e7eb; margin: 15px 0;">
+<p style="font-size: 1.2em; text-align: right;"><strong>Total: {{currencySymbol}} {{total}}</strong></p>
+<p>We'll verify your order shortly. If you have any questions, please contact us at {{restaurantPhone}}.</p>
+<p>Thanks,<br>{{restaurantName}}</p>`
+
+const ORDER_CONFIRMATION_HTML_UR = `<h1>آرڈر کی تصدیق</h1>
+<p>{{customerName}}، السلام علیکم</p>
+<p>آپ کے آرڈر کا شکریہ! ہمیں آپ کا آرڈر موصول ہو گیا ہے۔</p>
+{{#generatedPassword}}
+<div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; padding: 15px; border-radius: 8px; margin: 20px 0;">
+  <h3 style="margin-top: 0;">اکاؤنٹ بنا دیا گیا</h3>
+  <p><strong>ای میل:</strong> {{customerEmail}}<br><strong>پاس ورڈ:</strong> {{generatedPassword}}</p>
+  <p><a href="{{appUrl}}/login">یہاں لاگ ان کریں</a></p>
+</div>
+{{/generatedPassword}}
+<div style="background-color: {{mutedColor}}; padding: 15px; border-radius: 8px; margin: 20px 0;">
+  <p><strong>آرڈر:</strong> #{{orderNumber}}</p>
+  <p><strong>قسم:</strong> {{orderType}}</p>
+  {{#deliveryAddress}}<p><strong>ڈیلیوری کا پتہ:</strong><br>{{deliveryAddress}}</p>{{/deliveryAddress}}
+  {{#pickupLocation}}<p><strong>وصولی کی جگہ:</strong><br>{{pickupLocation}}</p>{{/pickupLocation}}
+</div>
+<table style="width: 100%; border-collapse: collapse;">
+  {{#items}}
+  <tr>
+    <td style="padding: 4px 0;"><strong>{{quantity}}x</strong> {{name}}</td>
+    <td style="padding: 4px 0; text-align: left; white-space: nowrap;">{{currencySymbol}} {{lineTotal}}</td>
+  </tr>
+  {{/items}}
+</table>
+<p style="font-size: 1.2em;"><strong>کل رقم: {{currencySymbol}} {{total}}</strong></p>
+<p>شکریہ،<br>{{restaurantName}}</p>`
+
+export const NOTIFICATION_TEMPLATES = {
+    'order-confirmation': {
+        type: 'order',
+        description: 'Sent when an online order is placed',
+        sample: {
+            orderNumber: 'KHI-001-20260310-0042',
+            customerName: 'Ayesha Khan',
+            customerEmail: 'ayesha@example.com',
+            orderType: 'DELIVERY',
+            deliveryAddress: 'House 12, Street 4, DHA Phase 6, Karachi',
+            pickupLocation: null,
+            generatedPassword: null,
+            items: [
+                { quantity: 2, name: 'Chicken Karahi', lineTotal: '3,200', note: 'Less spicy' },
+                { quantity: 4, name: 'Garlic Naan', lineTotal: '480', note: null },
+            ],
+            total: '4,269',
+        },
+        languages: {
+            en: {
+                subject: 'Order Confirmation - #{{orderNumber}}',
+                text: 'Hi {{customerName}}, thank you for your order #{{orderNumber}}. Total: {{currencySymbol}} {{total}}.',
+                html: ORDER_CONFIRMATION_HTML_EN,
+            },
+            ur: {
+                subject: 'آرڈر کی تصدیق - #{{orderNumber}}',
+                text: '{{customerName}}، آپ کے آرڈر #{{orderNumber}} کا شکریہ۔ کل رقم: {{currencySymbol}} {{total}}',
+                html: ORDER_CONFIRMATION_HTML_UR,
+            },
+        },
+    },
+    'order-status': {
+        type: 'order',
+        description: 'Sent when an order is confirmed, ready, completed or cancelled',
+        sample: { orderNumber: 'KHI-001-20260310-0042', customerName: 'Ayesha Khan', status: 'READY' },
+        prepare: (data, language) => ({
+            statusLabel: ORDER_STATUS_LABELS[language][String(data.status)] ?? String(data.status ?? '').toLowerCase(),
+        }),
+        languages: {
+            en: {
+                subject: 'Order #{{orderNumber}} is {{statusLabel}}',
+                text: 'Hi {{customerName}}, your order #{{orderNumber}} is {{statusLabel}}.',
+            },
+            ur: {
+                subject: 'آرڈر #{{orderNumber}} {{statusLabel}}',
+                text: '{{customerName}}، آپ کا آرڈر #{{orderNumber}} {{statusLabel}}۔',
+            },
+        },
+    },
+    'reservation-confirmation': {
+        type: 'reservation',
+        description: 'Sent when a reservation is confirmed, online or by staff',
+        sample: {
+            guestName: 'Bilal Ahmed', partySize: 4, locationName: 'Clifton',
+            date: '2026-03-14', time: '20:00', reservationNumber: 'RES-0012',
+            manageUrl: 'https://example.com/reservations/manage?token=abc',
+        },
+        languages: {
+            en: {
+                subject: 'Reservation confirmed for {{date}}',
+                text: 'Hi {{guestName}}, your table for {{partySize}} at {{locationName}} is confirmed for {{date}} at {{time}}. Reference: {{reservationNumber}}.{{#manageUrl}} To change or cancel: {{manageUrl}}{{/manageUrl}}',
+            },
+            ur: {
+                subject: 'ریزرویشن کی تصدیق - {{date}}',
+                text: '{{guestName}}، {{locationName}} میں {{partySize}} افراد کے لیے آپ کی ٹیبل {{date}} کو {{time}} بجے کنفرم ہے۔ حوالہ: {{reservationNumber}}{{#manageUrl}} تبدیلی یا منسوخی کے لیے: {{manageUrl}}{{/manageUrl}}',
+            },
+        },
+    },
+    'reservation-reminder': {
+        type: 'reservation',
+        description: 'Sent ahead of a confirmed reservation',
+        sample: {
+            guestName: 'Bilal Ahmed', partySize: 4, locationName: 'Clifton', date: '2026-03-14', time: '20:00',
+            manageUrl: 'https://example.com/reservations/manage?token=abc',
+        },
+        languages: {
+            en: {
+                subject: 'Reminder: your reservation at {{locationName}}',
+                text: 'Reminder: your table for {{partySize}} at {{locationName}} is on {{date}} at {{time}}. See you soon!{{#manageUrl}} Can\'t make it? {{manageUrl}}{{/manageUrl}}',
+            },
+            ur: {
+                subject: 'یاد دہانی: {{locationName}} میں آپ کی ریزرویشن',
+                text: 'یاد دہانی: {{locationName}} میں {{partySize}} افراد کے لیے آپ کی ٹیبل {{date}} کو {{time}} بجے ہے۔ ہم آپ کے منتظر ہیں!{{#manageUrl}} نہیں آ سکتے؟ {{manageUrl}}{{/manageUrl}}',
+            },
+        },
+    },
+    'reservation-changed': {
+        type: 'reservation',
+        description: 'Sent when a guest moves their reservation',
+        sample: {
+            guestName: 'Bilal Ahmed', partySize: 5, locationName: 'Clifton',
+            date: '2026-03-15', time: '19:30', reservationNumber: 'RES-0012',
+            manageUrl: 'https://example.com/reservations/manage?token=abc',
+        },
+        languages: {
+            en: {
+                subject: 'Reservation updated: {{date}} at {{time}}',
+                text: 'Hi {{guestName}}, your reservation {{reservationNumber}} at {{locationName}} is now for {{partySize}} on {{date}} at {{time}}.{{#manageUrl}} Manage it here: {{manageUrl}}{{/manageUrl}}',
+            },
+            ur: {
+                subject: 'ریزرویشن میں تبدیلی: {{date}}، {{time}}',
+                text: '{{guestName}}، {{locationName}} میں آپ کی ریزرویشن {{reservationNumber}} اب {{partySize}} افراد کے لیے {{date}} کو {{time}} بجے ہے۔{{#manageUrl}} یہاں دیکھیں: {{manageUrl}}{{/manageUrl}}',
+            },
+        },
+    },
+    'reservation-cancelled': {
+        type: 'reservation',
+        description: 'Sent when a reservation is cancelled',
+        sample: {
+            guestName: 'Bilal Ahmed', locationName: 'Clifton', date: '2026-03-14', time: '20:00', reservationNumber: 'RES-0012',
+            depositAmount: '1000.00', depositRefunded: true, depositRefundPending: false,
+        },
+        languages: {
+            en: {
+                subject: 'Reservation {{reservationNumber}} cancelled',
+                text: 'Hi {{guestName}}, your reservation {{reservationNumber}} at {{locationName}} on {{date}} at {{time}} has been cancelled.{{#depositRefunded}} Your deposit of {{currencySymbol}} {{depositAmount}} has been refunded.{{/depositRefunded}}{{#depositRefundPending}} We couldn\'t refund your deposit of {{currencySymbol}} {{depositAmount}} automatically; our team will contact you to pay it back.{{/depositRefundPending}} We hope to see you another time.',
+            },
+            ur: {
+                subject: 'ریزرویشن {{reservationNumber}} منسوخ',
+                text: '{{guestName}}، {{locationName}} میں {{date}} کو {{time}} بجے آپ کی ریزرویشن {{reservationNumber}} منسوخ کر دی گئی ہے۔{{#depositRefunded}} آپ کی {{currencySymbol}} {{depositAmount}} کی ڈپازٹ واپس کر دی گئی ہے۔{{/depositRefunded}}{{#depositRefundPending}} آپ کی {{currencySymbol}} {{depositAmount}} کی ڈپازٹ خودکار طور پر واپس نہیں ہو سکی؛ ہماری ٹیم اسے واپس کرنے کے لیے آپ سے رابطہ کرے گی۔{{/depositRefundPending}}',
+            },
+        },
+    },
+    'waitlist-ready': {
+        type: 'waitlist',
+        description: 'Sent when a waitlisted party\'s table is ready',
+        sample: { guestName: 'Sana', locationName: 'Clifton' },
+        languages: {
+            en: {
+                subject: 'Your table is ready',
+                text: 'Hi {{guestName}}! Your table at {{locationName}} is ready. Please proceed to the host stand within 10 minutes.',
+            },
+            ur: {
+                subject: 'آپ کی ٹیبل تیار ہے',
+                text: '{{guestName}}! {{locationName}} میں آپ کی ٹیبل تیار ہے۔ براہ کرم 10 منٹ کے اندر ہوسٹ اسٹینڈ پر تشریف لائیں۔',
+            },
+        },
+    },
+    'low-stock': {
+        type: 'inventory',
+        description: 'Sent to staff when an item runs low',
+        sample: { itemName: 'Basmati Rice', quantity: 4.5, unit: 'kg', locationName: 'Clifton' },
+        languages: {
+            en: {
+                subject: 'Low stock at {{locationName}}',
+                text: '{{itemName}} is down to {{quantity}} {{unit}} at {{locationName}}.',
+            },
+            ur: {
+                subject: '{{locationName}} میں اسٹاک کم ہے',
+                text: '{{locationName}} میں {{itemName}} صرف {{quantity}} {{unit}} رہ گیا ہے۔',
+            },
+        },
+    },
+    'general': {
+        type: 'system',
+        description: 'Free-form message',
+        sample: { subject: 'Kitchen closing early', message: 'The kitchen closes at 10pm tonight.' },
+        languages: {
+            en: { subject: '{{subject}}', text: '{{message}}' },
+            ur: { subject: '{{subject}}', text: '{{message}}' },
+        },
+    },
+} satisfies Record<string, NotificationTemplate>
+
+export type NotificationTemplateKey = keyof typeof NOTIFICATION_TEMPLATES
+
+export const NOTIFICATION_EVENTS = Object.keys(NOTIFICATION_TEMPLATES) as NotificationTemplateKey[]
+
+export function isTemplateLanguage(value: unknown): value is TemplateLanguage {
+    return TEMPLATE_LANGUAGES.includes(value as TemplateLanguage)
+}
+
+// ============================================================================
+// PLACEHOLDERS
+// ============================================================================
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+}
+
+function lookup(scopes: Record<string, unknown>[], path: string): unknown {
+    for (const scope of scopes) {
+        const value = path.split('.').reduce<unknown>(
+            (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+            scope
+        )
+        if (value !== undefined) return value
+    }
+    return undefined
+}
+
+function renderScoped(text: string, scopes: Record<string, unknown>[], escape: boolean): string {
+    const sections = text.replace(
+        /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g,
+        (_match, path: string, inner: string) => {
+            const value = lookup(scopes, path)
+            if (Array.isArray(value)) {
+                return value.map(item => renderScoped(
+                    inner,
+                    [item && typeof item === 'object' ? item as Record<string, unknown> : { '.': item }, ...scopes],
+                    escape
+                )).join('')
+            }
+            return value ? renderScoped(inner, scopes, escape) : ''
+        }
+    )
+
+    return sections
+        .replace(/\{\{\{\s*([\w.]+)\s*\}\}\}/g, (_match, path: string) => {
+            const value = lookup(scopes, path)
+            return value === null || value === undefined ? '' : String(value)
+        })
+        .replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+            const value = lookup(scopes, path)
+            const text = value === null || value === undefined ? '' : String(value)
+            return escape ? escapeHtml(text) : text
+        })
+}
+
+/**
+ * Fills {{name}} and {{nested.name}} placeholders. {{#name}}...{{/name}}
+ * repeats its content for each entry of a list, or shows it once when the
+ * value is set. Missing values render as empty strings rather than leaking
+ * the placeholder to customers. With `escape`, values are HTML-escaped
+ * except inside {{{triple braces}}}.
+ */
+export function interpolate(text: string, data: Record<string, unknown>, options: { escape?: boolean } = {}): string {
+    return renderScoped(text, [data], options.escape ?? false)
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+export function textToHtml(text: string): string {
+    return text.split(/\n{2,}/).map(p => `<p>${p.replace(/\n/g, '<br>')}</p>`).join('\n')
+}
+
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<(br|\/p|\/div|\/tr|\/h\d)\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n\s*\n\s*/g, '\n\n')
+        .trim()
+}
+
+/**
+ * The built-in subject and body for an event on a channel. Email gets the
+ * HTML body, or the text one laid out as paragraphs.
+ */
+export function getDefaultTemplate(
+    event: NotificationTemplateKey,
+    channel: NotificationChannel,
+    language: TemplateLanguage
+): TemplateContent {
+    const text: TemplateText = NOTIFICATION_TEMPLATES[event].languages[language]
+    if (channel === 'email') {
+        return { subject: text.subject, body: text.html ?? textToHtml(text.text) }
+    }
+    return { subject: text.subject, body: text.text }
+}
+
+/**
+ * Wraps an email body in the restaurant's logo, colours and footer
+ */
+export function brandedEmailLayout(body: string, branding: TemplateBranding, language: TemplateLanguage): string {
+    const dir = RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr'
+    const header = branding.logoUrl
+        ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.logoAlt)}" style="max-height: 48px;">`
+        : `<strong style="font-size: 20px; color: #ffffff;">${escapeHtml(branding.restaurantName)}</strong>`
+
+    return `<!DOCTYPE html>
+<html lang="${language}" dir="${dir}">
+<body style="margin: 0; padding: 0; background-color: ${escapeHtml(branding.mutedColor)};">
+<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; background-color: ${escapeHtml(branding.backgroundColor)}; color: ${escapeHtml(branding.foregroundColor)};">
+<div style="background-color: ${escapeHtml(branding.primaryColor)}; padding: 16px 24px;">${header}</div>
+<div style="padding: 24px;">
+${body}
+</div>
+<div style="padding: 16px 24px; font-size: 12px; color: #6b7280; border-top: 1px solid #e5e7eb;">
+${escapeHtml(branding.restaurantName)} · ${escapeHtml(branding.restaurantPhone)} · ${escapeHtml(branding.restaurantEmail)}
+</div>
+</div>
+</body>
+</html>`
+}
+
+/**
+ * Renders a template for one channel. Restaurant details are available to
+ * every template; the caller's data wins on a name clash.
+ */
+export function renderMessage(input: {
+    event: NotificationTemplateKey
+    channel: NotificationChannel
+    language: TemplateLanguage
+    content: TemplateContent
+    data: Record<string, unknown>
+    branding: TemplateBranding
+}): RenderedMessage {
+    const definition: NotificationTemplate = NOTIFICATION_TEMPLATES[input.event]
+    const data = {
+        ...input.branding,
+        ...input.data,
+        ...definition.prepare?.(input.data, input.language),
+    }
+    const subject = interpolate(input.content.subject ?? '', data).trim()
+
+    if (input.channel !== 'email') {
+        return { subject, text: interpolate(input.content.body, data).trim(), html: null }
+    }
+
+    const body = interpolate(input.content.body, data, { escape: true })
+    return {
+        subject,
+        text: htmlToText(body),
+        html: brandedEmailLayout(body, input.branding, input.language),
+    }
+}
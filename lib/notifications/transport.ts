@@ -0,0 +1,76 @@
+/**
+ * Notification Transports
+ * The contract every delivery channel implements, and a fake that records
+ * messages instead of sending them
+ */
+
+import type { NotificationChannel } from './templates'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OutgoingMessage {
+    notificationId: string
+    channel: NotificationChannel
+    to: string
+    subject: string | null
+    text: string
+    html: string | null
+}
+
+export interface DeliveryReceipt {
+    /** Provider's id for the message, matched against later status callbacks */
+    providerMessageId?: string
+}
+
+export interface NotificationTransport {
+    /** Hands the message to the provider; throws when it is refused */
+    send(message: OutgoingMessage): Promise<DeliveryReceipt>
+}
+
+// ============================================================================
+// FAKE TRANSPORT
+// ============================================================================
+
+/**
+ * Keeps every message in memory. Selected for all channels with
+ * NOTIFICATIONS_TRANSPORT=fake, and handy in tests.
+ */
+export class FakeTransport implements NotificationTransport {
+    readonly sent: OutgoingMessage[] = []
+
+    /** When set, the next sends fail with this message */
+    failWith: string | null = null
+
+    async send(message: OutgoingMessage): Promise<DeliveryReceipt> {
+        if (this.failWith) {
+            throw new Error(this.failWith)
+        }
+        this.sent.push(message)
+        return { providerMessageId: `fake-${message.channel}-${this.sent.length}` }
+    }
+
+    clear(): void {
+        this.sent.length = 0
+        this.failWith = null
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * E.164 form of a phone number. Local numbers are taken to be Pakistani:
+ * a leading 0 or a bare 10-digit number gets the +92 country code.
+ */
+export function toE164(phone: string): string {
+    const cleaned = phone.replace(/[^\d+]/g, '')
+
+    if (cleaned.startsWith('+')) return cleaned
+    if (cleaned.startsWith('00')) return `+${cleaned.slice(2)}`
+    if (cleaned.startsWith('0')) return `+92${cleaned.slice(1)}`
+    if (cleaned.length === 10) return `+92${cleaned}`
+    return `+${cleaned}`
+}
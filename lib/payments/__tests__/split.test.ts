@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { allocateAmount, planEvenSplit, planItemSplit, planSeatSplit, type SplitOrderItem } from '../split'
+
+// 1000 of food, 100 off, 5% service and 16% tax on the discounted amount plus service
+const order = {
+  subtotal: '1000',
+  discountAmount: '100',
+  promotionDiscount: '0',
+  loyaltyDiscount: '0',
+  serviceCharge: '50',
+  deliveryFee: '0',
+  taxAmount: '152',
+  total: '1102',
+}
+
+const items: SplitOrderItem[] = [
+  { id: 'karahi', name: 'Karahi', totalPrice: '600', seatNumber: 1 },
+  { id: 'biryani', name: 'Biryani', totalPrice: '300', seatNumber: 2 },
+  { id: 'naan', name: 'Naan', totalPrice: '100', seatNumber: null },
+]
+
+const sum = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100
+
+describe('allocateAmount', () => {
+  it('hands the leftover cents to the largest remainders', () => {
+    expect(allocateAmount(100, [1, 1, 1])).toEqual([33.34, 33.33, 33.33])
+    expect(allocateAmount('10.00', [2, 1])).toEqual([6.67, 3.33])
+    expect(allocateAmount(5, [0, 0])).toEqual([2.5, 2.5])
+  })
+})
+
+describe('planEvenSplit', () => {
+  it('splits to within a cent and adds back up to the order', () => {
+    const { splits } = planEvenSplit(order, items, 3)
+
+    expect(splits.map(split => split.total)).toEqual([367.34, 367.33, 367.33])
+    expect(sum(splits.map(split => split.taxAmount))).toBe(152)
+    expect(sum(splits.map(split => split.discountAmount))).toBe(100)
+    expect(splits[0].items).toContainEqual({ orderItemId: 'karahi', share: 0.333333, amount: 200 })
+  })
+
+  it('refuses fewer than two checks', () => {
+    expect(() => planEvenSplit(order, items, 1)).toThrow('at least 2 checks')
+  })
+})
+
+describe('planItemSplit', () => {
+  it('charges each check its items and shares out tax, service and discount', () => {
+    const { splits } = planItemSplit(order, items, [
+      { label: 'Ali', items: [{ orderItemId: 'karahi' }, { orderItemId: 'naan', share: 0.5 }] },
+      { label: 'Sara', items: [{ orderItemId: 'biryani' }, { orderItemId: 'naan', share: 0.5 }] },
+    ])
+
+    expect(splits[0]).toMatchObject({ label: 'Ali', subtotal: 650, discountAmount: 65, serviceCharge: 32.5, taxAmount: 98.8, total: 716.3 })
+    expect(splits[1]).toMatchObject({ label: 'Sara', subtotal: 350, discountAmount: 35, serviceCharge: 17.5, taxAmount: 53.2, total: 385.7 })
+  })
+
+  it('needs every item placed and shares that make a whole', () => {
+    expect(() => planItemSplit(order, items, [
+      { items: [{ orderItemId: 'karahi' }] },
+      { items: [{ orderItemId: 'biryani' }] },
+    ])).toThrow('Naan is not on any check')
+
+    expect(() => planItemSplit(order, items, [
+      { items: [{ orderItemId: 'karahi' }, { orderItemId: 'naan', share: 0.5 }] },
+      { items: [{ orderItemId: 'biryani' }, { orderItemId: 'naan', share: 0.4 }] },
+    ])).toThrow('must add up to the whole item')
+  })
+})
+
+describe('planSeatSplit', () => {
+  it('gives each seat its items and shares the rest', () => {
+    const { splits } = planSeatSplit(order, items)
+
+    expect(splits.map(split => split.label)).toEqual(['Seat 1', 'Seat 2'])
+    expect(splits.map(split => split.subtotal)).toEqual([650, 350])
+    expect(sum(splits.map(split => split.total))).toBe(1102)
+  })
+
+  it('needs two seats', () => {
+    expect(() => planSeatSplit(order, items.map(item => ({ ...item, seatNumber: 1 })))).toThrow('at least 2 seats')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import {
+  computeEasypaisaHash,
+  computeJazzCashHash,
+  parseEasypaisaNotification,
+  parseJazzCashNotification,
+  parseStripeEvent,
+  parseWebhookFields,
+  verifyEasypaisaHash,
+  verifyJazzCashHash,
+  verifyStripeSignature,
+} from '../webhooks'
+import { easypaisaGateway, jazzCashGateway, stripeGateway } from '../gateways'
+
+const now = new Date('2026-10-19T12:00:00Z')
+const timestamp = Math.floor(now.getTime() / 1000)
+
+const stripeBody = JSON.stringify({
+  id: 'evt_1',
+  type: 'payment_intent.succeeded',
+  data: { object: { id: 'pi_1', object: 'payment_intent', amount_received: 110250, metadata: { transactionNumber: 'TXN-20261019-ABC123' } } },
+})
+
+const sign = (body: string, secret: string, at = timestamp) =>
+  `t=${at},v1=${createHmac('sha256', secret).update(`${at}.${body}`).digest('hex')}`
+
+describe('verifyStripeSignature', () => {
+  it('accepts the signed body and nothing else', () => {
+    const header = sign(stripeBody, 'whsec_test')
+
+    expect(verifyStripeSignature(stripeBody, header, 'whsec_test', { now })).toBe(true)
+    expect(verifyStripeSignature(stripeBody.replace('110250', '1'), header, 'whsec_test', { now })).toBe(false)
+    expect(verifyStripeSignature(stripeBody, header, 'whsec_other', { now })).toBe(false)
+    expect(verifyStripeSignature(stripeBody, null, 'whsec_test', { now })).toBe(false)
+  })
+
+  it('refuses an old signature', () => {
+    const header = sign(stripeBody, 'whsec_test', timestamp - 600)
+    expect(verifyStripeSignature(stripeBody, header, 'whsec_test', { now })).toBe(false)
+  })
+})
+
+describe('wallet hashes', () => {
+  it('signs JazzCash pp_ fields in name order with the salt', () => {
+    const fields = { pp_TxnRefNo: 'JC1', pp_Amount: '110250', pp_ResponseCode: '000', pp_BankID: '' }
+    const expected = createHmac('sha256', 'salt')
+      .update('salt&110250&000&JC1')
+      .digest('hex')
+      .toUpperCase()
+
+    expect(computeJazzCashHash(fields, 'salt')).toBe(expected)
+    expect(verifyJazzCashHash({ ...fields, pp_SecureHash: expected.toLowerCase() }, 'salt')).toBe(true)
+    expect(verifyJazzCashHash({ ...fields, pp_Amount: '100', pp_SecureHash: expected }, 'salt')).toBe(false)
+  })
+
+  it('checks the Easypaisa hash against the other fields', () => {
+    const fields = { orderRefNumber: 'EP1', transactionStatus: 'PAID', transactionAmount: '1102.50' }
+    const hash = computeEasypaisaHash(fields, '0123456789ABCDEF')
+
+    expect(verifyEasypaisaHash({ ...fields, merchantHashedReq: hash }, '0123456789ABCDEF')).toBe(true)
+    expect(verifyEasypaisaHash({ ...fields, transactionStatus: 'FAILED', merchantHashedReq: hash }, '0123456789ABCDEF')).toBe(false)
+  })
+})
+
+describe('parsing', () => {
+  it('reads a Stripe payment intent event', () => {
+    expect(parseStripeEvent(stripeBody)).toEqual({
+      eventId: 'evt_1',
+      eventType: 'payment_intent.succeeded',
+      gatewayRef: 'pi_1',
+      transactionNumber: 'TXN-20261019-ABC123',
+      outcome: 'completed',
+      amount: 1102.5,
+    })
+    expect(parseStripeEvent(JSON.stringify({ id: 'evt_2', type: 'charge.refunded', data: { object: { object: 'charge' } } })).outcome).toBe('ignored')
+  })
+
+  it('only fails a Stripe payment once its intent is cancelled', () => {
+    const event = (type: string, intent: object) =>
+      parseStripeEvent(JSON.stringify({ id: 'evt_3', type, data: { object: { id: 'pi_1', object: 'payment_intent', ...intent } } }))
+    expect(event('payment_intent.payment_failed', { last_payment_error: { message: 'Your card was declined.' } }))
+      .toMatchObject({ outcome: 'pending', error: 'Your card was declined.' })
+    expect(event('payment_intent.canceled', { cancellation_reason: 'abandoned' }))
+      .toMatchObject({ outcome: 'failed', error: 'Payment cancelled: abandoned' })
+  })
+
+  it('keys wallet notifications by reference and result', () => {
+    const pending = parseJazzCashNotification(parseWebhookFields('pp_TxnRefNo=JC1&pp_ResponseCode=157&pp_Amount=110250', null))
+    expect(pending).toMatchObject({ eventId: 'JC1:157', outcome: 'pending', amount: 1102.5 })
+    expect(parseJazzCashNotification({ pp_TxnRefNo: 'JC1', pp_ResponseCode: '199', pp_ResponseMessage: 'Declined' }))
+      .toMatchObject({ eventId: 'JC1:199', outcome: 'failed', error: 'Declined' })
+
+    const paid = parseEasypaisaNotification(parseWebhookFields('{"orderRefNumber":"EP1","transactionStatus":"paid","transactionAmount":1102.5}', 'application/json'))
+    expect(paid).toMatchObject({ eventId: 'EP1:PAID', gatewayRef: 'EP1', outcome: 'completed', amount: 1102.5 })
+  })
+})
+
+describe('confirming payments for reconciliation', () => {
+  it('leaves a payment pending when the gateway cannot be asked', async () => {
+    // No gateway credentials are set in tests
+    for (const gateway of [stripeGateway, jazzCashGateway, easypaisaGateway]) {
+      const answer = await gateway.confirmPayment('ref_1')
+      expect(answer.status).toBe('pending')
+      expect(answer.gatewayResponse).toBeUndefined()
+    }
+  })
+})
@@ -4,6 +4,7 @@
  */
 
 import Stripe from 'stripe'
+import { computeJazzCashHash, type WebhookProvider } from './webhooks'
 
 // Initialize Stripe if key is available
 const stripe = process.env.STRIPE_SECRET_KEY
@@ -119,22 +120,27 @@ export const stripeGateway = {
         }
     },
 
+    // Only Stripe's own answer fails a payment; not being able to ask leaves it pending
     async confirmPayment(paymentIntentId: string): Promise<PaymentResult> {
         if (!stripe) {
-            return { success: false, status: 'failed', error: 'Stripe is not configured' }
+            return { success: false, gatewayRef: paymentIntentId, status: 'pending', error: 'Stripe is not configured' }
         }
 
         try {
             const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+            const status = paymentIntent.status === 'succeeded'
+                ? 'completed'
+                : paymentIntent.status === 'canceled' ? 'failed' : 'pending'
             return {
                 success: paymentIntent.status === 'succeeded',
                 gatewayRef: paymentIntent.id,
-                status: paymentIntent.status === 'succeeded' ? 'completed' : 'pending',
+                status,
+                error: status === 'failed' ? 'Payment cancelled' : undefined,
                 gatewayResponse: { status: paymentIntent.status }
             }
         } catch (error: unknown) {
             const stripeError = error as { message?: string }
-            return { success: false, status: 'failed', error: stripeError.message }
+            return { success: false, gatewayRef: paymentIntentId, status: 'pending', error: stripeError.message }
         }
     },
 
@@ -171,6 +177,7 @@ interface JazzCashConfig {
     password: string
     integrityHash: string
     apiUrl: string
+    inquiryUrl: string
 }
 
 function getJazzCashConfig(): JazzCashConfig | null {
@@ -186,7 +193,8 @@ function getJazzCashConfig(): JazzCashConfig | null {
         merchantId,
         password,
         integrityHash,
-        apiUrl: process.env.JAZZCASH_API_URL || 'https://sandbox.jazzcash.com.pk/ApplicationAPI/API/2.0/Purchase/PAY'
+        apiUrl: process.env.JAZZCASH_API_URL || 'https://sandbox.jazzcash.com.pk/ApplicationAPI/API/2.0/Purchase/PAY',
+        inquiryUrl: process.env.JAZZCASH_INQUIRY_URL || 'https://sandbox.jazzcash.com.pk/ApplicationAPI/API/PaymentInquiry/Inquire'
     }
 }
 
@@ -228,6 +236,16 @@ export const jazzCashGateway = {
                 }
             }
 
+            // Waiting on the customer to approve in the app; settled by webhook
+            if (data.pp_ResponseCode === '124' || data.pp_ResponseCode === '157') {
+                return {
+                    success: true,
+                    gatewayRef: data.pp_TxnRefNo || txnRefNo,
+                    status: 'pending',
+                    gatewayResponse: data
+                }
+            }
+
             return {
                 success: false,
                 status: 'failed',
@@ -240,6 +258,45 @@ export const jazzCashGateway = {
         }
     },
 
+    async confirmPayment(txnRefNo: string): Promise<PaymentResult> {
+        const config = getJazzCashConfig()
+        if (!config) {
+            return { success: false, gatewayRef: txnRefNo, status: 'pending', error: 'JazzCash is not configured' }
+        }
+
+        try {
+            const fields = {
+                pp_MerchantID: config.merchantId,
+                pp_Password: config.password,
+                pp_TxnRefNo: txnRefNo,
+            }
+            const response = await fetch(config.inquiryUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...fields, pp_SecureHash: computeJazzCashHash(fields, config.integrityHash) })
+            })
+
+            const data = await response.json() as { pp_ResponseCode?: string; pp_ResponseMessage?: string; pp_Status?: string }
+            if (data.pp_ResponseCode !== '000') {
+                // The inquiry itself failed, so the payment may still go through
+                return { success: false, gatewayRef: txnRefNo, status: 'pending', error: data.pp_ResponseMessage, gatewayResponse: data }
+            }
+
+            const paymentStatus = (data.pp_Status || '').toLowerCase()
+            const status = paymentStatus === 'completed' ? 'completed' : paymentStatus === 'pending' ? 'pending' : 'failed'
+            return {
+                success: status === 'completed',
+                gatewayRef: txnRefNo,
+                status,
+                error: status === 'failed' ? 'JazzCash payment failed' : undefined,
+                gatewayResponse: data
+            }
+        } catch (error: unknown) {
+            const fetchError = error as { message?: string }
+            return { success: false, gatewayRef: txnRefNo, status: 'pending', error: fetchError.message }
+        }
+    },
+
     async processRefund(_request: RefundRequest): Promise<RefundResult> {
         // JazzCash refunds typically require manual processing or different API
         return {
@@ -258,6 +315,7 @@ interface EasypaisaConfig {
     storeId: string
     hashKey: string
     apiUrl: string
+    inquiryUrl: string
 }
 
 function getEasypaisaConfig(): EasypaisaConfig | null {
@@ -271,7 +329,8 @@ function getEasypaisaConfig(): EasypaisaConfig | null {
     return {
         storeId,
         hashKey,
-        apiUrl: process.env.EASYPAISA_API_URL || 'https://easypay.easypaisa.com.pk/easypay-service/rest/v4/initiate-ma-transaction'
+        apiUrl: process.env.EASYPAISA_API_URL || 'https://easypay.easypaisa.com.pk/easypay-service/rest/v4/initiate-ma-transaction',
+        inquiryUrl: process.env.EASYPAISA_INQUIRY_URL || 'https://easypay.easypaisa.com.pk/easypay-service/rest/v4/inquire-transaction'
     }
 }
 
@@ -298,10 +357,12 @@ export const easypaisaGateway = {
 
             const data = await response.json() as { responseCode?: string; responseDesc?: string; transactionId?: string }
 
+            // Easypaisa notifies and answers inquiries by our order reference,
+            // so that is kept as the gateway ref and its own id in the response
             if (data.responseCode === '0000') {
                 return {
                     success: true,
-                    gatewayRef: data.transactionId,
+                    gatewayRef: orderId,
                     status: 'completed',
                     gatewayResponse: data
                 }
@@ -309,6 +370,7 @@ export const easypaisaGateway = {
 
             return {
                 success: false,
+                gatewayRef: orderId,
                 status: 'failed',
                 error: data.responseDesc || 'Easypaisa payment failed',
                 gatewayResponse: data
@@ -319,6 +381,41 @@ export const easypaisaGateway = {
         }
     },
 
+    async confirmPayment(orderId: string): Promise<PaymentResult> {
+        const config = getEasypaisaConfig()
+        if (!config) {
+            return { success: false, gatewayRef: orderId, status: 'pending', error: 'Easypaisa is not configured' }
+        }
+
+        try {
+            const response = await fetch(config.inquiryUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ storeId: config.storeId, orderId })
+            })
+
+            const data = await response.json() as { responseCode?: string; responseDesc?: string; transactionStatus?: string }
+            if (data.responseCode !== '0000') {
+                return { success: false, gatewayRef: orderId, status: 'pending', error: data.responseDesc, gatewayResponse: data }
+            }
+
+            const transactionStatus = (data.transactionStatus || '').toUpperCase()
+            const status = transactionStatus === 'PAID'
+                ? 'completed'
+                : transactionStatus === 'PENDING' || transactionStatus === 'INITIATED' ? 'pending' : 'failed'
+            return {
+                success: status === 'completed',
+                gatewayRef: orderId,
+                status,
+                error: status === 'failed' ? `Easypaisa payment ${transactionStatus.toLowerCase() || 'failed'}` : undefined,
+                gatewayResponse: data
+            }
+        } catch (error: unknown) {
+            const fetchError = error as { message?: string }
+            return { success: false, gatewayRef: orderId, status: 'pending', error: fetchError.message }
+        }
+    },
+
     async processRefund(_request: RefundRequest): Promise<RefundResult> {
         return {
             success: false,
@@ -349,6 +446,37 @@ export function getGateway(provider: GatewayProvider) {
     }
 }
 
+/**
+ * The gateway to ask for a payment's status later, or null for cash, which
+ * settles at the till
+ */
+export function getConfirmingGateway(provider: GatewayProvider) {
+    switch (provider) {
+        case 'stripe':
+            return stripeGateway
+        case 'jazzcash':
+            return jazzCashGateway
+        case 'easypaisa':
+            return easypaisaGateway
+        default:
+            return null
+    }
+}
+
+/**
+ * The secret a provider's webhooks are signed with, or null when unset
+ */
+export function getWebhookSecret(provider: WebhookProvider): string | null {
+    switch (provider) {
+        case 'stripe':
+            return process.env.STRIPE_WEBHOOK_SECRET || null
+        case 'jazzcash':
+            return getJazzCashConfig()?.integrityHash ?? null
+        case 'easypaisa':
+            return getEasypaisaConfig()?.hashKey ?? null
+    }
+}
+
 // ============================================================================
 // UTILITY: Generate transaction number
 // ============================================================================
@@ -1,2 +1,6 @@
 export * from './gateways'
 export * from './payment.service'
+export * from './split'
+export * from './split.service'
+export * from './webhooks'
+export * from './webhooks.service'
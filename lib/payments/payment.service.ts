@@ -5,7 +5,10 @@
 
 import { prisma } from '@/lib/db/prisma'
 import { Prisma, TransactionStatus, PaymentStatus } from '@prisma/client'
+import { assertShiftOpen, recordShiftPayment, recordShiftRefund } from '@/lib/pos/shift.service'
 import { getGateway, generateTransactionNumber, type GatewayProvider, type PaymentRequest } from './gateways'
+import { assertSplitPayable, updateSplitPaymentStatus } from './split.service'
+import { markDepositPaid } from '@/lib/reservations/deposit.service'
 
 // ============================================================================
 // TYPES
@@ -16,14 +19,26 @@ export interface ProcessPaymentInput {
     paymentMethodId: string
     amount: number
     tipAmount?: number
+    /** Cash handed over, when more than the amount and tip */
+    tenderedAmount?: number
     terminalId?: string
     shiftId?: string
     isSplitPayment?: boolean
     splitIndex?: number
+    /** Check of a split bill being paid; required once the bill is split */
+    splitId?: string
     customerEmail?: string
     customerPhone?: string
 }
 
+/** A gateway's final word on a payment, from its response, a webhook or an inquiry */
+export interface PaymentOutcome {
+    status: 'completed' | 'failed' | 'cancelled'
+    gatewayRef?: string
+    gatewayResponse?: Record<string, unknown>
+    error?: string
+}
+
 export interface PaymentMethodInput {
     name: string
     code: string
@@ -107,6 +122,17 @@ export async function processPayment(input: ProcessPaymentInput) {
         throw new Error('Order not found')
     }
 
+    if (input.shiftId) {
+        await assertShiftOpen(input.shiftId)
+    }
+
+    let split: { id: string; splitIndex: number } | null = null
+    if (input.splitId) {
+        split = await assertSplitPayable(input.orderId, input.splitId, input.amount)
+    } else if (order.splitMethod) {
+        throw new Error('This bill is split, pay one of its checks')
+    }
+
     // Calculate fee
     let feeAmount = 0
     if (paymentMethod.feeType === 'percentage' && paymentMethod.feePercentage) {
@@ -122,6 +148,10 @@ export async function processPayment(input: ProcessPaymentInput) {
     const tipAmount = input.tipAmount || 0
     const netAmount = input.amount - feeAmount
 
+    if (input.tenderedAmount !== undefined && input.tenderedAmount < input.amount + tipAmount) {
+        throw new Error('Amount tendered is less than the amount due')
+    }
+
     // Create transaction record
     const transaction = await prisma.transaction.create({
         data: {
@@ -134,8 +164,10 @@ export async function processPayment(input: ProcessPaymentInput) {
             tipAmount,
             feeAmount,
             netAmount,
-            isSplitPayment: input.isSplitPayment || false,
-            splitIndex: input.splitIndex,
+            tenderedAmount: input.tenderedAmount,
+            isSplitPayment: split ? true : input.isSplitPayment || false,
+            splitIndex: split ? split.splitIndex : input.splitIndex,
+            splitId: split?.id,
             status: TransactionStatus.PROCESSING,
         }
     })
@@ -156,33 +188,30 @@ export async function processPayment(input: ProcessPaymentInput) {
 
         const result = await gateway.processPayment(paymentRequest)
 
-        // Update transaction with result
-        const status = result.success
-            ? TransactionStatus.COMPLETED
-            : TransactionStatus.FAILED
+        // Still with the customer; a webhook or the reconciliation job settles it
+        if (result.success && result.status === 'pending') {
+            const pendingTransaction = await prisma.transaction.update({
+                where: { id: transaction.id },
+                data: {
+                    gatewayRef: result.gatewayRef,
+                    gatewayResponse: (result.gatewayResponse as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+                },
+                include: { paymentMethod: true, order: true }
+            })
+            return { success: true, pending: true, transaction: pendingTransaction, error: result.error }
+        }
 
-        const updatedTransaction = await prisma.transaction.update({
-            where: { id: transaction.id },
-            data: {
-                status,
-                gatewayRef: result.gatewayRef,
-                gatewayResponse: (result.gatewayResponse as Prisma.InputJsonValue) ?? Prisma.JsonNull,
-                processedAt: result.success ? new Date() : null,
-            },
-            include: {
-                paymentMethod: true,
-                order: true,
-            }
+        const settled = await settleTransaction(transaction.id, {
+            status: result.success ? 'completed' : 'failed',
+            gatewayRef: result.gatewayRef,
+            gatewayResponse: result.gatewayResponse,
+            error: result.error,
         })
 
-        // Update order payment status if successful
-        if (result.success) {
-            await updateOrderPaymentStatus(input.orderId)
-        }
-
         return {
             success: result.success,
-            transaction: updatedTransaction,
+            pending: false,
+            transaction: settled!,
             error: result.error
         }
     } catch (error) {
@@ -195,15 +224,107 @@ export async function processPayment(input: ProcessPaymentInput) {
     }
 }
 
+/**
+ * Moves a PROCESSING transaction to its final status and, once paid, updates
+ * the order, its split check and the shift. Only the first caller wins, so a
+ * webhook, a redelivery and the reconciliation job can race safely; the
+ * others get null.
+ */
+export async function settleTransaction(transactionId: string, outcome: PaymentOutcome) {
+    const status = outcome.status === 'completed'
+        ? TransactionStatus.COMPLETED
+        : outcome.status === 'cancelled' ? TransactionStatus.CANCELLED : TransactionStatus.FAILED
+    const transaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+        include: { order: { select: { paymentStatus: true } } }
+    })
+    if (!transaction) {
+        throw new Error('Transaction not found')
+    }
+
+    // Later answers are added to what the gateway said when the payment started
+    const gatewayResponse = outcome.gatewayResponse || (outcome.error && outcome.status !== 'completed')
+        ? {
+            ...(transaction.gatewayResponse as Prisma.JsonObject | null),
+            ...outcome.gatewayResponse,
+            ...(outcome.error && outcome.status !== 'completed' && { error: outcome.error }),
+        }
+        : undefined
+
+    const { count } = await prisma.transaction.updateMany({
+        where: { id: transactionId, status: { in: [TransactionStatus.PENDING, TransactionStatus.PROCESSING] } },
+        data: {
+            status,
+            ...(outcome.gatewayRef && { gatewayRef: outcome.gatewayRef }),
+            ...(gatewayResponse && { gatewayResponse: gatewayResponse as Prisma.InputJsonValue }),
+            processedAt: status === TransactionStatus.COMPLETED ? new Date() : null,
+        }
+    })
+    if (count === 0) {
+        return null
+    }
+
+    const paymentStatus = status === TransactionStatus.COMPLETED
+        ? await updateOrderPaymentStatus(transaction.orderId)
+        : null
+    if (paymentStatus && transaction.splitId) {
+        await updateSplitPaymentStatus(transaction.splitId)
+    }
+
+    const updatedTransaction = await prisma.transaction.findUniqueOrThrow({
+        where: { id: transactionId },
+        include: { paymentMethod: true, order: true }
+    })
+    if (paymentStatus) {
+        await recordShiftPayment(updatedTransaction, {
+            settlesOrder: paymentStatus === PaymentStatus.PAID && transaction.order.paymentStatus !== PaymentStatus.PAID,
+        })
+    }
+    // The payment stands even if the booking it was a deposit for can't be updated
+    if (paymentStatus === PaymentStatus.PAID) {
+        await markDepositPaid(transaction.orderId)
+            .catch((error) => console.error('Failed to record reservation deposit:', error))
+    }
+
+    return updatedTransaction
+}
+
+/**
+ * Moves an order's completed payments onto another order, as when a
+ * reservation deposit becomes credit on the table's bill, and updates what
+ * each order has been paid. Returns how many payments were moved.
+ */
+export async function transferPayments(fromOrderId: string, toOrderId: string) {
+    const { count } = await prisma.transaction.updateMany({
+        where: {
+            orderId: fromOrderId,
+            splitId: null,
+            status: { in: [TransactionStatus.COMPLETED, TransactionStatus.PARTIALLY_REFUNDED] },
+        },
+        data: { orderId: toOrderId }
+    })
+
+    await updateOrderPaymentStatus(fromOrderId)
+    await updateOrderPaymentStatus(toOrderId)
+
+    return count
+}
+
 // ============================================================================
 // REFUND
 // ============================================================================
 
+/**
+ * The refund is booked to `shiftId`, the shift paying it out, or else to the
+ * payment's own shift while that is still open. Cash can only be refunded
+ * from an open shift's drawer.
+ */
 export async function processRefund(
     transactionId: string,
     amount: number,
     reason: string,
-    refundedBy: string
+    refundedBy: string,
+    shiftId?: string
 ) {
     const transaction = await prisma.transaction.findUnique({
         where: { id: transactionId },
@@ -225,6 +346,17 @@ export async function processRefund(
         throw new Error(`Maximum refundable amount is ${maxRefundable}`)
     }
 
+    let refundShiftId: string | null = null
+    if (shiftId) {
+        refundShiftId = (await assertShiftOpen(shiftId)).id
+    } else if (transaction.shiftId) {
+        const original = await prisma.pOSShift.findUnique({ where: { id: transaction.shiftId }, select: { status: true } })
+        refundShiftId = original?.status === 'OPEN' ? transaction.shiftId : null
+    }
+    if (!refundShiftId && transaction.paymentMethod.type === 'CASH') {
+        throw new Error('Cash refunds must be paid out from an open shift')
+    }
+
     // Process refund via gateway
     const gatewayProvider = (transaction.paymentMethod.gatewayProvider || 'cash') as GatewayProvider
     const gateway = getGateway(gatewayProvider)
@@ -260,6 +392,14 @@ export async function processRefund(
 
     // Update order payment status
     await updateOrderPaymentStatus(transaction.orderId)
+    if (transaction.splitId) {
+        await updateSplitPaymentStatus(transaction.splitId)
+    }
+    await recordShiftRefund({
+        transactionId,
+        amount,
+        paymentType: transaction.paymentMethod.type,
+    }, refundShiftId)
 
     return updatedTransaction
 }
@@ -292,7 +432,7 @@ export async function getTransactionById(id: string) {
 // HELPERS
 // ============================================================================
 
-async function updateOrderPaymentStatus(orderId: string) {
+async function updateOrderPaymentStatus(orderId: string): Promise<PaymentStatus | null> {
     const transactions = await prisma.transaction.findMany({
         where: { orderId, status: TransactionStatus.COMPLETED }
     })
@@ -301,7 +441,7 @@ async function updateOrderPaymentStatus(orderId: string) {
         where: { id: orderId }
     })
 
-    if (!order) return
+    if (!order) return null
 
     const totalPaid = transactions.reduce((sum, t) => {
         const amount = Number(t.amount)
@@ -334,4 +474,6 @@ async function updateOrderPaymentStatus(orderId: string) {
             paidAmount: totalPaid
         }
     })
+
+    return paymentStatus
 }
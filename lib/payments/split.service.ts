@@ -0,0 +1,228 @@
+/**
+ * Split Bill Service
+ * Stores an order's split checks, keeps each check's payment status and
+ * guards payments taken against a check
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { PaymentStatus, TransactionStatus, type Prisma } from '@prisma/client'
+import {
+    planEvenSplit,
+    planItemSplit,
+    planSeatSplit,
+    type ItemSplitRequest,
+    type SplitPlan,
+} from './split'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SplitOrderInput =
+    | { method: 'EVEN'; ways: number }
+    | { method: 'ITEMS'; splits: ItemSplitRequest[] }
+    | { method: 'SEATS'; seats?: Array<{ orderItemId: string; seatNumber: number | null }> }
+
+const splitInclude = {
+    items: {
+        include: { orderItem: { select: { id: true, name: true, quantity: true, seatNumber: true } } }
+    },
+} satisfies Prisma.OrderSplitInclude
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function paymentStatusFor(paid: number, total: number): PaymentStatus {
+    if (paid > 0 && paid >= total - 0.005) return PaymentStatus.PAID
+    if (paid > 0) return PaymentStatus.PARTIAL
+    return PaymentStatus.UNPAID
+}
+
+async function assertNoPayments(tx: Prisma.TransactionClient, orderId: string) {
+    const paid = await tx.transaction.count({
+        where: {
+            orderId,
+            status: { in: [TransactionStatus.COMPLETED, TransactionStatus.PARTIALLY_REFUNDED, TransactionStatus.PROCESSING] }
+        }
+    })
+    if (paid > 0) {
+        throw new Error('Cannot change the split once payments have been taken')
+    }
+}
+
+async function removeSplits(tx: Prisma.TransactionClient, orderId: string) {
+    // Failed and refunded attempts keep their history but lose the link
+    await tx.transaction.updateMany({ where: { orderId, splitId: { not: null } }, data: { splitId: null } })
+    await tx.orderSplit.deleteMany({ where: { orderId } })
+}
+
+// ============================================================================
+// SPLITS
+// ============================================================================
+
+export async function getOrderSplits(orderId: string) {
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: {
+            id: true,
+            orderNumber: true,
+            total: true,
+            paidAmount: true,
+            paymentStatus: true,
+            splitMethod: true,
+            splits: { include: splitInclude, orderBy: { splitIndex: 'asc' } },
+        }
+    })
+    if (!order) {
+        throw new Error('Order not found')
+    }
+    return order
+}
+
+/**
+ * Replaces the order's checks. Not allowed once any payment has gone
+ * through, since the paid check could no longer be matched up.
+ */
+export async function splitOrder(orderId: string, input: SplitOrderInput) {
+    await prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            include: { orderItems: { where: { status: { not: 'cancelled' } }, orderBy: { createdAt: 'asc' } } }
+        })
+        if (!order) {
+            throw new Error('Order not found')
+        }
+        if (order.status === 'CANCELLED') {
+            throw new Error('Cannot split a cancelled order')
+        }
+        await assertNoPayments(tx, orderId)
+
+        let items = order.orderItems
+        if (input.method === 'SEATS' && input.seats?.length) {
+            const seats = new Map(input.seats.map(seat => [seat.orderItemId, seat.seatNumber]))
+            if ([...seats.keys()].some(id => !items.some(item => item.id === id))) {
+                throw new Error('Order item not found')
+            }
+            for (const [id, seatNumber] of seats) {
+                await tx.orderItem.update({ where: { id }, data: { seatNumber } })
+            }
+            items = items.map(item => seats.has(item.id) ? { ...item, seatNumber: seats.get(item.id)! } : item)
+        }
+
+        let plan: SplitPlan
+        switch (input.method) {
+            case 'EVEN':
+                plan = planEvenSplit(order, items, input.ways)
+                break
+            case 'ITEMS':
+                plan = planItemSplit(order, items, input.splits)
+                break
+            case 'SEATS':
+                plan = planSeatSplit(order, items)
+                break
+        }
+
+        await removeSplits(tx, orderId)
+        for (const split of plan.splits) {
+            await tx.orderSplit.create({
+                data: {
+                    orderId,
+                    splitIndex: split.splitIndex,
+                    label: split.label,
+                    subtotal: split.subtotal,
+                    discountAmount: split.discountAmount,
+                    serviceCharge: split.serviceCharge,
+                    deliveryFee: split.deliveryFee,
+                    taxAmount: split.taxAmount,
+                    total: split.total,
+                    items: { create: split.items },
+                }
+            })
+        }
+        await tx.order.update({ where: { id: orderId }, data: { splitMethod: plan.method } })
+    })
+
+    return getOrderSplits(orderId)
+}
+
+/**
+ * Goes back to a single bill
+ */
+export async function clearOrderSplits(orderId: string) {
+    await prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({ where: { id: orderId }, select: { id: true } })
+        if (!order) {
+            throw new Error('Order not found')
+        }
+        await assertNoPayments(tx, orderId)
+        await removeSplits(tx, orderId)
+        await tx.order.update({ where: { id: orderId }, data: { splitMethod: null } })
+    })
+
+    return getOrderSplits(orderId)
+}
+
+// ============================================================================
+// PAYMENTS
+// ============================================================================
+
+/**
+ * Checks a payment against the check it is for, less what is already paid
+ * or being paid on it, and returns the check. The checks must still add up
+ * to the order, so items changed after splitting need a new split first.
+ */
+export async function assertSplitPayable(orderId: string, splitId: string, amount: number) {
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: { total: true, splits: { select: { id: true, splitIndex: true, total: true, paidAmount: true } } }
+    })
+    const split = order?.splits.find(s => s.id === splitId)
+    if (!order || !split) {
+        throw new Error('Split not found')
+    }
+
+    const splitsTotal = order.splits.reduce((sum, s) => sum + Number(s.total), 0)
+    if (Math.abs(splitsTotal - Number(order.total)) > 0.005) {
+        throw new Error('The order has changed since it was split, split it again')
+    }
+
+    // Payments still with the gateway will count once they land
+    const processing = await prisma.transaction.aggregate({
+        where: { splitId, status: TransactionStatus.PROCESSING },
+        _sum: { amount: true }
+    })
+    const balance = Number(split.total) - Number(split.paidAmount) - Number(processing._sum.amount ?? 0)
+    if (amount > balance + 0.005) {
+        throw new Error(`Only ${balance.toFixed(2)} is left to pay on this check`)
+    }
+
+    return split
+}
+
+/**
+ * Recomputes a check's paid amount from its settled payments, net of refunds
+ */
+export async function updateSplitPaymentStatus(splitId: string) {
+    const split = await prisma.orderSplit.findUnique({
+        where: { id: splitId },
+        include: {
+            transactions: {
+                where: { status: { in: [TransactionStatus.COMPLETED, TransactionStatus.PARTIALLY_REFUNDED, TransactionStatus.REFUNDED] } },
+                select: { amount: true, refundedAmount: true }
+            }
+        }
+    })
+    if (!split) return
+
+    const paid = split.transactions.reduce((sum, t) => sum + Number(t.amount) - Number(t.refundedAmount), 0)
+    await prisma.orderSplit.update({
+        where: { id: splitId },
+        data: {
+            paidAmount: paid,
+            paymentStatus: split.transactions.length > 0 && paid <= 0
+                ? PaymentStatus.REFUNDED
+                : paymentStatusFor(paid, Number(split.total)),
+        }
+    })
+}
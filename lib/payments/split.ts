@@ -0,0 +1,240 @@
+/**
+ * Split Bills
+ * Pure rules for dividing an order into checks: evenly, by item or by seat,
+ * with tax, charges and discounts shared out in proportion and rounded so
+ * the checks add up to the order to the cent
+ */
+
+import type { SplitMethod } from '@prisma/client'
+import { toNumber, type Numeric } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SplitOrderTotals {
+    subtotal: Numeric
+    discountAmount: Numeric
+    promotionDiscount: Numeric
+    loyaltyDiscount: Numeric
+    serviceCharge: Numeric
+    deliveryFee: Numeric
+    taxAmount: Numeric
+    total: Numeric
+}
+
+export interface SplitOrderItem {
+    id: string
+    name: string
+    totalPrice: Numeric
+    seatNumber?: number | null
+}
+
+export interface ItemSplitRequest {
+    label?: string
+    /** Leave out the share to divide an item equally between the checks it is on */
+    items: Array<{ orderItemId: string; share?: number }>
+}
+
+export interface PlannedSplit {
+    splitIndex: number
+    label: string
+    items: Array<{ orderItemId: string; share: number; amount: number }>
+    subtotal: number
+    discountAmount: number
+    serviceCharge: number
+    deliveryFee: number
+    taxAmount: number
+    total: number
+}
+
+export interface SplitPlan {
+    method: SplitMethod
+    splits: PlannedSplit[]
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SHARE_TOLERANCE = 1e-6
+
+function toCents(value: Numeric): number {
+    return Math.round(toNumber(value) * 100)
+}
+
+/**
+ * Divides an amount in proportion to the weights, rounding to the cent by
+ * largest remainder so the parts always add back up to the amount. Ties go
+ * to the earlier part. Equal weights are used when they are all zero.
+ */
+export function allocateAmount(amount: Numeric, weights: number[]): number[] {
+    const cents = toCents(amount)
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+    const effective = totalWeight > 0 ? weights : weights.map(() => 1)
+    const effectiveTotal = totalWeight > 0 ? totalWeight : weights.length
+
+    const exact = effective.map(weight => (cents * weight) / effectiveTotal)
+    const parts = exact.map(Math.floor)
+    let remaining = cents - parts.reduce((sum, part) => sum + part, 0)
+
+    const order = exact
+        .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    for (const { index } of order) {
+        if (remaining <= 0) break
+        parts[index] += 1
+        remaining -= 1
+    }
+
+    return parts.map(part => part / 100)
+}
+
+/**
+ * Shares out the order's charges over checks holding the given fractions of
+ * each item. Discounts, service charge and delivery follow each check's share
+ * of the subtotal; the check total is rounded first and tax takes up the last
+ * cent, so even splits of a taxed order differ by at most a cent.
+ */
+function buildSplits(
+    order: SplitOrderTotals,
+    items: SplitOrderItem[],
+    checks: Array<{ label: string; shares: Map<string, number> }>
+): PlannedSplit[] {
+    const weights = checks.map(check =>
+        items.reduce((sum, item) => sum + toNumber(item.totalPrice) * (check.shares.get(item.id) ?? 0), 0)
+    )
+    const discount = toNumber(order.discountAmount) + toNumber(order.promotionDiscount) + toNumber(order.loyaltyDiscount)
+
+    const subtotals = allocateAmount(order.subtotal, weights)
+    const discounts = allocateAmount(discount, weights)
+    const serviceCharges = allocateAmount(order.serviceCharge, weights)
+    const deliveryFees = allocateAmount(order.deliveryFee, weights)
+    const totals = allocateAmount(order.total, weights)
+    const taxed = toCents(order.taxAmount) !== 0
+
+    return checks.map((check, index) => {
+        const beforeTax = Math.round((subtotals[index] - discounts[index] + serviceCharges[index] + deliveryFees[index]) * 100) / 100
+        // Untaxed orders have nothing to take up the rounding, and need none
+        const total = taxed ? totals[index] : beforeTax
+        return {
+            splitIndex: index + 1,
+            label: check.label,
+            items: items
+                .filter(item => (check.shares.get(item.id) ?? 0) > 0)
+                .map(item => {
+                    const share = check.shares.get(item.id)!
+                    return {
+                        orderItemId: item.id,
+                        share: Math.round(share * 1e6) / 1e6,
+                        amount: Math.round(toNumber(item.totalPrice) * share * 100) / 100,
+                    }
+                }),
+            subtotal: subtotals[index],
+            discountAmount: discounts[index],
+            serviceCharge: serviceCharges[index],
+            deliveryFee: deliveryFees[index],
+            taxAmount: taxed ? Math.round((total - beforeTax) * 100) / 100 : 0,
+            total,
+        }
+    })
+}
+
+// ============================================================================
+// METHODS
+// ============================================================================
+
+/**
+ * Every item shared equally between `ways` checks
+ */
+export function planEvenSplit(order: SplitOrderTotals, items: SplitOrderItem[], ways: number): SplitPlan {
+    if (!Number.isInteger(ways) || ways < 2) {
+        throw new Error('Split into at least 2 checks')
+    }
+    if (toCents(order.total) < ways) {
+        throw new Error('The order total is too small to split that many ways')
+    }
+
+    const checks = Array.from({ length: ways }, (_, index) => ({
+        label: `Guest ${index + 1}`,
+        shares: new Map(items.map(item => [item.id, 1 / ways])),
+    }))
+    return { method: 'EVEN', splits: buildSplits(order, items, checks) }
+}
+
+/**
+ * Items placed on checks by hand. An item on several checks is shared
+ * between them, equally unless shares are given; every item must be fully
+ * placed.
+ */
+export function planItemSplit(order: SplitOrderTotals, items: SplitOrderItem[], requests: ItemSplitRequest[]): SplitPlan {
+    if (requests.length < 2) {
+        throw new Error('Split into at least 2 checks')
+    }
+
+    const placements = new Map<string, Array<{ check: number; share?: number }>>()
+    requests.forEach((request, check) => {
+        if (request.items.length === 0) {
+            throw new Error('Each check needs at least one item')
+        }
+        for (const { orderItemId, share } of request.items) {
+            if (!items.some(item => item.id === orderItemId)) {
+                throw new Error('Order item not found')
+            }
+            const existing = placements.get(orderItemId) ?? []
+            if (existing.some(placement => placement.check === check)) {
+                throw new Error('An item can only appear once on a check')
+            }
+            placements.set(orderItemId, [...existing, { check, share }])
+        }
+    })
+
+    const checks = requests.map((request, index) => ({
+        label: request.label || `Check ${index + 1}`,
+        shares: new Map<string, number>(),
+    }))
+
+    for (const item of items) {
+        const placed = placements.get(item.id)
+        if (!placed) {
+            throw new Error(`${item.name} is not on any check`)
+        }
+
+        const given = placed.filter(placement => placement.share !== undefined)
+        if (given.length > 0 && given.length < placed.length) {
+            throw new Error(`Give a share for every check ${item.name} is on, or none`)
+        }
+        if (given.some(placement => !(placement.share! > 0))) {
+            throw new Error('Shares must be greater than 0')
+        }
+        const total = given.reduce((sum, placement) => sum + placement.share!, 0)
+        if (given.length > 0 && Math.abs(total - 1) > SHARE_TOLERANCE) {
+            throw new Error(`The shares of ${item.name} must add up to the whole item`)
+        }
+
+        for (const placement of placed) {
+            checks[placement.check].shares.set(item.id, placement.share ?? 1 / placed.length)
+        }
+    }
+
+    return { method: 'ITEMS', splits: buildSplits(order, items, checks) }
+}
+
+/**
+ * One check per seat. Items without a seat are shared equally by every seat.
+ */
+export function planSeatSplit(order: SplitOrderTotals, items: SplitOrderItem[]): SplitPlan {
+    const seats = [...new Set(items.map(item => item.seatNumber).filter((seat): seat is number => seat != null))]
+        .sort((a, b) => a - b)
+    if (seats.length < 2) {
+        throw new Error('Put items on at least 2 seats to split by seat')
+    }
+
+    const checks = seats.map(seat => ({
+        label: `Seat ${seat}`,
+        shares: new Map(items
+            .filter(item => item.seatNumber == null || item.seatNumber === seat)
+            .map(item => [item.id, item.seatNumber == null ? 1 / seats.length : 1])),
+    }))
+    return { method: 'SEATS', splits: buildSplits(order, items, checks) }
+}
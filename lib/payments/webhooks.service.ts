@@ -0,0 +1,255 @@
+/**
+ * Payment Webhook Service
+ * Records verified gateway notifications once each, settles the transactions
+ * they report on and re-queries payments the gateways never reported back on
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma, TransactionStatus, type Order, type Transaction } from '@prisma/client'
+import type { DomainEvent } from '@/lib/realtime'
+import { getConfirmingGateway, getWebhookSecret, type GatewayProvider } from './gateways'
+import { settleTransaction } from './payment.service'
+import {
+    WEBHOOK_PROVIDERS,
+    parseEasypaisaNotification,
+    parseJazzCashNotification,
+    parseStripeEvent,
+    parseWebhookFields,
+    verifyEasypaisaHash,
+    verifyJazzCashHash,
+    verifyStripeSignature,
+    type WebhookEvent,
+    type WebhookProvider,
+} from './webhooks'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookDelivery {
+    rawBody: string
+    contentType: string | null
+    /** The `Stripe-Signature` header; the wallets sign inside the body */
+    signature: string | null
+}
+
+export interface ReconcileOptions {
+    /** Payments younger than this are left for their webhook */
+    olderThanMinutes?: number
+    /** Payments with no result after this long are cancelled */
+    abandonAfterMinutes?: number
+    limit?: number
+    now?: Date
+}
+
+type SettledTransaction = Transaction & { order: Order }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isWebhookProvider(value: string): value is WebhookProvider {
+    return (WEBHOOK_PROVIDERS as string[]).includes(value)
+}
+
+/**
+ * The realtime event announcing a settled payment
+ */
+export function paymentReceivedEvent(transaction: SettledTransaction): DomainEvent {
+    return {
+        type: 'order.payment-received',
+        locationId: transaction.order.locationId,
+        tableId: transaction.order.tableId,
+        orderId: transaction.orderId,
+        amount: Number(transaction.amount),
+        status: transaction.order.paymentStatus,
+    }
+}
+
+function verifyDelivery(provider: WebhookProvider, delivery: WebhookDelivery, secret: string) {
+    if (provider === 'stripe') {
+        if (!verifyStripeSignature(delivery.rawBody, delivery.signature, secret)) {
+            throw new Error('Invalid webhook signature')
+        }
+        return { event: parseStripeEvent(delivery.rawBody), payload: JSON.parse(delivery.rawBody) as Prisma.InputJsonObject }
+    }
+
+    const fields = parseWebhookFields(delivery.rawBody, delivery.contentType)
+    const valid = provider === 'jazzcash' ? verifyJazzCashHash(fields, secret) : verifyEasypaisaHash(fields, secret)
+    if (!valid) {
+        throw new Error('Invalid webhook signature')
+    }
+    const event = provider === 'jazzcash' ? parseJazzCashNotification(fields) : parseEasypaisaNotification(fields)
+    return { event, payload: fields }
+}
+
+async function findEventTransaction(provider: WebhookProvider, event: WebhookEvent) {
+    const references: Prisma.TransactionWhereInput[] = []
+    if (event.transactionNumber) references.push({ transactionNumber: event.transactionNumber })
+    if (event.gatewayRef) references.push({ gatewayRef: event.gatewayRef })
+    if (references.length === 0) return null
+
+    return prisma.transaction.findFirst({
+        where: { OR: references, paymentMethod: { gatewayProvider: provider } },
+        orderBy: { createdAt: 'desc' }
+    })
+}
+
+/**
+ * Settles the event's transaction. A payment reported for a different
+ * amount is left unsettled, with the mismatch recorded for follow-up.
+ */
+async function applyEvent(provider: WebhookProvider, event: WebhookEvent) {
+    const transaction = await findEventTransaction(provider, event)
+    if (!transaction) {
+        return {
+            transactionId: null,
+            transaction: null,
+            error: event.outcome === 'ignored' ? null : 'No matching transaction',
+        }
+    }
+    if (event.outcome === 'ignored' || event.outcome === 'pending') {
+        return { transactionId: transaction.id, transaction: null, error: event.error ?? null }
+    }
+
+    if (event.outcome === 'completed' && event.amount !== undefined
+        && Math.abs(event.amount - Number(transaction.amount)) > 0.005) {
+        return {
+            transactionId: transaction.id,
+            transaction: null,
+            error: `Paid ${event.amount.toFixed(2)} but ${Number(transaction.amount).toFixed(2)} was due`,
+        }
+    }
+
+    const settled = await settleTransaction(transaction.id, {
+        status: event.outcome,
+        gatewayRef: event.gatewayRef,
+        error: event.error,
+    })
+    return { transactionId: transaction.id, transaction: settled, error: null }
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+/**
+ * Verifies a delivery and acts on it once. A redelivery of an event already
+ * handled comes back as a duplicate; one that failed part way is handled
+ * again. `transaction` is set when this delivery settled a payment.
+ */
+export async function handlePaymentWebhook(provider: WebhookProvider, delivery: WebhookDelivery) {
+    const secret = getWebhookSecret(provider)
+    if (!secret) {
+        throw new Error(`${provider} webhooks are not configured`)
+    }
+    const { event, payload } = verifyDelivery(provider, delivery, secret)
+
+    const key = { provider_eventId: { provider, eventId: event.eventId } }
+    let record = await prisma.paymentWebhookEvent.findUnique({ where: key })
+    if (record?.processedAt) {
+        return { duplicate: true, event: record, transaction: null }
+    }
+    if (!record) {
+        try {
+            record = await prisma.paymentWebhookEvent.create({
+                data: { provider, eventId: event.eventId, eventType: event.eventType, payload }
+            })
+        } catch (error) {
+            // The same event arriving twice at once
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                const existing = await prisma.paymentWebhookEvent.findUniqueOrThrow({ where: key })
+                return { duplicate: true, event: existing, transaction: null }
+            }
+            throw error
+        }
+    }
+
+    try {
+        const result = await applyEvent(provider, event)
+        const updated = await prisma.paymentWebhookEvent.update({
+            where: { id: record.id },
+            data: {
+                transactionId: result.transactionId,
+                outcome: event.outcome,
+                error: result.error,
+                processedAt: new Date(),
+            }
+        })
+        return { duplicate: false, event: updated, transaction: result.transaction }
+    } catch (error) {
+        await prisma.paymentWebhookEvent.update({
+            where: { id: record.id },
+            data: { error: error instanceof Error ? error.message : 'Webhook handling failed' }
+        })
+        throw error
+    }
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Asks the gateway about payments still PROCESSING after their webhook
+ * should have arrived, and settles the ones it has an answer for. Payments
+ * that never got a gateway reference, or still have no result once
+ * abandoned, are cancelled.
+ */
+export async function reconcileProcessingTransactions(options: ReconcileOptions = {}) {
+    const now = options.now ?? new Date()
+    const olderThan = new Date(now.getTime() - (options.olderThanMinutes ?? 15) * 60_000)
+    const abandonedBefore = new Date(now.getTime() - (options.abandonAfterMinutes ?? 24 * 60) * 60_000)
+
+    const stuck = await prisma.transaction.findMany({
+        where: { status: TransactionStatus.PROCESSING, createdAt: { lt: olderThan } },
+        include: { paymentMethod: { select: { gatewayProvider: true } } },
+        orderBy: { createdAt: 'asc' },
+        take: options.limit ?? 50,
+    })
+
+    const summary = { checked: stuck.length, completed: 0, failed: 0, cancelled: 0, pending: 0, errors: 0 }
+    const settled: SettledTransaction[] = []
+
+    for (const transaction of stuck) {
+        const abandoned = transaction.createdAt < abandonedBefore
+        const gateway = getConfirmingGateway((transaction.paymentMethod.gatewayProvider || 'cash') as GatewayProvider)
+
+        let result: Awaited<ReturnType<typeof settleTransaction>> = null
+        try {
+            if (transaction.gatewayRef && gateway) {
+                const answer = await gateway.confirmPayment(transaction.gatewayRef)
+                // Only a result the gateway actually returned settles the payment;
+                // an error asking it leaves the payment for the next run or its webhook
+                if (answer.status !== 'pending' && answer.gatewayResponse) {
+                    result = await settleTransaction(transaction.id, {
+                        status: answer.status,
+                        gatewayResponse: answer.gatewayResponse,
+                        error: answer.error,
+                    })
+                }
+            }
+            if (!result && abandoned) {
+                result = await settleTransaction(transaction.id, {
+                    status: 'cancelled',
+                    error: 'No result from the gateway',
+                })
+            }
+        } catch (error) {
+            console.error(`Failed to reconcile transaction ${transaction.id}:`, error)
+            summary.errors++
+            continue
+        }
+
+        if (!result) {
+            summary.pending++
+            continue
+        }
+        settled.push(result)
+        if (result.status === TransactionStatus.COMPLETED) summary.completed++
+        else if (result.status === TransactionStatus.CANCELLED) summary.cancelled++
+        else summary.failed++
+    }
+
+    return { ...summary, transactions: settled }
+}
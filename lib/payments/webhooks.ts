@@ -0,0 +1,244 @@
+/**
+ * Payment Webhooks
+ * Signature checks and parsing for gateway notifications: Stripe's signing
+ * secret, JazzCash's pp_SecureHash and Easypaisa's hash key
+ */
+
+import { createCipheriv, createHmac, timingSafeEqual } from 'crypto'
+import { parseNumber, roundMoney } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WebhookProvider = 'stripe' | 'jazzcash' | 'easypaisa'
+
+export const WEBHOOK_PROVIDERS: WebhookProvider[] = ['stripe', 'jazzcash', 'easypaisa']
+
+export interface WebhookEvent {
+    /** Unique per notification, so a redelivery can be recognised */
+    eventId: string
+    eventType: string
+    /** How the transaction is found: our transaction number or the gateway's reference */
+    transactionNumber?: string
+    gatewayRef?: string
+    outcome: 'completed' | 'failed' | 'pending' | 'ignored'
+    /** In currency units, when the gateway reports it */
+    amount?: number
+    error?: string
+}
+
+export type WebhookFields = Record<string, string>
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300
+export const JAZZCASH_HASH_FIELD = 'pp_SecureHash'
+export const EASYPAISA_HASH_FIELD = 'merchantHashedReq'
+
+// JazzCash codes for a payment still waiting on the customer or a voucher
+const JAZZCASH_PENDING_CODES = ['124', '157']
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function toAmount(value: unknown, divisor = 1): number | undefined {
+    const parsed = parseNumber(value)
+    return parsed === null ? undefined : roundMoney(parsed / divisor)
+}
+
+/**
+ * Reads a webhook body posted either as JSON or as a form
+ */
+export function parseWebhookFields(rawBody: string, contentType: string | null): WebhookFields {
+    if (contentType?.includes('application/json')) {
+        const parsed = JSON.parse(rawBody) as Record<string, unknown>
+        return Object.fromEntries(
+            Object.entries(parsed)
+                .filter(([, value]) => value !== null && value !== undefined)
+                .map(([key, value]) => [key, String(value)])
+        )
+    }
+    return Object.fromEntries(new URLSearchParams(rawBody))
+}
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+/**
+ * Checks a `Stripe-Signature` header (`t=<unix time>,v1=<hex>`) against the
+ * raw body. Old timestamps are refused so a captured request can't be replayed.
+ */
+export function verifyStripeSignature(
+    rawBody: string,
+    header: string | null,
+    secret: string,
+    options: { now?: Date; toleranceSeconds?: number } = {}
+): boolean {
+    if (!header) return false
+
+    const parts = header.split(',').map(part => part.trim().split('='))
+    const timestamp = parts.find(([key]) => key === 't')?.[1]
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '')
+    if (!timestamp || !/^\d+$/.test(timestamp) || signatures.length === 0) return false
+
+    const now = Math.floor((options.now ?? new Date()).getTime() / 1000)
+    if (Math.abs(now - parseInt(timestamp)) > (options.toleranceSeconds ?? STRIPE_SIGNATURE_TOLERANCE_SECONDS)) {
+        return false
+    }
+
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+    return signatures.some(signature => safeEqual(signature, expected))
+}
+
+/**
+ * JazzCash's pp_SecureHash: HMAC-SHA256, keyed with the integrity salt, of
+ * the salt followed by every non-empty pp_ value in field name order, all
+ * joined with `&`
+ */
+export function computeJazzCashHash(fields: WebhookFields, integritySalt: string): string {
+    const values = Object.keys(fields)
+        .filter(key => key.toLowerCase().startsWith('pp') && key !== JAZZCASH_HASH_FIELD && fields[key] !== '')
+        .sort()
+        .map(key => fields[key])
+    return createHmac('sha256', integritySalt)
+        .update([integritySalt, ...values].join('&'))
+        .digest('hex')
+        .toUpperCase()
+}
+
+export function verifyJazzCashHash(fields: WebhookFields, integritySalt: string): boolean {
+    const received = fields[JAZZCASH_HASH_FIELD]
+    if (!received) return false
+    return safeEqual(received.toUpperCase(), computeJazzCashHash(fields, integritySalt))
+}
+
+/**
+ * Easypaisa's hash: the other fields as `key=value` in name order, joined
+ * with `&`, AES-128-ECB encrypted with the store's hash key and base64 encoded
+ */
+export function computeEasypaisaHash(fields: WebhookFields, hashKey: string): string {
+    const message = Object.keys(fields)
+        .filter(key => key !== EASYPAISA_HASH_FIELD)
+        .sort()
+        .map(key => `${key}=${fields[key]}`)
+        .join('&')
+    const cipher = createCipheriv('aes-128-ecb', Buffer.from(hashKey, 'utf8').subarray(0, 16), null)
+    return Buffer.concat([cipher.update(message, 'utf8'), cipher.final()]).toString('base64')
+}
+
+export function verifyEasypaisaHash(fields: WebhookFields, hashKey: string): boolean {
+    const received = fields[EASYPAISA_HASH_FIELD]
+    if (!received || Buffer.from(hashKey, 'utf8').length < 16) return false
+    return safeEqual(received, computeEasypaisaHash(fields, hashKey))
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+interface StripeEventBody {
+    id?: string
+    type?: string
+    data?: {
+        object?: {
+            id?: string
+            object?: string
+            amount_received?: number
+            metadata?: Record<string, string>
+            last_payment_error?: { message?: string } | null
+            cancellation_reason?: string | null
+        }
+    }
+}
+
+/**
+ * Payment intent events settle a transaction; anything else is acknowledged
+ * and ignored. Only a cancelled intent fails the payment, as a failed
+ * attempt leaves it open to another.
+ */
+export function parseStripeEvent(rawBody: string): WebhookEvent {
+    const body = JSON.parse(rawBody) as StripeEventBody
+    const intent = body.data?.object
+    if (!body.id || !body.type) {
+        throw new Error('Malformed Stripe event')
+    }
+
+    const event: WebhookEvent = {
+        eventId: body.id,
+        eventType: body.type,
+        outcome: 'ignored',
+    }
+    if (intent?.object !== 'payment_intent') {
+        return event
+    }
+
+    event.gatewayRef = intent.id
+    event.transactionNumber = intent.metadata?.transactionNumber
+    switch (body.type) {
+        case 'payment_intent.succeeded':
+            return { ...event, outcome: 'completed', amount: toAmount(intent.amount_received, 100) }
+        case 'payment_intent.payment_failed':
+            // The intent goes back to awaiting a payment method and can still be paid
+            return { ...event, outcome: 'pending', error: intent.last_payment_error?.message || 'Payment attempt failed' }
+        case 'payment_intent.canceled':
+            return { ...event, outcome: 'failed', error: `Payment cancelled${intent.cancellation_reason ? `: ${intent.cancellation_reason}` : ''}` }
+        case 'payment_intent.processing':
+        case 'payment_intent.requires_action':
+            return { ...event, outcome: 'pending' }
+        default:
+            return event
+    }
+}
+
+/**
+ * JazzCash posts the payment's final pp_ fields. The same reference can be
+ * notified as pending and later as paid, so the response code is part of
+ * the event id.
+ */
+export function parseJazzCashNotification(fields: WebhookFields): WebhookEvent {
+    const reference = fields.pp_TxnRefNo
+    const code = fields.pp_ResponseCode
+    if (!reference || !code) {
+        throw new Error('Malformed JazzCash notification')
+    }
+
+    const event: WebhookEvent = {
+        eventId: `${reference}:${code}`,
+        eventType: `response-${code}`,
+        gatewayRef: reference,
+        amount: toAmount(fields.pp_Amount, 100),
+        outcome: 'failed',
+    }
+    if (code === '000') return { ...event, outcome: 'completed' }
+    if (JAZZCASH_PENDING_CODES.includes(code)) return { ...event, outcome: 'pending' }
+    return { ...event, error: fields.pp_ResponseMessage || 'JazzCash payment failed' }
+}
+
+/**
+ * Easypaisa notifies the store's order reference with the transaction status
+ */
+export function parseEasypaisaNotification(fields: WebhookFields): WebhookEvent {
+    const reference = fields.orderRefNumber || fields.orderId
+    const status = (fields.transactionStatus || '').toUpperCase()
+    if (!reference || !status) {
+        throw new Error('Malformed Easypaisa notification')
+    }
+
+    const event: WebhookEvent = {
+        eventId: `${reference}:${status}`,
+        eventType: status.toLowerCase(),
+        gatewayRef: reference,
+        amount: toAmount(fields.transactionAmount),
+        outcome: 'failed',
+    }
+    if (status === 'PAID') return { ...event, outcome: 'completed' }
+    if (status === 'PENDING' || status === 'INITIATED') return { ...event, outcome: 'pending' }
+    return { ...event, error: fields.responseDesc || `Easypaisa payment ${status.toLowerCase()}` }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildShiftReport,
+  canTransitionShift,
+  countDenominations,
+  summarizeDrawer,
+  toShiftReportDocument,
+  type ShiftReportInput,
+} from '../shift'
+
+const events: ShiftReportInput['events'] = [
+  { type: 'CASH_SALE', amount: '1200' },
+  { type: 'CASH_SALE', amount: '850.50' },
+  { type: 'CASH_REFUND', amount: '200' },
+  { type: 'PAID_IN', amount: '500' },
+  { type: 'PAID_OUT', amount: '150' },
+  { type: 'DROP', amount: '1000' },
+  { type: 'NO_SALE', amount: '0' },
+  { type: 'NO_SALE', amount: '0' },
+]
+
+describe('summarizeDrawer', () => {
+  it('adds cash in and takes cash out from the float', () => {
+    expect(summarizeDrawer('5000', events)).toEqual({
+      openingCash: 5000,
+      cashSales: 2050.5,
+      cashRefunds: 200,
+      paidIn: 500,
+      paidOut: 150,
+      drops: 1000,
+      noSales: 2,
+      expectedCash: 6200.5,
+    })
+  })
+})
+
+describe('countDenominations', () => {
+  it('totals notes and coins', () => {
+    expect(countDenominations([{ value: 1000, count: 5 }, { value: 500, count: 2 }, { value: 0.5, count: 1 }])).toBe(6000.5)
+  })
+
+  it('rejects part counts', () => {
+    expect(() => countDenominations([{ value: 100, count: 1.5 }])).toThrow('whole, non-negative count')
+  })
+})
+
+describe('canTransitionShift', () => {
+  it('closes before it is reconciled', () => {
+    expect(canTransitionShift('OPEN', 'CLOSED')).toBe(true)
+    expect(canTransitionShift('CLOSED', 'RECONCILED')).toBe(true)
+    expect(canTransitionShift('OPEN', 'RECONCILED')).toBe(false)
+    expect(canTransitionShift('RECONCILED', 'CLOSED')).toBe(false)
+  })
+})
+
+describe('buildShiftReport', () => {
+  const input = (kind: 'X' | 'Z'): ShiftReportInput => ({
+    kind,
+    generatedAt: new Date('2026-10-19T17:00:00Z'),
+    timeZone: 'Asia/Karachi',
+    shift: {
+      shiftNumber: 'SH-KHI-0007',
+      startTime: new Date('2026-10-19T09:00:00Z'),
+      endTime: kind === 'Z' ? new Date('2026-10-19T17:00:00Z') : null,
+      openingCash: '5000',
+      closingCash: kind === 'Z' ? '6150.50' : null,
+      totalSales: '3850.50',
+      totalRefunds: '200',
+      totalDiscounts: '120',
+      orderCount: 3,
+      denominations: [{ value: 1000, count: 6 }, { value: 50, count: 3 }, { value: 0.5, count: 1 }],
+    },
+    terminal: { name: 'Counter 1' },
+    location: { name: 'Clifton' },
+    cashier: { name: 'Sana' },
+    payments: [
+      { amount: '1100', tipAmount: '100', paymentMethod: { name: 'Cash', type: 'CASH' } },
+      { amount: '850.50', tipAmount: '0', paymentMethod: { name: 'Cash', type: 'CASH' } },
+      { amount: '1900', tipAmount: '150', paymentMethod: { name: 'Card', type: 'CARD' } },
+    ],
+    events,
+  })
+
+  it('groups payments by tender and leaves the count off an X-report', () => {
+    const report = buildShiftReport(input('X'))
+
+    expect(report.sales).toEqual({ orderCount: 3, grossSales: 3850.5, discounts: 120, refunds: 200, netSales: 3650.5, tips: 250 })
+    expect(report.tenders).toEqual([
+      { method: 'Cash', type: 'CASH', count: 2, amount: 1950.5, tips: 100 },
+      { method: 'Card', type: 'CARD', count: 1, amount: 1900, tips: 150 },
+    ])
+    expect(report.drawer.countedCash).toBeNull()
+    expect(report.denominations).toEqual([])
+  })
+
+  it('shows the counted cash and shortage on the Z-report', () => {
+    const report = buildShiftReport(input('Z'))
+    expect(report.drawer).toMatchObject({ expectedCash: 6200.5, countedCash: 6150.5, difference: -50 })
+
+    const doc = toShiftReportDocument(report)
+    expect(doc.title).toBe('Z-Report: Counter 1 shift SH-KHI-0007')
+    expect(doc.subtitle).toContain('2026-10-19, 14:00 to 2026-10-19, 22:00')
+    expect(doc.tables[2].rows).toContainEqual(['Over / short', 'Rs. -50.00'])
+    expect(doc.tables[3].rows[0]).toEqual(['Rs. 1000.00', 6, 'Rs. 6000.00'])
+  })
+})
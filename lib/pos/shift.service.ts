@@ -0,0 +1,433 @@
+/**
+ * Shift Service
+ * Keeps each shift's totals and cash drawer ledger up to date as payments,
+ * refunds and drawer events happen, closes the shift against a counted drawer
+ * and takes the manager's sign-off
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma, type PaymentType, type ShiftStatus, type TransactionStatus } from '@prisma/client'
+import { renderReport, type ReportFileFormat } from '@/lib/reports'
+import {
+    buildShiftReport,
+    canTransitionShift,
+    countDenominations,
+    normalizeDenominations,
+    summarizeDrawer,
+    type Denomination,
+    type ManualDrawerEventType,
+    type ShiftReport,
+    type ShiftReportKind,
+    toShiftReportDocument,
+} from './shift'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ShiftFilters {
+    terminalId?: string
+    locationId?: string
+    status?: ShiftStatus[]
+    limit?: number
+}
+
+export interface DrawerEventInput {
+    type: ManualDrawerEventType
+    amount?: number
+    reason?: string | null
+    userId: string
+}
+
+export interface CloseShiftInput {
+    /** Counted cash; worked out from the denominations when left out */
+    closingCash?: number
+    denominations?: Denomination[]
+    notes?: string | null
+    closedById: string
+}
+
+export interface ShiftPayment {
+    id: string
+    shiftId: string | null
+    amount: Prisma.Decimal
+    tipAmount: Prisma.Decimal
+    paymentMethod: { type: PaymentType }
+    order: { discountAmount: Prisma.Decimal; promotionDiscount: Prisma.Decimal; loyaltyDiscount: Prisma.Decimal }
+}
+
+const SETTLED_STATUSES: TransactionStatus[] = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED']
+
+const shiftInclude = {
+    terminal: { select: { id: true, name: true, locationId: true } },
+    user: { select: { id: true, name: true, email: true } },
+    closedBy: { select: { id: true, name: true } },
+    reconciledBy: { select: { id: true, name: true } },
+} satisfies Prisma.POSShiftInclude
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function findShift(tx: Prisma.TransactionClient, id: string) {
+    const shift = await tx.pOSShift.findUnique({ where: { id } })
+    if (!shift) {
+        throw new Error('Shift not found')
+    }
+    return shift
+}
+
+/**
+ * Shift a payment or refund is booked to. It has to be open, since a closed
+ * drawer has already been counted.
+ */
+export async function assertShiftOpen(id: string) {
+    const shift = await findShift(prisma, id)
+    if (shift.status !== 'OPEN') {
+        throw new Error('Shift is not open')
+    }
+    return shift
+}
+
+async function loadReportInput(tx: Prisma.TransactionClient, id: string) {
+    const shift = await tx.pOSShift.findUnique({
+        where: { id },
+        include: {
+            terminal: { select: { name: true, location: { select: { name: true, timezone: true } } } },
+            user: { select: { name: true } },
+            drawerEvents: { select: { type: true, amount: true } },
+            transactions: {
+                where: { status: { in: SETTLED_STATUSES } },
+                select: { amount: true, tipAmount: true, paymentMethod: { select: { name: true, type: true } } },
+            },
+        },
+    })
+    if (!shift) {
+        throw new Error('Shift not found')
+    }
+    return shift
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listShifts(filters: ShiftFilters = {}) {
+    return prisma.pOSShift.findMany({
+        where: {
+            ...(filters.terminalId && { terminalId: filters.terminalId }),
+            ...(filters.locationId && { terminal: { locationId: filters.locationId } }),
+            ...(filters.status?.length && { status: { in: filters.status } }),
+        },
+        include: { ...shiftInclude, _count: { select: { transactions: true } } },
+        orderBy: { startTime: 'desc' },
+        take: filters.limit ?? 50,
+    })
+}
+
+/**
+ * The shift with its drawer ledger and where the cash should stand now
+ */
+export async function getShift(id: string) {
+    const shift = await prisma.pOSShift.findUnique({
+        where: { id },
+        include: {
+            ...shiftInclude,
+            drawerEvents: {
+                include: { user: { select: { id: true, name: true } } },
+                orderBy: { createdAt: 'asc' },
+            },
+        },
+    })
+    if (!shift) {
+        return null
+    }
+    return { ...shift, drawer: summarizeDrawer(shift.openingCash, shift.drawerEvents) }
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Paid-in, paid-out, drops to the safe and drawer opens without a sale
+ */
+export async function recordDrawerEvent(shiftId: string, input: DrawerEventInput) {
+    const amount = input.type === 'NO_SALE' ? 0 : input.amount ?? 0
+    if (input.type !== 'NO_SALE' && !(amount > 0)) {
+        throw new Error('Amount must be greater than 0')
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const shift = await findShift(tx, shiftId)
+        if (shift.status !== 'OPEN') {
+            throw new Error('Shift is not open')
+        }
+
+        if (input.type === 'PAID_OUT' || input.type === 'DROP') {
+            const events = await tx.cashDrawerEvent.findMany({ where: { shiftId }, select: { type: true, amount: true } })
+            if (amount > summarizeDrawer(shift.openingCash, events).expectedCash) {
+                throw new Error('Not enough cash in the drawer')
+            }
+        }
+
+        return tx.cashDrawerEvent.create({
+            data: {
+                shiftId,
+                type: input.type,
+                amount,
+                reason: input.reason || null,
+                userId: input.userId,
+            },
+            include: { user: { select: { id: true, name: true } } },
+        })
+    })
+}
+
+/**
+ * The shift a payment taken on `shiftId` is booked to: that shift while it is
+ * open, otherwise the open shift on the same terminal or, for payments that
+ * never touch the drawer, any open shift at the location. Closed and
+ * reconciled shifts have been counted and signed off, so a payment that
+ * settles late never changes them. The chosen shift is locked so it can't
+ * close mid-booking.
+ */
+async function findBookingShift(tx: Prisma.TransactionClient, shiftId: string, paymentType: PaymentType) {
+    await tx.$queryRaw`SELECT id FROM "POSShift" WHERE id = ${shiftId} FOR UPDATE`
+    const shift = await tx.pOSShift.findUnique({
+        where: { id: shiftId },
+        select: { status: true, terminalId: true, terminal: { select: { locationId: true } } },
+    })
+    if (!shift) return null
+    if (shift.status === 'OPEN') return shiftId
+
+    const open = await tx.pOSShift.findMany({
+        where: { status: 'OPEN', terminal: { locationId: shift.terminal.locationId } },
+        select: { id: true, terminalId: true },
+        orderBy: { startTime: 'asc' },
+    })
+    const current = open.find(candidate => candidate.terminalId === shift.terminalId)
+        ?? (paymentType === 'CASH' ? undefined : open[0])
+    if (!current) return null
+
+    await tx.$queryRaw`SELECT id FROM "POSShift" WHERE id = ${current.id} FOR UPDATE`
+    const locked = await tx.pOSShift.findUnique({ where: { id: current.id }, select: { status: true } })
+    return locked?.status === 'OPEN' ? current.id : null
+}
+
+/**
+ * Books a completed payment to its shift. The order and its discounts count
+ * once, on the payment that settles it; cash also goes into the drawer, tip
+ * included. A payment that settles after its shift closed moves to the shift
+ * open now, or is left off shift totals when none is.
+ */
+export async function recordShiftPayment(payment: ShiftPayment, options: { settlesOrder: boolean }) {
+    if (!payment.shiftId) return
+    const takenOn = payment.shiftId
+
+    const discounts = options.settlesOrder
+        ? payment.order.discountAmount.plus(payment.order.promotionDiscount).plus(payment.order.loyaltyDiscount)
+        : 0
+
+    await prisma.$transaction(async (tx) => {
+        const shiftId = await findBookingShift(tx, takenOn, payment.paymentMethod.type)
+        if (!shiftId) {
+            console.warn(`Payment ${payment.id} settled after shift ${takenOn} closed and no shift is open to book it to`)
+            return
+        }
+        if (shiftId !== takenOn) {
+            await tx.transaction.update({ where: { id: payment.id }, data: { shiftId } })
+        }
+
+        await tx.pOSShift.update({
+            where: { id: shiftId },
+            data: {
+                totalSales: { increment: payment.amount },
+                totalDiscounts: { increment: discounts },
+                ...(options.settlesOrder && { orderCount: { increment: 1 } }),
+            },
+        })
+
+        if (payment.paymentMethod.type === 'CASH') {
+            await tx.cashDrawerEvent.create({
+                data: {
+                    shiftId,
+                    type: 'CASH_SALE',
+                    amount: payment.amount.plus(payment.tipAmount),
+                    transactionId: payment.id,
+                },
+            })
+        }
+    })
+}
+
+/**
+ * Books a refund to the shift that paid it out, which may not be the one
+ * that took the payment. Cash refunds come out of that shift's drawer.
+ */
+export async function recordShiftRefund(
+    refund: { transactionId: string; amount: number; paymentType: PaymentType },
+    shiftId: string | null
+) {
+    if (!shiftId) return
+
+    await prisma.$transaction(async (tx) => {
+        await tx.pOSShift.update({
+            where: { id: shiftId },
+            data: { totalRefunds: { increment: refund.amount } },
+        })
+
+        if (refund.paymentType === 'CASH') {
+            await tx.cashDrawerEvent.create({
+                data: {
+                    shiftId,
+                    type: 'CASH_REFUND',
+                    amount: refund.amount,
+                    transactionId: refund.transactionId,
+                },
+            })
+        }
+    })
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * X-report from the live ledger, or the Z-report frozen when the shift closed
+ */
+export async function getShiftReport(id: string, kind: ShiftReportKind): Promise<ShiftReport> {
+    const shift = await loadReportInput(prisma, id)
+
+    if (kind === 'Z') {
+        if (shift.status === 'OPEN') {
+            throw new Error('The Z-report is produced when the shift closes')
+        }
+        if (shift.zReport) {
+            return shift.zReport as unknown as ShiftReport
+        }
+    } else if (shift.status !== 'OPEN') {
+        throw new Error('X-reports are only available while the shift is open')
+    }
+
+    return buildShiftReport({
+        kind,
+        generatedAt: new Date(),
+        timeZone: shift.terminal.location.timezone,
+        shift: { ...shift, denominations: shift.denominations as Denomination[] | null },
+        terminal: shift.terminal,
+        location: shift.terminal.location,
+        cashier: shift.user,
+        payments: shift.transactions,
+        events: shift.drawerEvents,
+    })
+}
+
+/**
+ * The report as a file for printing or download
+ */
+export async function renderShiftReport(id: string, kind: ShiftReportKind, format: ReportFileFormat) {
+    const [report, settings] = await Promise.all([
+        getShiftReport(id, kind),
+        prisma.restaurantSettings.findFirst({ select: { currencySymbol: true } }),
+    ])
+    const rendered = renderReport(toShiftReportDocument(report, settings?.currencySymbol || 'Rs.'), format)
+
+    return {
+        content: rendered.content,
+        contentType: rendered.contentType,
+        fileName: `${kind}-report-${report.shiftNumber}.${rendered.extension}`,
+    }
+}
+
+// ============================================================================
+// CLOSE AND RECONCILE
+// ============================================================================
+
+/**
+ * Closes the shift against the counted drawer and freezes its Z-report
+ */
+export async function closeShift(id: string, input: CloseShiftInput) {
+    const denominations = input.denominations?.length ? normalizeDenominations(input.denominations) : null
+    const counted = denominations ? countDenominations(denominations) : input.closingCash
+    if (counted === undefined) {
+        throw new Error('Count the drawer before closing the shift')
+    }
+    if (denominations && input.closingCash !== undefined && Math.abs(input.closingCash - counted) >= 0.005) {
+        throw new Error('Closing cash does not match the denomination count')
+    }
+
+    return prisma.$transaction(async (tx) => {
+        // Payments booking to this shift finish first and make the Z-report
+        await tx.$queryRaw`SELECT id FROM "POSShift" WHERE id = ${id} FOR UPDATE`
+        const before = await loadReportInput(tx, id)
+        if (!canTransitionShift(before.status, 'CLOSED')) {
+            throw new Error('Shift is already closed')
+        }
+
+        const endTime = new Date()
+        const report = buildShiftReport({
+            kind: 'Z',
+            generatedAt: endTime,
+            timeZone: before.terminal.location.timezone,
+            shift: { ...before, endTime, closingCash: counted, denominations },
+            terminal: before.terminal,
+            location: before.terminal.location,
+            cashier: before.user,
+            payments: before.transactions,
+            events: before.drawerEvents,
+        })
+
+        const { count } = await tx.pOSShift.updateMany({
+            where: { id, status: 'OPEN' },
+            data: {
+                status: 'CLOSED',
+                endTime,
+                closingCash: counted,
+                expectedCash: report.drawer.expectedCash,
+                cashDifference: report.drawer.difference,
+                denominations: denominations ? denominations as unknown as Prisma.InputJsonArray : Prisma.DbNull,
+                zReport: report as unknown as Prisma.InputJsonValue,
+                closedById: input.closedById,
+                ...(input.notes !== undefined && { notes: input.notes }),
+            },
+        })
+        if (count === 0) {
+            throw new Error('Shift is already closed')
+        }
+
+        return { shift: await tx.pOSShift.findUniqueOrThrow({ where: { id }, include: shiftInclude }), report }
+    })
+}
+
+/**
+ * Manager sign-off on a closed shift's count. Someone other than the
+ * cashier has to do it.
+ */
+export async function reconcileShift(id: string, input: { reconciledById: string; notes?: string | null }) {
+    const before = await findShift(prisma, id)
+    if (!canTransitionShift(before.status, 'RECONCILED')) {
+        throw new Error(before.status === 'OPEN'
+            ? 'Close the shift before reconciling it'
+            : 'Shift is already reconciled')
+    }
+    if (before.userId === input.reconciledById) {
+        throw new Error('A shift has to be signed off by someone other than its cashier')
+    }
+
+    const { count } = await prisma.pOSShift.updateMany({
+        where: { id, status: 'CLOSED' },
+        data: {
+            status: 'RECONCILED',
+            reconciledById: input.reconciledById,
+            reconciledAt: new Date(),
+            reconcileNotes: input.notes || null,
+        },
+    })
+    if (count === 0) {
+        throw new Error('Shift was changed by someone else, reload and try again')
+    }
+
+    return prisma.pOSShift.findUniqueOrThrow({ where: { id }, include: shiftInclude })
+}
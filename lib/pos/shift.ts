@@ -0,0 +1,288 @@
+/**
+ * Shift Cash Reconciliation
+ * Pure rules for a shift's cash drawer ledger, the closing count and the
+ * X/Z reports printed for its terminal
+ */
+
+import type { CashDrawerEventType, PaymentType, ShiftStatus } from '@prisma/client'
+import type { ReportDocument } from '../reports/sales-report'
+import { roundMoney, toNumber, type Numeric } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Drawer events staff record by hand; sales and refunds come from payments */
+export const MANUAL_DRAWER_EVENTS = ['PAID_IN', 'PAID_OUT', 'DROP', 'NO_SALE'] as const satisfies readonly CashDrawerEventType[]
+
+export type ManualDrawerEventType = (typeof MANUAL_DRAWER_EVENTS)[number]
+
+export type ShiftReportKind = 'X' | 'Z'
+
+export interface DrawerEvent {
+    type: CashDrawerEventType
+    amount: Numeric
+}
+
+export interface DrawerSummary {
+    openingCash: number
+    cashSales: number
+    cashRefunds: number
+    paidIn: number
+    paidOut: number
+    drops: number
+    /** Times the drawer was opened without a sale */
+    noSales: number
+    expectedCash: number
+}
+
+export interface Denomination {
+    value: number
+    count: number
+}
+
+export interface ShiftReportInput {
+    kind: ShiftReportKind
+    generatedAt: Date
+    timeZone: string
+    shift: {
+        shiftNumber: string
+        startTime: Date
+        endTime: Date | null
+        openingCash: Numeric
+        closingCash: Numeric
+        totalSales: Numeric
+        totalRefunds: Numeric
+        totalDiscounts: Numeric
+        orderCount: number
+        denominations?: Denomination[] | null
+    }
+    terminal: { name: string }
+    location: { name: string }
+    cashier: { name: string | null } | null
+    /** Settled payments taken during the shift */
+    payments: Array<{ amount: Numeric; tipAmount: Numeric; paymentMethod: { name: string; type: PaymentType } }>
+    events: DrawerEvent[]
+}
+
+export interface ShiftReport {
+    kind: ShiftReportKind
+    shiftNumber: string
+    terminal: string
+    location: string
+    cashier: string | null
+    timeZone: string
+    startTime: string
+    endTime: string | null
+    generatedAt: string
+    sales: {
+        orderCount: number
+        grossSales: number
+        discounts: number
+        refunds: number
+        netSales: number
+        tips: number
+    }
+    tenders: Array<{ method: string; type: PaymentType; count: number; amount: number; tips: number }>
+    drawer: DrawerSummary & {
+        /** Null until the drawer is counted at close */
+        countedCash: number | null
+        difference: number | null
+    }
+    denominations: Denomination[]
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+const SHIFT_TRANSITIONS: Record<ShiftStatus, ShiftStatus[]> = {
+    OPEN: ['CLOSED'],
+    CLOSED: ['RECONCILED'],
+    RECONCILED: [],
+}
+
+export function canTransitionShift(from: ShiftStatus, to: ShiftStatus): boolean {
+    return SHIFT_TRANSITIONS[from].includes(to)
+}
+
+// ============================================================================
+// DRAWER
+// ============================================================================
+
+/**
+ * Cash the drawer should hold: the float, plus cash taken and paid in, less
+ * cash refunded, paid out and dropped to the safe
+ */
+export function summarizeDrawer(openingCash: Numeric, events: DrawerEvent[]): DrawerSummary {
+    const totals: Record<CashDrawerEventType, number> = {
+        CASH_SALE: 0, CASH_REFUND: 0, PAID_IN: 0, PAID_OUT: 0, DROP: 0, NO_SALE: 0,
+    }
+    for (const event of events) {
+        totals[event.type] += event.type === 'NO_SALE' ? 1 : toNumber(event.amount)
+    }
+
+    const opening = toNumber(openingCash)
+    return {
+        openingCash: roundMoney(opening),
+        cashSales: roundMoney(totals.CASH_SALE),
+        cashRefunds: roundMoney(totals.CASH_REFUND),
+        paidIn: roundMoney(totals.PAID_IN),
+        paidOut: roundMoney(totals.PAID_OUT),
+        drops: roundMoney(totals.DROP),
+        noSales: totals.NO_SALE,
+        expectedCash: roundMoney(
+            opening + totals.CASH_SALE + totals.PAID_IN - totals.CASH_REFUND - totals.PAID_OUT - totals.DROP
+        ),
+    }
+}
+
+/**
+ * Total of a closing count. Counts of the same note or coin are added up.
+ */
+export function countDenominations(denominations: Denomination[]): number {
+    let total = 0
+    for (const { value, count } of denominations) {
+        if (!(value > 0) || !Number.isInteger(count) || count < 0) {
+            throw new Error('Each denomination needs a positive value and a whole, non-negative count')
+        }
+        total += value * count
+    }
+    return roundMoney(total)
+}
+
+/**
+ * Merges repeated values and orders the count from the largest note down
+ */
+export function normalizeDenominations(denominations: Denomination[]): Denomination[] {
+    const counts = new Map<number, number>()
+    for (const { value, count } of denominations) {
+        counts.set(value, (counts.get(value) ?? 0) + count)
+    }
+    return [...counts.entries()]
+        .filter(([, count]) => count > 0)
+        .sort(([a], [b]) => b - a)
+        .map(([value, count]) => ({ value, count }))
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * X-report while the shift is open, Z-report at close. Only the Z-report has
+ * the counted cash and its difference from what was expected.
+ */
+export function buildShiftReport(input: ShiftReportInput): ShiftReport {
+    const { shift } = input
+    const drawer = summarizeDrawer(shift.openingCash, input.events)
+
+    const tenders = new Map<string, ShiftReport['tenders'][number]>()
+    for (const payment of input.payments) {
+        const key = payment.paymentMethod.name
+        const row = tenders.get(key) ?? { method: key, type: payment.paymentMethod.type, count: 0, amount: 0, tips: 0 }
+        row.count += 1
+        row.amount = roundMoney(row.amount + toNumber(payment.amount))
+        row.tips = roundMoney(row.tips + toNumber(payment.tipAmount))
+        tenders.set(key, row)
+    }
+
+    const counted = input.kind === 'Z' && shift.closingCash !== null && shift.closingCash !== undefined
+        ? roundMoney(toNumber(shift.closingCash))
+        : null
+    const grossSales = roundMoney(toNumber(shift.totalSales))
+    const refunds = roundMoney(toNumber(shift.totalRefunds))
+
+    return {
+        kind: input.kind,
+        shiftNumber: shift.shiftNumber,
+        terminal: input.terminal.name,
+        location: input.location.name,
+        cashier: input.cashier?.name ?? null,
+        timeZone: input.timeZone,
+        startTime: shift.startTime.toISOString(),
+        endTime: shift.endTime?.toISOString() ?? null,
+        generatedAt: input.generatedAt.toISOString(),
+        sales: {
+            orderCount: shift.orderCount,
+            grossSales,
+            discounts: roundMoney(toNumber(shift.totalDiscounts)),
+            refunds,
+            netSales: roundMoney(grossSales - refunds),
+            tips: roundMoney([...tenders.values()].reduce((sum, row) => sum + row.tips, 0)),
+        },
+        tenders: [...tenders.values()].sort((a, b) => b.amount - a.amount),
+        drawer: {
+            ...drawer,
+            countedCash: counted,
+            difference: counted === null ? null : roundMoney(counted - drawer.expectedCash),
+        },
+        denominations: input.kind === 'Z' ? normalizeDenominations(shift.denominations ?? []) : [],
+    }
+}
+
+function formatTime(iso: string, timeZone: string): string {
+    const options: Intl.DateTimeFormatOptions = {
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }
+    try {
+        return new Intl.DateTimeFormat('en-CA', { ...options, timeZone }).format(new Date(iso))
+    } catch {
+        return new Intl.DateTimeFormat('en-CA', { ...options, timeZone: 'UTC' }).format(new Date(iso))
+    }
+}
+
+export function toShiftReportDocument(report: ShiftReport, currencySymbol = 'Rs.'): ReportDocument {
+    const money = (value: number) => `${currencySymbol} ${value.toFixed(2)}`
+    const time = (iso: string) => formatTime(iso, report.timeZone)
+    const { sales, drawer } = report
+
+    return {
+        title: `${report.kind}-Report: ${report.terminal} shift ${report.shiftNumber}`,
+        subtitle: `${report.location}, ${time(report.startTime)} to ${report.endTime ? time(report.endTime) : 'now'}` +
+            (report.cashier ? `, ${report.cashier}` : '') +
+            `. Printed ${time(report.generatedAt)}`,
+        tables: [
+            {
+                title: 'Sales',
+                columns: ['', ''],
+                rows: [
+                    ['Orders', sales.orderCount],
+                    ['Gross sales', money(sales.grossSales)],
+                    ['Discounts', money(sales.discounts)],
+                    ['Refunds', money(sales.refunds)],
+                    ['Net sales', money(sales.netSales)],
+                    ['Tips', money(sales.tips)],
+                ],
+            },
+            {
+                title: 'Payments',
+                columns: ['Method', 'Payments', 'Amount', 'Tips'],
+                rows: report.tenders.map(row => [row.method, row.count, money(row.amount), money(row.tips)]),
+            },
+            {
+                title: 'Cash drawer',
+                columns: ['', ''],
+                rows: [
+                    ['Opening float', money(drawer.openingCash)],
+                    ['Cash sales', money(drawer.cashSales)],
+                    ['Cash refunds', money(-drawer.cashRefunds)],
+                    ['Paid in', money(drawer.paidIn)],
+                    ['Paid out', money(-drawer.paidOut)],
+                    ['Drops', money(-drawer.drops)],
+                    ['Expected cash', money(drawer.expectedCash)],
+                    ...(drawer.countedCash === null ? [] : [
+                        ['Counted cash', money(drawer.countedCash)],
+                        ['Over / short', money(drawer.difference ?? 0)],
+                    ]),
+                    ['No-sale opens', drawer.noSales],
+                ],
+            },
+            ...(report.denominations.length > 0 ? [{
+                title: 'Closing count',
+                columns: ['Denomination', 'Count', 'Total'],
+                rows: report.denominations.map(({ value, count }) => [money(value), count, money(value * count)]),
+            }] : []),
+        ],
+    }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { calculatePromotionDiscount, evaluatePromotions, type PromotionRule } from '../promotions'
+
+const promotion = (overrides: Partial<PromotionRule> = {}): PromotionRule => ({
+  id: 'promo',
+  title: 'Promo',
+  discountType: 'percentage',
+  discountValue: 10,
+  maxDiscount: null,
+  minOrderAmount: null,
+  linkedCategoryId: null,
+  linkedMenuItemIds: [],
+  validFrom: null,
+  validUntil: null,
+  active: true,
+  stackable: false,
+  priority: 0,
+  ...overrides,
+})
+
+const lines = [
+  { menuItemId: 'pizza', categoryId: 'pizzas', unitPrice: 1000, quantity: 3 },
+  { menuItemId: 'cola', categoryId: 'drinks', unitPrice: 150, quantity: 2 },
+]
+
+describe('calculatePromotionDiscount', () => {
+  it('limits percentage and fixed offers to the linked lines', () => {
+    expect(calculatePromotionDiscount(promotion({ linkedCategoryId: 'drinks', discountValue: 50 }), lines)).toBe(150)
+    expect(calculatePromotionDiscount(promotion({
+      discountType: 'fixed', discountValue: 500, linkedMenuItemIds: ['cola'],
+    }), lines)).toBe(300)
+  })
+
+  it('gives the cheaper unit of each pair free for bogo and the cheapest unit for free item', () => {
+    expect(calculatePromotionDiscount(promotion({ discountType: 'bogo' }), lines)).toBe(1150)
+    expect(calculatePromotionDiscount(promotion({ discountType: 'freeItem' }), lines)).toBe(150)
+  })
+
+  it('respects the minimum order and maximum discount', () => {
+    expect(calculatePromotionDiscount(promotion({ minOrderAmount: 5000 }), lines)).toBe(0)
+    expect(calculatePromotionDiscount(promotion({ discountValue: 50, maxDiscount: 400 }), lines)).toBe(400)
+  })
+})
+
+describe('evaluatePromotions', () => {
+  const at = new Date('2026-10-19T12:00:00Z')
+
+  it('skips inactive and out-of-window promotions', () => {
+    const result = evaluatePromotions([
+      promotion({ id: 'off', active: false }),
+      promotion({ id: 'expired', validUntil: new Date('2026-10-18T00:00:00Z') }),
+      promotion({ id: 'upcoming', validFrom: new Date('2026-10-20T00:00:00Z') }),
+    ], lines, at)
+
+    expect(result).toEqual({ applied: [], discount: 0 })
+  })
+
+  it('combines stackable promotions up to the subtotal', () => {
+    const result = evaluatePromotions([
+      promotion({ id: 'a', stackable: true, priority: 2, discountType: 'fixed', discountValue: 2000 }),
+      promotion({ id: 'b', stackable: true, priority: 1, discountType: 'fixed', discountValue: 2000 }),
+    ], lines, at)
+
+    expect(result.applied.map(a => [a.promotionId, a.amount])).toEqual([['a', 2000], ['b', 1300]])
+    expect(result.discount).toBe(3300)
+  })
+
+  it('applies a non-stackable promotion alone when it beats the stack', () => {
+    const stack = [
+      promotion({ id: 'a', stackable: true, discountType: 'fixed', discountValue: 100 }),
+      promotion({ id: 'b', stackable: true, discountType: 'fixed', discountValue: 100 }),
+    ]
+
+    const better = evaluatePromotions([...stack, promotion({ id: 'solo', discountValue: 10 })], lines, at)
+    expect(better.applied.map(a => a.promotionId)).toEqual(['solo'])
+    expect(better.discount).toBe(330)
+
+    const worse = evaluatePromotions([...stack, promotion({ id: 'solo', discountValue: 5 })], lines, at)
+    expect(worse.applied.map(a => a.promotionId)).toEqual(['a', 'b'])
+    expect(worse.discount).toBe(200)
+  })
+})
@@ -0,0 +1,2 @@
+export * from './promotions'
+export * from './promotions.service'
@@ -0,0 +1,55 @@
+/**
+ * Promotions Service
+ * Loads live promotions and records the ones applied to an order
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Prisma } from '@prisma/client'
+import { evaluatePromotions, type PromotionLine, type PromotionResult } from './promotions'
+
+/**
+ * Promotions that are switched on and inside their validity window
+ */
+export async function getLivePromotions(at: Date = new Date()) {
+    return prisma.promotion.findMany({
+        where: {
+            active: true,
+            AND: [
+                { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+                { OR: [{ validUntil: null }, { validUntil: { gte: at } }] },
+            ]
+        },
+        orderBy: [{ priority: 'desc' }, { displayOrder: 'asc' }]
+    })
+}
+
+/**
+ * Evaluates every live promotion against the order lines
+ */
+export async function evaluateOrderPromotions(lines: PromotionLine[], at: Date = new Date()): Promise<PromotionResult> {
+    const promotions = await getLivePromotions(at)
+    return evaluatePromotions(promotions, lines, at)
+}
+
+/**
+ * Replaces the promotions recorded on an order with a new evaluation
+ */
+export async function recordOrderPromotions(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    result: PromotionResult
+): Promise<void> {
+    await tx.orderPromotion.deleteMany({ where: { orderId } })
+
+    if (result.applied.length > 0) {
+        await tx.orderPromotion.createMany({
+            data: result.applied.map(applied => ({
+                orderId,
+                promotionId: applied.promotionId,
+                title: applied.title,
+                discountType: applied.discountType,
+                amount: applied.amount
+            }))
+        })
+    }
+}
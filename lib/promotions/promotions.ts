@@ -0,0 +1,190 @@
+/**
+ * Promotions Engine
+ * Decides which promotions apply to an order and what they take off.
+ * Shared by online checkout and the POS discount route.
+ */
+
+import { roundMoney } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type DecimalLike = number | string | { toString(): string }
+
+export const PROMOTION_DISCOUNT_TYPES = ['percentage', 'fixed', 'bogo', 'freeItem'] as const
+
+export type PromotionDiscountType = (typeof PROMOTION_DISCOUNT_TYPES)[number]
+
+export interface PromotionRule {
+    id: string
+    title: string
+    discountType: string
+    discountValue: DecimalLike
+    maxDiscount: DecimalLike | null
+    minOrderAmount: DecimalLike | null
+    linkedCategoryId: string | null
+    linkedMenuItemIds: string[]
+    validFrom: Date | null
+    validUntil: Date | null
+    active: boolean
+    stackable: boolean
+    priority: number
+}
+
+export interface PromotionLine {
+    menuItemId: string
+    categoryId: string
+    /** Price of one unit including its variant and modifiers */
+    unitPrice: number
+    quantity: number
+}
+
+export interface AppliedPromotion {
+    promotionId: string
+    title: string
+    discountType: string
+    amount: number
+}
+
+export interface PromotionResult {
+    applied: AppliedPromotion[]
+    discount: number
+}
+
+// ============================================================================
+// ELIGIBILITY
+// ============================================================================
+
+export function isPromotionLive(promotion: Pick<PromotionRule, 'active' | 'validFrom' | 'validUntil'>, at: Date): boolean {
+    if (!promotion.active) return false
+    if (promotion.validFrom && at < promotion.validFrom) return false
+    if (promotion.validUntil && at > promotion.validUntil) return false
+    return true
+}
+
+/**
+ * Lines a promotion covers. A promotion linked to neither a category nor
+ * items covers the whole order.
+ */
+export function getEligibleLines<T extends PromotionLine>(
+    promotion: Pick<PromotionRule, 'linkedCategoryId' | 'linkedMenuItemIds'>,
+    lines: T[]
+): T[] {
+    const itemIds = promotion.linkedMenuItemIds
+    if (!promotion.linkedCategoryId && itemIds.length === 0) {
+        return lines
+    }
+
+    return lines.filter(line =>
+        line.categoryId === promotion.linkedCategoryId || itemIds.includes(line.menuItemId)
+    )
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+function unitPrices(lines: PromotionLine[]): number[] {
+    return lines
+        .flatMap(line => Array.from({ length: Math.max(line.quantity, 0) }, () => line.unitPrice))
+        .sort((a, b) => b - a)
+}
+
+/**
+ * What a single promotion takes off the order, before stacking.
+ * - percentage: share of the eligible lines
+ * - fixed: flat amount, at most the eligible lines
+ * - bogo: the cheaper unit of each pair of eligible units is free
+ * - freeItem: the cheapest eligible unit is free
+ */
+export function calculatePromotionDiscount(promotion: PromotionRule, lines: PromotionLine[]): number {
+    const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+    if (promotion.minOrderAmount !== null && subtotal < Number(promotion.minOrderAmount)) {
+        return 0
+    }
+
+    const eligible = getEligibleLines(promotion, lines)
+    const eligibleTotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+    if (eligibleTotal <= 0) {
+        return 0
+    }
+
+    const value = Number(promotion.discountValue)
+    let amount = 0
+
+    switch (promotion.discountType) {
+        case 'percentage':
+            amount = eligibleTotal * Math.min(Math.max(value, 0), 100) / 100
+            break
+        case 'fixed':
+            amount = Math.max(value, 0)
+            break
+        case 'bogo':
+            amount = unitPrices(eligible).filter((_, index) => index % 2 === 1).reduce((sum, price) => sum + price, 0)
+            break
+        case 'freeItem': {
+            const prices = unitPrices(eligible)
+            amount = prices[prices.length - 1] ?? 0
+            break
+        }
+    }
+
+    if (promotion.maxDiscount !== null) {
+        amount = Math.min(amount, Number(promotion.maxDiscount))
+    }
+
+    return roundMoney(Math.min(amount, eligibleTotal))
+}
+
+// ============================================================================
+// STACKING
+// ============================================================================
+
+/**
+ * Picks the promotions an order gets. Stackable promotions combine, applied
+ * by priority until the subtotal is used up; a non-stackable promotion
+ * applies alone. Whichever gives the customer more wins, with the stack
+ * kept on a tie.
+ */
+export function evaluatePromotions(
+    promotions: PromotionRule[],
+    lines: PromotionLine[],
+    at: Date = new Date()
+): PromotionResult {
+    const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0))
+
+    const candidates = promotions
+        .filter(promotion => isPromotionLive(promotion, at))
+        .map(promotion => ({ promotion, amount: calculatePromotionDiscount(promotion, lines) }))
+        .filter(candidate => candidate.amount > 0)
+        .sort((a, b) => b.promotion.priority - a.promotion.priority || b.amount - a.amount)
+
+    const toApplied = (promotion: PromotionRule, amount: number): AppliedPromotion => ({
+        promotionId: promotion.id,
+        title: promotion.title,
+        discountType: promotion.discountType,
+        amount,
+    })
+
+    const stack: AppliedPromotion[] = []
+    let remaining = subtotal
+    for (const candidate of candidates.filter(c => c.promotion.stackable)) {
+        if (remaining <= 0) break
+        const amount = roundMoney(Math.min(candidate.amount, remaining))
+        stack.push(toApplied(candidate.promotion, amount))
+        remaining = roundMoney(remaining - amount)
+    }
+    const stackTotal = roundMoney(subtotal - remaining)
+
+    const exclusive = candidates
+        .filter(c => !c.promotion.stackable)
+        .sort((a, b) => b.amount - a.amount || b.promotion.priority - a.promotion.priority)[0]
+
+    if (exclusive && exclusive.amount > stackTotal) {
+        const amount = Math.min(exclusive.amount, subtotal)
+        return { applied: [toApplied(exclusive.promotion, amount)], discount: amount }
+    }
+
+    return { applied: stack, discount: stackTotal }
+}
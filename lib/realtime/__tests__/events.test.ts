@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { getEventEmissions, kitchenTicketEvents, stockLevelEvents } from '../events'
+
+describe('getEventEmissions', () => {
+  it('sends kitchen updates to the station and its location', () => {
+    const [emission] = getEventEmissions({
+      type: 'kitchen.ticket-bumped',
+      locationId: 'loc-1',
+      stationId: 'grill',
+      kitchenOrderId: 'ko-1',
+    })
+    expect(emission.rooms).toEqual(['station:grill', 'location:loc-1'])
+    expect(emission.event).toBe('kitchen:order-bumped')
+  })
+
+  it('adds the table room when an order is tied to a table', () => {
+    const [emission] = getEventEmissions({
+      type: 'order.status-changed',
+      locationId: 'loc-1',
+      orderId: 'o-1',
+      status: 'READY',
+      tableId: 't-4',
+    })
+    expect(emission.rooms).toEqual(['location:loc-1', 'table:t-4'])
+    expect(emission.data).toEqual({ orderId: 'o-1', status: 'READY', locationId: 'loc-1' })
+  })
+
+  it('follows table status changes with occupied/cleared events', () => {
+    const base = { type: 'table.status-changed' as const, locationId: 'loc-1', tableId: 't-4', areaId: 'patio' }
+    expect(getEventEmissions({ ...base, status: 'AVAILABLE' }).map(e => e.event))
+      .toEqual(['table:status-changed', 'table:cleared'])
+    expect(getEventEmissions({ ...base, status: 'OCCUPIED', orderId: 'o-1' }).map(e => e.event))
+      .toEqual(['table:status-changed', 'table:occupied'])
+    expect(getEventEmissions({ ...base, status: 'CLEANING' })).toHaveLength(1)
+  })
+})
+
+describe('kitchenTicketEvents', () => {
+  it('creates one event per ticket with item names', () => {
+    const events = kitchenTicketEvents({
+      locationId: 'loc-1',
+      kitchenOrders: [{
+        id: 'ko-1',
+        ticketNumber: 12,
+        orderId: 'o-1',
+        stationId: 'grill',
+        status: 'NEW',
+        priority: 'NORMAL',
+        items: [{ id: 'koi-1', quantity: 2, orderItem: { name: 'Zinger', specialInstructions: null } }],
+      }],
+    })
+    expect(events).toHaveLength(1)
+    const [emission] = getEventEmissions(events[0])
+    expect(emission.rooms).toEqual(['station:grill', 'location:loc-1'])
+    expect(emission.data).toMatchObject({
+      kitchenOrder: { ticketNumber: 12, items: [{ menuItemName: 'Zinger', quantity: 2 }] },
+    })
+  })
+})
+
+describe('stockLevelEvents', () => {
+  const item = { id: 'flour', name: 'Flour', minimumStock: '10' }
+
+  it('raises a low-stock alert at or below the minimum', () => {
+    expect(stockLevelEvents('loc-1', item, 12).map(e => e.type)).toEqual(['inventory.stock-updated'])
+    expect(stockLevelEvents('loc-1', item, 10).map(e => e.type)).toEqual(['inventory.stock-updated', 'inventory.low-stock'])
+  })
+
+  it('never alerts for items without a minimum', () => {
+    expect(stockLevelEvents('loc-1', { ...item, minimumStock: null }, 0)).toHaveLength(1)
+  })
+})
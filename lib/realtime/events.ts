@@ -0,0 +1,296 @@
+/**
+ * Realtime Domain Events
+ *
+ * API routes describe what changed as a DomainEvent; this module decides
+ * which Socket.IO events go to which location/station/table rooms.
+ */
+
+import type {
+  KitchenOrderEvent,
+  OrderEvent,
+  ReservationEvent,
+  ServerToClientEvents,
+  WaitlistEvent,
+} from './socket-server'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DomainEvent =
+  | { type: 'order.created'; locationId: string; order: OrderEvent['order']; tableId?: string | null }
+  | { type: 'order.status-changed'; locationId: string; orderId: string; status: string; tableId?: string | null }
+  | { type: 'order.payment-received'; locationId: string; orderId: string; amount: number; status: string; tableId?: string | null }
+  | { type: 'kitchen.ticket-created'; locationId: string; kitchenOrder: KitchenOrderEvent['kitchenOrder'] }
+  | { type: 'kitchen.ticket-updated'; locationId: string; stationId: string; kitchenOrderId: string; status: string }
+  | { type: 'kitchen.item-ready'; locationId: string; stationId: string; kitchenOrderId: string; itemId: string }
+  | { type: 'kitchen.ticket-bumped'; locationId: string; stationId: string; kitchenOrderId: string }
+  | { type: 'table.status-changed'; locationId: string; tableId: string; areaId: string; status: string; orderId?: string | null }
+  | { type: 'reservation.created'; locationId: string; reservation: ReservationEvent['reservation'] }
+  | { type: 'reservation.updated'; locationId: string; reservationId: string; status: string }
+  | { type: 'reservation.seated'; locationId: string; reservationId: string; tableId: string }
+  | { type: 'waitlist.updated'; locationId: string; entry: WaitlistEvent['entry'] }
+  | { type: 'waitlist.notification-sent'; locationId: string; entryId: string; method: string }
+  | { type: 'inventory.stock-updated'; locationId: string; itemId: string; newStock: number }
+  | { type: 'inventory.low-stock'; locationId: string; itemId: string; itemName: string; currentStock: number; minimumStock: number }
+  | { type: 'pos.shift-opened'; locationId: string; shiftId: string; terminalId: string; userId: string }
+  | { type: 'pos.shift-closed'; locationId: string; shiftId: string; terminalId: string }
+
+export type RealtimeEmission = {
+  [K in keyof ServerToClientEvents]: {
+    rooms: string[]
+    event: K
+    data: Parameters<ServerToClientEvents[K]>[0]
+  }
+}[keyof ServerToClientEvents]
+
+// Redis channel the realtime server listens on for events published elsewhere
+export const REALTIME_CHANNEL = 'rms:realtime'
+
+// =============================================================================
+// Rooms
+// =============================================================================
+
+export const locationRoom = (locationId: string) => `location:${locationId}`
+export const stationRoom = (stationId: string) => `station:${stationId}`
+export const tableRoom = (tableId: string) => `table:${tableId}`
+
+function withTable(locationId: string, tableId?: string | null): string[] {
+  return tableId ? [locationRoom(locationId), tableRoom(tableId)] : [locationRoom(locationId)]
+}
+
+// =============================================================================
+// Fan-out
+// =============================================================================
+
+/**
+ * Socket.IO emissions for a domain event. Every event reaches its location
+ * room; kitchen events also reach the station room and table events the
+ * table room, so a KDS or table-side screen only needs its own room.
+ */
+export function getEventEmissions(event: DomainEvent): RealtimeEmission[] {
+  const location = locationRoom(event.locationId)
+
+  switch (event.type) {
+    case 'order.created': {
+      const emissions: RealtimeEmission[] = [
+        { rooms: [location], event: 'order:created', data: { order: event.order } },
+      ]
+      if (event.tableId) {
+        emissions.push({
+          rooms: withTable(event.locationId, event.tableId),
+          event: 'order:assigned-to-table',
+          data: { orderId: event.order.id, tableId: event.tableId },
+        })
+      }
+      return emissions
+    }
+
+    case 'order.status-changed':
+      return [{
+        rooms: withTable(event.locationId, event.tableId),
+        event: 'order:status-changed',
+        data: { orderId: event.orderId, status: event.status, locationId: event.locationId },
+      }]
+
+    case 'order.payment-received':
+      return [{
+        rooms: withTable(event.locationId, event.tableId),
+        event: 'order:payment-received',
+        data: { orderId: event.orderId, amount: event.amount, status: event.status },
+      }]
+
+    case 'kitchen.ticket-created':
+      return [{
+        rooms: [stationRoom(event.kitchenOrder.stationId), location],
+        event: 'kitchen:new-order',
+        data: { kitchenOrder: event.kitchenOrder },
+      }]
+
+    case 'kitchen.ticket-updated':
+      return [{
+        rooms: [stationRoom(event.stationId), location],
+        event: 'kitchen:order-updated',
+        data: { kitchenOrderId: event.kitchenOrderId, status: event.status, stationId: event.stationId },
+      }]
+
+    case 'kitchen.item-ready':
+      return [{
+        rooms: [stationRoom(event.stationId), location],
+        event: 'kitchen:item-ready',
+        data: { kitchenOrderId: event.kitchenOrderId, itemId: event.itemId },
+      }]
+
+    case 'kitchen.ticket-bumped':
+      return [{
+        rooms: [stationRoom(event.stationId), location],
+        event: 'kitchen:order-bumped',
+        data: { kitchenOrderId: event.kitchenOrderId, stationId: event.stationId },
+      }]
+
+    case 'table.status-changed': {
+      const rooms = withTable(event.locationId, event.tableId)
+      const emissions: RealtimeEmission[] = [{
+        rooms,
+        event: 'table:status-changed',
+        data: { tableId: event.tableId, status: event.status, areaId: event.areaId },
+      }]
+      if (event.status === 'OCCUPIED' && event.orderId) {
+        emissions.push({ rooms, event: 'table:occupied', data: { tableId: event.tableId, orderId: event.orderId } })
+      } else if (event.status === 'AVAILABLE') {
+        emissions.push({ rooms, event: 'table:cleared', data: { tableId: event.tableId } })
+      }
+      return emissions
+    }
+
+    case 'reservation.created':
+      return [{ rooms: [location], event: 'reservation:created', data: { reservation: event.reservation } }]
+
+    case 'reservation.updated':
+      return [{
+        rooms: [location],
+        event: 'reservation:updated',
+        data: { reservationId: event.reservationId, status: event.status },
+      }]
+
+    case 'reservation.seated':
+      return [{
+        rooms: withTable(event.locationId, event.tableId),
+        event: 'reservation:seated',
+        data: { reservationId: event.reservationId, tableId: event.tableId },
+      }]
+
+    case 'waitlist.updated':
+      return [{ rooms: [location], event: 'waitlist:updated', data: { entry: event.entry } }]
+
+    case 'waitlist.notification-sent':
+      return [{
+        rooms: [location],
+        event: 'waitlist:notification-sent',
+        data: { entryId: event.entryId, method: event.method },
+      }]
+
+    case 'inventory.stock-updated':
+      return [{
+        rooms: [location],
+        event: 'inventory:stock-updated',
+        data: { itemId: event.itemId, locationId: event.locationId, newStock: event.newStock },
+      }]
+
+    case 'inventory.low-stock':
+      return [{
+        rooms: [location],
+        event: 'inventory:low-stock',
+        data: {
+          itemId: event.itemId,
+          itemName: event.itemName,
+          currentStock: event.currentStock,
+          minimumStock: event.minimumStock,
+        },
+      }]
+
+    case 'pos.shift-opened':
+      return [{
+        rooms: [location],
+        event: 'pos:shift-opened',
+        data: { shiftId: event.shiftId, terminalId: event.terminalId, userId: event.userId },
+      }]
+
+    case 'pos.shift-closed':
+      return [{
+        rooms: [location],
+        event: 'pos:shift-closed',
+        data: { shiftId: event.shiftId, terminalId: event.terminalId },
+      }]
+
+    default:
+      return []
+  }
+}
+
+/**
+ * Stock level events for an item at a location: always the new level, plus a
+ * low-stock alert when it is at or below the minimum.
+ */
+export function stockLevelEvents(
+  locationId: string,
+  item: { id: string; name: string; minimumStock: number | string | { toString(): string } | null },
+  newStock: number
+): DomainEvent[] {
+  const events: DomainEvent[] = [{ type: 'inventory.stock-updated', locationId, itemId: item.id, newStock }]
+
+  const minimumStock = item.minimumStock === null ? 0 : Number(item.minimumStock)
+  if (minimumStock > 0 && newStock <= minimumStock) {
+    events.push({
+      type: 'inventory.low-stock',
+      locationId,
+      itemId: item.id,
+      itemName: item.name,
+      currentStock: newStock,
+      minimumStock,
+    })
+  }
+  return events
+}
+
+/**
+ * One ticket-created event per kitchen ticket produced by routing an order
+ */
+export function kitchenTicketEvents(routing: {
+  locationId: string
+  kitchenOrders: Array<{
+    id: string
+    ticketNumber: number
+    orderId: string
+    stationId: string
+    status: string
+    priority: string
+    items: Array<{
+      id: string
+      quantity: number
+      orderItem: { name: string; specialInstructions: string | null }
+    }>
+  }>
+}): DomainEvent[] {
+  return routing.kitchenOrders.map(ticket => ({
+    type: 'kitchen.ticket-created',
+    locationId: routing.locationId,
+    kitchenOrder: {
+      id: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      orderId: ticket.orderId,
+      stationId: ticket.stationId,
+      status: ticket.status,
+      priority: ticket.priority,
+      items: ticket.items.map(item => ({
+        id: item.id,
+        menuItemName: item.orderItem.name,
+        quantity: item.quantity,
+        specialInstructions: item.orderItem.specialInstructions ?? undefined,
+      })),
+    },
+  }))
+}
+
+export function waitlistUpdatedEvent(entry: {
+  id: string
+  locationId: string
+  guestName: string
+  partySize: number
+  position: number
+  quotedWaitTime: number | null
+  status: string
+}): DomainEvent {
+  return {
+    type: 'waitlist.updated',
+    locationId: entry.locationId,
+    entry: {
+      id: entry.id,
+      guestName: entry.guestName,
+      partySize: entry.partySize,
+      position: entry.position,
+      quotedWaitTime: entry.quotedWaitTime ?? undefined,
+      status: entry.status,
+    },
+  }
+}
@@ -1,2 +1,5 @@
 export { RMSSocketServer, getSocketServer, initializeSocketServer } from './socket-server'
 export type { ServerToClientEvents, ClientToServerEvents, SocketData } from './socket-server'
+export { getEventEmissions, kitchenTicketEvents, stockLevelEvents, waitlistUpdatedEvent, locationRoom, stationRoom, tableRoom, REALTIME_CHANNEL } from './events'
+export type { DomainEvent, RealtimeEmission } from './events'
+export { publishEvent, publishEvents } from './publisher'
@@ -0,0 +1,54 @@
+/**
+ * Realtime Event Publisher
+ *
+ * Called by API routes once their writes have committed. When the Socket.IO
+ * server runs in the same process the events are emitted directly; otherwise
+ * they are published on Redis for the standalone realtime server to fan out.
+ * Publishing never throws: a missed live update must not fail the request.
+ */
+
+import IORedis from 'ioredis'
+import { REALTIME_CHANNEL, type DomainEvent } from './events'
+import { getSocketServer } from './socket-server'
+
+const globalForRealtime = globalThis as unknown as {
+  realtimePublisher: IORedis | undefined
+}
+
+function getPublisher(): IORedis | null {
+  if (!process.env.REDIS_URL) return null
+
+  if (!globalForRealtime.realtimePublisher) {
+    globalForRealtime.realtimePublisher = new IORedis(process.env.REDIS_URL, {
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    })
+    globalForRealtime.realtimePublisher.on('error', (error) => {
+      console.error('Realtime publisher error:', error.message)
+    })
+  }
+  return globalForRealtime.realtimePublisher
+}
+
+export async function publishEvents(events: DomainEvent[]): Promise<void> {
+  if (events.length === 0) return
+
+  try {
+    const server = getSocketServer()
+    if (server) {
+      events.forEach(event => server.dispatch(event))
+      return
+    }
+
+    const publisher = getPublisher()
+    if (!publisher) return
+
+    await Promise.all(events.map(event => publisher.publish(REALTIME_CHANNEL, JSON.stringify(event))))
+  } catch (error) {
+    console.error('Failed to publish realtime events:', error)
+  }
+}
+
+export async function publishEvent(event: DomainEvent): Promise<void> {
+  return publishEvents([event])
+}
@@ -0,0 +1,37 @@
+/**
+ * Standalone Socket.IO Server
+ *
+ * Run next to the Next.js app:
+ *   npx tsx lib/realtime/server.ts
+ *
+ * API routes publish domain events on Redis (REDIS_URL); this process relays
+ * them to connected KDS, POS and floor screens.
+ */
+
+import { createServer } from 'http'
+import { initializeSocketServer } from './socket-server'
+
+const port = parseInt(process.env.SOCKET_PORT || '3001')
+
+const httpServer = createServer((_req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ status: 'ok' }))
+})
+
+const socketServer = initializeSocketServer(httpServer)
+
+socketServer.initialize().then(() => {
+  httpServer.listen(port, () => {
+    console.log(`🚀 Realtime server listening on port ${port}`)
+  })
+})
+
+const shutdown = async () => {
+  console.log('Shutting down realtime server...')
+  await socketServer.close()
+  httpServer.close()
+  process.exit(0)
+}
+
+process.on('SIGTERM', shutdown)
+process.on('SIGINT', shutdown)
@@ -17,6 +17,14 @@ import { Server as SocketIOServer } from 'socket.io'
 import { createAdapter } from '@socket.io/redis-adapter'
 import IORedis from 'ioredis'
 import { Server as HTTPServer } from 'http'
+import {
+  REALTIME_CHANNEL,
+  getEventEmissions,
+  locationRoom,
+  stationRoom,
+  tableRoom,
+  type DomainEvent,
+} from './events'
 
 // Types
 export interface ServerToClientEvents {
@@ -91,7 +99,7 @@ export interface SocketData {
 }
 
 // Event data types
-interface KitchenOrderEvent {
+export interface KitchenOrderEvent {
   kitchenOrder: {
     id: string
     ticketNumber: number
@@ -108,7 +116,7 @@ interface KitchenOrderEvent {
   }
 }
 
-interface OrderEvent {
+export interface OrderEvent {
   order: {
     id: string
     orderNumber: string
@@ -120,7 +128,7 @@ interface OrderEvent {
   }
 }
 
-interface ReservationEvent {
+export interface ReservationEvent {
   reservation: {
     id: string
     reservationNumber: string
@@ -132,7 +140,7 @@ interface ReservationEvent {
   }
 }
 
-interface WaitlistEvent {
+export interface WaitlistEvent {
   entry: {
     id: string
     guestName: string
@@ -148,6 +156,7 @@ export class RMSSocketServer {
   private io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
   private pubClient: IORedis | null = null
   private subClient: IORedis | null = null
+  private eventClient: IORedis | null = null
 
   constructor(httpServer: HTTPServer) {
     this.io = new SocketIOServer(httpServer, {
@@ -181,6 +190,8 @@ export class RMSSocketServer {
         console.error('❌ Failed to connect Socket.IO Redis adapter:', error)
         // Continue without Redis adapter (single server mode)
       }
+
+      this.subscribeToDomainEvents(process.env.REDIS_URL)
     }
 
     this.setupMiddleware()
@@ -189,6 +200,22 @@ export class RMSSocketServer {
     console.log('✅ Socket.IO server initialized')
   }
 
+  // Domain events published by API routes running in other processes
+  private subscribeToDomainEvents(redisUrl: string): void {
+    this.eventClient = new IORedis(redisUrl)
+    this.eventClient.subscribe(REALTIME_CHANNEL).catch((error) => {
+      console.error('❌ Failed to subscribe to realtime events:', error)
+    })
+    this.eventClient.on('message', (channel, message) => {
+      if (channel !== REALTIME_CHANNEL) return
+      try {
+        this.dispatch(JSON.parse(message) as DomainEvent)
+      } catch (error) {
+        console.error('❌ Invalid realtime event:', error)
+      }
+    })
+  }
+
   private setupMiddleware(): void {
     // Authentication middleware
     this.io.use(async (socket, next) => {
@@ -224,25 +251,25 @@ export class RMSSocketServer {
 
       // Room management
       socket.on('join:location', (locationId) => {
-        socket.join(`location:${locationId}`)
+        socket.join(locationRoom(locationId))
         socket.data.locationId = locationId
         console.log(`📍 ${socket.id} joined location: ${locationId}`)
       })
 
       socket.on('leave:location', (locationId) => {
-        socket.leave(`location:${locationId}`)
+        socket.leave(locationRoom(locationId))
         console.log(`📍 ${socket.id} left location: ${locationId}`)
       })
 
       socket.on('join:kitchen-station', (stationId) => {
-        socket.join(`kitchen:${stationId}`)
+        socket.join(stationRoom(stationId))
         if (!socket.data.stationIds) socket.data.stationIds = []
         socket.data.stationIds.push(stationId)
         console.log(`🍳 ${socket.id} joined kitchen station: ${stationId}`)
       })
 
       socket.on('leave:kitchen-station', (stationId) => {
-        socket.leave(`kitchen:${stationId}`)
+        socket.leave(stationRoom(stationId))
         if (socket.data.stationIds) {
           socket.data.stationIds = socket.data.stationIds.filter(id => id !== stationId)
         }
@@ -250,12 +277,12 @@ export class RMSSocketServer {
       })
 
       socket.on('join:table', (tableId) => {
-        socket.join(`table:${tableId}`)
+        socket.join(tableRoom(tableId))
         console.log(`🪑 ${socket.id} joined table: ${tableId}`)
       })
 
       socket.on('leave:table', (tableId) => {
-        socket.leave(`table:${tableId}`)
+        socket.leave(tableRoom(tableId))
         console.log(`🪑 ${socket.id} left table: ${tableId}`)
       })
 
@@ -280,101 +307,108 @@ export class RMSSocketServer {
   // Emission Methods (called from API routes/services)
   // ==========================================================================
 
+  // Fans a domain event out to its rooms; sockets in several rooms get it once
+  dispatch(event: DomainEvent): void {
+    for (const emission of getEventEmissions(event)) {
+      (this.io.to(emission.rooms) as any).emit(emission.event, emission.data)
+    }
+  }
+
   // Kitchen events
   emitKitchenNewOrder(stationId: string, data: KitchenOrderEvent): void {
-    this.io.to(`kitchen:${stationId}`).emit('kitchen:new-order', data)
+    this.io.to(stationRoom(stationId)).emit('kitchen:new-order', data)
   }
 
   emitKitchenOrderUpdated(stationId: string, kitchenOrderId: string, status: string): void {
-    this.io.to(`kitchen:${stationId}`).emit('kitchen:order-updated', { kitchenOrderId, status, stationId })
+    this.io.to(stationRoom(stationId)).emit('kitchen:order-updated', { kitchenOrderId, status, stationId })
   }
 
   emitKitchenItemReady(stationId: string, kitchenOrderId: string, itemId: string): void {
-    this.io.to(`kitchen:${stationId}`).emit('kitchen:item-ready', { kitchenOrderId, itemId })
+    this.io.to(stationRoom(stationId)).emit('kitchen:item-ready', { kitchenOrderId, itemId })
   }
 
   emitKitchenOrderBumped(stationId: string, kitchenOrderId: string): void {
-    this.io.to(`kitchen:${stationId}`).emit('kitchen:order-bumped', { kitchenOrderId, stationId })
+    this.io.to(stationRoom(stationId)).emit('kitchen:order-bumped', { kitchenOrderId, stationId })
   }
 
   // Order events
   emitOrderCreated(locationId: string, data: OrderEvent): void {
-    this.io.to(`location:${locationId}`).emit('order:created', data)
+    this.io.to(locationRoom(locationId)).emit('order:created', data)
   }
 
   emitOrderStatusChanged(locationId: string, orderId: string, status: string): void {
-    this.io.to(`location:${locationId}`).emit('order:status-changed', { orderId, status, locationId })
+    this.io.to(locationRoom(locationId)).emit('order:status-changed', { orderId, status, locationId })
   }
 
   emitOrderPaymentReceived(locationId: string, orderId: string, amount: number, status: string): void {
-    this.io.to(`location:${locationId}`).emit('order:payment-received', { orderId, amount, status })
+    this.io.to(locationRoom(locationId)).emit('order:payment-received', { orderId, amount, status })
   }
 
   // Table events
   emitTableStatusChanged(locationId: string, tableId: string, status: string, areaId: string): void {
-    this.io.to(`location:${locationId}`).emit('table:status-changed', { tableId, status, areaId })
-    this.io.to(`table:${tableId}`).emit('table:status-changed', { tableId, status, areaId })
+    this.io.to(locationRoom(locationId)).emit('table:status-changed', { tableId, status, areaId })
+    this.io.to(tableRoom(tableId)).emit('table:status-changed', { tableId, status, areaId })
   }
 
   emitTableOccupied(locationId: string, tableId: string, orderId: string): void {
-    this.io.to(`location:${locationId}`).emit('table:occupied', { tableId, orderId })
+    this.io.to(locationRoom(locationId)).emit('table:occupied', { tableId, orderId })
   }
 
   emitTableCleared(locationId: string, tableId: string): void {
-    this.io.to(`location:${locationId}`).emit('table:cleared', { tableId })
+    this.io.to(locationRoom(locationId)).emit('table:cleared', { tableId })
   }
 
   // Reservation events
   emitReservationCreated(locationId: string, data: ReservationEvent): void {
-    this.io.to(`location:${locationId}`).emit('reservation:created', data)
+    this.io.to(locationRoom(locationId)).emit('reservation:created', data)
   }
 
   emitReservationUpdated(locationId: string, reservationId: string, status: string): void {
-    this.io.to(`location:${locationId}`).emit('reservation:updated', { reservationId, status })
+    this.io.to(locationRoom(locationId)).emit('reservation:updated', { reservationId, status })
   }
 
   emitReservationSeated(locationId: string, reservationId: string, tableId: string): void {
-    this.io.to(`location:${locationId}`).emit('reservation:seated', { reservationId, tableId })
+    this.io.to(locationRoom(locationId)).emit('reservation:seated', { reservationId, tableId })
   }
 
   // Waitlist events
   emitWaitlistUpdated(locationId: string, data: WaitlistEvent): void {
-    this.io.to(`location:${locationId}`).emit('waitlist:updated', data)
+    this.io.to(locationRoom(locationId)).emit('waitlist:updated', data)
   }
 
   emitWaitlistPositionChanged(locationId: string, entryId: string, position: number): void {
-    this.io.to(`location:${locationId}`).emit('waitlist:position-changed', { entryId, position })
+    this.io.to(locationRoom(locationId)).emit('waitlist:position-changed', { entryId, position })
   }
 
   emitWaitlistNotificationSent(locationId: string, entryId: string, method: string): void {
-    this.io.to(`location:${locationId}`).emit('waitlist:notification-sent', { entryId, method })
+    this.io.to(locationRoom(locationId)).emit('waitlist:notification-sent', { entryId, method })
   }
 
   // Inventory events
   emitLowStockAlert(locationId: string, itemId: string, itemName: string, currentStock: number, minimumStock: number): void {
-    this.io.to(`location:${locationId}`).emit('inventory:low-stock', { itemId, itemName, currentStock, minimumStock })
+    this.io.to(locationRoom(locationId)).emit('inventory:low-stock', { itemId, itemName, currentStock, minimumStock })
   }
 
   emitLotExpiring(locationId: string, lotId: string, itemName: string, expiryDate: string, daysUntilExpiry: number): void {
-    this.io.to(`location:${locationId}`).emit('inventory:lot-expiring', { lotId, itemName, expiryDate, daysUntilExpiry })
+    this.io.to(locationRoom(locationId)).emit('inventory:lot-expiring', { lotId, itemName, expiryDate, daysUntilExpiry })
   }
 
   emitStockUpdated(locationId: string, itemId: string, newStock: number): void {
-    this.io.to(`location:${locationId}`).emit('inventory:stock-updated', { itemId, locationId, newStock })
+    this.io.to(locationRoom(locationId)).emit('inventory:stock-updated', { itemId, locationId, newStock })
   }
 
   // POS events
   emitShiftOpened(locationId: string, shiftId: string, terminalId: string, userId: string): void {
-    this.io.to(`location:${locationId}`).emit('pos:shift-opened', { shiftId, terminalId, userId })
+    this.io.to(locationRoom(locationId)).emit('pos:shift-opened', { shiftId, terminalId, userId })
   }
 
   emitShiftClosed(locationId: string, shiftId: string, terminalId: string): void {
-    this.io.to(`location:${locationId}`).emit('pos:shift-closed', { shiftId, terminalId })
+    this.io.to(locationRoom(locationId)).emit('pos:shift-closed', { shiftId, terminalId })
   }
 
   // System notifications
   emitSystemNotification(locationId: string, type: string, message: string, severity: 'info' | 'warning' | 'error'): void {
-    this.io.to(`location:${locationId}`).emit('system:notification', { type, message, severity })
+    this.io.to(locationRoom(locationId)).emit('system:notification', { type, message, severity })
   }
 
   // Broadcast to all connected clients
@@ -392,22 +426,26 @@ export class RMSSocketServer {
   async close(): Promise<void> {
     if (this.pubClient) await this.pubClient.quit()
     if (this.subClient) await this.subClient.quit()
+    if (this.eventClient) await this.eventClient.quit()
     this.io.close()
   }
 }
 
-// Singleton instance
-let socketServer: RMSSocketServer | null = null
+// Singleton instance, kept on globalThis so API route bundles see the
+// server started by a custom Next.js server in the same process
+const globalForSocket = globalThis as unknown as {
+  socketServer: RMSSocketServer | undefined
+}
 
 export function getSocketServer(): RMSSocketServer | null {
-  return socketServer
+  return globalForSocket.socketServer ?? null
 }
 
 export function initializeSocketServer(httpServer: HTTPServer): RMSSocketServer {
-  if (!socketServer) {
-    socketServer = new RMSSocketServer(httpServer)
+  if (!globalForSocket.socketServer) {
+    globalForSocket.socketServer = new RMSSocketServer(httpServer)
   }
-  return socketServer
+  return globalForSocket.socketServer
 }
 
 export default RMSSocketServer
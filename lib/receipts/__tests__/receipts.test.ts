@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { buildReceipt, receiptTextLines, renderEscPos, renderReceiptHtml, type ReceiptOrder } from '../receipt'
+import { encodeQr, qrToPng } from '../qr'
+
+const business = {
+  name: 'Bistro Bay',
+  address: '12 Main Rd, Karachi',
+  phone: '021-111-222',
+  taxNumber: 'NTN-1234',
+  currencySymbol: 'Rs.',
+  logoUrl: null,
+  timezone: 'Asia/Karachi',
+}
+
+const payment = (overrides: Partial<ReceiptOrder['transactions'][number]> = {}) => ({
+  status: 'COMPLETED',
+  amount: '580',
+  tipAmount: '0',
+  tenderedAmount: null,
+  refundedAmount: '0',
+  isSplitPayment: false,
+  splitIndex: null,
+  cardBrand: null,
+  cardLastFour: null,
+  paymentMethod: { name: 'Cash', type: 'CASH' },
+  ...overrides,
+})
+
+const order = (overrides: Partial<ReceiptOrder> = {}): ReceiptOrder => ({
+  orderNumber: 'KHI-20261019-0042',
+  placedAt: new Date('2026-10-19T14:30:00Z'),
+  orderType: 'DINE_IN',
+  customerName: null,
+  table: { tableNumber: 'T4' },
+  server: { name: 'Sana' },
+  location: { name: 'Bistro Bay', address: null, phone: null },
+  orderItems: [
+    { name: 'Chicken Karahi', variantName: 'Half', quantity: 1, totalPrice: '450', modifiers: [{ name: 'Extra naan' }], specialInstructions: null },
+    { name: 'Lassi', variantName: null, quantity: 2, totalPrice: '100', modifiers: null, specialInstructions: 'No sugar' },
+  ],
+  subtotal: '550',
+  discountAmount: '50',
+  promotionDiscount: '0',
+  loyaltyDiscount: '0',
+  serviceCharge: '0',
+  deliveryFee: '0',
+  taxAmount: '80',
+  tipAmount: '0',
+  total: '580',
+  transactions: [payment()],
+  ...overrides,
+})
+
+describe('buildReceipt', () => {
+  it('shows tax against the discounted amount and the change given', () => {
+    const receipt = buildReceipt(order({ transactions: [payment({ tenderedAmount: '1000' })] }), business)
+
+    expect(receipt.totals).toEqual([
+      { label: 'Subtotal', amount: 550 },
+      { label: 'Discount', amount: -50 },
+      { label: 'Taxable amount', amount: 500 },
+      { label: 'Tax @ 16%', amount: 80 },
+      { label: 'Total', amount: 580, emphasis: true },
+    ])
+    expect(receipt.changeDue).toBe(420)
+    expect(receipt.items[0]).toEqual({ quantity: 1, name: 'Chicken Karahi (Half)', amount: 450, notes: ['Extra naan'] })
+    expect(receipt.header).toContain('Tax No: NTN-1234')
+  })
+
+  it('lists split payments with the tip and what is still owed', () => {
+    const receipt = buildReceipt(order({
+      transactions: [
+        payment({ amount: '300', isSplitPayment: true, splitIndex: 1 }),
+        payment({ amount: '200', tipAmount: '50', isSplitPayment: true, splitIndex: 2, cardBrand: 'VISA', cardLastFour: '4242', paymentMethod: { name: 'Card', type: 'CARD' } }),
+        payment({ status: 'FAILED', amount: '80' }),
+      ],
+    }), business)
+
+    expect(receipt.totals.slice(-2)).toEqual([
+      { label: 'Tip', amount: 50 },
+      { label: 'Total with tip', amount: 630, emphasis: true },
+    ])
+    expect(receipt.payments).toEqual([
+      { label: 'Cash (1/2)', amount: 300 },
+      { label: 'Card VISA ****4242 (2/2)', amount: 250 },
+      { label: 'Paid', amount: 550, emphasis: true },
+      { label: 'Balance due', amount: 80, emphasis: true },
+    ])
+  })
+
+  it('leaves out the QR code and logo when the template turns them off', () => {
+    const template = { headerContent: 'Welcome', footerContent: 'Come again\nwww.bistro.example', showLogo: false, showQRCode: false }
+    const receipt = buildReceipt(order(), { ...business, logoUrl: '/logo.png' }, template, { orderUrl: 'https://x.example' })
+
+    expect(receipt.qrUrl).toBeNull()
+    expect(receipt.logoUrl).toBeNull()
+    expect(receipt.header).toContain('Welcome')
+    expect(receipt.footer).toEqual(['Come again', 'www.bistro.example'])
+  })
+})
+
+describe('receipt rendering', () => {
+  const receipt = buildReceipt(order(), business, undefined, { orderUrl: 'https://bistro.example/orders?order=KHI-20261019-0042' })
+
+  it('fits every line to the paper width', () => {
+    for (const width of [32, 48]) {
+      expect(receiptTextLines(receipt, width).every(line => line.text.length <= width)).toBe(true)
+    }
+  })
+
+  it('writes ESC/POS with the QR code and a cut', () => {
+    const bytes = renderEscPos(receipt, 48)
+
+    expect([...bytes.subarray(0, 2)]).toEqual([0x1b, 0x40])
+    expect(bytes.includes(Buffer.from('https://bistro.example/orders?order=KHI-20261019-0042'))).toBe(true)
+    expect([...bytes.subarray(-4)]).toEqual([0x1d, 0x56, 0x42, 3])
+  })
+
+  it('escapes template text in HTML', () => {
+    const html = renderReceiptHtml(buildReceipt(order(), { ...business, name: 'Tom & <Jerry>' }))
+    expect(html).toContain('Tom &amp; &lt;Jerry&gt;')
+  })
+})
+
+describe('encodeQr', () => {
+  it('picks the smallest version that fits and draws the finder patterns', () => {
+    expect(encodeQr('A')).toHaveLength(21)
+    const matrix = encodeQr('https://bistro.example/orders?order=KHI-20261019-0042')
+    expect(matrix).toHaveLength(33)
+    expect(matrix[0].slice(0, 7)).toEqual([true, true, true, true, true, true, true])
+    expect(matrix[3].slice(0, 7)).toEqual([true, false, true, true, true, false, true])
+    expect(() => encodeQr('x'.repeat(300))).toThrow('too long')
+  })
+
+  it('writes a PNG', () => {
+    const png = qrToPng(encodeQr('A'), 2)
+    expect([...png.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47])
+    expect(png.readUInt32BE(16)).toBe((21 + 8) * 2)
+  })
+})
@@ -0,0 +1,3 @@
+export * from './qr'
+export * from './receipt'
+export * from './receipts.service'
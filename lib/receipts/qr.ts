@@ -0,0 +1,385 @@
+/**
+ * QR Codes
+ * Encodes short text such as order links as a QR code (byte mode, error
+ * correction level M, versions 1-10) and writes it as a PNG, without external
+ * libraries
+ */
+
+import { deflateSync } from 'zlib'
+import { crc32 } from '../reports/formats'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Rows of modules, true for dark */
+export type QrMatrix = boolean[][]
+
+// Level M error correction per version (index 1-10)
+const EC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const EC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+const MAX_VERSION = 10
+
+// ============================================================================
+// CAPACITY
+// ============================================================================
+
+/** Modules left for data and error correction once function patterns are placed */
+function rawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2
+        result -= (25 * alignments - 10) * alignments - 55
+        if (version >= 7) result -= 36
+    }
+    return result
+}
+
+function dataCodewords(version: number): number {
+    return Math.floor(rawDataModules(version) / 8) - EC_CODEWORDS_PER_BLOCK[version] * EC_BLOCKS[version]
+}
+
+function alignmentPositions(version: number): number[] {
+    if (version === 1) return []
+    const count = Math.floor(version / 7) + 2
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+    const positions = [6]
+    for (let pos = version * 4 + 17 - 7; positions.length < count; pos -= step) {
+        positions.splice(1, 0, pos)
+    }
+    return positions
+}
+
+// ============================================================================
+// ERROR CORRECTION
+// ============================================================================
+
+function gfMultiply(x: number, y: number): number {
+    let z = 0
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d)
+        z ^= ((y >>> i) & 1) * x
+    }
+    return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+    const result = new Array<number>(degree).fill(0)
+    result[degree - 1] = 1
+    let root = 1
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root)
+            if (j + 1 < result.length) result[j] ^= result[j + 1]
+        }
+        root = gfMultiply(root, 0x02)
+    }
+    return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = divisor.map(() => 0)
+    for (const byte of data) {
+        const factor = byte ^ result.shift()!
+        result.push(0)
+        divisor.forEach((coefficient, i) => {
+            result[i] ^= gfMultiply(coefficient, factor)
+        })
+    }
+    return result
+}
+
+/**
+ * Splits the data into blocks, appends each block's error correction and
+ * interleaves the result
+ */
+function interleave(data: number[], version: number): number[] {
+    const blockCount = EC_BLOCKS[version]
+    const ecLength = EC_CODEWORDS_PER_BLOCK[version]
+    const rawCodewords = Math.floor(rawDataModules(version) / 8)
+    const shortBlocks = blockCount - (rawCodewords % blockCount)
+    const shortBlockLength = Math.floor(rawCodewords / blockCount)
+    const divisor = reedSolomonDivisor(ecLength)
+
+    const blocks: number[][] = []
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+        const block = data.slice(offset, offset + shortBlockLength - ecLength + (i < shortBlocks ? 0 : 1))
+        offset += block.length
+        const ec = reedSolomonRemainder(block, divisor)
+        // Pad short blocks so every block lines up; the padding is skipped below
+        if (i < shortBlocks) block.push(0)
+        blocks.push(block.concat(ec))
+    }
+
+    const result: number[] = []
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortBlockLength - ecLength || j >= shortBlocks) result.push(block[i])
+        })
+    }
+    return result
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+function getBit(value: number, bit: number): boolean {
+    return ((value >>> bit) & 1) !== 0
+}
+
+function shouldMask(mask: number, x: number, y: number): boolean {
+    switch (mask) {
+        case 0: return (x + y) % 2 === 0
+        case 1: return y % 2 === 0
+        case 2: return x % 3 === 0
+        case 3: return (x + y) % 3 === 0
+        case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+        case 5: return ((x * y) % 2) + ((x * y) % 3) === 0
+        case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+        default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+    }
+}
+
+class QrBuilder {
+    readonly size: number
+    readonly modules: boolean[][]
+    private readonly reserved: boolean[][]
+
+    constructor(private readonly version: number) {
+        this.size = version * 4 + 17
+        this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+        this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    }
+
+    private set(x: number, y: number, dark: boolean) {
+        this.modules[y][x] = dark
+        this.reserved[y][x] = true
+    }
+
+    drawFunctionPatterns() {
+        const { size } = this
+        for (let i = 0; i < size; i++) {
+            this.set(6, i, i % 2 === 0)
+            this.set(i, 6, i % 2 === 0)
+        }
+
+        for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+            for (let dy = -4; dy <= 4; dy++) {
+                for (let dx = -4; dx <= 4; dx++) {
+                    const x = cx + dx
+                    const y = cy + dy
+                    const distance = Math.max(Math.abs(dx), Math.abs(dy))
+                    if (x >= 0 && x < size && y >= 0 && y < size) this.set(x, y, distance !== 2 && distance !== 4)
+                }
+            }
+        }
+
+        const positions = alignmentPositions(this.version)
+        const last = positions.length - 1
+        positions.forEach((cx, i) => positions.forEach((cy, j) => {
+            // Skip the three corners taken by finder patterns
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    this.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+                }
+            }
+        }))
+
+        this.drawFormatBits(0)
+        this.drawVersion()
+    }
+
+    drawFormatBits(mask: number) {
+        // Level M is 00, followed by the mask number, then a BCH code
+        const data = mask
+        let remainder = data
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+        const bits = ((data << 10) | remainder) ^ 0x5412
+        const { size } = this
+
+        for (let i = 0; i <= 5; i++) this.set(8, i, getBit(bits, i))
+        this.set(8, 7, getBit(bits, 6))
+        this.set(8, 8, getBit(bits, 7))
+        this.set(7, 8, getBit(bits, 8))
+        for (let i = 9; i < 15; i++) this.set(14 - i, 8, getBit(bits, i))
+
+        for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, getBit(bits, i))
+        for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, getBit(bits, i))
+        this.set(8, size - 8, true)
+    }
+
+    private drawVersion() {
+        if (this.version < 7) return
+        let remainder = this.version
+        for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+        const bits = (this.version << 12) | remainder
+
+        for (let i = 0; i < 18; i++) {
+            const a = this.size - 11 + (i % 3)
+            const b = Math.floor(i / 3)
+            this.set(a, b, getBit(bits, i))
+            this.set(b, a, getBit(bits, i))
+        }
+    }
+
+    /** Zigzags the codewords up and down column pairs from the bottom right */
+    drawCodewords(codewords: number[]) {
+        const { size } = this
+        let bit = 0
+        for (let right = size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5
+            for (let vertical = 0; vertical < size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j
+                    const upward = ((right + 1) & 2) === 0
+                    const y = upward ? size - 1 - vertical : vertical
+                    if (!this.reserved[y][x] && bit < codewords.length * 8) {
+                        this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7))
+                        bit++
+                    }
+                }
+            }
+        }
+    }
+
+    applyMask(mask: number) {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.reserved[y][x] && shouldMask(mask, x, y)) this.modules[y][x] = !this.modules[y][x]
+            }
+        }
+    }
+
+    /** Lower is easier to scan: long runs, 2x2 blocks, finder look-alikes and imbalance cost points */
+    penalty(): number {
+        const { size, modules } = this
+        let score = 0
+
+        const lines: string[] = []
+        for (let i = 0; i < size; i++) {
+            lines.push(modules[i].map(dark => (dark ? '1' : '0')).join(''))
+            lines.push(modules.map(row => (row[i] ? '1' : '0')).join(''))
+        }
+        for (const line of lines) {
+            for (const run of line.match(/0{5,}|1{5,}/g) ?? []) score += run.length - 2
+            score += (line.match(/(?=00001011101|10111010000)/g) ?? []).length * 40
+        }
+
+        for (let y = 0; y < size - 1; y++) {
+            for (let x = 0; x < size - 1; x++) {
+                const dark = modules[y][x]
+                if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) score += 3
+            }
+        }
+
+        const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+        const total = size * size
+        score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+        return score
+    }
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * The smallest QR code that holds the text, with the mask that scans best
+ */
+export function encodeQr(text: string): QrMatrix {
+    const bytes = Buffer.from(text, 'utf8')
+
+    let version = 1
+    const headerBits = (v: number) => 4 + (v < 10 ? 8 : 16)
+    while (version <= MAX_VERSION && headerBits(version) + bytes.length * 8 > dataCodewords(version) * 8) {
+        version++
+    }
+    if (version > MAX_VERSION) {
+        throw new Error('Text is too long for a QR code')
+    }
+
+    const bits: number[] = []
+    const push = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+    }
+    push(0b0100, 4)
+    push(bytes.length, headerBits(version) - 4)
+    bytes.forEach(byte => push(byte, 8))
+
+    const capacity = dataCodewords(version) * 8
+    push(0, Math.min(4, capacity - bits.length))
+    push(0, (8 - (bits.length % 8)) % 8)
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8)
+
+    const data: number[] = []
+    for (let i = 0; i < bits.length; i += 8) {
+        data.push(parseInt(bits.slice(i, i + 8).join(''), 2))
+    }
+    const codewords = interleave(data, version)
+
+    let best: QrBuilder | null = null
+    let bestPenalty = Infinity
+    for (let mask = 0; mask < 8; mask++) {
+        const builder = new QrBuilder(version)
+        builder.drawFunctionPatterns()
+        builder.drawCodewords(codewords)
+        builder.applyMask(mask)
+        builder.drawFormatBits(mask)
+        const penalty = builder.penalty()
+        if (penalty < bestPenalty) {
+            best = builder
+            bestPenalty = penalty
+        }
+    }
+
+    return best!.modules
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(data.length)
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data])
+    const crc = Buffer.alloc(4)
+    crc.writeUInt32BE(crc32(body))
+    return Buffer.concat([length, body, crc])
+}
+
+/**
+ * Greyscale PNG with a four module quiet zone, each module scale pixels wide
+ */
+export function qrToPng(matrix: QrMatrix, scale = 4): Buffer {
+    const quiet = 4
+    const width = (matrix.length + quiet * 2) * scale
+
+    const rows: Buffer[] = []
+    for (let py = 0; py < width; py++) {
+        const row = Buffer.alloc(width + 1, 0xff)
+        row[0] = 0 // filter: none
+        const y = Math.floor(py / scale) - quiet
+        for (let px = 0; px < width; px++) {
+            const x = Math.floor(px / scale) - quiet
+            if (matrix[y]?.[x]) row[px + 1] = 0
+        }
+        rows.push(row)
+    }
+
+    const header = Buffer.alloc(13)
+    header.writeUInt32BE(width, 0)
+    header.writeUInt32BE(width, 4)
+    header[8] = 8 // bit depth
+    header[9] = 0 // greyscale
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ])
+}
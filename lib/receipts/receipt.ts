@@ -0,0 +1,521 @@
+/**
+ * Receipts
+ * Builds a receipt from an order and its payments, and renders it as ESC/POS
+ * bytes for thermal printers, HTML for email and the browser, or an A4 PDF
+ */
+
+import { buildPdf, pdfText } from '../reports/formats'
+import { roundMoney, toNumber, type Numeric } from '../menu/pricing'
+import { encodeQr, type QrMatrix } from './qr'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const RECEIPT_TYPES = ['thermal_80mm', 'thermal_58mm', 'a4', 'email'] as const
+
+export type ReceiptType = (typeof RECEIPT_TYPES)[number]
+
+export const RECEIPT_FORMATS = ['escpos', 'pdf', 'html'] as const
+
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number]
+
+/** Characters per line in the printer's standard font */
+export const THERMAL_WIDTHS: Record<Extract<ReceiptType, 'thermal_80mm' | 'thermal_58mm'>, number> = {
+    thermal_80mm: 48,
+    thermal_58mm: 32,
+}
+
+export interface ReceiptTemplateContent {
+    headerContent: string
+    footerContent: string
+    showLogo: boolean
+    showQRCode: boolean
+}
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplateContent = {
+    headerContent: '',
+    footerContent: 'Thank you for dining with us!',
+    showLogo: true,
+    showQRCode: true,
+}
+
+export interface ReceiptBusiness {
+    name: string
+    address: string | null
+    phone: string | null
+    taxNumber: string | null
+    currencySymbol: string
+    logoUrl: string | null
+    timezone: string
+}
+
+export interface ReceiptTransaction {
+    status: string
+    amount: Numeric
+    tipAmount: Numeric
+    tenderedAmount: Numeric
+    refundedAmount: Numeric
+    isSplitPayment: boolean
+    splitIndex: number | null
+    cardBrand: string | null
+    cardLastFour: string | null
+    paymentMethod: { name: string; type: string }
+}
+
+export interface ReceiptOrder {
+    orderNumber: string
+    placedAt: Date
+    orderType: string
+    customerName: string | null
+    table: { tableNumber: string } | null
+    server: { name: string | null } | null
+    location: { name: string; address?: string | null; phone?: string | null }
+    orderItems: Array<{
+        name: string
+        variantName: string | null
+        quantity: number
+        totalPrice: Numeric
+        modifiers: unknown
+        specialInstructions: string | null
+    }>
+    subtotal: Numeric
+    discountAmount: Numeric
+    promotionDiscount: Numeric
+    loyaltyDiscount: Numeric
+    serviceCharge: Numeric
+    deliveryFee: Numeric
+    taxAmount: Numeric
+    tipAmount: Numeric
+    total: Numeric
+    transactions: ReceiptTransaction[]
+}
+
+export interface ReceiptAmount {
+    label: string
+    amount: number
+    /** Printed larger or in bold */
+    emphasis?: boolean
+}
+
+export interface Receipt {
+    currencySymbol: string
+    logoUrl: string | null
+    header: string[]
+    details: Array<[string, string]>
+    items: Array<{ quantity: number; name: string; amount: number; notes: string[] }>
+    totals: ReceiptAmount[]
+    payments: ReceiptAmount[]
+    changeDue: number
+    footer: string[]
+    qrUrl: string | null
+    /** Marks reprints so they cannot pass as a new sale */
+    banner: string | null
+}
+
+// Payments that took money, including ones later refunded in part or full
+const SETTLED_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED']
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function contentLines(content: string): string[] {
+    return content.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+}
+
+function modifierNames(modifiers: unknown): string[] {
+    if (!Array.isArray(modifiers)) return []
+    return modifiers
+        .map(modifier => (modifier && typeof modifier === 'object' ? (modifier as { name?: unknown }).name : null))
+        .filter((name): name is string => typeof name === 'string')
+}
+
+function formatDateTime(date: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+    }).format(date)
+}
+
+export function formatReceiptMoney(amount: number, currencySymbol: string): string {
+    return `${amount < 0 ? '-' : ''}${currencySymbol} ${Math.abs(amount).toFixed(2)}`
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+function paymentLabel(transaction: ReceiptTransaction, splitCount: number): string {
+    const parts = [transaction.paymentMethod.name]
+    if (transaction.cardBrand || transaction.cardLastFour) {
+        parts.push([transaction.cardBrand, transaction.cardLastFour && `****${transaction.cardLastFour}`].filter(Boolean).join(' '))
+    }
+    if (transaction.isSplitPayment && transaction.splitIndex) {
+        parts.push(`(${transaction.splitIndex}/${splitCount})`)
+    }
+    return parts.join(' ')
+}
+
+/**
+ * Everything printed on the receipt. Tax is shown against the amount it was
+ * charged on, tips are added after the bill total, and change is what cash
+ * payments were given back.
+ */
+export function buildReceipt(
+    order: ReceiptOrder,
+    business: ReceiptBusiness,
+    template: ReceiptTemplateContent = DEFAULT_RECEIPT_TEMPLATE,
+    options: { orderUrl?: string | null; banner?: string | null } = {}
+): Receipt {
+    const subtotal = toNumber(order.subtotal)
+    const discounts: ReceiptAmount[] = [
+        { label: 'Discount', amount: -toNumber(order.discountAmount) },
+        { label: 'Promotions', amount: -toNumber(order.promotionDiscount) },
+        { label: 'Loyalty points', amount: -toNumber(order.loyaltyDiscount) },
+    ].filter(line => line.amount !== 0)
+    const serviceCharge = toNumber(order.serviceCharge)
+    const deliveryFee = toNumber(order.deliveryFee)
+    const taxAmount = toNumber(order.taxAmount)
+    const total = toNumber(order.total)
+
+    const taxable = roundMoney(subtotal + discounts.reduce((sum, line) => sum + line.amount, 0) + serviceCharge)
+    const taxRate = taxable > 0 ? Math.round((taxAmount / taxable) * 10000) / 100 : 0
+
+    const settled = order.transactions.filter(t => SETTLED_STATUSES.includes(t.status))
+    const splitCount = settled.filter(t => t.isSplitPayment).length
+    const tip = roundMoney(settled.reduce((sum, t) => sum + toNumber(t.tipAmount), 0)) || toNumber(order.tipAmount)
+
+    const totals: ReceiptAmount[] = [
+        { label: 'Subtotal', amount: subtotal },
+        ...discounts,
+        ...(serviceCharge > 0 ? [{ label: 'Service charge', amount: serviceCharge }] : []),
+        ...(taxAmount > 0
+            ? [
+                { label: 'Taxable amount', amount: taxable },
+                { label: `Tax @ ${taxRate}%`, amount: taxAmount },
+            ]
+            : []),
+        ...(deliveryFee > 0 ? [{ label: 'Delivery fee', amount: deliveryFee }] : []),
+        { label: 'Total', amount: total, emphasis: true },
+        ...(tip > 0
+            ? [
+                { label: 'Tip', amount: tip },
+                { label: 'Total with tip', amount: roundMoney(total + tip), emphasis: true },
+            ]
+            : []),
+    ]
+
+    const payments: ReceiptAmount[] = []
+    let paid = 0
+    for (const transaction of settled) {
+        const amount = toNumber(transaction.amount) + toNumber(transaction.tipAmount)
+        const refunded = toNumber(transaction.refundedAmount)
+        const label = paymentLabel(transaction, splitCount)
+        payments.push({ label, amount })
+        if (refunded > 0) payments.push({ label: `Refund ${label}`, amount: -refunded })
+        paid += amount - refunded
+    }
+    paid = roundMoney(paid)
+    const balance = roundMoney(total + tip - paid)
+    if (payments.length > 0) payments.push({ label: 'Paid', amount: paid, emphasis: true })
+    if (balance > 0) payments.push({ label: 'Balance due', amount: balance, emphasis: true })
+
+    const changeDue = roundMoney(settled.reduce((sum, t) => {
+        const tendered = toNumber(t.tenderedAmount)
+        return tendered > 0 ? sum + Math.max(0, tendered - toNumber(t.amount) - toNumber(t.tipAmount)) : sum
+    }, 0))
+
+    const details: Array<[string, string]> = [
+        ['Order', order.orderNumber],
+        ['Date', formatDateTime(order.placedAt, business.timezone)],
+        ['Type', order.orderType.replace(/_/g, ' ')],
+    ]
+    if (order.table) details.push(['Table', order.table.tableNumber])
+    if (order.server?.name) details.push(['Server', order.server.name])
+    if (order.customerName) details.push(['Customer', order.customerName])
+
+    return {
+        currencySymbol: business.currencySymbol,
+        logoUrl: template.showLogo ? business.logoUrl : null,
+        header: [
+            business.name,
+            order.location.name !== business.name ? order.location.name : '',
+            order.location.address || business.address || '',
+            order.location.phone || business.phone || '',
+            business.taxNumber ? `Tax No: ${business.taxNumber}` : '',
+            ...contentLines(template.headerContent),
+        ].filter(Boolean),
+        details,
+        items: order.orderItems.map(item => ({
+            quantity: item.quantity,
+            name: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+            amount: toNumber(item.totalPrice),
+            notes: [...modifierNames(item.modifiers), ...(item.specialInstructions ? [item.specialInstructions] : [])],
+        })),
+        totals,
+        payments,
+        changeDue,
+        footer: contentLines(template.footerContent),
+        qrUrl: template.showQRCode && options.orderUrl ? options.orderUrl : null,
+        banner: options.banner ?? null,
+    }
+}
+
+// ============================================================================
+// PLAIN TEXT
+// ============================================================================
+
+function wrap(text: string, width: number): string[] {
+    const lines: string[] = []
+    let line = ''
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + 1 + word.length > width) {
+            lines.push(line)
+            line = ''
+        }
+        line = line ? `${line} ${word}` : word
+        while (line.length > width) {
+            lines.push(line.slice(0, width))
+            line = line.slice(width)
+        }
+    }
+    if (line) lines.push(line)
+    return lines
+}
+
+function center(text: string, width: number): string {
+    return ' '.repeat(Math.max(0, Math.floor((width - text.length) / 2))) + text
+}
+
+function columns(left: string, right: string, width: number): string[] {
+    const room = width - right.length - 1
+    const lines = wrap(left, Math.max(room, 1))
+    const last = lines.pop() ?? ''
+    return [...lines, last + ' '.repeat(Math.max(1, width - last.length - right.length)) + right]
+}
+
+export interface ReceiptTextLine {
+    text: string
+    align?: 'left' | 'center'
+    emphasis?: boolean
+}
+
+/**
+ * The receipt laid out in fixed-width lines, as printed on thermal paper and
+ * in the A4 PDF
+ */
+export function receiptTextLines(receipt: Receipt, width: number): ReceiptTextLine[] {
+    const money = (amount: number) => formatReceiptMoney(amount, receipt.currencySymbol)
+    const rule = { text: '-'.repeat(width) }
+    const lines: ReceiptTextLine[] = []
+
+    receipt.header.forEach((text, i) =>
+        wrap(text, width).forEach(part => lines.push({ text: part, align: 'center', emphasis: i === 0 }))
+    )
+    if (receipt.banner) lines.push({ text: `*** ${receipt.banner} ***`, align: 'center', emphasis: true })
+    lines.push(rule)
+    for (const [label, value] of receipt.details) {
+        columns(`${label}:`, value, width).forEach(text => lines.push({ text }))
+    }
+    lines.push(rule)
+
+    for (const item of receipt.items) {
+        columns(`${item.quantity} x ${item.name}`, money(item.amount), width).forEach(text => lines.push({ text }))
+        for (const note of item.notes) {
+            wrap(note, width - 4).forEach(part => lines.push({ text: `    ${part}` }))
+        }
+    }
+    lines.push(rule)
+
+    for (const line of receipt.totals) {
+        columns(line.label, money(line.amount), width).forEach(text => lines.push({ text, emphasis: line.emphasis }))
+    }
+    if (receipt.payments.length > 0) {
+        lines.push(rule)
+        for (const line of receipt.payments) {
+            columns(line.label, money(line.amount), width).forEach(text => lines.push({ text, emphasis: line.emphasis }))
+        }
+    }
+    if (receipt.changeDue > 0) {
+        columns('Change due', money(receipt.changeDue), width).forEach(text => lines.push({ text, emphasis: true }))
+    }
+
+    if (receipt.footer.length > 0) {
+        lines.push({ text: '' })
+        receipt.footer.forEach(text => wrap(text, width).forEach(part => lines.push({ text: part, align: 'center' })))
+    }
+
+    return lines.map(line => (line.align === 'center' ? { ...line, text: center(line.text, width) } : line))
+}
+
+// ============================================================================
+// ESC/POS
+// ============================================================================
+
+const ESC = 0x1b
+const GS = 0x1d
+const FS = 0x1c
+
+function escPosText(text: string): Buffer {
+    // The printer's default code page covers ASCII only
+    return Buffer.from(text.replace(/[^\x20-\x7e]/g, '?'), 'latin1')
+}
+
+/**
+ * Printer commands for a thermal receipt. The logo is the one stored in the
+ * printer's memory, and the printer draws the QR code itself.
+ */
+export function renderEscPos(receipt: Receipt, width: number): Buffer {
+    const parts: Buffer[] = [Buffer.from([ESC, 0x40])] // initialise
+    let emphasis = false
+
+    if (receipt.logoUrl) {
+        parts.push(Buffer.from([ESC, 0x61, 1, FS, 0x70, 1, 0, 0x0a, ESC, 0x61, 0]))
+    }
+
+    for (const line of receiptTextLines(receipt, width)) {
+        if (Boolean(line.emphasis) !== emphasis) {
+            emphasis = Boolean(line.emphasis)
+            parts.push(Buffer.from([ESC, 0x45, emphasis ? 1 : 0]))
+        }
+        parts.push(escPosText(line.text), Buffer.from([0x0a]))
+    }
+    if (emphasis) parts.push(Buffer.from([ESC, 0x45, 0]))
+
+    if (receipt.qrUrl) {
+        const data = Buffer.from(receipt.qrUrl, 'utf8')
+        const store = data.length + 3
+        parts.push(
+            Buffer.from([0x0a, ESC, 0x61, 1]),
+            Buffer.from([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0]), // model 2
+            Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, width >= 48 ? 6 : 4]), // module size
+            Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31]), // error correction M
+            Buffer.from([GS, 0x28, 0x6b, store & 0xff, store >> 8, 0x31, 0x50, 0x30]),
+            data,
+            Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30]), // print
+            Buffer.from([0x0a, ESC, 0x61, 0])
+        )
+    }
+
+    // Feed past the cutter and cut, leaving a hinge
+    parts.push(Buffer.from([GS, 0x56, 0x42, 3]))
+
+    return Buffer.concat(parts)
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+/**
+ * A self-contained receipt page. qrSrc is the image for the QR code: a data
+ * URL for the browser, or a cid: reference to an inline email attachment.
+ */
+export function renderReceiptHtml(receipt: Receipt, options: { qrSrc?: string | null } = {}): string {
+    const money = (amount: number) => escapeHtml(formatReceiptMoney(amount, receipt.currencySymbol))
+    const amountRows = (lines: ReceiptAmount[]) => lines.map(line =>
+        `<tr${line.emphasis ? ' style="font-weight: bold;"' : ''}><td>${escapeHtml(line.label)}</td>` +
+        `<td style="text-align: right;">${money(line.amount)}</td></tr>`
+    ).join('')
+    const rule = '<tr><td colspan="2"><hr style="border: 0; border-top: 1px dashed #999;"></td></tr>'
+
+    const header = receipt.header.map((line, i) =>
+        i === 0 ? `<h1 style="margin: 0; font-size: 20px;">${escapeHtml(line)}</h1>` : `<div>${escapeHtml(line)}</div>`
+    ).join('')
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(receipt.details[0]?.[1] ?? 'Receipt')}</title></head>
+<body style="margin: 0; padding: 24px; background: #f5f5f5; font-family: Arial, sans-serif; color: #111;">
+<div style="max-width: 420px; margin: 0 auto; background: #fff; padding: 24px;">
+<div style="text-align: center; font-size: 13px;">
+${receipt.logoUrl ? `<img src="${escapeHtml(receipt.logoUrl)}" alt="" style="max-height: 64px; margin-bottom: 8px;">` : ''}
+${header}
+${receipt.banner ? `<div style="margin-top: 8px; font-weight: bold;">*** ${escapeHtml(receipt.banner)} ***</div>` : ''}
+</div>
+<table style="width: 100%; border-collapse: collapse; font-size: 13px; margin-top: 12px;">
+${rule}
+${receipt.details.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td style="text-align: right;">${escapeHtml(value)}</td></tr>`).join('')}
+${rule}
+${receipt.items.map(item =>
+        `<tr><td>${item.quantity} x ${escapeHtml(item.name)}` +
+        item.notes.map(note => `<div style="color: #666; font-size: 12px; padding-left: 12px;">${escapeHtml(note)}</div>`).join('') +
+        `</td><td style="text-align: right; vertical-align: top;">${money(item.amount)}</td></tr>`
+    ).join('')}
+${rule}
+${amountRows(receipt.totals)}
+${receipt.payments.length > 0 ? rule + amountRows(receipt.payments) : ''}
+${receipt.changeDue > 0 ? amountRows([{ label: 'Change due', amount: receipt.changeDue, emphasis: true }]) : ''}
+</table>
+${receipt.qrUrl && options.qrSrc ? `<div style="text-align: center; margin-top: 16px;"><a href="${escapeHtml(receipt.qrUrl)}"><img src="${escapeHtml(options.qrSrc)}" alt="View your order" width="132" height="132"></a></div>` : ''}
+${receipt.footer.length > 0 ? `<div style="text-align: center; font-size: 13px; margin-top: 16px;">${receipt.footer.map(escapeHtml).join('<br>')}</div>` : ''}
+</div>
+</body>
+</html>`
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PDF_RECEIPT_WIDTH = 60
+const PDF_LINES_PER_PAGE = 64
+
+function qrPdfPath(matrix: QrMatrix, left: number, top: number, moduleSize: number): string {
+    const rects: string[] = []
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) rects.push(`${left + x * moduleSize} ${top - (y + 1) * moduleSize} ${moduleSize} ${moduleSize} re`)
+    }))
+    return rects.length > 0 ? `0 g\n${rects.join('\n')}\nf` : ''
+}
+
+/**
+ * The receipt on A4, centred in Courier, with the QR code drawn below it
+ */
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+    const lines = receiptTextLines(receipt, PDF_RECEIPT_WIDTH)
+    const left = Math.round((595 - PDF_RECEIPT_WIDTH * 6) / 2)
+    const streams: string[] = []
+
+    for (let i = 0; i < lines.length; i += PDF_LINES_PER_PAGE) {
+        const page = lines.slice(i, i + PDF_LINES_PER_PAGE)
+        const text = [
+            'BT', '/F1 10 Tf', '12 TL', `${left} 800 Td`,
+            ...page.map(line => `(${pdfText(line.text)}) '`),
+            'ET',
+        ]
+        // Bold by overprinting with a slight offset
+        const bold = page.flatMap((line, j) => line.emphasis
+            ? ['BT', '/F1 10 Tf', `${left + 0.4} ${788 - j * 12} Td`, `(${pdfText(line.text)}) Tj`, 'ET']
+            : [])
+        streams.push([...text, ...bold].join('\n'))
+    }
+
+    if (receipt.qrUrl) {
+        const matrix = encodeQr(receipt.qrUrl)
+        const moduleSize = 3
+        const usedLines = lines.length % PDF_LINES_PER_PAGE
+        const top = 788 - usedLines * 12 - 24
+        const qrLeft = Math.round((595 - matrix.length * moduleSize) / 2)
+        if (usedLines > 0 && top - matrix.length * moduleSize > 40) {
+            streams[streams.length - 1] += '\n' + qrPdfPath(matrix, qrLeft, top, moduleSize)
+        } else {
+            streams.push(qrPdfPath(matrix, qrLeft, 800, moduleSize))
+        }
+    }
+
+    return buildPdf(streams)
+}
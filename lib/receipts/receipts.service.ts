@@ -0,0 +1,173 @@
+/**
+ * Receipts Service
+ * Loads an order with its payments, picks the receipt template for its
+ * location and renders or emails the receipt
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { sendEmail } from '@/lib/email/service'
+import { encodeQr, qrToPng } from './qr'
+import {
+    DEFAULT_RECEIPT_TEMPLATE,
+    THERMAL_WIDTHS,
+    buildReceipt,
+    renderEscPos,
+    renderReceiptHtml,
+    renderReceiptPdf,
+    type Receipt,
+    type ReceiptFormat,
+    type ReceiptTemplateContent,
+    type ReceiptType,
+} from './receipt'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RenderedReceipt {
+    content: Buffer
+    contentType: string
+    fileName: string
+}
+
+const DEFAULT_FORMATS: Record<ReceiptType, ReceiptFormat> = {
+    thermal_80mm: 'escpos',
+    thermal_58mm: 'escpos',
+    a4: 'pdf',
+    email: 'html',
+}
+
+const QR_CID = 'receipt-qr'
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * The location's default template for the type, then the organisation-wide
+ * default, then any active template for the location, else the built-in one
+ */
+export async function resolveReceiptTemplate(locationId: string, type: ReceiptType): Promise<ReceiptTemplateContent> {
+    const templates = await prisma.receiptTemplate.findMany({
+        where: { type, isActive: true, OR: [{ locationId }, { locationId: null }] },
+        orderBy: { updatedAt: 'desc' },
+    })
+
+    return templates.find(t => t.locationId === locationId && t.isDefault)
+        ?? templates.find(t => t.locationId === null && t.isDefault)
+        ?? templates.find(t => t.locationId === locationId)
+        ?? DEFAULT_RECEIPT_TEMPLATE
+}
+
+/**
+ * Link printed as the receipt's QR code
+ */
+export function orderUrl(orderNumber: string): string {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    return `${appUrl}/orders?order=${encodeURIComponent(orderNumber)}`
+}
+
+export async function loadReceipt(
+    orderId: string,
+    type: ReceiptType,
+    options: { banner?: string | null } = {}
+): Promise<{ receipt: Receipt; orderNumber: string; customerEmail: string | null }> {
+    const [order, settings, branding] = await Promise.all([
+        prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                orderItems: true,
+                table: { select: { tableNumber: true } },
+                server: { select: { name: true } },
+                location: { select: { name: true, address: true, phone: true, timezone: true } },
+                transactions: {
+                    include: { paymentMethod: { select: { name: true, type: true } } },
+                    orderBy: { createdAt: 'asc' },
+                },
+            },
+        }),
+        prisma.restaurantSettings.findFirst(),
+        prisma.brandingConfig.findFirst({ select: { logoUrl: true } }),
+    ])
+    if (!order) {
+        throw new Error('Order not found')
+    }
+
+    const template = await resolveReceiptTemplate(order.locationId, type)
+    const receipt = buildReceipt(order, {
+        name: settings?.name || 'Restaurant',
+        address: settings?.address || null,
+        phone: settings?.phone || null,
+        taxNumber: settings?.taxNumber || null,
+        currencySymbol: settings?.currencySymbol || 'Rs.',
+        logoUrl: branding?.logoUrl || null,
+        timezone: order.location.timezone || settings?.timezone || 'Asia/Karachi',
+    }, template, { orderUrl: orderUrl(order.orderNumber), banner: options.banner })
+
+    return { receipt, orderNumber: order.orderNumber, customerEmail: order.customerEmail }
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Thermal receipts default to printer bytes, A4 to PDF and email to HTML
+ */
+export async function renderOrderReceipt(
+    orderId: string,
+    type: ReceiptType,
+    options: { format?: ReceiptFormat; banner?: string | null } = {}
+): Promise<RenderedReceipt> {
+    const { receipt, orderNumber } = await loadReceipt(orderId, type, options)
+    const format = options.format ?? DEFAULT_FORMATS[type]
+
+    switch (format) {
+        case 'escpos': {
+            const width = type === 'thermal_58mm' ? THERMAL_WIDTHS.thermal_58mm : THERMAL_WIDTHS.thermal_80mm
+            return {
+                content: renderEscPos(receipt, width),
+                contentType: 'application/octet-stream',
+                fileName: `${orderNumber}.bin`,
+            }
+        }
+        case 'pdf':
+            return { content: renderReceiptPdf(receipt), contentType: 'application/pdf', fileName: `${orderNumber}.pdf` }
+        case 'html': {
+            const qrSrc = receipt.qrUrl
+                ? `data:image/png;base64,${qrToPng(encodeQr(receipt.qrUrl)).toString('base64')}`
+                : null
+            return {
+                content: Buffer.from(renderReceiptHtml(receipt, { qrSrc }), 'utf8'),
+                contentType: 'text/html; charset=utf-8',
+                fileName: `${orderNumber}.html`,
+            }
+        }
+    }
+}
+
+/**
+ * Emails the receipt using the email template, with the QR code as an inline
+ * image since most mail clients block data URLs
+ */
+export async function emailOrderReceipt(orderId: string, to?: string | null) {
+    const { receipt, orderNumber, customerEmail } = await loadReceipt(orderId, 'email')
+    const recipient = to || customerEmail
+    if (!recipient) {
+        throw new Error('No email address for this order')
+    }
+
+    const result = await sendEmail({
+        to: recipient,
+        subject: `Your receipt for order ${orderNumber}`,
+        html: renderReceiptHtml(receipt, { qrSrc: receipt.qrUrl ? `cid:${QR_CID}` : null }),
+        attachments: receipt.qrUrl
+            ? [{ filename: 'order-qr.png', content: qrToPng(encodeQr(receipt.qrUrl)), contentType: 'image/png', cid: QR_CID }]
+            : [],
+    })
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to send receipt')
+    }
+
+    return { to: recipient }
+}
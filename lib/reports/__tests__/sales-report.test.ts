@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { inflateRawSync } from 'zlib'
+import {
+  buildSalesReport,
+  getBusinessDayRange,
+  toReportDocument,
+  type ReportOrder,
+} from '../sales-report'
+import { renderCsv, renderPdf, renderXlsx } from '../formats'
+
+const order = (overrides: Partial<ReportOrder> = {}): ReportOrder => ({
+  orderNumber: 'A-1',
+  status: 'COMPLETED',
+  orderType: 'DINE_IN',
+  orderSource: 'POS',
+  serverName: 'Sara',
+  placedAt: new Date('2026-03-10T08:30:00Z'),
+  subtotal: 1000,
+  discountAmount: 100,
+  promotionDiscount: 50,
+  loyaltyDiscount: 0,
+  taxAmount: 136,
+  serviceCharge: 0,
+  tipAmount: 0,
+  deliveryFee: 0,
+  total: 986,
+  items: [
+    { name: 'Pizza', categoryName: 'Mains', quantity: 1, totalPrice: 800, status: 'served' },
+    { name: 'Cola', categoryName: 'Drinks', quantity: 2, totalPrice: 200, status: 'served' },
+  ],
+  ...overrides,
+})
+
+const report = () => buildSalesReport({
+  locationName: 'Clifton, "Main"',
+  businessDate: '2026-03-10',
+  timeZone: 'Asia/Karachi',
+  orders: [
+    order(),
+    order({
+      orderNumber: 'A-2', orderType: 'TAKEAWAY', serverName: null, placedAt: new Date('2026-03-10T14:05:00Z'),
+      subtotal: 400, discountAmount: 0, promotionDiscount: 0, taxAmount: 64, total: 464,
+      items: [{ name: 'Cola', categoryName: 'Drinks', quantity: 4, totalPrice: 400, status: 'served' }],
+    }),
+    order({ orderNumber: 'A-3', status: 'CANCELLED', total: 500 }),
+  ],
+  payments: [
+    { methodName: 'Cash', amount: 986, tipAmount: 50 },
+    { methodName: 'Card', amount: 464, tipAmount: 0 },
+  ],
+  refunds: [{ methodName: 'Card', amount: 64 }],
+})
+
+describe('getBusinessDayRange', () => {
+  it('spans the local calendar day', () => {
+    const { start, end } = getBusinessDayRange('2026-03-10', 'Asia/Karachi')
+    expect(start.toISOString()).toBe('2026-03-09T19:00:00.000Z')
+    expect(end.toISOString()).toBe('2026-03-10T19:00:00.000Z')
+  })
+
+  it('is 23 hours long on a spring-forward day', () => {
+    const { start, end } = getBusinessDayRange('2026-03-08', 'America/New_York')
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z')
+    expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60 * 1000)
+  })
+})
+
+describe('buildSalesReport', () => {
+  it('totals sales, discounts, refunds and voids', () => {
+    const { summary } = report()
+    expect(summary).toMatchObject({
+      orderCount: 2,
+      voidCount: 1,
+      voidTotal: 500,
+      grossSales: 1400,
+      discounts: 100,
+      promotions: 50,
+      netSales: 1250,
+      tax: 200,
+      total: 1450,
+      refunds: 64,
+      averageOrder: 725,
+    })
+  })
+
+  it('breaks sales down by local hour, category, server and payment method', () => {
+    const sales = report()
+    expect(sales.byHour.map(row => row.label)).toEqual(['13:00', '19:00'])
+    expect(sales.byCategory).toContainEqual({ label: 'Drinks', orders: 2, quantity: 6, sales: 600 })
+    expect(sales.byServer.map(row => row.label)).toEqual(['Sara', 'Online'])
+    expect(sales.byPaymentMethod).toEqual([
+      { label: 'Cash', payments: 1, amount: 986, tips: 50, refunds: 0, net: 1036 },
+      { label: 'Card', payments: 1, amount: 464, tips: 0, refunds: 64, net: 400 },
+    ])
+  })
+})
+
+describe('report formats', () => {
+  it('quotes CSV fields that need it', () => {
+    const csv = renderCsv(toReportDocument(report(), 'z-report')).toString('utf8')
+    expect(csv).toContain('"Z-Report - Clifton, ""Main"""')
+    expect(csv).toContain('Net sales,1250')
+  })
+
+  it('packs one worksheet per table into a readable zip', () => {
+    const xlsx = renderXlsx(toReportDocument(report(), 'daily-sales'))
+    expect(xlsx.readUInt32LE(0)).toBe(0x04034B50)
+
+    // First entry is the content types part; inflate it back to check the sheets
+    const nameLength = xlsx.readUInt16LE(26)
+    const size = xlsx.readUInt32LE(18)
+    const name = xlsx.subarray(30, 30 + nameLength).toString()
+    const data = inflateRawSync(xlsx.subarray(30 + nameLength, 30 + nameLength + size)).toString()
+    expect(name).toBe('[Content_Types].xml')
+    expect(data.match(/worksheets\/sheet\d+\.xml/g)).toHaveLength(8)
+  })
+
+  it('writes a PDF with a valid trailer', () => {
+    const pdf = renderPdf(toReportDocument(report(), 'z-report')).toString('latin1')
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1])
+    expect(pdf.slice(xref, xref + 4)).toBe('xref')
+  })
+})
@@ -0,0 +1,350 @@
+/**
+ * Report Formats
+ * Writes a report document as CSV, XLSX or PDF without external libraries
+ */
+
+import { deflateRawSync } from 'zlib'
+import type { ReportDocument } from './sales-report'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const REPORT_FORMATS = ['CSV', 'XLSX', 'PDF'] as const
+
+export type ReportFileFormat = (typeof REPORT_FORMATS)[number]
+
+export interface RenderedReport {
+    content: Buffer
+    contentType: string
+    extension: string
+}
+
+type Cell = string | number
+
+function formatCell(value: Cell): string {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? String(value) : value.toFixed(2)
+    }
+    return value
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvField(value: Cell): string {
+    const text = formatCell(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Tables one after another, each under its title and separated by a blank line
+ */
+export function renderCsv(doc: ReportDocument): Buffer {
+    const lines: string[] = [csvField(doc.title), csvField(doc.subtitle)]
+
+    for (const table of doc.tables) {
+        lines.push('', csvField(table.title), table.columns.map(csvField).join(','))
+        for (const row of table.rows) {
+            lines.push(row.map(csvField).join(','))
+        }
+    }
+
+    // BOM so spreadsheet apps read the file as UTF-8
+    return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8')
+}
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+        }
+        table[n] = c >>> 0
+    }
+    return table
+})()
+
+export function crc32(data: Buffer): number {
+    let crc = 0xFFFFFFFF
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+/**
+ * Minimal deflate zip archive, enough for an XLSX package
+ */
+export function createZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+    const locals: Buffer[] = []
+    const centrals: Buffer[] = []
+    let offset = 0
+
+    for (const file of files) {
+        const name = Buffer.from(file.name, 'utf8')
+        const compressed = deflateRawSync(file.data)
+        const crc = crc32(file.data)
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(0x04034B50, 0)
+        local.writeUInt16LE(20, 4)
+        local.writeUInt16LE(0x0800, 6)
+        local.writeUInt16LE(8, 8)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(compressed.length, 18)
+        local.writeUInt32LE(file.data.length, 22)
+        local.writeUInt16LE(name.length, 26)
+
+        const central = Buffer.alloc(46)
+        central.writeUInt32LE(0x02014B50, 0)
+        central.writeUInt16LE(20, 4)
+        central.writeUInt16LE(20, 6)
+        central.writeUInt16LE(0x0800, 8)
+        central.writeUInt16LE(8, 10)
+        central.writeUInt32LE(crc, 16)
+        central.writeUInt32LE(compressed.length, 20)
+        central.writeUInt32LE(file.data.length, 24)
+        central.writeUInt16LE(name.length, 28)
+        central.writeUInt32LE(offset, 42)
+
+        locals.push(local, name, compressed)
+        centrals.push(central, name)
+        offset += local.length + name.length + compressed.length
+    }
+
+    const directory = Buffer.concat(centrals)
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054B50, 0)
+    end.writeUInt16LE(files.length, 8)
+    end.writeUInt16LE(files.length, 10)
+    end.writeUInt32LE(directory.length, 12)
+    end.writeUInt32LE(offset, 16)
+
+    return Buffer.concat([...locals, directory, end])
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function xmlEscape(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function columnName(index: number): string {
+    let name = ''
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+    }
+    return name
+}
+
+function sheetXml(rows: Cell[][]): string {
+    const body = rows.map((row, r) => {
+        const cells = row.map((value, c) => {
+            const ref = `${columnName(c)}${r + 1}`
+            return typeof value === 'number'
+                ? `<c r="${ref}"><v>${value}</v></c>`
+                : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`
+        }).join('')
+        return `<row r="${r + 1}">${cells}</row>`
+    }).join('')
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${body}</sheetData></worksheet>`
+}
+
+function sheetName(title: string, used: Set<string>): string {
+    const base = title.replace(/[\[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet'
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+        name = `${base.slice(0, 28)} ${n}`
+    }
+    used.add(name.toLowerCase())
+    return name
+}
+
+/**
+ * One worksheet per table. The first sheet also carries the report title.
+ */
+export function renderXlsx(doc: ReportDocument): Buffer {
+    const used = new Set<string>()
+    const sheets = doc.tables.map((table, index) => ({
+        name: sheetName(table.title, used),
+        rows: [
+            ...(index === 0 ? [[doc.title], [doc.subtitle], []] : []),
+            table.columns,
+            ...table.rows,
+        ] as Cell[][],
+    }))
+
+    const xml = (text: string) => Buffer.from(text, 'utf8')
+    const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+    return createZip([
+        {
+            name: '[Content_Types].xml',
+            data: xml(header +
+                '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+                '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+                '<Default Extension="xml" ContentType="application/xml"/>' +
+                '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+                sheets.map((_, i) =>
+                    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+                ).join('') +
+                '</Types>'),
+        },
+        {
+            name: '_rels/.rels',
+            data: xml(header +
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+                '</Relationships>'),
+        },
+        {
+            name: 'xl/workbook.xml',
+            data: xml(header +
+                '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+                'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+                sheets.map((sheet, i) =>
+                    `<sheet name="${xmlEscape(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+                ).join('') +
+                '</sheets></workbook>'),
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            data: xml(header +
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                sheets.map((_, i) =>
+                    `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+                ).join('') +
+                '</Relationships>'),
+        },
+        ...sheets.map((sheet, i) => ({
+            name: `xl/worksheets/sheet${i + 1}.xml`,
+            data: xml(sheetXml(sheet.rows)),
+        })),
+    ])
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PDF_LINES_PER_PAGE = 64
+const PDF_MAX_COLUMN_WIDTH = 32
+
+export function pdfText(text: string): string {
+    // Standard fonts only cover Latin-1; anything else prints as '?'
+    return text
+        .replace(/[^\x20-\xFF]/g, '?')
+        .replace(/\\/g, '\\\\')
+        .replace(/\(/g, '\\(')
+        .replace(/\)/g, '\\)')
+}
+
+function textLines(doc: ReportDocument): string[] {
+    const lines = [doc.title, doc.subtitle]
+
+    for (const table of doc.tables) {
+        const cells = [table.columns, ...table.rows].map(row => row.map(formatCell))
+        const widths = table.columns.map((_, c) =>
+            Math.min(Math.max(...cells.map(row => (row[c] ?? '').length)), PDF_MAX_COLUMN_WIDTH)
+        )
+        const format = (row: string[]) => row.map((text, c) => {
+            const clipped = text.length > widths[c] ? text.slice(0, widths[c] - 1) + '~' : text
+            // Labels left, figures right
+            return c === 0 ? clipped.padEnd(widths[c]) : clipped.padStart(widths[c])
+        }).join('  ')
+
+        lines.push('', table.title.toUpperCase(), format(cells[0]), '-'.repeat(format(cells[0]).length))
+        lines.push(...cells.slice(1).map(format))
+    }
+
+    return lines
+}
+
+/**
+ * Assembles A4 pages from their content streams, with Courier as /F1
+ */
+export function buildPdf(streams: string[]): Buffer {
+    // Objects: 1 catalog, 2 page tree, 3 font, then a page and its content stream per page
+    const objects: string[] = []
+    const pageIds = streams.map((_, i) => 4 + i * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${streams.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'
+
+    streams.forEach((stream, i) => {
+        objects[pageIds[i]] = '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ' +
+            `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+        objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    })
+
+    let pdf = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(pdf, 'latin1')
+        pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xref = Buffer.byteLength(pdf, 'latin1')
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+        pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return Buffer.from(pdf, 'latin1')
+}
+
+/**
+ * Plain monospaced A4 pages, paginated by line count
+ */
+export function renderPdf(doc: ReportDocument): Buffer {
+    const lines = textLines(doc)
+    const streams: string[] = []
+    for (let i = 0; i < lines.length; i += PDF_LINES_PER_PAGE) {
+        streams.push([
+            'BT', '/F1 9 Tf', '11 TL', '40 800 Td',
+            ...lines.slice(i, i + PDF_LINES_PER_PAGE).map(line => `(${pdfText(line)}) '`),
+            'ET',
+        ].join('\n'))
+    }
+
+    return buildPdf(streams)
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+export function renderReport(doc: ReportDocument, format: ReportFileFormat): RenderedReport {
+    switch (format) {
+        case 'CSV':
+            return { content: renderCsv(doc), contentType: 'text/csv; charset=utf-8', extension: 'csv' }
+        case 'XLSX':
+            return {
+                content: renderXlsx(doc),
+                contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                extension: 'xlsx',
+            }
+        case 'PDF':
+            return { content: renderPdf(doc), contentType: 'application/pdf', extension: 'pdf' }
+    }
+}
@@ -0,0 +1,3 @@
+export * from './sales-report'
+export * from './formats'
+export * from './reports.service'
@@ -0,0 +1,269 @@
+/**
+ * Reports Service
+ * Queues, generates, stores and emails sales reports
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Prisma, ReportFormat, ReportStatus } from '@prisma/client'
+import { sendEmail } from '@/lib/email/service'
+import {
+    buildSalesReport,
+    getBusinessDayRange,
+    toReportDocument,
+    type ReportType,
+} from './sales-report'
+import { renderReport } from './formats'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReportRequest {
+    type: ReportType
+    locationId: string
+    businessDate: string
+    format: ReportFormat
+    emailTo?: string
+    requestedById?: string
+}
+
+export interface ReportFilters {
+    locationId?: string
+    type?: string
+    status?: string
+    page: number
+    limit: number
+}
+
+/** Everything but the file itself, for listings */
+const REPORT_SELECT = {
+    id: true,
+    type: true,
+    locationId: true,
+    location: { select: { id: true, name: true } },
+    businessDate: true,
+    format: true,
+    status: true,
+    fileName: true,
+    summary: true,
+    error: true,
+    emailTo: true,
+    emailedAt: true,
+    requestedById: true,
+    createdAt: true,
+    completedAt: true,
+} satisfies Prisma.ReportSelect
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/**
+ * Records a report request; the caller queues it for generation
+ */
+export async function createReport(input: ReportRequest) {
+    return prisma.report.create({
+        data: {
+            type: input.type,
+            locationId: input.locationId,
+            businessDate: input.businessDate,
+            format: input.format,
+            emailTo: input.emailTo,
+            requestedById: input.requestedById,
+        },
+        select: REPORT_SELECT,
+    })
+}
+
+export async function listReports(filters: ReportFilters) {
+    const where: Prisma.ReportWhereInput = {
+        ...(filters.locationId && { locationId: filters.locationId }),
+        ...(filters.type && { type: filters.type }),
+        ...(filters.status && { status: filters.status as ReportStatus }),
+    }
+
+    const [reports, total] = await Promise.all([
+        prisma.report.findMany({
+            where,
+            select: REPORT_SELECT,
+            orderBy: { createdAt: 'desc' },
+            skip: (filters.page - 1) * filters.limit,
+            take: filters.limit,
+        }),
+        prisma.report.count({ where }),
+    ])
+
+    return {
+        reports,
+        pagination: {
+            page: filters.page,
+            limit: filters.limit,
+            total,
+            totalPages: Math.ceil(total / filters.limit),
+        },
+    }
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+function displayName(user: { name: string | null; firstName: string | null; lastName: string | null; email: string }) {
+    return user.name || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+}
+
+async function loadSalesReport(locationId: string, businessDate: string) {
+    const location = await prisma.location.findUniqueOrThrow({
+        where: { id: locationId },
+        select: { name: true, timezone: true },
+    })
+    const { start, end } = getBusinessDayRange(businessDate, location.timezone)
+
+    const [orders, payments, refunds] = await Promise.all([
+        prisma.order.findMany({
+            where: { locationId, placedAt: { gte: start, lt: end } },
+            include: {
+                server: { select: { name: true, firstName: true, lastName: true, email: true } },
+                orderItems: {
+                    select: {
+                        name: true,
+                        quantity: true,
+                        totalPrice: true,
+                        status: true,
+                        menuItem: { select: { category: { select: { name: true } } } },
+                    },
+                },
+            },
+        }),
+        // Payments taken that day; ones never stamped as processed fall back to when they were created
+        prisma.transaction.findMany({
+            where: {
+                order: { locationId },
+                status: { in: ['COMPLETED', 'REFUNDED', 'PARTIALLY_REFUNDED'] },
+                OR: [
+                    { processedAt: { gte: start, lt: end } },
+                    { processedAt: null, createdAt: { gte: start, lt: end } },
+                ],
+            },
+            select: { amount: true, tipAmount: true, paymentMethod: { select: { name: true } } },
+        }),
+        prisma.transaction.findMany({
+            where: {
+                order: { locationId },
+                refundedAmount: { gt: 0 },
+                refundedAt: { gte: start, lt: end },
+            },
+            select: { refundedAmount: true, paymentMethod: { select: { name: true } } },
+        }),
+    ])
+
+    return buildSalesReport({
+        locationName: location.name,
+        businessDate,
+        timeZone: location.timezone,
+        orders: orders.map(order => ({
+            ...order,
+            serverName: order.server ? displayName(order.server) : null,
+            items: order.orderItems.map(item => ({
+                ...item,
+                categoryName: item.menuItem.category?.name ?? 'Uncategorized',
+            })),
+        })),
+        payments: payments.map(payment => ({ ...payment, methodName: payment.paymentMethod.name })),
+        refunds: refunds.map(refund => ({ amount: refund.refundedAmount, methodName: refund.paymentMethod.name })),
+    })
+}
+
+/**
+ * Builds and stores the file for a queued report, then emails it when the
+ * request asked for that. Failures are recorded on the report and rethrown
+ * so the queue can retry.
+ */
+export async function generateReport(reportId: string) {
+    const report = await prisma.report.update({
+        where: { id: reportId },
+        data: { status: 'PROCESSING', error: null },
+    })
+
+    try {
+        const sales = await loadSalesReport(report.locationId, report.businessDate)
+        const rendered = renderReport(toReportDocument(sales, report.type as ReportType), report.format)
+        const fileName = `${report.type}-${report.businessDate}-${report.id.slice(-6)}.${rendered.extension}`
+
+        await prisma.report.update({
+            where: { id: reportId },
+            data: {
+                status: 'READY',
+                fileName,
+                contentType: rendered.contentType,
+                content: rendered.content,
+                summary: sales.summary as unknown as Prisma.InputJsonValue,
+                completedAt: new Date(),
+            },
+        })
+    } catch (error) {
+        await prisma.report.update({
+            where: { id: reportId },
+            data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+        })
+        throw error
+    }
+
+    // The file is kept even when mailing it fails; it can be resent from the dashboard
+    if (report.emailTo) {
+        try {
+            await emailReport(reportId, report.emailTo)
+        } catch (error) {
+            await prisma.report.update({
+                where: { id: reportId },
+                data: { error: `Email failed: ${error instanceof Error ? error.message : String(error)}` },
+            })
+        }
+    }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+export async function getReportFile(reportId: string) {
+    return prisma.report.findUnique({
+        where: { id: reportId },
+        select: { locationId: true, status: true, fileName: true, contentType: true, content: true },
+    })
+}
+
+/**
+ * Sends a finished report as an attachment
+ */
+export async function emailReport(reportId: string, to: string) {
+    const report = await prisma.report.findUniqueOrThrow({
+        where: { id: reportId },
+        include: { location: { select: { name: true } } },
+    })
+
+    if (report.status !== 'READY' || !report.content || !report.fileName) {
+        throw new Error('Report is not ready')
+    }
+
+    const title = report.type === 'z-report' ? 'Z-Report' : 'Daily Sales Report'
+    const result = await sendEmail({
+        to,
+        subject: `${title} - ${report.location.name} - ${report.businessDate}`,
+        html: `<p>The ${title.toLowerCase()} for ${report.location.name} on ${report.businessDate} is attached.</p>`,
+        attachments: [{
+            filename: report.fileName,
+            content: Buffer.from(report.content),
+            contentType: report.contentType ?? undefined,
+        }],
+    })
+
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to send report email')
+    }
+
+    await prisma.report.update({
+        where: { id: reportId },
+        data: { emailTo: to, emailedAt: new Date(), error: null },
+    })
+}
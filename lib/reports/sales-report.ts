@@ -0,0 +1,367 @@
+/**
+ * Sales Reports
+ * Business-day totals and breakdowns for daily sales and Z-reports
+ */
+
+import { roundMoney } from '../menu/pricing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const REPORT_TYPES = ['daily-sales', 'z-report'] as const
+
+export type ReportType = (typeof REPORT_TYPES)[number]
+
+type DecimalLike = number | string | { toString(): string }
+
+export interface ReportOrderItem {
+    name: string
+    categoryName: string
+    quantity: number
+    totalPrice: DecimalLike
+    status: string
+}
+
+export interface ReportOrder {
+    orderNumber: string
+    status: string
+    orderType: string
+    orderSource: string
+    serverName: string | null
+    placedAt: Date
+    subtotal: DecimalLike
+    discountAmount: DecimalLike
+    promotionDiscount: DecimalLike
+    loyaltyDiscount: DecimalLike
+    taxAmount: DecimalLike
+    serviceCharge: DecimalLike
+    tipAmount: DecimalLike
+    deliveryFee: DecimalLike
+    total: DecimalLike
+    items: ReportOrderItem[]
+}
+
+export interface ReportPayment {
+    methodName: string
+    amount: DecimalLike
+    tipAmount: DecimalLike
+}
+
+export interface ReportRefund {
+    methodName: string
+    amount: DecimalLike
+}
+
+export interface SalesSummary {
+    orderCount: number
+    voidCount: number
+    voidTotal: number
+    grossSales: number
+    discounts: number
+    promotions: number
+    loyaltyRedemptions: number
+    netSales: number
+    tax: number
+    serviceCharge: number
+    deliveryFees: number
+    tips: number
+    total: number
+    refundCount: number
+    refunds: number
+    averageOrder: number
+}
+
+export interface SalesBreakdownRow {
+    label: string
+    orders: number
+    quantity: number
+    sales: number
+}
+
+export interface PaymentBreakdownRow {
+    label: string
+    payments: number
+    amount: number
+    tips: number
+    refunds: number
+    net: number
+}
+
+export interface SalesReport {
+    locationName: string
+    businessDate: string
+    timeZone: string
+    summary: SalesSummary
+    byHour: SalesBreakdownRow[]
+    byCategory: SalesBreakdownRow[]
+    byItem: SalesBreakdownRow[]
+    byOrderType: SalesBreakdownRow[]
+    bySource: SalesBreakdownRow[]
+    byServer: SalesBreakdownRow[]
+    byPaymentMethod: PaymentBreakdownRow[]
+}
+
+/**
+ * Format-neutral layout handed to the CSV, XLSX and PDF writers
+ */
+export interface ReportDocument {
+    title: string
+    subtitle: string
+    tables: Array<{
+        title: string
+        columns: string[]
+        rows: Array<Array<string | number>>
+    }>
+}
+
+// ============================================================================
+// BUSINESS DAY
+// ============================================================================
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    const options: Intl.DateTimeFormatOptions = {
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+    }
+    try {
+        return new Intl.DateTimeFormat('en-CA', { ...options, timeZone })
+    } catch {
+        return new Intl.DateTimeFormat('en-CA', { ...options, timeZone: 'UTC' })
+    }
+}
+
+/**
+ * Wall-clock time at the instant in the timezone, read back as if it were UTC
+ */
+function toWallClock(at: Date, timeZone: string): number {
+    const parts = getFormatter(timeZone).formatToParts(at)
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0)
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+}
+
+function localMidnight(year: number, month: number, day: number, timeZone: string): Date {
+    const wall = Date.UTC(year, month - 1, day)
+    // Correct by the offset twice so a DST change on the day lands right
+    let instant = wall - (toWallClock(new Date(wall), timeZone) - wall)
+    instant = wall - (toWallClock(new Date(instant), timeZone) - instant)
+    return new Date(instant)
+}
+
+/**
+ * Instants bounding a calendar day ("YYYY-MM-DD") in the location's timezone.
+ * The end is exclusive.
+ */
+export function getBusinessDayRange(businessDate: string, timeZone: string): { start: Date; end: Date } {
+    const [year, month, day] = businessDate.split('-').map(Number)
+    return {
+        start: localMidnight(year, month, day, timeZone),
+        end: localMidnight(year, month, day + 1, timeZone),
+    }
+}
+
+export function getLocalHour(at: Date, timeZone: string): number {
+    return new Date(toWallClock(at, timeZone)).getUTCHours()
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+function addTo(
+    rows: Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>,
+    label: string,
+    orderNumber: string,
+    quantity: number,
+    sales: number
+) {
+    const row = rows.get(label) ?? { label, orders: 0, quantity: 0, sales: 0, orderKeys: new Set<string>() }
+    row.orderKeys.add(orderNumber)
+    row.orders = row.orderKeys.size
+    row.quantity += quantity
+    row.sales += sales
+    rows.set(label, row)
+}
+
+function toRows(rows: Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>): SalesBreakdownRow[] {
+    return Array.from(rows.values())
+        .map(({ orderKeys: _orderKeys, ...row }) => ({ ...row, sales: roundMoney(row.sales) }))
+        .sort((a, b) => b.sales - a.sales || a.label.localeCompare(b.label))
+}
+
+/**
+ * Builds the report for one location and business day. Sales count orders
+ * placed that day that were not cancelled; cancelled orders are reported as
+ * voids. Item and category sales are line totals before order-level
+ * discounts. Payments and refunds count what was taken and given back that
+ * day, whichever day the order was placed.
+ */
+export function buildSalesReport(input: {
+    locationName: string
+    businessDate: string
+    timeZone: string
+    orders: ReportOrder[]
+    payments: ReportPayment[]
+    refunds: ReportRefund[]
+}): SalesReport {
+    const sales = input.orders.filter(order => order.status !== 'CANCELLED')
+    const voids = input.orders.filter(order => order.status === 'CANCELLED')
+    const sum = (orders: ReportOrder[], pick: (order: ReportOrder) => DecimalLike) =>
+        roundMoney(orders.reduce((total, order) => total + Number(pick(order)), 0))
+
+    const grossSales = sum(sales, o => o.subtotal)
+    const discounts = sum(sales, o => o.discountAmount)
+    const promotions = sum(sales, o => o.promotionDiscount)
+    const loyaltyRedemptions = sum(sales, o => o.loyaltyDiscount)
+    const refunds = roundMoney(input.refunds.reduce((total, r) => total + Number(r.amount), 0))
+
+    const summary: SalesSummary = {
+        orderCount: sales.length,
+        voidCount: voids.length,
+        voidTotal: sum(voids, o => o.total),
+        grossSales,
+        discounts,
+        promotions,
+        loyaltyRedemptions,
+        netSales: roundMoney(grossSales - discounts - promotions - loyaltyRedemptions),
+        tax: sum(sales, o => o.taxAmount),
+        serviceCharge: sum(sales, o => o.serviceCharge),
+        deliveryFees: sum(sales, o => o.deliveryFee),
+        tips: sum(sales, o => o.tipAmount),
+        total: sum(sales, o => o.total),
+        refundCount: input.refunds.length,
+        refunds,
+        averageOrder: sales.length > 0 ? roundMoney(sum(sales, o => o.total) / sales.length) : 0,
+    }
+
+    const byHour = new Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>()
+    const byCategory = new Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>()
+    const byItem = new Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>()
+    const byOrderType = new Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>()
+    const bySource = new Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>()
+    const byServer = new Map<string, SalesBreakdownRow & { orderKeys: Set<string> }>()
+
+    for (const order of sales) {
+        const items = order.items.filter(item => item.status !== 'cancelled')
+        const quantity = items.reduce((total, item) => total + item.quantity, 0)
+        const net = Number(order.subtotal) - Number(order.discountAmount) -
+            Number(order.promotionDiscount) - Number(order.loyaltyDiscount)
+        const hour = String(getLocalHour(order.placedAt, input.timeZone)).padStart(2, '0')
+
+        addTo(byHour, `${hour}:00`, order.orderNumber, quantity, net)
+        addTo(byOrderType, order.orderType, order.orderNumber, quantity, net)
+        addTo(bySource, order.orderSource, order.orderNumber, quantity, net)
+        addTo(byServer, order.serverName ?? 'Online', order.orderNumber, quantity, net)
+
+        for (const item of items) {
+            addTo(byCategory, item.categoryName, order.orderNumber, item.quantity, Number(item.totalPrice))
+            addTo(byItem, item.name, order.orderNumber, item.quantity, Number(item.totalPrice))
+        }
+    }
+
+    const methods = new Map<string, PaymentBreakdownRow>()
+    const method = (label: string) => {
+        const row = methods.get(label) ?? { label, payments: 0, amount: 0, tips: 0, refunds: 0, net: 0 }
+        methods.set(label, row)
+        return row
+    }
+    for (const payment of input.payments) {
+        const row = method(payment.methodName)
+        row.payments += 1
+        row.amount += Number(payment.amount)
+        row.tips += Number(payment.tipAmount)
+    }
+    for (const refund of input.refunds) {
+        method(refund.methodName).refunds += Number(refund.amount)
+    }
+
+    return {
+        locationName: input.locationName,
+        businessDate: input.businessDate,
+        timeZone: input.timeZone,
+        summary,
+        byHour: toRows(byHour).sort((a, b) => a.label.localeCompare(b.label)),
+        byCategory: toRows(byCategory),
+        byItem: toRows(byItem),
+        byOrderType: toRows(byOrderType),
+        bySource: toRows(bySource),
+        byServer: toRows(byServer),
+        byPaymentMethod: Array.from(methods.values())
+            .map(row => ({
+                ...row,
+                amount: roundMoney(row.amount),
+                tips: roundMoney(row.tips),
+                refunds: roundMoney(row.refunds),
+                net: roundMoney(row.amount + row.tips - row.refunds),
+            }))
+            .sort((a, b) => b.net - a.net),
+    }
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+const BREAKDOWN_COLUMNS = ['Orders', 'Quantity', 'Sales']
+
+function breakdownTable(title: string, label: string, rows: SalesBreakdownRow[]) {
+    return {
+        title,
+        columns: [label, ...BREAKDOWN_COLUMNS],
+        rows: rows.map(row => [row.label, row.orders, row.quantity, row.sales]),
+    }
+}
+
+/**
+ * Lays the report out as titled tables. A Z-report is the end-of-day close:
+ * totals, tender and order types. Daily sales adds every breakdown.
+ */
+export function toReportDocument(report: SalesReport, type: ReportType): ReportDocument {
+    const s = report.summary
+    const summaryTable = {
+        title: 'Summary',
+        columns: ['Measure', 'Value'],
+        rows: [
+            ['Orders', s.orderCount],
+            ['Gross sales', s.grossSales],
+            ['Discounts', s.discounts],
+            ['Promotions', s.promotions],
+            ['Loyalty redemptions', s.loyaltyRedemptions],
+            ['Net sales', s.netSales],
+            ['Tax', s.tax],
+            ['Service charge', s.serviceCharge],
+            ['Delivery fees', s.deliveryFees],
+            ['Tips', s.tips],
+            ['Total', s.total],
+            ['Average order', s.averageOrder],
+            ['Refunds', s.refunds],
+            ['Refund count', s.refundCount],
+            ['Voided orders', s.voidCount],
+            ['Voided total', s.voidTotal],
+        ] as Array<Array<string | number>>,
+    }
+    const paymentsTable = {
+        title: 'Payment Methods',
+        columns: ['Method', 'Payments', 'Amount', 'Tips', 'Refunds', 'Net'],
+        rows: report.byPaymentMethod.map(row => [row.label, row.payments, row.amount, row.tips, row.refunds, row.net]),
+    }
+
+    const tables = type === 'z-report'
+        ? [summaryTable, paymentsTable, breakdownTable('Order Types', 'Order type', report.byOrderType)]
+        : [
+            summaryTable,
+            breakdownTable('Sales by Hour', 'Hour', report.byHour),
+            breakdownTable('Sales by Category', 'Category', report.byCategory),
+            breakdownTable('Sales by Item', 'Item', report.byItem),
+            breakdownTable('Order Types', 'Order type', report.byOrderType),
+            breakdownTable('Order Sources', 'Source', report.bySource),
+            breakdownTable('Servers', 'Server', report.byServer),
+            paymentsTable,
+        ]
+
+    return {
+        title: `${type === 'z-report' ? 'Z-Report' : 'Daily Sales'} - ${report.locationName}`,
+        subtitle: `Business day ${report.businessDate} (${report.timeZone})`,
+        tables,
+    }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findConflicts,
+  findTableOptions,
+  formatTimeOfDay,
+  parseTableIds,
+  parseTimeOfDay,
+  timeOfDayToDate,
+  type AvailabilityArea,
+  type AvailabilityTable,
+  type BookedReservation,
+} from '../availability'
+
+const hall: AvailabilityArea = { id: 'hall', name: 'Hall', isOutdoors: false, isAccessible: true, isPrivate: false, smokingAllowed: false, displayOrder: 1 }
+const terrace: AvailabilityArea = { id: 'terrace', name: 'Terrace', isOutdoors: true, isAccessible: false, isPrivate: false, smokingAllowed: true, displayOrder: 2 }
+
+const table = (id: string, area: AvailabilityArea, maxSeats: number, extra: Partial<AvailabilityTable> = {}): AvailabilityTable => ({
+  id, tableNumber: id.toUpperCase(), areaId: area.id, minSeats: 1, maxSeats, status: 'AVAILABLE', combinableWith: null, area, ...extra,
+})
+
+const tables = [
+  table('h1', hall, 2),
+  table('h2', hall, 4, { combinableWith: ['h3'] }),
+  table('h3', hall, 4, { combinableWith: '["h2"]' }),
+  table('h4', hall, 6, { status: 'BLOCKED' }),
+  table('t1', terrace, 4),
+]
+
+const booking = (id: string, tableId: string, time: string, duration = 90, additionalTables: unknown = null): BookedReservation => ({
+  id, tableId, additionalTables, startTime: timeOfDayToDate(parseTimeOfDay(time)), duration,
+})
+
+const at = (time: string, duration = 90) => ({ start: parseTimeOfDay(time), end: parseTimeOfDay(time) + duration })
+
+describe('time of day', () => {
+  it('round trips through the Time column', () => {
+    expect(parseTimeOfDay('19:30')).toBe(1170)
+    expect(parseTimeOfDay('7:05:00')).toBe(425)
+    expect(formatTimeOfDay(timeOfDayToDate(1170).getUTCHours() * 60 + 30)).toBe('19:30')
+    expect(formatTimeOfDay(1470)).toBe('00:30')
+    expect(() => parseTimeOfDay('24:00')).toThrow('Invalid time')
+  })
+
+  it('reads table lists in either stored shape', () => {
+    expect(parseTableIds(['a', 'b'])).toEqual(['a', 'b'])
+    expect(parseTableIds('["a"]')).toEqual(['a'])
+    expect(parseTableIds('nonsense')).toEqual([])
+  })
+})
+
+describe('findConflicts', () => {
+  it('finds overlaps on main and combined tables but not back-to-back bookings', () => {
+    const reservations = [booking('r1', 'h2', '18:00'), booking('r2', 'h1', '19:00', 90, ['h3'])]
+
+    expect(findConflicts(['h3'], at('20:00'), reservations)).toEqual([{ tableId: 'h3', reservationId: 'r2', window: at('19:00') }])
+    expect(findConflicts(['h2'], at('19:30'), reservations)).toEqual([])
+  })
+})
+
+describe('findTableOptions', () => {
+  it('gives the smallest free table that fits', () => {
+    const [best] = findTableOptions({ tables, reservations: [], partySize: 2, window: at('19:00') })
+    expect(best).toMatchObject({ tableId: 'h1', additionalTableIds: [], seats: 2 })
+  })
+
+  it('skips booked and blocked tables and honours preferences', () => {
+    const reservations = [booking('r1', 'h2', '18:30')]
+    const options = findTableOptions({ tables, reservations, partySize: 4, window: at('19:00') })
+    expect(options.map(o => o.tableNumbers)).toEqual([['H3'], ['T1']])
+
+    const outdoor = findTableOptions({ tables, reservations, partySize: 4, window: at('19:00'), preferences: ['outdoor', 'smoking'] })
+    expect(outdoor.map(o => o.tableId)).toEqual(['t1'])
+    expect(findTableOptions({ tables, reservations, partySize: 2, window: at('19:00'), preferences: ['private'] })).toEqual([])
+  })
+
+  it('combines tables listed as combinable for a party no single table seats', () => {
+    const [best] = findTableOptions({ tables, reservations: [], partySize: 7, window: at('19:00') })
+    expect(best).toMatchObject({ tableNumbers: ['H2', 'H3'], seats: 8 })
+
+    const reservations = [booking('r1', 'h3', '20:00')]
+    expect(findTableOptions({ tables, reservations, partySize: 7, window: at('19:00') })).toEqual([])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { depositOnCancel, isNoShow, parseDepositSettings, planDepositRefund, quoteDeposit, DEFAULT_DEPOSIT_SETTINGS } from '../deposits'
+
+const settings = parseDepositSettings({
+  rules: [
+    { label: 'Large parties', minPartySize: 8, amount: 200, perGuest: true },
+    { label: 'Celebrations', occasions: ['Birthday'], amount: 1000 },
+    { label: 'New Year', dates: ['2026-12-31'], amount: 2500 },
+    { label: 'Weekends', weekdays: ['saturday'], amount: 500 },
+  ],
+})
+
+describe('parseDepositSettings', () => {
+  it('falls back to the defaults and drops rules without an amount', () => {
+    expect(parseDepositSettings(null)).toEqual(DEFAULT_DEPOSIT_SETTINGS)
+    const parsed = parseDepositSettings({ rules: [{ label: 'Free' }, { amount: 0 }, { amount: 100, weekdays: ['someday'] }], noShowAfterMinutes: -5 })
+    expect(parsed.rules).toHaveLength(1)
+    expect(parsed.rules[0]).toMatchObject({ label: 'Deposit', weekdays: [], perGuest: false })
+    expect(parsed.noShowAfterMinutes).toBe(DEFAULT_DEPOSIT_SETTINGS.noShowAfterMinutes)
+  })
+})
+
+describe('quoteDeposit', () => {
+  it('takes no deposit when no rule applies', () => {
+    // 2026-10-19 is a Monday
+    expect(quoteDeposit({ partySize: 4, date: '2026-10-19' }, settings)).toEqual({ amount: 0, reasons: [] })
+  })
+
+  it('charges per guest for large parties', () => {
+    expect(quoteDeposit({ partySize: 8, date: '2026-10-19' }, settings)).toEqual({ amount: 1600, reasons: ['Large parties'] })
+  })
+
+  it('matches occasions ignoring case and weekdays and dates', () => {
+    expect(quoteDeposit({ partySize: 2, date: '2026-10-19', occasion: ' birthday ' }, settings).reasons).toEqual(['Celebrations'])
+    expect(quoteDeposit({ partySize: 2, date: '2026-10-24' }, settings)).toEqual({ amount: 500, reasons: ['Weekends'] })
+    expect(quoteDeposit({ partySize: 2, date: '2026-12-31' }, settings)).toEqual({ amount: 2500, reasons: ['New Year'] })
+  })
+
+  it('takes the largest rule rather than adding them up', () => {
+    expect(quoteDeposit({ partySize: 10, date: '2026-10-24', occasion: 'Birthday' }, settings)).toEqual({ amount: 2000, reasons: ['Large parties'] })
+  })
+
+  it('adds the area rental fee only when it is charged', () => {
+    expect(quoteDeposit({ partySize: 2, date: '2026-10-19', areaRentalFee: 3000 }, settings).amount).toBe(0)
+    expect(quoteDeposit({ partySize: 2, date: '2026-10-24', areaRentalFee: 3000 }, { ...settings, chargeAreaRentalFee: true }))
+      .toEqual({ amount: 3500, reasons: ['Weekends', 'Private area rental'] })
+  })
+})
+
+describe('deposit outcomes', () => {
+  it('refunds inside the cancellation window and keeps it after', () => {
+    expect(depositOnCancel({ minutesToStart: 24 * 60, cutoffMinutes: 120 })).toBe('refund')
+    expect(depositOnCancel({ minutesToStart: 60, cutoffMinutes: 120 })).toBe('retain')
+  })
+
+  it('counts a booking as a no-show once late by the grace period', () => {
+    expect(isNoShow({ minutesToStart: -20, noShowAfterMinutes: 30 })).toBe(false)
+    expect(isNoShow({ minutesToStart: -30, noShowAfterMinutes: 30 })).toBe(true)
+  })
+})
+
+describe('planDepositRefund', () => {
+  it('refunds what is left on completed payments and flags partly refunded ones', () => {
+    expect(planDepositRefund([
+      { id: 'card', status: 'COMPLETED', amount: 1000, refundedAmount: 0 },
+      { id: 'split', status: 'PARTIALLY_REFUNDED', amount: 500, refundedAmount: 200 },
+      { id: 'done', status: 'PARTIALLY_REFUNDED', amount: 300, refundedAmount: 300 },
+    ])).toEqual({
+      refunds: [{ transactionId: 'card', amount: 1000 }],
+      blocked: ['300.00 is left on a partly refunded payment'],
+    })
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { buildManageUrl, guestChangeBlockedReason, isReminderDue, signManageToken, verifyManageToken } from '../manage'
+
+describe('manage links', () => {
+  it('verifies only tokens signed with the same secret', () => {
+    const token = signManageToken('res_123', 'secret')
+    expect(verifyManageToken(token, 'secret')).toBe('res_123')
+    expect(verifyManageToken(token, 'other')).toBeNull()
+    expect(verifyManageToken(token.replace('res_123', 'res_124'), 'secret')).toBeNull()
+    expect(verifyManageToken('res_123', 'secret')).toBeNull()
+  })
+
+  it('builds the guest page url', () => {
+    expect(buildManageUrl('https://example.com/', 'a.b')).toBe('https://example.com/reservations/manage?token=a.b')
+  })
+})
+
+describe('guest change policy', () => {
+  it('allows changes until the cutoff', () => {
+    expect(guestChangeBlockedReason({ status: 'CONFIRMED', minutesToStart: 180, cutoffMinutes: 120 })).toBeNull()
+    expect(guestChangeBlockedReason({ status: 'CONFIRMED', minutesToStart: 60, cutoffMinutes: 120 }))
+      .toBe('Changes can be made online until 2 hours before your booking; please call us')
+    expect(guestChangeBlockedReason({ status: 'CONFIRMED', minutesToStart: -5, cutoffMinutes: 0 }))
+      .toBe('This reservation has already started')
+  })
+
+  it('refuses bookings that are no longer active', () => {
+    expect(guestChangeBlockedReason({ status: 'NO_SHOW', minutesToStart: 600, cutoffMinutes: 120 })).toBe('This reservation is no show')
+  })
+})
+
+describe('reminders', () => {
+  it('is due inside the lead time for bookings made before it', () => {
+    expect(isReminderDue({ minutesToStart: 1000, minutesSinceBooked: 5000, leadMinutes: 1440 })).toBe(true)
+    expect(isReminderDue({ minutesToStart: 2000, minutesSinceBooked: 5000, leadMinutes: 1440 })).toBe(false)
+    expect(isReminderDue({ minutesToStart: -10, minutesSinceBooked: 5000, leadMinutes: 1440 })).toBe(false)
+    // Booked three hours ahead: the confirmation was enough
+    expect(isReminderDue({ minutesToStart: 170, minutesSinceBooked: 10, leadMinutes: 1440 })).toBe(false)
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { parseTimeOfDay, timeOfDayToDate, type AvailabilityArea, type AvailabilityTable, type BookedReservation } from '../availability'
+import {
+  buildSlotGrid,
+  checkBookingTime,
+  getLocalDateTime,
+  getReservationSettings,
+  getTurnTime,
+  parseOpeningHours,
+  resolveDayHours,
+} from '../slots'
+
+const hall: AvailabilityArea = { id: 'hall', name: 'Hall', isOutdoors: false, isAccessible: true, isPrivate: false, smokingAllowed: false }
+
+const tables: AvailabilityTable[] = ['h1', 'h2'].map(id => ({
+  id, tableNumber: id.toUpperCase(), areaId: 'hall', minSeats: 1, maxSeats: 4, status: 'AVAILABLE', combinableWith: null, area: hall,
+}))
+
+const booking = (id: string, tableId: string, time: string, partySize = 2): BookedReservation => ({
+  id, tableId, additionalTables: null, startTime: timeOfDayToDate(parseTimeOfDay(time)), duration: 90, partySize,
+})
+
+const weekly = parseOpeningHours(JSON.stringify({
+  monday: { open: '18:00', close: '21:00' },
+  tuesday: { closed: true },
+  fri: { open: '18:00', close: '01:00' },
+}))
+
+// 2026-10-19 is a Monday
+const day = resolveDayHours('2026-10-19', weekly)
+
+describe('opening hours', () => {
+  it('reads full and short day names, closures and hours past midnight', () => {
+    expect(weekly?.monday).toEqual({ open: 1080, close: 1260 })
+    expect(weekly?.tuesday).toBeNull()
+    expect(weekly?.friday).toEqual({ open: 1080, close: 1500 })
+    expect(parseOpeningHours('Mon-Fri 9-5')).toBeNull()
+    expect(resolveDayHours('2026-10-20', weekly).closed).toBe(true)
+    expect(resolveDayHours('2026-10-21', null).reason).toBe('Opening hours are not set')
+  })
+
+  it('lets closures and special hours override the week', () => {
+    expect(resolveDayHours('2026-10-19', weekly, { closed: true, open: null, close: null, reason: 'Eid' }))
+      .toEqual({ closed: true, hours: null, reason: 'Eid' })
+    expect(resolveDayHours('2026-10-20', weekly, { closed: false, open: '12:00', close: '16:00', reason: null }).hours)
+      .toEqual({ open: 720, close: 960 })
+  })
+
+  it('reads the wall clock in the location timezone', () => {
+    // 20:30 UTC is 01:30 the next day in Karachi
+    expect(getLocalDateTime(new Date('2026-10-19T20:30:00Z'), 'Asia/Karachi')).toEqual({ date: '2026-10-20', minutes: 90 })
+    expect(getLocalDateTime(new Date('2026-10-19T20:30:00Z'), 'Not/AZone').date).toBe('2026-10-19')
+  })
+})
+
+describe('settings', () => {
+  it('falls back to defaults and sorts turn times', () => {
+    const settings = getReservationSettings({
+      kitchen: {},
+      reservations: { maxCoversPerSlot: 10, turnTimes: [{ upTo: 6, minutes: 120 }, { upTo: 2, minutes: 60 }, { upTo: 'x' }] },
+    })
+    expect(settings.slotInterval).toBe(15)
+    expect(settings.maxCoversPerSlot).toBe(10)
+    expect(getTurnTime(2, settings)).toBe(60)
+    expect(getTurnTime(5, settings)).toBe(120)
+    expect(getTurnTime(8, settings)).toBe(90)
+    expect(getReservationSettings(null)).toEqual(getReservationSettings({}))
+  })
+})
+
+describe('slot grid', () => {
+  const settings = getReservationSettings({ reservations: { slotInterval: 30, maxCoversPerSlot: 6 } })
+  const future = new Date('2026-10-18T12:00:00Z')
+
+  it('offers slots from opening to the last seating', () => {
+    const grid = buildSlotGrid({ date: '2026-10-19', partySize: 2, timeZone: 'Asia/Karachi', day, settings, tables, reservations: [], now: future })
+    expect(grid.hours).toEqual({ open: '18:00', close: '21:00' })
+    expect(grid.slots.map(slot => slot.time)).toEqual(['18:00', '18:30', '19:00', '19:30', '20:00'])
+    expect(grid.slots.every(slot => slot.available)).toBe(true)
+  })
+
+  it('caps covers per slot and runs out of tables', () => {
+    // r2 has no table yet but still counts against the slot
+    const reservations = [booking('r1', 'h1', '19:00', 4), { ...booking('r2', 'h1', '19:10', 2), tableId: null }, booking('r3', 'h2', '20:00', 1)]
+    const grid = buildSlotGrid({ date: '2026-10-19', partySize: 2, timeZone: 'Asia/Karachi', day, settings, tables, reservations, now: future })
+    const at = (time: string) => grid.slots.find(slot => slot.time === time)!
+    expect(at('19:00')).toMatchObject({ available: false, reason: 'covers', coversBooked: 6, partiesBooked: 2 })
+    expect(at('19:30')).toMatchObject({ available: false, reason: 'tables' })
+    expect(at('18:30').available).toBe(true)
+  })
+
+  it('marks times already passed in the location timezone', () => {
+    // 14:10 UTC is 19:10 in Karachi
+    const grid = buildSlotGrid({
+      date: '2026-10-19', partySize: 2, timeZone: 'Asia/Karachi', day, settings, tables, reservations: [], now: new Date('2026-10-19T14:10:00Z'),
+    })
+    expect(grid.slots.filter(slot => slot.reason === 'past').map(slot => slot.time)).toEqual(['18:00', '18:30', '19:00'])
+  })
+
+  it('explains why a booking time is refused', () => {
+    const base = { date: '2026-10-19', partySize: 2, day, settings, reservations: [], elapsed: null, noticeMinutes: 0 }
+    expect(checkBookingTime({ ...base, start: parseTimeOfDay('19:15') })).toBeNull()
+    expect(checkBookingTime({ ...base, start: parseTimeOfDay('20:30') })).toBe('Bookings on 2026-10-19 start between 18:00 and 20:00')
+    expect(checkBookingTime({ ...base, day: resolveDayHours('2026-10-19', weekly, { closed: true, open: null, close: null, reason: 'Eid' }), start: 1140 }))
+      .toBe('The restaurant is closed on 2026-10-19 (Eid)')
+    // 19:15 shares the 19:00 slot with the 19:00 booking
+    expect(checkBookingTime({ ...base, partySize: 3, start: parseTimeOfDay('19:15'), reservations: [booking('r1', 'h1', '19:00', 4)] }))
+      .toBe('No more bookings can start at 19:15; the slot is full')
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * Reservation Availability
+ * Pure rules for when a table is taken and which free table, or set of
+ * combinable tables, best fits a party and its seating preferences
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SEATING_PREFERENCES = ['outdoor', 'accessible', 'private', 'smoking'] as const
+
+export type SeatingPreference = typeof SEATING_PREFERENCES[number]
+
+export interface AvailabilityArea {
+    id: string
+    name: string
+    isOutdoors: boolean
+    isAccessible: boolean
+    isPrivate: boolean
+    smokingAllowed: boolean
+    displayOrder?: number
+}
+
+export interface AvailabilityTable {
+    id: string
+    tableNumber: string
+    areaId: string
+    minSeats: number
+    maxSeats: number
+    status: string
+    combinableWith: unknown
+    area: AvailabilityArea
+}
+
+export interface BookedReservation {
+    id: string
+    tableId: string | null
+    additionalTables: unknown
+    /** Time of day, as stored in the `@db.Time` column */
+    startTime: Date
+    duration: number
+    /** Counted against the per-slot cover cap */
+    partySize?: number
+}
+
+/** Minutes since midnight; the end may run past 1440 */
+export interface TimeWindow {
+    start: number
+    end: number
+}
+
+export interface TableOption {
+    tableId: string
+    additionalTableIds: string[]
+    tableNumbers: string[]
+    areaId: string
+    areaName: string
+    seats: number
+}
+
+export interface TableConflict {
+    tableId: string
+    reservationId: string
+    window: TimeWindow
+}
+
+// ============================================================================
+// TIME
+// ============================================================================
+
+const MINUTES_PER_DAY = 24 * 60
+
+// Combined sets are kept small; bigger parties are placed by hand
+const MAX_COMBINED_TABLES = 3
+
+/**
+ * Parses "19:30" or "19:30:00" into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+    const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(time.trim())
+    if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) {
+        throw new Error(`Invalid time: ${time}`)
+    }
+    return parseInt(match[1]) * 60 + parseInt(match[2])
+}
+
+/**
+ * Formats minutes since midnight as "HH:MM", wrapping past midnight
+ */
+export function formatTimeOfDay(minutes: number): string {
+    const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+    return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`
+}
+
+/**
+ * `@db.Time` values come back as that time on 1970-01-01 UTC
+ */
+export function timeOfDayFromDate(value: Date): number {
+    return value.getUTCHours() * 60 + value.getUTCMinutes()
+}
+
+export function timeOfDayToDate(minutes: number): Date {
+    return new Date(Date.UTC(1970, 0, 1, 0, minutes % MINUTES_PER_DAY))
+}
+
+export function reservationWindow(reservation: Pick<BookedReservation, 'startTime' | 'duration'>): TimeWindow {
+    const start = timeOfDayFromDate(reservation.startTime)
+    return { start, end: start + (reservation.duration || 90) }
+}
+
+export function windowsOverlap(a: TimeWindow, b: TimeWindow): boolean {
+    return a.start < b.end && b.start < a.end
+}
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+/**
+ * Reads a list of table ids from a JSON column. The table routes have
+ * stored it both as an array and as a JSON-encoded string.
+ */
+export function parseTableIds(value: unknown): string[] {
+    let parsed = value
+    if (typeof parsed === 'string') {
+        try {
+            parsed = JSON.parse(parsed)
+        } catch {
+            return []
+        }
+    }
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : []
+}
+
+export function reservationTableIds(reservation: Pick<BookedReservation, 'tableId' | 'additionalTables'>): string[] {
+    return [
+        ...(reservation.tableId ? [reservation.tableId] : []),
+        ...parseTableIds(reservation.additionalTables),
+    ]
+}
+
+export function areaMatchesPreferences(area: AvailabilityArea, preferences: SeatingPreference[]): boolean {
+    return preferences.every(preference => {
+        switch (preference) {
+            case 'outdoor':
+                return area.isOutdoors
+            case 'accessible':
+                return area.isAccessible
+            case 'private':
+                return area.isPrivate
+            case 'smoking':
+                return area.smokingAllowed
+        }
+    })
+}
+
+/**
+ * Every booking holding one of the tables during the window
+ */
+export function findConflicts(
+    tableIds: string[],
+    window: TimeWindow,
+    reservations: BookedReservation[]
+): TableConflict[] {
+    const wanted = new Set(tableIds)
+    const conflicts: TableConflict[] = []
+    for (const reservation of reservations) {
+        const booked = reservationWindow(reservation)
+        if (!windowsOverlap(window, booked)) continue
+        for (const tableId of reservationTableIds(reservation)) {
+            if (wanted.has(tableId)) {
+                conflicts.push({ tableId, reservationId: reservation.id, window: booked })
+            }
+        }
+    }
+    return conflicts
+}
+
+/**
+ * Blocked tables are held back by the host, or joined to another table
+ */
+function isBookable(table: AvailabilityTable): boolean {
+    return table.status !== 'BLOCKED'
+}
+
+/**
+ * Free single tables and combinable sets that seat the party in areas
+ * meeting every preference, best fit first: fewest empty seats, then single
+ * tables before combined ones, then area and table order.
+ */
+export function findTableOptions(input: {
+    tables: AvailabilityTable[]
+    reservations: BookedReservation[]
+    partySize: number
+    window: TimeWindow
+    preferences?: SeatingPreference[]
+}): TableOption[] {
+    const { tables, partySize, window } = input
+    const preferences = input.preferences ?? []
+    const taken = new Set(findConflicts(tables.map(t => t.id), window, input.reservations).map(c => c.tableId))
+    const free = new Map(tables
+        .filter(table => isBookable(table) && !taken.has(table.id) && areaMatchesPreferences(table.area, preferences))
+        .map(table => [table.id, table]))
+
+    const options = new Map<string, AvailabilityTable[]>()
+    for (const table of free.values()) {
+        if (table.minSeats <= partySize && partySize <= table.maxSeats) {
+            options.set(table.id, [table])
+        }
+
+        const partners = parseTableIds(table.combinableWith)
+            .map(id => free.get(id))
+            .filter((partner): partner is AvailabilityTable => !!partner && partner.areaId === table.areaId)
+        for (const combination of combinations(partners, MAX_COMBINED_TABLES - 1)) {
+            const set = [table, ...combination]
+            const seats = set.reduce((sum, t) => sum + t.maxSeats, 0)
+            const key = set.map(t => t.id).sort().join('+')
+            // A set is only worth it when no one table in it could take the party
+            if (seats >= partySize && set.every(t => t.maxSeats < partySize) && !options.has(key)) {
+                options.set(key, set)
+            }
+        }
+    }
+
+    return [...options.values()]
+        .map(set => ({ set, seats: set.reduce((sum, t) => sum + t.maxSeats, 0) }))
+        .sort((a, b) =>
+            a.seats - b.seats
+            || a.set.length - b.set.length
+            || (a.set[0].area.displayOrder ?? 0) - (b.set[0].area.displayOrder ?? 0)
+            || a.set[0].tableNumber.localeCompare(b.set[0].tableNumber, undefined, { numeric: true })
+        )
+        .map(({ set, seats }) => ({
+            tableId: set[0].id,
+            additionalTableIds: set.slice(1).map(t => t.id),
+            tableNumbers: set.map(t => t.tableNumber),
+            areaId: set[0].areaId,
+            areaName: set[0].area.name,
+            seats,
+        }))
+}
+
+/**
+ * Non-empty subsets of up to `size` items
+ */
+function combinations<T>(items: T[], size: number): T[][] {
+    const result: T[][] = []
+    const walk = (start: number, current: T[]) => {
+        if (current.length > 0) result.push(current)
+        if (current.length === size) return
+        for (let i = start; i < items.length; i++) {
+            walk(i + 1, [...current, items[i]])
+        }
+    }
+    walk(0, [])
+    return result
+}
@@ -0,0 +1,460 @@
+/**
+ * Reservation Deposit Service
+ * Collects deposits through the payment service against an order of their
+ * own, credits them to the table's order once the party is seated, refunds
+ * or keeps them when the booking is cancelled, and marks no-shows
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { DepositStatus, OrderSource, Prisma, ReservationSource } from '@prisma/client'
+import { nextSequenceValue } from '@/lib/sequences'
+import { processPayment, processRefund, transferPayments } from '@/lib/payments/payment.service'
+import { timeOfDayFromDate } from './availability'
+import { depositOnCancel, isNoShow, planDepositRefund } from './deposits'
+import { getReservationSettings, minutesUntil } from './slots'
+import { CHANGEABLE_RESERVATION_STATUSES } from './reservation.service'
+import { sendConfirmationOnce } from './guest.service'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DepositPaymentInput {
+    paymentMethodId: string
+    shiftId?: string
+    terminalId?: string
+}
+
+export interface DepositRefundInput {
+    reason: string
+    /** User id, or who acted for the guest */
+    refundedBy: string
+    /** Shift paying out a cash refund */
+    shiftId?: string
+}
+
+const depositInclude = {
+    location: { select: { id: true, code: true, name: true, timezone: true, settings: true } },
+} satisfies Prisma.ReservationInclude
+
+type DepositReservation = Prisma.ReservationGetPayload<{ include: typeof depositInclude }>
+
+/** Paid deposits still held, including ones whose refund didn't go through */
+const REFUNDABLE_DEPOSIT_STATUSES: DepositStatus[] = ['PAID', 'REFUND_PENDING']
+
+const ORDER_SOURCES: Partial<Record<ReservationSource, OrderSource>> = {
+    WEBSITE: 'WEBSITE',
+    APP: 'APP',
+    PHONE: 'PHONE',
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function findReservation(id: string): Promise<DepositReservation> {
+    const reservation = await prisma.reservation.findUnique({ where: { id }, include: depositInclude })
+    if (!reservation) {
+        throw new Error('Reservation not found')
+    }
+    return reservation
+}
+
+function isRefundable(status: DepositStatus | null): boolean {
+    return status !== null && REFUNDABLE_DEPOSIT_STATUSES.includes(status)
+}
+
+function minutesToStart(reservation: DepositReservation, now: Date) {
+    return minutesUntil(
+        reservation.date.toISOString().slice(0, 10),
+        timeOfDayFromDate(reservation.startTime),
+        reservation.location.timezone,
+        now
+    )
+}
+
+/**
+ * The order the deposit is paid against, created the first time it is
+ * needed. It has no items; its total is the deposit.
+ */
+async function ensureDepositOrder(reservation: DepositReservation): Promise<string> {
+    if (reservation.depositOrderId) return reservation.depositOrderId
+
+    return prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "Reservation" WHERE id = ${reservation.id} FOR UPDATE`
+        const current = await tx.reservation.findUniqueOrThrow({
+            where: { id: reservation.id },
+            select: { depositOrderId: true },
+        })
+        if (current.depositOrderId) return current.depositOrderId
+
+        const amount = Number(reservation.depositAmount)
+        const sequence = await nextSequenceValue(tx, 'order', reservation.location)
+        const order = await tx.order.create({
+            data: {
+                orderNumber: sequence.number,
+                displayNumber: sequence.value,
+                customerId: reservation.customerId,
+                customerName: reservation.guestName,
+                customerEmail: reservation.guestEmail,
+                customerPhone: reservation.guestPhone,
+                locationId: reservation.locationId,
+                orderType: 'DINE_IN',
+                orderSource: ORDER_SOURCES[reservation.source] ?? 'POS',
+                subtotal: amount,
+                taxAmount: 0,
+                taxRate: 0,
+                total: amount,
+                notes: `Deposit for reservation ${reservation.reservationNumber}`,
+                metadata: { reservationDeposit: reservation.id },
+            },
+        })
+        await tx.reservation.update({ where: { id: reservation.id }, data: { depositOrderId: order.id } })
+        return order.id
+    })
+}
+
+// ============================================================================
+// COLLECTING
+// ============================================================================
+
+/**
+ * Takes the booking's deposit through the payment service. A payment the
+ * gateway settles later confirms the booking when it lands.
+ */
+export async function collectDeposit(reservationId: string, input: DepositPaymentInput) {
+    const reservation = await findReservation(reservationId)
+    if (!reservation.depositRequired || !reservation.depositAmount) {
+        throw new Error('This reservation does not take a deposit')
+    }
+    if (reservation.depositStatus !== 'PENDING') {
+        throw new Error(`The deposit is already ${reservation.depositStatus?.toLowerCase() ?? 'settled'}`)
+    }
+    if (!CHANGEABLE_RESERVATION_STATUSES.includes(reservation.status)) {
+        throw new Error(`Cannot take a deposit for a reservation with status ${reservation.status}`)
+    }
+
+    const orderId = await ensureDepositOrder(reservation)
+    const payment = await processPayment({
+        orderId,
+        paymentMethodId: input.paymentMethodId,
+        amount: Number(reservation.depositAmount),
+        shiftId: input.shiftId,
+        terminalId: input.terminalId,
+        customerEmail: reservation.guestEmail ?? undefined,
+        customerPhone: reservation.guestPhone,
+    })
+
+    return { reservation: await findReservation(reservationId), payment }
+}
+
+/**
+ * Records the deposit paid once its order is, and confirms the booking.
+ * Called as the payment settles, however it settles; later calls find it
+ * already paid and do nothing.
+ */
+export async function markDepositPaid(orderId: string) {
+    const reservation = await prisma.reservation.findUnique({ where: { depositOrderId: orderId }, select: { id: true } })
+    if (!reservation) return null
+
+    const now = new Date()
+    const { count } = await prisma.reservation.updateMany({
+        where: { id: reservation.id, depositStatus: 'PENDING' },
+        data: { depositStatus: 'PAID', depositPaid: true, depositPaidAt: now },
+    })
+    if (count === 0) return null
+
+    await prisma.reservation.updateMany({
+        where: { id: reservation.id, status: 'PENDING' },
+        data: { status: 'CONFIRMED' },
+    })
+
+    const paid = await prisma.reservation.findUniqueOrThrow({ where: { id: reservation.id }, include: depositInclude })
+    if (paid.status === 'CONFIRMED') {
+        await sendConfirmationOnce(paid)
+    } else if (paid.status === 'CANCELLED') {
+        // The booking was released or cancelled while the guest was paying
+        await refundDeposit(paid.id, { reason: 'Reservation cancelled before the deposit was paid', refundedBy: 'system' })
+            .catch((error) => console.error('Failed to refund late deposit:', error))
+    }
+    return paid
+}
+
+/**
+ * Cancels a booking whose deposit was never paid, along with its unpaid
+ * deposit order. False when the booking had already moved on.
+ */
+export async function releaseUnpaidBooking(reservationId: string, reason: string): Promise<boolean> {
+    const now = new Date()
+    const { count } = await prisma.reservation.updateMany({
+        where: { id: reservationId, status: 'PENDING', depositStatus: 'PENDING' },
+        data: { status: 'CANCELLED', cancelledAt: now, cancelReason: reason },
+    })
+    if (count === 0) return false
+
+    const reservation = await prisma.reservation.findUniqueOrThrow({ where: { id: reservationId }, select: { depositOrderId: true } })
+    if (reservation.depositOrderId) {
+        await prisma.order.updateMany({
+            where: { id: reservation.depositOrderId, paymentStatus: 'UNPAID' },
+            data: { status: 'CANCELLED', cancelledAt: now, cancelReason: reason },
+        })
+    }
+    return true
+}
+
+// ============================================================================
+// SETTLING
+// ============================================================================
+
+/**
+ * Credits the paid deposit to the table's order: its payment moves onto that
+ * order and the deposit order is closed
+ */
+export async function applyDepositToOrder(reservationId: string, orderId: string) {
+    const reservation = await findReservation(reservationId)
+    if (reservation.depositStatus !== 'PAID' || !reservation.depositOrderId) {
+        throw new Error('There is no paid deposit to apply')
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } })
+    if (!order) {
+        throw new Error('Order not found')
+    }
+    if (order.id === reservation.depositOrderId) {
+        throw new Error('Choose the table\'s order, not the deposit\'s')
+    }
+    if (order.locationId !== reservation.locationId) {
+        throw new Error('The order is at another location')
+    }
+    if (order.status === 'CANCELLED') {
+        throw new Error('Cannot apply a deposit to a cancelled order')
+    }
+    if (order.splitMethod) {
+        throw new Error('Apply the deposit before splitting the bill')
+    }
+
+    const now = new Date()
+    const { count } = await prisma.reservation.updateMany({
+        where: { id: reservationId, depositStatus: 'PAID' },
+        data: { depositStatus: 'APPLIED', depositAppliedToOrderId: orderId, depositSettledAt: now },
+    })
+    if (count === 0) {
+        throw new Error('The deposit has already been settled')
+    }
+
+    await transferPayments(reservation.depositOrderId, orderId)
+    await prisma.order.update({
+        where: { id: reservation.depositOrderId },
+        data: { status: 'CANCELLED', cancelledAt: now, cancelReason: `Deposit applied to order ${order.orderNumber}` },
+    })
+
+    return findReservation(reservationId)
+}
+
+/**
+ * Refunds the paid deposit through the gateway it was paid with. Whatever
+ * can't be paid out leaves the deposit REFUND_PENDING with the reason for
+ * staff to retry or settle by hand, and throws.
+ */
+export async function refundDeposit(reservationId: string, input: DepositRefundInput) {
+    const reservation = await findReservation(reservationId)
+    if (!isRefundable(reservation.depositStatus) || !reservation.depositOrderId) {
+        throw new Error('There is no paid deposit to refund')
+    }
+
+    const payments = await prisma.transaction.findMany({
+        where: { orderId: reservation.depositOrderId, status: { in: ['COMPLETED', 'PARTIALLY_REFUNDED'] } },
+        select: { id: true, status: true, amount: true, refundedAmount: true },
+    })
+    const plan = planDepositRefund(payments.map((payment) => ({
+        ...payment,
+        amount: Number(payment.amount),
+        refundedAmount: Number(payment.refundedAmount),
+    })))
+
+    const failures = [...plan.blocked]
+    for (const refund of plan.refunds) {
+        try {
+            await processRefund(refund.transactionId, refund.amount, input.reason, input.refundedBy, input.shiftId)
+        } catch (error) {
+            failures.push(error instanceof Error ? error.message : 'Refund failed')
+        }
+    }
+
+    if (failures.length > 0) {
+        const depositRefundError = failures.join('; ')
+        await prisma.reservation.updateMany({
+            where: { id: reservationId, depositStatus: { in: REFUNDABLE_DEPOSIT_STATUSES } },
+            data: { depositStatus: 'REFUND_PENDING', depositRefundError },
+        })
+        throw new Error(`The deposit could not be refunded: ${depositRefundError}`)
+    }
+
+    const now = new Date()
+    await prisma.reservation.updateMany({
+        where: { id: reservationId, depositStatus: { in: REFUNDABLE_DEPOSIT_STATUSES } },
+        data: { depositStatus: 'REFUNDED', depositRefundError: null, depositSettledAt: now },
+    })
+    await prisma.order.update({
+        where: { id: reservation.depositOrderId },
+        data: { status: 'CANCELLED', cancelledAt: now, cancelReason: input.reason },
+    })
+
+    return findReservation(reservationId)
+}
+
+/**
+ * Keeps the paid deposit as a fee, as staff may for one whose refund
+ * failed; its order is completed as the sale. False when there was no paid
+ * deposit to keep.
+ */
+export async function retainDeposit(reservationId: string, reason: string): Promise<boolean> {
+    const now = new Date()
+    const { count } = await prisma.reservation.updateMany({
+        where: { id: reservationId, depositStatus: { in: REFUNDABLE_DEPOSIT_STATUSES } },
+        data: { depositStatus: 'RETAINED', depositRefundError: null, depositSettledAt: now },
+    })
+    if (count === 0) return false
+
+    const reservation = await prisma.reservation.findUniqueOrThrow({ where: { id: reservationId }, select: { depositOrderId: true } })
+    if (reservation.depositOrderId) {
+        await prisma.order.update({
+            where: { id: reservation.depositOrderId },
+            data: { status: 'COMPLETED', completedAt: now, internalNotes: reason },
+        })
+    }
+    return true
+}
+
+/**
+ * Refunds or keeps the deposit of a booking just cancelled: refunded inside
+ * the cancellation window and kept after it, unless `refund` says otherwise.
+ * An unpaid deposit's order is cancelled with the booking.
+ */
+export async function settleDepositOnCancel(
+    reservationId: string,
+    options: { refund?: boolean; refundedBy: string; shiftId?: string; now?: Date }
+): Promise<'refunded' | 'retained' | null> {
+    const reservation = await findReservation(reservationId)
+
+    if (reservation.depositStatus === 'PENDING' && reservation.depositOrderId) {
+        await prisma.order.updateMany({
+            where: { id: reservation.depositOrderId, paymentStatus: 'UNPAID' },
+            data: { status: 'CANCELLED', cancelledAt: new Date(), cancelReason: 'Reservation cancelled' },
+        })
+        return null
+    }
+    if (!isRefundable(reservation.depositStatus)) return null
+
+    const settings = getReservationSettings(reservation.location.settings)
+    const refund = options.refund ?? depositOnCancel({
+        minutesToStart: minutesToStart(reservation, options.now ?? new Date()),
+        cutoffMinutes: settings.changeCutoffMinutes,
+    }) === 'refund'
+
+    if (refund) {
+        await refundDeposit(reservationId, {
+            reason: 'Reservation cancelled',
+            refundedBy: options.refundedBy,
+            shiftId: options.shiftId,
+        })
+        return 'refunded'
+    }
+    await retainDeposit(reservationId, 'Kept for a late cancellation')
+    return 'retained'
+}
+
+// ============================================================================
+// NO-SHOWS
+// ============================================================================
+
+/**
+ * Marks bookings still unseated well past their start as no-shows, freeing
+ * their tables and keeping or refunding their deposits as the location's
+ * settings say, and releases online bookings whose deposit was never paid
+ */
+export async function processNoShows(options: { now?: Date; limit?: number } = {}) {
+    const now = options.now ?? new Date()
+    const limit = options.limit ?? 200
+
+    // Wide enough for any timezone and grace period
+    const candidates = await prisma.reservation.findMany({
+        where: {
+            status: { in: CHANGEABLE_RESERVATION_STATUSES },
+            date: { gte: new Date(now.getTime() - 2 * 86_400_000), lte: new Date(now.getTime() + 86_400_000) },
+        },
+        include: depositInclude,
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+        take: limit,
+    })
+
+    const summary = { checked: candidates.length, noShows: 0, retained: 0, refunded: 0 }
+    const updated: { id: string; locationId: string; status: 'NO_SHOW' | 'CANCELLED' }[] = []
+
+    for (const reservation of candidates) {
+        const { deposits } = getReservationSettings(reservation.location.settings)
+        if (!isNoShow({ minutesToStart: minutesToStart(reservation, now), noShowAfterMinutes: deposits.noShowAfterMinutes })) {
+            continue
+        }
+
+        const { count } = await prisma.reservation.updateMany({
+            where: { id: reservation.id, status: { in: CHANGEABLE_RESERVATION_STATUSES } },
+            data: { status: 'NO_SHOW' },
+        })
+        if (count === 0) continue
+        summary.noShows++
+        updated.push({ id: reservation.id, locationId: reservation.locationId, status: 'NO_SHOW' })
+
+        const tableIds = [reservation.tableId, ...(Array.isArray(reservation.additionalTables) ? reservation.additionalTables : [])]
+            .filter((id): id is string => typeof id === 'string')
+        if (tableIds.length > 0) {
+            await prisma.table.updateMany({ where: { id: { in: tableIds }, status: 'RESERVED' }, data: { status: 'AVAILABLE' } })
+        }
+
+        if (reservation.depositStatus !== 'PAID') continue
+        if (deposits.retainOnNoShow) {
+            if (await retainDeposit(reservation.id, 'Kept for a no-show')) summary.retained++
+        } else {
+            try {
+                await refundDeposit(reservation.id, { reason: 'No-show, deposit refunded', refundedBy: 'system' })
+                summary.refunded++
+            } catch (error) {
+                console.error(`Failed to refund deposit for ${reservation.reservationNumber}:`, error)
+            }
+        }
+    }
+
+    const released = await releaseExpiredHolds(now)
+    updated.push(...released)
+
+    return { ...summary, released: released.length, updated }
+}
+
+/**
+ * Online bookings waiting on a deposit the guest never paid, once the
+ * location's payment hold has run out. A payment still with the gateway
+ * doesn't keep the table held; should it land after all, the deposit is
+ * refunded as the booking is already cancelled.
+ */
+async function releaseExpiredHolds(now: Date) {
+    const holds = await prisma.reservation.findMany({
+        where: {
+            status: 'PENDING',
+            depositStatus: 'PENDING',
+            source: { in: ['WEBSITE', 'APP'] },
+            createdAt: { lt: new Date(now.getTime() - 60_000) },
+        },
+        include: depositInclude,
+        take: 200,
+    })
+
+    const released: { id: string; locationId: string; status: 'CANCELLED' }[] = []
+    for (const hold of holds) {
+        const { deposits } = getReservationSettings(hold.location.settings)
+        if (now.getTime() - hold.createdAt.getTime() < deposits.paymentHoldMinutes * 60_000) continue
+        if (await releaseUnpaidBooking(hold.id, 'The deposit was not paid in time')) {
+            released.push({ id: hold.id, locationId: hold.locationId, status: 'CANCELLED' })
+        }
+    }
+    return released
+}
@@ -0,0 +1,205 @@
+/**
+ * Reservation Deposits
+ * Pure rules for which bookings take a deposit and how much: by party size,
+ * date, weekday or occasion, plus the rental fee of a private area, and
+ * what happens to the deposit when the booking is cancelled or the party
+ * doesn't show
+ */
+
+import type { Weekday } from './slots'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DepositRule {
+    /** Shown to the guest as the reason for the deposit */
+    label: string
+    /** Parties of at least this size; null for any */
+    minPartySize: number | null
+    /** Bookings for one of these occasions, matched ignoring case; empty for any */
+    occasions: string[]
+    /** YYYY-MM-DD dates; empty for any */
+    dates: string[]
+    /** Days of the week; empty for any */
+    weekdays: Weekday[]
+    amount: number
+    /** Charge the amount for every guest rather than once */
+    perGuest: boolean
+}
+
+export interface DepositSettings {
+    rules: DepositRule[]
+    /** Bookings in an area with a rental fee pay the fee as their deposit */
+    chargeAreaRentalFee: boolean
+    /** Keep the deposit when the party doesn't show; refund it otherwise */
+    retainOnNoShow: boolean
+    /** How long after the start an unseated booking becomes a no-show */
+    noShowAfterMinutes: number
+    /** Online bookings whose deposit is still unpaid are released after this long */
+    paymentHoldMinutes: number
+}
+
+export interface DepositQuery {
+    partySize: number
+    /** YYYY-MM-DD */
+    date: string
+    occasion?: string | null
+    /** Highest rental fee among the booking's areas */
+    areaRentalFee?: number | null
+}
+
+export interface DepositQuote {
+    amount: number
+    /** Labels of the rules that set the amount, and the area fee */
+    reasons: string[]
+}
+
+export type DepositOnCancel = 'refund' | 'retain'
+
+export interface DepositPayment {
+    id: string
+    status: string
+    amount: number
+    refundedAmount: number
+}
+
+export interface DepositRefundPlan {
+    /** Payments the payment service can refund, with what is left on each */
+    refunds: { transactionId: string; amount: number }[]
+    /** Why the rest of the deposit can't be refunded automatically */
+    blocked: string[]
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const DEFAULT_DEPOSIT_SETTINGS: DepositSettings = {
+    rules: [],
+    chargeAreaRentalFee: false,
+    retainOnNoShow: true,
+    noShowAfterMinutes: 30,
+    paymentHoldMinutes: 30,
+}
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+function stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '') : []
+}
+
+function parseRule(value: unknown): DepositRule | null {
+    if (!value || typeof value !== 'object') return null
+    const raw = value as Record<string, unknown>
+    if (typeof raw.amount !== 'number' || !(raw.amount > 0)) return null
+
+    return {
+        label: typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : 'Deposit',
+        minPartySize: typeof raw.minPartySize === 'number' && Number.isInteger(raw.minPartySize) && raw.minPartySize > 0
+            ? raw.minPartySize
+            : null,
+        occasions: stringList(raw.occasions).map(occasion => occasion.trim()),
+        dates: stringList(raw.dates).filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date)),
+        weekdays: stringList(raw.weekdays).filter((day): day is Weekday => WEEKDAYS.includes(day as Weekday)),
+        amount: raw.amount,
+        perGuest: raw.perGuest === true,
+    }
+}
+
+/**
+ * Reads the deposits block of the reservations settings, e.g.
+ * { "rules": [{ "label": "Large parties", "minPartySize": 8, "amount": 500, "perGuest": true }] }
+ */
+export function parseDepositSettings(value: unknown): DepositSettings {
+    const defaults = DEFAULT_DEPOSIT_SETTINGS
+    if (!value || typeof value !== 'object') return { ...defaults, rules: [] }
+    const raw = value as Record<string, unknown>
+
+    const minutes = (entry: unknown, fallback: number, min: number) =>
+        typeof entry === 'number' && Number.isInteger(entry) && entry >= min ? entry : fallback
+
+    return {
+        rules: Array.isArray(raw.rules)
+            ? raw.rules.map(parseRule).filter((rule): rule is DepositRule => rule !== null)
+            : [],
+        chargeAreaRentalFee: raw.chargeAreaRentalFee === true,
+        retainOnNoShow: typeof raw.retainOnNoShow === 'boolean' ? raw.retainOnNoShow : defaults.retainOnNoShow,
+        noShowAfterMinutes: minutes(raw.noShowAfterMinutes, defaults.noShowAfterMinutes, 0),
+        paymentHoldMinutes: minutes(raw.paymentHoldMinutes, defaults.paymentHoldMinutes, 1),
+    }
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+function ruleApplies(rule: DepositRule, query: DepositQuery): boolean {
+    if (rule.minPartySize !== null && query.partySize < rule.minPartySize) return false
+    if (rule.dates.length > 0 && !rule.dates.includes(query.date)) return false
+    if (rule.weekdays.length > 0 && !rule.weekdays.includes(WEEKDAYS[new Date(`${query.date}T00:00:00Z`).getUTCDay()])) return false
+    if (rule.occasions.length > 0) {
+        const occasion = query.occasion?.trim().toLowerCase()
+        if (!occasion || !rule.occasions.some(entry => entry.toLowerCase() === occasion)) return false
+    }
+    return true
+}
+
+/**
+ * The deposit a booking takes: the largest of the rules that apply to it,
+ * plus the area's rental fee when that is charged. Zero when none apply.
+ */
+export function quoteDeposit(query: DepositQuery, settings: DepositSettings): DepositQuote {
+    let amount = 0
+    let reasons: string[] = []
+
+    for (const rule of settings.rules) {
+        if (!ruleApplies(rule, query)) continue
+        const ruleAmount = rule.perGuest ? rule.amount * query.partySize : rule.amount
+        if (ruleAmount > amount) {
+            amount = ruleAmount
+            reasons = [rule.label]
+        }
+    }
+
+    if (settings.chargeAreaRentalFee && query.areaRentalFee && query.areaRentalFee > 0) {
+        amount += query.areaRentalFee
+        reasons = [...reasons, 'Private area rental']
+    }
+
+    return { amount: Math.round(amount * 100) / 100, reasons }
+}
+
+/**
+ * A cancelled booking's deposit is refunded inside the cancellation window,
+ * the same window guests can change the booking online in, and kept after it
+ */
+export function depositOnCancel(input: { minutesToStart: number; cutoffMinutes: number }): DepositOnCancel {
+    return input.minutesToStart >= input.cutoffMinutes ? 'refund' : 'retain'
+}
+
+/**
+ * Whether an unseated booking is late enough to count as a no-show
+ */
+export function isNoShow(input: { minutesToStart: number; noShowAfterMinutes: number }): boolean {
+    return -input.minutesToStart >= input.noShowAfterMinutes
+}
+
+/**
+ * How a deposit's payments are refunded. Only completed payments go back
+ * through the payment service; one already partly refunded has to have the
+ * rest paid back by hand.
+ */
+export function planDepositRefund(payments: DepositPayment[]): DepositRefundPlan {
+    const plan: DepositRefundPlan = { refunds: [], blocked: [] }
+    for (const payment of payments) {
+        const remaining = Math.round((payment.amount - payment.refundedAmount) * 100) / 100
+        if (remaining <= 0) continue
+        if (payment.status === 'COMPLETED') {
+            plan.refunds.push({ transactionId: payment.id, amount: remaining })
+        } else if (payment.status === 'PARTIALLY_REFUNDED') {
+            plan.blocked.push(`${remaining.toFixed(2)} is left on a partly refunded payment`)
+        }
+    }
+    return plan
+}
@@ -0,0 +1,473 @@
+/**
+ * Guest Reservation Service
+ * Online booking and self-service through the signed manage link:
+ * confirmation, reminder, change and cancellation messages, and the
+ * bookings a customer sees in their profile
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Prisma, Reservation } from '@prisma/client'
+import { notify, type NotificationChannel } from '@/lib/notifications'
+import type { DomainEvent } from '@/lib/realtime'
+import { formatTimeOfDay, timeOfDayFromDate, type SeatingPreference } from './availability'
+import { getReservationSettings, minutesUntil } from './slots'
+import { quoteDeposit } from './deposits'
+import { getPaymentMethods } from '@/lib/payments/payment.service'
+import {
+    buildManageUrl,
+    getManageLinkSecret,
+    guestChangeBlockedReason,
+    isReminderDue,
+    signManageToken,
+    verifyManageToken,
+} from './manage'
+import {
+    CHANGEABLE_RESERVATION_STATUSES,
+    createReservation,
+    rescheduleReservation,
+} from './reservation.service'
+import { collectDeposit, releaseUnpaidBooking, settleDepositOnCancel } from './deposit.service'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OnlineBookingInput {
+    /** Id or slug */
+    locationId: string
+    customerId?: string
+    guestName: string
+    guestEmail?: string
+    guestPhone: string
+    partySize: number
+    /** YYYY-MM-DD */
+    date: string
+    /** HH:MM */
+    startTime: string
+    seatingPreferences?: SeatingPreference[]
+    occasion?: string
+    specialRequests?: string
+    dietaryNotes?: string
+    /** How the guest pays a deposit, when the booking takes one */
+    paymentMethodId?: string
+}
+
+export interface GuestRescheduleInput {
+    date: string
+    startTime: string
+    partySize: number
+}
+
+type ReservationMessageTemplate =
+    | 'reservation-confirmation'
+    | 'reservation-reminder'
+    | 'reservation-changed'
+    | 'reservation-cancelled'
+
+const GUEST_CHANNELS: NotificationChannel[] = ['email', 'sms']
+
+const guestReservationInclude = {
+    location: {
+        select: { id: true, name: true, slug: true, address: true, city: true, phone: true, timezone: true, settings: true },
+    },
+} satisfies Prisma.ReservationInclude
+
+type GuestReservation = Prisma.ReservationGetPayload<{ include: typeof guestReservationInclude }>
+
+// ============================================================================
+// LINKS & MESSAGES
+// ============================================================================
+
+function appUrl(): string {
+    return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+}
+
+/**
+ * The guest's manage-booking link, or null when no signing secret is set
+ */
+export function getManageUrl(reservationId: string): string | null {
+    const secret = getManageLinkSecret()
+    return secret ? buildManageUrl(appUrl(), signManageToken(reservationId, secret)) : null
+}
+
+function reservationMessageData(reservation: Reservation & { location: { name: string } }) {
+    return {
+        guestName: reservation.guestName,
+        partySize: reservation.partySize,
+        locationName: reservation.location.name,
+        date: reservation.date.toISOString().slice(0, 10),
+        time: formatTimeOfDay(timeOfDayFromDate(reservation.startTime)),
+        reservationNumber: reservation.reservationNumber,
+        manageUrl: CHANGEABLE_RESERVATION_STATUSES.includes(reservation.status) ? getManageUrl(reservation.id) : null,
+        depositAmount: reservation.depositAmount ? Number(reservation.depositAmount).toFixed(2) : null,
+        depositRefunded: reservation.depositStatus === 'REFUNDED',
+        depositRefundPending: reservation.depositStatus === 'REFUND_PENDING',
+    }
+}
+
+/**
+ * Emails and texts the guest about their booking. Never throws; delivery
+ * problems are logged and left on the notification rows.
+ */
+export async function notifyReservationGuest(
+    reservation: Reservation & { location: { name: string } },
+    template: ReservationMessageTemplate
+) {
+    await notify({
+        template,
+        data: reservationMessageData(reservation),
+        channels: GUEST_CHANNELS,
+        recipient: {
+            type: reservation.customerId ? 'customer' : 'guest',
+            id: reservation.customerId,
+            email: reservation.guestEmail,
+            phone: reservation.guestPhone,
+        },
+        reference: { type: 'reservation', id: reservation.id },
+    }).catch((error) => console.error(`Failed to send ${template}:`, error))
+}
+
+export function reservationCreatedEvent(reservation: Reservation): DomainEvent {
+    return {
+        type: 'reservation.created',
+        locationId: reservation.locationId,
+        reservation: {
+            id: reservation.id,
+            reservationNumber: reservation.reservationNumber,
+            guestName: reservation.guestName,
+            partySize: reservation.partySize,
+            date: reservation.date.toISOString().slice(0, 10),
+            startTime: formatTimeOfDay(timeOfDayFromDate(reservation.startTime)),
+            status: reservation.status,
+        },
+    }
+}
+
+/**
+ * What the guest sees of their booking, and whether they can still change it
+ */
+export function toGuestReservation(reservation: GuestReservation, now = new Date()) {
+    const settings = getReservationSettings(reservation.location.settings)
+    const date = reservation.date.toISOString().slice(0, 10)
+    const start = timeOfDayFromDate(reservation.startTime)
+    const changeBlockedReason = guestChangeBlockedReason({
+        status: reservation.status,
+        minutesToStart: minutesUntil(date, start, reservation.location.timezone, now),
+        cutoffMinutes: settings.changeCutoffMinutes,
+    })
+
+    return {
+        id: reservation.id,
+        reservationNumber: reservation.reservationNumber,
+        status: reservation.status,
+        guestName: reservation.guestName,
+        partySize: reservation.partySize,
+        date,
+        time: formatTimeOfDay(start),
+        duration: reservation.duration,
+        seatingPreferences: reservation.seatingPreferences,
+        occasion: reservation.occasion,
+        specialRequests: reservation.specialRequests,
+        location: {
+            id: reservation.location.id,
+            name: reservation.location.name,
+            slug: reservation.location.slug,
+            address: reservation.location.address,
+            city: reservation.location.city,
+            phone: reservation.location.phone,
+        },
+        deposit: reservation.depositRequired && reservation.depositAmount
+            ? { amount: Number(reservation.depositAmount), status: reservation.depositStatus }
+            : null,
+        canChange: changeBlockedReason === null,
+        changeBlockedReason,
+        changeCutoffMinutes: settings.changeCutoffMinutes,
+        manageUrl: changeBlockedReason === null ? getManageUrl(reservation.id) : null,
+    }
+}
+
+// ============================================================================
+// BOOKING
+// ============================================================================
+
+/**
+ * An active dine-in location taking online bookings, by id or slug
+ */
+export async function findBookableLocation(idOrSlug: string) {
+    const [location, restaurant] = await Promise.all([
+        prisma.location.findFirst({
+            where: { OR: [{ id: idOrSlug }, { slug: idOrSlug }], isActive: true, hasDineIn: true },
+            select: { id: true, name: true, slug: true },
+        }),
+        prisma.restaurantSettings.findFirst({ select: { enableReservations: true } }),
+    ])
+    if (!location) {
+        throw new Error('Location not found')
+    }
+    if (restaurant && !restaurant.enableReservations) {
+        throw new Error('Online reservations are not available')
+    }
+    return location
+}
+
+/**
+ * Wallets the guest approves in their own app, which the gateway then
+ * settles with us. Cards are left out: their payment has to be confirmed on
+ * the page, which the booking dialog doesn't do.
+ */
+const ONLINE_DEPOSIT_GATEWAYS = ['jazzcash', 'easypaisa']
+
+function takesOnlineDeposits(method: { gatewayProvider: string | null }) {
+    return method.gatewayProvider !== null && ONLINE_DEPOSIT_GATEWAYS.includes(method.gatewayProvider)
+}
+
+/**
+ * The deposit a party would pay to book on the date, before any area fee
+ * for the table they get, and the ways they can pay it online
+ */
+export async function getOnlineDepositQuote(query: { location: string; date: string; partySize: number; occasion?: string }) {
+    const location = await findBookableLocation(query.location)
+    const { settings } = await prisma.location.findUniqueOrThrow({ where: { id: location.id }, select: { settings: true } })
+
+    const deposit = quoteDeposit(
+        { partySize: query.partySize, date: query.date, occasion: query.occasion },
+        getReservationSettings(settings).deposits
+    )
+    const paymentMethods = deposit.amount > 0
+        ? (await getPaymentMethods()).filter(takesOnlineDeposits)
+        : []
+
+    return {
+        deposit,
+        paymentMethods: paymentMethods.map(method => ({ id: method.id, name: method.name, type: method.type })),
+    }
+}
+
+/**
+ * Books a table from the website. The slot engine has already vouched for
+ * the time, so the booking is confirmed straight away and the guest sent
+ * their confirmation with the manage link; a booking taking a deposit is
+ * held until the deposit is paid and confirmed then. A booking whose deposit
+ * can't be taken is released again.
+ */
+export async function bookOnline(input: OnlineBookingInput) {
+    const { paymentMethodId, ...booking } = input
+    const location = await findBookableLocation(input.locationId)
+    if (paymentMethodId) {
+        const method = await prisma.paymentMethod.findUnique({ where: { id: paymentMethodId } })
+        if (!method || !method.isActive || !takesOnlineDeposits(method)) {
+            throw new Error('This payment method can\'t be used to pay a deposit online')
+        }
+    }
+    const created = await createReservation({ ...booking, locationId: location.id, source: 'WEBSITE', status: 'CONFIRMED' })
+
+    let depositPayment: { pending: boolean; error?: string } | null = null
+    if (created.depositRequired) {
+        const amount = Number(created.depositAmount)
+        if (!paymentMethodId) {
+            await releaseUnpaidBooking(created.id, 'No deposit payment was given')
+            throw new Error(`A deposit of ${amount.toFixed(2)} is required to book this table`)
+        }
+
+        try {
+            const { payment } = await collectDeposit(created.id, { paymentMethodId })
+            if (!payment.success) {
+                throw new Error(payment.error || 'declined')
+            }
+            depositPayment = { pending: payment.pending, error: payment.error }
+        } catch (error) {
+            await releaseUnpaidBooking(created.id, 'The deposit payment failed')
+            throw new Error(`The deposit payment failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+        }
+    } else {
+        await sendConfirmationOnce(created)
+    }
+
+    const reservation = await prisma.reservation.findUniqueOrThrow({
+        where: { id: created.id },
+        include: guestReservationInclude,
+    })
+    return { reservation, guest: toGuestReservation(reservation), depositPayment }
+}
+
+/**
+ * Flags the confirmation as sent and sends it, once; later calls send nothing
+ */
+export async function sendConfirmationOnce(reservation: Reservation & { location: { name: string } }) {
+    const { count } = await prisma.reservation.updateMany({
+        where: { id: reservation.id, confirmationSent: false },
+        data: { confirmationSent: true, confirmationSentAt: new Date() },
+    })
+    if (count === 1) {
+        await notifyReservationGuest(reservation, 'reservation-confirmation')
+    }
+}
+
+// ============================================================================
+// MANAGE LINK
+// ============================================================================
+
+/**
+ * The reservation a manage link was signed for
+ */
+export async function getReservationByToken(token: string): Promise<GuestReservation> {
+    const secret = getManageLinkSecret()
+    if (!secret) {
+        throw new Error('Reservation links are not configured')
+    }
+
+    const id = verifyManageToken(token, secret)
+    const reservation = id
+        ? await prisma.reservation.findUnique({ where: { id }, include: guestReservationInclude })
+        : null
+    if (!reservation) {
+        throw new Error('Reservation not found')
+    }
+    return reservation
+}
+
+function assertGuestCanChange(reservation: GuestReservation) {
+    const guest = toGuestReservation(reservation)
+    if (!guest.canChange) {
+        throw new Error(guest.changeBlockedReason ?? 'This reservation can no longer be changed online')
+    }
+}
+
+/**
+ * Moves the guest's booking within the change window and tells them
+ */
+export async function rescheduleByGuest(token: string, input: GuestRescheduleInput) {
+    const current = await getReservationByToken(token)
+    assertGuestCanChange(current)
+
+    // A change that would take more deposit than was paid goes through the restaurant
+    await rescheduleReservation(current.id, { ...input, source: 'WEBSITE', refuseLargerDeposit: true })
+    const reservation = await prisma.reservation.findUniqueOrThrow({
+        where: { id: current.id },
+        include: guestReservationInclude,
+    })
+    await notifyReservationGuest(reservation, 'reservation-changed')
+
+    return { reservation, guest: toGuestReservation(reservation) }
+}
+
+/**
+ * Cancels the guest's booking within the change window and tells them
+ */
+export async function cancelByGuest(token: string, reason?: string) {
+    const current = await getReservationByToken(token)
+    assertGuestCanChange(current)
+
+    const { count } = await prisma.reservation.updateMany({
+        where: { id: current.id, status: { in: CHANGEABLE_RESERVATION_STATUSES } },
+        data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancelReason: reason?.trim() || 'Cancelled by guest online',
+        },
+    })
+    if (count === 0) {
+        throw new Error('This reservation can no longer be changed online')
+    }
+
+    // Guests can only cancel inside the cancellation window, so this refunds.
+    // A refund that fails is left REFUND_PENDING on the booking for staff,
+    // and the guest is told it is being followed up rather than refunded.
+    await settleDepositOnCancel(current.id, { refundedBy: 'guest' })
+        .catch((error) => console.error(`Failed to refund deposit for ${current.reservationNumber}:`, error))
+
+    const reservation = await prisma.reservation.findUniqueOrThrow({
+        where: { id: current.id },
+        include: guestReservationInclude,
+    })
+    await notifyReservationGuest(reservation, 'reservation-cancelled')
+
+    return { reservation, guest: toGuestReservation(reservation) }
+}
+
+// ============================================================================
+// CUSTOMERS
+// ============================================================================
+
+/**
+ * A customer's bookings, upcoming first then the most recent past ones
+ */
+export async function listCustomerReservations(customerId: string, now = new Date()) {
+    const reservations = await prisma.reservation.findMany({
+        where: { customerId },
+        include: guestReservationInclude,
+        orderBy: [{ date: 'desc' }, { startTime: 'desc' }],
+        take: 50,
+    })
+
+    const entries = reservations.map(reservation => ({
+        guest: toGuestReservation(reservation, now),
+        upcoming: CHANGEABLE_RESERVATION_STATUSES.includes(reservation.status) && minutesUntil(
+            reservation.date.toISOString().slice(0, 10),
+            timeOfDayFromDate(reservation.startTime),
+            reservation.location.timezone,
+            now
+        ) > 0,
+    }))
+
+    // Soonest first for what's coming up, latest first for the rest
+    const upcoming = entries.filter(entry => entry.upcoming).map(entry => entry.guest).reverse()
+    const past = entries.filter(entry => !entry.upcoming).map(entry => entry.guest)
+    return { upcoming, past }
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * Sends the reminder for every confirmed booking whose lead time has
+ * begun. Each reminder is claimed before it is sent, so overlapping runs
+ * cannot send it twice.
+ */
+export async function sendDueReminders(options: { now?: Date; limit?: number } = {}) {
+    const now = options.now ?? new Date()
+    const limit = options.limit ?? 200
+
+    // Wide enough for any timezone and a lead time of up to a week
+    const from = new Date(now.getTime() - 86_400_000)
+    const to = new Date(now.getTime() + 8 * 86_400_000)
+
+    const candidates = await prisma.reservation.findMany({
+        where: {
+            status: 'CONFIRMED',
+            reminderSent: false,
+            date: { gte: from, lte: to },
+        },
+        include: guestReservationInclude,
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+        take: limit,
+    })
+
+    let sent = 0
+    for (const reservation of candidates) {
+        const settings = getReservationSettings(reservation.location.settings)
+        const due = isReminderDue({
+            minutesToStart: minutesUntil(
+                reservation.date.toISOString().slice(0, 10),
+                timeOfDayFromDate(reservation.startTime),
+                reservation.location.timezone,
+                now
+            ),
+            minutesSinceBooked: (now.getTime() - reservation.createdAt.getTime()) / 60_000,
+            leadMinutes: settings.reminderLeadMinutes,
+        })
+        if (!due) continue
+
+        const { count } = await prisma.reservation.updateMany({
+            where: { id: reservation.id, status: 'CONFIRMED', reminderSent: false },
+            data: { reminderSent: true, reminderSentAt: now },
+        })
+        if (count === 0) continue
+
+        await notifyReservationGuest(reservation, 'reservation-reminder')
+        sent++
+    }
+
+    return { checked: candidates.length, sent }
+}
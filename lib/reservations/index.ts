@@ -0,0 +1,8 @@
+export * from './availability'
+export * from './reservation.service'
+export * from './slots'
+export * from './slots.service'
+export * from './manage'
+export * from './guest.service'
+export * from './deposits'
+export * from './deposit.service'
@@ -0,0 +1,94 @@
+/**
+ * Guest Self-Service
+ * Signed manage-booking links and the rules for when guests may change or
+ * cancel a booking themselves, and when its reminder is due
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// ============================================================================
+// MANAGE LINKS
+// ============================================================================
+
+function signature(reservationId: string, secret: string): string {
+    return createHmac('sha256', secret).update(`reservation:${reservationId}`).digest('base64url')
+}
+
+/**
+ * A token naming the reservation, signed so guests can't guess another's
+ */
+export function signManageToken(reservationId: string, secret: string): string {
+    return `${reservationId}.${signature(reservationId, secret)}`
+}
+
+/**
+ * The reservation id the token was signed for, or null when it was not
+ * signed with this secret
+ */
+export function verifyManageToken(token: string, secret: string): string | null {
+    const dot = token.lastIndexOf('.')
+    if (dot <= 0) return null
+
+    const reservationId = token.slice(0, dot)
+    const given = Buffer.from(token.slice(dot + 1))
+    const expected = Buffer.from(signature(reservationId, secret))
+    return given.length === expected.length && timingSafeEqual(given, expected) ? reservationId : null
+}
+
+/**
+ * Secret manage links are signed with; the auth secret unless one is set
+ * for them
+ */
+export function getManageLinkSecret(): string | null {
+    return process.env.RESERVATION_LINK_SECRET || process.env.NEXTAUTH_SECRET || null
+}
+
+export function buildManageUrl(appUrl: string, token: string): string {
+    return `${appUrl.replace(/\/$/, '')}/reservations/manage?token=${encodeURIComponent(token)}`
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+/**
+ * Why a guest can no longer change or cancel the booking online, or null
+ * while they still can. `minutesToStart` is on the location's clock.
+ */
+export function guestChangeBlockedReason(input: {
+    status: string
+    minutesToStart: number
+    cutoffMinutes: number
+}): string | null {
+    if (input.status !== 'PENDING' && input.status !== 'CONFIRMED') {
+        return `This reservation is ${input.status.toLowerCase().replace(/_/g, ' ')}`
+    }
+    if (input.minutesToStart < input.cutoffMinutes) {
+        return input.cutoffMinutes > 0
+            ? `Changes can be made online until ${formatDuration(input.cutoffMinutes)} before your booking; please call us`
+            : 'This reservation has already started'
+    }
+    return null
+}
+
+/**
+ * Whether the reminder should go out now: inside the lead time, before the
+ * start, and only for bookings made before the lead time began, since guests
+ * who booked at short notice were just sent their confirmation
+ */
+export function isReminderDue(input: {
+    minutesToStart: number
+    minutesSinceBooked: number
+    leadMinutes: number
+}): boolean {
+    const { minutesToStart, minutesSinceBooked, leadMinutes } = input
+    return minutesToStart > 0
+        && minutesToStart <= leadMinutes
+        && minutesSinceBooked + minutesToStart > leadMinutes
+}
+
+function formatDuration(minutes: number): string {
+    if (minutes % 1440 === 0) return `${minutes / 1440} ${minutes === 1440 ? 'day' : 'days'}`
+    if (minutes % 60 === 0) return `${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`
+    return `${minutes} minutes`
+}
@@ -0,0 +1,503 @@
+/**
+ * Reservation Service
+ * Books tables without double-booking them: availability is checked and the
+ * reservation written in one transaction, with the best free table assigned
+ * when the host leaves it to us
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { Prisma, type ReservationSource, type ReservationStatus } from '@prisma/client'
+import { nextSequenceValue } from '@/lib/sequences'
+import {
+    findConflicts,
+    findTableOptions,
+    formatTimeOfDay,
+    parseTimeOfDay,
+    timeOfDayToDate,
+    type AvailabilityTable,
+    type BookedReservation,
+    type SeatingPreference,
+    type TimeWindow,
+} from './availability'
+import {
+    assertPartySize,
+    buildSlotGrid,
+    checkBookingTime,
+    elapsedMinutes,
+    getTurnTime,
+} from './slots'
+import { loadSlotRules } from './slots.service'
+import { quoteDeposit } from './deposits'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreateReservationInput {
+    locationId: string
+    customerId?: string
+    guestName: string
+    guestEmail?: string
+    guestPhone: string
+    partySize: number
+    /** YYYY-MM-DD */
+    date: string
+    /** HH:MM */
+    startTime: string
+    duration?: number
+    tableId?: string
+    additionalTableIds?: string[]
+    seatingPreferences?: SeatingPreference[]
+    occasion?: string
+    specialRequests?: string
+    dietaryNotes?: string
+    source?: ReservationSource
+    /** Online bookings are confirmed as made; staff bookings start pending, as do any taking a deposit */
+    status?: Extract<ReservationStatus, 'PENDING' | 'CONFIRMED'>
+}
+
+export interface RescheduleReservationInput {
+    /** YYYY-MM-DD */
+    date: string
+    /** HH:MM */
+    startTime: string
+    partySize: number
+    duration?: number
+    /** Who is making the change, for the notice period; the booking's own source by default */
+    source?: ReservationSource
+    /** Refuse a change that would take a larger deposit than the booking holds */
+    refuseLargerDeposit?: boolean
+}
+
+export interface AvailabilityQuery {
+    locationId: string
+    date: string
+    time: string
+    partySize: number
+    duration?: number
+    preferences?: SeatingPreference[]
+}
+
+export interface SlotGridQuery {
+    locationId: string
+    date: string
+    partySize: number
+    preferences?: SeatingPreference[]
+    now?: Date
+}
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+/** Bookings that hold their tables; seated parties hold them until they leave */
+export const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = ['PENDING', 'CONFIRMED', 'SEATED']
+
+/** Bookings that can still be moved or cancelled */
+export const CHANGEABLE_RESERVATION_STATUSES: ReservationStatus[] = ['PENDING', 'CONFIRMED']
+
+/** Guests booking for themselves are held to the minimum notice; staff are not */
+const SELF_SERVICE_SOURCES: ReservationSource[] = ['WEBSITE', 'APP']
+
+const locationSelect = {
+    id: true,
+    code: true,
+    hours: true,
+    timezone: true,
+    settings: true,
+} satisfies Prisma.LocationSelect
+
+type BookingLocation = Prisma.LocationGetPayload<{ select: typeof locationSelect }>
+
+const reservationInclude = {
+    location: { select: { id: true, name: true } },
+    table: { select: { id: true, tableNumber: true } },
+} satisfies Prisma.ReservationInclude
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * A YYYY-MM-DD booking date as stored in the `@db.Date` column
+ */
+export function parseReservationDate(date: string): Date {
+    const parsed = new Date(`${date}T00:00:00Z`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        throw new Error(`Invalid date: ${date}`)
+    }
+    return parsed
+}
+
+/**
+ * The location's tables and the bookings holding them on the day
+ */
+async function loadBookingContext(db: Db, locationId: string, date: Date, excludeReservationId?: string) {
+    const [tables, reservations] = await Promise.all([
+        db.table.findMany({
+            where: { isActive: true, area: { locationId, isActive: true } },
+            include: { area: true },
+            orderBy: { tableNumber: 'asc' },
+        }),
+        db.reservation.findMany({
+            where: {
+                locationId,
+                date,
+                status: { in: ACTIVE_RESERVATION_STATUSES },
+                ...(excludeReservationId && { id: { not: excludeReservationId } }),
+            },
+            select: { id: true, tableId: true, additionalTables: true, startTime: true, duration: true, partySize: true },
+        }),
+    ])
+    return { tables: tables as AvailabilityTable[], reservations: reservations as BookedReservation[] }
+}
+
+async function findLocation(db: Db, locationId: string) {
+    const location = await db.location.findUnique({ where: { id: locationId }, select: locationSelect })
+    if (!location) {
+        throw new Error('Location not found')
+    }
+    return location
+}
+
+function describePreferences(preferences: SeatingPreference[]): string {
+    return preferences.length > 0 ? `${preferences.join(', ')} ` : ''
+}
+
+/**
+ * Checks a table, or a set combined by the host, for the party and window
+ */
+function checkChosenTables(
+    tableIds: string[],
+    tables: AvailabilityTable[],
+    reservations: BookedReservation[],
+    partySize: number,
+    window: TimeWindow
+) {
+    const chosen = tableIds.map(id => tables.find(table => table.id === id))
+    if (chosen.some(table => !table)) {
+        throw new Error('Table not found')
+    }
+    const chosenTables = chosen as AvailabilityTable[]
+    const names = chosenTables.map(table => table.tableNumber).join(' + ')
+
+    if (new Set(tableIds).size !== tableIds.length) {
+        throw new Error('A table can only be booked once per reservation')
+    }
+    const blocked = chosenTables.find(table => table.status === 'BLOCKED')
+    if (blocked) {
+        throw new Error(`Table ${blocked.tableNumber} is blocked`)
+    }
+    const seats = chosenTables.reduce((sum, table) => sum + table.maxSeats, 0)
+    if (seats < partySize) {
+        throw new Error(`Table ${names} seats ${seats}, not enough for ${partySize}`)
+    }
+
+    const [conflict] = findConflicts(tableIds, window, reservations)
+    if (conflict) {
+        const table = chosenTables.find(t => t.id === conflict.tableId)!
+        throw new Error(
+            `Table ${table.tableNumber} is already booked from ${formatTimeOfDay(conflict.window.start)} to ${formatTimeOfDay(conflict.window.end)}`
+        )
+    }
+}
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+/**
+ * Which tables are free for the party at the time, and the best table or
+ * combined set to give them. When the time can't be booked, the nearest
+ * bookable slots the same day are suggested instead.
+ */
+export async function getTableAvailability(query: AvailabilityQuery) {
+    const date = parseReservationDate(query.date)
+    const start = parseTimeOfDay(query.time)
+    const preferences = query.preferences ?? []
+
+    const location = await findLocation(prisma, query.locationId)
+    const [rules, { tables, reservations }] = await Promise.all([
+        loadSlotRules(prisma, location, date),
+        loadBookingContext(prisma, location.id, date),
+    ])
+    const duration = query.duration ?? getTurnTime(query.partySize, rules.settings)
+    const window = { start, end: start + duration }
+
+    const suitable = tables.filter(table => table.maxSeats >= query.partySize && table.status !== 'BLOCKED')
+    const taken = new Set(findConflicts(suitable.map(t => t.id), window, reservations).map(c => c.tableId))
+    const summaries = suitable.map(table => ({
+        tableId: table.id,
+        tableNumber: table.tableNumber,
+        area: table.area.name,
+        capacity: { min: table.minSeats, max: table.maxSeats },
+        available: !taken.has(table.id),
+        currentStatus: table.status,
+    }))
+
+    const options = findTableOptions({ tables, reservations, partySize: query.partySize, window, preferences })
+    const unavailableReason = checkBookingTime({
+        date: query.date,
+        start,
+        partySize: query.partySize,
+        day: rules.day,
+        settings: rules.settings,
+        reservations,
+        elapsed: elapsedMinutes(query.date, rules.timeZone, new Date()),
+        noticeMinutes: 0,
+    })
+    const available = options.length > 0 && !unavailableReason
+
+    const alternativeSlots = available ? [] : buildSlotGrid({
+        date: query.date,
+        partySize: query.partySize,
+        timeZone: rules.timeZone,
+        day: rules.day,
+        settings: rules.settings,
+        tables,
+        reservations,
+        preferences,
+        now: new Date(),
+    }).slots
+        .filter(slot => slot.available && slot.time !== formatTimeOfDay(start))
+        .sort((a, b) => Math.abs(parseTimeOfDay(a.time) - start) - Math.abs(parseTimeOfDay(b.time) - start))
+        .slice(0, 6)
+        .sort((a, b) => a.time.localeCompare(b.time))
+        .map(slot => ({ time: slot.time, availableCount: slot.tableOptions }))
+
+    return {
+        request: { date: query.date, time: query.time, partySize: query.partySize, duration, preferences },
+        available,
+        unavailableReason,
+        summary: {
+            totalTablesChecked: suitable.length,
+            available: summaries.filter(t => t.available).length,
+            unavailable: summaries.filter(t => !t.available).length,
+        },
+        tables: {
+            available: summaries.filter(t => t.available),
+            unavailable: summaries.filter(t => !t.available),
+        },
+        // Best fit first; the first is what a booking without a table gets
+        options,
+        // The bookable slots nearest the requested time
+        alternativeSlots,
+    }
+}
+
+/**
+ * Every start time on the date for the party, with whether it can be
+ * booked, for the booking widget
+ */
+export async function getSlotGrid(query: SlotGridQuery) {
+    const date = parseReservationDate(query.date)
+    const location = await findLocation(prisma, query.locationId)
+    const [rules, { tables, reservations }] = await Promise.all([
+        loadSlotRules(prisma, location, date),
+        loadBookingContext(prisma, location.id, date),
+    ])
+    assertPartySize(query.partySize, rules.settings)
+
+    return buildSlotGrid({
+        date: query.date,
+        partySize: query.partySize,
+        timeZone: rules.timeZone,
+        day: rules.day,
+        settings: rules.settings,
+        tables,
+        reservations,
+        preferences: query.preferences,
+        now: query.now ?? new Date(),
+    })
+}
+
+// ============================================================================
+// BOOKING
+// ============================================================================
+
+interface BookingPlanInput {
+    date: string
+    startTime: string
+    partySize: number
+    duration?: number
+    tableId?: string
+    additionalTableIds?: string[]
+    preferences: SeatingPreference[]
+    source: ReservationSource
+    /** The booking being moved, so it doesn't count against itself */
+    excludeReservationId?: string
+}
+
+/**
+ * Checks the time against the location's hours and pacing caps and picks
+ * the tables: the host's choice when given, else the best free fit
+ */
+async function planBooking(tx: Prisma.TransactionClient, location: BookingLocation, input: BookingPlanInput) {
+    const date = parseReservationDate(input.date)
+    const start = parseTimeOfDay(input.startTime)
+
+    const [rules, { tables, reservations }] = await Promise.all([
+        loadSlotRules(tx, location, date),
+        loadBookingContext(tx, location.id, date, input.excludeReservationId),
+    ])
+    assertPartySize(input.partySize, rules.settings)
+    const unavailable = checkBookingTime({
+        date: input.date,
+        start,
+        partySize: input.partySize,
+        day: rules.day,
+        settings: rules.settings,
+        reservations,
+        elapsed: elapsedMinutes(input.date, rules.timeZone, new Date()),
+        noticeMinutes: SELF_SERVICE_SOURCES.includes(input.source) ? rules.settings.minNoticeMinutes : 0,
+    })
+    if (unavailable) {
+        throw new Error(unavailable)
+    }
+
+    const duration = input.duration ?? getTurnTime(input.partySize, rules.settings)
+    const window = { start, end: start + duration }
+
+    if (input.tableId) {
+        const additionalTableIds = input.additionalTableIds ?? []
+        checkChosenTables([input.tableId, ...additionalTableIds], tables, reservations, input.partySize, window)
+        return { date, window, duration, settings: rules.settings, tableId: input.tableId, additionalTableIds }
+    }
+
+    const [best] = findTableOptions({ tables, reservations, partySize: input.partySize, window, preferences: input.preferences })
+    if (!best) {
+        throw new Error(
+            `No ${describePreferences(input.preferences)}table is free for a party of ${input.partySize} at ${formatTimeOfDay(start)}`
+        )
+    }
+    return { date, window, duration, settings: rules.settings, tableId: best.tableId, additionalTableIds: best.additionalTableIds }
+}
+
+/**
+ * Highest rental fee among the areas of the booking's tables
+ */
+async function areaRentalFee(tx: Prisma.TransactionClient, tableIds: string[]): Promise<number | null> {
+    const tables = await tx.table.findMany({
+        where: { id: { in: tableIds } },
+        select: { area: { select: { rentalFee: true } } },
+    })
+    const fees = tables.map(table => Number(table.area.rentalFee ?? 0))
+    return fees.length > 0 ? Math.max(...fees) : null
+}
+
+/**
+ * Books the reservation, refusing times outside the location's hours or over
+ * its pacing caps and any overlap with a booking already holding one of its
+ * tables. Bookings at a location queue on the location's row for the length
+ * of the transaction, so two hosts can't both take the last table.
+ */
+export async function createReservation(input: CreateReservationInput) {
+    const preferences = input.seatingPreferences ?? []
+    const source = input.source ?? 'DIRECT'
+
+    return prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "Location" WHERE id = ${input.locationId} FOR UPDATE`
+        const location = await findLocation(tx, input.locationId)
+
+        const plan = await planBooking(tx, location, { ...input, preferences, source })
+        const { number } = await nextSequenceValue(tx, 'reservation', location)
+
+        const { deposits } = plan.settings
+        const deposit = quoteDeposit({
+            partySize: input.partySize,
+            date: input.date,
+            occasion: input.occasion,
+            areaRentalFee: deposits.chargeAreaRentalFee
+                ? await areaRentalFee(tx, [plan.tableId, ...plan.additionalTableIds])
+                : null,
+        }, deposits)
+        const depositRequired = deposit.amount > 0
+
+        return tx.reservation.create({
+            data: {
+                reservationNumber: number,
+                locationId: location.id,
+                customerId: input.customerId,
+                guestName: input.guestName,
+                guestEmail: input.guestEmail || null,
+                guestPhone: input.guestPhone,
+                partySize: input.partySize,
+                date: plan.date,
+                startTime: timeOfDayToDate(plan.window.start),
+                endTime: timeOfDayToDate(plan.window.end),
+                duration: plan.duration,
+                tableId: plan.tableId,
+                ...(plan.additionalTableIds.length > 0 && { additionalTables: plan.additionalTableIds }),
+                seatingPreferences: preferences,
+                occasion: input.occasion,
+                specialRequests: input.specialRequests,
+                dietaryNotes: input.dietaryNotes,
+                source,
+                // Held until the deposit is paid
+                status: depositRequired ? 'PENDING' : input.status ?? 'PENDING',
+                depositRequired,
+                depositAmount: depositRequired ? deposit.amount : null,
+                depositStatus: depositRequired ? 'PENDING' : null,
+            },
+            include: reservationInclude,
+        })
+    })
+}
+
+/**
+ * Moves a booking to another time or party size, with the same checks as a
+ * new one and the best free tables at the new time. The reminder is sent
+ * again for the new time. The deposit taken is kept as it was.
+ */
+export async function rescheduleReservation(id: string, input: RescheduleReservationInput) {
+    return prisma.$transaction(async (tx) => {
+        const current = await tx.reservation.findUnique({ where: { id }, select: { locationId: true } })
+        if (!current) {
+            throw new Error('Reservation not found')
+        }
+
+        await tx.$queryRaw`SELECT id FROM "Location" WHERE id = ${current.locationId} FOR UPDATE`
+        const reservation = await tx.reservation.findUniqueOrThrow({ where: { id } })
+        if (!CHANGEABLE_RESERVATION_STATUSES.includes(reservation.status)) {
+            throw new Error(`Cannot reschedule a reservation with status ${reservation.status}`)
+        }
+
+        const location = await findLocation(tx, reservation.locationId)
+        const plan = await planBooking(tx, location, {
+            ...input,
+            preferences: reservation.seatingPreferences as SeatingPreference[],
+            source: input.source ?? reservation.source,
+            excludeReservationId: id,
+        })
+
+        if (input.refuseLargerDeposit) {
+            const { deposits } = plan.settings
+            const deposit = quoteDeposit({
+                partySize: input.partySize,
+                date: input.date,
+                occasion: reservation.occasion,
+                areaRentalFee: deposits.chargeAreaRentalFee
+                    ? await areaRentalFee(tx, [plan.tableId, ...plan.additionalTableIds])
+                    : null,
+            }, deposits)
+            const held = reservation.depositRequired ? Number(reservation.depositAmount ?? 0) : 0
+            if (deposit.amount > held + 0.005) {
+                throw new Error(`This change takes a deposit of ${deposit.amount.toFixed(2)}${held > 0 ? ` instead of ${held.toFixed(2)}` : ''}, please contact the restaurant to make it`)
+            }
+        }
+
+        return tx.reservation.update({
+            where: { id },
+            data: {
+                partySize: input.partySize,
+                date: plan.date,
+                startTime: timeOfDayToDate(plan.window.start),
+                endTime: timeOfDayToDate(plan.window.end),
+                duration: plan.duration,
+                tableId: plan.tableId,
+                additionalTables: plan.additionalTableIds.length > 0 ? plan.additionalTableIds : Prisma.DbNull,
+                reminderSent: false,
+                reminderSentAt: null,
+            },
+            include: reservationInclude,
+        })
+    })
+}
@@ -0,0 +1,205 @@
+/**
+ * Reservation Slot Settings Service
+ * Loads the hours and slot rules that apply to a location on a date, and
+ * manages its pacing settings and its closures and special hours
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { Prisma } from '@prisma/client'
+import {
+    getReservationSettings,
+    parseOpeningHours,
+    resolveDayHours,
+    type ReservationSettings,
+} from './slots'
+import type { DepositSettings } from './deposits'
+import { parseTimeOfDay } from './availability'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HoursExceptionInput {
+    closed: boolean
+    open?: string | null
+    close?: string | null
+    reason?: string | null
+}
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+interface SlotRulesLocation {
+    id: string
+    hours: Prisma.JsonValue
+    timezone: string
+    settings: Prisma.JsonValue
+}
+
+// ============================================================================
+// SLOT RULES
+// ============================================================================
+
+/**
+ * The location's settings and the hours it keeps on the date, in its own
+ * timezone. Locations without hours of their own use the restaurant's.
+ */
+export async function loadSlotRules(db: Db, location: SlotRulesLocation, date: Date) {
+    const own = parseOpeningHours(location.hours)
+    const [exception, restaurant] = await Promise.all([
+        db.locationHoursException.findUnique({
+            where: { locationId_date: { locationId: location.id, date } },
+        }),
+        own ? null : db.restaurantSettings.findFirst({ select: { hours: true } }),
+    ])
+    const weekly = own ?? parseOpeningHours(restaurant?.hours)
+
+    return {
+        timeZone: location.timezone,
+        settings: getReservationSettings(location.settings),
+        day: resolveDayHours(date.toISOString().slice(0, 10), weekly, exception),
+    }
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getLocationReservationSettings(locationId: string): Promise<ReservationSettings> {
+    const location = await prisma.location.findUnique({
+        where: { id: locationId },
+        select: { settings: true }
+    })
+
+    if (!location) {
+        throw new Error('Location not found')
+    }
+
+    return getReservationSettings(location.settings)
+}
+
+/**
+ * Replaces the location's reservations settings block, keeping its other
+ * settings, and its deposit rules when none are given
+ */
+export async function updateReservationSettings(
+    locationId: string,
+    input: Omit<ReservationSettings, 'deposits'> & { deposits?: DepositSettings }
+) {
+    const location = await prisma.location.findUnique({
+        where: { id: locationId },
+        select: { settings: true }
+    })
+
+    if (!location) {
+        throw new Error('Location not found')
+    }
+
+    if (input.minPartySize > input.maxPartySize) {
+        throw new Error('Minimum party size cannot be more than the maximum')
+    }
+
+    const current = (location.settings && typeof location.settings === 'object' && !Array.isArray(location.settings))
+        ? location.settings as Prisma.JsonObject
+        : {}
+
+    const reservations: Prisma.JsonObject = {
+        slotInterval: input.slotInterval,
+        maxCoversPerSlot: input.maxCoversPerSlot,
+        maxPartiesPerSlot: input.maxPartiesPerSlot,
+        minPartySize: input.minPartySize,
+        maxPartySize: input.maxPartySize,
+        turnTimes: [...input.turnTimes]
+            .sort((a, b) => a.upTo - b.upTo)
+            .map(turn => ({ upTo: turn.upTo, minutes: turn.minutes })),
+        defaultTurnTime: input.defaultTurnTime,
+        lastSeatingBeforeClose: input.lastSeatingBeforeClose,
+        minNoticeMinutes: input.minNoticeMinutes,
+        changeCutoffMinutes: input.changeCutoffMinutes,
+        reminderLeadMinutes: input.reminderLeadMinutes,
+        deposits: depositSettingsJson(input.deposits ?? getReservationSettings(location.settings).deposits),
+    }
+
+    const updated = await prisma.location.update({
+        where: { id: locationId },
+        data: { settings: { ...current, reservations } },
+        select: { settings: true }
+    })
+
+    return getReservationSettings(updated.settings)
+}
+
+function depositSettingsJson(deposits: DepositSettings): Prisma.JsonObject {
+    return {
+        rules: deposits.rules.map(rule => ({
+            label: rule.label,
+            minPartySize: rule.minPartySize,
+            occasions: rule.occasions,
+            dates: rule.dates,
+            weekdays: rule.weekdays,
+            amount: rule.amount,
+            perGuest: rule.perGuest,
+        })),
+        chargeAreaRentalFee: deposits.chargeAreaRentalFee,
+        retainOnNoShow: deposits.retainOnNoShow,
+        noShowAfterMinutes: deposits.noShowAfterMinutes,
+        paymentHoldMinutes: deposits.paymentHoldMinutes,
+    }
+}
+
+// ============================================================================
+// HOURS EXCEPTIONS
+// ============================================================================
+
+export async function listHoursExceptions(locationId: string, range: { from?: Date; to?: Date } = {}) {
+    return prisma.locationHoursException.findMany({
+        where: {
+            locationId,
+            ...((range.from || range.to) && { date: { gte: range.from, lte: range.to } }),
+        },
+        orderBy: { date: 'asc' },
+    })
+}
+
+/**
+ * Closes the location for the date, or sets special hours for it,
+ * replacing whatever was set for that date before
+ */
+export async function setHoursException(locationId: string, date: Date, input: HoursExceptionInput) {
+    if (!input.closed) {
+        if (!input.open || !input.close) {
+            throw new Error('Special hours need an opening and a closing time')
+        }
+        parseTimeOfDay(input.open)
+        parseTimeOfDay(input.close)
+    }
+
+    const location = await prisma.location.findUnique({ where: { id: locationId }, select: { id: true } })
+    if (!location) {
+        throw new Error('Location not found')
+    }
+
+    const data = {
+        closed: input.closed,
+        open: input.closed ? null : input.open,
+        close: input.closed ? null : input.close,
+        reason: input.reason || null,
+    }
+
+    return prisma.locationHoursException.upsert({
+        where: { locationId_date: { locationId, date } },
+        create: { locationId, date, ...data },
+        update: data,
+    })
+}
+
+export async function getHoursException(id: string) {
+    const exception = await prisma.locationHoursException.findUnique({ where: { id } })
+    if (!exception) {
+        throw new Error('Hours exception not found')
+    }
+    return exception
+}
+
+export async function deleteHoursException(id: string) {
+    await prisma.locationHoursException.delete({ where: { id } })
+}
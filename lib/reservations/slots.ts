@@ -0,0 +1,483 @@
+/**
+ * Reservation Slots
+ * Pure rules for a location's bookable day: opening hours in its own
+ * timezone with closures and special hours, turn times by party size, and
+ * pacing caps on the covers and parties starting in each slot
+ */
+
+import {
+    findTableOptions,
+    formatTimeOfDay,
+    parseTimeOfDay,
+    timeOfDayFromDate,
+    type AvailabilityTable,
+    type BookedReservation,
+    type SeatingPreference,
+} from './availability'
+import { DEFAULT_DEPOSIT_SETTINGS, parseDepositSettings, type DepositSettings } from './deposits'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TurnTime {
+    /** Largest party this turn time applies to */
+    upTo: number
+    minutes: number
+}
+
+export interface ReservationSettings {
+    /** Minutes between bookable start times; pacing is counted per slot */
+    slotInterval: number
+    /** Most guests that may be booked to start in one slot; null for no cap */
+    maxCoversPerSlot: number | null
+    /** Most bookings that may start in one slot; null for no cap */
+    maxPartiesPerSlot: number | null
+    minPartySize: number
+    maxPartySize: number
+    /** Table time by party size, smallest first; larger parties get the default */
+    turnTimes: TurnTime[]
+    defaultTurnTime: number
+    /** The last booking starts this long before closing */
+    lastSeatingBeforeClose: number
+    /** How far ahead of the start a booking must be made */
+    minNoticeMinutes: number
+    /** Guests can reschedule or cancel online until this long before the start */
+    changeCutoffMinutes: number
+    /** How long before the start the reminder goes out */
+    reminderLeadMinutes: number
+    deposits: DepositSettings
+}
+
+export interface DayHours {
+    open: number
+    close: number
+}
+
+export type WeeklyHours = Partial<Record<Weekday, DayHours | null>>
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday'
+
+export interface HoursException {
+    closed: boolean
+    open: string | null
+    close: string | null
+    reason: string | null
+}
+
+export interface ResolvedDay {
+    closed: boolean
+    hours: DayHours | null
+    reason: string | null
+}
+
+export type SlotUnavailableReason = 'past' | 'covers' | 'parties' | 'tables'
+
+export interface ReservationSlot {
+    time: string
+    available: boolean
+    reason: SlotUnavailableReason | null
+    coversBooked: number
+    partiesBooked: number
+    tableOptions: number
+}
+
+export interface SlotGrid {
+    date: string
+    timeZone: string
+    partySize: number
+    turnTime: number
+    closed: boolean
+    reason: string | null
+    hours: { open: string; close: string } | null
+    slots: ReservationSlot[]
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+const MINUTES_PER_DAY = 24 * 60
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+export const DEFAULT_RESERVATION_SETTINGS: ReservationSettings = {
+    slotInterval: 15,
+    maxCoversPerSlot: null,
+    maxPartiesPerSlot: null,
+    minPartySize: 1,
+    maxPartySize: 20,
+    turnTimes: [],
+    defaultTurnTime: 90,
+    lastSeatingBeforeClose: 60,
+    minNoticeMinutes: 0,
+    changeCutoffMinutes: 120,
+    reminderLeadMinutes: 24 * 60,
+    deposits: DEFAULT_DEPOSIT_SETTINGS,
+}
+
+function positiveInt(value: unknown): number | null {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null
+}
+
+function nonNegativeInt(value: unknown): number | null {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null
+}
+
+/**
+ * Reads the reservations block from `Location.settings`, e.g.
+ * { "reservations": { "maxCoversPerSlot": 20, "turnTimes": [{ "upTo": 2, "minutes": 75 }] } }
+ */
+export function getReservationSettings(settings: unknown): ReservationSettings {
+    const defaults = DEFAULT_RESERVATION_SETTINGS
+    if (!settings || typeof settings !== 'object') return { ...defaults, deposits: parseDepositSettings(null) }
+
+    const block = (settings as Record<string, unknown>).reservations
+    if (!block || typeof block !== 'object') return { ...defaults, deposits: parseDepositSettings(null) }
+    const raw = block as Record<string, unknown>
+
+    const turnTimes = Array.isArray(raw.turnTimes)
+        ? raw.turnTimes
+            .map(entry => entry && typeof entry === 'object' ? entry as Record<string, unknown> : {})
+            .filter(entry => positiveInt(entry.upTo) && positiveInt(entry.minutes))
+            .map(entry => ({ upTo: entry.upTo as number, minutes: entry.minutes as number }))
+            .sort((a, b) => a.upTo - b.upTo)
+        : []
+
+    return {
+        slotInterval: positiveInt(raw.slotInterval) ?? defaults.slotInterval,
+        maxCoversPerSlot: positiveInt(raw.maxCoversPerSlot),
+        maxPartiesPerSlot: positiveInt(raw.maxPartiesPerSlot),
+        minPartySize: positiveInt(raw.minPartySize) ?? defaults.minPartySize,
+        maxPartySize: positiveInt(raw.maxPartySize) ?? defaults.maxPartySize,
+        turnTimes,
+        defaultTurnTime: positiveInt(raw.defaultTurnTime) ?? defaults.defaultTurnTime,
+        lastSeatingBeforeClose: nonNegativeInt(raw.lastSeatingBeforeClose) ?? defaults.lastSeatingBeforeClose,
+        minNoticeMinutes: nonNegativeInt(raw.minNoticeMinutes) ?? defaults.minNoticeMinutes,
+        changeCutoffMinutes: nonNegativeInt(raw.changeCutoffMinutes) ?? defaults.changeCutoffMinutes,
+        reminderLeadMinutes: positiveInt(raw.reminderLeadMinutes) ?? defaults.reminderLeadMinutes,
+        deposits: parseDepositSettings(raw.deposits),
+    }
+}
+
+/**
+ * How long a party of this size keeps its table
+ */
+export function getTurnTime(partySize: number, settings: ReservationSettings): number {
+    return settings.turnTimes.find(turn => partySize <= turn.upTo)?.minutes ?? settings.defaultTurnTime
+}
+
+export function assertPartySize(partySize: number, settings: ReservationSettings) {
+    if (partySize < settings.minPartySize) {
+        throw new Error(`Bookings are for parties of ${settings.minPartySize} or more`)
+    }
+    if (partySize > settings.maxPartySize) {
+        throw new Error(`Parties of more than ${settings.maxPartySize} need to contact the restaurant to book`)
+    }
+}
+
+// ============================================================================
+// HOURS
+// ============================================================================
+
+function parseDayHours(value: unknown): DayHours | null {
+    if (!value || typeof value !== 'object') return null
+    const { open, close, closed } = value as Record<string, unknown>
+    if (closed === true || typeof open !== 'string' || typeof close !== 'string') return null
+    try {
+        const start = parseTimeOfDay(open)
+        const end = parseTimeOfDay(close)
+        // Closing at or before opening means closing after midnight
+        return { open: start, close: end <= start ? end + MINUTES_PER_DAY : end }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Reads weekly opening hours, keyed by full ("monday") or short ("mon") day
+ * names, from a JSON object or a JSON-encoded one. Returns null when there
+ * are none to read, so a fallback can be used.
+ */
+export function parseOpeningHours(value: unknown): WeeklyHours | null {
+    let parsed = value
+    if (typeof parsed === 'string') {
+        try {
+            parsed = JSON.parse(parsed)
+        } catch {
+            return null
+        }
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null
+
+    const raw = parsed as Record<string, unknown>
+    const weekly: WeeklyHours = {}
+    let found = false
+    for (const day of WEEKDAYS) {
+        const entry = raw[day] ?? raw[day.slice(0, 3)]
+        if (entry === undefined) continue
+        found = true
+        weekly[day] = parseDayHours(entry)
+    }
+    return found ? weekly : null
+}
+
+export function weekdayOf(date: string): Weekday {
+    return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]
+}
+
+/**
+ * The hours that apply on a date: a closure or special hours for the date
+ * win over the usual hours for its weekday
+ */
+export function resolveDayHours(date: string, weekly: WeeklyHours | null, exception?: HoursException | null): ResolvedDay {
+    if (exception?.closed) {
+        return { closed: true, hours: null, reason: exception.reason || 'Closed' }
+    }
+    if (exception?.open && exception.close) {
+        const hours = parseDayHours({ open: exception.open, close: exception.close })
+        if (hours) return { closed: false, hours, reason: exception.reason }
+    }
+
+    const hours = weekly?.[weekdayOf(date)] ?? null
+    if (!weekly) return { closed: true, hours: null, reason: 'Opening hours are not set' }
+    return hours ? { closed: false, hours, reason: null } : { closed: true, hours: null, reason: 'Closed' }
+}
+
+// ============================================================================
+// LOCAL TIME
+// ============================================================================
+
+/**
+ * The date (YYYY-MM-DD) and minutes since midnight on the wall clock of the
+ * timezone. Unknown timezones fall back to UTC.
+ */
+export function getLocalDateTime(at: Date, timeZone: string): { date: string; minutes: number } {
+    const options: Intl.DateTimeFormatOptions = {
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }
+    let formatter: Intl.DateTimeFormat
+    try {
+        formatter = new Intl.DateTimeFormat('en-CA', { ...options, timeZone })
+    } catch {
+        formatter = new Intl.DateTimeFormat('en-CA', { ...options, timeZone: 'UTC' })
+    }
+
+    const parts = formatter.formatToParts(at)
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? '00'
+    return {
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+        minutes: parseInt(get('hour')) * 60 + parseInt(get('minute')),
+    }
+}
+
+// ============================================================================
+// SLOTS
+// ============================================================================
+
+/**
+ * Covers and parties already booked to start in the slot beginning at `start`
+ */
+export function slotLoad(start: number, interval: number, reservations: BookedReservation[]) {
+    let covers = 0
+    let parties = 0
+    for (const reservation of reservations) {
+        const begins = timeOfDayFromDate(reservation.startTime)
+        if (begins >= start && begins < start + interval) {
+            covers += reservation.partySize ?? 0
+            parties++
+        }
+    }
+    return { covers, parties }
+}
+
+/**
+ * Start times within the day's hours, every slot interval from opening to
+ * the last seating. Hours running past midnight stop the grid at midnight;
+ * later starts belong to the next day.
+ */
+export function slotTimes(hours: DayHours, settings: ReservationSettings): number[] {
+    const last = Math.min(hours.close - settings.lastSeatingBeforeClose, MINUTES_PER_DAY - 1)
+    const times: number[] = []
+    for (let slot = hours.open; slot <= last; slot += settings.slotInterval) {
+        times.push(slot)
+    }
+    return times
+}
+
+/**
+ * How far into the date the location's clock is, in minutes: null for days
+ * still to come, a whole day for days gone by
+ */
+export function elapsedMinutes(date: string, timeZone: string, now: Date): number | null {
+    const local = getLocalDateTime(now, timeZone)
+    if (date === local.date) return local.minutes
+    return date < local.date ? MINUTES_PER_DAY : null
+}
+
+/**
+ * Minutes from now until `start` on the date, on the location's clock;
+ * negative once it has passed
+ */
+export function minutesUntil(date: string, start: number, timeZone: string, now: Date): number {
+    const local = getLocalDateTime(now, timeZone)
+    const days = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${local.date}T00:00:00Z`)) / 86_400_000
+    return days * MINUTES_PER_DAY + start - local.minutes
+}
+
+/**
+ * The pacing slot a start time falls in, counted from opening
+ */
+export function slotStartFor(start: number, hours: DayHours, settings: ReservationSettings): number {
+    return hours.open + Math.floor((start - hours.open) / settings.slotInterval) * settings.slotInterval
+}
+
+/**
+ * Whether the slot rules let a party start at `start`, and if not why:
+ * already past (or inside the notice period), or over a pacing cap
+ */
+export function slotRuleReason(input: {
+    start: number
+    slotStart: number
+    partySize: number
+    settings: ReservationSettings
+    reservations: BookedReservation[]
+    elapsed: number | null
+    noticeMinutes: number
+}): Exclude<SlotUnavailableReason, 'tables'> | null {
+    const { settings, partySize } = input
+    if (input.elapsed !== null && input.start < input.elapsed + input.noticeMinutes) return 'past'
+
+    const load = slotLoad(input.slotStart, settings.slotInterval, input.reservations)
+    if (settings.maxCoversPerSlot !== null && load.covers + partySize > settings.maxCoversPerSlot) return 'covers'
+    if (settings.maxPartiesPerSlot !== null && load.parties + 1 > settings.maxPartiesPerSlot) return 'parties'
+    return null
+}
+
+/**
+ * Why a booking can't start at `start` on the day, or null when the hours
+ * and slot rules allow it. Tables are checked separately.
+ */
+export function checkBookingTime(input: {
+    date: string
+    start: number
+    partySize: number
+    day: ResolvedDay
+    settings: ReservationSettings
+    reservations: BookedReservation[]
+    elapsed: number | null
+    noticeMinutes: number
+}): string | null {
+    const { date, start, day, settings } = input
+    if (!day.hours) {
+        return `The restaurant is closed on ${date}${day.reason && day.reason !== 'Closed' ? ` (${day.reason})` : ''}`
+    }
+
+    const times = slotTimes(day.hours, settings)
+    const first = times[0]
+    const last = times[times.length - 1]
+    if (first === undefined || start < first || start > last) {
+        return first === undefined
+            ? `No bookings are taken on ${date}`
+            : `Bookings on ${date} start between ${formatTimeOfDay(first)} and ${formatTimeOfDay(last)}`
+    }
+
+    const reason = slotRuleReason({ ...input, slotStart: slotStartFor(start, day.hours, settings) })
+    switch (reason) {
+        case 'past':
+            return input.noticeMinutes > 0
+                ? `Bookings must be made at least ${input.noticeMinutes} minutes ahead`
+                : `${formatTimeOfDay(start)} on ${date} has already passed`
+        case 'covers':
+        case 'parties':
+            return `No more bookings can start at ${formatTimeOfDay(start)}; the slot is full`
+    }
+    return null
+}
+
+/**
+ * Whether a party can start at a slot on the grid, with what is already
+ * booked to start in it and how many tables or sets could take them
+ */
+export function checkSlot(input: {
+    start: number
+    partySize: number
+    settings: ReservationSettings
+    tables: AvailabilityTable[]
+    reservations: BookedReservation[]
+    preferences?: SeatingPreference[]
+    elapsed: number | null
+}): Omit<ReservationSlot, 'time'> {
+    const { start, partySize, settings, reservations } = input
+    const load = slotLoad(start, settings.slotInterval, reservations)
+    const tableOptions = findTableOptions({
+        tables: input.tables,
+        reservations,
+        partySize,
+        window: { start, end: start + getTurnTime(partySize, settings) },
+        preferences: input.preferences,
+    }).length
+
+    const reason = slotRuleReason({
+        start,
+        slotStart: start,
+        partySize,
+        settings,
+        reservations,
+        elapsed: input.elapsed,
+        noticeMinutes: settings.minNoticeMinutes,
+    }) ?? (tableOptions === 0 ? 'tables' : null)
+
+    return {
+        available: reason === null,
+        reason,
+        coversBooked: load.covers,
+        partiesBooked: load.parties,
+        tableOptions,
+    }
+}
+
+/**
+ * Every start time on the date for the party, bookable or not. Days in the
+ * past come back with nothing bookable.
+ */
+export function buildSlotGrid(input: {
+    date: string
+    partySize: number
+    timeZone: string
+    day: ResolvedDay
+    settings: ReservationSettings
+    tables: AvailabilityTable[]
+    reservations: BookedReservation[]
+    preferences?: SeatingPreference[]
+    now: Date
+}): SlotGrid {
+    const { date, partySize, day, settings } = input
+    const grid: SlotGrid = {
+        date,
+        timeZone: input.timeZone,
+        partySize,
+        turnTime: getTurnTime(partySize, settings),
+        closed: day.closed,
+        reason: day.reason,
+        hours: day.hours ? { open: formatTimeOfDay(day.hours.open), close: formatTimeOfDay(day.hours.close) } : null,
+        slots: [],
+    }
+    if (!day.hours) return grid
+
+    const elapsed = elapsedMinutes(date, input.timeZone, input.now)
+
+    grid.slots = slotTimes(day.hours, settings).map(start => ({
+        time: formatTimeOfDay(start),
+        ...checkSlot({
+            start,
+            partySize,
+            settings,
+            tables: input.tables,
+            reservations: input.reservations,
+            preferences: input.preferences,
+            elapsed,
+        }),
+    }))
+    return grid
+}
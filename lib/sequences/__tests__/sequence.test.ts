@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { formatSequenceNumber, getLocalDateKey, getSequenceId, getSequencePrefix } from '../sequence'
+
+describe('getLocalDateKey', () => {
+  it('rolls over at the location midnight, not UTC', () => {
+    // 20:30 UTC is already the next day in Karachi (UTC+5)
+    const at = new Date('2026-10-18T20:30:00Z')
+    expect(getLocalDateKey(at, 'Asia/Karachi')).toBe('20261019')
+    expect(getLocalDateKey(at, 'America/New_York')).toBe('20261018')
+  })
+
+  it('falls back to UTC for unknown timezones', () => {
+    expect(getLocalDateKey(new Date('2026-10-18T20:30:00Z'), 'Mars/Olympus')).toBe('20261018')
+  })
+})
+
+describe('sequence numbers', () => {
+  const scope = { locationId: 'loc-1', locationCode: 'KHI-001', dateKey: '20261019' }
+
+  it('formats order numbers from the location code and local date', () => {
+    const prefix = getSequencePrefix('order', scope)
+    expect(formatSequenceNumber('order', prefix, 42)).toBe('KHI-001-20261019-0042')
+  })
+
+  it('tags other documents and keeps each kind in its own row', () => {
+    expect(formatSequenceNumber('purchase-order', getSequencePrefix('purchase-order', scope), 7))
+      .toBe('PO-KHI-001-20261019-007')
+    expect(getSequenceId('shift', scope)).not.toBe(getSequenceId('order', scope))
+    expect(getSequenceId('order', { ...scope, dateKey: '20261020' })).not.toBe(getSequenceId('order', scope))
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Sequence Service
+ * Atomic increments of the Sequence table for document numbers
+ */
+
+import type { Location, Prisma } from '@prisma/client'
+import {
+    formatSequenceNumber,
+    getLocalDateKey,
+    getSequenceId,
+    getSequencePrefix,
+    type SequenceKind,
+} from './sequence'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SequenceValue {
+    /** Running number within the location's day, e.g. 42 */
+    value: number
+    /** Formatted document number, e.g. "KHI-001-20261019-0042" */
+    number: string
+}
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Takes the next number for a location's local day. Must run inside the
+ * transaction that writes the numbered record: the increment is a single
+ * upsert whose row lock is held until commit, so concurrent callers queue
+ * instead of colliding, and a rolled-back record gives its number back.
+ */
+export async function nextSequenceValue(
+    tx: Prisma.TransactionClient,
+    kind: SequenceKind,
+    location: Pick<Location, 'id' | 'code' | 'timezone'>,
+    at: Date = new Date()
+): Promise<SequenceValue> {
+    const scope = {
+        locationId: location.id,
+        locationCode: location.code,
+        dateKey: getLocalDateKey(at, location.timezone),
+    }
+    const id = getSequenceId(kind, scope)
+    const prefix = getSequencePrefix(kind, scope)
+
+    const sequence = await tx.sequence.upsert({
+        where: { id },
+        create: { id, prefix, currentValue: 1 },
+        update: { currentValue: { increment: 1 } },
+    })
+
+    return {
+        value: sequence.currentValue,
+        number: formatSequenceNumber(kind, prefix, sequence.currentValue),
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * Document Sequences
+ * Scopes and formats for human-friendly, gap-free document numbers
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SequenceKind = 'order' | 'shift' | 'purchase-order' | 'stock-count' | 'reservation'
+
+interface SequenceDefinition {
+    /** Leading tag, e.g. "PO"; orders are identified by the location code alone */
+    tag: string | null
+    /** Minimum digits in the running number */
+    width: number
+}
+
+export const SEQUENCES: Record<SequenceKind, SequenceDefinition> = {
+    order: { tag: null, width: 4 },
+    shift: { tag: 'SFT', width: 2 },
+    'purchase-order': { tag: 'PO', width: 3 },
+    'stock-count': { tag: 'CNT', width: 2 },
+    reservation: { tag: 'RES', width: 3 },
+}
+
+/**
+ * Every sequence runs per location per local day
+ */
+export interface SequenceScope {
+    locationId: string
+    locationCode: string
+    dateKey: string
+}
+
+// ============================================================================
+// SCOPING
+// ============================================================================
+
+/**
+ * Calendar date at the instant in the given timezone as YYYYMMDD, so daily
+ * sequences roll over at the location's midnight rather than the server's.
+ * Unknown timezones fall back to UTC.
+ */
+export function getLocalDateKey(at: Date, timeZone: string): string {
+    let formatter: Intl.DateTimeFormat
+    try {
+        formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    } catch {
+        formatter = new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' })
+    }
+
+    const parts = formatter.formatToParts(at)
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+    return `${get('year')}${get('month')}${get('day')}`
+}
+
+/**
+ * Sequence row id for a kind within its scope
+ */
+export function getSequenceId(kind: SequenceKind, scope: SequenceScope): string {
+    return `${kind}:${scope.locationId}:${scope.dateKey}`
+}
+
+/**
+ * Fixed part of the numbers a scope produces, e.g. "PO-KHI-001-20261019"
+ */
+export function getSequencePrefix(kind: SequenceKind, scope: SequenceScope): string {
+    return [SEQUENCES[kind].tag, scope.locationCode, scope.dateKey].filter(Boolean).join('-')
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Full document number, e.g. "KHI-001-20261019-0042"
+ */
+export function formatSequenceNumber(kind: SequenceKind, prefix: string, value: number): string {
+    return `${prefix}-${String(value).padStart(SEQUENCES[kind].width, '0')}`
+}
@@ -2,7 +2,6 @@ import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
 import type {
   HeroConfig,
-  Promotion,
   FeaturedItem,
   Banner,
   LandingPageConfig,
@@ -10,7 +9,6 @@ import type {
 
 interface LandingPageState {
   heroConfig: HeroConfig
-  promotions: Promotion[]
   featuredItems: FeaturedItem[]
   banners: Banner[]
   landingPageConfig: LandingPageConfig
@@ -19,10 +17,6 @@ interface LandingPageState {
 interface LandingPageActions {
   setHeroConfig: (config: HeroConfig) => void
   updateHeroConfig: (config: Partial<HeroConfig>) => void
-  setPromotions: (promotions: Promotion[]) => void
-  addPromotion: (promotion: Promotion) => void
-  updatePromotion: (id: string, promotion: Partial<Promotion>) => void
-  removePromotion: (id: string) => void
   setFeaturedItems: (items: FeaturedItem[]) => void
   addFeaturedItem: (item: FeaturedItem) => void
   updateFeaturedItem: (id: string, item: Partial<FeaturedItem>) => void
@@ -51,44 +45,6 @@ const defaultHeroConfig: HeroConfig = {
   active: true,
 }
 
-const defaultPromotions: Promotion[] = [
-  {
-    id: 'promo-1',
-    title: 'Weekend Brunch Special',
-    description: 'Enjoy 20% off all brunch items every Saturday and Sunday from 9am to 2pm.',
-    discountType: 'percentage',
-    discountValue: 20,
-    image: 'https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=800&q=80',
-    badgeText: '20% OFF',
-    linkedCategoryId: 'brunch',
-    active: true,
-    displayOrder: 1,
-  },
-  {
-    id: 'promo-2',
-    title: 'Family Feast Deal',
-    description: 'Order any 2 main courses and get a free appetizer of your choice.',
-    discountType: 'freeItem',
-    discountValue: 0,
-    image: 'https://images.unsplash.com/photo-1555939594-58d7cb561ad1?w=800&q=80',
-    badgeText: 'FREE APPETIZER',
-    active: true,
-    displayOrder: 2,
-  },
-  {
-    id: 'promo-3',
-    title: 'Happy Hour',
-    description: 'Half price on selected drinks and appetizers from 4pm to 7pm daily.',
-    discountType: 'percentage',
-    discountValue: 50,
-    image: 'https://images.unsplash.com/photo-1551024709-8f23befc6f87?w=800&q=80',
-    badgeText: '50% OFF',
-    linkedCategoryId: 'drinks',
-    active: true,
-    displayOrder: 3,
-  },
-]
-
 const defaultFeaturedItems: FeaturedItem[] = [
   {
     id: 'featured-1',
@@ -170,7 +126,6 @@ const defaultLandingPageConfig: LandingPageConfig = {
 
 const defaultState: LandingPageState = {
   heroConfig: defaultHeroConfig,
-  promotions: defaultPromotions,
   featuredItems: defaultFeaturedItems,
   banners: defaultBanners,
   landingPageConfig: defaultLandingPageConfig,
@@ -188,25 +143,6 @@ export const useLandingPageStore = create<LandingPageStore>()(
           heroConfig: { ...state.heroConfig, ...config },
         })),
 
-      setPromotions: (promotions) => set({ promotions }),
-
-      addPromotion: (promotion) =>
-        set((state) => ({
-          promotions: [...state.promotions, promotion],
-        })),
-
-      updatePromotion: (id, promotion) =>
-        set((state) => ({
-          promotions: state.promotions.map((p) =>
-            p.id === id ? { ...p, ...promotion } : p
-          ),
-        })),
-
-      removePromotion: (id) =>
-        set((state) => ({
-          promotions: state.promotions.filter((p) => p.id !== id),
-        })),
-
       setFeaturedItems: (items) => set({ featuredItems: items }),
 
       addFeaturedItem: (item) =>
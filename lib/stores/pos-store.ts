@@ -12,7 +12,8 @@ interface CartItem {
     name: string
     price: number
     quantity: number
-    modifiers?: { id: string; name: string; price: number }[]
+    variant?: { id: string; name: string; priceAdjust: number }
+    modifiers?: { id: string; name: string; price: number }[] // id is the modifier option id
     notes?: string
 }
 
@@ -148,8 +149,9 @@ export const usePOSStore = create<POSState>()(
             calculateTotals: () => {
                 const state = get()
                 const subtotal = state.cart.reduce((sum, item) => {
+                    const variantAdjust = item.variant?.priceAdjust || 0
                     const modifiersTotal = (item.modifiers || []).reduce((m, mod) => m + mod.price, 0)
-                    return sum + (item.price + modifiersTotal) * item.quantity
+                    return sum + (item.price + variantAdjust + modifiersTotal) * item.quantity
                 }, 0)
 
                 let discountAmount = 0
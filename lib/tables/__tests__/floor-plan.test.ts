@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_FLOOR_PLAN,
+  canCombineTables,
+  defaultTableSize,
+  fitLayout,
+  minutesSince,
+  normalizeRotation,
+  parseFloorPlan,
+  placeTables,
+  planToFit,
+  snapToGrid,
+  type LayoutTable,
+} from '../floor-plan'
+
+const table = (id: string, overrides: Partial<LayoutTable> = {}): LayoutTable => ({
+  id, tableNumber: id.toUpperCase(), maxSeats: 4, shape: 'SQUARE',
+  positionX: null, positionY: null, width: null, height: null, rotation: null,
+  ...overrides,
+})
+
+const plan = { width: 400, height: 300, gridSize: 20 }
+
+describe('parseFloorPlan', () => {
+  it('reads plans stored as objects or JSON strings and falls back to the default', () => {
+    expect(parseFloorPlan(null)).toEqual(DEFAULT_FLOOR_PLAN)
+    expect(parseFloorPlan('not json')).toEqual(DEFAULT_FLOOR_PLAN)
+    expect(parseFloorPlan(JSON.stringify({ width: 900, height: 600, gridSize: 0 }))).toEqual({ width: 900, height: 600, gridSize: 0 })
+    expect(parseFloorPlan({ width: 50, height: 99999, gridSize: -1 })).toEqual({ width: 200, height: 4000, gridSize: DEFAULT_FLOOR_PLAN.gridSize })
+  })
+})
+
+describe('layout helpers', () => {
+  it('snaps to the grid unless it is off', () => {
+    expect(snapToGrid(29, 20)).toBe(20)
+    expect(snapToGrid(31, 20)).toBe(40)
+    expect(snapToGrid(31.4, 0)).toBe(31)
+  })
+
+  it('keeps rotation within a turn', () => {
+    expect(normalizeRotation(405)).toBe(45)
+    expect(normalizeRotation(-90)).toBe(270)
+  })
+
+  it('sizes long tables by their seats', () => {
+    expect(defaultTableSize('SQUARE', 4)).toEqual({ width: 80, height: 80 })
+    expect(defaultTableSize('RECTANGLE', 8)).toEqual({ width: 200, height: 70 })
+  })
+
+  it('keeps a table on the canvas at a sensible size', () => {
+    expect(fitLayout({ id: 't', positionX: 390, positionY: -10, width: 10, height: 1000, rotation: 360, shape: 'SQUARE' }, plan))
+      .toEqual({ id: 't', positionX: 370, positionY: 0, width: 30, height: 300, rotation: 0, shape: 'SQUARE' })
+  })
+
+  it('grows the canvas to hold every table', () => {
+    expect(planToFit(plan, [{ positionX: 380, positionY: 10, width: 80, height: 80 }])).toEqual({ ...plan, width: 460 })
+  })
+})
+
+describe('placeTables', () => {
+  it('keeps saved positions and lines the rest up below them in table order', () => {
+    const placed = placeTables([
+      table('t10'),
+      table('t1', { positionX: 100, positionY: 20, width: 80, height: 80 }),
+      table('t2'),
+    ], plan)
+
+    expect(placed.map(t => t.id)).toEqual(['t10', 't1', 't2'])
+    expect(placed[1]).toMatchObject({ positionX: 100, positionY: 20, positioned: true })
+    // Below the placed table, T2 before T10
+    expect(placed[2]).toMatchObject({ positionX: 20, positionY: 120, positioned: false })
+    expect(placed[0]).toMatchObject({ positionX: 120, positionY: 120, positioned: false })
+  })
+
+  it('wraps to a new row at the edge of the canvas', () => {
+    const placed = placeTables(['a', 'b', 'c', 'd'].map(id => table(id)), plan)
+    expect(placed.map(t => [t.positionX, t.positionY])).toEqual([[20, 20], [120, 20], [220, 20], [20, 120]])
+  })
+})
+
+describe('live floor helpers', () => {
+  it('counts whole minutes seated', () => {
+    expect(minutesSince(new Date('2026-10-19T18:00:00Z'), new Date('2026-10-19T18:45:59Z'))).toBe(45)
+    expect(minutesSince(new Date('2026-10-19T19:00:00Z'), new Date('2026-10-19T18:00:00Z'))).toBe(0)
+  })
+
+  it('only combines free-standing tables in the same area', () => {
+    const a = { id: 'a', areaId: 'hall', combinedWith: [] }
+    expect(canCombineTables(a, { id: 'b', areaId: 'hall', combinedWith: [] })).toBe(true)
+    expect(canCombineTables(a, a)).toBe(false)
+    expect(canCombineTables(a, { id: 'b', areaId: 'patio', combinedWith: [] })).toBe(false)
+    expect(canCombineTables(a, { id: 'b', areaId: 'hall', combinedWith: ['c'] })).toBe(false)
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * Floor Plan Service
+ * Loads and saves an area's floor plan, and builds the live floor hosts
+ * work from: each table's status, the open order on it and the bookings
+ * coming up for it
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import {
+    formatTimeOfDay,
+    getLocalDateTime,
+    parseReservationDate,
+    parseTableIds,
+    reservationTableIds,
+    timeOfDayFromDate,
+} from '@/lib/reservations'
+import {
+    fitLayout,
+    minutesSince,
+    parseFloorPlan,
+    placeTables,
+    planToFit,
+    type FloorPlan,
+    type PlacedTable,
+    type TableLayout,
+} from './floor-plan'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FloorPlanInput {
+    plan: FloorPlan
+    tables: TableLayout[]
+}
+
+export interface FloorReservation {
+    id: string
+    reservationNumber: string
+    guestName: string
+    partySize: number
+    /** HH:mm on the location's clock */
+    time: string
+    /** Negative once the start has passed */
+    minutesToStart: number
+    status: string
+    tableIds: string[]
+}
+
+export interface FloorTable extends PlacedTable {
+    areaId: string
+    minSeats: number
+    status: string
+    /** Tables combined with this one through the combine route */
+    combinedWith: string[]
+    order: {
+        id: string
+        orderNumber: string
+        status: string
+        total: number
+        paidAmount: number
+        /** Open orders on the table; the figures above add them all up */
+        count: number
+    } | null
+    seatedAt: Date | null
+    seatedMinutes: number | null
+    upcoming: FloorReservation[]
+}
+
+/** Orders still running up a bill on their table */
+export const OPEN_TABLE_ORDER_STATUSES = ['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'SERVED'] as const
+
+const LAYOUT_SELECT = {
+    id: true,
+    tableNumber: true,
+    maxSeats: true,
+    minSeats: true,
+    shape: true,
+    positionX: true,
+    positionY: true,
+    width: true,
+    height: true,
+    rotation: true,
+    status: true,
+    combinableWith: true,
+} satisfies Prisma.TableSelect
+
+// ============================================================================
+// EDITOR
+// ============================================================================
+
+/**
+ * An area's canvas and every active table on it, placed
+ */
+export async function getAreaFloorPlan(areaId: string) {
+    const area = await prisma.area.findUnique({
+        where: { id: areaId },
+        include: { tables: { where: { isActive: true }, select: LAYOUT_SELECT } },
+    })
+    if (!area) throw new Error('Area not found')
+
+    const plan = parseFloorPlan(area.floorPlanData)
+    return {
+        area: { id: area.id, name: area.name, locationId: area.locationId },
+        plan,
+        tables: placeTables(area.tables, plan),
+    }
+}
+
+/**
+ * Saves the canvas and the layout of the tables sent, in one go. Tables
+ * left out keep where they were. The canvas grows to hold every table sent
+ * and each is kept on it.
+ */
+export async function saveAreaFloorPlan(areaId: string, input: FloorPlanInput) {
+    const area = await prisma.area.findUnique({
+        where: { id: areaId },
+        select: { id: true, floorPlanData: true, tables: { where: { isActive: true }, select: { id: true } } },
+    })
+    if (!area) throw new Error('Area not found')
+
+    const known = new Set(area.tables.map(table => table.id))
+    const stranger = input.tables.find(table => !known.has(table.id))
+    if (stranger) throw new Error(`Table ${stranger.id} is not in this area`)
+
+    const plan = planToFit(parseFloorPlan(input.plan), input.tables)
+    const layouts = input.tables.map(table => fitLayout(table, plan))
+
+    // Keep anything else stored with the plan
+    const stored = area.floorPlanData && typeof area.floorPlanData === 'object' && !Array.isArray(area.floorPlanData)
+        ? area.floorPlanData as Prisma.JsonObject
+        : {}
+
+    await prisma.$transaction([
+        prisma.area.update({
+            where: { id: areaId },
+            data: { floorPlanData: { ...stored, width: plan.width, height: plan.height, gridSize: plan.gridSize } },
+        }),
+        ...layouts.map(layout => prisma.table.update({
+            where: { id: layout.id },
+            data: {
+                positionX: layout.positionX,
+                positionY: layout.positionY,
+                width: layout.width,
+                height: layout.height,
+                rotation: layout.rotation,
+                shape: layout.shape,
+            },
+        })),
+    ])
+
+    return getAreaFloorPlan(areaId)
+}
+
+// ============================================================================
+// LIVE FLOOR
+// ============================================================================
+
+/**
+ * The location's floor as it stands: every area's tables placed on its
+ * plan with their status, the open bill and how long the party has been
+ * seated, and today's unseated bookings starting within the lookahead.
+ * Bookings without a table yet are listed apart for the host to place.
+ */
+export async function getLiveFloor(options: { locationId: string; areaId?: string; now?: Date; lookaheadMinutes?: number }) {
+    const now = options.now ?? new Date()
+    const lookahead = options.lookaheadMinutes ?? 240
+
+    const location = await prisma.location.findUnique({
+        where: { id: options.locationId },
+        select: { id: true, timezone: true },
+    })
+    if (!location) throw new Error('Location not found')
+
+    const areas = await prisma.area.findMany({
+        where: { locationId: location.id, isActive: true, ...(options.areaId && { id: options.areaId }) },
+        include: { tables: { where: { isActive: true }, select: LAYOUT_SELECT } },
+        orderBy: { displayOrder: 'asc' },
+    })
+    const tableIds = areas.flatMap(area => area.tables.map(table => table.id))
+
+    const local = getLocalDateTime(now, location.timezone)
+    const [orders, reservations] = await Promise.all([
+        prisma.order.findMany({
+            where: { tableId: { in: tableIds }, status: { in: [...OPEN_TABLE_ORDER_STATUSES] } },
+            select: { id: true, orderNumber: true, tableId: true, status: true, total: true, paidAmount: true, placedAt: true },
+            orderBy: { placedAt: 'asc' },
+        }),
+        prisma.reservation.findMany({
+            where: {
+                locationId: location.id,
+                date: parseReservationDate(local.date),
+                status: { in: ['PENDING', 'CONFIRMED', 'SEATED'] },
+            },
+            select: {
+                id: true, reservationNumber: true, guestName: true, partySize: true, startTime: true,
+                status: true, tableId: true, additionalTables: true, seatedAt: true,
+            },
+            orderBy: { startTime: 'asc' },
+        }),
+    ])
+
+    const ordersByTable = new Map<string, typeof orders>()
+    for (const order of orders) {
+        if (!order.tableId) continue
+        ordersByTable.set(order.tableId, [...(ordersByTable.get(order.tableId) ?? []), order])
+    }
+
+    const seatedByTable = new Map<string, Date>()
+    const upcoming: FloorReservation[] = []
+    for (const reservation of reservations) {
+        const tables = reservationTableIds(reservation)
+        if (reservation.status === 'SEATED') {
+            for (const id of tables) {
+                if (reservation.seatedAt) seatedByTable.set(id, reservation.seatedAt)
+            }
+            continue
+        }
+        const start = timeOfDayFromDate(reservation.startTime)
+        const minutesToStart = start - local.minutes
+        if (minutesToStart > lookahead) continue
+        upcoming.push({
+            id: reservation.id,
+            reservationNumber: reservation.reservationNumber,
+            guestName: reservation.guestName,
+            partySize: reservation.partySize,
+            time: formatTimeOfDay(start),
+            minutesToStart,
+            status: reservation.status,
+            tableIds: tables,
+        })
+    }
+
+    return {
+        now,
+        locationId: location.id,
+        areas: areas.map(area => {
+            const plan = parseFloorPlan(area.floorPlanData)
+            const placed = new Map(placeTables(area.tables, plan).map(table => [table.id, table]))
+
+            return {
+                id: area.id,
+                name: area.name,
+                plan,
+                tables: area.tables.map((table): FloorTable => {
+                    const open = ordersByTable.get(table.id) ?? []
+                    const latest = open[open.length - 1]
+                    // A seated booking knows when the party sat; a walk-in sat when the first order went in
+                    const seatedAt = seatedByTable.get(table.id) ?? open[0]?.placedAt ?? null
+
+                    return {
+                        ...placed.get(table.id)!,
+                        areaId: area.id,
+                        minSeats: table.minSeats,
+                        status: table.status,
+                        combinedWith: parseTableIds(table.combinableWith),
+                        order: latest
+                            ? {
+                                id: latest.id,
+                                orderNumber: latest.orderNumber,
+                                status: latest.status,
+                                total: open.reduce((sum, order) => sum + Number(order.total), 0),
+                                paidAmount: open.reduce((sum, order) => sum + Number(order.paidAmount), 0),
+                                count: open.length,
+                            }
+                            : null,
+                        seatedAt,
+                        seatedMinutes: seatedAt ? minutesSince(seatedAt, now) : null,
+                        upcoming: upcoming.filter(reservation => reservation.tableIds.includes(table.id)),
+                    }
+                }),
+            }
+        }),
+        unassigned: upcoming.filter(reservation => reservation.tableIds.length === 0),
+    }
+}
@@ -0,0 +1,228 @@
+/**
+ * Floor Plans
+ * Pure layout rules for an area's floor plan: the canvas kept in
+ * Area.floorPlanData, where each table sits on it, and where tables
+ * nobody has placed yet are put until someone arranges them
+ */
+
+import type { TableShape } from '@prisma/client'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FloorPlan {
+    /** Canvas size in plan units (pixels at 100% zoom) */
+    width: number
+    height: number
+    /** Tables snap to this grid while dragged; 0 turns snapping off */
+    gridSize: number
+}
+
+export interface TableLayout {
+    id: string
+    positionX: number
+    positionY: number
+    width: number
+    height: number
+    /** Degrees clockwise, 0-359 */
+    rotation: number
+    shape: TableShape
+}
+
+/** A table as stored: any of its floor plan fields may still be unset */
+export interface LayoutTable {
+    id: string
+    tableNumber: string
+    maxSeats: number
+    shape: TableShape
+    positionX: number | null
+    positionY: number | null
+    width: number | null
+    height: number | null
+    rotation: number | null
+}
+
+export interface PlacedTable extends TableLayout {
+    tableNumber: string
+    maxSeats: number
+    /** False when the position was made up because none was saved */
+    positioned: boolean
+}
+
+// ============================================================================
+// CANVAS
+// ============================================================================
+
+export const DEFAULT_FLOOR_PLAN: FloorPlan = { width: 1200, height: 800, gridSize: 20 }
+
+export const FLOOR_PLAN_LIMITS = {
+    minCanvas: 200,
+    maxCanvas: 4000,
+    minTable: 30,
+    maxTable: 600,
+    maxGrid: 100,
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Reads Area.floorPlanData, which older areas may hold as a JSON string or
+ * not at all
+ */
+export function parseFloorPlan(value: unknown): FloorPlan {
+    let raw = value
+    if (typeof raw === 'string') {
+        try {
+            raw = JSON.parse(raw)
+        } catch {
+            raw = null
+        }
+    }
+    if (!raw || typeof raw !== 'object') return { ...DEFAULT_FLOOR_PLAN }
+    const data = raw as Record<string, unknown>
+
+    const size = (entry: unknown, fallback: number) =>
+        typeof entry === 'number' && Number.isFinite(entry)
+            ? clamp(Math.round(entry), FLOOR_PLAN_LIMITS.minCanvas, FLOOR_PLAN_LIMITS.maxCanvas)
+            : fallback
+
+    return {
+        width: size(data.width, DEFAULT_FLOOR_PLAN.width),
+        height: size(data.height, DEFAULT_FLOOR_PLAN.height),
+        gridSize: typeof data.gridSize === 'number' && Number.isInteger(data.gridSize)
+            && data.gridSize >= 0 && data.gridSize <= FLOOR_PLAN_LIMITS.maxGrid
+            ? data.gridSize
+            : DEFAULT_FLOOR_PLAN.gridSize,
+    }
+}
+
+export function snapToGrid(value: number, gridSize: number): number {
+    return gridSize > 0 ? Math.round(value / gridSize) * gridSize : Math.round(value)
+}
+
+export function normalizeRotation(degrees: number): number {
+    return ((Math.round(degrees) % 360) + 360) % 360
+}
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+/**
+ * The footprint a table gets until it is resized: round and square tables
+ * grow both ways with their seats, long tables grow along their length
+ */
+export function defaultTableSize(shape: TableShape, maxSeats: number): { width: number; height: number } {
+    const seats = Math.max(1, maxSeats)
+    if (shape === 'CIRCLE' || shape === 'SQUARE') {
+        const side = Math.min(160, 60 + 10 * Math.max(0, seats - 2))
+        return { width: side, height: side }
+    }
+    return { width: Math.min(320, 40 + 20 * seats), height: 70 }
+}
+
+/**
+ * Keeps a table on the canvas at a sensible size. Rotation is left out of
+ * the bounds check so a turned table can overhang the edge a little.
+ */
+export function fitLayout(layout: TableLayout, plan: FloorPlan): TableLayout {
+    const width = clamp(Math.round(layout.width), FLOOR_PLAN_LIMITS.minTable, Math.min(FLOOR_PLAN_LIMITS.maxTable, plan.width))
+    const height = clamp(Math.round(layout.height), FLOOR_PLAN_LIMITS.minTable, Math.min(FLOOR_PLAN_LIMITS.maxTable, plan.height))
+    return {
+        ...layout,
+        width,
+        height,
+        positionX: clamp(Math.round(layout.positionX), 0, plan.width - width),
+        positionY: clamp(Math.round(layout.positionY), 0, plan.height - height),
+        rotation: normalizeRotation(layout.rotation),
+    }
+}
+
+/**
+ * Every table with a place on the canvas. Saved positions are kept; tables
+ * without one are lined up in rows below the placed tables, in table number
+ * order, so a new area shows something to arrange straight away.
+ */
+export function placeTables(tables: LayoutTable[], plan: FloorPlan): PlacedTable[] {
+    const gap = Math.max(plan.gridSize, 20)
+    const sized = tables.map(table => {
+        const fallback = defaultTableSize(table.shape, table.maxSeats)
+        return { table, width: table.width ?? fallback.width, height: table.height ?? fallback.height }
+    })
+
+    const placed = new Map<string, PlacedTable>()
+    let bottom = 0
+    for (const { table, width, height } of sized) {
+        if (table.positionX === null || table.positionY === null) continue
+        const layout = fitLayout({
+            id: table.id, positionX: table.positionX, positionY: table.positionY,
+            width, height, rotation: table.rotation ?? 0, shape: table.shape,
+        }, plan)
+        placed.set(table.id, { ...layout, tableNumber: table.tableNumber, maxSeats: table.maxSeats, positioned: true })
+        bottom = Math.max(bottom, layout.positionY + layout.height)
+    }
+
+    const unplaced = sized
+        .filter(({ table }) => !placed.has(table.id))
+        .sort((a, b) => a.table.tableNumber.localeCompare(b.table.tableNumber, undefined, { numeric: true }))
+
+    let x = gap
+    let y = placed.size > 0 ? bottom + gap : gap
+    let rowHeight = 0
+    for (const { table, width, height } of unplaced) {
+        if (x > gap && x + width > plan.width - gap) {
+            x = gap
+            y += rowHeight + gap
+            rowHeight = 0
+        }
+        const layout = fitLayout({
+            id: table.id, positionX: snapToGrid(x, plan.gridSize), positionY: snapToGrid(y, plan.gridSize),
+            width, height, rotation: 0, shape: table.shape,
+        }, plan)
+        placed.set(table.id, { ...layout, tableNumber: table.tableNumber, maxSeats: table.maxSeats, positioned: false })
+        x += width + gap
+        rowHeight = Math.max(rowHeight, height)
+    }
+
+    return tables.map(table => placed.get(table.id)!)
+}
+
+/**
+ * The canvas grown, if need be, to hold every table, so shrinking a plan
+ * never strands one off the edge
+ */
+export function planToFit(plan: FloorPlan, layouts: Pick<TableLayout, 'positionX' | 'positionY' | 'width' | 'height'>[]): FloorPlan {
+    const right = Math.max(0, ...layouts.map(layout => layout.positionX + layout.width))
+    const bottom = Math.max(0, ...layouts.map(layout => layout.positionY + layout.height))
+    return {
+        ...plan,
+        width: clamp(Math.max(plan.width, right), FLOOR_PLAN_LIMITS.minCanvas, FLOOR_PLAN_LIMITS.maxCanvas),
+        height: clamp(Math.max(plan.height, bottom), FLOOR_PLAN_LIMITS.minCanvas, FLOOR_PLAN_LIMITS.maxCanvas),
+    }
+}
+
+// ============================================================================
+// LIVE FLOOR
+// ============================================================================
+
+/**
+ * Whole minutes since `since`, never negative
+ */
+export function minutesSince(since: Date, now: Date): number {
+    return Math.max(0, Math.floor((now.getTime() - since.getTime()) / 60_000))
+}
+
+/**
+ * Tables a dragged table can be combined with by dropping it on them: the
+ * same area, neither already combined, and not the table itself
+ */
+export function canCombineTables(
+    dragged: { id: string; areaId: string; combinedWith: string[] },
+    target: { id: string; areaId: string; combinedWith: string[] }
+): boolean {
+    return dragged.id !== target.id
+        && dragged.areaId === target.areaId
+        && dragged.combinedWith.length === 0
+        && target.combinedWith.length === 0
+}
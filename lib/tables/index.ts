@@ -0,0 +1,2 @@
+export * from './floor-plan'
+export * from './floor-plan.service'
@@ -11,19 +11,6 @@ export interface HeroConfig {
   active: boolean
 }
 
-export interface Promotion {
-  id: string
-  title: string
-  description: string
-  discountType: 'percentage' | 'fixed' | 'bogo' | 'freeItem'
-  discountValue: number
-  image: string
-  badgeText?: string
-  linkedCategoryId?: string
-  active: boolean
-  displayOrder: number
-}
-
 export interface FeaturedItem {
   id: string
   menuItemId: string
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { resolvePermissions, type AuthorizedUser } from '../../auth/permissions'
+import { checkLocationAccess, scopeLocationFilter } from '../middleware'
+
+const staff = (role: AuthorizedUser['role'], locationId: string | null): AuthorizedUser => ({
+  id: `${role}-${locationId}`,
+  email: 'staff@example.com',
+  name: null,
+  role,
+  locationId,
+  permissions: resolvePermissions(role, null),
+})
+
+describe('location checks', () => {
+  const manager = staff('MANAGER', 'loc-1')
+
+  it('refuses a record at another location with a 403', async () => {
+    const denied = checkLocationAccess(manager, 'loc-2')
+    expect(denied?.status).toBe(403)
+    expect(await denied?.json()).toMatchObject({ error: 'Forbidden', details: { locationId: 'loc-2' } })
+  })
+
+  it('lets staff act on their own location and admins on any', () => {
+    expect(checkLocationAccess(manager, 'loc-1')).toBeNull()
+    expect(checkLocationAccess(staff('ADMIN', 'loc-1'), 'loc-2')).toBeNull()
+  })
+
+  it('scopes list filters to the assigned location and refuses others', () => {
+    expect(scopeLocationFilter(manager, null)).toEqual({ locationId: 'loc-1' })
+    expect(scopeLocationFilter(manager, 'loc-2').response?.status).toBe(403)
+  })
+})
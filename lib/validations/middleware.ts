@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z, ZodError } from 'zod'
+import {
+  canAccessLocation,
+  hasPermission,
+  resolveLocationFilter,
+  resolvePermissions,
+  type AuthorizedUser,
+  type Permission,
+} from '@/lib/auth/permissions'
 
 // ============================================================================
 // Error Response Types
@@ -240,3 +248,131 @@ export function withAuthAndQueryValidation<T extends z.ZodType>(
     return handler(request, validatedQuery)
   })
 }
+
+// ============================================================================
+// Authorization Middleware
+// ============================================================================
+
+/**
+ * Type for a route handler that runs after an authorization check
+ */
+type AuthorizedRouteHandler = (
+  request: NextRequest,
+  context: any,
+  user: AuthorizedUser
+) => Promise<NextResponse> | NextResponse
+
+/**
+ * Loads the signed-in staff user with their effective permissions
+ * Returns null when there is no session or the account is inactive
+ */
+export async function getAuthorizedUser(): Promise<AuthorizedUser | null> {
+  const { auth } = await import('@/lib/auth/config')
+  const session = await auth()
+  const userId = (session?.user as { id?: string } | undefined)?.id
+
+  if (!userId) {
+    return null
+  }
+
+  const { prisma } = await import('@/lib/db/prisma')
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, role: true, locationId: true, permissions: true, isActive: true },
+  })
+
+  if (!user || !user.isActive) {
+    return null
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    locationId: user.locationId,
+    permissions: resolvePermissions(user.role, user.permissions),
+  }
+}
+
+/**
+ * Creates the standard 403 response for a missing capability or location
+ */
+export function createForbiddenResponse(details: {
+  permission?: Permission
+  locationId?: string | null
+}): NextResponse<ErrorResponse> {
+  return createErrorResponse('Forbidden', 403, details)
+}
+
+/**
+ * Returns a 403 response when the user is restricted to a different location
+ */
+export function checkLocationAccess(
+  user: AuthorizedUser,
+  locationId: string | null | undefined
+): NextResponse<ErrorResponse> | null {
+  return canAccessLocation(user, locationId) ? null : createForbiddenResponse({ locationId })
+}
+
+/**
+ * Resolves the location filter for a list endpoint
+ * Location-scoped users default to their own location and are refused any other
+ */
+export function scopeLocationFilter(
+  user: AuthorizedUser,
+  requested: string | null | undefined
+): { locationId?: string; response?: NextResponse<ErrorResponse> } {
+  const { allowed, locationId } = resolveLocationFilter(user, requested)
+  return allowed ? { locationId } : { response: createForbiddenResponse({ locationId: requested }) }
+}
+
+/**
+ * Checks the signed-in user for a capability
+ * Returns the user, or the 401/403 response to send back
+ */
+export async function authorize(
+  permission: Permission
+): Promise<{ user: AuthorizedUser; response?: undefined } | { user?: undefined; response: NextResponse<ErrorResponse> }> {
+  const user = await getAuthorizedUser()
+
+  if (!user) {
+    return { response: createErrorResponse('Unauthorized', 401) }
+  }
+
+  if (!hasPermission(user, permission)) {
+    return { response: createForbiddenResponse({ permission }) }
+  }
+
+  return { user }
+}
+
+/**
+ * Wraps a route handler with a capability check
+ * Requires an active staff session whose role or overrides grant the permission
+ */
+export function withPermission(permission: Permission, handler: AuthorizedRouteHandler): RouteHandler {
+  return withErrorHandling(async (request, context) => {
+    const { user, response } = await authorize(permission)
+
+    if (!user) {
+      return response
+    }
+
+    return handler(request, context, user)
+  })
+}
+
+/**
+ * Wraps a route handler with a capability check and body validation
+ */
+export function withPermissionAndBodyValidation<T extends z.ZodType>(
+  permission: Permission,
+  schema: T,
+  handler: (request: NextRequest, validatedBody: z.infer<T>, user: AuthorizedUser) => Promise<NextResponse>
+): RouteHandler {
+  return withPermission(permission, async (request, _context, user) => {
+    const validatedBody = await validateBody(request, schema)
+    return handler(request, validatedBody, user)
+  })
+}
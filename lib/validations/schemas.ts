@@ -1,4 +1,11 @@
 import { z } from 'zod'
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+  TEMPLATE_LANGUAGES,
+  type NotificationTemplateKey,
+} from '../notifications/templates'
+import { SEATING_PREFERENCES } from '../reservations/availability'
 
 // ============================================================================
 // Common Schemas
@@ -30,6 +37,30 @@ export const registerSchema = z.object({
 // Menu Management Schemas
 // ============================================================================
 
+export const menuItemVariantSchema = z.object({
+  id: z.string().min(1, 'Variant ID is required').max(50, 'Variant ID must not exceed 50 characters'),
+  name: z.string().min(1, 'Variant name is required').max(50, 'Variant name must not exceed 50 characters'),
+  priceAdjust: z.number().multipleOf(0.01, 'Price adjustment must have at most 2 decimal places').default(0),
+  isDefault: z.boolean().optional(),
+}).strict()
+
+export const modifierGroupSchema = z.object({
+  id: z.string().min(1, 'Modifier group ID is required').max(50, 'Modifier group ID must not exceed 50 characters'),
+  name: z.string().min(1, 'Modifier group name is required').max(50, 'Modifier group name must not exceed 50 characters'),
+  required: z.boolean().default(false),
+  minSelect: z.number().int().min(0).optional(),
+  maxSelect: z.number().int().positive('maxSelect must be positive').nullable().optional(),
+  options: z.array(z.object({
+    id: z.string().min(1, 'Option ID is required').max(50, 'Option ID must not exceed 50 characters'),
+    name: z.string().min(1, 'Option name is required').max(50, 'Option name must not exceed 50 characters'),
+    price: z.number().min(0, 'Option price cannot be negative').multipleOf(0.01, 'Option price must have at most 2 decimal places').default(0),
+  }).strict()).min(1, 'A modifier group needs at least one option'),
+}).strict()
+  .refine(
+    (group) => group.maxSelect == null || group.maxSelect >= (group.minSelect ?? (group.required ? 1 : 0)),
+    { message: 'maxSelect must not be lower than minSelect', path: ['maxSelect'] }
+  )
+
 export const menuItemSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must not exceed 100 characters'),
   description: z.string().min(1, 'Description is required').max(500, 'Description must not exceed 500 characters'),
@@ -41,6 +72,8 @@ export const menuItemSchema = z.object({
   image: z.string().min(1, 'Image is required'),
   dietaryTags: z.array(z.string()).default([]),
   available: z.boolean().default(true),
+  variants: z.array(menuItemVariantSchema).optional(),
+  modifiers: z.array(modifierGroupSchema).optional(),
 }).strict()
 
 export const menuItemUpdateSchema = z.object({
@@ -55,6 +88,8 @@ export const menuItemUpdateSchema = z.object({
   image: z.string().min(1, 'Image must be a non-empty string').optional(),
   dietaryTags: z.array(z.string()).optional(),
   available: z.boolean().optional(),
+  variants: z.array(menuItemVariantSchema).optional(),
+  modifiers: z.array(modifierGroupSchema).optional(),
 }).strict()
 
 export const categorySchema = z.object({
@@ -100,6 +135,9 @@ export const cartItemSchema = z.object({
   menuItemId: z.string().cuid('Invalid menu item ID'),
   quantity: z.number().int('Quantity must be an integer').min(1, 'Quantity must be at least 1').max(99, 'Quantity must not exceed 99'),
   specialInstructions: z.string().max(500, 'Special instructions must not exceed 500 characters').optional(),
+  variantId: z.string().min(1, 'Invalid variant ID').optional(),
+  modifierOptionIds: z.array(z.string().min(1, 'Invalid modifier option ID')).max(50, 'Too many modifier options').optional(),
+  seatNumber: z.number().int('Seat must be a whole number').min(1, 'Seat must be at least 1').max(99, 'Seat must not exceed 99').optional(),
 }).strict()
 
 export const orderTypeEnum = z.enum(['DINE_IN', 'TAKEAWAY', 'DELIVERY', 'DRIVE_THRU'], {
@@ -121,6 +159,11 @@ export const orderCreateSchema = z.object({
   orderType: orderTypeEnum,
   address: z.string().min(5, 'Address must be at least 5 characters').max(500, 'Address must not exceed 500 characters').optional(),
   notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+  locationId: z.string().cuid('Invalid location ID').optional(),
+  latitude: z.number().min(-90, 'Invalid latitude').max(90, 'Invalid latitude').optional(),
+  longitude: z.number().min(-180, 'Invalid longitude').max(180, 'Invalid longitude').optional(),
+  customerId: z.string().cuid('Invalid customer ID').optional(),
+  redeemPoints: z.number().int('Points must be a whole number').positive('Points must be positive').optional(),
 })
   .strict()
   .refine(
@@ -136,6 +179,13 @@ export const orderCreateSchema = z.object({
       path: ['address'],
     }
   )
+  .refine(
+    (data) => (data.latitude === undefined) === (data.longitude === undefined),
+    {
+      message: 'Latitude and longitude must be provided together',
+      path: ['longitude'],
+    }
+  )
 
 export const orderUpdateSchema = z.object({
   status: orderStatusEnum,
@@ -223,6 +273,8 @@ export const smtpTestEmailSchema = z.object({
 export type LoginInput = z.infer<typeof loginSchema>
 export type RegisterInput = z.infer<typeof registerSchema>
 
+export type MenuItemVariantInput = z.infer<typeof menuItemVariantSchema>
+export type ModifierGroupInput = z.infer<typeof modifierGroupSchema>
 export type MenuItemInput = z.infer<typeof menuItemSchema>
 export type MenuItemUpdateInput = z.infer<typeof menuItemUpdateSchema>
 export type CategoryInput = z.infer<typeof categorySchema>
@@ -269,3 +321,509 @@ export const locationUpdateSchema = locationSchema.partial()
 
 export type LocationInput = z.infer<typeof locationSchema>
 export type LocationUpdateInput = z.infer<typeof locationUpdateSchema>
+
+// ============================================================================
+// Loyalty Schemas
+// ============================================================================
+
+export const loyaltyTierSchema = z.object({
+  name: z.string().min(1, 'Tier name is required').max(50, 'Tier name must not exceed 50 characters'),
+  minPoints: z.number().int('Points must be a whole number').min(0, 'Points cannot be negative'),
+  multiplier: z.number()
+    .min(0, 'Multiplier cannot be negative')
+    .max(99.99, 'Multiplier must not exceed 99.99')
+    .multipleOf(0.01, 'Multiplier must have at most 2 decimal places'),
+  benefits: z.string().max(500, 'Benefits must not exceed 500 characters').optional().nullable(),
+  isActive: z.boolean().default(true),
+}).strict()
+
+export const loyaltyTierUpdateSchema = loyaltyTierSchema.partial()
+
+export const loyaltyEarnRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100, 'Rule name must not exceed 100 characters'),
+  orderType: orderTypeEnum.optional().nullable(),
+  locationId: z.string().cuid('Invalid location ID').optional().nullable(),
+  pointsPerUnit: z.number()
+    .positive('Points per unit must be positive')
+    .max(1000, 'Points per unit must not exceed 1000')
+    .multipleOf(0.0001, 'Points per unit must have at most 4 decimal places'),
+  minOrderAmount: z.number().min(0, 'Minimum order cannot be negative').optional().nullable(),
+  priority: z.number().int('Priority must be a whole number').default(0),
+  isActive: z.boolean().default(true),
+}).strict()
+
+export const loyaltyEarnRuleUpdateSchema = loyaltyEarnRuleSchema.partial()
+
+export const loyaltySettingsSchema = z.object({
+  loyaltyEnabled: z.boolean(),
+  loyaltyPointValue: z.number()
+    .positive('Point value must be positive')
+    .max(1000, 'Point value must not exceed 1000')
+    .multipleOf(0.0001, 'Point value must have at most 4 decimal places'),
+  loyaltyMinRedeemPoints: z.number().int('Points must be a whole number').min(0, 'Points cannot be negative'),
+  loyaltyMaxRedeemPercent: z.number().int('Percent must be a whole number').min(0, 'Percent cannot be negative').max(100, 'Percent must not exceed 100'),
+}).partial().strict()
+
+export type LoyaltyTierInput = z.infer<typeof loyaltyTierSchema>
+export type LoyaltyTierUpdateInput = z.infer<typeof loyaltyTierUpdateSchema>
+export type LoyaltyEarnRuleInput = z.infer<typeof loyaltyEarnRuleSchema>
+export type LoyaltyEarnRuleUpdateInput = z.infer<typeof loyaltyEarnRuleUpdateSchema>
+export type LoyaltySettingsInput = z.infer<typeof loyaltySettingsSchema>
+
+// ============================================================================
+// Promotion Schemas
+// ============================================================================
+
+const promotionFields = z.object({
+  title: z.string().min(1, 'Title is required').max(100, 'Title must not exceed 100 characters'),
+  description: z.string().max(500, 'Description must not exceed 500 characters').default(''),
+  discountType: z.enum(['percentage', 'fixed', 'bogo', 'freeItem'], {
+    errorMap: () => ({ message: 'Invalid discount type' }),
+  }),
+  discountValue: z.number().min(0, 'Discount value cannot be negative').default(0),
+  maxDiscount: z.number().positive('Maximum discount must be positive').optional().nullable(),
+  minOrderAmount: z.number().min(0, 'Minimum order cannot be negative').optional().nullable(),
+  linkedCategoryId: z.string().cuid('Invalid category ID').optional().nullable(),
+  linkedMenuItemIds: z.array(z.string().cuid('Invalid menu item ID')).default([]),
+  validFrom: z.coerce.date().optional().nullable(),
+  validUntil: z.coerce.date().optional().nullable(),
+  active: z.boolean().default(true),
+  stackable: z.boolean().default(false),
+  priority: z.number().int('Priority must be a whole number').default(0),
+  image: z.string().max(500, 'Image URL must not exceed 500 characters').default(''),
+  badgeText: z.string().max(30, 'Badge text must not exceed 30 characters').optional().nullable(),
+  displayOrder: z.number().int('Display order must be an integer').min(0, 'Display order cannot be negative').default(0),
+}).strict()
+
+const validWindow = (promotion: { validFrom?: Date | null; validUntil?: Date | null }) =>
+  !promotion.validFrom || !promotion.validUntil || promotion.validFrom <= promotion.validUntil
+
+export const promotionSchema = promotionFields
+  .refine(validWindow, { message: 'Promotion must start before it ends', path: ['validUntil'] })
+  .refine(
+    (promotion) => promotion.discountType !== 'percentage' || promotion.discountValue <= 100,
+    { message: 'Percentage discount must not exceed 100', path: ['discountValue'] }
+  )
+
+// Window and percentage checks need the stored promotion, so the route makes them
+export const promotionUpdateSchema = promotionFields.partial()
+
+export type PromotionInput = z.infer<typeof promotionSchema>
+export type PromotionUpdateInput = z.infer<typeof promotionUpdateSchema>
+
+// ============================================================================
+// Report Schemas
+// ============================================================================
+
+export const reportRequestSchema = z.object({
+  type: z.enum(['daily-sales', 'z-report'], {
+    errorMap: () => ({ message: 'Invalid report type' }),
+  }),
+  locationId: z.string().cuid('Invalid location ID'),
+  businessDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+    .refine((value) => !isNaN(Date.parse(`${value}T00:00:00Z`)), 'Invalid date'),
+  format: z.enum(['CSV', 'XLSX', 'PDF'], {
+    errorMap: () => ({ message: 'Invalid report format' }),
+  }).default('PDF'),
+  emailTo: z.string().email('Invalid email address').optional(),
+}).strict()
+
+export const reportEmailSchema = z.object({
+  to: z.string().email('Invalid email address'),
+}).strict()
+
+export type ReportRequestInput = z.infer<typeof reportRequestSchema>
+export type ReportEmailInput = z.infer<typeof reportEmailSchema>
+
+// ============================================================================
+// Message Template Schemas
+// ============================================================================
+
+const templateKeySchema = {
+  event: z.enum(NOTIFICATION_EVENTS as [NotificationTemplateKey, ...NotificationTemplateKey[]], {
+    errorMap: () => ({ message: 'Invalid template event' }),
+  }),
+  channel: z.enum(NOTIFICATION_CHANNELS, {
+    errorMap: () => ({ message: 'Invalid channel' }),
+  }),
+  language: z.enum(TEMPLATE_LANGUAGES, {
+    errorMap: () => ({ message: 'Invalid language' }),
+  }).default('en'),
+}
+
+const templateSubjectSchema = z.string().max(200, 'Subject must not exceed 200 characters').nullable()
+const templateBodySchema = z.string().min(1, 'Body is required').max(20000, 'Body must not exceed 20000 characters')
+
+export const messageTemplateSchema = z.object({
+  ...templateKeySchema,
+  subject: templateSubjectSchema.optional(),
+  body: templateBodySchema,
+  isActive: z.boolean().default(true),
+}).strict()
+
+// The event, channel and language identify the template and cannot change
+export const messageTemplateUpdateSchema = z.object({
+  subject: templateSubjectSchema.optional(),
+  body: templateBodySchema.optional(),
+  isActive: z.boolean().optional(),
+}).strict()
+
+export const messageTemplatePreviewSchema = z.object({
+  ...templateKeySchema,
+  subject: templateSubjectSchema.optional(),
+  body: templateBodySchema.optional(),
+  data: z.record(z.unknown()).optional(),
+}).strict()
+
+export type MessageTemplateInput = z.infer<typeof messageTemplateSchema>
+export type MessageTemplateUpdateInput = z.infer<typeof messageTemplateUpdateSchema>
+export type MessageTemplatePreviewInput = z.infer<typeof messageTemplatePreviewSchema>
+
+// ============================================================================
+// Stock Count Schemas
+// ============================================================================
+
+export const stockCountOpenSchema = z.object({
+  locationId: z.string().cuid('Invalid location ID'),
+  storageArea: z.string().trim().max(100, 'Storage area must not exceed 100 characters').nullish(),
+  categoryId: z.string().cuid('Invalid category ID').nullish(),
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').nullish(),
+}).strict()
+
+export const stockCountEntriesSchema = z.object({
+  // Identifies the counting device, so its tallies can be corrected without touching others'
+  deviceId: z.string().min(1, 'Device ID is required').max(100),
+  counts: z.array(z.object({
+    inventoryItemId: z.string().cuid('Invalid inventory item ID'),
+    quantity: z.number().min(0, 'Counted quantity cannot be negative').max(1000000),
+  })).min(1, 'At least one count is required').max(500),
+}).strict()
+
+export const stockCountRecountSchema = z.object({
+  // Leave out to recount everything
+  inventoryItemIds: z.array(z.string().cuid('Invalid inventory item ID')).optional(),
+}).strict()
+
+export type StockCountOpenInput = z.infer<typeof stockCountOpenSchema>
+export type StockCountEntriesInput = z.infer<typeof stockCountEntriesSchema>
+export type StockCountRecountInput = z.infer<typeof stockCountRecountSchema>
+
+// ============================================================================
+// Purchasing Schemas
+// ============================================================================
+
+export const purchaseOrderSuggestionSchema = z.object({
+  locationId: z.string().cuid('Invalid location ID'),
+  lookbackDays: z.number().int().min(1).max(365).optional(),
+}).strict()
+
+export type PurchaseOrderSuggestionInput = z.infer<typeof purchaseOrderSuggestionSchema>
+
+export const purchaseOrderReceiveSchema = z.object({
+  receivedItems: z.array(z.object({
+    poItemId: z.string().cuid('Invalid purchase order item ID'),
+    receivedQty: z.number().positive('Received quantity must be positive'),
+    lotNumber: z.string().max(50).optional().nullable(),
+    expiryDate: z.string()
+      .refine((value) => !isNaN(Date.parse(value)), 'Invalid expiry date')
+      .optional()
+      .nullable(),
+  }).strict()).min(1, 'At least one received item is required'),
+  notes: z.string().max(500).optional().nullable(),
+}).strict()
+
+export const purchaseOrderSendSchema = z.object({
+  to: z.string().email('Invalid email address').optional().nullable(),
+  skipEmail: z.boolean().optional(),
+}).strict()
+
+export const purchaseApprovalLimitSchema = z.object({
+  role: z.enum(['SUPER_ADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'WAITER', 'KITCHEN', 'INVENTORY', 'STAFF'], {
+    errorMap: () => ({ message: 'Invalid role' }),
+  }),
+  maxTotal: z.number().min(0).nullable(),
+}).strict()
+
+export type PurchaseOrderReceiveInput = z.infer<typeof purchaseOrderReceiveSchema>
+export type PurchaseOrderSendInput = z.infer<typeof purchaseOrderSendSchema>
+export type PurchaseApprovalLimitInput = z.infer<typeof purchaseApprovalLimitSchema>
+
+// ============================================================================
+// Receipt Schemas
+// ============================================================================
+
+export const receiptRenderSchema = z.object({
+  type: z.enum(['thermal_80mm', 'thermal_58mm', 'a4', 'email'], {
+    errorMap: () => ({ message: 'Invalid receipt type' }),
+  }).default('thermal_80mm'),
+  format: z.enum(['escpos', 'pdf', 'html'], {
+    errorMap: () => ({ message: 'Invalid receipt format' }),
+  }).optional(),
+}).strict()
+
+export const receiptEmailSchema = z.object({
+  to: z.string().email('Invalid email address').optional(),
+}).strict()
+
+export type ReceiptRenderInput = z.infer<typeof receiptRenderSchema>
+export type ReceiptEmailInput = z.infer<typeof receiptEmailSchema>
+
+// ============================================================================
+// Shift Schemas
+// ============================================================================
+
+export const cashDrawerEventSchema = z.object({
+  type: z.enum(['PAID_IN', 'PAID_OUT', 'DROP', 'NO_SALE'], {
+    errorMap: () => ({ message: 'Invalid drawer event type' }),
+  }),
+  amount: z.number().min(0, 'Amount cannot be negative').max(10000000).optional(),
+  reason: z.string().trim().max(200, 'Reason must not exceed 200 characters').nullish(),
+}).strict().refine(
+  data => data.type === 'NO_SALE' || data.type === 'DROP' || !!data.reason,
+  { message: 'Give a reason for cash paid in or out', path: ['reason'] }
+)
+
+export const shiftCloseSchema = z.object({
+  closingCash: z.number().min(0, 'Closing cash cannot be negative').optional(),
+  // Counted notes and coins, e.g. [{ value: 1000, count: 3 }]
+  denominations: z.array(z.object({
+    value: z.number().positive('Denomination must be greater than 0'),
+    count: z.number().int('Count must be a whole number').min(0, 'Count cannot be negative'),
+  })).max(50).optional(),
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').nullish(),
+}).strict().refine(
+  data => data.closingCash !== undefined || !!data.denominations?.length,
+  { message: 'Count the drawer before closing the shift', path: ['denominations'] }
+)
+
+export const shiftReconcileSchema = z.object({
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').nullish(),
+}).strict()
+
+export type CashDrawerEventInput = z.infer<typeof cashDrawerEventSchema>
+export type ShiftCloseInput = z.infer<typeof shiftCloseSchema>
+export type ShiftReconcileInput = z.infer<typeof shiftReconcileSchema>
+
+// ============================================================================
+// Split Bill Schemas
+// ============================================================================
+
+const seatNumberSchema = z.number().int('Seat must be a whole number').min(1, 'Seat must be at least 1').max(99, 'Seat must not exceed 99')
+
+export const orderSplitSchema = z.discriminatedUnion('method', [
+  z.object({
+    method: z.literal('EVEN'),
+    ways: z.number().int('Ways must be a whole number').min(2, 'Split into at least 2 checks').max(20, 'Split into at most 20 checks'),
+  }).strict(),
+  z.object({
+    method: z.literal('ITEMS'),
+    splits: z.array(z.object({
+      label: z.string().trim().max(50, 'Label must not exceed 50 characters').optional(),
+      items: z.array(z.object({
+        orderItemId: z.string().min(1, 'Invalid order item ID'),
+        // Fraction of a shared item; leave out to share equally
+        share: z.number().positive('Share must be greater than 0').max(1, 'Share cannot exceed the whole item').optional(),
+      }).strict()).min(1, 'Each check needs at least one item'),
+    }).strict()).min(2, 'Split into at least 2 checks').max(20, 'Split into at most 20 checks'),
+  }).strict(),
+  z.object({
+    method: z.literal('SEATS'),
+    // Seats to set first; null takes an item off its seat so every seat shares it
+    seats: z.array(z.object({
+      orderItemId: z.string().min(1, 'Invalid order item ID'),
+      seatNumber: seatNumberSchema.nullable(),
+    }).strict()).max(200).optional(),
+  }).strict(),
+], { errorMap: () => ({ message: 'Split method must be EVEN, ITEMS or SEATS' }) })
+
+export type OrderSplitInput = z.infer<typeof orderSplitSchema>
+
+// ============================================================================
+// Reservation Schemas
+// ============================================================================
+
+export const reservationCreateSchema = z.object({
+  locationId: z.string().min(1, 'Location is required'),
+  customerId: z.string().min(1, 'Invalid customer ID').optional(),
+  guestName: z.string().trim().min(2, 'Guest name must be at least 2 characters').max(100, 'Guest name must not exceed 100 characters'),
+  guestEmail: z.string().email('Invalid email address').optional().or(z.literal('')),
+  guestPhone: z.string()
+    .min(10, 'Phone number must be at least 10 digits')
+    .max(20, 'Phone number must not exceed 20 characters')
+    .regex(phoneRegex, 'Phone number contains invalid characters'),
+  partySize: z.number().int('Party size must be a whole number').min(1, 'Party size must be at least 1').max(100, 'Party size must not exceed 100'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  startTime: z.string().regex(/^\d{1,2}:\d{2}(:\d{2})?$/, 'Time must be HH:MM'),
+  duration: z.number().int('Duration must be whole minutes').min(15, 'Duration must be at least 15 minutes').max(720, 'Duration must not exceed 12 hours').optional(),
+  // Leave out to have the best-fitting free table assigned
+  tableId: z.string().min(1, 'Invalid table ID').optional(),
+  additionalTableIds: z.array(z.string().min(1, 'Invalid table ID')).max(5, 'Combine at most 6 tables').optional(),
+  seatingPreferences: z.array(z.enum(SEATING_PREFERENCES, {
+    errorMap: () => ({ message: `Seating preference must be one of ${SEATING_PREFERENCES.join(', ')}` }),
+  })).max(SEATING_PREFERENCES.length).optional(),
+  occasion: z.string().max(100, 'Occasion must not exceed 100 characters').optional(),
+  specialRequests: z.string().max(500, 'Special requests must not exceed 500 characters').optional(),
+  dietaryNotes: z.string().max(500, 'Dietary notes must not exceed 500 characters').optional(),
+  source: z.enum(['DIRECT', 'PHONE', 'WEBSITE', 'APP', 'THIRD_PARTY', 'WHATSAPP'], {
+    errorMap: () => ({ message: 'Invalid reservation source' }),
+  }).optional(),
+}).strict().refine(
+  data => !data.additionalTableIds?.length || !!data.tableId,
+  { message: 'Choose the main table before combining others with it', path: ['tableId'] }
+)
+
+export type ReservationCreateInput = z.infer<typeof reservationCreateSchema>
+
+const reservationDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+const reservationTimeSchema = z.string().regex(/^\d{1,2}:\d{2}$/, 'Time must be HH:MM')
+const guestPartySizeSchema = z.number().int('Party size must be a whole number').min(1, 'Party size must be at least 1').max(100, 'Party size must not exceed 100')
+
+// Bookings made by guests on the website; tables are always assigned for them
+export const onlineReservationSchema = z.object({
+  locationId: z.string().min(1, 'Location is required'),
+  customerId: z.string().min(1, 'Invalid customer ID').optional(),
+  guestName: z.string().trim().min(2, 'Name must be at least 2 characters').max(100, 'Name must not exceed 100 characters'),
+  guestEmail: z.string().email('Invalid email address').optional().or(z.literal('')),
+  guestPhone: z.string()
+    .min(10, 'Phone number must be at least 10 digits')
+    .max(20, 'Phone number must not exceed 20 characters')
+    .regex(phoneRegex, 'Phone number contains invalid characters'),
+  partySize: guestPartySizeSchema,
+  date: reservationDateSchema,
+  startTime: reservationTimeSchema,
+  seatingPreferences: z.array(z.enum(SEATING_PREFERENCES, {
+    errorMap: () => ({ message: `Seating preference must be one of ${SEATING_PREFERENCES.join(', ')}` }),
+  })).max(SEATING_PREFERENCES.length).optional(),
+  occasion: z.string().max(100, 'Occasion must not exceed 100 characters').optional(),
+  specialRequests: z.string().max(500, 'Special requests must not exceed 500 characters').optional(),
+  dietaryNotes: z.string().max(500, 'Dietary notes must not exceed 500 characters').optional(),
+  // Required when the booking takes a deposit
+  paymentMethodId: z.string().min(1, 'Invalid payment method').optional(),
+}).strict()
+
+export type OnlineReservationInput = z.infer<typeof onlineReservationSchema>
+
+export const reservationRescheduleSchema = z.object({
+  date: reservationDateSchema,
+  startTime: reservationTimeSchema,
+  partySize: guestPartySizeSchema,
+}).strict()
+
+export type ReservationRescheduleInput = z.infer<typeof reservationRescheduleSchema>
+
+export const guestCancelReservationSchema = z.object({
+  reason: z.string().trim().max(200, 'Reason must not exceed 200 characters').optional(),
+}).strict()
+
+const slotCapSchema = z.number().int('Caps must be whole numbers').min(1, 'Caps must be at least 1').max(1000).nullable()
+
+const depositAmountSchema = z.number().positive('Deposit must be more than zero').max(1000000, 'Deposit is too large')
+
+const depositRuleSchema = z.object({
+  label: z.string().trim().min(1, 'Give the rule a label').max(60, 'Label must not exceed 60 characters'),
+  minPartySize: z.number().int().min(1, 'Party size must be at least 1').max(100).nullable(),
+  occasions: z.array(z.string().trim().min(1).max(50)).max(20),
+  dates: z.array(reservationDateSchema).max(100),
+  weekdays: z.array(z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'])).max(7),
+  amount: depositAmountSchema,
+  perGuest: z.boolean(),
+}).strict()
+
+const depositSettingsSchema = z.object({
+  rules: z.array(depositRuleSchema).max(20),
+  chargeAreaRentalFee: z.boolean(),
+  retainOnNoShow: z.boolean(),
+  noShowAfterMinutes: z.number().int().min(0).max(24 * 60, 'No-show grace must be within a day'),
+  paymentHoldMinutes: z.number().int().min(5, 'Hold unpaid bookings for at least 5 minutes').max(24 * 60, 'Hold unpaid bookings for at most a day'),
+}).strict()
+
+export const reservationSettingsSchema = z.object({
+  locationId: z.string().min(1, 'Location is required'),
+  slotInterval: z.union([z.literal(5), z.literal(10), z.literal(15), z.literal(20), z.literal(30), z.literal(60)], {
+    errorMap: () => ({ message: 'Slot interval must be 5, 10, 15, 20, 30 or 60 minutes' }),
+  }),
+  // Null leaves the slot uncapped
+  maxCoversPerSlot: slotCapSchema,
+  maxPartiesPerSlot: slotCapSchema,
+  minPartySize: z.number().int().min(1, 'Minimum party size must be at least 1').max(100),
+  maxPartySize: z.number().int().min(1, 'Maximum party size must be at least 1').max(100, 'Maximum party size must not exceed 100'),
+  turnTimes: z.array(z.object({
+    upTo: z.number().int().min(1, 'Party size must be at least 1').max(100),
+    minutes: z.number().int().min(15, 'Turn times must be at least 15 minutes').max(720, 'Turn times must not exceed 12 hours'),
+  }).strict()).max(20).refine(
+    turns => new Set(turns.map(turn => turn.upTo)).size === turns.length,
+    { message: 'Each party size can only have one turn time' }
+  ),
+  defaultTurnTime: z.number().int().min(15, 'Turn times must be at least 15 minutes').max(720, 'Turn times must not exceed 12 hours'),
+  lastSeatingBeforeClose: z.number().int().min(0).max(720, 'Last seating must be within 12 hours of closing'),
+  minNoticeMinutes: z.number().int().min(0).max(7 * 24 * 60, 'Notice must not exceed a week'),
+  // Guests can change or cancel online until this long before their booking
+  changeCutoffMinutes: z.number().int().min(0).max(7 * 24 * 60, 'Cutoff must not exceed a week'),
+  reminderLeadMinutes: z.number().int().min(15, 'Reminders go out at least 15 minutes ahead').max(7 * 24 * 60, 'Reminders go out at most a week ahead'),
+  // Left as they are when not sent
+  deposits: depositSettingsSchema.optional(),
+}).strict().refine(
+  data => data.minPartySize <= data.maxPartySize,
+  { message: 'Minimum party size cannot be more than the maximum', path: ['minPartySize'] }
+)
+
+export type ReservationSettingsInput = z.infer<typeof reservationSettingsSchema>
+
+export const hoursExceptionSchema = z.object({
+  locationId: z.string().min(1, 'Location is required'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  closed: z.boolean(),
+  open: z.string().regex(/^\d{1,2}:\d{2}$/, 'Time must be HH:MM').nullable().optional(),
+  close: z.string().regex(/^\d{1,2}:\d{2}$/, 'Time must be HH:MM').nullable().optional(),
+  reason: z.string().trim().max(100, 'Reason must not exceed 100 characters').nullable().optional(),
+}).strict().refine(
+  data => data.closed || (!!data.open && !!data.close),
+  { message: 'Special hours need an opening and a closing time', path: ['open'] }
+)
+
+export type LocationHoursExceptionInput = z.infer<typeof hoursExceptionSchema>
+
+export const reservationDepositPaymentSchema = z.object({
+  paymentMethodId: z.string().min(1, 'Payment method is required'),
+  shiftId: z.string().min(1).optional(),
+  terminalId: z.string().min(1).optional(),
+}).strict()
+
+export const reservationDepositApplySchema = z.object({
+  orderId: z.string().min(1, 'Order is required'),
+}).strict()
+
+export const reservationDepositRefundSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(200, 'Reason must not exceed 200 characters'),
+  shiftId: z.string().min(1).optional(),
+}).strict()
+
+// ============================================================================
+// Floor Plan Schemas
+// ============================================================================
+
+const planUnitSchema = z.number().finite().min(0).max(4000)
+
+export const floorPlanSchema = z.object({
+  plan: z.object({
+    width: z.number().int().min(200, 'The floor must be at least 200 wide').max(4000, 'The floor must not exceed 4000 wide'),
+    height: z.number().int().min(200, 'The floor must be at least 200 high').max(4000, 'The floor must not exceed 4000 high'),
+    gridSize: z.number().int().min(0).max(100, 'Grid must not exceed 100'),
+  }).strict(),
+  // Only the tables sent are moved
+  tables: z.array(z.object({
+    id: z.string().min(1, 'Table is required'),
+    positionX: planUnitSchema,
+    positionY: planUnitSchema,
+    width: z.number().finite().min(30, 'Tables must be at least 30 wide').max(600, 'Tables must not exceed 600 wide'),
+    height: z.number().finite().min(30, 'Tables must be at least 30 high').max(600, 'Tables must not exceed 600 high'),
+    rotation: z.number().finite(),
+    shape: z.enum(['RECTANGLE', 'CIRCLE', 'SQUARE', 'OVAL']),
+  }).strict()).max(500).refine(
+    tables => new Set(tables.map(table => table.id)).size === tables.length,
+    { message: 'Each table can only be placed once' }
+  ),
+}).strict()
+
+export type FloorPlanLayoutInput = z.infer<typeof floorPlanSchema>
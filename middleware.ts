@@ -8,10 +8,11 @@ const { auth } = NextAuth(authConfig);
 export default auth((req) => {
   const isLoggedIn = !!req.auth;
   const isAdminRoute = req.nextUrl.pathname.startsWith("/admin");
+  const isStaffRoute = req.nextUrl.pathname.startsWith("/pos") || req.nextUrl.pathname.startsWith("/kitchen");
   const isLoginPage = req.nextUrl.pathname === "/login" || req.nextUrl.pathname === "/admin/login";
 
-  // Protect admin routes (except login pages)
-  if (isAdminRoute && !isLoginPage && !isLoggedIn) {
+  // Protect admin and staff routes (except login pages); API routes check permissions themselves
+  if ((isAdminRoute || isStaffRoute) && !isLoginPage && !isLoggedIn) {
     return NextResponse.redirect(new URL("/login", req.nextUrl));
   }
 
@@ -24,5 +25,5 @@ export default auth((req) => {
 });
 
 export const config = {
-  matcher: ["/admin/:path*", "/login"],
+  matcher: ["/admin/:path*", "/pos/:path*", "/kitchen/:path*", "/login"],
 };
@@ -11,9 +11,13 @@ import {
   PaintBrush,
   Layout,
   ChartPie,
+  ClockCounterClockwise,
+  FileText,
+  EnvelopeSimple,
   SignOut,
   CaretDoubleLeft,
-  CaretDoubleRight
+  CaretDoubleRight,
+  SquaresFour
 } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
 import { signOut } from 'next-auth/react'
@@ -34,9 +38,13 @@ const navItems: NavItem[] = [
   { id: 'menu', label: 'Menu Items', icon: ForkKnife, href: '/admin?tab=menu' },
   { id: 'categories', label: 'Categories', icon: Tag, href: '/admin?tab=categories' },
   { id: 'locations', label: 'Locations', icon: MapPin, href: '/admin?tab=locations' },
+  { id: 'floor', label: 'Floor', icon: SquaresFour, href: '/admin/floor' },
   { id: 'landing', label: 'Landing Page', icon: Layout, href: '/admin?tab=landing' },
   { id: 'branding', label: 'Branding', icon: PaintBrush, href: '/admin?tab=branding' },
   { id: 'settings', label: 'Settings', icon: Gear, href: '/admin?tab=settings' },
+  { id: 'reports', label: 'Reports', icon: FileText, href: '/admin/reports' },
+  { id: 'templates', label: 'Message Templates', icon: EnvelopeSimple, href: '/admin/templates' },
+  { id: 'audit', label: 'Audit Log', icon: ClockCounterClockwise, href: '/admin/audit' },
 ]
 
 interface AdminSidebarProps {
@@ -0,0 +1,252 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core'
+import { ArrowClockwise, FloppyDisk, Spinner } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { fitLayout, normalizeRotation, snapToGrid } from '@/lib/tables/floor-plan'
+import { useAreaFloorPlan, saveFloorPlan, type FloorPlan, type FloorPlanTable, type TableShape } from '@/lib/hooks/use-tables'
+import { FloorTableShape } from './FloorTableShape'
+
+const SHAPES: { value: TableShape; label: string }[] = [
+  { value: 'RECTANGLE', label: 'Rectangle' },
+  { value: 'SQUARE', label: 'Square' },
+  { value: 'CIRCLE', label: 'Circle' },
+  { value: 'OVAL', label: 'Oval' },
+]
+
+function EditableTable({ table, selected, onSelect }: { table: FloorPlanTable; selected: boolean; onSelect: () => void }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: table.id })
+
+  return (
+    <FloorTableShape
+      ref={setNodeRef}
+      layout={table}
+      offset={transform}
+      selected={selected}
+      onClick={onSelect}
+      className={cn('cursor-grab', isDragging && 'cursor-grabbing opacity-80 z-10', !table.positioned && 'border-dashed')}
+      {...attributes}
+      {...listeners}
+    >
+      <div className="text-sm font-black">{table.tableNumber}</div>
+      <div className="text-[10px] text-muted-foreground">{table.maxSeats} seats</div>
+    </FloorTableShape>
+  )
+}
+
+interface FloorPlanEditorProps {
+  areaId: string
+}
+
+export function FloorPlanEditor({ areaId }: FloorPlanEditorProps) {
+  const { plan, tables, isLoading, error } = useAreaFloorPlan(areaId)
+  const [draftPlan, setDraftPlan] = useState<FloorPlan | null>(null)
+  const [draftTables, setDraftTables] = useState<FloorPlanTable[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // A click selects; the pointer has to travel a little before it drags
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }))
+
+  // Take what's saved whenever there are no changes of our own to keep
+  useEffect(() => {
+    if (!plan || dirty) return
+    setDraftPlan(plan)
+    setDraftTables(tables)
+  }, [plan, tables, dirty])
+
+  useEffect(() => {
+    setDraftPlan(null)
+    setDirty(false)
+    setSelectedId(null)
+  }, [areaId])
+
+  const selected = draftTables.find(table => table.id === selectedId) ?? null
+
+  const updateTable = (id: string, change: Partial<FloorPlanTable>) => {
+    if (!draftPlan) return
+    setDraftTables(current => current.map(table =>
+      table.id === id ? { ...table, ...fitLayout({ ...table, ...change }, draftPlan), positioned: true } : table
+    ))
+    setDirty(true)
+  }
+
+  const updatePlan = (change: Partial<FloorPlan>) => {
+    if (!draftPlan) return
+    setDraftPlan({ ...draftPlan, ...change })
+    setDirty(true)
+  }
+
+  const handleDragEnd = ({ active, delta }: DragEndEvent) => {
+    const table = draftTables.find(t => t.id === active.id)
+    if (!table || !draftPlan || (delta.x === 0 && delta.y === 0)) return
+    updateTable(table.id, {
+      positionX: snapToGrid(table.positionX + delta.x, draftPlan.gridSize),
+      positionY: snapToGrid(table.positionY + delta.y, draftPlan.gridSize),
+    })
+    setSelectedId(table.id)
+  }
+
+  const handleSave = async () => {
+    if (!draftPlan) return
+    setSaving(true)
+    try {
+      await saveFloorPlan(areaId, {
+        plan: draftPlan,
+        tables: draftTables.map(({ id, positionX, positionY, width, height, rotation, shape }) => ({
+          id, positionX, positionY, width, height, rotation, shape,
+        })),
+      })
+      setDirty(false)
+      toast.success('Floor plan saved')
+    } catch (err: any) {
+      toast.error(err.message || 'Could not save the floor plan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (isLoading || !draftPlan) {
+    return (
+      <div className="flex justify-center py-12">
+        {error ? <p className="text-sm text-muted-foreground">{String(error)}</p> : <Spinner className="animate-spin text-primary" size={28} />}
+      </div>
+    )
+  }
+
+  const numberField = (label: string, value: number, onChange: (value: number) => void, step = 1) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = Number(e.target.value)
+          if (e.target.value !== '' && Number.isFinite(parsed)) onChange(parsed)
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[1fr_280px] gap-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Drag tables into place. Dashed tables haven&apos;t been placed yet.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={!dirty || saving} onClick={() => setDirty(false)}>
+              <ArrowClockwise className="mr-2" /> Discard
+            </Button>
+            <Button size="sm" disabled={!dirty || saving} onClick={handleSave}>
+              {saving ? <Spinner className="animate-spin mr-2" /> : <FloppyDisk className="mr-2" />}
+              Save Layout
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-auto rounded-xl border border-border bg-card max-h-[70vh]">
+          <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+            <div
+              className="relative"
+              style={{
+                width: draftPlan.width,
+                height: draftPlan.height,
+                ...(draftPlan.gridSize > 0 && {
+                  backgroundImage: 'radial-gradient(circle, hsl(var(--border)) 1px, transparent 1px)',
+                  backgroundSize: `${draftPlan.gridSize}px ${draftPlan.gridSize}px`,
+                }),
+              }}
+              onClick={(e) => e.target === e.currentTarget && setSelectedId(null)}
+            >
+              {draftTables.map(table => (
+                <EditableTable
+                  key={table.id}
+                  table={table}
+                  selected={table.id === selectedId}
+                  onSelect={() => setSelectedId(table.id)}
+                />
+              ))}
+            </div>
+          </DndContext>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">{selected ? `Table ${selected.tableNumber}` : 'Select a table'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selected ? (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {SHAPES.map(shape => (
+                    <Button
+                      key={shape.value}
+                      size="sm"
+                      variant={selected.shape === shape.value ? 'default' : 'outline'}
+                      onClick={() => updateTable(selected.id, { shape: shape.value })}
+                    >
+                      {shape.label}
+                    </Button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {numberField('Width', selected.width, (width) => updateTable(selected.id, { width }), draftPlan.gridSize || 1)}
+                  {numberField('Height', selected.height, (height) => updateTable(selected.id, { height }), draftPlan.gridSize || 1)}
+                  {numberField('X', selected.positionX, (positionX) => updateTable(selected.id, { positionX }))}
+                  {numberField('Y', selected.positionY, (positionY) => updateTable(selected.id, { positionY }))}
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    {numberField('Rotation', selected.rotation, (rotation) => updateTable(selected.id, { rotation }), 15)}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Turn 45°"
+                    onClick={() => updateTable(selected.id, { rotation: normalizeRotation(selected.rotation + 45) })}
+                  >
+                    <ArrowClockwise />
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Click a table to change its shape, size or rotation.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Floor</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-2">
+            {numberField('Width', draftPlan.width, (width) => updatePlan({ width }), 50)}
+            {numberField('Height', draftPlan.height, (height) => updatePlan({ height }), 50)}
+            <div className="col-span-2">
+              {numberField('Grid (0 for none)', draftPlan.gridSize, (gridSize) => updatePlan({ gridSize: Math.max(0, Math.round(gridSize)) }), 5)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { forwardRef } from 'react'
+import { cn } from '@/lib/utils'
+import type { TableShape } from '@/lib/hooks/use-tables'
+
+interface FloorTableShapeProps extends React.HTMLAttributes<HTMLDivElement> {
+  layout: { positionX: number; positionY: number; width: number; height: number; rotation: number; shape: TableShape }
+  /** Fill and border; defaults to the theme's muted colours */
+  color?: string
+  selected?: boolean
+  /** Applied on top of the position while the table is dragged */
+  offset?: { x: number; y: number } | null
+}
+
+/**
+ * A table drawn at its place on the floor plan, shared by the editor and
+ * the live floor
+ */
+export const FloorTableShape = forwardRef<HTMLDivElement, FloorTableShapeProps>(function FloorTableShape(
+  { layout, color, selected, offset, className, style, children, ...props },
+  ref
+) {
+  const round = layout.shape === 'CIRCLE' || layout.shape === 'OVAL'
+
+  return (
+    <div
+      ref={ref}
+      {...props}
+      className={cn(
+        'absolute flex flex-col items-center justify-center border-2 text-center select-none touch-none',
+        round ? 'rounded-full' : 'rounded-lg',
+        !color && 'bg-muted border-border',
+        selected && 'ring-2 ring-primary ring-offset-2 ring-offset-background',
+        className
+      )}
+      style={{
+        left: layout.positionX,
+        top: layout.positionY,
+        width: layout.width,
+        height: layout.height,
+        transform: `${offset ? `translate(${offset.x}px, ${offset.y}px) ` : ''}rotate(${layout.rotation}deg)`,
+        ...(color && { backgroundColor: `${color}26`, borderColor: color }),
+        ...style,
+      }}
+    >
+      {/* Text stays upright whichever way the table is turned */}
+      <div style={{ transform: `rotate(${-layout.rotation}deg)` }} className="leading-tight pointer-events-none">
+        {children}
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,313 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DndContext,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core'
+import { LinkSimple, LinkBreak, Spinner } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import { canCombineTables } from '@/lib/tables/floor-plan'
+import {
+  useLiveFloor,
+  combineTables,
+  separateTables,
+  updateTableStatus,
+  getTableStatusColor,
+  type FloorReservation,
+  type LiveFloorTable,
+} from '@/lib/hooks/use-tables'
+import { seatReservation } from '@/lib/hooks/use-reservations'
+import { useLiveRefresh } from '@/lib/hooks/use-socket'
+import { FloorTableShape } from './FloorTableShape'
+
+const STATUSES = ['AVAILABLE', 'OCCUPIED', 'RESERVED', 'CLEANING', 'BLOCKED']
+
+const formatSeated = (minutes: number) => minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+
+const formatStart = (reservation: FloorReservation) =>
+  reservation.minutesToStart < 0 ? `${reservation.time} (${-reservation.minutesToStart}m late)` : reservation.time
+
+function LiveTable({ table, selected, onSelect }: { table: LiveFloorTable; selected: boolean; onSelect: () => void }) {
+  const drag = useDraggable({ id: table.id, data: table })
+  const drop = useDroppable({ id: table.id, data: table })
+  const next = table.upcoming[0]
+
+  return (
+    <FloorTableShape
+      ref={(node) => {
+        drag.setNodeRef(node)
+        drop.setNodeRef(node)
+      }}
+      layout={table}
+      color={getTableStatusColor(table.status)}
+      offset={drag.transform}
+      selected={selected}
+      onClick={onSelect}
+      className={cn(
+        'cursor-pointer',
+        drag.isDragging && 'opacity-80 z-10',
+        drop.isOver && !drag.isDragging && 'ring-4 ring-primary'
+      )}
+      {...drag.attributes}
+      {...drag.listeners}
+    >
+      <div className="text-sm font-black flex items-center justify-center gap-1">
+        {table.tableNumber}
+        {table.combinedWith.length > 0 && <LinkSimple size={12} weight="bold" />}
+      </div>
+      {table.order ? (
+        <>
+          <div className="text-[10px] font-bold">Rs. {table.order.total.toLocaleString()}</div>
+          {table.seatedMinutes !== null && <div className="text-[10px] text-muted-foreground">{formatSeated(table.seatedMinutes)}</div>}
+        </>
+      ) : next ? (
+        <div className="text-[10px] text-muted-foreground">{next.time} · {next.partySize}</div>
+      ) : (
+        <div className="text-[10px] text-muted-foreground">{table.maxSeats} seats</div>
+      )}
+    </FloorTableShape>
+  )
+}
+
+interface LiveFloorViewProps {
+  locationId: string
+}
+
+export function LiveFloorView({ locationId }: LiveFloorViewProps) {
+  const { areas, unassigned, isLoading, error, refresh } = useLiveFloor(locationId)
+  const [areaId, setAreaId] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  // Hosts, the POS and guests all change the floor; pick that up live
+  useLiveRefresh(
+    ['table:status-changed', 'order:created', 'order:status-changed', 'order:payment-received', 'reservation:created', 'reservation:updated', 'reservation:seated'],
+    refresh,
+    locationId
+  )
+
+  // Drags start after a short move so a click still selects the table
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }))
+
+  useEffect(() => {
+    if (areas.length > 0 && !areas.some(area => area.id === areaId)) setAreaId(areas[0].id)
+  }, [areas, areaId])
+
+  const area = areas.find(a => a.id === areaId) ?? null
+  const allTables = areas.flatMap(a => a.tables)
+  const selected = allTables.find(table => table.id === selectedId) ?? null
+  const tableNumber = (id: string) => allTables.find(table => table.id === id)?.tableNumber ?? '?'
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true)
+    try {
+      await action()
+      toast.success(success)
+      refresh()
+    } catch (err: any) {
+      toast.error(err.message || 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Dropping one table on another combines them, the target first
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const dragged = active.data.current as LiveFloorTable | undefined
+    const target = over?.data.current as LiveFloorTable | undefined
+    if (!dragged || !target || dragged.id === target.id) return
+    if (!canCombineTables(dragged, target)) {
+      toast.error('Only tables in the same area that aren\'t already combined can be joined')
+      return
+    }
+    run(
+      () => combineTables([target.id, dragged.id], target.status === 'OCCUPIED' ? 'OCCUPIED' : undefined),
+      `Tables ${target.tableNumber} and ${dragged.tableNumber} combined`
+    )
+    setSelectedId(target.id)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner className="animate-spin text-primary" size={28} />
+      </div>
+    )
+  }
+
+  if (error || areas.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          {error ? String(error) : 'No areas with tables at this location yet'}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[1fr_320px] gap-4">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {areas.map(a => (
+              <Button key={a.id} size="sm" variant={a.id === areaId ? 'default' : 'outline'} onClick={() => setAreaId(a.id)}>
+                {a.name}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            {STATUSES.map(status => (
+              <span key={status} className="flex items-center gap-1">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: getTableStatusColor(status) }} />
+                {status.charAt(0) + status.slice(1).toLowerCase()}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {area && (
+          <div className="overflow-auto rounded-xl border border-border bg-card max-h-[70vh]">
+            <DndContext sensors={sensors} collisionDetection={pointerWithin} onDragEnd={handleDragEnd}>
+              <div
+                className="relative"
+                style={{ width: area.plan.width, height: area.plan.height }}
+                onClick={(e) => e.target === e.currentTarget && setSelectedId(null)}
+              >
+                {area.tables.map(table => (
+                  <LiveTable
+                    key={table.id}
+                    table={table}
+                    selected={table.id === selectedId}
+                    onSelect={() => setSelectedId(table.id)}
+                  />
+                ))}
+              </div>
+            </DndContext>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">Drag a table onto another to combine them for a larger party.</p>
+      </div>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center justify-between">
+              {selected ? `Table ${selected.tableNumber}` : 'Select a table'}
+              {selected && <Badge style={{ backgroundColor: getTableStatusColor(selected.status) }}>{selected.status}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {selected ? (
+              <>
+                <p className="text-muted-foreground">
+                  {selected.minSeats}-{selected.maxSeats} seats
+                  {selected.combinedWith.length > 0 && ` · combined with ${selected.combinedWith.map(tableNumber).join(', ')}`}
+                </p>
+
+                {selected.order ? (
+                  <div className="rounded-lg border border-border p-3 space-y-1">
+                    <div className="flex justify-between font-medium">
+                      <span>#{selected.order.orderNumber}{selected.order.count > 1 && ` +${selected.order.count - 1}`}</span>
+                      <span>Rs. {selected.order.total.toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{selected.order.status}</span>
+                      <span>Paid Rs. {selected.order.paidAmount.toLocaleString()}</span>
+                    </div>
+                    {selected.seatedMinutes !== null && (
+                      <div className="text-xs text-muted-foreground">Seated {formatSeated(selected.seatedMinutes)} ago</div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">No open order</p>
+                )}
+
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase text-muted-foreground">Coming up</p>
+                  {selected.upcoming.length === 0 ? (
+                    <p className="text-muted-foreground">No bookings for this table soon</p>
+                  ) : selected.upcoming.map(reservation => (
+                    <div key={reservation.id} className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium">{reservation.guestName} ({reservation.partySize})</p>
+                        <p className={cn('text-xs', reservation.minutesToStart < 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                          {formatStart(reservation)}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => run(() => seatReservation(reservation.id, selected.id), `${reservation.guestName} seated`)}
+                      >
+                        Seat
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {selected.combinedWith.length > 0 && (
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => run(() => separateTables(selected.id), 'Tables separated')}>
+                      <LinkBreak className="mr-1" /> Separate
+                    </Button>
+                  )}
+                  {STATUSES.filter(status => status !== selected.status).map(status => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() => run(() => updateTableStatus(selected.id, status), `Table ${selected.tableNumber} marked ${status.toLowerCase()}`)}
+                    >
+                      {status.charAt(0) + status.slice(1).toLowerCase()}
+                    </Button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-muted-foreground">Click a table for its bill, time seated and bookings.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Bookings without a table ({unassigned.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {unassigned.length === 0 ? (
+              <p className="text-muted-foreground">Every booking coming up has a table</p>
+            ) : unassigned.map(reservation => (
+              <div key={reservation.id} className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">{reservation.guestName} ({reservation.partySize})</p>
+                  <p className="text-xs text-muted-foreground">{formatStart(reservation)}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy || !selected || (selected.maxSeats < reservation.partySize && selected.combinedWith.length === 0)}
+                  onClick={() => selected && run(() => seatReservation(reservation.id, selected.id), `${reservation.guestName} seated at ${selected.tableNumber}`)}
+                >
+                  {selected ? `Seat at ${selected.tableNumber}` : 'Pick a table'}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
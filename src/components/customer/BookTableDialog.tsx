@@ -0,0 +1,287 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { CalendarCheck, CheckCircle, Minus, Plus, Spinner } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { useReservationSlots, useDepositQuote, bookReservationOnline, type GuestReservation } from '@/lib/hooks/use-reservations'
+
+type SeatingPreference = 'outdoor' | 'accessible' | 'private' | 'smoking'
+
+const PREFERENCES: { value: SeatingPreference; label: string }[] = [
+  { value: 'outdoor', label: 'Outdoor' },
+  { value: 'accessible', label: 'Accessible' },
+  { value: 'private', label: 'Private' },
+  { value: 'smoking', label: 'Smoking' },
+]
+
+const today = () => {
+  const now = new Date()
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10)
+}
+
+interface BookTableDialogProps {
+  location: { id: string; name: string } | null
+  customer?: any
+  onOpenChange: (open: boolean) => void
+}
+
+export function BookTableDialog({ location, customer, onOpenChange }: BookTableDialogProps) {
+  const [partySize, setPartySize] = useState(2)
+  const [date, setDate] = useState(today())
+  const [time, setTime] = useState('')
+  const [preferences, setPreferences] = useState<SeatingPreference[]>([])
+  const [guestName, setGuestName] = useState('')
+  const [guestPhone, setGuestPhone] = useState('')
+  const [guestEmail, setGuestEmail] = useState('')
+  const [occasion, setOccasion] = useState('')
+  const [specialRequests, setSpecialRequests] = useState('')
+  const [paymentMethodId, setPaymentMethodId] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [booked, setBooked] = useState<GuestReservation | null>(null)
+  const [paymentPending, setPaymentPending] = useState(false)
+
+  const { slots, closed, reason, isLoading, error } = useReservationSlots({
+    location: location?.id || '',
+    date,
+    partySize,
+    preferences,
+  })
+  const { deposit, paymentMethods } = useDepositQuote({
+    location: location?.id || '',
+    date,
+    partySize,
+    occasion: occasion.trim() || undefined,
+  })
+  const depositDue = deposit && deposit.amount > 0 ? deposit : null
+
+  // Start each booking afresh, with the signed-in customer's details
+  useEffect(() => {
+    if (location) {
+      setTime('')
+      setBooked(null)
+      setPaymentPending(false)
+      setPaymentMethodId('')
+      setGuestName(customer?.name || '')
+      setGuestPhone(customer?.phone || '')
+      setGuestEmail(customer?.email || '')
+    }
+  }, [location, customer])
+
+  // A different day or party can't keep a time that may no longer be free
+  useEffect(() => {
+    setTime('')
+  }, [date, partySize, preferences])
+
+  const togglePreference = (value: SeatingPreference) => {
+    setPreferences(current => current.includes(value) ? current.filter(p => p !== value) : [...current, value])
+  }
+
+  const handleBook = async () => {
+    if (!location || !time) return
+    if (!guestName.trim() || !guestPhone.trim()) {
+      toast.error('Please enter your name and phone number')
+      return
+    }
+    if (depositDue && !paymentMethodId) {
+      toast.error('Please choose how to pay the deposit')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { reservation, depositPayment } = await bookReservationOnline({
+        locationId: location.id,
+        customerId: customer?.id,
+        guestName: guestName.trim(),
+        guestPhone: guestPhone.trim(),
+        guestEmail: guestEmail.trim() || undefined,
+        partySize,
+        date,
+        startTime: time,
+        seatingPreferences: preferences.length ? preferences : undefined,
+        occasion: occasion.trim() || undefined,
+        specialRequests: specialRequests.trim() || undefined,
+        paymentMethodId: depositDue ? paymentMethodId : undefined,
+      })
+      setBooked(reservation)
+      setPaymentPending(!!depositPayment?.pending)
+      toast.success(depositPayment?.pending ? 'Your table is held until the deposit is paid' : 'Your table is booked')
+    } catch (err: any) {
+      toast.error(err.message || 'Could not book the table')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!location} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border text-foreground rounded-[2rem] max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-black uppercase tracking-tight">Book a Table</DialogTitle>
+          <DialogDescription className="text-muted-foreground">{location?.name}</DialogDescription>
+        </DialogHeader>
+
+        {booked ? (
+          <div className="space-y-6 py-4 text-center">
+            <CheckCircle size={56} weight="fill" className="text-green-500 mx-auto" />
+            <div className="space-y-1">
+              <div className="text-[10px] font-black text-primary uppercase tracking-widest">{booked.reservationNumber}</div>
+              <h4 className="text-xl font-black uppercase tracking-tight">
+                {booked.partySize} {booked.partySize === 1 ? 'Guest' : 'Guests'} at {booked.time}
+              </h4>
+              <p className="text-muted-foreground text-sm">
+                {new Date(`${booked.date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' })}
+              </p>
+            </div>
+            {booked.deposit && (
+              <p className="text-xs font-bold">
+                Deposit Rs. {booked.deposit.amount.toLocaleString()}
+                {paymentPending ? ' awaiting payment' : ' paid'}, credited to your bill on the day
+              </p>
+            )}
+            <p className="text-muted-foreground text-xs">
+              {paymentPending
+                ? 'Complete the payment to confirm your booking; we\'ll send your confirmation once it arrives.'
+                : 'We\'ve sent your confirmation.'}
+              {' '}You can change or cancel the booking online until {Math.round(booked.changeCutoffMinutes / 60)} hours before
+              {booked.deposit ? ', with the deposit refunded.' : '.'}
+            </p>
+            {booked.manageUrl && (
+              <a href={booked.manageUrl} className="inline-block text-primary text-xs font-black uppercase tracking-widest underline">
+                Manage booking
+              </a>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-[10px] font-black uppercase tracking-widest text-muted-foreground">Guests</Label>
+                <div className="flex items-center gap-3">
+                  <Button variant="outline" size="icon" onClick={() => setPartySize(size => Math.max(1, size - 1))}>
+                    <Minus weight="bold" />
+                  </Button>
+                  <span className="text-xl font-black w-8 text-center">{partySize}</span>
+                  <Button variant="outline" size="icon" onClick={() => setPartySize(size => Math.min(50, size + 1))}>
+                    <Plus weight="bold" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book-date" className="text-[10px] font-black uppercase tracking-widest text-muted-foreground">Date</Label>
+                <Input id="book-date" type="date" min={today()} value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {PREFERENCES.map(pref => (
+                <button
+                  key={pref.value}
+                  onClick={() => togglePreference(pref.value)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all',
+                    preferences.includes(pref.value) ? 'bg-primary text-primary-foreground border-primary' : 'bg-muted border-border text-muted-foreground'
+                  )}
+                >
+                  {pref.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-[10px] font-black uppercase tracking-widest text-muted-foreground">Time</Label>
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Spinner className="animate-spin text-primary" size={28} weight="bold" />
+                </div>
+              ) : error || closed ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  {(typeof error === 'string' ? error : null) || reason || 'No bookings are taken on this day'}
+                </p>
+              ) : slots.every(slot => !slot.available) ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">No tables left for {partySize} on this day</p>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {slots.map(slot => (
+                    <button
+                      key={slot.time}
+                      disabled={!slot.available}
+                      onClick={() => setTime(slot.time)}
+                      className={cn(
+                        'py-2 rounded-lg text-xs font-black font-mono border transition-all',
+                        time === slot.time ? 'bg-primary text-primary-foreground border-primary' : 'bg-muted border-border',
+                        !slot.available && 'opacity-30 line-through cursor-not-allowed'
+                      )}
+                    >
+                      {slot.time}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 gap-3">
+              <Input placeholder="Full name" value={guestName} onChange={(e) => setGuestName(e.target.value)} />
+              <Input placeholder="Phone" value={guestPhone} onChange={(e) => setGuestPhone(e.target.value)} />
+              <Input placeholder="Email (for your confirmation)" type="email" value={guestEmail} onChange={(e) => setGuestEmail(e.target.value)} />
+              <Input placeholder="Occasion (birthday, anniversary...)" value={occasion} onChange={(e) => setOccasion(e.target.value)} />
+              <Textarea placeholder="Special requests" value={specialRequests} onChange={(e) => setSpecialRequests(e.target.value)} />
+            </div>
+
+            {depositDue && (
+              <div className="space-y-3 rounded-xl border border-primary/30 bg-primary/5 p-4">
+                <p className="text-xs font-bold">
+                  A deposit of Rs. {depositDue.amount.toLocaleString()} is required
+                  {depositDue.reasons.length > 0 && ` (${depositDue.reasons.join(', ')})`}.
+                  It comes off your bill on the day.
+                </p>
+                {paymentMethods.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Online payment isn&apos;t available; please call us to book.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {paymentMethods.map(method => (
+                      <button
+                        key={method.id}
+                        onClick={() => setPaymentMethodId(method.id)}
+                        className={cn(
+                          'px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all',
+                          paymentMethodId === method.id ? 'bg-primary text-primary-foreground border-primary' : 'bg-muted border-border text-muted-foreground'
+                        )}
+                      >
+                        {method.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {booked ? (
+            <Button onClick={() => onOpenChange(false)} className="w-full">Done</Button>
+          ) : (
+            <Button onClick={handleBook} disabled={!time || submitting} className="w-full gap-2">
+              {submitting ? <Spinner className="animate-spin" /> : <CalendarCheck weight="fill" />}
+              {!time ? 'Pick a time' : depositDue ? `Pay deposit & book for ${time}` : `Book for ${time}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
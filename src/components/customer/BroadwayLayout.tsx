@@ -2,12 +2,14 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { ChevronLeft, ChevronRight, Plus, Minus } from 'lucide-react'
-import { ChevronLeft, ChevronRight, Plus, Minus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
 import type { MenuItem, Category, CartItem, Banner } from '@/lib/types'
+import { ItemOptionsDialog, type ItemOptionsSelection } from '@/components/menu/item-options-dialog'
+import { hasConfigurableOptions } from '@/lib/menu/pricing'
+import { getCartLineKey } from '@/lib/utils/cart-calculations'
 
 interface BroadwayLayoutProps {
   menuItems: MenuItem[]
@@ -262,8 +264,9 @@ function CategorySection({
   onUpdateQuantity: (itemId: string, delta: number) => void
 }) {
   const getCartQuantity = (itemId: string) => {
-    const cartItem = cart.find(c => c.menuItem.id === itemId)
-    return cartItem?.quantity || 0
+    return cart
+      .filter(c => c.menuItem.id === itemId)
+      .reduce((sum, c) => sum + c.quantity, 0)
   }
 
   if (items.length === 0) return null
@@ -308,6 +311,7 @@ export function BroadwayLayout({
   const [activeCategory, setActiveCategory] = useState<string | null>(
     categories[0]?.id || null
   )
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null)
 
   // Group items by category
   const itemsByCategory = categories.reduce((acc, category) => {
@@ -360,24 +364,61 @@ export function BroadwayLayout({
       return
     }
 
+    // Items with sizes or add-ons go through the options picker first
+    if (hasConfigurableOptions(item)) {
+      setOptionsItem(item)
+      return
+    }
+
+    addCartLine({ menuItem: item, quantity: 1 })
+  }
+
+  // Lines with the same item and options are merged, others are kept apart
+  const addCartLine = (line: CartItem) => {
+    const lineKey = getCartLineKey(line)
     setCart((prev) => {
-      const existing = prev.find(c => c.menuItem.id === item.id)
+      const existing = prev.find(c => getCartLineKey(c) === lineKey)
       if (existing) {
         return prev.map(c =>
-          c.menuItem.id === item.id
+          getCartLineKey(c) === lineKey
             ? { ...c, quantity: c.quantity + 1 }
             : c
         )
       }
-      return [...prev, { menuItem: item, quantity: 1 }]
+      return [...prev, line]
+    })
+  }
+
+  const handleConfirmOptions = ({ variantId, modifierOptionIds, line }: ItemOptionsSelection) => {
+    if (!optionsItem) return
+
+    addCartLine({
+      menuItem: optionsItem,
+      quantity: 1,
+      variantId,
+      modifierOptionIds,
+      unitPrice: line.unitPrice,
+      optionsLabel: [line.variantName, ...line.modifiers.map(m => m.name)].filter(Boolean).join(', '),
     })
+    setOptionsItem(null)
   }
 
+  // Card +/- buttons act on the most recently added line of the item
   const handleUpdateQuantity = (itemId: string, delta: number) => {
+    const lines = cart.filter(c => c.menuItem.id === itemId)
+    const last = lines[lines.length - 1]
+    if (!last) return
+
+    if (delta > 0 && hasConfigurableOptions(last.menuItem)) {
+      setOptionsItem(last.menuItem)
+      return
+    }
+
+    const lineKey = getCartLineKey(last)
     setCart((prev) => {
       return prev
         .map(c =>
-          c.menuItem.id === itemId
+          getCartLineKey(c) === lineKey
             ? { ...c, quantity: Math.max(0, c.quantity + delta) }
             : c
         )
@@ -411,6 +452,13 @@ export function BroadwayLayout({
           />
         ))}
       </div>
+
+      <ItemOptionsDialog
+        item={optionsItem}
+        onOpenChange={(open) => !open && setOptionsItem(null)}
+        onConfirm={handleConfirmOptions}
+        formatPrice={(amount) => `Rs. ${amount.toLocaleString()}`}
+      />
     </div>
   )
 }
@@ -6,9 +6,16 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
 import { Plus, Minus, Trash, ShoppingCart, User, MapPin, Notepad, Receipt } from '@phosphor-icons/react'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
+import { getCartItemUnitPrice, getCartLineKey } from '@/lib/utils/cart-calculations'
+import { useLocations } from '@/lib/hooks/use-locations'
+import { useCustomerLoyalty } from '@/lib/hooks/use-loyalty'
+import { planRedemption } from '@/lib/loyalty/loyalty'
+import { usePromotions } from '@/lib/hooks/use-promotions'
+import { evaluatePromotions } from '@/lib/promotions/promotions'
 
 interface CartSheetProps {
   cart: CartItem[]
@@ -16,7 +23,7 @@ interface CartSheetProps {
   settings: RestaurantSettings
   orders: Order[]
   setOrders: (orders: Order[] | ((prev: Order[]) => Order[])) => void
-  location: { type: string, country: string, city: string, area: string } | null
+  location: { type: string, country: string, city: string, area: string, locationId?: string } | null
   onClose: () => void
   customer?: any
 }
@@ -26,7 +33,6 @@ export default function CartSheet({
   setCart,
   settings,
   orders: _orders,
-  orders: _orders,
   setOrders,
   location,
   onClose,
@@ -49,17 +55,62 @@ export default function CartSheet({
   const [orderType, setOrderType] = useState<OrderType>(location ? 'DELIVERY' : 'TAKEAWAY')
   const [address, setAddress] = useState(customer?.address || '')
   const [notes, setNotes] = useState('')
+  const [usePoints, setUsePoints] = useState(false)
+
+  // The selected branch's own fee and minimum override the restaurant defaults
+  const { data: locations = [] } = useLocations()
+  const branch = locations.find(l => l.id === location?.locationId)
+  const branchDeliveryFee = branch?.deliveryFee != null ? Number(branch.deliveryFee) : settings.deliveryFee
+  const minimumOrder = branch?.minimumOrder != null ? Number(branch.minimumOrder) : settings.minimumOrder
+
+  const subtotal = cart.reduce((sum, item) => sum + getCartItemUnitPrice(item) * item.quantity, 0)
+  const deliveryFee = orderType === 'DELIVERY' ? branchDeliveryFee : 0
+
+  // Preview of the promotions the server will apply at checkout
+  const { data: promotions = [] } = usePromotions()
+  const promotionResult = evaluatePromotions(
+    promotions.map(promotion => ({
+      ...promotion,
+      linkedCategoryId: promotion.linkedCategoryId ?? null,
+      linkedMenuItemIds: promotion.linkedMenuItemIds ?? [],
+      validFrom: promotion.validFrom ? new Date(promotion.validFrom) : null,
+      validUntil: promotion.validUntil ? new Date(promotion.validUntil) : null,
+      minOrderAmount: promotion.minOrderAmount ?? null,
+      maxDiscount: promotion.maxDiscount ?? null,
+      stackable: promotion.stackable ?? false,
+      priority: promotion.priority ?? 0,
+    })),
+    cart.map(item => ({
+      menuItemId: item.menuItem.id,
+      categoryId: item.menuItem.categoryId,
+      unitPrice: getCartItemUnitPrice(item),
+      quantity: item.quantity,
+    }))
+  )
+  const promotionDiscount = promotionResult.discount
+
+  // Signed-in customers can spend their whole balance, up to the program's cap
+  const { loyalty, refresh: refreshLoyalty } = useCustomerLoyalty(customer?.id)
+  const redemption = loyalty?.program.enabled && loyalty.balance > 0
+    ? planRedemption({
+      requestedPoints: loyalty.balance,
+      balance: loyalty.balance,
+      orderAmount: subtotal - promotionDiscount,
+      settings: loyalty.program,
+    })
+    : null
+  const redeemable = redemption?.success ? redemption : null
+  const loyaltyDiscount = usePoints && redeemable ? redeemable.discount : 0
 
-  const subtotal = cart.reduce((sum, item) => sum + item.menuItem.price * item.quantity, 0)
-  const deliveryFee = orderType === 'DELIVERY' ? settings.deliveryFee : 0
-  const tax = (subtotal + deliveryFee) * settings.taxRate
-  const total = subtotal + deliveryFee + tax
+  const discountedSubtotal = subtotal - promotionDiscount - loyaltyDiscount
+  const tax = (discountedSubtotal + deliveryFee) * settings.taxRate
+  const total = discountedSubtotal + deliveryFee + tax
 
-  const updateQuantity = (itemId: string, delta: number) => {
+  const updateQuantity = (lineKey: string, delta: number) => {
     setCart((currentCart) => {
       return currentCart
         .map(item =>
-          item.menuItem.id === itemId
+          getCartLineKey(item) === lineKey
             ? { ...item, quantity: Math.max(0, item.quantity + delta) }
             : item
         )
@@ -67,8 +118,8 @@ export default function CartSheet({
     })
   }
 
-  const removeItem = (itemId: string) => {
-    setCart((currentCart) => currentCart.filter(item => item.menuItem.id !== itemId))
+  const removeItem = (lineKey: string) => {
+    setCart((currentCart) => currentCart.filter(item => getCartLineKey(item) !== lineKey))
   }
 
   const handlePlaceOrder = async () => {
@@ -82,8 +133,8 @@ export default function CartSheet({
       return
     }
 
-    if (subtotal < settings.minimumOrder) {
-      toast.error(`Minimum order is $${settings.minimumOrder.toFixed(2)}`)
+    if (subtotal < minimumOrder) {
+      toast.error(`Minimum order is $${minimumOrder.toFixed(2)}`)
       return
     }
 
@@ -97,6 +148,8 @@ export default function CartSheet({
       items: cart.map(item => ({
         menuItemId: item.menuItem.id,
         quantity: item.quantity,
+        variantId: item.variantId,
+        modifierOptionIds: item.modifierOptionIds,
         specialInstructions: item.specialInstructions
       })),
       customerName,
@@ -104,7 +157,10 @@ export default function CartSheet({
       customerPhone,
       orderType,
       address: fullAddress, // Send address for both (Delivery Addr or Pickup Branch)
-      notes: notes || undefined
+      locationId: location?.locationId,
+      notes: notes || undefined,
+      customerId: customer?.id,
+      redeemPoints: usePoints && redeemable ? redeemable.points : undefined
     }
 
     try {
@@ -129,6 +185,8 @@ export default function CartSheet({
       setCustomerPhone('')
       setAddress('')
       setNotes('')
+      setUsePoints(false)
+      refreshLoyalty()
       onClose()
       toast.success('Order placed successfully! 🎉')
     } catch (error) {
@@ -237,18 +295,6 @@ export default function CartSheet({
                     </Label>
                 </RadioGroup>
 
-            {orderType === 'delivery' && (
-              <div className="space-y-1.5 animate-in fade-in slide-in-from-top-2">
-                <Label className="text-[10px] font-black uppercase tracking-widest text-muted-foreground ml-1">Complete Address (House / Flat / Block)</Label>
-                <Input
-                  value={address}
-                  onChange={(e) => setAddress(e.target.value)}
-                  placeholder="e.g. House 42, Street 11..."
-                  className="bg-muted border-border h-14 rounded-2xl focus:ring-primary text-foreground"
-                />
-              </div>
-            )}
-          </div>
                 {orderType === 'DELIVERY' && (
                     <div className="space-y-1.5 animate-in fade-in slide-in-from-top-2">
                         <Label className="text-[10px] font-black uppercase tracking-widest text-muted-foreground ml-1">Complete Address (House / Flat / Block)</Label>
@@ -286,6 +332,26 @@ export default function CartSheet({
                     <span className="uppercase text-xs tracking-widest">Subtotal ({cart.length} items)</span>
                     <span className="font-mono tracking-tighter">Rs. {subtotal.toLocaleString()}</span>
                 </div>
+                {promotionResult.applied.map((applied) => (
+                    <div key={applied.promotionId} className="flex justify-between text-green-500 font-medium">
+                        <span className="uppercase text-xs tracking-widest">{applied.title}</span>
+                        <span className="font-mono tracking-tighter">- Rs. {applied.amount.toLocaleString()}</span>
+                    </div>
+                ))}
+                {redeemable && (
+                    <label className="flex items-center justify-between gap-4 text-muted-foreground font-medium cursor-pointer">
+                        <span className="uppercase text-xs tracking-widest">
+                            Use {redeemable.points.toLocaleString()} of {loyalty?.balance.toLocaleString()} points
+                        </span>
+                        <Switch checked={usePoints} onCheckedChange={setUsePoints} />
+                    </label>
+                )}
+                {loyaltyDiscount > 0 && (
+                    <div className="flex justify-between text-green-500 font-medium">
+                        <span className="uppercase text-xs tracking-widest">Points Discount</span>
+                        <span className="font-mono tracking-tighter">- Rs. {loyaltyDiscount.toLocaleString()}</span>
+                    </div>
+                )}
                 {orderType === 'DELIVERY' && (
                     <div className="flex justify-between text-muted-foreground font-medium">
                         <span className="uppercase text-xs tracking-widest">Delivery Fee</span>
@@ -320,7 +386,7 @@ export default function CartSheet({
     <div className="py-8 space-y-10 animate-in slide-in-from-bottom duration-500">
       <div className="space-y-6">
         {cart.map(item => (
-          <div key={item.menuItem.id} className="flex items-center gap-6 p-4 rounded-[2rem] bg-card border border-border hover:border-border/80 transition-all group">
+          <div key={getCartLineKey(item)} className="flex items-center gap-6 p-4 rounded-[2rem] bg-card border border-border hover:border-border/80 transition-all group">
             <div className="relative w-24 h-24 overflow-hidden rounded-2xl shrink-0">
               <img
                 src={item.menuItem.image}
@@ -331,21 +397,24 @@ export default function CartSheet({
             <div className="flex-1 min-w-0">
               <span className="text-[10px] font-black uppercase tracking-widest text-primary/60 mb-1 block">Selected Treat</span>
               <h4 className="font-black text-foreground text-lg uppercase tracking-tight leading-none mb-2">{item.menuItem.name}</h4>
+              {item.optionsLabel && (
+                <p className="text-xs text-muted-foreground mb-1 truncate">{item.optionsLabel}</p>
+              )}
               <p className="text-sm font-bold text-muted-foreground uppercase tracking-widest">
-                Rs. {item.menuItem.price.toLocaleString()}
+                Rs. {getCartItemUnitPrice(item).toLocaleString()}
               </p>
             </div>
 
             <div className="flex flex-col items-end gap-3">
               <div className="text-xl font-black text-foreground font-mono tracking-tighter italic">
-                Rs. {(item.menuItem.price * item.quantity).toLocaleString()}
+                Rs. {(getCartItemUnitPrice(item) * item.quantity).toLocaleString()}
               </div>
               <div className="flex items-center gap-3 bg-muted p-1.5 rounded-xl border border-border shadow-inner">
                 <Button
                   size="icon"
                   variant="ghost"
                   className="h-8 w-8 rounded-lg hover:bg-background text-foreground"
-                  onClick={() => updateQuantity(item.menuItem.id, -1)}
+                  onClick={() => updateQuantity(getCartLineKey(item), -1)}
                 >
                   <Minus size={14} weight="bold" />
                 </Button>
@@ -354,7 +423,7 @@ export default function CartSheet({
                   size="icon"
                   variant="ghost"
                   className="h-8 w-8 rounded-lg hover:bg-primary hover:text-primary-foreground bg-primary/10 text-primary"
-                  onClick={() => updateQuantity(item.menuItem.id, 1)}
+                  onClick={() => updateQuantity(getCartLineKey(item), 1)}
                 >
                   <Plus size={14} weight="bold" />
                 </Button>
@@ -365,7 +434,7 @@ export default function CartSheet({
               size="icon"
               variant="ghost"
               className="h-10 w-10 text-red-500/50 hover:text-red-500 hover:bg-red-500/5 transition-all"
-              onClick={() => removeItem(item.menuItem.id)}
+              onClick={() => removeItem(getCartLineKey(item))}
             >
               <Trash size={18} weight="bold" />
             </Button>
@@ -379,11 +448,11 @@ export default function CartSheet({
             <span className="text-sm font-black uppercase tracking-[0.2em] text-muted-foreground">Basket Subtotal</span>
             <span className="text-3xl font-black text-foreground font-mono tracking-tighter italic">Rs. {subtotal.toLocaleString()}</span>
           </div>
-          {subtotal < settings.minimumOrder && (
+          {subtotal < minimumOrder && (
             <div className="flex items-center gap-3 text-red-500 animate-pulse">
               <Trash size={16} weight="fill" />
               <p className="text-[10px] font-black uppercase tracking-widest">
-                Minimum Rs. {settings.minimumOrder.toLocaleString()} Required
+                Minimum Rs. {minimumOrder.toLocaleString()} Required
               </p>
             </div>
           )}
@@ -391,7 +460,7 @@ export default function CartSheet({
 
         <Button
           onClick={() => setCheckoutMode(true)}
-          disabled={subtotal < settings.minimumOrder}
+          disabled={subtotal < minimumOrder}
           className="w-full h-20 bg-primary text-primary-foreground font-black uppercase text-xl lg:text-2xl tracking-[0.1em] rounded-3xl shadow-2xl shadow-primary/20 hover:scale-[1.01] transition-all disabled:opacity-20 disabled:grayscale"
         >
           Proceed to Checkout
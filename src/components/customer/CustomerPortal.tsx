@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { MenuItem, Order, RestaurantSettings, Category, HeroConfig, Promotion, FeaturedItem, Banner, LandingPageConfig, CartItem } from '@/lib/types'
 import OrdersView from './OrdersView'
 import { BroadwayLayout } from './BroadwayLayout'
@@ -41,6 +41,7 @@ export default function CustomerPortal({
   landingPageConfig: _landingPageConfig,
 }: CustomerPortalProps) {
   const [view, setView] = useState<'home' | 'orders' | 'profile' | 'locations'>('home')
+  const [linkedOrder, setLinkedOrder] = useState<string | null>(null)
   const [cartRaw, setCart] = useLocalStorage<CartItem[]>('shopping-cart', [])
   const [isCartOpen, setIsCartOpen] = useState(false)
 
@@ -53,7 +54,16 @@ export default function CustomerPortal({
 
   /* Location State */
   const [isLocationModalOpen, setIsLocationModalOpen] = useState(false)
-  const [location, setLocation] = useLocalStorage<{ type: string, country: string, city: string, area: string } | null>('selected-location', null)
+  const [location, setLocation] = useLocalStorage<{ type: string, country: string, city: string, area: string, locationId?: string } | null>('selected-location', null)
+
+  // Links into the portal, like a receipt's QR code, open the orders view
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (params.get('view') === 'orders') {
+      setView('orders')
+      setLinkedOrder(params.get('order'))
+    }
+  }, [])
 
   return (
     <div className="min-h-screen bg-background flex">
@@ -113,14 +123,14 @@ export default function CustomerPortal({
             />
           ) : view === 'orders' ? (
             <div className="max-w-4xl mx-auto px-4 py-8">
-              <OrdersView orders={orders} customer={customer} />
+              <OrdersView orders={orders} customer={customer} highlightOrder={linkedOrder} />
             </div>
           ) : view === 'profile' ? (
             <div className="max-w-6xl mx-auto px-4 py-8">
               <ProfileView customer={customer} setCustomer={setCustomer} sessionOrders={orders} />
             </div>
           ) : view === 'locations' ? (
-            <LocationsView />
+            <LocationsView customer={customer} />
           ) : null}
         </main>
       </div>
@@ -1,11 +1,15 @@
 'use client'
 
+import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Plus } from '@phosphor-icons/react'
 import { toast } from 'sonner'
 import type { FeaturedItem, MenuItem, CartItem } from '@/lib/types'
+import { ItemOptionsDialog, type ItemOptionsSelection } from '@/components/menu/item-options-dialog'
+import { hasConfigurableOptions } from '@/lib/menu/pricing'
+import { getCartLineKey } from '@/lib/utils/cart-calculations'
 
 interface FeaturedItemsProps {
   featuredItems: FeaturedItem[]
@@ -20,6 +24,8 @@ export function FeaturedItems({
   title,
   setCart,
 }: FeaturedItemsProps) {
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null)
+
   // Filter active featured items, join with menu items, and sort by displayOrder
   const activeFeaturedItems = featuredItems
     .filter((item) => item.active)
@@ -37,24 +43,48 @@ export function FeaturedItems({
     return null
   }
 
-  const handleAddToCart = (menuItem: MenuItem) => {
+  const addCartLine = (line: CartItem) => {
+    const lineKey = getCartLineKey(line)
     setCart((prevCart) => {
       const existingItem = prevCart.find(
-        (item) => item.menuItem.id === menuItem.id
+        (item) => getCartLineKey(item) === lineKey
       )
 
       if (existingItem) {
         return prevCart.map((item) =>
-          item.menuItem.id === menuItem.id
+          getCartLineKey(item) === lineKey
             ? { ...item, quantity: existingItem.quantity + 1 }
             : item
         )
       }
 
-      return [...prevCart, { menuItem, quantity: 1 }]
+      return [...prevCart, line]
     })
 
-    toast.success(`${menuItem.name} added to cart`)
+    toast.success(`${line.menuItem.name} added to cart`)
+  }
+
+  const handleAddToCart = (menuItem: MenuItem) => {
+    if (hasConfigurableOptions(menuItem)) {
+      setOptionsItem(menuItem)
+      return
+    }
+
+    addCartLine({ menuItem, quantity: 1 })
+  }
+
+  const handleConfirmOptions = ({ variantId, modifierOptionIds, line }: ItemOptionsSelection) => {
+    if (!optionsItem) return
+
+    addCartLine({
+      menuItem: optionsItem,
+      quantity: 1,
+      variantId,
+      modifierOptionIds,
+      unitPrice: line.unitPrice,
+      optionsLabel: [line.variantName, ...line.modifiers.map(m => m.name)].filter(Boolean).join(', '),
+    })
+    setOptionsItem(null)
   }
 
   const formatPrice = (price: number) => {
@@ -116,6 +146,13 @@ export function FeaturedItems({
           ))}
         </div>
       </div>
+
+      <ItemOptionsDialog
+        item={optionsItem}
+        onOpenChange={(open) => !open && setOptionsItem(null)}
+        onConfirm={handleConfirmOptions}
+        formatPrice={formatPrice}
+      />
     </section>
   )
 }
@@ -12,7 +12,7 @@ import { useLocations } from '@/lib/hooks/use-locations'
 interface LocationModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onLocationConfirm: (details: { type: 'DELIVERY' | 'TAKEAWAY', country: string, city: string, area: string }) => void
+  onLocationConfirm: (details: { type: 'DELIVERY' | 'TAKEAWAY', country: string, city: string, area: string, locationId?: string }) => void
 }
 
 export function LocationModal({ open, onOpenChange, onLocationConfirm }: LocationModalProps) {
@@ -37,11 +37,13 @@ export function LocationModal({ open, onOpenChange, onLocationConfirm }: Locatio
 
   const handleConfirm = () => {
     if (selectedCity && selectedArea) {
+      const branch = locations.find(l => l.city === selectedCity && l.name === selectedArea)
       onLocationConfirm({
         type: orderType,
         country: selectedCountry || countries[0],
         city: selectedCity,
-        area: selectedArea
+        area: selectedArea,
+        locationId: branch?.id
       })
       onOpenChange(false)
     }
@@ -2,13 +2,14 @@
 
 import { useState, useMemo, useEffect } from 'react'
 import { useLocations } from '@/lib/hooks/use-locations'
-import { MapPin, Phone, Globe, Clock, ArrowRight } from '@phosphor-icons/react'
+import { MapPin, Phone, Globe, Clock, ArrowRight, CalendarCheck } from '@phosphor-icons/react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from '@/components/ui/carousel'
 import { cn } from '@/lib/utils'
 import { getFamousCountryImages, getCityImage } from '@/lib/utils/world-data'
+import { BookTableDialog } from './BookTableDialog'
 
 const fixBrokenImageUrl = (url: string, type: 'country' | 'city', name: string, parentName?: string) => {
   const isBroken = !url || 
@@ -31,8 +32,13 @@ const handleImageError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
   }
 };
 
-export default function LocationsView() {
+interface LocationsViewProps {
+  customer?: any
+}
+
+export default function LocationsView({ customer }: LocationsViewProps) {
   const { data: locations = [], isLoading } = useLocations()
+  const [bookingLocation, setBookingLocation] = useState<{ id: string; name: string } | null>(null)
   const [selectedCountry, setSelectedCountry] = useState<string>('')
   const [selectedCity, setSelectedCity] = useState<string>('')
   const [cityApi, setCityApi] = useState<CarouselApi>()
@@ -334,11 +340,26 @@ export default function LocationsView() {
                   Visit
                   <ArrowRight weight="bold" size={12} />
                 </button>
+                {loc.hasDineIn !== false && (
+                  <button
+                    onClick={() => setBookingLocation({ id: loc.id, name: loc.name })}
+                    className="w-full py-3 bg-primary/10 hover:bg-primary text-primary hover:text-primary-foreground font-black uppercase tracking-[0.2em] text-[7px] rounded-lg transition-all duration-500 flex items-center justify-center gap-2"
+                  >
+                    Book a Table
+                    <CalendarCheck weight="fill" size={12} />
+                  </button>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
       </div>
+
+      <BookTableDialog
+        location={bookingLocation}
+        customer={customer}
+        onOpenChange={(open) => !open && setBookingLocation(null)}
+      />
     </div>
   )
 }
@@ -10,6 +10,9 @@ import { toast } from 'sonner'
 import { Skeleton } from '@/components/ui/skeleton'
 import { cn } from '@/lib/utils'
 import type { MenuItem, Category, CartItem, RestaurantSettings } from '@/lib/types'
+import { ItemOptionsDialog, type ItemOptionsSelection } from '@/components/menu/item-options-dialog'
+import { hasConfigurableOptions } from '@/lib/menu/pricing'
+import { getCartLineKey } from '@/lib/utils/cart-calculations'
 
 // Price formatter using Intl.NumberFormat
 const formatPrice = (price: number): string => {
@@ -268,11 +271,13 @@ export default function MenuView({
 }: MenuViewProps) {
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>('all')
   const [searchQuery, setSearchQuery] = useState<string>('')
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null)
 
-  // Get quantity for a specific item
+  // Get quantity for a specific item across all of its option combinations
   const getItemQuantity = (itemId: string): number => {
-    const cartItem = cart.find((item) => item.menuItem.id === itemId)
-    return cartItem?.quantity ?? 0
+    return cart
+      .filter((item) => item.menuItem.id === itemId)
+      .reduce((sum, item) => sum + item.quantity, 0)
   }
 
   // Get category name by ID
@@ -304,10 +309,10 @@ export default function MenuView({
   }, [menuItems, selectedCategoryId, searchQuery])
 
   // Handle quantity update
-  const handleUpdateQuantity = (itemId: string, diff: number) => {
+  const handleUpdateQuantity = (lineKey: string, diff: number) => {
     setCart(prev => {
       return prev.map(item => {
-        if (item.menuItem.id === itemId) {
+        if (getCartLineKey(item) === lineKey) {
           const newQty = item.quantity + diff
           return { ...item, quantity: newQty }
         }
@@ -316,6 +321,23 @@ export default function MenuView({
     })
   }
 
+  // Add a line, merging with an existing line that has the same options
+  const addCartLine = (line: CartItem) => {
+    const lineKey = getCartLineKey(line)
+    setCart(prev => {
+      const existing = prev.find(i => getCartLineKey(i) === lineKey)
+      if (existing) {
+        return prev.map(i => getCartLineKey(i) === lineKey ? { ...i, quantity: i.quantity + 1 } : i)
+      }
+      return [...prev, line]
+    })
+
+    toast.success(`${line.menuItem.name} added to cart`, {
+      position: 'bottom-center',
+      duration: 2000,
+    })
+  }
+
   // Handle add to cart
   const handleAddItem = (item: MenuItem) => {
     if (!isLocationSet) {
@@ -323,28 +345,36 @@ export default function MenuView({
       return
     }
 
-    setCart(prev => {
-      const existing = prev.find(i => i.menuItem.id === item.id)
-      if (existing) {
-        return prev.map(i => i.menuItem.id === item.id ? { ...i, quantity: i.quantity + 1 } : i)
-      }
-      // If item needs to be converted to CartItem structure
-      const cartItem: CartItem = {
-        menuItem: item,
-        quantity: 1,
-      }
-      return [...prev, cartItem]
-    })
+    // Items with sizes or add-ons go through the options picker first
+    if (hasConfigurableOptions(item)) {
+      setOptionsItem(item)
+      return
+    }
 
-    toast.success(`${item.name} added to cart`, {
-      position: 'bottom-center',
-      duration: 2000,
+    addCartLine({ menuItem: item, quantity: 1 })
+  }
+
+  const handleConfirmOptions = ({ variantId, modifierOptionIds, line }: ItemOptionsSelection) => {
+    if (!optionsItem) return
+
+    addCartLine({
+      menuItem: optionsItem,
+      quantity: 1,
+      variantId,
+      modifierOptionIds,
+      unitPrice: line.unitPrice,
+      optionsLabel: [line.variantName, ...line.modifiers.map(m => m.name)].filter(Boolean).join(', '),
     })
+    setOptionsItem(null)
   }
 
-  // Handle remove from cart
+  // Handle remove from cart - removes from the most recently added line of the item
   const handleRemoveItem = (item: MenuItem) => {
-    handleUpdateQuantity(item.id, -1)
+    const lines = (cart ?? []).filter(i => i.menuItem.id === item.id)
+    const last = lines[lines.length - 1]
+    if (last) {
+      handleUpdateQuantity(getCartLineKey(last), -1)
+    }
   }
 
   const isLoadingCategories = false
@@ -416,6 +446,13 @@ export default function MenuView({
           {searchQuery && ` matching "${searchQuery}"`}
         </p>
       )}
+
+      <ItemOptionsDialog
+        item={optionsItem}
+        onOpenChange={(open) => !open && setOptionsItem(null)}
+        onConfirm={handleConfirmOptions}
+        formatPrice={formatPrice}
+      />
     </div>
   )
 }
@@ -9,10 +9,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
 
 interface OrdersViewProps {
   orders?: Order[]
   customer?: any
+  /** Order number to pick out, e.g. from a receipt's QR code */
+  highlightOrder?: string | null
 }
 
 const statusConfig: Record<OrderStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
@@ -25,7 +28,7 @@ const statusConfig: Record<OrderStatus, { label: string; variant: 'default' | 's
   CANCELLED: { label: 'Cancelled', variant: 'destructive' },
 }
 
-export default function OrdersView({ orders = [], customer }: OrdersViewProps) {
+export default function OrdersView({ orders = [], customer, highlightOrder }: OrdersViewProps) {
   const [lookupEmail, setLookupEmail] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [foundOrders, setFoundOrders] = useState<Order[]>([])
@@ -85,18 +88,23 @@ export default function OrdersView({ orders = [], customer }: OrdersViewProps) {
     // Add/Overwrite with session orders (newer)
     orders.forEach(o => orderMap.set(o.id, o))
 
-    // Convert to array and sort by date desc
+    // Convert to array and sort by date desc, with the linked order first
     return Array.from(orderMap.values()).sort((a, b) => {
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      const linked = Number(b.orderNumber === highlightOrder) - Number(a.orderNumber === highlightOrder)
+      return linked || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     })
-  }, [orders, foundOrders])
+  }, [orders, foundOrders, highlightOrder])
 
   if (displayOrders.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 space-y-8 animate-in fade-in zoom-in duration-500">
         <div className="text-center space-y-2">
           <h2 className="text-3xl font-black uppercase tracking-tighter text-foreground">Track Your Order</h2>
-          <p className="text-muted-foreground">Enter your email address to view your order history</p>
+          <p className="text-muted-foreground">
+            {highlightOrder
+              ? `Enter the email address on order ${highlightOrder} to view it`
+              : 'Enter your email address to view your order history'}
+          </p>
         </div>
 
         <Card className="w-full max-w-md bg-card border-border">
@@ -134,11 +142,14 @@ export default function OrdersView({ orders = [], customer }: OrdersViewProps) {
 
       <div className="space-y-4">
         {displayOrders.map(order => (
-          <Card key={order.id} className="bg-card border-border overflow-hidden">
+          <Card
+            key={order.id}
+            className={cn('bg-card border-border overflow-hidden', highlightOrder && order.orderNumber === highlightOrder && 'ring-2 ring-primary')}
+          >
             <CardHeader className="bg-muted/50 pb-4">
               <div className="flex items-start justify-between">
                 <div>
-                  <CardTitle className="text-lg text-foreground font-bold tracking-tight">Order #{order.id.slice(-6).toUpperCase()}</CardTitle>
+                  <CardTitle className="text-lg text-foreground font-bold tracking-tight">Order #{order.orderNumber ?? order.id.slice(-6).toUpperCase()}</CardTitle>
                   <p className="text-xs text-muted-foreground mt-1 uppercase tracking-wider font-medium">
                     {format(new Date(order.createdAt), 'MMM d, yyyy • h:mm a')}
                   </p>
@@ -13,9 +13,11 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog"
-import { User, Phone, Envelope, MapPin, LockKey, SignOut, Clock, Bag, ChartPieSlice, Spinner, CheckCircle, ArrowRight } from '@phosphor-icons/react'
+import { User, Phone, Envelope, MapPin, LockKey, SignOut, Clock, Bag, ChartPieSlice, Spinner, CheckCircle, ArrowRight, CalendarCheck } from '@phosphor-icons/react'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
+import { useCustomerLoyalty } from '@/lib/hooks/use-loyalty'
+import { useCustomerReservations, type GuestReservation } from '@/lib/hooks/use-reservations'
 
 interface ProfileViewProps {
   customer: any
@@ -27,6 +29,8 @@ export function ProfileView({ customer, setCustomer, sessionOrders = [] }: Profi
   const [loading, setLoading] = useState(false)
   const [fetchedOrders, setFetchedOrders] = useState<any[]>([])
   const [fetchingOrders, setFetchingOrders] = useState(false)
+  const { loyalty } = useCustomerLoyalty(customer?.id)
+  const { upcoming: upcomingReservations, past: pastReservations } = useCustomerReservations(customer?.id)
 
   // Combined orders (Session + DB), deduplicated
   const allOrders = [
@@ -291,6 +295,64 @@ export function ProfileView({ customer, setCustomer, sessionOrders = [] }: Profi
                 ))}
               </div>
             )}
+
+            {(upcomingReservations.length > 0 || pastReservations.length > 0) && (
+              <>
+                <div className="flex items-center justify-between px-4 pt-6">
+                  <div className="flex items-center gap-3">
+                    <CalendarCheck size={24} className="text-primary" weight="fill" />
+                    <h3 className="text-xl font-black text-foreground uppercase tracking-tight">Reservations</h3>
+                  </div>
+                  <span className="text-[10px] font-black text-muted-foreground uppercase tracking-[0.3em]">
+                    {upcomingReservations.length} Upcoming
+                  </span>
+                </div>
+
+                <div className="space-y-4">
+                  {[...upcomingReservations, ...pastReservations.slice(0, 5)].map((reservation: GuestReservation) => (
+                    <Card key={reservation.id} className="bg-card border-border hover:border-primary/50 transition-all rounded-[2rem] p-6 group">
+                      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+                        <div className="flex gap-4">
+                          <div className="w-12 h-12 bg-muted rounded-xl flex items-center justify-center shrink-0">
+                            <CalendarCheck size={24} weight="fill" className="text-primary" />
+                          </div>
+                          <div>
+                            <div className="text-[10px] font-black text-primary uppercase tracking-widest mb-1">{reservation.reservationNumber}</div>
+                            <h4 className="text-foreground font-black text-lg uppercase tracking-tight italic">
+                              {reservation.location.name}
+                            </h4>
+                            <div className="text-muted-foreground text-[10px] font-medium tracking-wide">
+                              {new Date(`${reservation.date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                              {' · '}{reservation.time} · {reservation.partySize} {reservation.partySize === 1 ? 'guest' : 'guests'}
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-4 w-full md:w-auto border-t md:border-t-0 border-border pt-4 md:pt-0">
+                          <div className={cn(
+                            "px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest",
+                            reservation.status === 'CONFIRMED' || reservation.status === 'COMPLETED' ? "bg-green-500/10 text-green-500" :
+                              reservation.status === 'PENDING' ? "bg-amber-500/10 text-amber-500" :
+                                reservation.status === 'CANCELLED' || reservation.status === 'NO_SHOW' ? "bg-red-500/10 text-red-500" :
+                                  "bg-primary/10 text-primary"
+                          )}>
+                            {reservation.status.replace(/_/g, ' ')}
+                          </div>
+                          {reservation.manageUrl && (
+                            <a
+                              href={reservation.manageUrl}
+                              className="px-4 py-2 bg-muted rounded-xl text-[10px] font-black uppercase tracking-widest text-muted-foreground hover:text-primary transition-colors"
+                            >
+                              Manage
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
 
           <div className="space-y-6">
@@ -367,18 +429,55 @@ export function ProfileView({ customer, setCustomer, sessionOrders = [] }: Profi
               </DialogContent>
             </Dialog>
 
-            <Card className="bg-gradient-to-br from-primary/20 to-transparent border-primary/20 rounded-[2.5rem] p-8 text-center relative overflow-hidden group">
-              <div className="absolute -bottom-4 -right-4 opacity-5 group-hover:scale-110 transition-transform">
-                <CheckCircle size={120} weight="bold" className="text-accent" />
-              </div>
-              <div className="relative z-10 space-y-4">
-                <h4 className="text-primary-foreground font-black text-lg uppercase tracking-tight">Loyalty Streak</h4>
-                <div className="text-4xl font-black text-accent italic font-mono tracking-tighter">04 Orders</div>
-                <p className="text-primary-foreground/40 text-[9px] font-bold uppercase tracking-[0.2em] leading-relaxed">
-                  Complete 10 orders to unlock Broadway Gold benefits.
-                </p>
-              </div>
-            </Card>
+            {loyalty && (loyalty.program.enabled || loyalty.transactions.length > 0) && (
+              <Card className="bg-gradient-to-br from-primary/20 to-transparent border-primary/20 rounded-[2.5rem] p-8 text-center relative overflow-hidden group">
+                <div className="absolute -bottom-4 -right-4 opacity-5 group-hover:scale-110 transition-transform">
+                  <CheckCircle size={120} weight="bold" className="text-accent" />
+                </div>
+                <div className="relative z-10 space-y-4">
+                  <h4 className="text-primary-foreground font-black text-lg uppercase tracking-tight">
+                    {loyalty.tier ? `${loyalty.tier.name} Member` : 'Loyalty Points'}
+                  </h4>
+                  <div className="text-4xl font-black text-accent italic font-mono tracking-tighter">
+                    {loyalty.balance.toLocaleString()} Points
+                  </div>
+                  {loyalty.program.pointValue > 0 && loyalty.balance > 0 && (
+                    <p className="text-primary-foreground/60 text-[10px] font-bold uppercase tracking-widest">
+                      Worth Rs. {(loyalty.balance * loyalty.program.pointValue).toLocaleString()} at checkout
+                    </p>
+                  )}
+                  <p className="text-primary-foreground/40 text-[9px] font-bold uppercase tracking-[0.2em] leading-relaxed">
+                    {loyalty.nextTier
+                      ? `Earn ${loyalty.nextTier.pointsNeeded.toLocaleString()} more points to unlock ${loyalty.nextTier.name}.`
+                      : loyalty.tier?.benefits || `${loyalty.lifetimePoints.toLocaleString()} points earned all time.`}
+                  </p>
+                </div>
+              </Card>
+            )}
+
+            {loyalty && loyalty.transactions.length > 0 && (
+              <Card className="bg-card border-border rounded-[2.5rem] p-8 space-y-4">
+                <Label className="text-[10px] font-black uppercase tracking-[0.4em] text-muted-foreground ml-1">Points History</Label>
+                <ul className="space-y-3">
+                  {loyalty.transactions.map((entry) => (
+                    <li key={entry.id} className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="text-foreground text-xs font-bold">{entry.description || entry.type.replace(/_/g, ' ')}</div>
+                        <div className="text-muted-foreground text-[10px] font-medium tracking-wide">
+                          {new Date(entry.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                        </div>
+                      </div>
+                      <span className={cn(
+                        "text-sm font-black font-mono shrink-0",
+                        entry.points >= 0 ? "text-green-500" : "text-red-500"
+                      )}>
+                        {entry.points > 0 ? '+' : ''}{entry.points.toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
           </div>
         </div>
       </div>
@@ -14,8 +14,17 @@ interface ServerToClientEvents {
     'kitchen:new-order': (data: { kitchenOrder: any }) => void
     'kitchen:order-updated': (data: { kitchenOrderId: string; status: string; stationId: string }) => void
     'kitchen:order-bumped': (data: { kitchenOrderId: string; stationId: string }) => void
+    'kitchen:item-ready': (data: { kitchenOrderId: string; itemId: string }) => void
+    'order:created': (data: { order: { id: string; orderNumber: string; status: string } }) => void
     'order:status-changed': (data: { orderId: string; status: string; locationId: string }) => void
+    'order:payment-received': (data: { orderId: string; amount: number; status: string }) => void
     'table:status-changed': (data: { tableId: string; status: string; areaId: string }) => void
+    'reservation:created': (data: { reservation: { id: string; status: string } }) => void
+    'reservation:updated': (data: { reservationId: string; status: string }) => void
+    'reservation:seated': (data: { reservationId: string; tableId: string }) => void
+    'waitlist:updated': (data: { entry: { id: string; position: number; status: string } }) => void
+    'inventory:stock-updated': (data: { itemId: string; locationId: string; newStock: number }) => void
+    'inventory:low-stock': (data: { itemId: string; itemName: string; currentStock: number; minimumStock: number }) => void
 }
 
 interface ClientToServerEvents {
@@ -191,4 +200,26 @@ export function useKitchenSocket(stationId: string, locationId: string) {
     }
 }
 
+// Re-fetches data whenever one of the given events arrives for the location
+export function useLiveRefresh(
+    events: Array<keyof ServerToClientEvents>,
+    onUpdate: () => void,
+    locationId?: string
+) {
+    const { isConnected, on } = useSocket({ autoConnect: !!locationId, locationId })
+    const updateRef = useRef(onUpdate)
+    updateRef.current = onUpdate
+    const eventKey = events.join(',')
+
+    useEffect(() => {
+        if (!isConnected) return
+        const handler = () => updateRef.current()
+        const unsubscribes = (eventKey.split(',') as Array<keyof ServerToClientEvents>)
+            .map(event => on(event, handler))
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+    }, [isConnected, on, eventKey])
+
+    return { isConnected }
+}
+
 export default useSocket
@@ -1,3 +1,5 @@
+import type { MenuItemVariant, ModifierGroup } from '@/lib/menu/pricing'
+
 export interface Category {
   id: string
   name: string
@@ -16,13 +18,18 @@ export interface MenuItem {
   dietaryTags: string[]
   available: boolean
   popular?: boolean
-  popular?: boolean
+  variants?: MenuItemVariant[] | null
+  modifiers?: ModifierGroup[] | null
 }
 
 export interface CartItem {
   menuItem: MenuItem
   quantity: number
   specialInstructions?: string
+  variantId?: string
+  modifierOptionIds?: string[]
+  unitPrice?: number // base price plus variant and modifiers, set when options were picked
+  optionsLabel?: string
 }
 
 export type OrderStatus = 'PENDING' | 'CONFIRMED' | 'PREPARING' | 'READY' | 'SERVED' | 'COMPLETED' | 'CANCELLED'
@@ -31,6 +38,7 @@ export type OrderType = 'DINE_IN' | 'TAKEAWAY' | 'DELIVERY' | 'DRIVE_THRU'
 
 export interface Order {
   id: string
+  orderNumber?: string
   items: CartItem[]
   customerName: string
   customerEmail: string
@@ -98,6 +106,10 @@ export interface Promotion {
   linkedMenuItemIds?: string[]
   validFrom?: number
   validUntil?: number
+  minOrderAmount?: number
+  maxDiscount?: number
+  stackable?: boolean // Combines with other stackable promotions; otherwise applies alone
+  priority?: number
   active: boolean
   displayOrder: number
 }
@@ -154,6 +166,8 @@ export interface Location {
   latitude?: number
   longitude?: number
   hours?: string
+  deliveryFee?: number | string | null
+  minimumOrder?: number | string | null
   active: boolean
   slug: string
   createdAt: string | Date
@@ -76,6 +76,21 @@ describe('calculateOrderTotal', () => {
     expect(result.total).toBeCloseTo(32.3676, 2)
   })
 
+  it('uses the configured unit price for lines with options', () => {
+    const cart = [
+      createMockCartItem({
+        menuItem: createMockMenuItem({ price: 10 }),
+        quantity: 2,
+        variantId: 'large',
+        unitPrice: 13.5,
+      }),
+    ]
+
+    const result = calculateOrderTotal(cart, 'TAKEAWAY', settings)
+
+    expect(result.subtotal).toBe(27)
+  })
+
   it('applies different tax rates correctly', () => {
     const highTaxSettings = createMockRestaurantSettings({ taxRate: 0.15 })
     const cart = [
@@ -13,7 +13,7 @@ export function calculateOrderTotal(
   settings: RestaurantSettings
 ): OrderCalculation {
   const subtotal = cart.reduce(
-    (sum, item) => sum + item.menuItem.price * item.quantity,
+    (sum, item) => sum + getCartItemUnitPrice(item) * item.quantity,
     0
   )
 
@@ -29,6 +29,15 @@ export function calculateOrderTotal(
   }
 }
 
+export function getCartItemUnitPrice(item: CartItem): number {
+  return item.unitPrice ?? item.menuItem.price
+}
+
+// Lines of the same item with different options are kept apart in the cart
+export function getCartLineKey(item: CartItem): string {
+  return [item.menuItem.id, item.variantId ?? '', ...[...(item.modifierOptionIds ?? [])].sort()].join(':')
+}
+
 export function validateMinimumOrder(
   subtotal: number,
   minimumOrder: number
@@ -1,9 +1,25 @@
-import { defineConfig } from 'vitest/config'
+import { defineConfig, type Plugin } from 'vitest/config'
 import react from '@vitejs/plugin-react-swc'
 import { resolve } from 'path'
 
+// Resolves '@/' the way tsconfig's paths do: ./src first, then the project root
+function projectPaths(): Plugin {
+  return {
+    name: 'project-paths',
+    enforce: 'pre',
+    async resolveId(source, importer) {
+      if (!source.startsWith('@/')) return null
+      for (const root of ['./src', '.']) {
+        const resolved = await this.resolve(resolve(__dirname, root, source.slice(2)), importer, { skipSelf: true })
+        if (resolved) return resolved
+      }
+      return null
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), projectPaths()],
   test: {
     globals: true,
     environment: 'jsdom',
@@ -36,9 +52,4 @@ export default defineConfig({
     testTimeout: 10000,
     hookTimeout: 10000,
   },
-  resolve: {
-    alias: {
-      '@': resolve(__dirname, './src'),
-    },
-  },
 })